@@ -0,0 +1,18 @@
+// Jest runs the TypeScript sources through ts-jest as CommonJS; the ".js" import
+// suffixes used for ESM output are stripped so modules resolve to their .ts files.
+module.exports = {
+  testEnvironment: 'node',
+  silent: true,
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/__tests__/setup.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: { module: 'commonjs', moduleResolution: 'node', isolatedModules: true },
+      diagnostics: false
+    }]
+  }
+};
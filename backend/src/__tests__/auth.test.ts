@@ -0,0 +1,100 @@
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+import { signDownloadToken, signSessionToken, verifyDownloadToken, verifySessionToken } from '../services/auth.js';
+
+const token = (header: { Authorization: string }) => header.Authorization.slice('Bearer '.length);
+
+// Start a JSON export and wait for the worker to finish it
+const finishedExport = async (user: { Authorization: string }): Promise<string> => {
+  const started = await api().post('/api/exports').set(user).send({ options: { format: 'json', scope: 'all' } });
+  const id = started.body.data.id as string;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const job = await api().get(`/api/exports/${id}`).set(user);
+    if (job.body.data.status === 'completed') return id;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Export did not finish');
+};
+
+describe('download tokens', () => {
+  const path = '/api/exports/1/download';
+
+  it('open only the path they were issued for', () => {
+    const { token: download } = signDownloadToken('user-1', path);
+
+    expect(verifyDownloadToken(download, path)?.sub).toBe('user-1');
+    expect(verifyDownloadToken(download, '/api/exports/2/download')).toBeNull();
+  });
+
+  it('are not session tokens, and session tokens are not download tokens', () => {
+    const { token: download } = signDownloadToken('user-1', path);
+    const { token: session } = signSessionToken('user-1');
+
+    expect(verifySessionToken(download)).toBeNull();
+    expect(verifyDownloadToken(session, path)).toBeNull();
+  });
+
+  it('expire after a few minutes', () => {
+    const issuedAt = new Date('2026-01-01T00:00:00Z');
+    const { token: download } = signDownloadToken('user-1', path, issuedAt);
+
+    expect(verifyDownloadToken(download, path, new Date('2026-01-01T00:04:00Z'))).not.toBeNull();
+    expect(verifyDownloadToken(download, path, new Date('2026-01-01T00:06:00Z'))).toBeNull();
+  });
+});
+
+describe('query-string authentication', () => {
+  let alice: { Authorization: string };
+  let bob: { Authorization: string };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+    bob = await signUp('bob');
+    await api().post('/api/recipes').set(alice).send(recipeInput());
+  });
+
+  it('ignores a session token in the query string', async () => {
+    const response = await api().get('/api/recipes').query({ access_token: token(alice) });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('downloads an export through a download link without the header', async () => {
+    const id = await finishedExport(alice);
+    const link = await api().post(`/api/exports/${id}/download-link`).set(alice);
+    const url = new URL(link.body.data.url);
+
+    const download = await api().get(url.pathname + url.search);
+
+    expect(download.status).toBe(200);
+    expect(download.headers['content-disposition']).toContain('attachment');
+  });
+
+  it('rejects a session token on the download path', async () => {
+    const id = await finishedExport(alice);
+
+    const response = await api().get(`/api/exports/${id}/download`).query({ access_token: token(alice) });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a download token anywhere but its own download', async () => {
+    const id = await finishedExport(alice);
+    const link = await api().post(`/api/exports/${id}/download-link`).set(alice);
+    const downloadToken = new URL(link.body.data.url).searchParams.get('access_token')!;
+
+    const elsewhere = await api().get('/api/recipes').query({ access_token: downloadToken });
+    const asHeader = await api().get(`/api/exports/${id}/download`).set({ Authorization: `Bearer ${downloadToken}` });
+
+    expect(elsewhere.status).toBe(401);
+    expect(asHeader.status).toBe(401);
+  });
+
+  it('does not issue links for another account\'s export', async () => {
+    const id = await finishedExport(alice);
+
+    const response = await api().post(`/api/exports/${id}/download-link`).set(bob);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,147 @@
+import { BackupModel } from '../database/index.js';
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('backup and restore', () => {
+  let alice: { Authorization: string };
+  let ids: {
+    beanId: string;
+    grinderId: string;
+    waterProfileId: string;
+    savedSearchId: string;
+    recipeId: string;
+    sessionId: string;
+    experimentId: string;
+    variantRecipeIds: string[];
+  };
+  let backup: Record<string, any>;
+
+  const recipeNames = async (): Promise<string[]> => {
+    const response = await api().get('/api/recipes').set(alice);
+    return response.body.data.map((recipe: { recipeName: string }) => recipe.recipeName);
+  };
+
+  // Delete everything the backup holds, children before what they link to
+  const deleteAll = async () => {
+    const deletions = [
+      `/api/experiments/${ids.experimentId}?deleteRecipes=true`,
+      `/api/recipes/${ids.recipeId}`,
+      `/api/beans/${ids.beanId}`,
+      `/api/equipment/${ids.grinderId}`,
+      `/api/water-profiles/${ids.waterProfileId}`,
+      `/api/saved-searches/${ids.savedSearchId}`
+    ];
+    for (const path of deletions) {
+      const response = await api().delete(path).set(alice);
+      expect(response.status).toBe(200);
+    }
+  };
+
+  const restore = () => api().post('/api/restore').set(alice).send({ backup, options: {} });
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+
+    const bean = await api().post('/api/beans').set(alice).send({ origin: 'Kenya', processingMethod: 'Washed', bagWeight: 250 });
+    const grinder = await api().post('/api/equipment').set(alice).send({ type: 'grinder', name: 'Comandante C40' });
+    const water = await api().post('/api/water-profiles').set(alice).send({ name: 'Soft', composition: { gh: 50, kh: 30 } });
+    const search = await api().post('/api/saved-searches').set(alice).send({
+      name: 'Kenyans',
+      filters: { origins: ['Kenya'] },
+      sort: { field: 'date-modified', direction: 'desc' }
+    });
+    const recipe = await api().post('/api/recipes').set(alice).send(recipeInput({
+      beanInfo: { beanId: bean.body.data.beanId },
+      brewingParameters: { grinderId: grinder.body.data.equipmentId, waterProfileId: water.body.data.waterProfileId }
+    }, 'Kenya V60'));
+    const session = await api().post(`/api/recipes/${recipe.body.data.recipeId}/sessions`).set(alice).send({
+      measurements: { coffeeBeans: 15, water: 250 },
+      evaluation: { overallImpression: 7 }
+    });
+    const experiment = await api().post('/api/experiments').set(alice).send({
+      name: 'Temperature',
+      baseRecipeId: recipe.body.data.recipeId,
+      variable: 'temperature',
+      variants: [{ value: 90 }, { value: 94 }]
+    });
+    expect(experiment.status).toBe(201);
+
+    ids = {
+      beanId: bean.body.data.beanId,
+      grinderId: grinder.body.data.equipmentId,
+      waterProfileId: water.body.data.waterProfileId,
+      savedSearchId: search.body.data.id,
+      recipeId: recipe.body.data.recipeId,
+      sessionId: session.body.data.sessionId,
+      experimentId: experiment.body.data.experimentId,
+      variantRecipeIds: []
+    };
+  });
+
+  it('backs up every table with the IDs kept, blind variants included', async () => {
+    const response = await api().get('/api/backup').set(alice);
+    expect(response.status).toBe(200);
+    backup = response.body.data;
+    ids.variantRecipeIds = backup.experiments[0].variants.map((variant: { recipeId: string }) => variant.recipeId);
+
+    expect(backup.version).toBe('2.0');
+    expect(backup.beans.map((bean: any) => bean.beanId)).toEqual([ids.beanId]);
+    expect(backup.equipment.map((item: any) => item.equipmentId)).toEqual([ids.grinderId]);
+    expect(backup.waterProfiles.map((profile: any) => profile.waterProfileId)).toEqual([ids.waterProfileId]);
+    expect(backup.savedSearches.map((search: any) => search.id)).toEqual([ids.savedSearchId]);
+    expect(backup.brewSessions.map((session: any) => session.sessionId)).toEqual([ids.sessionId]);
+    expect(backup.revisions.map((revision: any) => revision.recipeId)).toEqual(expect.arrayContaining([ids.recipeId, ...ids.variantRecipeIds]));
+    expect(backup.experiments.map((experiment: any) => experiment.experimentId)).toEqual([ids.experimentId]);
+    expect(backup.recipes.map((recipe: any) => recipe.recipeId).sort()).toEqual([ids.recipeId, ...ids.variantRecipeIds].sort());
+    expect(backup.recipes.find((recipe: any) => recipe.recipeId === ids.recipeId).beanGramsDeducted).toBe(15);
+  });
+
+  it('restores deleted records with their IDs and the recipe links', async () => {
+    await deleteAll();
+
+    const response = await restore();
+    expect(response.status).toBe(200);
+    expect(response.body.data.warnings).toEqual([]);
+
+    const recipe = await api().get(`/api/recipes/${ids.recipeId}`).set(alice);
+    expect(recipe.body.data.beanInfo.beanId).toBe(ids.beanId);
+    expect(recipe.body.data.brewingParameters.grinderId).toBe(ids.grinderId);
+    expect(recipe.body.data.brewingParameters.waterProfileId).toBe(ids.waterProfileId);
+
+    const sessions = await api().get(`/api/recipes/${ids.recipeId}/sessions`).set(alice);
+    expect(sessions.body.data.sessions.map((session: any) => session.sessionId)).toEqual([ids.sessionId]);
+    const revisions = await api().get(`/api/recipes/${ids.recipeId}/revisions`).set(alice);
+    expect(revisions.body.data.length).toBeGreaterThan(0);
+    const search = await api().get(`/api/saved-searches/${ids.savedSearchId}`).set(alice);
+    expect(search.status).toBe(200);
+  });
+
+  it('restores a tasting experiment with its variants still blind', async () => {
+    const experiment = await api().get(`/api/experiments/${ids.experimentId}`).set(alice);
+
+    expect(experiment.body.data.status).toBe('tasting');
+    expect(await recipeNames()).toEqual(['Kenya V60']);
+  });
+
+  it('undoes every write when one fails', async () => {
+    await deleteAll();
+    const insert = BackupModel.insert.bind(BackupModel);
+    const spy = jest.spyOn(BackupModel, 'insert').mockImplementation(async (table, row) => {
+      if (table === 'experiments') throw new Error('Disk full');
+      return insert(table, row);
+    });
+
+    try {
+      const response = await restore();
+      expect(response.status).toBe(422);
+      expect(response.body.data.applied).toBe(false);
+    } finally {
+      spy.mockRestore();
+    }
+
+    const bean = await api().get(`/api/beans/${ids.beanId}`).set(alice);
+    const recipe = await api().get(`/api/recipes/${ids.recipeId}`).set(alice);
+    const search = await api().get(`/api/saved-searches/${ids.savedSearchId}`).set(alice);
+    expect([bean.status, recipe.status, search.status]).toEqual([404, 404, 404]);
+  });
+});
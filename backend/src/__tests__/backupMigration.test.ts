@@ -0,0 +1,50 @@
+import type { LegacyBackupData } from '../shared/types/backup.js';
+import { BACKUP_VERSION, isSupportedBackupVersion, migrateBackup } from '../shared/utils/backup.js';
+
+describe('backup migrations', () => {
+  const timestamp = '2024-03-01T10:00:00.000Z';
+  const collection = (collectionId: string, name: string, extra: Record<string, unknown> = {}) => ({
+    collectionId, name, dateCreated: timestamp, dateModified: timestamp, isDefault: false, recipeIds: [], ...extra
+  });
+
+  const legacy = {
+    version: '1.0',
+    timestamp,
+    metadata: { totalRecipes: 2, totalCollections: 2, appVersion: '1.2.0', exportedBy: 'browser' },
+    recipes: [
+      { recipeId: 'r1', recipeName: 'One', collections: ['Weekday'] },
+      { recipeId: 'r2', recipeName: 'Two', collections: ['Top rated'] }
+    ],
+    collections: [
+      collection('c1', 'Weekday', { recipeIds: ['r1', 'r2', 'gone'], stats: { recipeCount: 3 }, ownerId: 'u1' }),
+      collection('c2', 'Top rated', { type: 'smart', rule: { filters: {} }, recipeIds: ['r2'] })
+    ]
+  } as unknown as LegacyBackupData;
+
+  it('derives 1.0 memberships from both sides, skipping smart collections and missing recipes', () => {
+    const backup = migrateBackup(legacy);
+
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.memberships).toEqual([
+      { recipeId: 'r1', collectionId: 'c1', dateAssigned: timestamp },
+      { recipeId: 'r2', collectionId: 'c1', dateAssigned: timestamp }
+    ]);
+    expect(backup.metadata).toMatchObject({ totalCollections: 2, totalMemberships: 2 });
+    expect(backup.collections[0]).not.toHaveProperty('recipeIds');
+    expect(backup.collections[0]).not.toHaveProperty('stats');
+    expect(backup.collections[0]).not.toHaveProperty('ownerId');
+  });
+
+  it('gives 1.0 backups empty library, session, revision and experiment sections', () => {
+    expect(migrateBackup(legacy)).toMatchObject({
+      beans: [], equipment: [], waterProfiles: [], savedSearches: [], brewSessions: [], revisions: [], experiments: []
+    });
+  });
+
+  it('rejects versions it cannot migrate', () => {
+    expect(isSupportedBackupVersion('1.0')).toBe(true);
+    expect(isSupportedBackupVersion(BACKUP_VERSION)).toBe(true);
+    expect(isSupportedBackupVersion('3.0')).toBe(false);
+    expect(() => migrateBackup({ ...legacy, version: '0.9' } as any)).toThrow('Unsupported backup version "0.9"');
+  });
+});
@@ -0,0 +1,88 @@
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('bean inventory', () => {
+  let alice: { Authorization: string };
+
+  const createBag = async (bagWeight: number): Promise<string> => {
+    const bean = await api().post('/api/beans').set(alice).send({ origin: 'Colombia', processingMethod: 'Washed', bagWeight });
+    return bean.body.data.beanId;
+  };
+  const remaining = async (beanId: string): Promise<number> => {
+    const bean = await api().get(`/api/beans/${beanId}`).set(alice);
+    return bean.body.data.remainingGrams;
+  };
+  const saveRecipe = async (beanId: string, coffeeBeans: number, recipeId?: string): Promise<string> => {
+    const body = recipeInput({ beanInfo: { beanId }, measurements: { coffeeBeans, water: coffeeBeans * 16 } });
+    const response = recipeId
+      ? await api().put(`/api/recipes/${recipeId}`).set(alice).send(body)
+      : await api().post('/api/recipes').set(alice).send(body);
+    expect(response.status).toBe(recipeId ? 200 : 201);
+    return response.body.data.recipeId;
+  };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+  });
+
+  it('returns exactly what was taken when an edit follows a clamped deduction', async () => {
+    const beanId = await createBag(20);
+    const recipeId = await saveRecipe(beanId, 15);
+    expect(await remaining(beanId)).toBe(5);
+
+    await saveRecipe(beanId, 30, recipeId); // Only 20 g were left to take
+    expect(await remaining(beanId)).toBe(0);
+
+    await saveRecipe(beanId, 10, recipeId);
+    expect(await remaining(beanId)).toBe(10);
+  });
+
+  it('does not add coffee to a bag other recipes emptied', async () => {
+    const beanId = await createBag(20);
+    const first = await saveRecipe(beanId, 18);
+    await saveRecipe(beanId, 18); // Takes the last 2 g
+
+    await saveRecipe(beanId, 18, first);
+    expect(await remaining(beanId)).toBe(0);
+  });
+
+  it('moves the recorded amount when the recipe changes bags', async () => {
+    const fromId = await createBag(250);
+    const toId = await createBag(250);
+    const recipeId = await saveRecipe(fromId, 15);
+
+    await saveRecipe(toId, 15, recipeId);
+
+    expect(await remaining(fromId)).toBe(250);
+    expect(await remaining(toId)).toBe(235);
+  });
+
+  it('returns the coffee to the bag when the recipe is deleted', async () => {
+    const beanId = await createBag(20);
+    const recipeId = await saveRecipe(beanId, 30);
+    expect(await remaining(beanId)).toBe(0);
+
+    const deleted = await api().delete(`/api/recipes/${recipeId}`).set(alice);
+
+    expect(deleted.status).toBe(200);
+    expect(await remaining(beanId)).toBe(20);
+  });
+
+  it('shares bags between accounts, each returning only what their own recipes took', async () => {
+    const bob = await signUp('bob');
+    const beanId = await createBag(250);
+    const aliceRecipe = await saveRecipe(beanId, 15);
+
+    const bobRecipe = await api().post('/api/recipes').set(bob)
+      .send(recipeInput({ beanInfo: { beanId }, measurements: { coffeeBeans: 20, water: 320 } }));
+    expect(bobRecipe.status).toBe(201);
+    expect(await remaining(beanId)).toBe(215);
+
+    const foreignDelete = await api().delete(`/api/recipes/${aliceRecipe}`).set(bob);
+    expect(foreignDelete.status).toBe(404);
+    expect(await remaining(beanId)).toBe(215);
+
+    await api().delete(`/api/recipes/${bobRecipe.body.data.recipeId}`).set(bob);
+    expect(await remaining(beanId)).toBe(235);
+  });
+});
@@ -0,0 +1,52 @@
+import { RecipeModel } from '../database/index.js';
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('bulk recipe edit', () => {
+  let alice: { Authorization: string };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+  });
+
+  it('leaves no trace of a bulk edit that failed part way', async () => {
+    const bean = await api().post('/api/beans').set(alice).send({ origin: 'Ethiopia', processingMethod: 'Natural', bagWeight: 250 });
+    const beanId = bean.body.data.beanId;
+    const collection = await api().post('/api/collections').set(alice).send({ name: 'Weekday' });
+    const collectionId = collection.body.data.collectionId;
+    const recipeIds: string[] = [];
+    for (const name of ['First', 'Second']) {
+      const recipe = await api().post('/api/recipes').set(alice).send(recipeInput({}, name));
+      recipeIds.push(recipe.body.data.recipeId);
+    }
+
+    const read = async () => Promise.all(recipeIds.map(async recipeId => ({
+      recipe: (await api().get(`/api/recipes/${recipeId}`).set(alice)).body.data,
+      revisions: (await api().get(`/api/recipes/${recipeId}/revisions`).set(alice)).body.data.length
+    })));
+    const before = await read();
+
+    const update = RecipeModel.update.bind(RecipeModel);
+    const spy = jest.spyOn(RecipeModel, 'update').mockImplementation(async (id, input) => {
+      if (id === recipeIds[1]) throw new Error('Connection lost');
+      return update(id, input);
+    });
+
+    try {
+      const response = await api().patch('/api/recipes/bulk').set(alice).send({
+        recipeIds,
+        changes: { beanInfo: { beanId }, measurements: { coffeeBeans: 20 }, addToCollections: [collectionId] }
+      });
+      expect(response.status).toBe(422);
+      expect(response.body.data.applied).toBe(false);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await read()).toEqual(before);
+    const bag = await api().get(`/api/beans/${beanId}`).set(alice);
+    expect(bag.body.data.remainingGrams).toBe(250);
+    const members = await api().get(`/api/collections/${collectionId}/recipes`).set(alice);
+    expect(members.body.data.recipeIds).toEqual([]);
+  });
+});
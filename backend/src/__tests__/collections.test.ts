@@ -0,0 +1,57 @@
+import { api, connectDatabase, signUp } from './support.js';
+
+describe('collections owner scoping', () => {
+  let alice: { Authorization: string };
+  let bob: { Authorization: string };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+    bob = await signUp('bob');
+  });
+
+  it('lets two accounts use the same collection name', async () => {
+    const first = await api().post('/api/collections').set(alice).send({ name: 'Favorites' });
+    const second = await api().post('/api/collections').set(bob).send({ name: 'Favorites' });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+  });
+
+  it('rejects a name the same account already uses', async () => {
+    const response = await api().post('/api/collections').set(alice).send({ name: 'Favorites' });
+
+    expect(response.status).toBe(409);
+  });
+
+  it('rejects renaming onto another of the owner\'s names only', async () => {
+    const created = await api().post('/api/collections').set(bob).send({ name: 'Light roasts' });
+    const id = created.body.data.collectionId;
+
+    const toOwn = await api().put(`/api/collections/${id}`).set(bob).send({ name: 'Favorites' });
+    const toFree = await api().put(`/api/collections/${id}`).set(bob).send({ name: 'Morning' });
+
+    expect(toOwn.status).toBe(409);
+    expect(toFree.status).toBe(200);
+  });
+
+  it('hides private collections from other accounts', async () => {
+    const created = await api().post('/api/collections').set(alice).send({ name: 'Secret', isPrivate: true });
+    const id = created.body.data.collectionId;
+
+    const asBob = await api().get(`/api/collections/${id}`).set(bob);
+    const asAlice = await api().get(`/api/collections/${id}`).set(alice);
+
+    expect(asBob.status).toBe(404);
+    expect(asAlice.status).toBe(200);
+  });
+
+  it('forbids changing another account\'s collection', async () => {
+    const created = await api().post('/api/collections').set(alice).send({ name: 'Shared' });
+    const id = created.body.data.collectionId;
+
+    const response = await api().put(`/api/collections/${id}`).set(bob).send({ description: 'Mine now' });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,133 @@
+import type { ExperimentVariant, Recipe } from '../shared/index.js';
+import {
+  buildVariantRecipe,
+  getExperimentValue,
+  isSameExperimentValue,
+  rankExperimentVariants
+} from '../shared/utils/experiments.js';
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('blind experiments', () => {
+  let alice: { Authorization: string };
+  let beanId: string;
+  let experimentId: string;
+  let codes: string[];
+
+  const recipeNames = async (): Promise<string[]> => {
+    const response = await api().get('/api/recipes').set(alice);
+    return response.body.data.map((recipe: { recipeName: string }) => recipe.recipeName);
+  };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+
+    const bean = await api().post('/api/beans').set(alice).send({ origin: 'Kenya', processingMethod: 'Washed', bagWeight: 250 });
+    beanId = bean.body.data.beanId;
+
+    const base = await api().post('/api/recipes').set(alice).send(recipeInput({ beanInfo: { beanId } }, 'Kenya V60'));
+    const experiment = await api().post('/api/experiments').set(alice).send({
+      name: 'Temperature',
+      baseRecipeId: base.body.data.recipeId,
+      variable: 'temperature',
+      variants: [{ value: 90 }, { value: 94 }]
+    });
+    expect(experiment.status).toBe(201);
+    experimentId = experiment.body.data.experimentId;
+    codes = experiment.body.data.variants.map((variant: { code: string }) => variant.code);
+  });
+
+  it('keeps variant recipes out of the recipe list, search and facets while tasting', async () => {
+    const search = await api().get('/api/recipes/search/text').query({ q: 'Temperature' }).set(alice);
+    const facets = await api().get('/api/recipes/facets').set(alice);
+    const count = await api().get('/api/recipes/stats/count').set(alice);
+
+    expect(await recipeNames()).toEqual(['Kenya V60']);
+    expect(search.body.data).toHaveLength(0);
+    expect(facets.body.data.origins).toEqual([expect.objectContaining({ count: 1 })]);
+    expect(count.body.data.count).toBe(1);
+  });
+
+  it('does not take coffee from the bag for planned variants', async () => {
+    const bean = await api().get(`/api/beans/${beanId}`).set(alice);
+
+    expect(bean.body.data.remainingGrams).toBe(250 - 15);
+  });
+
+  it('reveals the variants, named by value rather than code, once completed', async () => {
+    for (const code of codes) {
+      const tasting = await api().post(`/api/experiments/${experimentId}/tastings`).set(alice).send({ code, evaluation: { overallImpression: 7 } });
+      expect(tasting.status).toBe(201);
+    }
+    const completed = await api().post(`/api/experiments/${experimentId}/complete`).set(alice);
+    expect(completed.status).toBe(200);
+
+    const names = await recipeNames();
+    expect(names).toEqual(expect.arrayContaining(['Kenya V60', 'Temperature · 90°C', 'Temperature · 94°C']));
+    codes.forEach(code => expect(names.join(' ')).not.toContain(code));
+  });
+
+  it('reveals the variants of an experiment deleted while tasting', async () => {
+    const base = await api().get('/api/recipes').set(alice);
+    const baseRecipeId = base.body.data.find((recipe: { recipeName: string }) => recipe.recipeName === 'Kenya V60').recipeId;
+    const experiment = await api().post('/api/experiments').set(alice).send({
+      name: 'Grind',
+      baseRecipeId,
+      variable: 'grind',
+      variants: [{ value: '20' }, { value: '26' }]
+    });
+
+    await api().delete(`/api/experiments/${experiment.body.data.experimentId}`).set(alice);
+
+    expect(await recipeNames()).toEqual(expect.arrayContaining(['Grind · 20', 'Grind · 26']));
+  });
+});
+
+describe('experiment helpers', () => {
+  const base = {
+    recipeId: 'base',
+    recipeName: 'Kenya V60',
+    dateCreated: '2024-01-01T00:00:00.000Z',
+    dateModified: '2024-01-01T00:00:00.000Z',
+    isFavorite: true,
+    collections: ['c1'],
+    beanInfo: { origin: 'Kenya', processingMethod: 'Washed' },
+    brewingParameters: { grinderModel: 'Comandante', grinderUnit: '24', filteringTools: 'Cafec Abaca', filterId: 'f1' },
+    turbulenceInfo: {},
+    measurements: { coffeeBeans: 15, water: 250, coffeeWaterRatio: 16.67, tds: 1.35, extractionYield: 20.1 },
+    sensationRecord: { evaluationSystem: 'cva-affective', cvaAffective: { overall: 7 } }
+  } as unknown as Recipe;
+
+  it('reads and compares the base value of a variable', () => {
+    expect(getExperimentValue(base, 'ratio')).toBe(16.7);
+    expect(getExperimentValue(base, 'temperature')).toBeUndefined();
+    expect(isSameExperimentValue(16.7, '16.7')).toBe(true);
+    expect(isSameExperimentValue(' cafec abaca', 'Cafec Abaca')).toBe(true);
+    expect(isSameExperimentValue(undefined, undefined)).toBe(false);
+  });
+
+  it('builds variants that change only the variable and drop the base results', () => {
+    const ratio = buildVariantRecipe(base, 'ratio', 17, 'Ratio · 1:17');
+    expect(ratio.measurements).toEqual({ coffeeBeans: 15, water: 255 });
+    expect(ratio).toMatchObject({ recipeName: 'Ratio · 1:17', isFavorite: false, collections: [] });
+    expect(ratio.sensationRecord).toEqual({ evaluationSystem: 'cva-affective' });
+
+    const filter = buildVariantRecipe(base, 'filter', 'Sibarist', 'Filter · Sibarist');
+    expect(filter.brewingParameters).toEqual({ grinderModel: 'Comandante', grinderUnit: '24', filteringTools: 'Sibarist' });
+  });
+
+  it('ranks variants by average score, sharing ties and leaving unscored ones unranked', () => {
+    const variant = (code: string, averageScore?: number): ExperimentVariant => ({
+      code,
+      tastingCount: averageScore === undefined ? 0 : 2,
+      stats: averageScore === undefined ? undefined : { averageScore },
+      rank: 9
+    } as ExperimentVariant);
+
+    const ranked = rankExperimentVariants([variant('404'), variant('101', 8), variant('303', 8), variant('202', 9), variant('050')]);
+
+    expect(ranked.map(({ code, rank }) => [code, rank])).toEqual([
+      ['202', 1], ['101', 2], ['303', 2], ['050', undefined], ['404', undefined]
+    ]);
+  });
+});
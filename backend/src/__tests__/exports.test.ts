@@ -0,0 +1,38 @@
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('export worksheet names', () => {
+  let user: { Authorization: string };
+
+  const startExcelExport = (worksheetName: string) => api().post('/api/exports').set(user).send({
+    options: { format: 'excel', scope: 'all', formatOptions: { worksheetName } }
+  });
+
+  beforeAll(async () => {
+    await connectDatabase();
+    user = await signUp('alice');
+    await api().post('/api/recipes').set(user).send(recipeInput());
+  });
+
+  it('rejects a main sheet named like a sheet the export adds, in any case', async () => {
+    for (const name of ['Quick Tasting', 'summary', 'EXPORT INFO']) {
+      const response = await startExcelExport(name);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('is used by another sheet of the export');
+    }
+
+    const filtered = await api().post('/api/recipes/export/filtered').set(user).send({
+      format: 'excel', formatOptions: { worksheetName: 'CVA Affective' }
+    });
+    expect(filtered.status).toBe(400);
+  });
+
+  it('accepts any other name', async () => {
+    const response = await startExcelExport('Morning brews');
+    expect(response.status).toBe(202);
+
+    const filtered = await api().post('/api/recipes/export/filtered').set(user).send({
+      format: 'excel', formatOptions: { worksheetName: 'Morning brews', includeSummarySheet: true }
+    });
+    expect(filtered.status).toBe(200);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  convertGrindSetting,
+  getGrinderCalibration,
+  micronsToSetting,
+  settingToMicrons,
+  snapToScale
+} from '../shared/utils/grindConversion.js';
+
+describe('grind setting conversion', () => {
+  const comandante = [{ setting: 10, microns: 300 }, { setting: 20, microns: 600 }, { setting: 30, microns: 1000 }];
+  const stepped = [{ setting: 1, microns: 200 }, { setting: 5, microns: 1000 }];
+
+  it('interpolates particle size between calibration points and past the ends', () => {
+    expect(settingToMicrons(comandante, 15)).toBe(450);
+    expect(settingToMicrons(comandante, 25)).toBe(800);
+    expect(settingToMicrons(comandante, 35)).toBe(1200);
+    expect(settingToMicrons(comandante, 0)).toBe(0);
+    expect(micronsToSetting(comandante, 800)).toBe(25);
+  });
+
+  it('snaps to the target scale step and keeps within its range', () => {
+    const scale = { min: 0, max: 10, step: 0.5 };
+
+    expect(snapToScale(3.3, scale)).toBe('3.5');
+    expect(snapToScale(12, scale)).toBe('10.0');
+    expect(snapToScale(-1, scale)).toBe('0.0');
+    expect(snapToScale(3.4)).toBe('3');
+  });
+
+  it('translates a setting through the particle size', () => {
+    expect(convertGrindSetting('24', comandante, stepped, { min: 1, max: 5, step: 0.1 })).toEqual({ setting: '3.8', microns: 760 });
+    expect(convertGrindSetting('fine', comandante, stepped)).toBeNull();
+    expect(convertGrindSetting(20, [], stepped)).toBeNull();
+  });
+
+  it("prefers the registry grinder's own calibration over the built-in table", () => {
+    expect(getGrinderCalibration('Anything', { calibration: stepped })).toBe(stepped);
+    expect(getGrinderCalibration('Unknown grinder', { calibration: [stepped[0]!] })).toBeUndefined();
+  });
+});
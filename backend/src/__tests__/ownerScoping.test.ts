@@ -0,0 +1,89 @@
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('owner scoping', () => {
+  let alice: { Authorization: string };
+  let bob: { Authorization: string };
+  let recipeId: string;
+  let experimentId: string;
+
+  const recipeNames = async (user: { Authorization: string }): Promise<string[]> => {
+    const response = await api().get('/api/recipes').set(user);
+    return response.body.data.map((recipe: { recipeName: string }) => recipe.recipeName);
+  };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+    bob = await signUp('bob');
+
+    const blackcurrant = { sensationRecord: { tastingNotes: 'Blackcurrant and cane sugar' } };
+    const recipe = await api().post('/api/recipes').set(alice).send(recipeInput(blackcurrant, "Alice's V60"));
+    recipeId = recipe.body.data.recipeId;
+    await api().post('/api/recipes').set(bob).send(recipeInput(blackcurrant, "Bob's V60"));
+    await api().post('/api/recipes').set(bob).send(recipeInput({}, "Bob's Chemex"));
+    const experiment = await api().post('/api/experiments').set(alice).send({
+      name: 'Grind', baseRecipeId: recipeId, variable: 'grind', variants: [{ value: '20' }, { value: '26' }]
+    });
+    experimentId = experiment.body.data.experimentId;
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await api().get('/api/recipes');
+    expect(response.status).toBe(401);
+  });
+
+  it("lists and searches only the signed-in user's recipes", async () => {
+    expect((await recipeNames(bob)).sort()).toEqual(["Bob's Chemex", "Bob's V60"]);
+
+    const search = await api().get('/api/recipes').query({ searchTerm: 'Blackcurrant' }).set(bob);
+    expect(search.body.data.map((recipe: { recipeName: string }) => recipe.recipeName)).toEqual(["Bob's V60"]);
+
+    const textSearch = await api().get('/api/recipes/search/text').query({ q: 'blackcurrant' }).set(bob);
+    expect(textSearch.body.data.map((result: { recipe: { recipeName: string } }) => result.recipe.recipeName)).toEqual(["Bob's V60"]);
+  });
+
+  it("treats another user's recipe and its history as missing", async () => {
+    const paths = [`/api/recipes/${recipeId}`, `/api/recipes/${recipeId}/sessions`, `/api/recipes/${recipeId}/revisions`];
+    for (const path of paths) {
+      const response = await api().get(path).set(bob);
+      expect(response.status).toBe(404);
+    }
+
+    const update = await api().put(`/api/recipes/${recipeId}`).set(bob).send(recipeInput({}, 'Taken over'));
+    const session = await api().post(`/api/recipes/${recipeId}/sessions`).set(bob).send({ measurements: { coffeeBeans: 15, water: 250 } });
+    const deletion = await api().delete(`/api/recipes/${recipeId}`).set(bob);
+    expect([update.status, session.status, deletion.status]).toEqual([404, 404, 404]);
+
+    expect(await recipeNames(alice)).toContain("Alice's V60");
+  });
+
+  it("does not let bulk edits or share links reach another user's recipe", async () => {
+    const bulk = await api().patch('/api/recipes/bulk').set(bob).send({ recipeIds: [recipeId], changes: { isFavorite: true } });
+    expect(bulk.status).toBe(422);
+    expect(bulk.body.data).toMatchObject({ applied: false, matched: 0, results: [{ recipeId, status: 'not_found' }] });
+
+    const share = await api().post('/api/shares').set(bob).send({
+      targetType: 'recipe', targetId: recipeId,
+      options: { includeRatings: true, includeTastingNotes: true, includePersonalNotes: true }
+    });
+    expect(share.status).toBe(404);
+
+    const recipe = await api().get(`/api/recipes/${recipeId}`).set(alice);
+    expect(recipe.body.data.isFavorite).toBe(false);
+  });
+
+  it("hides another user's experiments", async () => {
+    const experiment = await api().get(`/api/experiments/${experimentId}`).set(bob);
+    const list = await api().get('/api/experiments').set(bob);
+
+    expect(experiment.status).toBe(404);
+    expect(list.body.data).toEqual([]);
+  });
+
+  it('shares the bean library between accounts', async () => {
+    const bean = await api().post('/api/beans').set(alice).send({ origin: 'Kenya', processingMethod: 'Washed', bagWeight: 250 });
+
+    const response = await api().get(`/api/beans/${bean.body.data.beanId}`).set(bob);
+    expect(response.status).toBe(200);
+  });
+});
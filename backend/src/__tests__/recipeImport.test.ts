@@ -0,0 +1,82 @@
+import { RecipeModel } from '../database/index.js';
+import { mapImportRow, suggestImportMapping } from '../shared/utils/recipeImport.js';
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('recipe import', () => {
+  let alice: { Authorization: string };
+
+  const cvaRecipe = (name: string) => recipeInput({
+    sensationRecord: { evaluationSystem: 'cva-affective', overallImpression: undefined, cvaAffective: { flavor: 7, overall: 8 } }
+  }, name);
+  const importRows = (recipes: Array<{ row: number; recipe: unknown }>) =>
+    api().post('/api/recipes/import').set(alice).send({ recipes });
+  const recipeNames = async (): Promise<string[]> => {
+    const response = await api().get('/api/recipes').set(alice);
+    return response.body.data.map((recipe: { recipeName: string }) => recipe.recipeName);
+  };
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+  });
+
+  it('maps exported scoring form columns and infers the system from them', () => {
+    const row = {
+      'Origin': 'Kenya', 'Processing Method': 'Washed', 'Grinder Model': 'Comandante', 'Grind Setting': '24',
+      'Coffee (g)': 15, 'Water (g)': 250, 'CVA-A Flavor': '7', 'CVA-A Overall': 8, 'Quick Flavor/Aftertaste Descriptors': 'Berry; Floral'
+    };
+    const mapping = suggestImportMapping(Object.keys(row));
+    expect(mapping).toMatchObject({
+      'CVA-A Flavor': 'sensationRecord.cvaAffective.flavor',
+      'CVA-A Overall': 'sensationRecord.cvaAffective.overall',
+      'Quick Flavor/Aftertaste Descriptors': 'sensationRecord.quickTasting.flavorAftertasteDescriptors'
+    });
+
+    const { recipe, errors } = mapImportRow(row, mapping, 2);
+    expect(errors).toEqual([]);
+    expect(recipe?.sensationRecord.evaluationSystem).toBe('cva-affective');
+    expect(recipe?.sensationRecord.cvaAffective).toEqual({ flavor: 7, overall: 8 });
+    expect(recipe?.sensationRecord.quickTasting).toEqual({ flavorAftertasteDescriptors: ['Berry', 'Floral'] });
+  });
+
+  it('keeps the evaluation system and scores of imported recipes', async () => {
+    const response = await importRows([{ row: 2, recipe: cvaRecipe('Imported CVA') }]);
+    expect(response.status).toBe(201);
+
+    const recipe = await api().get(`/api/recipes/${response.body.data.results[0].recipeId}`).set(alice);
+    expect(recipe.body.data.sensationRecord.evaluationSystem).toBe('cva-affective');
+    expect(recipe.body.data.sensationRecord.cvaAffective).toMatchObject({ flavor: 7, overall: 8 });
+  });
+
+  it('reports every invalid row instead of rejecting the request', async () => {
+    const response = await importRows([
+      { row: 2, recipe: cvaRecipe('Fine') },
+      { row: 3, recipe: { recipeName: 'Malformed', beanInfo: 'Kenya' } },
+      { row: 4, recipe: recipeInput({ brewingParameters: { grinderModel: '' } }, 'No grinder') }
+    ]);
+
+    expect(response.status).toBe(422);
+    expect(response.body.data.results.map((result: { status: string }) => result.status)).toEqual(['skipped', 'failed', 'failed']);
+    expect(response.body.data.results[1]).toMatchObject({ recipeName: 'Malformed', error: expect.stringContaining('beanInfo') });
+    expect(response.body.data.results[2].error).toContain('Grinder Model is required');
+    expect(await recipeNames()).not.toContain('Fine');
+  });
+
+  it('removes the recipes already created when a write fails', async () => {
+    const create = RecipeModel.create.bind(RecipeModel);
+    const spy = jest.spyOn(RecipeModel, 'create').mockImplementation(async (input, ownerId) => {
+      if (input.recipeName === 'Second') throw new Error('Connection lost');
+      return create(input, ownerId);
+    });
+
+    try {
+      const response = await importRows([{ row: 2, recipe: cvaRecipe('First') }, { row: 3, recipe: cvaRecipe('Second') }]);
+      expect(response.status).toBe(422);
+      expect(response.body.data.results.map((result: { status: string }) => result.status)).toEqual(['rolled_back', 'failed']);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await recipeNames()).not.toContain('First');
+  });
+});
@@ -0,0 +1,66 @@
+import { diffRecipes, formatRecipeFieldLabel, recipeToInput, type Recipe } from '../shared/index.js';
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('recipe revisions', () => {
+  let alice: { Authorization: string };
+
+  const recipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+    recipeId: 'recipe-1',
+    recipeName: 'Morning V60',
+    dateCreated: '2024-01-01T00:00:00.000Z',
+    dateModified: '2024-01-01T00:00:00.000Z',
+    isFavorite: false,
+    collections: [],
+    beanInfo: { origin: 'Kenya', processingMethod: 'Washed' },
+    brewingParameters: { grinderModel: 'Comandante', grinderUnit: '24' },
+    turbulenceInfo: {},
+    measurements: { coffeeBeans: 15, water: 250, coffeeWaterRatio: 16.67 },
+    sensationRecord: { overallImpression: 7 },
+    ...overrides
+  } as Recipe);
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+  });
+
+  it('lists changed fields with labels, ignoring metadata and blank values', () => {
+    const before = recipe({ brewingParameters: { grinderModel: 'Comandante', grinderUnit: '24', additionalNotes: '' } });
+    const after = recipe({
+      dateModified: '2024-02-01T00:00:00.000Z',
+      isFavorite: true,
+      brewingParameters: { grinderModel: 'Comandante', grinderUnit: '22' },
+      sensationRecord: { overallImpression: 7, cvaAffective: { cvaScore: 82.5 } }
+    });
+
+    expect(diffRecipes(before, after)).toEqual([
+      { field: 'brewingParameters.grinderUnit', label: 'Brewing › Grinder Unit', before: '24', after: '22' },
+      { field: 'sensationRecord.cvaAffective.cvaScore', label: 'CVA Affective › Cva Score', before: undefined, after: 82.5 }
+    ]);
+    expect(formatRecipeFieldLabel('recipeName')).toBe('Recipe Name');
+  });
+
+  it('turns a saved recipe back into input without the derived ratio', () => {
+    expect(recipeToInput(recipe()).measurements).toEqual({ coffeeBeans: 15, water: 250 });
+  });
+
+  it('records a revision per save and restores an earlier one as a new revision', async () => {
+    const created = await api().post('/api/recipes').set(alice).send(recipeInput({}, 'Revised'));
+    const recipeId = created.body.data.recipeId;
+    await api().put(`/api/recipes/${recipeId}`).set(alice).send(recipeInput({ measurements: { coffeeBeans: 18 } }, 'Revised'));
+
+    const revisions = await api().get(`/api/recipes/${recipeId}/revisions`).set(alice);
+    expect(revisions.body.data.map((revision: any) => [revision.revisionNumber, revision.changedFields])).toEqual([
+      [2, expect.arrayContaining(['measurements.coffeeBeans'])],
+      [1, []]
+    ]);
+
+    const restored = await api().post(`/api/recipes/${recipeId}/revisions/1/restore`).set(alice);
+    expect(restored.status).toBe(200);
+    expect(restored.body.data.measurements.coffeeBeans).toBe(15);
+
+    const latest = (await api().get(`/api/recipes/${recipeId}/revisions`).set(alice)).body.data[0];
+    expect(latest).toMatchObject({ revisionNumber: 3, restoredFrom: 1 });
+    expect(latest.changedFields).toEqual(expect.arrayContaining(['measurements.coffeeBeans']));
+  });
+});
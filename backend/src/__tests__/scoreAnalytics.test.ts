@@ -0,0 +1,42 @@
+import { findBestScoreWindow, fitLinearRegression, formatAnalyticsRange } from '../shared/utils/scoreAnalytics.js';
+
+describe('score analytics', () => {
+  describe('fitLinearRegression', () => {
+    it('fits the least-squares line with Pearson correlation', () => {
+      expect(fitLinearRegression([{ x: 1, y: 1 }, { x: 2, y: 3 }, { x: 3, y: 2 }])).toEqual({
+        correlation: 0.5, slope: 0.5, intercept: 1, rSquared: 0.25
+      });
+      expect(fitLinearRegression([{ x: 1, y: 3 }, { x: 2, y: 2 }, { x: 3, y: 1 }])).toEqual({
+        correlation: -1, slope: -1, intercept: 4, rSquared: 1
+      });
+    });
+
+    it('gives no fit for too few points or an axis that does not vary', () => {
+      expect(fitLinearRegression([{ x: 1, y: 1 }, { x: 2, y: 2 }])).toBeNull();
+      expect(fitLinearRegression([{ x: 5, y: 1 }, { x: 5, y: 2 }, { x: 5, y: 3 }])).toBeNull();
+      expect(fitLinearRegression([{ x: 1, y: 7 }, { x: 2, y: 7 }, { x: 3, y: 7 }])).toBeNull();
+    });
+  });
+
+  describe('findBestScoreWindow', () => {
+    const temperatures = [[88, 5], [89, 5.5], [90, 6], [91, 7], [92, 8.5], [93, 9], [94, 8.5], [95, 6], [96, 5]]
+      .map(([x, score]) => ({ x: x!, score: score! }));
+
+    it('reports the range of the best scoring brews when they clearly beat the rest', () => {
+      expect(findBestScoreWindow('temperature', temperatures)).toEqual({
+        variable: 'temperature',
+        low: 92,
+        high: 94,
+        sampleSize: 9,
+        averageScoreInside: 8.67,
+        averageScoreOutside: 5.75
+      });
+      expect(formatAnalyticsRange('temperature', 92, 94)).toBe('92–94°C');
+    });
+
+    it('reports nothing without enough brews or a real difference', () => {
+      expect(findBestScoreWindow('temperature', temperatures.slice(0, 5))).toBeNull();
+      expect(findBestScoreWindow('temperature', temperatures.map(point => ({ ...point, score: 7 })))).toBeNull();
+    });
+  });
+});
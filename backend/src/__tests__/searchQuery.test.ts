@@ -0,0 +1,65 @@
+import { applySearchSuggestion, getSearchQuerySuggestions, parseSearchQuery } from '../shared/utils/searchQuery.js';
+
+describe('search query syntax', () => {
+  const now = new Date('2024-06-15T12:00:00.000Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  it('turns keyed tokens into filters and the rest into free text', () => {
+    const { filters, text, errors } = parseSearchQuery(
+      'origin:ethiopia method:pourover score>=85 tds:1.3..1.45 roasted<14d notes:"jasmine tea" floral',
+      { now }
+    );
+
+    expect(errors).toEqual([]);
+    expect(text).toBe('jasmine tea floral');
+    expect(filters).toEqual({
+      origins: ['Ethiopia'],
+      brewingMethods: ['pour-over'],
+      scoreRange: [85, 100],
+      tdsRange: [1.3, 1.45],
+      dateRange: { field: 'roastingDate', start: daysAgo(14), end: now.toISOString() },
+      searchTerm: 'jasmine tea floral'
+    });
+  });
+
+  it('moves strict bounds by one recorded step and narrows repeated ranges', () => {
+    expect(parseSearchQuery('score>85').filters.scoreRange).toEqual([85.25, 100]);
+    expect(parseSearchQuery('rating<8').filters.overallImpressionRange).toEqual([1, 7]);
+    expect(parseSearchQuery('score>=80 score<=90').filters.scoreRange).toEqual([80, 90]);
+
+    const conflicting = parseSearchQuery('score>=90 score<=80');
+    expect(conflicting.filters.scoreRange).toEqual([90, 100]);
+    expect(conflicting.errors.map(error => error.token)).toEqual(['score<=80']);
+  });
+
+  it('reports malformed tokens with their position but not a key still being typed', () => {
+    const { filters, errors } = parseSearchQuery('score>=abc method:siphon origin:');
+
+    expect(filters).toEqual({});
+    expect(errors).toEqual([
+      { token: 'score>=abc', start: 0, end: 10, message: 'Score needs a number, e.g. score>=85' },
+      expect.objectContaining({ token: 'method:siphon', start: 11, end: 24 })
+    ]);
+  });
+
+  it('uses the stored spelling of known origins and collections', () => {
+    const facets = {
+      origins: [{ value: 'Costa Rica', count: 2 }],
+      collections: [{ value: 'Morning Brews', count: 5 }]
+    };
+
+    expect(parseSearchQuery('origin:"costa rica" in:"morning brews"', { facets }).filters).toEqual({
+      origins: ['Costa Rica'],
+      collections: ['Morning Brews']
+    });
+  });
+
+  it('suggests keys and values for the token being typed', () => {
+    expect(getSearchQuerySuggestions('sc').map(suggestion => suggestion.value)).toEqual(['score>=']);
+    expect(getSearchQuerySuggestions('method:fr').map(suggestion => suggestion.value)).toEqual(['method:french-press']);
+    expect(getSearchQuerySuggestions('origin:eth ')).toEqual([]);
+
+    expect(applySearchSuggestion('rating>=8 sc', { value: 'score>=' })).toBe('rating>=8 score>=');
+    expect(applySearchSuggestion('method:fr', { value: 'method:french-press' })).toBe('method:french-press ');
+  });
+});
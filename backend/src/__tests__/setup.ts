@@ -0,0 +1,4 @@
+// Route tests run against the in-memory driver with a fixed signing secret
+process.env.DATABASE_DRIVER = 'memory';
+process.env.JWT_SECRET = 'test-secret';
+process.env.NODE_ENV = 'test';
@@ -0,0 +1,69 @@
+import type { Recipe } from '../shared/index.js';
+import { redactSharedRecipe } from '../shared/utils/shareRedaction.js';
+
+describe('share redaction', () => {
+  const recipe = {
+    recipeId: 'recipe-1',
+    recipeName: 'Kenya V60',
+    dateCreated: '2024-01-01T00:00:00.000Z',
+    dateModified: '2024-01-01T00:00:00.000Z',
+    isFavorite: true,
+    collections: ['c1'],
+    ownerId: 'owner-1',
+    beanInfo: { origin: 'Kenya', processingMethod: 'Washed', beanId: 'bean-1' },
+    brewingParameters: {
+      grinderModel: 'Comandante', grinderUnit: '24', additionalNotes: 'Use the kitchen scale',
+      grinderId: 'g1', brewerId: 'b1', filterId: 'f1', kettleId: 'k1', waterProfileId: 'w1'
+    },
+    turbulenceInfo: {},
+    measurements: { coffeeBeans: 15, water: 250, coffeeWaterRatio: 16.67 },
+    sensationRecord: {
+      evaluationSystem: 'cva-descriptive',
+      overallImpression: 8,
+      tastingNotes: 'Blackcurrant',
+      cvaDescriptive: { flavor: 9, flavorAftertasteDescriptors: ['Berry'], acidityDescriptors: 'Malic', assessorId: 'cupper-7' },
+      cvaAffective: { overall: 7 },
+      quickTasting: { acidityIntensity: 11, flavorAftertasteDescriptors: ['Floral'], overallQuality: 8 }
+    }
+  } as unknown as Recipe;
+
+  it('always drops the owner, memberships and registry links', () => {
+    const shared = redactSharedRecipe(recipe, { includeRatings: true, includeTastingNotes: true, includePersonalNotes: true });
+
+    expect(shared).not.toHaveProperty('ownerId');
+    expect(shared).toMatchObject({ isFavorite: false, collections: [] });
+    expect(shared.beanInfo).toEqual({ origin: 'Kenya', processingMethod: 'Washed' });
+    expect(shared.brewingParameters).toEqual({ grinderModel: 'Comandante', grinderUnit: '24', additionalNotes: 'Use the kitchen scale' });
+    expect(shared.sensationRecord).toEqual(recipe.sensationRecord);
+  });
+
+  it('leaves out ratings, tasting notes and personal notes unless asked for', () => {
+    const shared = redactSharedRecipe(recipe, { includeRatings: false, includeTastingNotes: false, includePersonalNotes: false });
+
+    expect(shared.sensationRecord).toEqual({ evaluationSystem: 'cva-descriptive' });
+    expect(shared.brewingParameters).not.toHaveProperty('additionalNotes');
+  });
+
+  it('keeps descriptors separate from scores and intensities in every evaluation system', () => {
+    expect(redactSharedRecipe(recipe, { includeRatings: true, includeTastingNotes: false, includePersonalNotes: false }).sensationRecord)
+      .toEqual({
+        evaluationSystem: 'cva-descriptive',
+        overallImpression: 8,
+        cvaDescriptive: { flavor: 9 },
+        cvaAffective: { overall: 7 },
+        quickTasting: { acidityIntensity: 11, overallQuality: 8 }
+      });
+    expect(redactSharedRecipe(recipe, { includeRatings: false, includeTastingNotes: true, includePersonalNotes: false }).sensationRecord)
+      .toEqual({
+        evaluationSystem: 'cva-descriptive',
+        tastingNotes: 'Blackcurrant',
+        cvaDescriptive: { flavorAftertasteDescriptors: ['Berry'], acidityDescriptors: 'Malic' },
+        quickTasting: { flavorAftertasteDescriptors: ['Floral'] }
+      });
+  });
+
+  it('keeps the assessor ID with the personal notes', () => {
+    expect(redactSharedRecipe(recipe, { includeRatings: false, includeTastingNotes: false, includePersonalNotes: true }).sensationRecord)
+      .toEqual({ evaluationSystem: 'cva-descriptive', cvaDescriptive: { assessorId: 'cupper-7' } });
+  });
+});
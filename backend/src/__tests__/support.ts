@@ -0,0 +1,32 @@
+import request from 'supertest';
+import app from '../app.js';
+import { initializeDatabase } from '../database/index.js';
+
+export const api = () => request(app);
+
+// Connect the in-memory store before the first request
+export const connectDatabase = (): Promise<void> => initializeDatabase();
+
+// Register an account and return its Authorization header
+export const signUp = async (username: string): Promise<{ Authorization: string }> => {
+  const response = await api()
+    .post('/api/auth/register')
+    .send({ username, password: 'correct-horse-battery' });
+  if (response.status !== 201) {
+    throw new Error(`Could not register ${username}: ${JSON.stringify(response.body)}`);
+  }
+  return { Authorization: `Bearer ${response.body.data.token}` };
+};
+
+const RECIPE_DEFAULTS: Record<string, Record<string, unknown>> = {
+  beanInfo: { origin: 'Ethiopia', processingMethod: 'Washed', roastingLevel: 'Light' },
+  brewingParameters: { waterTemperature: 93, brewingMethod: 'Pour-over (V60, Chemex, etc.)', grinderModel: 'Comandante', grinderUnit: '24' },
+  measurements: { coffeeBeans: 15, water: 250 },
+  sensationRecord: { overallImpression: 8 }
+};
+
+// Recipe body accepted by POST /api/recipes; each given section is merged over the defaults
+export const recipeInput = (overrides: Record<string, Record<string, unknown>> = {}, recipeName = 'Test brew') => ({
+  recipeName,
+  ...Object.fromEntries(Object.entries(RECIPE_DEFAULTS).map(([section, values]) => [section, { ...values, ...overrides[section] }]))
+});
@@ -0,0 +1,45 @@
+import { MineralSalt } from '../shared/types/water.js';
+import {
+  calculateCarbonateHardness,
+  calculateGeneralHardness,
+  calculateWaterMix,
+  completeWaterComposition,
+  formatWaterComposition
+} from '../shared/utils/waterChemistry.js';
+
+describe('water chemistry', () => {
+  it('converts ions to hardness as CaCO3', () => {
+    expect(calculateGeneralHardness(40.078, 24.305)).toBe(200.2);
+    expect(calculateCarbonateHardness(61.017)).toBe(50);
+    expect(calculateGeneralHardness()).toBe(0);
+  });
+
+  it('adds up the ions of dosed concentrates', () => {
+    const composition = calculateWaterMix([
+      { salt: MineralSalt.EPSOM_SALT, concentration: 20, dose: 1 },
+      { salt: MineralSalt.BAKING_SODA, concentration: 10, dose: 2 }
+    ]);
+
+    expect(composition).toEqual({
+      gh: 8.1,
+      kh: 11.9,
+      magnesium: 2,
+      calcium: 0,
+      sodium: 5.5,
+      potassium: 0,
+      bicarbonate: 14.5,
+      tds: 29.8
+    });
+  });
+
+  it('fills in missing hardness from measured ions only', () => {
+    expect(completeWaterComposition({ calcium: 20, bicarbonate: 30 })).toEqual({ calcium: 20, bicarbonate: 30, gh: 49.9, kh: 24.6 });
+    expect(completeWaterComposition({ gh: 70, calcium: 20 }).gh).toBe(70);
+    expect(completeWaterComposition({ tds: 80 })).toEqual({ tds: 80, gh: undefined, kh: undefined });
+  });
+
+  it('summarizes a composition', () => {
+    expect(formatWaterComposition({ gh: 68.4, kh: 40, tds: 95.2 })).toBe('GH 68 · KH 40 · 95 ppm');
+    expect(formatWaterComposition({ tds: 120 })).toBe('120 ppm');
+  });
+});
@@ -0,0 +1,40 @@
+import { api, connectDatabase, recipeInput, signUp } from './support.js';
+
+describe('water profile stats', () => {
+  let alice: { Authorization: string };
+  let bob: { Authorization: string };
+  let profileId: string;
+
+  beforeAll(async () => {
+    await connectDatabase();
+    alice = await signUp('alice');
+    bob = await signUp('bob');
+
+    const profile = await api().post('/api/water-profiles').set(alice).send({ name: 'Soft', composition: { gh: 50, kh: 20 } });
+    profileId = profile.body.data.waterProfileId;
+
+    for (const [user, origin] of [[alice, 'Kenya'], [bob, 'Brazil'], [bob, 'Brazil']] as const) {
+      const created = await api().post('/api/recipes').set(user).send(recipeInput({
+        beanInfo: { origin },
+        brewingParameters: { waterProfileId: profileId }
+      }));
+      expect(created.status).toBe(201);
+    }
+  });
+
+  it('counts only the signed-in user\'s recipes', async () => {
+    const asAlice = await api().get(`/api/water-profiles/${profileId}/stats`).set(alice);
+    const asBob = await api().get(`/api/water-profiles/${profileId}/stats`).set(bob);
+
+    expect(asAlice.body.data.recipeCount).toBe(1);
+    expect(asAlice.body.data.byOrigin.map((entry: { origin: string }) => entry.origin)).toEqual(['Kenya']);
+    expect(asBob.body.data.recipeCount).toBe(2);
+  });
+
+  it('scopes the stats of every profile the same way', async () => {
+    const response = await api().get('/api/water-profiles/stats').set(alice);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([expect.objectContaining({ waterProfileId: profileId, recipeCount: 1 })]);
+  });
+});
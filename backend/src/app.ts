@@ -32,6 +32,8 @@ app.options('*', (req, res) => {
   res.status(200).end();
 });
 
+// Backups of large accounts exceed the usual request size
+app.use('/api/restore', express.json({ limit: '50mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -63,7 +65,7 @@ app.get('/', (req, res) => {
 app.get('/api/health', async (req, res) => {
   try {
     // Test database connection
-    const { RecipeModel, CollectionModel } = await import('./database/index.js');
+    const { RecipeModel, CollectionModel, getRepositories } = await import('./database/index.js');
     const recipeCount = await RecipeModel.count();
     const collectionCount = await CollectionModel.count();
     
@@ -74,6 +76,7 @@ app.get('/api/health', async (req, res) => {
       environment: process.env.NODE_ENV || 'development',
       database: {
         connected: true,
+        driver: getRepositories().driver,
         recipes: recipeCount,
         collections: collectionCount
       }
@@ -1,28 +1,43 @@
-// Main database module exports - Supabase version
+// Main database module exports
 import { supabase } from './supabase.js';
+import { getRepositories, TABLE_NAMES } from './repositories/index.js';
 import { RecipeModel } from './models/Recipe.js';
 import { CollectionModel } from './models/Collection.js';
+import { SavedSearchModel } from './models/SavedSearch.js';
+import { RecipeRevisionModel } from './models/RecipeRevision.js';
+import { BrewSessionModel } from './models/BrewSession.js';
+import { BeanModel } from './models/Bean.js';
+import { EquipmentModel } from './models/Equipment.js';
+import { WaterProfileModel } from './models/WaterProfile.js';
+import { UserModel } from './models/User.js';
+import { ShareModel } from './models/Share.js';
+import { BackupModel } from './models/Backup.js';
+import { ExperimentModel } from './models/Experiment.js';
 import { CollectionColor } from '../shared/index.js';
 
-export { supabase, RecipeModel, CollectionModel };
+export { supabase, getRepositories, RecipeModel, CollectionModel, SavedSearchModel, RecipeRevisionModel, BrewSessionModel, BeanModel, EquipmentModel, WaterProfileModel, UserModel, ShareModel, BackupModel, ExperimentModel };
 
 // Re-export types from shared package for convenience
 export type { Recipe, RecipeInput, Collection } from '../shared/index.js';
+export type { UserRecord } from './models/User.js';
+export type { ShareRecord } from './models/Share.js';
+export type { ExperimentRecord, ExperimentVariantRecord } from './models/Experiment.js';
+export type { BackupTable, BackupReferenceTable } from './models/Backup.js';
 
-// Initialize database function for Supabase (much simpler)
+// Initialize the configured storage driver (DATABASE_DRIVER)
 export const initializeDatabase = async (): Promise<void> => {
   try {
-    // Connect to Supabase
-    const client = supabase.connect();
-    console.log('🎉 Supabase database connection initialized');
+    const { driver, store } = getRepositories();
+    await store.connect();
+    console.log(`🎉 ${driver} database connection initialized`);
     
     // Test the connection by doing a simple query
-    const { count } = await client.from('collections').select('*', { count: 'exact', head: true });
-    console.log(`📊 Collections table found with ${count ?? 0} records`);
+    const count = await store.count('collections');
+    console.log(`📊 Collections table found with ${count} records`);
     
-    console.log('✅ Supabase database connection tested successfully');
+    console.log(`✅ ${driver} database connection tested successfully`);
   } catch (error) {
-    console.error('❌ Supabase database initialization failed:', error);
+    console.error('❌ Database initialization failed:', error);
     throw error;
   }
 };
@@ -58,25 +73,18 @@ export const seedDatabase = async (): Promise<void> => {
 // Clear database function (for testing purposes)
 export const clearDatabase = async (): Promise<void> => {
   try {
-    console.log('🧹 Clearing Supabase database...');
-    const client = supabase.connect();
+    const { driver, store } = getRepositories();
+    console.log(`🧹 Clearing ${driver} database...`);
+    await store.connect();
     
-    // Delete all data (cascading will handle relationships)
-    await supabase.handleResponse(async () => {
-      return client.from('recipe_collections').delete().neq('collection_id', '');
-    });
-    
-    await supabase.handleResponse(async () => {
-      return client.from('recipes').delete().neq('recipe_id', '');
-    });
-    
-    await supabase.handleResponse(async () => {
-      return client.from('collections').delete().neq('collection_id', '');
-    });
+    // Delete all data (cascading will handle relationships on Postgres)
+    for (const table of TABLE_NAMES) {
+      await store.clear(table);
+    }
     
     console.log('✅ Database cleared successfully');
   } catch (error) {
     console.error('❌ Database clearing failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,346 @@
+import { getRepositories } from '../repositories/index.js';
+import type { Row, TableStore } from '../repositories/index.js';
+import { recipeInputToRow, rowToRecipe } from '../repositories/recipeRows.js';
+import { collectionInputToRow, isSmartCollectionRow } from '../repositories/collectionRows.js';
+import { BeanModel } from './Bean.js';
+import { EquipmentModel } from './Equipment.js';
+import { WaterProfileModel } from './WaterProfile.js';
+import { SavedSearchModel } from './SavedSearch.js';
+import { BrewSessionModel } from './BrewSession.js';
+import { RecipeRevisionModel } from './RecipeRevision.js';
+import { ExperimentModel } from './Experiment.js';
+import { recipeToInput } from '../../shared/index.js';
+import type {
+  Bean,
+  BackupCollection,
+  BackupData,
+  BackupExperiment,
+  BackupMembership,
+  BackupRecipe,
+  BrewSession,
+  CollectionColor,
+  Equipment,
+  RecipeRevision,
+  SavedSearch,
+  SmartCollectionRule,
+  WaterProfile
+} from '../../shared/index.js';
+
+// Tables a restore writes, keyed by their primary key column
+const KEY_COLUMNS = {
+  beans: 'bean_id',
+  equipment: 'equipment_id',
+  water_profiles: 'water_profile_id',
+  saved_searches: 'saved_search_id',
+  collections: 'collection_id',
+  recipes: 'recipe_id',
+  brew_sessions: 'session_id',
+  recipe_revisions: 'revision_id',
+  experiments: 'experiment_id'
+} as const;
+
+export type BackupTable = keyof typeof KEY_COLUMNS;
+
+// Tables a restored recipe may link to
+export type BackupReferenceTable = 'beans' | 'equipment' | 'water_profiles';
+
+// Sections of a backup other than the recipes, collections and memberships
+type BackupSections = Pick<BackupData, 'beans' | 'equipment' | 'waterProfiles' | 'savedSearches' | 'brewSessions' | 'revisions' | 'experiments'>;
+
+// Row-level access for backup and restore. Rows are written with their original
+// IDs and dates instead of going through create, which would assign new ones.
+export class BackupModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to the collection stored in a backup
+  private static rowToBackupCollection(row: Row): BackupCollection {
+    return {
+      collectionId: row.collection_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      color: row.color as CollectionColor,
+      isPrivate: row.is_private,
+      isDefault: row.is_default,
+      tags: Array.isArray(row.tags) ? row.tags : [],
+      ...(isSmartCollectionRow(row) ? { type: 'smart', rule: row.rule as SmartCollectionRule } : { type: 'manual' }),
+      parentId: row.parent_id ?? undefined,
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString()
+    };
+  }
+
+  // Everything an owner's backup contains. Beans, equipment, water profiles and saved
+  // searches are shared by every account and come whole, archived records included.
+  public static async load(ownerId: string): Promise<BackupSections & {
+    recipes: BackupRecipe[];
+    collections: BackupCollection[];
+    memberships: BackupMembership[];
+  }> {
+    // Blind experiment variants are read too; the experiments say which ones they are
+    const [recipeRows, collectionRows, beans, equipment, waterProfiles, savedSearches, experiments] = await Promise.all([
+      this.store.findMany('recipes', { owner_id: ownerId }),
+      this.store.findMany('collections', { owner_id: ownerId }),
+      BeanModel.findAll({ includeArchived: true }),
+      EquipmentModel.findAll({ includeArchived: true }),
+      WaterProfileModel.findAll(),
+      SavedSearchModel.findAll(),
+      ExperimentModel.findByOwner(ownerId)
+    ]);
+
+    const recipeIds = recipeRows.map(row => row.recipe_id as string);
+    const manualIds = collectionRows.filter(row => !isSmartCollectionRow(row)).map(row => row.collection_id);
+    const [membershipRows, brewSessions, revisions] = await Promise.all([
+      manualIds.length > 0 ? this.store.findMany('recipe_collections', { collection_id: manualIds }) : Promise.resolve([]),
+      BrewSessionModel.findByRecipeIds(recipeIds),
+      RecipeRevisionModel.findByRecipeIds(recipeIds)
+    ]);
+
+    // Stable order (date, then ID) so two backups of the same data are identical
+    const byDateThenId = (a: [string, string], b: [string, string]) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]);
+    const byCreation = <T>(dateOf: (record: T) => string, idOf: (record: T) => string) =>
+      (a: T, b: T) => byDateThenId([dateOf(a), idOf(a)], [dateOf(b), idOf(b)]);
+
+    const recipes = recipeRows.map(row => {
+      const { ownerId: _ownerId, ...recipe } = rowToRecipe(row);
+      const deducted = Number(row.bean_grams_deducted ?? 0);
+      return deducted > 0 ? { ...recipe, beanGramsDeducted: deducted } : recipe;
+    });
+
+    return {
+      recipes: recipes.sort(byCreation(recipe => recipe.dateCreated, recipe => recipe.recipeId)),
+      collections: collectionRows
+        .map(row => this.rowToBackupCollection(row))
+        .sort(byCreation(collection => collection.dateCreated, collection => collection.collectionId)),
+      memberships: membershipRows
+        .map(row => ({
+          recipeId: row.recipe_id,
+          collectionId: row.collection_id,
+          dateAssigned: new Date(row.date_assigned).toISOString()
+        }))
+        .sort(byCreation(membership => membership.dateAssigned, membership => `${membership.collectionId}:${membership.recipeId}`)),
+      beans: beans.sort(byCreation(bean => bean.dateCreated, bean => bean.beanId)),
+      equipment: equipment.sort(byCreation(item => item.dateCreated, item => item.equipmentId)),
+      waterProfiles: waterProfiles.sort(byCreation(profile => profile.dateCreated, profile => profile.waterProfileId)),
+      savedSearches: savedSearches.sort(byCreation(search => search.createdDate, search => search.id)),
+      brewSessions: brewSessions.sort(byCreation(session => session.dateCreated, session => session.sessionId)),
+      revisions: revisions.sort(byCreation(revision => revision.dateCreated, revision => revision.revisionId)),
+      experiments: experiments
+        .map(({ ownerId: _ownerId, ...experiment }) => experiment)
+        .sort(byCreation(experiment => experiment.dateCreated, experiment => experiment.experimentId))
+    };
+  }
+
+  // Column values of a backed-up recipe, keeping its ID, dates and the grams it took from its bag
+  public static recipeToRow(recipe: BackupRecipe, ownerId: string): Row {
+    return {
+      recipe_id: recipe.recipeId,
+      owner_id: ownerId,
+      date_created: recipe.dateCreated,
+      date_modified: recipe.dateModified,
+      bean_grams_deducted: recipe.beanGramsDeducted ?? 0,
+      ...recipeInputToRow(recipeToInput(recipe))
+    };
+  }
+
+  // Column values of a backed-up collection, keeping its ID and dates
+  public static collectionToRow(collection: BackupCollection, ownerId: string): Row {
+    return {
+      collection_id: collection.collectionId,
+      owner_id: ownerId,
+      date_created: collection.dateCreated,
+      date_modified: collection.dateModified,
+      ...collectionInputToRow({
+        name: collection.name,
+        description: collection.description,
+        color: collection.color,
+        isPrivate: collection.isPrivate,
+        isDefault: collection.isDefault,
+        tags: collection.tags,
+        rule: collection.rule,
+        parentId: collection.parentId
+      })
+    };
+  }
+
+  public static beanToRow(bean: Bean): Row {
+    return {
+      bean_id: bean.beanId,
+      name: bean.name?.trim() || null,
+      roaster: bean.roaster?.trim() || null,
+      origin: bean.origin.trim(),
+      processing_method: bean.processingMethod,
+      altitude: bean.altitude ?? null,
+      roasting_level: bean.roastingLevel ?? null,
+      roast_date: bean.roastDate ?? null,
+      bag_weight: bean.bagWeight,
+      remaining_grams: bean.remainingGrams,
+      notes: bean.notes?.trim() || null,
+      is_archived: bean.isArchived,
+      date_created: bean.dateCreated,
+      date_modified: bean.dateModified
+    };
+  }
+
+  public static equipmentToRow(equipment: Equipment): Row {
+    return {
+      equipment_id: equipment.equipmentId,
+      type: equipment.type,
+      name: equipment.name.trim(),
+      brand: equipment.brand?.trim() || null,
+      setting_scale: equipment.settingScale ?? null,
+      calibration: equipment.calibration ?? null,
+      brewing_method: equipment.brewingMethod ?? null,
+      notes: equipment.notes?.trim() || null,
+      is_archived: equipment.isArchived,
+      date_created: equipment.dateCreated,
+      date_modified: equipment.dateModified
+    };
+  }
+
+  public static waterProfileToRow(profile: WaterProfile): Row {
+    return {
+      water_profile_id: profile.waterProfileId,
+      name: profile.name.trim(),
+      composition: profile.composition ?? {},
+      mix: profile.mix?.length ? profile.mix : null,
+      notes: profile.notes?.trim() || null,
+      date_created: profile.dateCreated,
+      date_modified: profile.dateModified
+    };
+  }
+
+  public static savedSearchToRow(search: SavedSearch): Row {
+    return {
+      saved_search_id: search.id,
+      name: search.name.trim(),
+      filters: search.filters,
+      sort: search.sort,
+      date_created: search.createdDate,
+      last_used: search.lastUsed
+    };
+  }
+
+  public static brewSessionToRow(session: BrewSession): Row {
+    return {
+      session_id: session.sessionId,
+      recipe_id: session.recipeId,
+      brew_date: session.brewDate,
+      measurements: session.measurements ?? {},
+      evaluation: session.evaluation ?? {},
+      notes: session.notes?.trim() || null,
+      date_created: session.dateCreated,
+      date_modified: session.dateModified
+    };
+  }
+
+  public static revisionToRow(revision: RecipeRevision): Row {
+    return {
+      revision_id: revision.revisionId,
+      recipe_id: revision.recipeId,
+      revision_number: revision.revisionNumber,
+      snapshot: revision.snapshot,
+      changed_fields: revision.changedFields,
+      restored_from: revision.restoredFrom ?? null,
+      date_created: revision.dateCreated
+    };
+  }
+
+  public static experimentToRow(experiment: BackupExperiment, ownerId: string): Row {
+    return {
+      experiment_id: experiment.experimentId,
+      owner_id: ownerId,
+      name: experiment.name.trim(),
+      base_recipe_id: experiment.baseRecipeId ?? null,
+      base_recipe_name: experiment.baseRecipeName,
+      variable: experiment.variable,
+      status: experiment.status,
+      variants: experiment.variants,
+      notes: experiment.notes?.trim() || null,
+      date_created: experiment.dateCreated,
+      date_modified: experiment.dateModified,
+      date_completed: experiment.dateCompleted ?? null
+    };
+  }
+
+  // Existing rows with the given IDs, keyed by ID
+  public static async findRows(table: BackupTable, ids: string[]): Promise<Map<string, Row>> {
+    const column = KEY_COLUMNS[table];
+    const rows = ids.length > 0 ? await this.store.findMany(table, { [column]: ids }) : [];
+    return new Map(rows.map(row => [row[column] as string, row]));
+  }
+
+  // Which of the given recipes belong to the owner
+  public static async findOwnedRecipeIds(ids: string[], ownerId: string): Promise<Set<string>> {
+    const rows = ids.length > 0 ? await this.store.findMany('recipes', { recipe_id: ids, owner_id: ownerId }) : [];
+    return new Set(rows.map(row => row.recipe_id as string));
+  }
+
+  // Existing saved searches with the given names, keyed by name (names are unique)
+  public static async findSavedSearchesByName(names: string[]): Promise<Map<string, Row>> {
+    const rows = names.length > 0 ? await this.store.findMany('saved_searches', { name: names }) : [];
+    return new Map(rows.map(row => [row.name as string, row]));
+  }
+
+  // Existing revisions of the given recipes as "recipeId:revisionNumber" keys, mapped to the revision ID
+  public static async findRevisionNumbers(recipeIds: string[]): Promise<Map<string, string>> {
+    const rows = recipeIds.length > 0 ? await this.store.findMany('recipe_revisions', { recipe_id: recipeIds }) : [];
+    return new Map(rows.map(row => [`${row.recipe_id}:${row.revision_number}`, row.revision_id as string]));
+  }
+
+  // The owner's existing collections with the given names, keyed by name (names are unique per owner)
+  public static async findCollectionsByName(names: string[], ownerId: string): Promise<Map<string, Row>> {
+    const rows = names.length > 0 ? await this.store.findMany('collections', { name: names, owner_id: ownerId }) : [];
+    return new Map(rows.map(row => [row.name as string, row]));
+  }
+
+  // Which of the given IDs exist in a linked table
+  public static async findExistingReferences(table: BackupReferenceTable, ids: string[]): Promise<Set<string>> {
+    const column = KEY_COLUMNS[table];
+    const rows = ids.length > 0 ? await this.store.findMany(table, { [column]: ids }) : [];
+    return new Set(rows.map(row => row[column] as string));
+  }
+
+  // Existing memberships of the given collections as "recipeId:collectionId" keys
+  public static async findMembershipKeys(collectionIds: string[]): Promise<Set<string>> {
+    const rows = collectionIds.length > 0
+      ? await this.store.findMany('recipe_collections', { collection_id: collectionIds })
+      : [];
+    return new Set(rows.map(row => `${row.recipe_id}:${row.collection_id}`));
+  }
+
+  public static async insert(table: BackupTable, row: Row): Promise<void> {
+    await this.store.insert(table, row);
+  }
+
+  // Replace every column of an existing row
+  public static async replace(table: BackupTable, row: Row): Promise<void> {
+    const column = KEY_COLUMNS[table];
+    await this.store.update(table, { [column]: row[column] }, row);
+  }
+
+  public static async remove(table: BackupTable, id: string): Promise<void> {
+    await this.store.delete(table, { [KEY_COLUMNS[table]]: id });
+  }
+
+  public static async insertMemberships(memberships: BackupMembership[]): Promise<void> {
+    if (memberships.length === 0) return;
+    await this.store.insertMany('recipe_collections', memberships.map(membership => ({
+      recipe_id: membership.recipeId,
+      collection_id: membership.collectionId,
+      date_assigned: membership.dateAssigned
+    })));
+  }
+
+  public static async removeMemberships(memberships: BackupMembership[]): Promise<void> {
+    for (const membership of memberships) {
+      await this.store.delete('recipe_collections', {
+        recipe_id: membership.recipeId,
+        collection_id: membership.collectionId
+      });
+    }
+  }
+}
+
+export default BackupModel;
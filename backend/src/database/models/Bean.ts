@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type { Bean, BeanInput, BeanUpdate, RoastingLevel } from '../../shared/index.js';
+
+export class BeanModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to Bean interface
+  private static rowToBean(row: any): Bean {
+    return {
+      beanId: row.bean_id,
+      name: row.name ?? undefined,
+      roaster: row.roaster ?? undefined,
+      origin: row.origin,
+      processingMethod: row.processing_method,
+      altitude: row.altitude ?? undefined,
+      roastingLevel: row.roasting_level as RoastingLevel ?? undefined,
+      roastDate: row.roast_date ? new Date(row.roast_date).toISOString() : undefined,
+      bagWeight: Number(row.bag_weight),
+      remainingGrams: Number(row.remaining_grams),
+      notes: row.notes ?? undefined,
+      isArchived: row.is_archived,
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString(),
+    };
+  }
+
+  // Add a new bag to the inventory
+  public static async create(input: BeanInput): Promise<Bean> {
+    const result = await this.store.insert('beans', {
+      bean_id: uuidv4(),
+      name: input.name?.trim() || null,
+      roaster: input.roaster?.trim() || null,
+      origin: input.origin.trim(),
+      processing_method: input.processingMethod,
+      altitude: input.altitude ?? null,
+      roasting_level: input.roastingLevel ?? null,
+      roast_date: input.roastDate ?? null,
+      bag_weight: input.bagWeight,
+      remaining_grams: input.remainingGrams ?? input.bagWeight,
+      notes: input.notes?.trim() || null,
+      is_archived: input.isArchived ?? false,
+    });
+
+    return this.rowToBean(result);
+  }
+
+  // Find bag by ID
+  public static async findById(id: string): Promise<Bean | null> {
+    const result = await this.store.findOne('beans', { bean_id: id });
+
+    return result ? this.rowToBean(result) : null;
+  }
+
+  // Get the inventory, freshest roast first. Archived bags are left out unless asked for.
+  public static async findAll(options: { includeArchived?: boolean } = {}): Promise<Bean[]> {
+    const rows = await this.store.findMany(
+      'beans',
+      options.includeArchived ? {} : { is_archived: false },
+      { orderBy: 'roast_date', ascending: false }
+    );
+
+    return rows.map(row => this.rowToBean(row));
+  }
+
+  // Update bag details or correct the remaining amount
+  public static async update(id: string, updates: BeanUpdate): Promise<Bean | null> {
+    const updateData: any = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name.trim() || null;
+    if (updates.roaster !== undefined) updateData.roaster = updates.roaster.trim() || null;
+    if (updates.origin !== undefined) updateData.origin = updates.origin.trim();
+    if (updates.processingMethod !== undefined) updateData.processing_method = updates.processingMethod;
+    if (updates.altitude !== undefined) updateData.altitude = updates.altitude;
+    if (updates.roastingLevel !== undefined) updateData.roasting_level = updates.roastingLevel;
+    if (updates.roastDate !== undefined) updateData.roast_date = updates.roastDate;
+    if (updates.bagWeight !== undefined) updateData.bag_weight = updates.bagWeight;
+    if (updates.remainingGrams !== undefined) updateData.remaining_grams = updates.remainingGrams;
+    if (updates.notes !== undefined) updateData.notes = updates.notes.trim() || null;
+    if (updates.isArchived !== undefined) updateData.is_archived = updates.isArchived;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.findById(id);
+    }
+
+    const [result] = await this.store.update('beans', { bean_id: id }, updateData);
+
+    return result ? this.rowToBean(result) : null;
+  }
+
+  // Take coffee out of a bag (negative grams put it back), staying within 0..bag weight.
+  // Returns the grams actually taken out (negative when put back); 0 for an unknown bag.
+  public static async adjustRemaining(id: string, grams: number): Promise<number> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return 0;
+    }
+
+    const remaining = Math.round(Math.min(existing.bagWeight, Math.max(0, existing.remainingGrams - grams)) * 100) / 100;
+    await this.store.update('beans', { bean_id: id }, { remaining_grams: remaining });
+
+    return Math.round((existing.remainingGrams - remaining) * 100) / 100;
+  }
+
+  // Delete bag (recipes keep their bean info, the link is cleared)
+  public static async delete(id: string): Promise<boolean> {
+    await this.store.delete('beans', { bean_id: id });
+
+    return true;
+  }
+}
+
+export default BeanModel;
@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import { calculateRatio } from '../repositories/recipeRows.js';
+import {
+  calculateSessionStats,
+  type BrewSession,
+  type BrewSessionInput,
+  type BrewSessionList,
+  type BrewSessionMeasurements,
+  type BrewSessionUpdate,
+  type SensationRecord
+} from '../../shared/index.js';
+
+export class BrewSessionModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to BrewSession interface
+  private static rowToSession(row: any): BrewSession {
+    return {
+      sessionId: row.session_id,
+      recipeId: row.recipe_id,
+      brewDate: new Date(row.brew_date).toISOString(),
+      measurements: (row.measurements ?? {}) as BrewSessionMeasurements,
+      evaluation: (row.evaluation ?? {}) as SensationRecord,
+      notes: row.notes ?? undefined,
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString(),
+    };
+  }
+
+  // Fill in the ratio, and the extraction yield when TDS and weights allow it (SCA formula)
+  private static completeMeasurements(measurements: BrewSessionMeasurements): BrewSessionMeasurements {
+    const result = { ...measurements };
+    const { coffeeBeans, water, brewedCoffeeWeight, tds } = result;
+
+    if (coffeeBeans && water) {
+      result.coffeeWaterRatio = calculateRatio(coffeeBeans, water);
+    } else {
+      delete result.coffeeWaterRatio;
+    }
+
+    if (result.extractionYield === undefined && coffeeBeans && brewedCoffeeWeight && tds) {
+      result.extractionYield = Math.round((brewedCoffeeWeight * tds / coffeeBeans) * 100) / 100;
+    }
+
+    return result;
+  }
+
+  // Log a new session for a recipe
+  public static async create(recipeId: string, input: BrewSessionInput): Promise<BrewSession> {
+    const result = await this.store.insert('brew_sessions', {
+      session_id: uuidv4(),
+      recipe_id: recipeId,
+      brew_date: input.brewDate,
+      measurements: this.completeMeasurements(input.measurements ?? {}),
+      evaluation: input.evaluation ?? {},
+      notes: input.notes?.trim() || null,
+    });
+
+    return this.rowToSession(result);
+  }
+
+  // Find a session of a recipe by ID
+  public static async findById(recipeId: string, sessionId: string): Promise<BrewSession | null> {
+    const result = await this.store.findOne('brew_sessions', { session_id: sessionId, recipe_id: recipeId });
+
+    return result ? this.rowToSession(result) : null;
+  }
+
+  // Get all sessions of a recipe, most recent brew first
+  public static async findByRecipeId(recipeId: string): Promise<BrewSession[]> {
+    const rows = await this.store.findMany(
+      'brew_sessions',
+      { recipe_id: recipeId },
+      { orderBy: 'brew_date', ascending: false }
+    );
+
+    return rows.map(row => this.rowToSession(row));
+  }
+
+  // Get the sessions of several recipes at once, most recent brew first
+  public static async findByRecipeIds(recipeIds: string[]): Promise<BrewSession[]> {
+    if (recipeIds.length === 0) return [];
+
+    const rows = await this.store.findMany(
+      'brew_sessions',
+      { recipe_id: recipeIds },
+      { orderBy: 'brew_date', ascending: false }
+    );
+
+    return rows.map(row => this.rowToSession(row));
+  }
+
+  // Get all sessions of a recipe together with their aggregates
+  public static async listWithStats(recipeId: string): Promise<BrewSessionList> {
+    const sessions = await this.findByRecipeId(recipeId);
+
+    return { sessions, stats: calculateSessionStats(sessions) };
+  }
+
+  // Update session
+  public static async update(recipeId: string, sessionId: string, updates: BrewSessionUpdate): Promise<BrewSession | null> {
+    const updateData: any = {};
+
+    if (updates.brewDate !== undefined) updateData.brew_date = updates.brewDate;
+    if (updates.measurements !== undefined) updateData.measurements = this.completeMeasurements(updates.measurements);
+    if (updates.evaluation !== undefined) updateData.evaluation = updates.evaluation;
+    if (updates.notes !== undefined) updateData.notes = updates.notes.trim() || null;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.findById(recipeId, sessionId);
+    }
+
+    const [result] = await this.store.update(
+      'brew_sessions',
+      { session_id: sessionId, recipe_id: recipeId },
+      updateData
+    );
+
+    return result ? this.rowToSession(result) : null;
+  }
+
+  // Delete session
+  public static async delete(recipeId: string, sessionId: string): Promise<boolean> {
+    const deleted = await this.store.delete('brew_sessions', { session_id: sessionId, recipe_id: recipeId });
+
+    return deleted > 0;
+  }
+
+  // Count sessions logged for a recipe
+  public static async count(recipeId: string): Promise<number> {
+    return this.store.count('brew_sessions', { recipe_id: recipeId });
+  }
+}
+
+export default BrewSessionModel;
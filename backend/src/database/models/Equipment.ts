@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type {
+  BrewingMethod,
+  Equipment,
+  EquipmentInput,
+  EquipmentType,
+  EquipmentUpdate,
+  GrinderCalibrationPoint,
+  GrinderSettingScale
+} from '../../shared/index.js';
+
+export class EquipmentModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to Equipment interface
+  private static rowToEquipment(row: any): Equipment {
+    return {
+      equipmentId: row.equipment_id,
+      type: row.type as EquipmentType,
+      name: row.name,
+      brand: row.brand ?? undefined,
+      settingScale: row.setting_scale ? row.setting_scale as GrinderSettingScale : undefined,
+      calibration: row.calibration ? row.calibration as GrinderCalibrationPoint[] : undefined,
+      brewingMethod: row.brewing_method as BrewingMethod ?? undefined,
+      notes: row.notes ?? undefined,
+      isArchived: row.is_archived,
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString(),
+    };
+  }
+
+  // Register a piece of equipment
+  public static async create(input: EquipmentInput): Promise<Equipment> {
+    const result = await this.store.insert('equipment', {
+      equipment_id: uuidv4(),
+      type: input.type,
+      name: input.name.trim(),
+      brand: input.brand?.trim() || null,
+      setting_scale: input.settingScale ?? null,
+      calibration: input.calibration ?? null,
+      brewing_method: input.brewingMethod ?? null,
+      notes: input.notes?.trim() || null,
+      is_archived: input.isArchived ?? false,
+    });
+
+    return this.rowToEquipment(result);
+  }
+
+  // Find equipment by ID
+  public static async findById(id: string): Promise<Equipment | null> {
+    const result = await this.store.findOne('equipment', { equipment_id: id });
+
+    return result ? this.rowToEquipment(result) : null;
+  }
+
+  // Get the registry sorted by name, optionally a single type. Archived equipment is left out unless asked for.
+  public static async findAll(options: { type?: EquipmentType; includeArchived?: boolean } = {}): Promise<Equipment[]> {
+    const filters: Record<string, unknown> = {};
+    if (options.type) filters.type = options.type;
+    if (!options.includeArchived) filters.is_archived = false;
+
+    const rows = await this.store.findMany('equipment', filters, { orderBy: 'name', ascending: true });
+
+    return rows.map(row => this.rowToEquipment(row));
+  }
+
+  // Update equipment details
+  public static async update(id: string, updates: EquipmentUpdate): Promise<Equipment | null> {
+    const updateData: any = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    if (updates.brand !== undefined) updateData.brand = updates.brand.trim() || null;
+    if (updates.settingScale !== undefined) updateData.setting_scale = updates.settingScale;
+    if (updates.calibration !== undefined) updateData.calibration = updates.calibration;
+    if (updates.brewingMethod !== undefined) updateData.brewing_method = updates.brewingMethod;
+    if (updates.notes !== undefined) updateData.notes = updates.notes.trim() || null;
+    if (updates.isArchived !== undefined) updateData.is_archived = updates.isArchived;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.findById(id);
+    }
+
+    const [result] = await this.store.update('equipment', { equipment_id: id }, updateData);
+
+    return result ? this.rowToEquipment(result) : null;
+  }
+
+  // Delete equipment (recipes keep the names they were saved with, the link is cleared)
+  public static async delete(id: string): Promise<boolean> {
+    await this.store.delete('equipment', { equipment_id: id });
+
+    return true;
+  }
+}
+
+export default EquipmentModel;
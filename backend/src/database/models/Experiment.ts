@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type { Experiment, ExperimentStatus, ExperimentValue, ExperimentVariable } from '../../shared/index.js';
+
+// A variant as stored; the code is all the API shows of it until the experiment is completed
+export interface ExperimentVariantRecord {
+  code: string;
+  recipeId: string;
+  value: ExperimentValue;
+  label: string;
+  isBaseline: boolean;
+}
+
+// Experiment as stored, including the owner and the hidden variant details
+export interface ExperimentRecord extends Omit<Experiment, 'variants'> {
+  ownerId: string;
+  variants: ExperimentVariantRecord[];
+}
+
+export class ExperimentModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to ExperimentRecord
+  private static rowToExperiment(row: any): ExperimentRecord {
+    return {
+      experimentId: row.experiment_id,
+      ownerId: row.owner_id,
+      name: row.name,
+      baseRecipeId: row.base_recipe_id ?? undefined,
+      baseRecipeName: row.base_recipe_name,
+      variable: row.variable as ExperimentVariable,
+      status: row.status as ExperimentStatus,
+      notes: row.notes ?? undefined,
+      variants: (row.variants ?? []) as ExperimentVariantRecord[],
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString(),
+      dateCompleted: row.date_completed ? new Date(row.date_completed).toISOString() : undefined,
+    };
+  }
+
+  // Save a planned experiment whose variant recipes already exist
+  public static async create(input: {
+    ownerId: string;
+    name: string;
+    baseRecipeId: string;
+    baseRecipeName: string;
+    variable: ExperimentVariable;
+    variants: ExperimentVariantRecord[];
+    notes?: string;
+  }): Promise<ExperimentRecord> {
+    const result = await this.store.insert('experiments', {
+      experiment_id: uuidv4(),
+      owner_id: input.ownerId,
+      name: input.name.trim(),
+      base_recipe_id: input.baseRecipeId,
+      base_recipe_name: input.baseRecipeName,
+      variable: input.variable,
+      variants: input.variants,
+      notes: input.notes?.trim() || null,
+    });
+
+    return this.rowToExperiment(result);
+  }
+
+  // Find one of an owner's experiments by ID
+  public static async findById(id: string, ownerId: string): Promise<ExperimentRecord | null> {
+    const result = await this.store.findOne('experiments', { experiment_id: id, owner_id: ownerId });
+
+    return result ? this.rowToExperiment(result) : null;
+  }
+
+  // Get an owner's experiments, newest first
+  public static async findByOwner(ownerId: string): Promise<ExperimentRecord[]> {
+    const rows = await this.store.findMany('experiments', { owner_id: ownerId }, { orderBy: 'date_created', ascending: false });
+
+    return rows.map(row => this.rowToExperiment(row));
+  }
+
+  // End the blind tasting; from now on the variants and their recipes are shown
+  public static async complete(id: string): Promise<ExperimentRecord | null> {
+    const [result] = await this.store.update(
+      'experiments',
+      { experiment_id: id },
+      { status: 'completed', date_completed: new Date().toISOString() }
+    );
+    if (!result) {
+      return null;
+    }
+
+    const experiment = this.rowToExperiment(result);
+    await this.revealVariantRecipes(experiment);
+    return experiment;
+  }
+
+  // Bring the variant recipes back into recipe lists, search and detail
+  public static async revealVariantRecipes(experiment: ExperimentRecord): Promise<void> {
+    const recipeIds = experiment.variants.map(variant => variant.recipeId);
+    if (recipeIds.length > 0) {
+      await this.store.update('recipes', { recipe_id: recipeIds }, { is_blind: false });
+    }
+  }
+
+  // Delete experiment (the variant recipes and their tastings are kept)
+  public static async delete(id: string): Promise<boolean> {
+    const deleted = await this.store.delete('experiments', { experiment_id: id });
+
+    return deleted > 0;
+  }
+}
+
+export default ExperimentModel;
@@ -0,0 +1,83 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import { getChangedRecipeFields, type Recipe, type RecipeRevision } from '../../shared/index.js';
+
+export class RecipeRevisionModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to RecipeRevision interface
+  private static rowToRevision(row: any): RecipeRevision {
+    return {
+      revisionId: row.revision_id,
+      recipeId: row.recipe_id,
+      revisionNumber: row.revision_number,
+      snapshot: row.snapshot as Recipe,
+      changedFields: Array.isArray(row.changed_fields) ? row.changed_fields : [],
+      restoredFrom: row.restored_from ?? undefined,
+      dateCreated: new Date(row.date_created).toISOString(),
+    };
+  }
+
+  // Write an immutable snapshot of the recipe as it was just saved.
+  // Changed fields are computed against the previous saved state, if any.
+  public static async record(recipe: Recipe, previous: Recipe | null, restoredFrom?: number): Promise<RecipeRevision> {
+    const [latest] = await this.store.findMany(
+      'recipe_revisions',
+      { recipe_id: recipe.recipeId },
+      { orderBy: 'revision_number', ascending: false, limit: 1 }
+    );
+
+    const result = await this.store.insert('recipe_revisions', {
+      revision_id: uuidv4(),
+      recipe_id: recipe.recipeId,
+      revision_number: (latest?.revision_number ?? 0) + 1,
+      snapshot: recipe,
+      changed_fields: previous ? getChangedRecipeFields(previous, recipe) : [],
+      restored_from: restoredFrom ?? null,
+      date_created: new Date().toISOString(),
+    });
+
+    return this.rowToRevision(result);
+  }
+
+  // Get all revisions of a recipe, newest first
+  public static async findByRecipeId(recipeId: string): Promise<RecipeRevision[]> {
+    const rows = await this.store.findMany(
+      'recipe_revisions',
+      { recipe_id: recipeId },
+      { orderBy: 'revision_number', ascending: false }
+    );
+
+    return rows.map(row => this.rowToRevision(row));
+  }
+
+  // Get the revisions of several recipes at once, in revision order
+  public static async findByRecipeIds(recipeIds: string[]): Promise<RecipeRevision[]> {
+    if (recipeIds.length === 0) return [];
+
+    const rows = await this.store.findMany(
+      'recipe_revisions',
+      { recipe_id: recipeIds },
+      { orderBy: 'revision_number', ascending: true }
+    );
+
+    return rows.map(row => this.rowToRevision(row));
+  }
+
+  // Find a specific revision of a recipe
+  public static async findByNumber(recipeId: string, revisionNumber: number): Promise<RecipeRevision | null> {
+    const row = await this.store.findOne('recipe_revisions', { recipe_id: recipeId, revision_number: revisionNumber });
+
+    return row ? this.rowToRevision(row) : null;
+  }
+
+  // Count revisions recorded for a recipe
+  public static async count(recipeId: string): Promise<number> {
+    return this.store.count('recipe_revisions', { recipe_id: recipeId });
+  }
+}
+
+export default RecipeRevisionModel;
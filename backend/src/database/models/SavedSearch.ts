@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type { SavedSearch, SavedSearchInput, SavedSearchUpdate, SortConfig, SearchFilters } from '../../shared/index.js';
+
+export class SavedSearchModel {
+  // Convert database row to SavedSearch interface
+  private static rowToSavedSearch(row: any): SavedSearch {
+    return {
+      id: row.saved_search_id,
+      name: row.name,
+      filters: (row.filters ?? {}) as SearchFilters,
+      sort: row.sort as SortConfig,
+      createdDate: new Date(row.date_created).toISOString(),
+      lastUsed: new Date(row.last_used).toISOString(),
+    };
+  }
+
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Create a new saved search
+  public static async create(input: SavedSearchInput): Promise<SavedSearch> {
+    const now = new Date().toISOString();
+
+    const savedSearchData = {
+      saved_search_id: uuidv4(),
+      name: input.name.trim(),
+      filters: input.filters,
+      sort: input.sort,
+      date_created: now,
+      last_used: now,
+    };
+
+    const result = await this.store.insert('saved_searches', savedSearchData);
+
+    return this.rowToSavedSearch(result);
+  }
+
+  // Find saved search by ID
+  public static async findById(id: string): Promise<SavedSearch | null> {
+    const result = await this.store.findOne('saved_searches', { saved_search_id: id });
+
+    return result ? this.rowToSavedSearch(result) : null;
+  }
+
+  // Get all saved searches, most recently used first
+  public static async findAll(): Promise<SavedSearch[]> {
+    const rows = await this.store.findMany('saved_searches', {}, { orderBy: 'last_used', ascending: false });
+
+    return rows.map(row => this.rowToSavedSearch(row));
+  }
+
+  // Check if a saved search name is taken (optionally excluding one ID)
+  public static async nameExists(name: string, excludeId?: string): Promise<boolean> {
+    const rows = await this.store.findMany('saved_searches', { name: name.trim() });
+    return rows.some(row => row.saved_search_id !== excludeId);
+  }
+
+  // Update saved search
+  public static async update(id: string, updates: SavedSearchUpdate): Promise<SavedSearch | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updateData: any = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    if (updates.filters !== undefined) updateData.filters = updates.filters;
+    if (updates.sort !== undefined) updateData.sort = updates.sort;
+
+    if (Object.keys(updateData).length > 0) {
+      await this.store.update('saved_searches', { saved_search_id: id }, updateData);
+    }
+
+    return this.findById(id);
+  }
+
+  // Record that a saved search was applied
+  public static async markUsed(id: string): Promise<SavedSearch | null> {
+    const [result] = await this.store.update(
+      'saved_searches',
+      { saved_search_id: id },
+      { last_used: new Date().toISOString() }
+    );
+
+    return result ? this.rowToSavedSearch(result) : null;
+  }
+
+  // Delete saved search
+  public static async delete(id: string): Promise<boolean> {
+    await this.store.delete('saved_searches', { saved_search_id: id });
+
+    return true;
+  }
+}
+
+export default SavedSearchModel;
@@ -0,0 +1,122 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type { Share, ShareOptions, ShareStatus, ShareTargetType } from '../../shared/index.js';
+
+// Share link as stored, including the owner the API never returns
+export interface ShareRecord extends Share {
+  ownerId: string;
+}
+
+export class ShareModel {
+  // Convert database row to ShareRecord, deriving the status from revocation and expiry
+  private static rowToShare(row: any): ShareRecord {
+    const expiresAt = row.expires_at ? new Date(row.expires_at).toISOString() : undefined;
+    const revokedAt = row.revoked_at ? new Date(row.revoked_at).toISOString() : undefined;
+
+    let status: ShareStatus = 'active';
+    if (revokedAt) {
+      status = 'revoked';
+    } else if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      status = 'expired';
+    }
+
+    return {
+      shareId: row.share_id,
+      token: row.token,
+      ownerId: row.owner_id,
+      targetType: row.target_type as ShareTargetType,
+      targetId: row.target_id,
+      targetName: row.target_name,
+      options: row.options as ShareOptions,
+      status,
+      viewCount: row.view_count ?? 0,
+      dateCreated: new Date(row.date_created).toISOString(),
+      expiresAt,
+      revokedAt,
+      lastViewedAt: row.last_viewed_at ? new Date(row.last_viewed_at).toISOString() : undefined,
+    };
+  }
+
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Strip the owner for API responses
+  public static toPublic(share: ShareRecord): Share {
+    const { ownerId, ...publicShare } = share;
+    return publicShare;
+  }
+
+  // Create a share link with a fresh unguessable token
+  public static async create(input: {
+    ownerId: string;
+    targetType: ShareTargetType;
+    targetId: string;
+    targetName: string;
+    options: ShareOptions;
+    expiresInDays?: number;
+  }): Promise<ShareRecord> {
+    const now = new Date();
+    const expiresAt = input.expiresInDays
+      ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const result = await this.store.insert('shares', {
+      share_id: uuidv4(),
+      token: randomBytes(24).toString('base64url'),
+      owner_id: input.ownerId,
+      target_type: input.targetType,
+      target_id: input.targetId,
+      target_name: input.targetName,
+      options: input.options,
+      expires_at: expiresAt,
+      date_created: now.toISOString(),
+    });
+
+    return this.rowToShare(result);
+  }
+
+  // Find share link by ID
+  public static async findById(id: string): Promise<ShareRecord | null> {
+    const result = await this.store.findOne('shares', { share_id: id });
+
+    return result ? this.rowToShare(result) : null;
+  }
+
+  // Find share link by its public token
+  public static async findByToken(token: string): Promise<ShareRecord | null> {
+    const result = await this.store.findOne('shares', { token });
+
+    return result ? this.rowToShare(result) : null;
+  }
+
+  // Get a user's share links, newest first (optionally only those of one recipe or collection)
+  public static async findByOwner(ownerId: string, targetId?: string): Promise<ShareRecord[]> {
+    const where: Record<string, unknown> = { owner_id: ownerId };
+    if (targetId) where.target_id = targetId;
+
+    const rows = await this.store.findMany('shares', where, { orderBy: 'date_created', ascending: false });
+
+    return rows.map(row => this.rowToShare(row));
+  }
+
+  // Revoke a share link; the public route answers 410 from then on
+  public static async revoke(id: string): Promise<ShareRecord | null> {
+    const [result] = await this.store.update('shares', { share_id: id }, { revoked_at: new Date().toISOString() });
+
+    return result ? this.rowToShare(result) : null;
+  }
+
+  // Count a view of the shared content
+  public static async recordView(share: ShareRecord): Promise<void> {
+    await this.store.update(
+      'shares',
+      { share_id: share.shareId },
+      { view_count: share.viewCount + 1, last_viewed_at: new Date().toISOString() }
+    );
+  }
+}
+
+export default ShareModel;
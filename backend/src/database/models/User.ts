@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import type { AuthProviderName, User } from '../../shared/index.js';
+
+// Account data as stored, including the credentials the API never returns
+export interface UserRecord extends User {
+  passwordHash?: string;
+  externalId?: string;
+}
+
+export class UserModel {
+  // Convert database row to UserRecord
+  private static rowToUser(row: any): UserRecord {
+    return {
+      userId: row.user_id,
+      username: row.username,
+      displayName: row.display_name ?? undefined,
+      authProvider: row.auth_provider as AuthProviderName,
+      dateCreated: new Date(row.date_created).toISOString(),
+      passwordHash: row.password_hash ?? undefined,
+      externalId: row.external_id ?? undefined,
+    };
+  }
+
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Strip credentials for API responses
+  public static toPublic(user: UserRecord): User {
+    const { passwordHash, externalId, ...publicUser } = user;
+    return publicUser;
+  }
+
+  // Create a new account
+  public static async create(input: {
+    username: string;
+    displayName?: string;
+    authProvider: AuthProviderName;
+    passwordHash?: string;
+    externalId?: string;
+  }): Promise<UserRecord> {
+    const result = await this.store.insert('users', {
+      user_id: uuidv4(),
+      username: input.username.trim().toLowerCase(),
+      display_name: input.displayName?.trim() ?? null,
+      auth_provider: input.authProvider,
+      password_hash: input.passwordHash ?? null,
+      external_id: input.externalId ?? null,
+      date_created: new Date().toISOString(),
+    });
+
+    return this.rowToUser(result);
+  }
+
+  // Find account by ID
+  public static async findById(id: string): Promise<UserRecord | null> {
+    const result = await this.store.findOne('users', { user_id: id });
+
+    return result ? this.rowToUser(result) : null;
+  }
+
+  // Find account by login name (case-insensitive)
+  public static async findByUsername(username: string): Promise<UserRecord | null> {
+    const result = await this.store.findOne('users', { username: username.trim().toLowerCase() });
+
+    return result ? this.rowToUser(result) : null;
+  }
+
+  // Find account by its subject at an external provider
+  public static async findByExternalId(authProvider: AuthProviderName, externalId: string): Promise<UserRecord | null> {
+    const result = await this.store.findOne('users', { auth_provider: authProvider, external_id: externalId });
+
+    return result ? this.rowToUser(result) : null;
+  }
+
+  // Get accounts count
+  public static async count(): Promise<number> {
+    return this.store.count('users');
+  }
+
+  // Give recipes and collections from before accounts existed to a user
+  public static async adoptUnownedData(userId: string): Promise<{ recipes: number; collections: number }> {
+    const [recipes, collections] = await Promise.all([
+      this.store.update('recipes', { owner_id: null }, { owner_id: userId }),
+      this.store.update('collections', { owner_id: null }, { owner_id: userId })
+    ]);
+
+    return { recipes: recipes.length, collections: collections.length };
+  }
+}
+
+export default UserModel;
@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
+import type { TableStore } from '../repositories/index.js';
+import { rowToRecipe } from '../repositories/recipeRows.js';
+import {
+  calculateWaterMix,
+  calculateWaterProfileStats,
+  completeWaterComposition,
+  type WaterMineralComposition,
+  type WaterMixComponent,
+  type WaterProfile,
+  type WaterProfileInput,
+  type WaterProfileStats,
+  type WaterProfileUpdate
+} from '../../shared/index.js';
+
+export class WaterProfileModel {
+  private static get store(): TableStore {
+    return getRepositories().store;
+  }
+
+  // Convert database row to WaterProfile interface
+  private static rowToWaterProfile(row: any): WaterProfile {
+    return {
+      waterProfileId: row.water_profile_id,
+      name: row.name,
+      composition: row.composition ?? {},
+      mix: Array.isArray(row.mix) ? row.mix : undefined,
+      notes: row.notes ?? undefined,
+      dateCreated: new Date(row.date_created).toISOString(),
+      dateModified: new Date(row.date_modified).toISOString(),
+    };
+  }
+
+  // A concentrate mix is the source of truth for the minerals; measured waters fill in GH/KH from the ions
+  private static resolveComposition(
+    composition: WaterMineralComposition | undefined,
+    mix: WaterMixComponent[] | undefined
+  ): WaterMineralComposition {
+    if (mix?.length) {
+      return calculateWaterMix(mix);
+    }
+    return completeWaterComposition(composition ?? {});
+  }
+
+  // Create a new water profile
+  public static async create(input: WaterProfileInput): Promise<WaterProfile> {
+    const result = await this.store.insert('water_profiles', {
+      water_profile_id: uuidv4(),
+      name: input.name.trim(),
+      composition: this.resolveComposition(input.composition, input.mix),
+      mix: input.mix?.length ? input.mix : null,
+      notes: input.notes?.trim() || null,
+    });
+
+    return this.rowToWaterProfile(result);
+  }
+
+  // Find water profile by ID
+  public static async findById(id: string): Promise<WaterProfile | null> {
+    const result = await this.store.findOne('water_profiles', { water_profile_id: id });
+
+    return result ? this.rowToWaterProfile(result) : null;
+  }
+
+  // Get all water profiles by name
+  public static async findAll(): Promise<WaterProfile[]> {
+    const rows = await this.store.findMany('water_profiles', {}, { orderBy: 'name', ascending: true });
+
+    return rows.map(row => this.rowToWaterProfile(row));
+  }
+
+  // Update water profile; changing the mix recalculates the composition
+  public static async update(id: string, updates: WaterProfileUpdate): Promise<WaterProfile | null> {
+    const updateData: any = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    if (updates.notes !== undefined) updateData.notes = updates.notes.trim() || null;
+
+    if (updates.mix !== undefined || updates.composition !== undefined) {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      const mix = updates.mix !== undefined ? updates.mix : existing.mix;
+      updateData.mix = mix?.length ? mix : null;
+      updateData.composition = this.resolveComposition(updates.composition ?? existing.composition, mix);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return this.findById(id);
+    }
+
+    const [result] = await this.store.update('water_profiles', { water_profile_id: id }, updateData);
+
+    return result ? this.rowToWaterProfile(result) : null;
+  }
+
+  // Score the owner's recipes brewed with each profile (or one profile), overall and per origin
+  public static async getStats(ownerId: string, id?: string): Promise<WaterProfileStats[]> {
+    const profiles = id
+      ? [await this.findById(id)].filter((profile): profile is WaterProfile => profile !== null)
+      : await this.findAll();
+
+    return Promise.all(profiles.map(async profile => {
+      const rows = await this.store.findMany('recipes', { water_profile_id: profile.waterProfileId, owner_id: ownerId });
+      return calculateWaterProfileStats(profile, rows.map(rowToRecipe));
+    }));
+  }
+
+  // Delete water profile (recipes keep their other details, the link is cleared)
+  public static async delete(id: string): Promise<boolean> {
+    await this.store.delete('water_profiles', { water_profile_id: id });
+
+    return true;
+  }
+}
+
+export default WaterProfileModel;
@@ -0,0 +1,186 @@
+import type { DatabaseDriver, FindOptions, Row, TableStore, Where } from './types.js';
+import { getTableDefinition, TABLE_NAMES, type TableName } from './tables.js';
+
+// Compare two non-null column values the way Postgres orders them
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+};
+
+// Sort rows by a column, keeping nulls last regardless of direction
+export const sortRows = (rows: Row[], column: string, ascending: boolean): Row[] => {
+  return [...rows].sort((a, b) => {
+    const left = a[column];
+    const right = b[column];
+    if (left === null || left === undefined) return right === null || right === undefined ? 0 : 1;
+    if (right === null || right === undefined) return -1;
+    const result = compareValues(left, right);
+    return ascending ? result : -result;
+  });
+};
+
+const matchesWhere = (row: Row, where: Where): boolean => {
+  return Object.entries(where).every(([column, expected]) => {
+    const value = row[column] ?? null;
+    if (Array.isArray(expected)) {
+      return expected.includes(value);
+    }
+    return value === (expected ?? null);
+  });
+};
+
+// Shared implementation for drivers that keep rows as JSON documents
+// (SQLite and in-memory). Filtering, defaults and constraints live here;
+// subclasses only persist and load rows.
+export abstract class LocalStore implements TableStore {
+  public abstract readonly driver: DatabaseDriver;
+
+  public abstract connect(): Promise<void>;
+
+  protected abstract readRows(table: TableName): Row[];
+  protected abstract writeRow(table: TableName, id: string, row: Row): void;
+  protected abstract removeRow(table: TableName, id: string): void;
+  protected abstract removeAll(table: TableName): void;
+
+  // Composite primary key used as the document ID
+  protected rowId(table: TableName, row: Row): string {
+    return getTableDefinition(table).key.map(column => String(row[column])).join(':');
+  }
+
+  private assertUnique(table: TableName, row: Row, ignoreId?: string): void {
+    const definition = getTableDefinition(table);
+    const id = this.rowId(table, row);
+    const rows = this.readRows(table);
+
+    if (id !== ignoreId && rows.some(existing => this.rowId(table, existing) === id)) {
+      throw new Error(`duplicate key value violates unique constraint "${table}_pkey"`);
+    }
+
+    for (const columns of definition.unique ?? []) {
+      if (columns.some(column => row[column] === null || row[column] === undefined)) continue;
+      const conflict = rows.some(existing =>
+        this.rowId(table, existing) !== ignoreId && columns.every(column => existing[column] === row[column])
+      );
+      if (conflict) {
+        throw new Error(`duplicate key value violates unique constraint "${table}_${columns.join('_')}_key"`);
+      }
+    }
+  }
+
+  // Apply column defaults and check the primary key is present
+  private toRecord(table: TableName, row: Row): Row {
+    const definition = getTableDefinition(table);
+    const record: Row = { ...definition.defaults?.() };
+    Object.entries(row).forEach(([column, value]) => {
+      if (value !== undefined) record[column] = value;
+    });
+
+    const missingKey = definition.key.find(column => record[column] === undefined || record[column] === null);
+    if (missingKey) {
+      throw new Error(`null value in column "${missingKey}" of relation "${table}" violates not-null constraint`);
+    }
+
+    return record;
+  }
+
+  public async insert(table: TableName, row: Row): Promise<Row> {
+    const record = this.toRecord(table, row);
+
+    this.assertUnique(table, record);
+    this.writeRow(table, this.rowId(table, record), record);
+    return { ...record };
+  }
+
+  // Check every row before writing any, like a single multi-row INSERT
+  public async insertMany(table: TableName, rows: Row[]): Promise<Row[]> {
+    const records = rows.map(row => this.toRecord(table, row));
+    const ids = new Set<string>();
+
+    records.forEach(record => {
+      const id = this.rowId(table, record);
+      if (ids.has(id)) {
+        throw new Error(`duplicate key value violates unique constraint "${table}_pkey"`);
+      }
+      ids.add(id);
+      this.assertUnique(table, record);
+    });
+
+    records.forEach(record => this.writeRow(table, this.rowId(table, record), record));
+    return records.map(record => ({ ...record }));
+  }
+
+  public async findOne(table: TableName, where: Where): Promise<Row | null> {
+    return this.readRows(table).find(row => matchesWhere(row, where)) ?? null;
+  }
+
+  public async findMany(table: TableName, where: Where = {}, options: FindOptions = {}): Promise<Row[]> {
+    let rows = this.readRows(table).filter(row => matchesWhere(row, where));
+
+    if (options.orderBy) {
+      rows = sortRows(rows, options.orderBy, options.ascending !== false);
+    }
+
+    return options.limit !== undefined ? rows.slice(0, options.limit) : rows;
+  }
+
+  public async update(table: TableName, where: Where, changes: Row): Promise<Row[]> {
+    const definition = getTableDefinition(table);
+    const updated: Row[] = [];
+
+    for (const row of this.readRows(table).filter(existing => matchesWhere(existing, where))) {
+      const id = this.rowId(table, row);
+      const record: Row = { ...row };
+      Object.entries(changes).forEach(([column, value]) => {
+        if (value !== undefined) record[column] = value;
+      });
+      if (definition.modifiedColumn && changes[definition.modifiedColumn] === undefined) {
+        record[definition.modifiedColumn] = new Date().toISOString();
+      }
+
+      this.assertUnique(table, record, id);
+      if (this.rowId(table, record) !== id) {
+        this.removeRow(table, id);
+      }
+      this.writeRow(table, this.rowId(table, record), record);
+      updated.push(record);
+    }
+
+    return updated;
+  }
+
+  public async delete(table: TableName, where: Where): Promise<number> {
+    const matches = this.readRows(table).filter(row => matchesWhere(row, where));
+    matches.forEach(row => this.removeRow(table, this.rowId(table, row)));
+
+    // Cascade to (or detach) rows referencing the deleted ones
+    if (matches.length > 0) {
+      const [keyColumn] = getTableDefinition(table).key;
+      const deletedIds = matches.map(row => row[keyColumn!]);
+      for (const child of TABLE_NAMES) {
+        for (const foreignKey of getTableDefinition(child).foreignKeys ?? []) {
+          if (foreignKey.references !== table) continue;
+          if (foreignKey.onDelete === 'set null') {
+            await this.update(child, { [foreignKey.column]: deletedIds }, { [foreignKey.column]: null });
+          } else {
+            await this.delete(child, { [foreignKey.column]: deletedIds });
+          }
+        }
+      }
+    }
+
+    return matches.length;
+  }
+
+  public async count(table: TableName, where: Where = {}): Promise<number> {
+    return this.readRows(table).filter(row => matchesWhere(row, where)).length;
+  }
+
+  public async clear(table: TableName): Promise<void> {
+    this.removeAll(table);
+  }
+}
@@ -0,0 +1,45 @@
+import { LocalStore } from './LocalStore.js';
+import { TABLE_NAMES, type TableName } from './tables.js';
+import type { Row } from './types.js';
+
+// Non-persistent driver for tests, demos and quick local runs.
+// Data lives for the lifetime of the process.
+export class MemoryStore extends LocalStore {
+  public readonly driver = 'memory' as const;
+  private tables = new Map<TableName, Map<string, Row>>();
+
+  public async connect(): Promise<void> {
+    if (this.tables.size > 0) {
+      return;
+    }
+
+    TABLE_NAMES.forEach(table => this.tables.set(table, new Map()));
+    console.log('✅ Using in-memory database (data is not persisted)');
+  }
+
+  private table(table: TableName): Map<string, Row> {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  // Hand out copies so callers can never mutate stored rows in place
+  protected readRows(table: TableName): Row[] {
+    return Array.from(this.table(table).values()).map(row => structuredClone(row));
+  }
+
+  protected writeRow(table: TableName, id: string, row: Row): void {
+    this.table(table).set(id, structuredClone(row));
+  }
+
+  protected removeRow(table: TableName, id: string): void {
+    this.table(table).delete(id);
+  }
+
+  protected removeAll(table: TableName): void {
+    this.table(table).clear();
+  }
+}
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { LocalStore } from './LocalStore.js';
+import { TABLE_NAMES, type TableName } from './tables.js';
+import type { Row } from './types.js';
+
+// File-backed driver for self-hosting without a Supabase project.
+// Each table stores its rows as JSON documents keyed by primary key,
+// so rows keep exactly the same shape as the Postgres columns.
+export class SqliteStore extends LocalStore {
+  public readonly driver = 'sqlite' as const;
+  private db: BetterSqlite3.Database | null = null;
+
+  constructor(private readonly databasePath: string) {
+    super();
+  }
+
+  public async connect(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    // Loaded lazily so Supabase deployments never need the native module
+    const { default: Database } = await import('better-sqlite3');
+
+    if (this.databasePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(this.databasePath)), { recursive: true });
+    }
+
+    const db = new Database(this.databasePath);
+    db.pragma('journal_mode = WAL');
+
+    TABLE_NAMES.forEach(table => {
+      db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    });
+
+    this.db = db;
+    console.log(`✅ Connected to SQLite database at ${this.databasePath}`);
+  }
+
+  private getDb(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new Error('❌ SQLite database is not connected. Call initializeDatabase() first.');
+    }
+    return this.db;
+  }
+
+  protected readRows(table: TableName): Row[] {
+    const rows = this.getDb().prepare(`SELECT data FROM ${table}`).all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as Row);
+  }
+
+  protected writeRow(table: TableName, id: string, row: Row): void {
+    this.getDb()
+      .prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`)
+      .run(id, JSON.stringify(row));
+  }
+
+  protected removeRow(table: TableName, id: string): void {
+    this.getDb().prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+  }
+
+  protected removeAll(table: TableName): void {
+    this.getDb().prepare(`DELETE FROM ${table}`).run();
+  }
+}
@@ -0,0 +1,250 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Collection, CollectionInput, CollectionUpdate, SmartCollectionRule } from '../../shared/index.js';
+import type { CollectionFilters, CollectionRepository, CollectionSummaryRow, RecipeRepository, Row, TableStore } from './types.js';
+import { sortRows } from './LocalStore.js';
+import {
+  COLLECTION_SORT_COLUMNS,
+  rowToCollection,
+  collectionInputToRow,
+  collectionUpdateToRow,
+  calculateCollectionStats,
+  calculateSmartCollectionStats,
+  isSmartCollectionRow,
+  isVisibleCollectionRow,
+  smartCollectionConnections,
+  toCollectionSummary,
+  rollUpCollectionSummaries
+} from './collectionRows.js';
+
+// Collection storage built only on table primitives, so it runs on any TableStore
+export class StoreCollectionRepository implements CollectionRepository {
+  constructor(
+    private readonly store: TableStore,
+    private readonly recipes: RecipeRepository // Evaluates smart collection rules
+  ) {}
+
+  // Convert database row to Collection interface
+  private async rowToCollection(row: Row): Promise<Collection> {
+    if (isSmartCollectionRow(row)) {
+      const recipes = await this.recipes.findBySmartRule(row.rule as SmartCollectionRule, row.owner_id ?? null);
+      return rowToCollection(row, recipes.map(recipe => recipe.recipeId), calculateSmartCollectionStats(recipes));
+    }
+
+    const memberships = await this.store.findMany('recipe_collections', { collection_id: row.collection_id });
+    const recipes = await this.store.findMany('recipes', { recipe_id: memberships.map(rc => rc.recipe_id) });
+
+    return rowToCollection(
+      row,
+      memberships.map(rc => rc.recipe_id),
+      calculateCollectionStats(recipes, memberships.map(rc => rc.date_assigned))
+    );
+  }
+
+  // Apply the shared collection list filters and sorting to rows
+  private async findRows(filters?: CollectionFilters): Promise<Row[]> {
+    const searchQuery = filters?.searchQuery?.toLowerCase();
+
+    const rows = (await this.store.findMany('collections')).filter(row => {
+      if (!isVisibleCollectionRow(row, filters?.viewerId)) return false;
+      if (filters?.isPrivate !== undefined && row.is_private !== filters.isPrivate) return false;
+      if (filters?.color && row.color !== filters.color) return false;
+      if (searchQuery) {
+        return [row.name, row.description].some(value =>
+          typeof value === 'string' && value.toLowerCase().includes(searchQuery)
+        );
+      }
+      return true;
+    });
+
+    const sortBy = COLLECTION_SORT_COLUMNS.includes(filters?.sortBy || '') ? filters!.sortBy! : 'name';
+    return sortRows(rows, sortBy, filters?.sortOrder !== 'desc');
+  }
+
+  // Create a new collection
+  public async create(input: CollectionInput, ownerId?: string): Promise<Collection> {
+    const row = await this.store.insert('collections', {
+      collection_id: uuidv4(),
+      owner_id: ownerId ?? null,
+      ...collectionInputToRow(input)
+    });
+
+    return this.rowToCollection(row);
+  }
+
+  // Find collection by ID
+  public async findById(id: string): Promise<Collection | null> {
+    const row = await this.store.findOne('collections', { collection_id: id });
+    return row ? this.rowToCollection(row) : null;
+  }
+
+  // Find collection by name, among one owner's collections when given (names are unique per owner)
+  public async findByName(name: string, ownerId?: string): Promise<Collection | null> {
+    const row = await this.store.findOne('collections', {
+      name: name.trim(),
+      ...(ownerId !== undefined && { owner_id: ownerId })
+    });
+    return row ? this.rowToCollection(row) : null;
+  }
+
+  // Get all collections with optional filtering
+  public async findAll(filters?: CollectionFilters): Promise<Collection[]> {
+    const rows = await this.findRows(filters);
+
+    const collections = [];
+    for (const row of rows) {
+      collections.push(await this.rowToCollection(row));
+    }
+
+    return collections;
+  }
+
+  // Update collection
+  public async update(id: string, updates: CollectionUpdate): Promise<Collection | null> {
+    const updated = await this.store.update('collections', { collection_id: id }, collectionUpdateToRow(updates));
+    if (updated.length === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  // Move collection under a new parent (null for the top level)
+  public async move(id: string, parentId: string | null): Promise<Collection | null> {
+    const updated = await this.store.update('collections', { collection_id: id }, { parent_id: parentId });
+    if (updated.length === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  // Delete collection (memberships cascade, sub-collections move to the top level)
+  public async delete(id: string): Promise<boolean> {
+    await this.store.delete('collections', { collection_id: id });
+
+    return true;
+  }
+
+  // Add recipe to collection (adding an existing member is a no-op)
+  public async addRecipe(collectionId: string, recipeId: string): Promise<boolean> {
+    const existing = await this.store.findOne('recipe_collections', { collection_id: collectionId, recipe_id: recipeId });
+    if (!existing) {
+      await this.store.insert('recipe_collections', { collection_id: collectionId, recipe_id: recipeId });
+    }
+
+    return true;
+  }
+
+  // Remove recipe from collection
+  public async removeRecipe(collectionId: string, recipeId: string): Promise<boolean> {
+    await this.store.delete('recipe_collections', { collection_id: collectionId, recipe_id: recipeId });
+
+    return true;
+  }
+
+  // Add many recipes in one insert; unknown recipe IDs fail, existing members are left as they are
+  public async addRecipes(collectionId: string, recipeIds: string[]): Promise<{ added: string[]; failed: string[] }> {
+    const ids = Array.from(new Set(recipeIds));
+    const known = new Set((await this.store.findMany('recipes', { recipe_id: ids })).map(row => row.recipe_id));
+    const members = new Set(
+      (await this.store.findMany('recipe_collections', { collection_id: collectionId, recipe_id: ids })).map(rc => rc.recipe_id)
+    );
+
+    const added = ids.filter(id => known.has(id));
+    await this.store.insertMany(
+      'recipe_collections',
+      added.filter(id => !members.has(id)).map(id => ({ collection_id: collectionId, recipe_id: id }))
+    );
+
+    return { added, failed: ids.filter(id => !known.has(id)) };
+  }
+
+  // Remove many recipes in one delete; recipes that were not members fail
+  public async removeRecipes(collectionId: string, recipeIds: string[]): Promise<{ removed: string[]; failed: string[] }> {
+    const ids = Array.from(new Set(recipeIds));
+    const where = { collection_id: collectionId, recipe_id: ids };
+    const members = new Set((await this.store.findMany('recipe_collections', where)).map(rc => rc.recipe_id));
+
+    await this.store.delete('recipe_collections', where);
+
+    return {
+      removed: ids.filter(id => members.has(id)),
+      failed: ids.filter(id => !members.has(id))
+    };
+  }
+
+  // Get collections for a specific recipe, including the smart collections it matches
+  public async findByRecipeId(recipeId: string): Promise<Collection[]> {
+    const recipe = await this.recipes.findById(recipeId);
+    if (!recipe) {
+      return [];
+    }
+
+    // Names are only unique per owner, so match the names among the recipe owner's collections
+    const rows = await this.store.findMany(
+      'collections',
+      { name: recipe.collections, owner_id: recipe.ownerId ?? null },
+      { orderBy: 'name' }
+    );
+
+    const collections = [];
+    for (const row of rows) {
+      collections.push(await this.rowToCollection(row));
+    }
+
+    return collections;
+  }
+
+  // Check if the owner already has a collection with this name
+  public async nameExists(name: string, ownerId: string, excludeId?: string): Promise<boolean> {
+    const rows = await this.store.findMany('collections', { name: name.trim(), owner_id: ownerId });
+    return rows.some(row => row.collection_id !== excludeId);
+  }
+
+  // Get collections count
+  public async count(viewerId?: string): Promise<number> {
+    if (viewerId === undefined) {
+      return this.store.count('collections');
+    }
+    return (await this.findRows({ viewerId })).length;
+  }
+
+  // Get recipe count for a collection
+  public async getRecipeCount(collectionId: string): Promise<number> {
+    const row = await this.store.findOne('collections', { collection_id: collectionId });
+    if (row && isSmartCollectionRow(row)) {
+      return (await this.recipes.findBySmartRule(row.rule as SmartCollectionRule, row.owner_id ?? null)).length;
+    }
+
+    return this.store.count('recipe_collections', { collection_id: collectionId });
+  }
+
+  // Get collection summaries for efficient display
+  public async findAllSummaries(filters?: CollectionFilters): Promise<CollectionSummaryRow[]> {
+    const [rows, allRows, memberships, recipes] = await Promise.all([
+      this.findRows(filters),
+      this.store.findMany('collections'),
+      this.store.findMany('recipe_collections'),
+      this.store.findMany('recipes')
+    ]);
+
+    const ratingByRecipe = new Map(recipes.map(recipe => [recipe.recipe_id as string, recipe.overall_impression as number | null]));
+
+    // Connections of every collection, so statistics also roll up through filtered-out sub-collections
+    const tree = [];
+    for (const row of allRows) {
+      const connections = isSmartCollectionRow(row)
+        ? smartCollectionConnections(await this.recipes.findBySmartRule(row.rule as SmartCollectionRule, row.owner_id ?? null))
+        : memberships
+          .filter(rc => rc.collection_id === row.collection_id)
+          .map(rc => ({ recipe_id: rc.recipe_id, date_assigned: rc.date_assigned, overall_impression: ratingByRecipe.get(rc.recipe_id) }));
+      tree.push({ collection_id: row.collection_id as string, parent_id: row.parent_id ?? null, connections });
+    }
+    const connectionsById = new Map(tree.map(node => [node.collection_id, node.connections]));
+
+    return rollUpCollectionSummaries(
+      rows.map(row => toCollectionSummary(row, connectionsById.get(row.collection_id) ?? [])),
+      tree
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { resolveSmartCollectionFilters, rankRecipesByText } from '../../shared/index.js';
+import type { RankedRecipe, Recipe, RecipeInput, SearchRequestSchemaType, SearchFiltersSchemaType, SearchFacets, SmartCollectionRule } from '../../shared/index.js';
+import type { FindOptions, OwnerScope, RecipeReadOptions, RecipeRepository, Row, TableStore } from './types.js';
+import { compareValues } from './LocalStore.js';
+import {
+  SORT_COLUMNS,
+  ownerWhere,
+  isBlindRecipeRow,
+  rowToRecipe,
+  recipeInputToRow,
+  matchesBaseFilters,
+  matchesSearchFilters,
+  computeFacets,
+  groupCollectionNames,
+  addSmartCollections
+} from './recipeRows.js';
+import { isSmartCollectionRow } from './collectionRows.js';
+
+// Recipe storage built only on table primitives, so it runs on any TableStore.
+// Used by the SQLite and in-memory drivers, which evaluate filters in process.
+export class StoreRecipeRepository implements RecipeRepository {
+  constructor(private readonly store: TableStore) {}
+
+  private async loadManualCollectionsByRecipe(): Promise<{ manual: Map<string, string[]>; collections: Row[] }> {
+    const [memberships, collections] = await Promise.all([
+      this.store.findMany('recipe_collections'),
+      this.store.findMany('collections')
+    ]);
+
+    return { manual: groupCollectionNames(memberships, collections), collections };
+  }
+
+  // Map recipe ID to the names of the collections it belongs to, manual and smart.
+  // Smart membership is evaluated for the given rows (all recipes when omitted).
+  private async loadCollectionsByRecipe(rows?: Row[]): Promise<Map<string, string[]>> {
+    const { manual, collections } = await this.loadManualCollectionsByRecipe();
+    const smartCollections = collections
+      .filter(isSmartCollectionRow)
+      .map(row => ({ name: row.name as string, rule: row.rule as SmartCollectionRule, ownerId: (row.owner_id ?? null) as string | null }));
+    if (smartCollections.length === 0) {
+      return manual;
+    }
+
+    return addSmartCollections(rows ?? await this.store.findMany('recipes'), smartCollections, manual);
+  }
+
+  private toRecipe(row: Row, collectionsByRecipe: Map<string, string[]>): Recipe {
+    const recipe = rowToRecipe(row);
+    recipe.collections = collectionsByRecipe.get(recipe.recipeId) ?? [];
+    return recipe;
+  }
+
+  // Create a new recipe
+  public async create(input: RecipeInput, ownerId?: string, options: { blind?: boolean } = {}): Promise<Recipe> {
+    const row = await this.store.insert('recipes', {
+      recipe_id: uuidv4(),
+      owner_id: ownerId ?? null,
+      ...recipeInputToRow(input),
+      ...(options.blind && { is_blind: true })
+    });
+
+    return rowToRecipe(row);
+  }
+
+  // Rows of an owner scope, without blind experiment variants unless asked for
+  private async findRows(ownerId: OwnerScope, options: RecipeReadOptions = {}, findOptions?: FindOptions): Promise<Row[]> {
+    const rows = await this.store.findMany('recipes', ownerWhere(ownerId), findOptions);
+    return options.includeBlind ? rows : rows.filter(row => !isBlindRecipeRow(row));
+  }
+
+  // Find recipe by ID
+  public async findById(id: string, ownerId?: OwnerScope, options: RecipeReadOptions = {}): Promise<Recipe | null> {
+    const row = await this.store.findOne('recipes', { recipe_id: id, ...ownerWhere(ownerId) });
+    if (!row || (!options.includeBlind && isBlindRecipeRow(row))) {
+      return null;
+    }
+
+    return this.toRecipe(row, await this.loadCollectionsByRecipe([row]));
+  }
+
+  // Get all recipes
+  public async findAll(ownerId?: OwnerScope, options: RecipeReadOptions = {}): Promise<Recipe[]> {
+    const rows = await this.findRows(ownerId, options, { orderBy: 'date_modified', ascending: false });
+    const collectionsByRecipe = await this.loadCollectionsByRecipe(rows);
+
+    return rows.map(row => this.toRecipe(row, collectionsByRecipe));
+  }
+
+  // Search recipes with filtering, sorting and pagination evaluated in process
+  public async search(request: SearchRequestSchemaType, ownerId?: OwnerScope): Promise<{ recipes: Recipe[]; total: number }> {
+    const filters = request.filters ?? {};
+    const { page, limit } = request.pagination;
+    const column = SORT_COLUMNS[request.sort.field];
+    const direction = request.sort.direction === 'asc' ? 1 : -1;
+
+    const allRows = await this.findRows(ownerId);
+    const collectionsByRecipe = await this.loadCollectionsByRecipe(allRows);
+    const rows = allRows
+      .filter(row => matchesSearchFilters(row, filters, collectionsByRecipe))
+      .sort((a, b) => {
+        const left = a[column];
+        const right = b[column];
+        const leftMissing = left === null || left === undefined;
+        const rightMissing = right === null || right === undefined;
+        if (leftMissing !== rightMissing) return leftMissing ? 1 : -1;
+        const result = leftMissing ? 0 : compareValues(left, right) * direction;
+        return result || String(a.recipe_id).localeCompare(String(b.recipe_id));
+      });
+
+    const from = (page - 1) * limit;
+    return {
+      recipes: rows.slice(from, from + limit).map(row => this.toRecipe(row, collectionsByRecipe)),
+      total: rows.length
+    };
+  }
+
+  // Compute filter facets over the rows matching the base filters
+  public async getFacets(filters: SearchFiltersSchemaType, ownerId?: OwnerScope): Promise<SearchFacets> {
+    const rows = (await this.findRows(ownerId)).filter(row => matchesBaseFilters(row, filters));
+    return computeFacets(rows, filters, await this.loadCollectionsByRecipe(rows));
+  }
+
+  // Rank every recipe in scope for a free-text query
+  public async textSearch(query: string, limit: number, ownerId?: OwnerScope): Promise<RankedRecipe[]> {
+    return rankRecipesByText(await this.findAll(ownerId), query).slice(0, limit);
+  }
+
+  // Find the recipes a smart collection rule matches now
+  public async findBySmartRule(rule: SmartCollectionRule, ownerId?: OwnerScope): Promise<Recipe[]> {
+    const rows = await this.findRows(ownerId, {}, { orderBy: 'date_modified', ascending: false });
+    const { manual } = await this.loadManualCollectionsByRecipe();
+    const filters = resolveSmartCollectionFilters(rule);
+    const matching = rows.filter(row => matchesSearchFilters(row, filters, manual));
+    const collectionsByRecipe = await this.loadCollectionsByRecipe(matching);
+
+    return matching.map(row => this.toRecipe(row, collectionsByRecipe));
+  }
+
+  // Update recipe
+  public async update(id: string, input: RecipeInput): Promise<Recipe | null> {
+    const updated = await this.store.update('recipes', { recipe_id: id }, recipeInputToRow(input));
+    if (updated.length === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  // Delete recipe (memberships, revisions and sessions cascade)
+  public async delete(id: string): Promise<boolean> {
+    await this.store.delete('recipes', { recipe_id: id });
+
+    return true;
+  }
+
+  // Toggle favorite status
+  public async toggleFavorite(id: string): Promise<Recipe | null> {
+    const existing = await this.store.findOne('recipes', { recipe_id: id });
+    if (!existing) {
+      return null;
+    }
+
+    await this.store.update('recipes', { recipe_id: id }, { is_favorite: !existing.is_favorite });
+
+    return this.findById(id);
+  }
+
+  // Get recipes count
+  public async count(ownerId?: OwnerScope): Promise<number> {
+    return (await this.findRows(ownerId)).length;
+  }
+}
@@ -0,0 +1,396 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../supabase.js';
+import type { Collection, CollectionStats, CollectionInput, CollectionUpdate, SmartCollectionRule } from '../../shared/index.js';
+import type { CollectionFilters, CollectionRepository, CollectionSummaryRow, RecipeRepository } from './types.js';
+import {
+  COLLECTION_SORT_COLUMNS,
+  rowToCollection,
+  collectionInputToRow,
+  collectionUpdateToRow,
+  calculateCollectionStats,
+  calculateSmartCollectionStats,
+  isSmartCollectionRow,
+  smartCollectionConnections,
+  toCollectionSummary,
+  rollUpCollectionSummaries
+} from './collectionRows.js';
+
+// Collection storage on Supabase, using PostgREST embedded resources for memberships
+export class SupabaseCollectionRepository implements CollectionRepository {
+  constructor(private readonly recipes: RecipeRepository) {} // Evaluates smart collection rules
+
+  // Convert database row to Collection interface
+  private async rowToCollection(row: any): Promise<Collection> {
+    if (isSmartCollectionRow(row)) {
+      const recipes = await this.recipes.findBySmartRule(row.rule as SmartCollectionRule, row.owner_id ?? null);
+      return rowToCollection(row, recipes.map(recipe => recipe.recipeId), calculateSmartCollectionStats(recipes));
+    }
+
+    const client = supabase.getClient();
+
+    // Get recipe IDs for this collection
+    const recipeRows = await supabase.handleResponse(async () => {
+      return client
+        .from('recipe_collections')
+        .select('recipe_id')
+        .eq('collection_id', row.collection_id);
+    });
+
+    // Calculate collection statistics
+    const stats = await this.calculateStats(row.collection_id);
+
+    return rowToCollection(row, recipeRows.map(r => r.recipe_id), stats);
+  }
+
+  // Calculate collection statistics
+  private async calculateStats(collectionId: string): Promise<CollectionStats> {
+    const client = supabase.getClient();
+
+    const memberships = await supabase.handleResponse(async () => {
+      return client
+        .from('recipe_collections')
+        .select(`
+          date_assigned,
+          recipes (
+            overall_impression,
+            brewing_method,
+            origin,
+            date_created
+          )
+        `)
+        .eq('collection_id', collectionId);
+    });
+
+    const recipes = memberships.map((rc: any) => rc.recipes).filter((r: any) => r);
+    return calculateCollectionStats(recipes, memberships.map((rc: any) => rc.date_assigned));
+  }
+
+  // Create a new collection
+  public async create(input: CollectionInput, ownerId?: string): Promise<Collection> {
+    const client = supabase.getClient();
+
+    const collectionData = {
+      collection_id: uuidv4(),
+      owner_id: ownerId ?? null,
+      ...collectionInputToRow(input)
+    };
+
+    const result = await supabase.handleResponse(async () => {
+      return client.from('collections').insert(collectionData as any).select().single();
+    });
+
+    return this.rowToCollection(result);
+  }
+
+  // Find collection by ID
+  public async findById(id: string): Promise<Collection | null> {
+    const client = supabase.getClient();
+
+    const result = await supabase.handleOptionalResponse(async () => {
+      return client.from('collections').select('*').eq('collection_id', id).single();
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    return this.rowToCollection(result);
+  }
+
+  // Find collection by name, among one owner's collections when given (names are unique per owner)
+  public async findByName(name: string, ownerId?: string): Promise<Collection | null> {
+    const client = supabase.getClient();
+
+    const result = await supabase.handleOptionalResponse(async () => {
+      let query = client.from('collections').select('*').eq('name', name.trim());
+      if (ownerId !== undefined) {
+        query = query.eq('owner_id', ownerId);
+      }
+      return query.limit(1).maybeSingle();
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    return this.rowToCollection(result);
+  }
+
+  // Hide other users' private collections (unchanged without a viewer)
+  private applyVisibility<Q>(baseQuery: Q, viewerId?: string): Q {
+    const query = baseQuery as any;
+    return (viewerId === undefined ? query : query.or(`is_private.eq.false,owner_id.eq.${viewerId}`)) as Q;
+  }
+
+  // Apply the shared collection list filters and sorting to a query
+  private applyFilters<Q>(baseQuery: Q, filters?: CollectionFilters): Q {
+    let query = this.applyVisibility(baseQuery, filters?.viewerId) as any;
+
+    if (filters?.isPrivate !== undefined) {
+      query = query.eq('is_private', filters.isPrivate);
+    }
+
+    if (filters?.color) {
+      query = query.eq('color', filters.color);
+    }
+
+    if (filters?.searchQuery) {
+      query = query.or(`name.ilike.%${filters.searchQuery}%,description.ilike.%${filters.searchQuery}%`);
+    }
+
+    const sortBy = COLLECTION_SORT_COLUMNS.includes(filters?.sortBy || '') ? filters!.sortBy! : 'name';
+    const ascending = filters?.sortOrder !== 'desc';
+    return query.order(sortBy, { ascending }) as Q;
+  }
+
+  // Get all collections with optional filtering
+  public async findAll(filters?: CollectionFilters): Promise<Collection[]> {
+    const client = supabase.getClient();
+
+    const rows = await supabase.handleResponse(async () => {
+      return this.applyFilters(client.from('collections').select('*'), filters);
+    });
+
+    const collections = [];
+    for (const row of rows) {
+      const collection = await this.rowToCollection(row);
+      collections.push(collection);
+    }
+
+    return collections;
+  }
+
+  // Update collection
+  public async update(id: string, updates: CollectionUpdate): Promise<Collection | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const client = supabase.getClient();
+
+    await client.from('collections').update(collectionUpdateToRow(updates)).eq('collection_id', id);
+
+    return this.findById(id);
+  }
+
+  // Move collection under a new parent (null for the top level)
+  public async move(id: string, parentId: string | null): Promise<Collection | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const client = supabase.getClient();
+
+    await client.from('collections').update({ parent_id: parentId }).eq('collection_id', id);
+
+    return this.findById(id);
+  }
+
+  // Delete collection
+  public async delete(id: string): Promise<boolean> {
+    const client = supabase.getClient();
+
+    await client.from('collections').delete().eq('collection_id', id);
+
+    return true; // Supabase delete returns success if no error
+  }
+
+  // Add recipe to collection
+  public async addRecipe(collectionId: string, recipeId: string): Promise<boolean> {
+    const client = supabase.getClient();
+
+    try {
+      await client
+        .from('recipe_collections')
+        .insert({ collection_id: collectionId, recipe_id: recipeId });
+      return true;
+    } catch (error) {
+      // If it's a duplicate key error, that's fine - recipe is already in collection
+      if (error && typeof error === 'object' && 'message' in error) {
+        const message = error.message as string;
+        if (message.includes('duplicate') || message.includes('unique')) {
+          return true;
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Remove recipe from collection
+  public async removeRecipe(collectionId: string, recipeId: string): Promise<boolean> {
+    const client = supabase.getClient();
+
+    await client
+      .from('recipe_collections')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('recipe_id', recipeId);
+
+    return true;
+  }
+
+  // Add many recipes in one upsert; unknown recipe IDs fail, existing members are left as they are
+  public async addRecipes(collectionId: string, recipeIds: string[]): Promise<{ added: string[]; failed: string[] }> {
+    const client = supabase.getClient();
+    const ids = Array.from(new Set(recipeIds));
+
+    const recipeRows = await supabase.handleResponse(async () => {
+      return client.from('recipes').select('recipe_id').in('recipe_id', ids);
+    });
+    const known = new Set(recipeRows.map(row => row.recipe_id));
+    const added = ids.filter(id => known.has(id));
+
+    if (added.length > 0) {
+      await supabase.handleResponse(async () => {
+        return client
+          .from('recipe_collections')
+          .upsert(
+            added.map(id => ({ collection_id: collectionId, recipe_id: id })),
+            { onConflict: 'collection_id,recipe_id', ignoreDuplicates: true }
+          )
+          .select('recipe_id');
+      });
+    }
+
+    return { added, failed: ids.filter(id => !known.has(id)) };
+  }
+
+  // Remove many recipes in one delete; recipes that were not members fail
+  public async removeRecipes(collectionId: string, recipeIds: string[]): Promise<{ removed: string[]; failed: string[] }> {
+    const client = supabase.getClient();
+    const ids = Array.from(new Set(recipeIds));
+
+    const deletedRows = await supabase.handleResponse(async () => {
+      return client
+        .from('recipe_collections')
+        .delete()
+        .eq('collection_id', collectionId)
+        .in('recipe_id', ids)
+        .select('recipe_id');
+    });
+    const removed = new Set(deletedRows.map(row => row.recipe_id));
+
+    return {
+      removed: ids.filter(id => removed.has(id)),
+      failed: ids.filter(id => !removed.has(id))
+    };
+  }
+
+  // Get collections for a specific recipe, including the smart collections it matches
+  public async findByRecipeId(recipeId: string): Promise<Collection[]> {
+    const recipe = await this.recipes.findById(recipeId);
+    if (!recipe || recipe.collections.length === 0) {
+      return [];
+    }
+
+    // Names are only unique per owner, so match the names among the recipe owner's collections
+    const client = supabase.getClient();
+    const rows = await supabase.handleResponse(async () => {
+      const query = client
+        .from('collections')
+        .select('*')
+        .in('name', recipe.collections);
+      return (recipe.ownerId ? query.eq('owner_id', recipe.ownerId) : query.is('owner_id', null))
+        .order('name', { ascending: true });
+    });
+
+    const collections = [];
+    for (const row of rows) {
+      collections.push(await this.rowToCollection(row));
+    }
+
+    return collections;
+  }
+
+  // Check if the owner already has a collection with this name
+  public async nameExists(name: string, ownerId: string, excludeId?: string): Promise<boolean> {
+    const client = supabase.getClient();
+
+    let query = client
+      .from('collections')
+      .select('collection_id', { count: 'exact', head: true })
+      .eq('name', name.trim())
+      .eq('owner_id', ownerId);
+
+    if (excludeId) {
+      query = query.neq('collection_id', excludeId);
+    }
+
+    const { count } = await query;
+    return (count ?? 0) > 0;
+  }
+
+  // Get collections count
+  public async count(viewerId?: string): Promise<number> {
+    const client = supabase.getClient();
+
+    const { count } = await this.applyVisibility(client.from('collections').select('*', { count: 'exact', head: true }), viewerId);
+    return count ?? 0;
+  }
+
+  // Get recipe count for a collection
+  public async getRecipeCount(collectionId: string): Promise<number> {
+    const client = supabase.getClient();
+
+    const collection: any = await supabase.handleOptionalResponse(async () => {
+      return client.from('collections').select('*').eq('collection_id', collectionId).single();
+    });
+    if (collection && isSmartCollectionRow(collection)) {
+      return (await this.recipes.findBySmartRule(collection.rule as SmartCollectionRule, collection.owner_id ?? null)).length;
+    }
+
+    const { count } = await client
+      .from('recipe_collections')
+      .select('*', { count: 'exact', head: true })
+      .eq('collection_id', collectionId);
+
+    return count ?? 0;
+  }
+
+  // Get collection summaries for efficient display
+  public async findAllSummaries(filters?: CollectionFilters): Promise<CollectionSummaryRow[]> {
+    const client = supabase.getClient();
+
+    const collections = await supabase.handleResponse(async () => {
+      return this.applyFilters(client.from('collections').select('*'), filters);
+    });
+
+    // Memberships of every collection with recipe ratings, so statistics also roll up
+    // through filtered-out sub-collections
+    const allCollections = await supabase.handleResponse(async () => {
+      return client.from('collections').select(`
+        collection_id,
+        parent_id,
+        owner_id,
+        rule,
+        recipe_collections (
+          recipe_id,
+          date_assigned,
+          recipes (
+            overall_impression
+          )
+        )
+      `);
+    });
+
+    const tree = [];
+    for (const collection of allCollections as any[]) {
+      const connections = isSmartCollectionRow(collection)
+        ? smartCollectionConnections(await this.recipes.findBySmartRule(collection.rule as SmartCollectionRule, collection.owner_id ?? null))
+        : (collection.recipe_collections || []).map((rc: any) => ({
+          recipe_id: rc.recipe_id,
+          date_assigned: rc.date_assigned,
+          overall_impression: rc.recipes?.overall_impression
+        }));
+      tree.push({ collection_id: collection.collection_id as string, parent_id: collection.parent_id ?? null, connections });
+    }
+    const connectionsById = new Map(tree.map(node => [node.collection_id, node.connections]));
+
+    return rollUpCollectionSummaries(
+      (collections as any[]).map(collection => toCollectionSummary(collection, connectionsById.get(collection.collection_id) ?? [])),
+      tree
+    );
+  }
+}
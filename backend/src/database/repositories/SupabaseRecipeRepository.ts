@@ -0,0 +1,319 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../supabase.js';
+import { resolveSmartCollectionFilters, rankRecipesByText, tokenizeTextQuery } from '../../shared/index.js';
+import type { RankedRecipe, Recipe, RecipeInput, SearchRequestSchemaType, SearchFiltersSchemaType, SearchFacets, SmartCollectionRule } from '../../shared/index.js';
+import type { OwnerScope, RecipeReadOptions, RecipeRepository } from './types.js';
+import { SORT_COLUMNS, DATE_COLUMNS, SEARCH_COLUMNS, SCORE_COLUMNS, rowToRecipe, recipeInputToRow, computeFacets } from './recipeRows.js';
+
+// Recipe columns plus the names of every collection the recipe belongs to, manual and smart.
+// collection_names is a computed column (a Postgres function, see supabase-schema.sql), so
+// smart collection rules are evaluated in the database for the recipe's owner only.
+const RECIPE_COLUMNS = '*, collection_names';
+
+// Postgres array literal for a PostgREST filter value. Every element is quoted, so commas,
+// dots and parentheses in collection names do not break the filter syntax.
+const toPgArray = (values: string[]): string =>
+  `{${values.map(value => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+
+// Most recipes a free-text search scores; a query matching more ranks the newest of them
+const TEXT_SEARCH_CANDIDATES = 200;
+
+// Recipe storage on Supabase, pushing filtering, sorting and pagination down to Postgres
+export class SupabaseRecipeRepository implements RecipeRepository {
+  // Convert a row read with RECIPE_COLUMNS
+  private toRecipe(row: any): Recipe {
+    const recipe = rowToRecipe(row);
+    recipe.collections = row.collection_names ?? [];
+    return recipe;
+  }
+
+  // Create a new recipe
+  public async create(input: RecipeInput, ownerId?: string, options: { blind?: boolean } = {}): Promise<Recipe> {
+    const client = supabase.getClient();
+
+    const recipeData = {
+      recipe_id: uuidv4(),
+      owner_id: ownerId ?? null,
+      ...recipeInputToRow(input),
+      ...(options.blind && { is_blind: true })
+    };
+
+    const result = await supabase.handleResponse(async () => {
+      return client.from('recipes').insert(recipeData as any).select().single();
+    });
+
+    return rowToRecipe(result);
+  }
+
+  // Find recipe by ID
+  public async findById(id: string, ownerId?: OwnerScope, options: RecipeReadOptions = {}): Promise<Recipe | null> {
+    const client = supabase.getClient();
+
+    const result = await supabase.handleOptionalResponse(async () => {
+      return this.applyOwner(client.from('recipes').select(RECIPE_COLUMNS).eq('recipe_id', id), ownerId, options).single();
+    });
+
+    return result ? this.toRecipe(result) : null;
+  }
+
+  // Get all recipes
+  public async findAll(ownerId?: OwnerScope, options: RecipeReadOptions = {}): Promise<Recipe[]> {
+    const client = supabase.getClient();
+
+    const rows = await supabase.handleResponse(async () => {
+      return this.applyOwner(client.from('recipes').select(RECIPE_COLUMNS), ownerId, options).order('date_modified', { ascending: false });
+    });
+
+    return rows.map(row => this.toRecipe(row));
+  }
+
+  // Restrict a recipes query to an owner scope (every owner when unscoped), leaving out
+  // blind experiment variants unless asked for
+  private applyOwner<Q>(baseQuery: Q, ownerId: OwnerScope, options: RecipeReadOptions = {}): Q {
+    let query = baseQuery as any;
+    if (!options.includeBlind) {
+      query = query.eq('is_blind', false);
+    }
+    if (ownerId === undefined) {
+      return query as Q;
+    }
+    return (ownerId === null ? query.is('owner_id', null) : query.eq('owner_id', ownerId)) as Q;
+  }
+
+  // Apply filters that are never faceted (text, ratio, dates, flags) to a recipes query
+  private applyBaseFilters<Q>(baseQuery: Q, filters: SearchFiltersSchemaType): Q {
+    let query = baseQuery as any;
+
+    if (filters.searchTerm?.trim()) {
+      // Strip characters that carry meaning in PostgREST filter syntax
+      const term = filters.searchTerm.trim().replace(/[%,().*]/g, ' ');
+      query = query.or(SEARCH_COLUMNS.map(column => `${column}.ilike.%${term}%`).join(','));
+    }
+
+    if (filters.coffeeWaterRatioRange) {
+      query = query
+        .gte('coffee_water_ratio', filters.coffeeWaterRatioRange[0])
+        .lte('coffee_water_ratio', filters.coffeeWaterRatioRange[1]);
+    }
+
+    if (filters.tdsRange) {
+      query = query
+        .gte('tds', filters.tdsRange[0])
+        .lte('tds', filters.tdsRange[1]);
+    }
+
+    if (filters.scoreRange) {
+      const [min, max] = filters.scoreRange;
+      query = query.or(SCORE_COLUMNS.map(column => `and(${column}.gte.${min},${column}.lte.${max})`).join(','));
+    }
+
+    if (filters.dateRange) {
+      const column = DATE_COLUMNS[filters.dateRange.field];
+      query = query
+        .gte(column, filters.dateRange.start)
+        .lte(column, filters.dateRange.end);
+    }
+
+    if (filters.favoritesOnly) {
+      query = query.eq('is_favorite', true);
+    }
+
+    if (filters.hasRating) {
+      query = query.not('overall_impression', 'is', null);
+    }
+
+    if (filters.waterProfileIds?.length) {
+      query = query.in('water_profile_id', filters.waterProfileIds);
+    }
+
+    return query as Q;
+  }
+
+  // Apply the faceted filters except collections to a recipes query
+  private applyFacetFilters<Q>(baseQuery: Q, filters: SearchFiltersSchemaType): Q {
+    let query = baseQuery as any;
+
+    if (filters.origins?.length) {
+      query = query.in('origin', filters.origins);
+    }
+
+    if (filters.roastingLevels?.length) {
+      query = query.in('roasting_level', filters.roastingLevels);
+    }
+
+    if (filters.brewingMethods?.length) {
+      query = query.in('brewing_method', filters.brewingMethods);
+    }
+
+    if (filters.overallImpressionRange) {
+      query = query
+        .gte('overall_impression', filters.overallImpressionRange[0])
+        .lte('overall_impression', filters.overallImpressionRange[1]);
+    }
+
+    if (filters.altitudeRange) {
+      query = query
+        .gte('altitude', filters.altitudeRange[0])
+        .lte('altitude', filters.altitudeRange[1]);
+    }
+
+    return query as Q;
+  }
+
+  // Search recipes with filtering, sorting and pagination applied in the database
+  public async search(request: SearchRequestSchemaType, ownerId?: OwnerScope): Promise<{ recipes: Recipe[]; total: number }> {
+    const client = supabase.getClient();
+    const filters = request.filters ?? {};
+    const { page, limit } = request.pagination;
+
+    let query = this.applyFacetFilters(
+      this.applyBaseFilters(this.applyOwner(client.from('recipes').select(RECIPE_COLUMNS, { count: 'exact' }), ownerId), filters),
+      filters
+    );
+
+    if (filters.collections?.length || filters.includeUncollected) {
+      query = query.or(this.buildCollectionFilter(filters.collections ?? [], !!filters.includeUncollected));
+    }
+
+    const from = (page - 1) * limit;
+    const { data, error, count } = await query
+      .order(SORT_COLUMNS[request.sort.field], { ascending: request.sort.direction === 'asc', nullsFirst: false })
+      .order('recipe_id', { ascending: true })
+      .range(from, from + limit - 1);
+
+    if (error) {
+      console.error('❌ Supabase operation error:', error);
+      throw new Error(`Database operation failed: ${error.message}`);
+    }
+
+    return { recipes: (data ?? []).map(row => this.toRecipe(row)), total: count ?? 0 };
+  }
+
+  // Compute filter facets, narrowing the candidate rows in the database first
+  public async getFacets(filters: SearchFiltersSchemaType, ownerId?: OwnerScope): Promise<SearchFacets> {
+    const client = supabase.getClient();
+
+    const rows = await supabase.handleResponse(async () => {
+      return this.applyBaseFilters(
+        this.applyOwner(
+          client.from('recipes').select('recipe_id, origin, roasting_level, brewing_method, overall_impression, altitude, collection_names'),
+          ownerId
+        ),
+        filters
+      );
+    });
+
+    const collectionsByRecipe = new Map<string, string[]>(rows.map((row: any) => [row.recipe_id, row.collection_names ?? []]));
+    return computeFacets(rows, filters, collectionsByRecipe);
+  }
+
+  // Rank recipes for a free-text query. The database keeps the recipes whose search_text
+  // (a computed column, see supabase-schema.sql) contains every word, and only those are scored.
+  public async textSearch(query: string, limit: number, ownerId?: OwnerScope): Promise<RankedRecipe[]> {
+    const words = tokenizeTextQuery(query);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const client = supabase.getClient();
+    const rows = await supabase.handleResponse(async () => {
+      let request = this.applyOwner(client.from('recipes').select(RECIPE_COLUMNS), ownerId);
+      for (const word of words) {
+        // Pattern characters match any one character here; scoring drops the extra rows
+        request = request.ilike('search_text', `%${word.replace(/[%*_\\]/g, '_')}%`);
+      }
+      return request.order('date_modified', { ascending: false }).limit(Math.max(limit, TEXT_SEARCH_CANDIDATES));
+    });
+
+    return rankRecipesByText(rows.map((row: any) => this.toRecipe(row)), query).slice(0, limit);
+  }
+
+  // Find the recipes a smart collection rule matches now
+  public async findBySmartRule(rule: SmartCollectionRule, ownerId?: OwnerScope): Promise<Recipe[]> {
+    const client = supabase.getClient();
+    const rows = await supabase.handleResponse(async () => {
+      return this.applySmartRule(this.applyOwner(client.from('recipes').select(RECIPE_COLUMNS), ownerId), rule)
+        .order('date_modified', { ascending: false });
+    });
+
+    return rows.map((row: any) => this.toRecipe(row));
+  }
+
+  // Apply a smart collection rule to a recipes query.
+  // Rules see manual memberships only, so one smart collection never depends on another.
+  private applySmartRule<Q>(baseQuery: Q, rule: SmartCollectionRule): Q {
+    const filters = resolveSmartCollectionFilters(rule);
+    let query = this.applyFacetFilters(this.applyBaseFilters(baseQuery, filters), filters) as any;
+
+    if (filters.collections?.length || filters.includeUncollected) {
+      query = query.or(this.buildCollectionFilter(filters.collections ?? [], !!filters.includeUncollected, false));
+    }
+
+    return query as Q;
+  }
+
+  // Build a PostgREST filter restricting recipes by collection membership, smart collections
+  // included unless `withSmart` is false. Membership is read from a computed column, so the
+  // filter names the selected collections rather than listing their recipes.
+  private buildCollectionFilter(collectionNames: string[], includeUncollected: boolean, withSmart = true): string {
+    const column = withSmart ? 'collection_names' : 'manual_collection_names';
+    const conditions: string[] = [];
+
+    if (collectionNames.length > 0) {
+      conditions.push(`${column}.ov.${toPgArray(collectionNames)}`);
+    }
+    if (includeUncollected) {
+      conditions.push(`${column}.eq.{}`);
+    }
+
+    return conditions.join(',');
+  }
+
+  // Update recipe
+  public async update(id: string, input: RecipeInput): Promise<Recipe | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const client = supabase.getClient();
+
+    await client.from('recipes').update(recipeInputToRow(input) as any).eq('recipe_id', id);
+
+    return this.findById(id);
+  }
+
+  // Delete recipe
+  public async delete(id: string): Promise<boolean> {
+    const client = supabase.getClient();
+
+    await client.from('recipes').delete().eq('recipe_id', id);
+
+    return true; // Supabase delete returns success if no error
+  }
+
+  // Toggle favorite status
+  public async toggleFavorite(id: string): Promise<Recipe | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const client = supabase.getClient();
+
+    await client
+      .from('recipes')
+      .update({ is_favorite: !existing.isFavorite })
+      .eq('recipe_id', id);
+
+    return this.findById(id);
+  }
+
+  // Get recipes count
+  public async count(ownerId?: OwnerScope): Promise<number> {
+    const client = supabase.getClient();
+
+    const { count } = await this.applyOwner(client.from('recipes').select('*', { count: 'exact', head: true }), ownerId);
+    return count ?? 0;
+  }
+}
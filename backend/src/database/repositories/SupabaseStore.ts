@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase.js';
+import { getTableDefinition, type TableName } from './tables.js';
+import type { FindOptions, Row, TableStore, Where } from './types.js';
+
+// Table primitives on top of PostgREST. Defaults, unique constraints and
+// date_modified triggers are enforced by Postgres itself.
+export class SupabaseStore implements TableStore {
+  public readonly driver = 'supabase' as const;
+
+  // The typed Database schema can't be indexed by a dynamic table name
+  private get client(): SupabaseClient {
+    return supabase.getClient() as unknown as SupabaseClient;
+  }
+
+  private applyWhere<Q extends { eq: any; in: any; is: any }>(query: Q, where: Where): Q {
+    let filtered: any = query;
+    Object.entries(where).forEach(([column, value]) => {
+      if (Array.isArray(value)) {
+        filtered = filtered.in(column, value);
+      } else if (value === null || value === undefined) {
+        filtered = filtered.is(column, null);
+      } else {
+        filtered = filtered.eq(column, value);
+      }
+    });
+    return filtered as Q;
+  }
+
+  public async connect(): Promise<void> {
+    supabase.connect();
+  }
+
+  public async insert(table: TableName, row: Row): Promise<Row> {
+    return supabase.handleResponse(async () => {
+      return this.client.from(table).insert(row).select().single();
+    });
+  }
+
+  public async insertMany(table: TableName, rows: Row[]): Promise<Row[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    return supabase.handleResponse(async () => {
+      return this.client.from(table).insert(rows).select();
+    });
+  }
+
+  public async findOne(table: TableName, where: Where): Promise<Row | null> {
+    return supabase.handleOptionalResponse(async () => {
+      return this.applyWhere(this.client.from(table).select('*'), where).limit(1).maybeSingle();
+    });
+  }
+
+  public async findMany(table: TableName, where: Where = {}, options: FindOptions = {}): Promise<Row[]> {
+    return supabase.handleResponse(async () => {
+      let query = this.applyWhere(this.client.from(table).select('*'), where);
+      if (options.orderBy) {
+        query = query.order(options.orderBy, { ascending: options.ascending !== false, nullsFirst: false });
+      }
+      if (options.limit !== undefined) {
+        query = query.limit(options.limit);
+      }
+      return query;
+    });
+  }
+
+  public async update(table: TableName, where: Where, changes: Row): Promise<Row[]> {
+    return supabase.handleResponse(async () => {
+      return this.applyWhere(this.client.from(table).update(changes), where).select();
+    });
+  }
+
+  public async delete(table: TableName, where: Where): Promise<number> {
+    const rows = await supabase.handleResponse(async () => {
+      return this.applyWhere(this.client.from(table).delete(), where).select();
+    });
+    return rows.length;
+  }
+
+  public async count(table: TableName, where: Where = {}): Promise<number> {
+    const { count, error } = await this.applyWhere(
+      this.client.from(table).select('*', { count: 'exact', head: true }),
+      where
+    );
+
+    if (error) {
+      console.error('❌ Supabase operation error:', error);
+      throw new Error(`Database operation failed: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  public async clear(table: TableName): Promise<void> {
+    const [keyColumn] = getTableDefinition(table).key;
+    await supabase.handleResponse(async () => {
+      return this.client.from(table).delete().neq(keyColumn!, '');
+    });
+  }
+}
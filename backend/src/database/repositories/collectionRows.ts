@@ -0,0 +1,226 @@
+import type { Collection, CollectionStats, CollectionColor, CollectionInput, CollectionUpdate, Recipe, SmartCollectionRule } from '../../shared/index.js';
+import { getDescendantIds } from '../../shared/index.js';
+import type { CollectionSummaryRow, Row } from './types.js';
+
+// Row mapping and statistics shared by every collection repository
+
+// Sortable collection columns
+export const COLLECTION_SORT_COLUMNS = ['name', 'date_created', 'date_modified'];
+
+// Convert database row plus its memberships to the Collection interface
+export const rowToCollection = (row: Row, recipeIds: string[], stats: CollectionStats): Collection => {
+  return {
+    collectionId: row.collection_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    color: row.color as CollectionColor,
+    isPrivate: row.is_private,
+    isDefault: row.is_default,
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    ...collectionTypeFields(row),
+    parentId: row.parent_id ?? undefined,
+    ownerId: row.owner_id ?? undefined,
+    dateCreated: new Date(row.date_created).toISOString(),
+    dateModified: new Date(row.date_modified).toISOString(),
+    recipeIds,
+    stats,
+  };
+};
+
+// A stored rule makes a collection smart
+export const isSmartCollectionRow = (row: Row): boolean => row.rule !== null && row.rule !== undefined;
+
+// Private collections are only visible to their owner
+export const isVisibleCollectionRow = (row: Row, viewerId?: string): boolean => {
+  return viewerId === undefined || !row.is_private || row.owner_id === viewerId;
+};
+
+const collectionTypeFields = (row: Row): Pick<Collection, 'type' | 'rule'> => {
+  return isSmartCollectionRow(row)
+    ? { type: 'smart', rule: row.rule as SmartCollectionRule }
+    : { type: 'manual' };
+};
+
+// Convert collection input to the column values written on create
+export const collectionInputToRow = (input: CollectionInput): Row => {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() ?? null,
+    color: input.color,
+    is_private: input.isPrivate,
+    is_default: input.isDefault,
+    tags: input.tags || [],
+    rule: input.rule ?? null,
+    parent_id: input.parentId ?? null,
+  };
+};
+
+// Convert a partial collection update to the changed column values
+export const collectionUpdateToRow = (updates: CollectionUpdate): Row => {
+  const updateData: Row = {};
+
+  if (updates.name !== undefined) updateData.name = updates.name.trim();
+  if (updates.description !== undefined) updateData.description = updates.description?.trim() ?? null;
+  if (updates.color !== undefined) updateData.color = updates.color;
+  if (updates.isPrivate !== undefined) updateData.is_private = updates.isPrivate;
+  if (updates.isDefault !== undefined) updateData.is_default = updates.isDefault;
+  if (updates.tags !== undefined) updateData.tags = updates.tags;
+  if (updates.rule !== undefined) updateData.rule = updates.rule;
+
+  return updateData;
+};
+
+// Find the most common value in an array
+export const getMostCommon = (arr: (string | null)[]): string | undefined => {
+  if (arr.length === 0) return undefined;
+
+  const counts: Record<string, number> = {};
+  arr.forEach(item => {
+    if (item) {
+      counts[item] = (counts[item] || 0) + 1;
+    }
+  });
+
+  let maxCount = 0;
+  let mostCommon: string | undefined;
+
+  Object.entries(counts).forEach(([item, count]) => {
+    if (count > maxCount) {
+      maxCount = count;
+      mostCommon = item;
+    }
+  });
+
+  return mostCommon;
+};
+
+// Calculate collection statistics from member recipe rows and membership assignment dates
+export const calculateCollectionStats = (recipes: Row[], assignedDates: string[]): CollectionStats => {
+  const totalRecipes = recipes.length;
+
+  if (totalRecipes === 0) {
+    return {
+      totalRecipes: 0,
+      averageOverallImpression: 0,
+      lastActivityDate: new Date().toISOString(),
+    };
+  }
+
+  // Calculate averages and most common values
+  const ratingsSum = recipes.reduce((sum, recipe) => sum + (recipe.overall_impression || 0), 0);
+  const averageOverallImpression = ratingsSum / totalRecipes;
+
+  const mostUsedBrewingMethod = getMostCommon(recipes.map(r => r.brewing_method).filter(Boolean));
+  const mostUsedOrigin = getMostCommon(recipes.map(r => r.origin).filter(Boolean));
+
+  const dates = recipes.map(r => new Date(r.date_created).toISOString()).sort();
+
+  const latestAssignment = assignedDates.map(date => new Date(date).getTime()).sort((a, b) => b - a)[0];
+
+  return {
+    totalRecipes,
+    averageOverallImpression: Math.round(averageOverallImpression * 100) / 100,
+    mostUsedBrewingMethod,
+    mostUsedOrigin,
+    dateRangeStart: dates[0],
+    dateRangeEnd: dates[dates.length - 1],
+    lastActivityDate: latestAssignment !== undefined
+      ? new Date(latestAssignment).toISOString()
+      : new Date().toISOString(),
+  };
+};
+
+// Statistics over the recipes currently matching a smart collection rule. There are no
+// assignment dates, so the latest change to a matching recipe counts as activity.
+export const calculateSmartCollectionStats = (recipes: Recipe[]): CollectionStats => {
+  return calculateCollectionStats(
+    recipes.map(recipe => ({
+      overall_impression: recipe.sensationRecord.overallImpression ?? null,
+      brewing_method: recipe.brewingParameters.brewingMethod ?? null,
+      origin: recipe.beanInfo.origin ?? null,
+      date_created: recipe.dateCreated
+    })),
+    recipes.map(recipe => recipe.dateModified)
+  );
+};
+
+// A recipe counted in a collection summary
+export interface SummaryConnection {
+  recipe_id: string;
+  date_assigned: string;
+  overall_impression?: number | null;
+}
+
+// Summary connections for the recipes matching a smart collection rule
+export const smartCollectionConnections = (recipes: Recipe[]): SummaryConnection[] => {
+  return recipes.map(recipe => ({
+    recipe_id: recipe.recipeId,
+    date_assigned: recipe.dateModified,
+    overall_impression: recipe.sensationRecord.overallImpression ?? null
+  }));
+};
+
+// Build the lightweight summary used by collection lists
+export const toCollectionSummary = (row: Row, connections: SummaryConnection[]): CollectionSummaryRow => {
+  const recipeCount = connections.length;
+
+  // Calculate average rating from connected recipes
+  const ratingsSum = connections.reduce((sum, rc) => sum + (rc.overall_impression || 0), 0);
+  const averageRating = recipeCount > 0 ? ratingsSum / recipeCount : 0;
+
+  // Find most recent activity
+  const activityDates = connections.map(rc => new Date(rc.date_assigned).getTime());
+  const latestActivity = activityDates.length > 0
+    ? Math.max(...activityDates)
+    : new Date(row.date_created).getTime();
+
+  return {
+    collectionId: row.collection_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    color: row.color as CollectionColor,
+    isPrivate: row.is_private,
+    isDefault: row.is_default,
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    ...collectionTypeFields(row),
+    parentId: row.parent_id ?? undefined,
+    ownerId: row.owner_id ?? undefined,
+    dateCreated: new Date(row.date_created).toISOString(),
+    dateModified: new Date(row.date_modified).toISOString(),
+    recipeCount,
+    averageRating: Math.round(averageRating * 100) / 100,
+    lastActivityDate: new Date(latestActivity).toISOString(),
+    // Leaf values; rollUpCollectionSummaries fills in the subtree
+    childCount: 0,
+    rollupRecipeCount: recipeCount,
+    rollupAverageRating: Math.round(averageRating * 100) / 100,
+  };
+};
+
+// Roll summary statistics up the collection tree. `tree` holds every collection with
+// its connections, so roll-ups stay complete when the summaries themselves are filtered.
+// A recipe in several collections of one subtree is counted once.
+export const rollUpCollectionSummaries = (
+  summaries: CollectionSummaryRow[],
+  tree: Array<{ collection_id: string; parent_id: string | null; connections: SummaryConnection[] }>
+): CollectionSummaryRow[] => {
+  const nodes = tree.map(node => ({ collectionId: node.collection_id, parentId: node.parent_id ?? undefined }));
+  const connectionsById = new Map(tree.map(node => [node.collection_id, node.connections]));
+
+  return summaries.map(summary => {
+    const ratings = new Map<string, number>();
+    [summary.collectionId, ...getDescendantIds(summary.collectionId, nodes)].forEach(id => {
+      connectionsById.get(id)?.forEach(rc => ratings.set(rc.recipe_id, rc.overall_impression || 0));
+    });
+
+    const ratingsSum = Array.from(ratings.values()).reduce((sum, rating) => sum + rating, 0);
+    const averageRating = ratings.size > 0 ? ratingsSum / ratings.size : 0;
+
+    return {
+      ...summary,
+      childCount: nodes.filter(node => node.parentId === summary.collectionId).length,
+      rollupRecipeCount: ratings.size,
+      rollupAverageRating: Math.round(averageRating * 100) / 100,
+    };
+  });
+};
@@ -0,0 +1,64 @@
+// Storage driver selection. DATABASE_DRIVER picks the backend:
+//   supabase (default) - hosted Postgres via SUPABASE_URL / SUPABASE_SERVICE_KEY
+//   sqlite             - local file at DATABASE_PATH (default ./data/recipes.db)
+//   memory             - non-persistent, for tests and demos
+import { SupabaseStore } from './SupabaseStore.js';
+import { SqliteStore } from './SqliteStore.js';
+import { MemoryStore } from './MemoryStore.js';
+import { SupabaseRecipeRepository } from './SupabaseRecipeRepository.js';
+import { SupabaseCollectionRepository } from './SupabaseCollectionRepository.js';
+import { StoreRecipeRepository } from './StoreRecipeRepository.js';
+import { StoreCollectionRepository } from './StoreCollectionRepository.js';
+import type { DatabaseDriver, Repositories } from './types.js';
+
+export type * from './types.js';
+export { TABLE_NAMES, type TableName } from './tables.js';
+
+const DATABASE_DRIVERS: DatabaseDriver[] = ['supabase', 'sqlite', 'memory'];
+
+export const resolveDatabaseDriver = (): DatabaseDriver => {
+  const value = (process.env.DATABASE_DRIVER || 'supabase').trim().toLowerCase();
+
+  if (!DATABASE_DRIVERS.includes(value as DatabaseDriver)) {
+    throw new Error(`❌ Unknown DATABASE_DRIVER "${value}". Expected one of: ${DATABASE_DRIVERS.join(', ')}`);
+  }
+
+  return value as DatabaseDriver;
+};
+
+export const createRepositories = (driver: DatabaseDriver): Repositories => {
+  switch (driver) {
+    case 'supabase': {
+      const recipes = new SupabaseRecipeRepository();
+      return {
+        driver,
+        store: new SupabaseStore(),
+        recipes,
+        collections: new SupabaseCollectionRepository(recipes)
+      };
+    }
+    case 'sqlite':
+    case 'memory': {
+      const store = driver === 'sqlite'
+        ? new SqliteStore(process.env.DATABASE_PATH || './data/recipes.db')
+        : new MemoryStore();
+      const recipes = new StoreRecipeRepository(store);
+      return {
+        driver,
+        store,
+        recipes,
+        collections: new StoreCollectionRepository(store, recipes)
+      };
+    }
+  }
+};
+
+let repositories: Repositories | null = null;
+
+// Lazily create the repositories for the configured driver
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = createRepositories(resolveDatabaseDriver());
+  }
+  return repositories;
+};
@@ -0,0 +1,499 @@
+import { resolveSmartCollectionFilters } from '../../shared/index.js';
+import type { Recipe, RecipeInput, RoastingLevel, BrewingMethod, EvaluationSystem, SearchRequestSchemaType, SearchFiltersSchemaType, SearchFacets, SmartCollectionRule } from '../../shared/index.js';
+import type { OwnerScope, Row, Where } from './types.js';
+
+// Row mapping and filter evaluation shared by every recipe repository
+
+// Map API sort options to database columns
+export const SORT_COLUMNS: Record<SearchRequestSchemaType['sort']['field'], string> = {
+  'date-created': 'date_created',
+  'date-modified': 'date_modified',
+  'overall-impression': 'overall_impression',
+  'recipe-name': 'recipe_name',
+  'origin': 'origin',
+  'coffee-water-ratio': 'coffee_water_ratio'
+};
+
+// Map date filter fields to database columns
+export const DATE_COLUMNS = {
+  dateCreated: 'date_created',
+  dateModified: 'date_modified',
+  roastingDate: 'roasting_date'
+} as const;
+
+// Cupping score columns matched by the score range filter (0-100 scales)
+export const SCORE_COLUMNS = ['sca_final_score', 'cva_aff_score'];
+
+// Columns covered by free-text search
+export const SEARCH_COLUMNS = ['recipe_name', 'origin', 'coffee_bean_brand', 'tasting_notes', 'processing_method'];
+
+// Store condition restricting recipes to an owner scope (none when unscoped)
+export const ownerWhere = (ownerId: OwnerScope): Where => ownerId === undefined ? {} : { owner_id: ownerId };
+
+// Variant recipe of an experiment that is still being tasted
+export const isBlindRecipeRow = (row: Row): boolean => row.is_blind === true;
+
+// Whether any column of an evaluation form (by column prefix) holds a value; empty descriptor lists do not count
+const hasSectionValues = (row: Row, prefix: string): boolean =>
+  Object.entries(row).some(([column, value]) =>
+    column.startsWith(prefix) && value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0)
+  );
+
+// Convert database row to Recipe interface
+export const rowToRecipe = (row: any): Recipe => {
+  return {
+    recipeId: row.recipe_id,
+    recipeName: row.recipe_name,
+    dateCreated: new Date(row.date_created).toISOString(),
+    dateModified: new Date(row.date_modified).toISOString(),
+    isFavorite: row.is_favorite,
+    collections: [], // Will be populated by separate query
+    ownerId: row.owner_id ?? undefined,
+    beanInfo: {
+      coffeeBeanBrand: row.coffee_bean_brand ?? undefined,
+      origin: row.origin,
+      processingMethod: row.processing_method,
+      altitude: row.altitude ?? undefined,
+      roastingDate: row.roasting_date ? new Date(row.roasting_date).toISOString() : undefined,
+      roastingLevel: row.roasting_level as RoastingLevel ?? undefined,
+      beanId: row.bean_id ?? undefined,
+    },
+    brewingParameters: {
+      waterTemperature: row.water_temperature ?? undefined,
+      brewingMethod: row.brewing_method as BrewingMethod ?? undefined,
+      grinderModel: row.grinder_model,
+      grinderUnit: row.grinder_unit,
+      filteringTools: row.filtering_tools ?? undefined,
+      additionalNotes: row.additional_notes ?? undefined,
+      grinderId: row.grinder_id ?? undefined,
+      brewerId: row.brewer_id ?? undefined,
+      filterId: row.filter_id ?? undefined,
+      kettleId: row.kettle_id ?? undefined,
+      waterProfileId: row.water_profile_id ?? undefined,
+    },
+    turbulenceInfo: {
+      turbulence: row.turbulence ?? undefined,
+    },
+    measurements: {
+      coffeeBeans: row.coffee_beans,
+      water: row.water,
+      coffeeWaterRatio: row.coffee_water_ratio,
+      brewedCoffeeWeight: row.brewed_coffee_weight ?? undefined,
+      tds: row.tds ?? undefined,
+      extractionYield: row.extraction_yield ?? undefined,
+    },
+    sensationRecord: {
+      // Evaluation system indicator
+      evaluationSystem: row.evaluation_system as EvaluationSystem ?? undefined,
+      
+      // Legacy fields (maintain backwards compatibility)
+      overallImpression: row.overall_impression ?? undefined,
+      acidity: row.acidity ?? undefined,
+      body: row.body ?? undefined,
+      sweetness: row.sweetness ?? undefined,
+      flavor: row.flavor ?? undefined,
+      aftertaste: row.aftertaste ?? undefined,
+      balance: row.balance ?? undefined,
+      tastingNotes: row.tasting_notes ?? undefined,
+      
+      // Traditional SCA evaluation
+      traditionalSCA: hasSectionValues(row, 'sca_') ? {
+        fragrance: row.sca_fragrance ?? undefined,
+        aroma: row.sca_aroma ?? undefined,
+        flavor: row.sca_flavor ?? undefined,
+        aftertaste: row.sca_aftertaste ?? undefined,
+        acidity: row.sca_acidity_quality ?? undefined,
+        body: row.sca_body_quality ?? undefined,
+        balance: row.sca_balance ?? undefined,
+        overall: row.sca_overall ?? undefined,
+        uniformity: row.sca_uniformity ?? undefined,
+        cleanCup: row.sca_clean_cup ?? undefined,
+        sweetness: row.sca_sweetness ?? undefined,
+        taintDefects: row.sca_taint_defects ?? undefined,
+        faultDefects: row.sca_fault_defects ?? undefined,
+        finalScore: row.sca_final_score ?? undefined,
+      } : undefined,
+      
+      // CVA Descriptive assessment (SCA Standard 103-P/2024)
+      cvaDescriptive: hasSectionValues(row, 'cva_desc_') ? {
+        fragrance: row.cva_desc_fragrance ?? undefined,
+        aroma: row.cva_desc_aroma ?? undefined,
+        flavor: row.cva_desc_flavor ?? undefined,
+        aftertaste: row.cva_desc_aftertaste ?? undefined,
+        acidity: row.cva_desc_acidity ?? undefined,
+        sweetness: row.cva_desc_sweetness ?? undefined,
+        mouthfeel: row.cva_desc_mouthfeel ?? undefined,
+        fragranceAromaDescriptors: Array.isArray(row.cva_desc_fragrance_aroma_descriptors) ? row.cva_desc_fragrance_aroma_descriptors : undefined,
+        flavorAftertasteDescriptors: Array.isArray(row.cva_desc_flavor_aftertaste_descriptors) ? row.cva_desc_flavor_aftertaste_descriptors : undefined,
+        mainTastes: Array.isArray(row.cva_desc_main_tastes) ? row.cva_desc_main_tastes : undefined,
+        mouthfeelDescriptors: Array.isArray(row.cva_desc_mouthfeel_descriptors) ? row.cva_desc_mouthfeel_descriptors : undefined,
+        acidityDescriptors: row.cva_desc_acidity_descriptors ?? undefined,
+        sweetnessDescriptors: row.cva_desc_sweetness_descriptors ?? undefined,
+        additionalNotes: row.cva_desc_additional_notes ?? undefined,
+        roastLevel: row.cva_desc_roast_level ?? undefined,
+        assessmentDate: row.cva_desc_assessment_date ? new Date(row.cva_desc_assessment_date).toISOString() : undefined,
+        assessorId: row.cva_desc_assessor_id ?? undefined,
+      } : undefined,
+      
+      // Quick Tasting assessment (combination of CVA Descriptive and CVA Affective elements)
+      quickTasting: hasSectionValues(row, 'quick_tasting_') ? {
+        flavorIntensity: row.quick_tasting_flavor_intensity ?? undefined,
+        aftertasteIntensity: row.quick_tasting_aftertaste_intensity ?? undefined,
+        acidityIntensity: row.quick_tasting_acidity_intensity ?? undefined,
+        sweetnessIntensity: row.quick_tasting_sweetness_intensity ?? undefined,
+        mouthfeelIntensity: row.quick_tasting_mouthfeel_intensity ?? undefined,
+        flavorAftertasteDescriptors: Array.isArray(row.quick_tasting_flavor_aftertaste_descriptors) ? row.quick_tasting_flavor_aftertaste_descriptors : undefined,
+        overallQuality: row.quick_tasting_overall_quality ?? undefined,
+      } : undefined,
+      
+      // CVA Affective assessment
+      cvaAffective: hasSectionValues(row, 'cva_aff_') ? {
+        fragrance: row.cva_aff_fragrance ?? undefined,
+        aroma: row.cva_aff_aroma ?? undefined,
+        flavor: row.cva_aff_flavor ?? undefined,
+        aftertaste: row.cva_aff_aftertaste ?? undefined,
+        acidity: row.cva_aff_acidity ?? undefined,
+        sweetness: row.cva_aff_sweetness ?? undefined,
+        mouthfeel: row.cva_aff_mouthfeel ?? undefined,
+        overall: row.cva_aff_overall ?? undefined,
+        nonUniformCups: row.cva_aff_non_uniform_cups ?? undefined,
+        defectiveCups: row.cva_aff_defective_cups ?? undefined,
+        cvaScore: row.cva_aff_score ?? undefined,
+      } : undefined,
+    },
+  };
+};
+
+// Calculate coffee to water ratio
+export const calculateRatio = (coffeeBeans: number, water: number): number => {
+  return Math.round((water / coffeeBeans) * 100) / 100;
+};
+
+// Generate recipe name if not provided
+export const generateRecipeName = (input: RecipeInput): string => {
+  if (input.recipeName?.trim()) {
+    // Ensure provided recipe name doesn't exceed 200 chars
+    const trimmed = input.recipeName.trim();
+    if (trimmed.length <= 200) {
+      return trimmed;
+    }
+    console.log(`Recipe name too long (${trimmed.length} chars), truncating to 200`);
+    return trimmed.substring(0, 197) + '...';
+  }
+  
+  // Generate name from origin and date
+  const date = new Date().toLocaleDateString();
+  const baseName = `${input.beanInfo.origin} - ${date}`;
+  
+  // Ensure generated name doesn't exceed 200 chars
+  if (baseName.length <= 200) {
+    return baseName;
+  }
+  
+  // Truncate origin if needed (reserve space for " - " + date)
+  const dateStr = ` - ${date}`;
+  const maxOriginLength = 200 - dateStr.length - 3; // Reserve 3 chars for "..."
+  const truncatedOrigin = input.beanInfo.origin.substring(0, maxOriginLength) + '...';
+  const finalName = `${truncatedOrigin}${dateStr}`;
+  
+  console.log(`Generated recipe name too long, truncated to: "${finalName}" (${finalName.length} chars)`);
+  return finalName;
+};
+
+// Helper method to prepare evaluation data for database insertion
+const prepareEvaluationData = (input: RecipeInput) => {
+  const sensation = input.sensationRecord;
+  
+  // Explicit handling of evaluation_system field
+  const evaluationSystem = sensation.evaluationSystem ?? undefined;
+  if (!evaluationSystem) {
+    console.log('Recipe repository: No evaluation_system provided, using undefined for database');
+  } else {
+    console.log(`Recipe repository: Using evaluation_system: '${evaluationSystem}'`);
+  }
+  
+  return {
+    // Evaluation system (explicitly handled)
+    evaluation_system: evaluationSystem,
+    
+    // Legacy fields
+    overall_impression: sensation.overallImpression ?? null,
+    acidity: sensation.acidity ?? null,
+    body: sensation.body ?? null,
+    sweetness: sensation.sweetness ?? null,
+    flavor: sensation.flavor ?? null,
+    aftertaste: sensation.aftertaste ?? null,
+    balance: sensation.balance ?? null,
+    tasting_notes: sensation.tastingNotes ?? null,
+    
+    // Traditional SCA
+    sca_fragrance: sensation.traditionalSCA?.fragrance ?? null,
+    sca_aroma: sensation.traditionalSCA?.aroma ?? null,
+    sca_flavor: sensation.traditionalSCA?.flavor ?? null,
+    sca_aftertaste: sensation.traditionalSCA?.aftertaste ?? null,
+    sca_acidity_quality: sensation.traditionalSCA?.acidity ?? null,
+    sca_body_quality: sensation.traditionalSCA?.body ?? null,
+    sca_balance: sensation.traditionalSCA?.balance ?? null,
+    sca_overall: sensation.traditionalSCA?.overall ?? null,
+    sca_uniformity: sensation.traditionalSCA?.uniformity ?? null,
+    sca_clean_cup: sensation.traditionalSCA?.cleanCup ?? null,
+    sca_sweetness: sensation.traditionalSCA?.sweetness ?? null,
+    sca_taint_defects: sensation.traditionalSCA?.taintDefects ?? null,
+    sca_fault_defects: sensation.traditionalSCA?.faultDefects ?? null,
+    sca_final_score: sensation.traditionalSCA?.finalScore ?? null,
+    
+    // CVA Descriptive Assessment (SCA Standard 103-P/2024)
+    cva_desc_fragrance: sensation.cvaDescriptive?.fragrance ?? null,
+    cva_desc_aroma: sensation.cvaDescriptive?.aroma ?? null,
+    cva_desc_flavor: sensation.cvaDescriptive?.flavor ?? null,
+    cva_desc_aftertaste: sensation.cvaDescriptive?.aftertaste ?? null,
+    cva_desc_acidity: sensation.cvaDescriptive?.acidity ?? null,
+    cva_desc_sweetness: sensation.cvaDescriptive?.sweetness ?? null,
+    cva_desc_mouthfeel: sensation.cvaDescriptive?.mouthfeel ?? null,
+    
+    // CATA Descriptor arrays (using JSONB in PostgreSQL)
+    cva_desc_fragrance_aroma_descriptors: sensation.cvaDescriptive?.fragranceAromaDescriptors ?? null,
+    cva_desc_flavor_aftertaste_descriptors: sensation.cvaDescriptive?.flavorAftertasteDescriptors ?? null,
+    cva_desc_main_tastes: sensation.cvaDescriptive?.mainTastes ?? null,
+    cva_desc_mouthfeel_descriptors: sensation.cvaDescriptive?.mouthfeelDescriptors ?? null,
+    
+    // Free text descriptors
+    cva_desc_acidity_descriptors: sensation.cvaDescriptive?.acidityDescriptors ?? null,
+    cva_desc_sweetness_descriptors: sensation.cvaDescriptive?.sweetnessDescriptors ?? null,
+    cva_desc_additional_notes: sensation.cvaDescriptive?.additionalNotes ?? null,
+    
+    // Assessment metadata
+    cva_desc_roast_level: sensation.cvaDescriptive?.roastLevel ?? null,
+    cva_desc_assessment_date: sensation.cvaDescriptive?.assessmentDate ?? null,
+    cva_desc_assessor_id: sensation.cvaDescriptive?.assessorId ?? null,
+    
+    // Quick Tasting
+    quick_tasting_flavor_intensity: sensation.quickTasting?.flavorIntensity ?? null,
+    quick_tasting_aftertaste_intensity: sensation.quickTasting?.aftertasteIntensity ?? null,
+    quick_tasting_acidity_intensity: sensation.quickTasting?.acidityIntensity ?? null,
+    quick_tasting_sweetness_intensity: sensation.quickTasting?.sweetnessIntensity ?? null,
+    quick_tasting_mouthfeel_intensity: sensation.quickTasting?.mouthfeelIntensity ?? null,
+    quick_tasting_flavor_aftertaste_descriptors: sensation.quickTasting?.flavorAftertasteDescriptors ?? null,
+    quick_tasting_overall_quality: sensation.quickTasting?.overallQuality ?? null,
+    
+    // CVA Affective
+    cva_aff_fragrance: sensation.cvaAffective?.fragrance ?? null,
+    cva_aff_aroma: sensation.cvaAffective?.aroma ?? null,
+    cva_aff_flavor: sensation.cvaAffective?.flavor ?? null,
+    cva_aff_aftertaste: sensation.cvaAffective?.aftertaste ?? null,
+    cva_aff_acidity: sensation.cvaAffective?.acidity ?? null,
+    cva_aff_sweetness: sensation.cvaAffective?.sweetness ?? null,
+    cva_aff_mouthfeel: sensation.cvaAffective?.mouthfeel ?? null,
+    cva_aff_overall: sensation.cvaAffective?.overall ?? null,
+    cva_aff_non_uniform_cups: sensation.cvaAffective?.nonUniformCups ?? null,
+    cva_aff_defective_cups: sensation.cvaAffective?.defectiveCups ?? null,
+    cva_aff_score: sensation.cvaAffective?.cvaScore ?? null,
+  };
+};
+
+// Convert recipe input to the column values written on create and update
+export const recipeInputToRow = (input: RecipeInput): Row => {
+  return {
+    recipe_name: generateRecipeName(input),
+    is_favorite: input.isFavorite,
+
+    // Bean information
+    coffee_bean_brand: input.beanInfo.coffeeBeanBrand ?? null,
+    origin: input.beanInfo.origin,
+    processing_method: input.beanInfo.processingMethod,
+    altitude: input.beanInfo.altitude ?? null,
+    roasting_date: input.beanInfo.roastingDate ?? null,
+    roasting_level: input.beanInfo.roastingLevel ?? null,
+    bean_id: input.beanInfo.beanId ?? null,
+
+    // Brewing parameters
+    water_temperature: input.brewingParameters.waterTemperature ?? null,
+    brewing_method: input.brewingParameters.brewingMethod ?? null,
+    grinder_model: input.brewingParameters.grinderModel,
+    grinder_unit: input.brewingParameters.grinderUnit,
+    filtering_tools: input.brewingParameters.filteringTools ?? null,
+    turbulence: input.turbulenceInfo?.turbulence ?? null,
+    additional_notes: input.brewingParameters.additionalNotes ?? null,
+    grinder_id: input.brewingParameters.grinderId ?? null,
+    brewer_id: input.brewingParameters.brewerId ?? null,
+    filter_id: input.brewingParameters.filterId ?? null,
+    kettle_id: input.brewingParameters.kettleId ?? null,
+    water_profile_id: input.brewingParameters.waterProfileId ?? null,
+
+    // Measurements
+    coffee_beans: input.measurements.coffeeBeans,
+    water: input.measurements.water,
+    coffee_water_ratio: calculateRatio(input.measurements.coffeeBeans, input.measurements.water),
+    brewed_coffee_weight: input.measurements.brewedCoffeeWeight ?? null,
+    tds: input.measurements.tds ?? null,
+    extraction_yield: input.measurements.extractionYield ?? null,
+
+    // Evaluation data
+    ...prepareEvaluationData(input)
+  };
+};
+
+const inRange = (value: unknown, range: readonly number[]): boolean => {
+  return typeof value === 'number' && value >= range[0]! && value <= range[1]!;
+};
+
+// Evaluate the filters that are never faceted (text, ratio, dates, flags) against a row.
+// Mirrors the PostgREST query built by the Supabase repository and, for smart collection
+// rules, recipe_matches_filters in supabase-schema.sql.
+export const matchesBaseFilters = (row: Row, filters: SearchFiltersSchemaType): boolean => {
+  if (filters.searchTerm?.trim()) {
+    const term = filters.searchTerm.trim().toLowerCase();
+    const matches = SEARCH_COLUMNS.some(column =>
+      typeof row[column] === 'string' && row[column].toLowerCase().includes(term)
+    );
+    if (!matches) return false;
+  }
+
+  if (filters.coffeeWaterRatioRange && !inRange(row.coffee_water_ratio, filters.coffeeWaterRatioRange)) {
+    return false;
+  }
+
+  if (filters.tdsRange && !inRange(row.tds, filters.tdsRange)) {
+    return false;
+  }
+
+  // Either cupping score may satisfy the range
+  if (filters.scoreRange && !SCORE_COLUMNS.some(column => inRange(row[column], filters.scoreRange!))) {
+    return false;
+  }
+
+  if (filters.dateRange) {
+    const value = row[DATE_COLUMNS[filters.dateRange.field]];
+    if (!value) return false;
+    const time = new Date(value).getTime();
+    if (time < new Date(filters.dateRange.start).getTime() || time > new Date(filters.dateRange.end).getTime()) {
+      return false;
+    }
+  }
+
+  if (filters.favoritesOnly && row.is_favorite !== true) {
+    return false;
+  }
+
+  if (filters.hasRating && (row.overall_impression === null || row.overall_impression === undefined)) {
+    return false;
+  }
+
+  if (filters.waterProfileIds?.length && !filters.waterProfileIds.includes(row.water_profile_id)) {
+    return false;
+  }
+
+  return true;
+};
+
+export type FacetDimension = 'origins' | 'roastingLevels' | 'brewingMethods' | 'collections' | 'overallImpression' | 'altitude';
+
+// Build one predicate per faceted filter dimension
+export const buildFacetPredicates = (
+  filters: SearchFiltersSchemaType,
+  collectionsByRecipe: Map<string, string[]>
+): Record<FacetDimension, (row: Row) => boolean> => ({
+  origins: row => !filters.origins?.length || filters.origins.includes(row.origin),
+  roastingLevels: row => !filters.roastingLevels?.length || filters.roastingLevels.includes(row.roasting_level),
+  brewingMethods: row => !filters.brewingMethods?.length || filters.brewingMethods.includes(row.brewing_method),
+  collections: row => {
+    if (!filters.collections?.length && !filters.includeUncollected) return true;
+    const names = collectionsByRecipe.get(row.recipe_id) ?? [];
+    return (filters.collections ?? []).some(name => names.includes(name)) ||
+      (!!filters.includeUncollected && names.length === 0);
+  },
+  overallImpression: row => !filters.overallImpressionRange || inRange(row.overall_impression, filters.overallImpressionRange),
+  altitude: row => !filters.altitudeRange || inRange(row.altitude, filters.altitudeRange)
+});
+
+// Evaluate the complete filter set against a row
+export const matchesSearchFilters = (
+  row: Row,
+  filters: SearchFiltersSchemaType,
+  collectionsByRecipe: Map<string, string[]>
+): boolean => {
+  const predicates = buildFacetPredicates(filters, collectionsByRecipe);
+  return matchesBaseFilters(row, filters) && Object.values(predicates).every(predicate => predicate(row));
+};
+
+// Map recipe ID to the names of the manual collections it was added to
+export const groupCollectionNames = (memberships: Row[], collections: Row[]): Map<string, string[]> => {
+  const namesById = new Map(collections.map(row => [row.collection_id as string, row.name as string]));
+  const collectionsByRecipe = new Map<string, string[]>();
+  memberships.forEach(rc => {
+    const name = namesById.get(rc.collection_id);
+    if (name) {
+      const names = collectionsByRecipe.get(rc.recipe_id) ?? [];
+      names.push(name);
+      collectionsByRecipe.set(rc.recipe_id, names);
+    }
+  });
+
+  return collectionsByRecipe;
+};
+
+// Add the smart collections each row matches. Rules only see manual memberships,
+// so one smart collection can never depend on another.
+export const addSmartCollections = (
+  rows: Row[],
+  smartCollections: Array<{ name: string; rule: SmartCollectionRule; ownerId: string | null }>,
+  manualByRecipe: Map<string, string[]>,
+  now: Date = new Date()
+): Map<string, string[]> => {
+  const collectionsByRecipe = new Map(Array.from(manualByRecipe, ([id, names]) => [id, [...names]]));
+
+  smartCollections.forEach(({ name, rule, ownerId }) => {
+    const filters = resolveSmartCollectionFilters(rule, now);
+    rows
+      .filter(row => (row.owner_id ?? null) === ownerId && matchesSearchFilters(row, filters, manualByRecipe))
+      .forEach(row => collectionsByRecipe.set(row.recipe_id, [...(collectionsByRecipe.get(row.recipe_id) ?? []), name]));
+  });
+
+  return collectionsByRecipe;
+};
+
+// Compute filter facets for rows that already satisfy the base filters. Each facet
+// ignores its own filter so the remaining options stay selectable (e.g. other origins
+// while one is chosen).
+export const computeFacets = (
+  rows: Row[],
+  filters: SearchFiltersSchemaType,
+  collectionsByRecipe: Map<string, string[]>
+): SearchFacets => {
+  const predicates = buildFacetPredicates(filters, collectionsByRecipe);
+  const dimensions = Object.keys(predicates) as FacetDimension[];
+  const rowsExcept = (excluded: FacetDimension) => rows.filter(row =>
+    dimensions.every(dimension => dimension === excluded || predicates[dimension](row))
+  );
+
+  const countValues = <T extends string>(values: Array<T | null | undefined>) => {
+    const counts = new Map<T, number>();
+    values.forEach(value => {
+      if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  };
+
+  const numericRange = (values: Array<number | null>, fallback: { min: number; max: number }) => {
+    const present = values.filter((value): value is number => value !== null && value !== undefined);
+    return present.length > 0
+      ? { min: Math.min(...present), max: Math.max(...present) }
+      : fallback;
+  };
+
+  const impressionRange = numericRange(rowsExcept('overallImpression').map(row => row.overall_impression), { min: 1, max: 10 });
+
+  return {
+    origins: countValues<string>(rowsExcept('origins').map(row => row.origin)),
+    roastingLevels: countValues<RoastingLevel>(rowsExcept('roastingLevels').map(row => row.roasting_level)),
+    brewingMethods: countValues<BrewingMethod>(rowsExcept('brewingMethods').map(row => row.brewing_method)),
+    collections: countValues<string>(rowsExcept('collections').flatMap(row => collectionsByRecipe.get(row.recipe_id) ?? [])),
+    overallImpressionRange: {
+      min: Math.max(1, Math.floor(impressionRange.min)),
+      max: Math.min(10, Math.ceil(impressionRange.max))
+    },
+    altitudeRange: numericRange(rowsExcept('altitude').map(row => row.altitude), { min: 0, max: 0 })
+  };
+};
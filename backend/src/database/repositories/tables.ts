@@ -0,0 +1,108 @@
+// Table definitions shared by the local (SQLite / in-memory) drivers.
+// These mirror the keys, unique constraints and column defaults declared in
+// supabase-schema.sql so every driver behaves the same from the models' point of view.
+
+export interface TableDefinition {
+  key: string[];
+  // Unique constraints, each over one or more columns (rows with a NULL in them never conflict)
+  unique?: string[][];
+  defaults?: () => Record<string, unknown>;
+  // Column refreshed on every update that does not set it (the Postgres update_modified_column trigger)
+  modifiedColumn?: string;
+  // Columns referencing another table's primary key (ON DELETE CASCADE unless set null)
+  foreignKeys?: Array<{ column: string; references: string; onDelete?: 'cascade' | 'set null' }>;
+}
+
+const now = () => new Date().toISOString();
+
+export const TABLES = {
+  recipes: {
+    key: ['recipe_id'],
+    defaults: () => ({ date_created: now(), date_modified: now(), is_favorite: false, is_blind: false }),
+    modifiedColumn: 'date_modified',
+    foreignKeys: [
+      { column: 'owner_id', references: 'users' },
+      { column: 'bean_id', references: 'beans', onDelete: 'set null' },
+      { column: 'grinder_id', references: 'equipment', onDelete: 'set null' },
+      { column: 'brewer_id', references: 'equipment', onDelete: 'set null' },
+      { column: 'filter_id', references: 'equipment', onDelete: 'set null' },
+      { column: 'kettle_id', references: 'equipment', onDelete: 'set null' },
+      { column: 'water_profile_id', references: 'water_profiles', onDelete: 'set null' }
+    ]
+  },
+  collections: {
+    key: ['collection_id'],
+    unique: [['owner_id', 'name']],
+    defaults: () => ({ date_created: now(), date_modified: now(), color: 'blue', is_private: false, is_default: false, tags: [], rule: null, parent_id: null, owner_id: null }),
+    modifiedColumn: 'date_modified',
+    foreignKeys: [
+      { column: 'owner_id', references: 'users' },
+      { column: 'parent_id', references: 'collections', onDelete: 'set null' }
+    ]
+  },
+  recipe_collections: {
+    key: ['recipe_id', 'collection_id'],
+    defaults: () => ({ date_assigned: now() }),
+    foreignKeys: [
+      { column: 'recipe_id', references: 'recipes' },
+      { column: 'collection_id', references: 'collections' }
+    ]
+  },
+  saved_searches: {
+    key: ['saved_search_id'],
+    unique: [['name']],
+    defaults: () => ({ filters: {}, sort: { field: 'date-modified', direction: 'desc' }, date_created: now(), last_used: now() })
+  },
+  recipe_revisions: {
+    key: ['revision_id'],
+    defaults: () => ({ changed_fields: [], date_created: now() }),
+    foreignKeys: [{ column: 'recipe_id', references: 'recipes' }]
+  },
+  brew_sessions: {
+    key: ['session_id'],
+    defaults: () => ({ brew_date: now(), measurements: {}, evaluation: {}, date_created: now(), date_modified: now() }),
+    modifiedColumn: 'date_modified',
+    foreignKeys: [{ column: 'recipe_id', references: 'recipes' }]
+  },
+  beans: {
+    key: ['bean_id'],
+    defaults: () => ({ is_archived: false, date_created: now(), date_modified: now() }),
+    modifiedColumn: 'date_modified'
+  },
+  equipment: {
+    key: ['equipment_id'],
+    defaults: () => ({ is_archived: false, date_created: now(), date_modified: now() }),
+    modifiedColumn: 'date_modified'
+  },
+  water_profiles: {
+    key: ['water_profile_id'],
+    defaults: () => ({ composition: {}, date_created: now(), date_modified: now() }),
+    modifiedColumn: 'date_modified'
+  },
+  users: {
+    key: ['user_id'],
+    unique: [['username']],
+    defaults: () => ({ auth_provider: 'local', password_hash: null, date_created: now() })
+  },
+  shares: {
+    key: ['share_id'],
+    unique: [['token']],
+    defaults: () => ({ options: {}, view_count: 0, expires_at: null, revoked_at: null, last_viewed_at: null, date_created: now() }),
+    foreignKeys: [{ column: 'owner_id', references: 'users' }]
+  },
+  experiments: {
+    key: ['experiment_id'],
+    defaults: () => ({ status: 'tasting', variants: [], notes: null, date_completed: null, date_created: now(), date_modified: now() }),
+    modifiedColumn: 'date_modified',
+    foreignKeys: [
+      { column: 'owner_id', references: 'users' },
+      { column: 'base_recipe_id', references: 'recipes', onDelete: 'set null' }
+    ]
+  }
+} satisfies Record<string, TableDefinition>;
+
+export type TableName = keyof typeof TABLES;
+
+export const TABLE_NAMES = Object.keys(TABLES) as TableName[];
+
+export const getTableDefinition = (table: TableName): TableDefinition => TABLES[table];
@@ -0,0 +1,128 @@
+import type {
+  RankedRecipe,
+  Recipe,
+  RecipeInput,
+  Collection,
+  CollectionColor,
+  CollectionInput,
+  CollectionUpdate,
+  CollectionType,
+  SmartCollectionRule,
+  SearchRequestSchemaType,
+  SearchFiltersSchemaType,
+  SearchFacets
+} from '../../shared/index.js';
+import type { TableName } from './tables.js';
+
+// Supported storage backends, selected with the DATABASE_DRIVER environment variable
+export type DatabaseDriver = 'supabase' | 'sqlite' | 'memory';
+
+// A database row keyed by snake_case column name (same shape for every driver)
+export type Row = Record<string, any>;
+
+// Equality conditions; an array value matches any of its elements (SQL IN)
+export type Where = Record<string, unknown>;
+
+export interface FindOptions {
+  orderBy?: string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+// Minimal table-level storage primitives every driver implements
+export interface TableStore {
+  readonly driver: DatabaseDriver;
+  connect(): Promise<void>;
+  insert(table: TableName, row: Row): Promise<Row>;
+  insertMany(table: TableName, rows: Row[]): Promise<Row[]>; // All rows or none
+  findOne(table: TableName, where: Where): Promise<Row | null>;
+  findMany(table: TableName, where?: Where, options?: FindOptions): Promise<Row[]>;
+  update(table: TableName, where: Where, changes: Row): Promise<Row[]>;
+  delete(table: TableName, where: Where): Promise<number>;
+  count(table: TableName, where?: Where): Promise<number>;
+  clear(table: TableName): Promise<void>;
+}
+
+// Restricts recipe reads to one owner's recipes; undefined reads everyone's, null the unowned ones
+export type OwnerScope = string | null | undefined;
+
+// Variant recipes of an experiment that is still being tasted are blind: every read
+// leaves them out, so nothing links a tasting code to its value, unless asked for
+export interface RecipeReadOptions {
+  includeBlind?: boolean;
+}
+
+export interface RecipeRepository {
+  create(input: RecipeInput, ownerId?: string, options?: { blind?: boolean }): Promise<Recipe>;
+  findById(id: string, ownerId?: OwnerScope, options?: RecipeReadOptions): Promise<Recipe | null>;
+  findAll(ownerId?: OwnerScope, options?: RecipeReadOptions): Promise<Recipe[]>;
+  search(request: SearchRequestSchemaType, ownerId?: OwnerScope): Promise<{ recipes: Recipe[]; total: number }>;
+  getFacets(filters: SearchFiltersSchemaType, ownerId?: OwnerScope): Promise<SearchFacets>;
+  // Best matches for a free-text query, at most `limit` of them
+  textSearch(query: string, limit: number, ownerId?: OwnerScope): Promise<RankedRecipe[]>;
+  // Recipes matching a smart collection rule right now; the rule's collection filter sees manual memberships only.
+  // Smart collections only ever hold recipes of their own owner.
+  findBySmartRule(rule: SmartCollectionRule, ownerId?: OwnerScope): Promise<Recipe[]>;
+  update(id: string, input: RecipeInput): Promise<Recipe | null>;
+  delete(id: string): Promise<boolean>;
+  toggleFavorite(id: string): Promise<Recipe | null>;
+  count(ownerId?: OwnerScope): Promise<number>;
+}
+
+export interface CollectionFilters {
+  viewerId?: string; // Only collections this user owns or that are not private
+  isPrivate?: boolean;
+  color?: CollectionColor;
+  searchQuery?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CollectionSummaryRow {
+  collectionId: string;
+  name: string;
+  description?: string;
+  color: CollectionColor;
+  isPrivate: boolean;
+  isDefault: boolean;
+  tags: string[];
+  type: CollectionType;
+  rule?: SmartCollectionRule;
+  parentId?: string;
+  ownerId?: string;
+  dateCreated: string;
+  dateModified: string;
+  recipeCount: number;
+  averageRating: number;
+  lastActivityDate: string;
+  childCount: number;
+  rollupRecipeCount: number;
+  rollupAverageRating: number;
+}
+
+export interface CollectionRepository {
+  create(input: CollectionInput, ownerId?: string): Promise<Collection>;
+  findById(id: string): Promise<Collection | null>;
+  findByName(name: string, ownerId?: string): Promise<Collection | null>;
+  findAll(filters?: CollectionFilters): Promise<Collection[]>;
+  update(id: string, updates: CollectionUpdate): Promise<Collection | null>;
+  move(id: string, parentId: string | null): Promise<Collection | null>;
+  delete(id: string): Promise<boolean>;
+  addRecipe(collectionId: string, recipeId: string): Promise<boolean>;
+  removeRecipe(collectionId: string, recipeId: string): Promise<boolean>;
+  addRecipes(collectionId: string, recipeIds: string[]): Promise<{ added: string[]; failed: string[] }>;
+  removeRecipes(collectionId: string, recipeIds: string[]): Promise<{ removed: string[]; failed: string[] }>;
+  findByRecipeId(recipeId: string): Promise<Collection[]>;
+  nameExists(name: string, ownerId: string, excludeId?: string): Promise<boolean>;
+  count(viewerId?: string): Promise<number>;
+  getRecipeCount(collectionId: string): Promise<number>;
+  findAllSummaries(filters?: CollectionFilters): Promise<CollectionSummaryRow[]>;
+}
+
+// Everything a driver provides, bundled for the models
+export interface Repositories {
+  driver: DatabaseDriver;
+  store: TableStore;
+  recipes: RecipeRepository;
+  collections: CollectionRepository;
+}
@@ -7,6 +7,7 @@ interface Recipe {
   date_created: string;
   date_modified: string;
   is_favorite: boolean;
+  owner_id?: string;
   
   // Bean Information
   coffee_bean_brand?: string;
@@ -15,6 +16,7 @@ interface Recipe {
   altitude?: number;
   roasting_date?: string;
   roasting_level?: string;
+  bean_id?: string;
   
   // Brewing Parameters
   water_temperature?: number;
@@ -24,6 +26,11 @@ interface Recipe {
   filtering_tools?: string;
   turbulence?: string;
   additional_notes?: string;
+  grinder_id?: string;
+  brewer_id?: string;
+  filter_id?: string;
+  kettle_id?: string;
+  water_profile_id?: string;
   
   // Measurements
   coffee_beans: number;
@@ -114,6 +121,9 @@ interface Collection {
   is_private: boolean;
   is_default: boolean;
   tags: any[];
+  rule: any | null;
+  parent_id: string | null;
+  owner_id: string | null;
   date_created: string;
   date_modified: string;
 }
@@ -124,6 +134,117 @@ interface RecipeCollection {
   date_assigned: string;
 }
 
+interface SavedSearch {
+  saved_search_id: string;
+  name: string;
+  filters: Record<string, any>;
+  sort: Record<string, any>;
+  date_created: string;
+  last_used: string;
+}
+
+interface RecipeRevision {
+  revision_id: string;
+  recipe_id: string;
+  revision_number: number;
+  snapshot: Record<string, any>;
+  changed_fields: string[];
+  restored_from?: number;
+  date_created: string;
+}
+
+interface BrewSession {
+  session_id: string;
+  recipe_id: string;
+  brew_date: string;
+  measurements: Record<string, any>;
+  evaluation: Record<string, any>;
+  notes?: string;
+  date_created: string;
+  date_modified: string;
+}
+
+interface Bean {
+  bean_id: string;
+  name?: string;
+  roaster?: string;
+  origin: string;
+  processing_method: string;
+  altitude?: number;
+  roasting_level?: string;
+  roast_date?: string;
+  bag_weight: number;
+  remaining_grams: number;
+  notes?: string;
+  is_archived: boolean;
+  date_created: string;
+  date_modified: string;
+}
+
+interface Equipment {
+  equipment_id: string;
+  type: string;
+  name: string;
+  brand?: string;
+  setting_scale?: Record<string, unknown>;
+  calibration?: Array<{ setting: number; microns: number }>;
+  brewing_method?: string;
+  notes?: string;
+  is_archived: boolean;
+  date_created: string;
+  date_modified: string;
+}
+
+interface User {
+  user_id: string;
+  username: string;
+  display_name?: string;
+  password_hash?: string;
+  auth_provider: string;
+  external_id?: string;
+  date_created: string;
+}
+
+interface Share {
+  share_id: string;
+  token: string;
+  owner_id: string;
+  target_type: 'recipe' | 'collection';
+  target_id: string;
+  target_name: string;
+  options: Record<string, unknown>;
+  view_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_viewed_at: string | null;
+  date_created: string;
+}
+
+interface Experiment {
+  experiment_id: string;
+  owner_id: string;
+  name: string;
+  base_recipe_id: string | null;
+  base_recipe_name: string;
+  variable: 'grind' | 'temperature' | 'ratio' | 'water' | 'filter';
+  status: 'tasting' | 'completed';
+  variants: Array<Record<string, unknown>>;
+  notes: string | null;
+  date_completed: string | null;
+  date_created: string;
+  date_modified: string;
+}
+
+interface WaterProfile {
+  water_profile_id: string;
+  name: string;
+  composition: Record<string, number>;
+  mix?: Array<{ salt: string; concentration: number; dose: number }>;
+  notes?: string;
+  date_created: string;
+  date_modified: string;
+}
+
 // Database schema type
 interface Database {
   public: {
@@ -153,6 +274,95 @@ interface Database {
         };
         Update: Partial<RecipeCollection>;
       };
+      saved_searches: {
+        Row: SavedSearch;
+        Insert: Omit<SavedSearch, 'saved_search_id' | 'date_created' | 'last_used'> & {
+          saved_search_id?: string;
+          date_created?: string;
+          last_used?: string;
+        };
+        Update: Partial<SavedSearch>;
+      };
+      recipe_revisions: {
+        Row: RecipeRevision;
+        Insert: Omit<RecipeRevision, 'revision_id' | 'date_created'> & {
+          revision_id?: string;
+          date_created?: string;
+        };
+        Update: never;
+      };
+      brew_sessions: {
+        Row: BrewSession;
+        Insert: Omit<BrewSession, 'session_id' | 'brew_date' | 'date_created' | 'date_modified'> & {
+          session_id?: string;
+          brew_date?: string;
+          date_created?: string;
+          date_modified?: string;
+        };
+        Update: Partial<BrewSession>;
+      };
+      beans: {
+        Row: Bean;
+        Insert: Omit<Bean, 'bean_id' | 'is_archived' | 'date_created' | 'date_modified'> & {
+          bean_id?: string;
+          is_archived?: boolean;
+          date_created?: string;
+          date_modified?: string;
+        };
+        Update: Partial<Bean>;
+      };
+      equipment: {
+        Row: Equipment;
+        Insert: Omit<Equipment, 'equipment_id' | 'is_archived' | 'date_created' | 'date_modified'> & {
+          equipment_id?: string;
+          is_archived?: boolean;
+          date_created?: string;
+          date_modified?: string;
+        };
+        Update: Partial<Equipment>;
+      };
+      water_profiles: {
+        Row: WaterProfile;
+        Insert: Omit<WaterProfile, 'water_profile_id' | 'date_created' | 'date_modified'> & {
+          water_profile_id?: string;
+          date_created?: string;
+          date_modified?: string;
+        };
+        Update: Partial<WaterProfile>;
+      };
+      users: {
+        Row: User;
+        Insert: Omit<User, 'user_id' | 'date_created'> & {
+          user_id?: string;
+          date_created?: string;
+        };
+        Update: Partial<User>;
+      };
+      shares: {
+        Row: Share;
+        Insert: Omit<Share, 'share_id' | 'view_count' | 'expires_at' | 'revoked_at' | 'last_viewed_at' | 'date_created'> & {
+          share_id?: string;
+          view_count?: number;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          last_viewed_at?: string | null;
+          date_created?: string;
+        };
+        Update: Partial<Share>;
+      };
+      experiments: {
+        Row: Experiment;
+        Insert: Omit<Experiment, 'experiment_id' | 'status' | 'variants' | 'notes' | 'date_completed' | 'date_created' | 'date_modified'> & {
+          experiment_id?: string;
+          status?: 'tasting' | 'completed';
+          variants?: Array<Record<string, unknown>>;
+          notes?: string | null;
+          date_completed?: string | null;
+          date_created?: string;
+          date_modified?: string;
+        };
+        Update: Partial<Experiment>;
+      };
     };
   };
 }
@@ -176,21 +386,27 @@ class SupabaseConnection {
     }
 
     const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+    // The users table has no anon policies, so accounts need the service key
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+    const supabaseKey = supabaseServiceKey || process.env.SUPABASE_ANON_KEY;
 
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error('❌ Missing Supabase configuration. Please set SUPABASE_URL and SUPABASE_ANON_KEY environment variables.');
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('❌ Missing Supabase configuration. Please set SUPABASE_URL and SUPABASE_SERVICE_KEY environment variables.');
     }
 
     try {
-      this.client = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      this.client = createClient<Database>(supabaseUrl, supabaseKey, {
         auth: {
           autoRefreshToken: false,
           persistSession: false
         }
       });
 
-      console.log('✅ Connected to Supabase database (using anon key - secure!)');
+      if (supabaseServiceKey) {
+        console.log('✅ Connected to Supabase database (using service key)');
+      } else {
+        console.warn('⚠️ Connected to Supabase with the anon key; set SUPABASE_SERVICE_KEY so the server can reach the users table');
+      }
       return this.client;
     } catch (error) {
       console.error('❌ Error connecting to Supabase:', error);
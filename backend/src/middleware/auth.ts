@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserModel } from '../database/index.js';
+import { verifyDownloadToken, verifySessionToken } from '../services/auth.js';
+import { asyncHandler, createApiError } from './errorHandler.js';
+import type { User } from '../shared/index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User; // Set by requireAuth
+    }
+  }
+}
+
+// Bearer token from the Authorization header
+const readBearerToken = (req: Request): string | undefined => {
+  const header = req.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+};
+
+// Plain links (file downloads) cannot set headers, so a GET may carry a download token
+// in the access_token query parameter. Session tokens are never accepted there.
+const readDownloadToken = (req: Request): string | undefined => {
+  return req.method === 'GET' && typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+};
+
+/**
+ * Authentication middleware: rejects requests without a valid session token
+ * (or a download token issued for the requested path) and attaches the signed-in
+ * user to the request
+ */
+export const requireAuth = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const sessionToken = readBearerToken(req);
+  const downloadToken = sessionToken ? undefined : readDownloadToken(req);
+  if (!sessionToken && !downloadToken) {
+    throw createApiError.unauthorized('Sign in to continue');
+  }
+
+  const claims = sessionToken
+    ? verifySessionToken(sessionToken)
+    : verifyDownloadToken(downloadToken!, req.originalUrl.split('?')[0]!);
+  if (!claims) {
+    throw createApiError.unauthorized('Your session has expired, please sign in again');
+  }
+
+  const user = await UserModel.findById(claims.sub);
+  if (!user) {
+    throw createApiError.unauthorized('Account not found');
+  }
+
+  req.user = UserModel.toPublic(user);
+  next();
+});
+
+/**
+ * ID of the signed-in user (for routes behind requireAuth)
+ */
+export const currentUserId = (req: Request): string => {
+  if (!req.user) {
+    throw createApiError.unauthorized();
+  }
+  return req.user.userId;
+};
@@ -25,6 +25,7 @@ export const createApiError = {
   forbidden: (message: string = 'Forbidden') => new ApiError(403, message),
   notFound: (message: string = 'Resource not found') => new ApiError(404, message),
   conflict: (message: string = 'Resource conflict') => new ApiError(409, message),
+  gone: (message: string = 'Resource no longer available') => new ApiError(410, message),
   unprocessableEntity: (message: string = 'Unprocessable entity') => new ApiError(422, message),
   tooManyRequests: (message: string = 'Too many requests') => new ApiError(429, message),
   internalServer: (message: string = 'Internal server error') => new ApiError(500, message),
@@ -110,6 +111,7 @@ const getErrorMessage = (statusCode: number): string => {
     403: 'You do not have permission to access this resource.',
     404: 'The requested resource could not be found.',
     409: 'The request conflicts with the current state of the resource.',
+    410: 'The requested resource is no longer available.',
     422: 'The request contains invalid data that cannot be processed.',
     429: 'Too many requests. Please try again later.',
     500: 'An internal server error occurred. Please try again later.',
@@ -2,6 +2,7 @@
 export * from './validation.js';
 export * from './errorHandler.js';
 export * from './cors.js';
+export * from './auth.js';
 
 // Request logging middleware
 import { Request, Response, NextFunction } from 'express';
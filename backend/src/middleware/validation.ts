@@ -130,4 +130,14 @@ export const UUIDParamSchema = z.object({
 /**
  * Common middleware for UUID validation
  */
-export const validateUUIDParam = validateParams(UUIDParamSchema);
\ No newline at end of file
+export const validateUUIDParam = validateParams(UUIDParamSchema);
+
+/**
+ * Collection and recipe ID parameters (/:id/recipes/:recipeId)
+ */
+export const CollectionRecipeParamSchema = z.object({
+  id: z.string().uuid('Collection ID must be a valid UUID'),
+  recipeId: z.string().uuid('Recipe ID must be a valid UUID')
+});
+
+export const validateCollectionRecipeParams = validateParams(CollectionRecipeParamSchema);
\ No newline at end of file
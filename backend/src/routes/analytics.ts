@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import { getScoreAnalytics } from '../services/analytics.js';
+import type { ApiResponse, ScoreAnalytics } from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/analytics/scores
+ * Correlate brewing variables with scores per evaluation system, with best-range insights
+ */
+router.get('/scores', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const analytics = await getScoreAnalytics(currentUserId(req));
+
+    const response: ApiResponse<ScoreAnalytics> = {
+      success: true,
+      data: analytics,
+      message: `Analysed ${analytics.observationCount} scored brews`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to analyse scores');
+  }
+}));
+
+export default router;
@@ -0,0 +1,109 @@
+import { Router, Request, Response } from 'express';
+import { UserModel } from '../database/index.js';
+import { validateBody, asyncHandler, createApiError, requireAuth } from '../middleware/index.js';
+import { hashPassword, createSession, getAuthProvider } from '../services/auth.js';
+import {
+  LoginSchema,
+  RegisterSchema,
+  type ApiResponse,
+  type AuthSession,
+  type LoginCredentials,
+  type RegisterInput,
+  type User
+} from '../shared/index.js';
+
+const router = Router();
+
+// Anyone may create an account unless AUTH_ALLOW_REGISTRATION=false. The first account can always be created.
+const registrationOpen = (): boolean => process.env.AUTH_ALLOW_REGISTRATION !== 'false';
+
+/**
+ * POST /api/auth/register
+ * Create a local account and sign in. The first account takes over recipes
+ * and collections created before accounts existed.
+ */
+router.post('/register', validateBody(RegisterSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const input = req.body as RegisterInput;
+    const isFirstUser = (await UserModel.count()) === 0;
+
+    if (!isFirstUser && !registrationOpen()) {
+      throw createApiError.forbidden('Registration is closed, ask an existing team member for an account');
+    }
+
+    if (await UserModel.findByUsername(input.username)) {
+      throw createApiError.conflict('This username is already taken');
+    }
+
+    const user = await UserModel.create({
+      username: input.username,
+      ...(input.displayName && { displayName: input.displayName }),
+      authProvider: 'local',
+      passwordHash: await hashPassword(input.password)
+    });
+
+    if (isFirstUser) {
+      await UserModel.adoptUnownedData(user.userId);
+    }
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: createSession(user),
+      message: 'Account created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Registration is closed, ask an existing team member for an account' ||
+      error.message === 'This username is already taken'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to create account');
+  }
+}));
+
+/**
+ * POST /api/auth/login
+ * Sign in with username and password
+ */
+router.post('/login', validateBody(LoginSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const credentials = req.body as LoginCredentials;
+    const user = await getAuthProvider<LoginCredentials>('local')!.authenticate(credentials);
+
+    if (!user) {
+      throw createApiError.unauthorized('Invalid username or password');
+    }
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: createSession(user),
+      message: 'Signed in successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid username or password') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to sign in');
+  }
+}));
+
+/**
+ * GET /api/auth/me
+ * Get the signed-in user
+ */
+router.get('/me', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const response: ApiResponse<User> = {
+    success: true,
+    data: req.user!,
+    message: 'User retrieved successfully'
+  };
+
+  res.json(response);
+}));
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { validateBody, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import { createBackup, restoreBackup } from '../services/backup.js';
+import {
+  BackupRestoreRequestSchema,
+  type ApiResponse,
+  type BackupData,
+  type BackupRestoreRequestSchemaType,
+  type RestoreReport
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/backup
+ * Full backup of the signed-in user's recipes with their brew sessions, revisions and
+ * experiments, collections and memberships, and the beans, equipment, water profiles and saved searches
+ */
+router.get('/backup', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const backup = await createBackup(currentUserId(req));
+
+    const response: ApiResponse<BackupData> = {
+      success: true,
+      data: backup,
+      message: `Backed up ${backup.metadata.totalRecipes} recipes and ${backup.metadata.totalCollections} collections`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to create backup');
+  }
+}));
+
+/**
+ * POST /api/restore
+ * Restore a backup (any supported version), keeping record IDs and dates.
+ * With dryRun the report only describes what would change. If a write fails,
+ * nothing is kept (422 with the report).
+ */
+router.post('/restore', validateBody(BackupRestoreRequestSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { backup, options } = req.body as BackupRestoreRequestSchemaType;
+    const report = await restoreBackup(backup, options, currentUserId(req));
+
+    if (!report.dryRun && !report.applied) {
+      const response: ApiResponse<RestoreReport> = {
+        success: false,
+        data: report,
+        error: 'Nothing was restored because some records could not be saved'
+      };
+      return res.status(422).json(response);
+    }
+
+    const restored = [
+      report.beans,
+      report.equipment,
+      report.waterProfiles,
+      report.savedSearches,
+      report.collections,
+      report.recipes,
+      report.brewSessions,
+      report.revisions,
+      report.experiments
+    ].reduce((total, counts) => total + counts.created + counts.overwritten, 0);
+    const response: ApiResponse<RestoreReport> = {
+      success: true,
+      data: report,
+      message: report.dryRun ? `Dry run: ${restored} records would be restored` : `Restored ${restored} records`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Unsupported backup version')) {
+      throw createApiError.badRequest(error.message);
+    }
+    throw createApiError.internalServer('Failed to restore backup');
+  }
+}));
+
+export default router;
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import { BeanModel } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError } from '../middleware/index.js';
+import {
+  BeanInputSchema,
+  BeanUpdateSchema,
+  type ApiResponse,
+  type Bean,
+  type BeanInput,
+  type BeanUpdate
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/beans
+ * Get the bean inventory, freshest roast first (?includeArchived=true for finished bags).
+ * The inventory is the team's shared shelf: every account sees and brews from the same bags.
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const beans = await BeanModel.findAll({ includeArchived: req.query.includeArchived === 'true' });
+
+    const response: ApiResponse<Bean[]> = {
+      success: true,
+      data: beans,
+      message: `Retrieved ${beans.length} beans`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve beans');
+  }
+}));
+
+/**
+ * GET /api/beans/:id
+ * Get a specific bag by ID
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const bean = await BeanModel.findById(id);
+
+    if (!bean) {
+      throw createApiError.notFound('Bean not found');
+    }
+
+    const response: ApiResponse<Bean> = {
+      success: true,
+      data: bean,
+      message: 'Bean retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Bean not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve bean');
+  }
+}));
+
+/**
+ * POST /api/beans
+ * Add a bag to the inventory
+ */
+router.post('/', validateBody(BeanInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const bean = await BeanModel.create(req.body as BeanInput);
+
+    const response: ApiResponse<Bean> = {
+      success: true,
+      data: bean,
+      message: 'Bean added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to add bean');
+  }
+}));
+
+/**
+ * PUT /api/beans/:id
+ * Update bag details or correct the remaining amount
+ */
+router.put('/:id', validateUUIDParam, validateBody(BeanUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const updates = req.body as BeanUpdate;
+
+    const existing = await BeanModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Bean not found');
+    }
+
+    const bagWeight = updates.bagWeight ?? existing.bagWeight;
+    const remainingGrams = updates.remainingGrams ?? Math.min(existing.remainingGrams, bagWeight);
+    if (remainingGrams > bagWeight) {
+      throw createApiError.badRequest('Remaining grams cannot exceed the bag weight');
+    }
+
+    const bean = await BeanModel.update(id, { ...updates, remainingGrams });
+
+    if (!bean) {
+      throw createApiError.internalServer('Failed to update bean');
+    }
+
+    const response: ApiResponse<Bean> = {
+      success: true,
+      data: bean,
+      message: 'Bean updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Bean not found' ||
+      error.message === 'Remaining grams cannot exceed the bag weight' ||
+      error.message === 'Failed to update bean'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update bean');
+  }
+}));
+
+/**
+ * DELETE /api/beans/:id
+ * Delete a bag (recipes brewed from it keep their bean info)
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+
+    const existing = await BeanModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Bean not found');
+    }
+
+    await BeanModel.delete(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Bean deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Bean not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to delete bean');
+  }
+}));
+
+export default router;
@@ -1,24 +1,80 @@
 import { Router, Request, Response } from 'express';
-import { CollectionModel } from '../database/index.js';
-import { validateBody, validateUUIDParam, asyncHandler, createApiError } from '../middleware/index.js';
+import { CollectionModel, RecipeModel } from '../database/index.js';
+import { validateBody, validateQuery, validateUUIDParam, validateCollectionRecipeParams, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
 import { 
   CollectionInputSchema, 
   CollectionUpdateSchema,
-  UUIDSchema,
+  CollectionRecipesBatchSchema,
+  CollectionMoveSchema,
+  CollectionSummaryQuerySchema,
+  getDescendantIds,
   type ApiResponse,
+  type BatchCollectionResult,
+  type CollectionRecipesBatchSchemaType,
+  type CollectionMoveSchemaType,
+  type CollectionSummary,
+  type CollectionSummaryQuerySchemaType,
+  type SmartCollectionRuleSchemaType,
+  type Collection,
   type CollectionResponse,
   type CollectionListResponse 
 } from '../shared/index.js';
 
 const router = Router();
 
+const SMART_MEMBERSHIP_ERROR = 'Recipes in a smart collection are chosen by its rule';
+const SMART_RULE_COLLECTION_ERROR = 'Smart collection rules can only filter by manual collections';
+const MOVE_INTO_SUBTREE_ERROR = 'A collection cannot be moved into itself or one of its sub-collections';
+const NOT_OWNER_ERROR = 'Only the owner can change a collection';
+const PARENT_NOT_OWNED_ERROR = 'Sub-collections can only be added to your own collections';
+const ACCESS_ERRORS = ['Collection not found', NOT_OWNER_ERROR];
+
+// Summary sort options mapped to collection columns; recipe counts are sorted after the roll-up
+const SUMMARY_SORT_COLUMNS: Record<CollectionSummaryQuerySchemaType['sortBy'], string | undefined> = {
+  'name': 'name',
+  'created-date': 'date_created',
+  'modified-date': 'date_modified',
+  'recipe-count': undefined
+};
+
+// Load a collection the signed-in user can see: their own, or another member's unless private
+const findVisibleCollection = async (req: Request, id: string): Promise<Collection | null> => {
+  const collection = await CollectionModel.findById(id);
+  if (!collection || (collection.isPrivate && collection.ownerId !== currentUserId(req))) {
+    return null;
+  }
+  return collection;
+};
+
+// Load a collection the signed-in user is about to change; only its owner may
+const findOwnedCollection = async (req: Request, id: string): Promise<Collection> => {
+  const collection = await findVisibleCollection(req, id);
+  if (!collection) {
+    throw createApiError.notFound('Collection not found');
+  }
+  if (collection.ownerId !== currentUserId(req)) {
+    throw createApiError.forbidden(NOT_OWNER_ERROR);
+  }
+  return collection;
+};
+
+// Rules may only filter by manual collections, so no smart collection depends on another
+const assertManualCollectionFilter = async (req: Request, rule?: SmartCollectionRuleSchemaType): Promise<void> => {
+  for (const name of rule?.filters.collections ?? []) {
+    const collection = await CollectionModel.findByName(name, currentUserId(req));
+    if (collection?.type === 'smart') {
+      throw createApiError.badRequest(SMART_RULE_COLLECTION_ERROR);
+    }
+  }
+};
+
 /**
  * GET /api/collections
- * Get all collections
+ * Get all collections visible to the signed-in user (their own and other members' shared ones)
  */
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const collections = await CollectionModel.findAll();
+    const collections = await CollectionModel.findAll({ viewerId: currentUserId(req) });
     
     const response: CollectionListResponse = {
       success: true,
@@ -32,6 +88,38 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+/**
+ * GET /api/collections/summaries
+ * Get lightweight collection summaries with statistics rolled up over sub-collections
+ */
+router.get('/summaries', validateQuery(CollectionSummaryQuerySchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { searchQuery, color, isPrivate, sortBy, sortOrder } = req.query as unknown as CollectionSummaryQuerySchemaType;
+
+    const summaries = await CollectionModel.findAllSummaries({
+      searchQuery,
+      color,
+      isPrivate,
+      viewerId: currentUserId(req),
+      sortBy: SUMMARY_SORT_COLUMNS[sortBy],
+      sortOrder
+    });
+    if (sortBy === 'recipe-count') {
+      summaries.sort((a, b) => (a.rollupRecipeCount - b.rollupRecipeCount) * (sortOrder === 'desc' ? -1 : 1));
+    }
+
+    const response: ApiResponse<CollectionSummary[]> = {
+      success: true,
+      data: summaries,
+      message: `Retrieved ${summaries.length} collection summaries`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve collection summaries');
+  }
+}));
+
 /**
  * GET /api/collections/:id
  * Get a specific collection by ID
@@ -39,7 +127,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    const collection = await CollectionModel.findById(id);
+    const collection = await findVisibleCollection(req, id);
     
     if (!collection) {
       throw createApiError.notFound('Collection not found');
@@ -66,13 +154,24 @@ router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Res
  */
 router.post('/', validateBody(CollectionInputSchema), asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { name, description, color = 'blue', isPrivate = false, isDefault = false, tags = [] } = req.body;
+    const { name, description, color = 'blue', isPrivate = false, isDefault = false, tags = [], rule, parentId } = req.body;
     
-    // Check if collection name already exists
-    const existingCollection = await CollectionModel.findByName(name);
-    if (existingCollection) {
+    // Check if the signed-in user already has a collection with this name
+    if (await CollectionModel.nameExists(name, currentUserId(req))) {
       throw createApiError.conflict('A collection with this name already exists');
     }
+
+    if (parentId) {
+      const parent = await findVisibleCollection(req, parentId);
+      if (!parent) {
+        throw createApiError.badRequest('Parent collection not found');
+      }
+      if (parent.ownerId !== currentUserId(req)) {
+        throw createApiError.forbidden(PARENT_NOT_OWNED_ERROR);
+      }
+    }
+
+    await assertManualCollectionFilter(req, rule);
     
     const collectionInput = {
       name,
@@ -80,10 +179,12 @@ router.post('/', validateBody(CollectionInputSchema), asyncHandler(async (req: R
       color,
       isPrivate,
       isDefault,
-      tags
+      tags,
+      rule,
+      parentId
     };
     
-    const collection = await CollectionModel.create(collectionInput);
+    const collection = await CollectionModel.create(collectionInput, currentUserId(req));
     
     const response: CollectionResponse = {
       success: true,
@@ -93,7 +194,12 @@ router.post('/', validateBody(CollectionInputSchema), asyncHandler(async (req: R
     
     res.status(201).json(response);
   } catch (error) {
-    if (error instanceof Error && error.message === 'A collection with this name already exists') {
+    if (error instanceof Error && (
+      error.message === 'A collection with this name already exists' ||
+      error.message === 'Parent collection not found' ||
+      error.message === PARENT_NOT_OWNED_ERROR ||
+      error.message === SMART_RULE_COLLECTION_ERROR
+    )) {
       throw error;
     }
     throw createApiError.internalServer('Failed to create collection');
@@ -106,22 +212,25 @@ router.post('/', validateBody(CollectionInputSchema), asyncHandler(async (req: R
  */
 router.put('/:id', validateUUIDParam, validateBody(CollectionUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, rule } = req.body;
     const { id } = req.params as { id: string };
     
-    // Check if collection exists
-    const existingCollection = await CollectionModel.findById(id);
-    if (!existingCollection) {
-      throw createApiError.notFound('Collection not found');
-    }
+    // Check if collection exists and belongs to the signed-in user
+    const existingCollection = await findOwnedCollection(req, id);
     
     // Check if new name conflicts with existing collection (excluding current)
     if (name && name !== existingCollection.name) {
-      const nameExists = await CollectionModel.nameExists(name, id);
+      const nameExists = await CollectionModel.nameExists(name, currentUserId(req), id);
       if (nameExists) {
         throw createApiError.conflict('A collection with this name already exists');
       }
     }
+
+    // The stored rule is what makes a collection smart, so only smart collections take one
+    if (rule !== undefined && existingCollection.type !== 'smart') {
+      throw createApiError.badRequest('A manual collection cannot be given a rule');
+    }
+    await assertManualCollectionFilter(req, rule);
     
     const updatedCollection = await CollectionModel.update(id, req.body);
     
@@ -138,8 +247,10 @@ router.put('/:id', validateUUIDParam, validateBody(CollectionUpdateSchema), asyn
     res.json(response);
   } catch (error) {
     if (error instanceof Error && (
-      error.message === 'Collection not found' || 
+      ACCESS_ERRORS.includes(error.message) ||
       error.message === 'A collection with this name already exists' ||
+      error.message === 'A manual collection cannot be given a rule' ||
+      error.message === SMART_RULE_COLLECTION_ERROR ||
       error.message === 'Failed to update collection'
     )) {
       throw error;
@@ -148,17 +259,72 @@ router.put('/:id', validateUUIDParam, validateBody(CollectionUpdateSchema), asyn
   }
 }));
 
+/**
+ * POST /api/collections/:id/move
+ * Move a collection under another one, or to the top level with a null parent
+ */
+router.post('/:id/move', validateUUIDParam, validateBody(CollectionMoveSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const { parentId } = req.body as CollectionMoveSchemaType;
+
+    await findOwnedCollection(req, id);
+
+    if (parentId !== null) {
+      const parent = await findVisibleCollection(req, parentId);
+      if (!parent) {
+        throw createApiError.badRequest('Parent collection not found');
+      }
+      if (parent.ownerId !== currentUserId(req)) {
+        throw createApiError.forbidden(PARENT_NOT_OWNED_ERROR);
+      }
+
+      // Moving below itself would detach the subtree into a cycle
+      const summaries = await CollectionModel.findAllSummaries();
+      if (parentId === id || getDescendantIds(id, summaries).includes(parentId)) {
+        throw createApiError.badRequest(MOVE_INTO_SUBTREE_ERROR);
+      }
+    }
+
+    const moved = await CollectionModel.move(id, parentId);
+    if (!moved) {
+      throw createApiError.internalServer('Failed to move collection');
+    }
+
+    const response: CollectionResponse = {
+      success: true,
+      data: moved,
+      message: parentId ? 'Collection moved successfully' : 'Collection moved to the top level'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      ACCESS_ERRORS.includes(error.message) ||
+      error.message === 'Parent collection not found' ||
+      error.message === PARENT_NOT_OWNED_ERROR ||
+      error.message === MOVE_INTO_SUBTREE_ERROR
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to move collection');
+  }
+}));
+
 /**
  * DELETE /api/collections/:id
- * Delete a collection
+ * Delete a collection; its sub-collections move up to its parent
  */
 router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    // Check if collection exists
-    const existingCollection = await CollectionModel.findById(id);
-    if (!existingCollection) {
-      throw createApiError.notFound('Collection not found');
+    // Check if collection exists and belongs to the signed-in user
+    const existingCollection = await findOwnedCollection(req, id);
+    
+    // Keep the sub-collections in the tree by moving them up a level
+    const children = (await CollectionModel.findAllSummaries()).filter(summary => summary.parentId === id);
+    for (const child of children) {
+      await CollectionModel.move(child.collectionId, existingCollection.parentId ?? null);
     }
     
     // Delete the collection (this will also remove recipe associations due to CASCADE)
@@ -175,37 +341,98 @@ router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res:
     
     res.json(response);
   } catch (error) {
-    if (error instanceof Error && (error.message === 'Collection not found' || error.message === 'Failed to delete collection')) {
+    if (error instanceof Error && (ACCESS_ERRORS.includes(error.message) || error.message === 'Failed to delete collection')) {
       throw error;
     }
     throw createApiError.internalServer('Failed to delete collection');
   }
 }));
 
+/**
+ * POST /api/collections/:id/recipes/batch
+ * Add many recipes to a collection in one query
+ */
+router.post('/:id/recipes/batch', validateUUIDParam, validateBody(CollectionRecipesBatchSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id: collectionId } = req.params as { id: string };
+    const { recipeIds } = req.body as CollectionRecipesBatchSchemaType;
+
+    const collection = await findOwnedCollection(req, collectionId);
+    if (collection.type === 'smart') {
+      throw createApiError.badRequest(SMART_MEMBERSHIP_ERROR);
+    }
+
+    // Other members' recipes count as not found
+    const ownIds = new Set((await RecipeModel.findAll(currentUserId(req))).map(recipe => recipe.recipeId));
+    const { added, failed } = await CollectionModel.batchAddRecipes(collectionId, recipeIds.filter(id => ownIds.has(id)));
+    failed.push(...recipeIds.filter(id => !ownIds.has(id)));
+
+    const response: ApiResponse<BatchCollectionResult> = {
+      success: true,
+      data: { operation: 'assign', collectionId, succeeded: added, failed },
+      message: failed.length > 0
+        ? `Added ${added.length} recipes to collection; ${failed.length} recipes not found`
+        : `Added ${added.length} recipes to collection`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (ACCESS_ERRORS.includes(error.message) || error.message === SMART_MEMBERSHIP_ERROR)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to add recipes to collection');
+  }
+}));
+
+/**
+ * DELETE /api/collections/:id/recipes/batch
+ * Remove many recipes from a collection in one query
+ */
+router.delete('/:id/recipes/batch', validateUUIDParam, validateBody(CollectionRecipesBatchSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id: collectionId } = req.params as { id: string };
+    const { recipeIds } = req.body as CollectionRecipesBatchSchemaType;
+
+    const collection = await findOwnedCollection(req, collectionId);
+    if (collection.type === 'smart') {
+      throw createApiError.badRequest(SMART_MEMBERSHIP_ERROR);
+    }
+
+    const { removed, failed } = await CollectionModel.batchRemoveRecipes(collectionId, recipeIds);
+
+    const response: ApiResponse<BatchCollectionResult> = {
+      success: true,
+      data: { operation: 'remove', collectionId, succeeded: removed, failed },
+      message: failed.length > 0
+        ? `Removed ${removed.length} recipes from collection; ${failed.length} were not in it`
+        : `Removed ${removed.length} recipes from collection`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (ACCESS_ERRORS.includes(error.message) || error.message === SMART_MEMBERSHIP_ERROR)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to remove recipes from collection');
+  }
+}));
+
 /**
  * POST /api/collections/:id/recipes/:recipeId
  * Add a recipe to a collection
  */
-router.post('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/recipes/:recipeId', validateCollectionRecipeParams, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id: collectionId, recipeId } = req.params as { id: string, recipeId: string };
     
-    // Validate collection ID
-    const collectionIdValidation = UUIDSchema.safeParse(collectionId);
-    if (!collectionIdValidation.success) {
-      throw createApiError.badRequest('Collection ID must be a valid UUID');
+    // Check if collection exists and belongs to the signed-in user
+    const collection = await findOwnedCollection(req, collectionId);
+    if (collection.type === 'smart') {
+      throw createApiError.badRequest(SMART_MEMBERSHIP_ERROR);
     }
     
-    // Validate recipe ID
-    const recipeIdValidation = UUIDSchema.safeParse(recipeId);
-    if (!recipeIdValidation.success) {
-      throw createApiError.badRequest('Recipe ID must be a valid UUID');
-    }
-    
-    // Check if collection exists
-    const collection = await CollectionModel.findById(collectionId);
-    if (!collection) {
-      throw createApiError.notFound('Collection not found');
+    if (!(await RecipeModel.findById(recipeId, currentUserId(req)))) {
+      throw createApiError.notFound('Recipe not found');
     }
     
     // Add recipe to collection
@@ -223,8 +450,9 @@ router.post('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: Res
     res.json(response);
   } catch (error) {
     if (error instanceof Error && (
-      error.message === 'Collection not found' ||
-      error.message === 'Recipe ID must be a valid UUID' ||
+      ACCESS_ERRORS.includes(error.message) ||
+      error.message === SMART_MEMBERSHIP_ERROR ||
+      error.message === 'Recipe not found' ||
       error.message === 'Failed to add recipe to collection'
     )) {
       throw error;
@@ -237,26 +465,14 @@ router.post('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: Res
  * DELETE /api/collections/:id/recipes/:recipeId
  * Remove a recipe from a collection
  */
-router.delete('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id/recipes/:recipeId', validateCollectionRecipeParams, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id: collectionId, recipeId } = req.params as { id: string, recipeId: string };
     
-    // Validate collection ID
-    const collectionIdValidation = UUIDSchema.safeParse(collectionId);
-    if (!collectionIdValidation.success) {
-      throw createApiError.badRequest('Collection ID must be a valid UUID');
-    }
-    
-    // Validate recipe ID
-    const recipeIdValidation = UUIDSchema.safeParse(recipeId);
-    if (!recipeIdValidation.success) {
-      throw createApiError.badRequest('Recipe ID must be a valid UUID');
-    }
-    
-    // Check if collection exists
-    const collection = await CollectionModel.findById(collectionId);
-    if (!collection) {
-      throw createApiError.notFound('Collection not found');
+    // Check if collection exists and belongs to the signed-in user
+    const collection = await findOwnedCollection(req, collectionId);
+    if (collection.type === 'smart') {
+      throw createApiError.badRequest(SMART_MEMBERSHIP_ERROR);
     }
     
     // Remove recipe from collection
@@ -274,8 +490,8 @@ router.delete('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: R
     res.json(response);
   } catch (error) {
     if (error instanceof Error && (
-      error.message === 'Collection not found' ||
-      error.message === 'Recipe ID must be a valid UUID' ||
+      ACCESS_ERRORS.includes(error.message) ||
+      error.message === SMART_MEMBERSHIP_ERROR ||
       error.message === 'Recipe not found in collection'
     )) {
       throw error;
@@ -291,7 +507,7 @@ router.delete('/:id/recipes/:recipeId', asyncHandler(async (req: Request, res: R
 router.get('/:id/recipes', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    const collection = await CollectionModel.findById(id);
+    const collection = await findVisibleCollection(req, id);
     
     if (!collection) {
       throw createApiError.notFound('Collection not found');
@@ -316,11 +532,11 @@ router.get('/:id/recipes', validateUUIDParam, asyncHandler(async (req: Request,
 
 /**
  * GET /api/collections/stats/count
- * Get total count of collections
+ * Get total count of collections visible to the signed-in user
  */
 router.get('/stats/count', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const count = await CollectionModel.count();
+    const count = await CollectionModel.count(currentUserId(req));
     
     const response: ApiResponse<{ count: number }> = {
       success: true,
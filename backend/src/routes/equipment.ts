@@ -0,0 +1,178 @@
+import { Router, Request, Response } from 'express';
+import { EquipmentModel } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError } from '../middleware/index.js';
+import {
+  EquipmentInputSchema,
+  EquipmentTypeSchema,
+  EquipmentUpdateSchema,
+  EquipmentType,
+  type ApiResponse,
+  type Equipment,
+  type EquipmentInput,
+  type EquipmentUpdate
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/equipment
+ * Get the equipment registry (?type=grinder|brewer|filter|kettle, ?includeArchived=true for retired gear)
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    let type: EquipmentType | undefined;
+    if (req.query.type !== undefined) {
+      const parsed = EquipmentTypeSchema.safeParse(req.query.type);
+      if (!parsed.success) {
+        throw createApiError.badRequest('Invalid equipment type');
+      }
+      type = parsed.data;
+    }
+
+    const equipment = await EquipmentModel.findAll({ type, includeArchived: req.query.includeArchived === 'true' });
+
+    const response: ApiResponse<Equipment[]> = {
+      success: true,
+      data: equipment,
+      message: `Retrieved ${equipment.length} equipment items`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid equipment type') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve equipment');
+  }
+}));
+
+/**
+ * GET /api/equipment/:id
+ * Get a specific piece of equipment by ID
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const equipment = await EquipmentModel.findById(id);
+
+    if (!equipment) {
+      throw createApiError.notFound('Equipment not found');
+    }
+
+    const response: ApiResponse<Equipment> = {
+      success: true,
+      data: equipment,
+      message: 'Equipment retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Equipment not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve equipment');
+  }
+}));
+
+/**
+ * POST /api/equipment
+ * Register a grinder, brewer, filter paper or kettle
+ */
+router.post('/', validateBody(EquipmentInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const equipment = await EquipmentModel.create(req.body as EquipmentInput);
+
+    const response: ApiResponse<Equipment> = {
+      success: true,
+      data: equipment,
+      message: 'Equipment added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to add equipment');
+  }
+}));
+
+/**
+ * PUT /api/equipment/:id
+ * Update equipment details
+ */
+router.put('/:id', validateUUIDParam, validateBody(EquipmentUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const updates = req.body as EquipmentUpdate;
+
+    const existing = await EquipmentModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Equipment not found');
+    }
+
+    // Type-specific fields are checked against the stored type, which cannot change
+    if (updates.settingScale !== undefined && existing.type !== EquipmentType.GRINDER) {
+      throw createApiError.badRequest('Only grinders can have a setting scale');
+    }
+    if (updates.calibration !== undefined && existing.type !== EquipmentType.GRINDER) {
+      throw createApiError.badRequest('Only grinders can have a calibration');
+    }
+    if (updates.brewingMethod !== undefined && existing.type !== EquipmentType.BREWER) {
+      throw createApiError.badRequest('Only brewers can have a brewing method');
+    }
+
+    const equipment = await EquipmentModel.update(id, updates);
+
+    if (!equipment) {
+      throw createApiError.internalServer('Failed to update equipment');
+    }
+
+    const response: ApiResponse<Equipment> = {
+      success: true,
+      data: equipment,
+      message: 'Equipment updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Equipment not found' ||
+      error.message === 'Only grinders can have a setting scale' ||
+      error.message === 'Only grinders can have a calibration' ||
+      error.message === 'Only brewers can have a brewing method' ||
+      error.message === 'Failed to update equipment'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update equipment');
+  }
+}));
+
+/**
+ * DELETE /api/equipment/:id
+ * Delete equipment (recipes keep the names they were saved with)
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+
+    const existing = await EquipmentModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Equipment not found');
+    }
+
+    await EquipmentModel.delete(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Equipment deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Equipment not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to delete equipment');
+  }
+}));
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router, Request, Response } from 'express';
+import { ExperimentModel, type ExperimentRecord } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import {
+  completeExperiment,
+  createExperiment,
+  deleteExperiment,
+  recordTasting,
+  toExperimentView
+} from '../services/experiments.js';
+import {
+  ExperimentInputSchema,
+  ExperimentTastingSchema,
+  type ApiResponse,
+  type Experiment,
+  type ExperimentInputSchemaType,
+  type ExperimentTastingSchemaType
+} from '../shared/index.js';
+
+const router = Router();
+
+const NOT_FOUND_ERRORS = ['Experiment not found', 'Base recipe not found', 'Tasting code not found', 'Variant recipe not found'];
+const BAD_REQUEST_ERRORS = ['Water profile not found', 'The base recipe needs a coffee dose for ratio variants', 'The tasting needs a score'];
+const CONFLICT_ERRORS = ['Experiment is already completed', 'Every variant needs a tasting before the results are revealed'];
+
+// Turn the service's known errors into their status codes
+const rethrowKnownError = (error: unknown): void => {
+  if (!(error instanceof Error)) return;
+
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    throw createApiError.notFound(error.message);
+  }
+  if (BAD_REQUEST_ERRORS.includes(error.message)) {
+    throw createApiError.badRequest(error.message);
+  }
+  if (CONFLICT_ERRORS.includes(error.message)) {
+    throw createApiError.conflict(error.message);
+  }
+};
+
+// Load one of the signed-in user's experiments
+const findExperiment = async (req: Request): Promise<ExperimentRecord> => {
+  const experiment = await ExperimentModel.findById(req.params.id!, currentUserId(req));
+  if (!experiment) {
+    throw new Error('Experiment not found');
+  }
+  return experiment;
+};
+
+/**
+ * GET /api/experiments
+ * Get your experiments, newest first (variants stay blind until completed)
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const records = await ExperimentModel.findByOwner(currentUserId(req));
+    const experiments = await Promise.all(records.map(record => toExperimentView(record)));
+
+    const response: ApiResponse<Experiment[]> = {
+      success: true,
+      data: experiments,
+      message: `Retrieved ${experiments.length} experiments`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve experiments');
+  }
+}));
+
+/**
+ * GET /api/experiments/:id
+ * Get an experiment: tasting codes while tasting, the results table once completed
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const experiment = await toExperimentView(await findExperiment(req));
+
+    const response: ApiResponse<Experiment> = {
+      success: true,
+      data: experiment,
+      message: 'Experiment retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    rethrowKnownError(error);
+    throw createApiError.internalServer('Failed to retrieve experiment');
+  }
+}));
+
+/**
+ * POST /api/experiments
+ * Plan an experiment and generate one recipe per variant from the base recipe
+ */
+router.post('/', validateBody(ExperimentInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const record = await createExperiment(req.body as ExperimentInputSchemaType, currentUserId(req));
+    const experiment = await toExperimentView(record);
+
+    const response: ApiResponse<Experiment> = {
+      success: true,
+      data: experiment,
+      message: `Experiment created with ${experiment.variants.length} variants`
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    rethrowKnownError(error);
+    throw createApiError.internalServer('Failed to create experiment');
+  }
+}));
+
+/**
+ * POST /api/experiments/:id/tastings
+ * Record a blind tasting by code (stored as a brew session of the variant recipe)
+ */
+router.post('/:id/tastings', validateUUIDParam, validateBody(ExperimentTastingSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const record = await findExperiment(req);
+    const tasting = req.body as ExperimentTastingSchemaType;
+    await recordTasting(record, tasting);
+
+    const response: ApiResponse<Experiment> = {
+      success: true,
+      data: await toExperimentView(record),
+      message: `Tasting recorded for ${tasting.code}`
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    rethrowKnownError(error);
+    throw createApiError.internalServer('Failed to record tasting');
+  }
+}));
+
+/**
+ * POST /api/experiments/:id/complete
+ * End the blind tasting and reveal the results (every variant needs a tasting)
+ */
+router.post('/:id/complete', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const record = await completeExperiment(await findExperiment(req));
+
+    const response: ApiResponse<Experiment> = {
+      success: true,
+      data: await toExperimentView(record),
+      message: 'Experiment completed, results revealed'
+    };
+
+    res.json(response);
+  } catch (error) {
+    rethrowKnownError(error);
+    throw createApiError.internalServer('Failed to complete experiment');
+  }
+}));
+
+/**
+ * DELETE /api/experiments/:id
+ * Delete an experiment (?deleteRecipes=true also deletes the variant recipes)
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const deleteRecipes = req.query.deleteRecipes === 'true';
+    await deleteExperiment(await findExperiment(req), deleteRecipes);
+
+    const response: ApiResponse = {
+      success: true,
+      message: deleteRecipes ? 'Experiment and variant recipes deleted successfully' : 'Experiment deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    rethrowKnownError(error);
+    throw createApiError.internalServer('Failed to delete experiment');
+  }
+}));
+
+export default router;
@@ -0,0 +1,201 @@
+import { Router, Request, Response } from 'express';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import { exportJobQueue } from '../services/exportJobs.js';
+import { signDownloadToken } from '../services/auth.js';
+import {
+  ExportRequestSchema,
+  validateExportOptionsWithRules,
+  transformExportOptions,
+  type ApiResponse,
+  type ExportDownloadLink,
+  type ExportJob,
+  type ExportOptions,
+  type ExportRequestSchemaType
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * POST /api/exports
+ * Start an export job (CSV, Excel or JSON); poll GET /api/exports/:id for progress
+ */
+router.post('/', validateBody(ExportRequestSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { options } = req.body as ExportRequestSchemaType;
+
+  // Business rules (selection size, filename characters) on top of the schema
+  const rules = validateExportOptionsWithRules(options);
+  if (!rules.isValid) {
+    throw createApiError.badRequest(rules.errors.join('; '));
+  }
+
+  try {
+    const downloadBaseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+    const job = exportJobQueue.create(transformExportOptions(options) as ExportOptions, downloadBaseUrl, currentUserId(req));
+
+    const response: ApiResponse<ExportJob> = {
+      success: true,
+      data: job,
+      message: 'Export job started'
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to start export');
+  }
+}));
+
+/**
+ * GET /api/exports
+ * Get the signed-in user's recent export jobs, newest first
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const jobs = exportJobQueue.list(currentUserId(req));
+
+    const response: ApiResponse<ExportJob[]> = {
+      success: true,
+      data: jobs,
+      message: `Retrieved ${jobs.length} export jobs`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve export jobs');
+  }
+}));
+
+/**
+ * GET /api/exports/:id
+ * Get an export job's status and progress
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const job = exportJobQueue.get(id, currentUserId(req));
+
+    if (!job) {
+      throw createApiError.notFound('Export job not found');
+    }
+
+    const response: ApiResponse<ExportJob> = {
+      success: true,
+      data: job,
+      message: `Export job ${job.status}`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Export job not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve export job');
+  }
+}));
+
+/**
+ * POST /api/exports/:id/download-link
+ * Get a download URL that works for a few minutes without the Authorization header,
+ * so the browser can follow it as a plain link
+ */
+router.post('/:id/download-link', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const userId = currentUserId(req);
+    const download = exportJobQueue.getDownload(id, userId);
+    const downloadUrl = exportJobQueue.get(id, userId)?.result?.downloadUrl;
+
+    if (!download || !downloadUrl) {
+      throw createApiError.notFound('Export job not found');
+    }
+    if (download === 'not-ready') {
+      throw createApiError.conflict('Export is not ready for download');
+    }
+    if (download === 'expired') {
+      throw createApiError.gone('Export download has expired');
+    }
+
+    const { token, expiresAt } = signDownloadToken(userId, `${req.baseUrl}/${id}/download`);
+    const response: ApiResponse<ExportDownloadLink> = {
+      success: true,
+      data: { url: `${downloadUrl}?access_token=${encodeURIComponent(token)}`, expiresAt },
+      message: 'Download link created'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Export job not found' ||
+      error.message === 'Export is not ready for download' ||
+      error.message === 'Export download has expired'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to create download link');
+  }
+}));
+
+/**
+ * GET /api/exports/:id/download
+ * Download a finished export until its link expires. Also accepts a download token
+ * from POST /api/exports/:id/download-link in the access_token query parameter.
+ */
+router.get('/:id/download', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const download = exportJobQueue.getDownload(id, currentUserId(req));
+
+    if (!download) {
+      throw createApiError.notFound('Export job not found');
+    }
+    if (download === 'not-ready') {
+      throw createApiError.conflict('Export is not ready for download');
+    }
+    if (download === 'expired') {
+      throw createApiError.gone('Export download has expired');
+    }
+
+    res.setHeader('Content-Type', download.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${download.filename}"`);
+    res.setHeader('Content-Length', String(download.content.length));
+    res.setHeader('Cache-Control', 'no-cache');
+
+    res.send(download.content);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Export job not found' ||
+      error.message === 'Export is not ready for download' ||
+      error.message === 'Export download has expired'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to download export');
+  }
+}));
+
+/**
+ * DELETE /api/exports/:id
+ * Remove an export job and its file
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+
+    if (!exportJobQueue.delete(id, currentUserId(req))) {
+      throw createApiError.notFound('Export job not found');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Export job removed successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Export job not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to remove export job');
+  }
+}));
+
+export default router;
@@ -1,12 +1,39 @@
 import { Router } from 'express';
+import { requireAuth } from '../middleware/index.js';
+import authRouter from './auth.js';
 import recipesRouter from './recipes.js';
 import collectionsRouter from './collections.js';
+import savedSearchesRouter from './savedSearches.js';
+import sessionsRouter from './sessions.js';
+import beansRouter from './beans.js';
+import equipmentRouter from './equipment.js';
+import waterProfilesRouter from './waterProfiles.js';
+import exportsRouter from './exports.js';
+import sharesRouter from './shares.js';
+import backupRouter from './backup.js';
+import experimentsRouter from './experiments.js';
+import analyticsRouter from './analytics.js';
 
 const router = Router();
 
+// Sign-in routes are public; everything mounted after requireAuth needs a session token.
+// Share links are opened by anyone, so the shares router guards its owner routes itself.
+router.use('/auth', authRouter);
+router.use('/shares', sharesRouter);
+router.use(requireAuth);
+
 // Mount route modules
+router.use('/recipes/:id/sessions', sessionsRouter);
 router.use('/recipes', recipesRouter);
 router.use('/collections', collectionsRouter);
+router.use('/saved-searches', savedSearchesRouter);
+router.use('/beans', beansRouter);
+router.use('/equipment', equipmentRouter);
+router.use('/water-profiles', waterProfilesRouter);
+router.use('/exports', exportsRouter);
+router.use('/experiments', experimentsRouter);
+router.use('/analytics', analyticsRouter);
+router.use(backupRouter);
 
 // API root endpoint
 router.get('/', (req, res) => {
@@ -15,30 +42,122 @@ router.get('/', (req, res) => {
     message: 'Coffee Brewing Recipe Tracker API',
     version: '1.0.0',
     endpoints: {
+      auth: '/api/auth',
       recipes: '/api/recipes',
       collections: '/api/collections',
+      savedSearches: '/api/saved-searches',
+      beans: '/api/beans',
+      equipment: '/api/equipment',
+      waterProfiles: '/api/water-profiles',
+      exports: '/api/exports',
+      experiments: '/api/experiments',
+      analytics: '/api/analytics',
+      shares: '/api/shares',
+      backup: '/api/backup',
+      restore: '/api/restore',
       health: '/api/health'
     },
     documentation: {
+      auth: {
+        'POST /api/auth/register': 'Create an account and sign in (returns a session token)',
+        'POST /api/auth/login': 'Sign in with username and password (returns a session token)',
+        'GET /api/auth/me': 'Get the signed-in user',
+        'All other endpoints': 'Except GET /api/shares/:token, require an "Authorization: Bearer <token>" header'
+      },
       recipes: {
-        'GET /api/recipes': 'Get all recipes',
+        'GET /api/recipes': 'Search recipes (filters, sortBy/sortOrder, page/limit query params)',
+        'GET /api/recipes/facets': 'Get filter facet counts and ranges for the current filters',
+        'GET /api/recipes/search/text': 'Full-text search over notes and descriptors (?q=...&limit=10)',
+        'PATCH /api/recipes/bulk': 'Apply the same changes to many recipes (recipeIds or filters), all or nothing',
+        'POST /api/recipes/import': 'Create recipes from mapped spreadsheet rows, all or nothing',
         'GET /api/recipes/:id': 'Get recipe by ID',
         'POST /api/recipes': 'Create new recipe',
         'PUT /api/recipes/:id': 'Update recipe',
         'DELETE /api/recipes/:id': 'Delete recipe',
         'PATCH /api/recipes/:id/favorite': 'Toggle favorite status',
+        'GET /api/recipes/:id/revisions': 'Get recipe version history',
+        'POST /api/recipes/:id/revisions/:rev/restore': 'Restore recipe to an earlier revision',
+        'GET /api/recipes/:id/sessions': 'Get brew sessions of a recipe with averaged scores',
+        'GET /api/recipes/:id/sessions/:sessionId': 'Get brew session by ID',
+        'POST /api/recipes/:id/sessions': 'Log a brew session',
+        'PUT /api/recipes/:id/sessions/:sessionId': 'Update brew session',
+        'DELETE /api/recipes/:id/sessions/:sessionId': 'Delete brew session',
         'GET /api/recipes/stats/count': 'Get recipe count'
       },
       collections: {
         'GET /api/collections': 'Get all collections',
+        'GET /api/collections/summaries': 'Get collection summaries with statistics rolled up over sub-collections',
         'GET /api/collections/:id': 'Get collection by ID',
-        'POST /api/collections': 'Create new collection',
+        'POST /api/collections': 'Create new collection (a rule of search filters makes it a smart collection)',
         'PUT /api/collections/:id': 'Update collection',
+        'POST /api/collections/:id/move': 'Move collection under another one ({ parentId }, null for the top level)',
         'DELETE /api/collections/:id': 'Delete collection',
+        'POST /api/collections/:id/recipes/batch': 'Add many recipes to collection ({ recipeIds })',
+        'DELETE /api/collections/:id/recipes/batch': 'Remove many recipes from collection ({ recipeIds })',
         'POST /api/collections/:id/recipes/:recipeId': 'Add recipe to collection',
         'DELETE /api/collections/:id/recipes/:recipeId': 'Remove recipe from collection',
         'GET /api/collections/:id/recipes': 'Get recipes in collection',
         'GET /api/collections/stats/count': 'Get collection count'
+      },
+      savedSearches: {
+        'GET /api/saved-searches': 'Get all saved searches',
+        'GET /api/saved-searches/:id': 'Get saved search by ID',
+        'POST /api/saved-searches': 'Create saved search',
+        'PUT /api/saved-searches/:id': 'Update saved search',
+        'PATCH /api/saved-searches/:id/use': 'Mark saved search as used',
+        'DELETE /api/saved-searches/:id': 'Delete saved search'
+      },
+      beans: {
+        'GET /api/beans': 'Get bean inventory (includeArchived query param)',
+        'GET /api/beans/:id': 'Get bean by ID',
+        'POST /api/beans': 'Add a bag of beans',
+        'PUT /api/beans/:id': 'Update bean',
+        'DELETE /api/beans/:id': 'Delete bean'
+      },
+      equipment: {
+        'GET /api/equipment': 'Get equipment registry (type and includeArchived query params)',
+        'GET /api/equipment/:id': 'Get equipment by ID',
+        'POST /api/equipment': 'Register a grinder, brewer, filter or kettle',
+        'PUT /api/equipment/:id': 'Update equipment',
+        'DELETE /api/equipment/:id': 'Delete equipment'
+      },
+      waterProfiles: {
+        'GET /api/water-profiles': 'Get water profiles',
+        'GET /api/water-profiles/stats': 'Compare average scores per water profile, overall and per origin',
+        'GET /api/water-profiles/:id': 'Get water profile by ID',
+        'GET /api/water-profiles/:id/stats': 'Get scores for one water profile, overall and per origin',
+        'POST /api/water-profiles': 'Create a water profile from measured minerals or a concentrate mix',
+        'PUT /api/water-profiles/:id': 'Update water profile',
+        'DELETE /api/water-profiles/:id': 'Delete water profile'
+      },
+      exports: {
+        'POST /api/exports': 'Start an export job (CSV, Excel or JSON)',
+        'GET /api/exports': 'Get recent export jobs',
+        'GET /api/exports/:id': 'Get export job status and progress',
+        'POST /api/exports/:id/download-link': 'Get a download URL with a token valid for five minutes',
+        'GET /api/exports/:id/download': 'Download a finished export (link expires after one hour)',
+        'DELETE /api/exports/:id': 'Remove an export job'
+      },
+      experiments: {
+        'GET /api/experiments': 'Get your experiments (variants stay blind until completed)',
+        'GET /api/experiments/:id': 'Get experiment: tasting codes while tasting, per-variant results once completed',
+        'POST /api/experiments': 'Plan an A/B experiment of one variable and generate the variant recipes',
+        'POST /api/experiments/:id/tastings': 'Record a blind tasting by code ({ code, evaluation })',
+        'POST /api/experiments/:id/complete': 'End the tasting and reveal the results',
+        'DELETE /api/experiments/:id': 'Delete experiment (deleteRecipes query param also deletes the variant recipes)'
+      },
+      analytics: {
+        'GET /api/analytics/scores': 'Correlations and regressions of brewing variables against scores per evaluation system, with best-range insights'
+      },
+      shares: {
+        'POST /api/shares': 'Create a share link for a recipe or collection (optional expiry and field redaction)',
+        'GET /api/shares': 'Get your share links (targetId query param)',
+        'POST /api/shares/:id/revoke': 'Revoke a share link',
+        'GET /api/shares/:token': 'Public, read-only view of shared content (no sign-in needed)'
+      },
+      backup: {
+        'GET /api/backup': 'Full backup of your recipes, sessions, revisions, experiments, collections and library (IDs and dates kept)',
+        'POST /api/restore': 'Restore a backup of any supported version (merge or overwrite, optional dry run)'
       }
     }
   });
@@ -1,28 +1,117 @@
 import { Router, Request, Response } from 'express';
-import { RecipeModel } from '../database/index.js';
-import { validateUUIDParam, asyncHandler, createApiError } from '../middleware/index.js';
+import { RecipeModel, RecipeRevisionModel, BeanModel, EquipmentModel, WaterProfileModel, CollectionModel } from '../database/index.js';
+import { validateUUIDParam, validateQuery, validateBody, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FILE_EXTENSIONS,
+  buildExportRows,
+  describeExportFilters,
+  loadFilteredRecipes,
+  renderCsv,
+  renderExcel,
+  renderJson,
+  selectExportColumns,
+  type ExportMetadata
+} from '../services/recipeExport.js';
+import { applyBulkRecipeUpdate, resolveBulkEditTargets } from '../services/recipeBulkEdit.js';
+import { importRecipes } from '../services/recipeImport.js';
 import { 
   transformRecipeInput,
+  SearchRequestQuerySchema,
+  TextSearchQuerySchema,
+  FilteredExportRequestSchema,
+  BulkRecipeUpdateSchema,
+  BULK_EDIT_LIMIT,
+  RecipeImportRequestSchema,
+  UUIDSchema,
+  EquipmentType,
+  ExportFormat,
+  SUMMARY_EXPORT_FIELDS,
   type ApiResponse,
+  type BrewingParameters,
+  type BulkRecipeUpdateResult,
+  type BulkRecipeUpdateSchemaType,
+  type RecipeImportRequestSchemaType,
+  type RecipeImportResult,
+  type Collection,
+  type RecipeRevision,
+  type FilteredExportRequestSchemaType,
+  type PaginatedResponse,
+  type Recipe,
   type RecipeResponse,
-  type RecipeListResponse,
-  type RecipeInput 
+  type RecipeSummary,
+  type RecipeInput,
+  type SearchFacets,
+  type SearchRequestSchemaType,
+  type TextSearchQuerySchemaType,
+  type TextSearchResult
 } from '../shared/index.js';
 
 const router = Router();
 
+// A recipe linked to an inventory bag must point at an existing bag. Bags are shared by
+// every account, like the rest of the library, so any user may brew from (and deduct) any bag.
+const assertBeanExists = async (beanId: string | undefined): Promise<void> => {
+  if (beanId && (!UUIDSchema.safeParse(beanId).success || !(await BeanModel.findById(beanId)))) {
+    throw createApiError.badRequest('Bean not found');
+  }
+};
+
+// Registry references must point at existing equipment of the matching type
+const assertEquipmentExists = async (params: Partial<BrewingParameters> | undefined): Promise<void> => {
+  const references: Array<[string | undefined, EquipmentType]> = [
+    [params?.grinderId, EquipmentType.GRINDER],
+    [params?.brewerId, EquipmentType.BREWER],
+    [params?.filterId, EquipmentType.FILTER],
+    [params?.kettleId, EquipmentType.KETTLE]
+  ];
+
+  for (const [equipmentId, type] of references) {
+    if (!equipmentId) continue;
+
+    const equipment = UUIDSchema.safeParse(equipmentId).success ? await EquipmentModel.findById(equipmentId) : null;
+    if (!equipment) {
+      throw createApiError.badRequest('Equipment not found');
+    }
+    if (equipment.type !== type) {
+      throw createApiError.badRequest('Equipment type does not match');
+    }
+  }
+};
+
+// A recipe brewed with a saved water profile must point at an existing profile
+const assertWaterProfileExists = async (waterProfileId: string | undefined): Promise<void> => {
+  if (waterProfileId && (!UUIDSchema.safeParse(waterProfileId).success || !(await WaterProfileModel.findById(waterProfileId)))) {
+    throw createApiError.badRequest('Water profile not found');
+  }
+};
+
+// Reference checks above surface as 400s instead of being wrapped as server errors
+const REFERENCE_ERRORS = ['Bean not found', 'Equipment not found', 'Equipment type does not match', 'Water profile not found'];
+
 /**
  * GET /api/recipes
- * Get all recipes with optional filtering and sorting
+ * Search the signed-in user's recipes with filtering, sorting and pagination
  */
-router.get('/', asyncHandler(async (req: Request, res: Response) => {
+router.get('/', validateQuery(SearchRequestQuerySchema), asyncHandler(async (req: Request, res: Response) => {
   try {
-    const recipes = await RecipeModel.findAll();
+    const searchRequest = req.query as unknown as SearchRequestSchemaType;
+    const { page, limit } = searchRequest.pagination;
+    const { recipes, total } = await RecipeModel.search(searchRequest, currentUserId(req));
+    const totalPages = Math.ceil(total / limit);
     
-    const response: RecipeListResponse = {
+    const response: PaginatedResponse<RecipeSummary> = {
       success: true,
-      data: recipes,
-      message: `Retrieved ${recipes.length} recipes`
+      data: recipes.map(recipe => RecipeModel.toSummary(recipe)),
+      message: `Retrieved ${recipes.length} of ${total} recipes`,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
     };
     
     res.json(response);
@@ -31,6 +120,127 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+/**
+ * GET /api/recipes/facets
+ * Get filter option counts and value ranges for the current filter set
+ */
+router.get('/facets', validateQuery(SearchRequestQuerySchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { filters } = req.query as unknown as SearchRequestSchemaType;
+    const facets = await RecipeModel.getFacets(filters ?? {}, currentUserId(req));
+    
+    const response: ApiResponse<SearchFacets> = {
+      success: true,
+      data: facets,
+      message: 'Facets retrieved successfully'
+    };
+    
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve facets');
+  }
+}));
+
+/**
+ * GET /api/recipes/search/text
+ * Full-text search across names, tasting notes, descriptors, bean brand and pour steps,
+ * ranked with highlighted snippets
+ */
+router.get('/search/text', validateQuery(TextSearchQuerySchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { q, limit } = req.query as unknown as TextSearchQuerySchemaType;
+    const results = await RecipeModel.textSearch(q, limit, currentUserId(req));
+    
+    const response: ApiResponse<TextSearchResult[]> = {
+      success: true,
+      data: results,
+      message: `Found ${results.length} matching recipes`
+    };
+    
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to search recipes');
+  }
+}));
+
+/**
+ * PATCH /api/recipes/bulk
+ * Apply the same changes to many recipes, selected by ID or by search filter.
+ * All or nothing: if any recipe cannot be updated, none are (422 with per-recipe results).
+ */
+router.patch('/bulk', validateBody(BulkRecipeUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const request = req.body as BulkRecipeUpdateSchemaType;
+    const { changes } = request;
+    const userId = currentUserId(req);
+
+    await assertBeanExists(changes.beanInfo?.beanId);
+    await assertEquipmentExists(changes.brewingParameters);
+    await assertWaterProfileExists(changes.brewingParameters?.waterProfileId);
+
+    const loadCollections = async (ids: string[] = []): Promise<Collection[]> => {
+      const collections = await Promise.all(ids.map(id => CollectionModel.findById(id)));
+      if (collections.some(collection => !collection)) {
+        throw createApiError.badRequest('Collection not found');
+      }
+      if (collections.some(collection => collection!.ownerId !== userId)) {
+        throw createApiError.forbidden('Only the owner can change a collection');
+      }
+      if (collections.some(collection => collection!.type === 'smart')) {
+        throw createApiError.badRequest('Recipes in a smart collection are chosen by its rule');
+      }
+      return collections as Collection[];
+    };
+    const collections = {
+      add: await loadCollections(changes.addToCollections),
+      remove: await loadCollections(changes.removeFromCollections)
+    };
+
+    const targets = await resolveBulkEditTargets(request, userId);
+    if (targets.total > BULK_EDIT_LIMIT) {
+      throw createApiError.badRequest(`Too many recipes match the filter (${targets.total}); narrow it to at most ${BULK_EDIT_LIMIT}`);
+    }
+
+    const result = await applyBulkRecipeUpdate(targets, changes, collections);
+
+    const response: ApiResponse<BulkRecipeUpdateResult> = result.applied
+      ? { success: true, data: result, message: `Updated ${result.updated} of ${result.matched} recipes` }
+      : { success: false, data: result, error: 'No recipes were changed because some could not be updated' };
+
+    res.status(result.applied ? 200 : 422).json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      REFERENCE_ERRORS.includes(error.message) ||
+      error.message === 'Collection not found' ||
+      error.message === 'Only the owner can change a collection' ||
+      error.message === 'Recipes in a smart collection are chosen by its rule' ||
+      error.message.startsWith('Too many recipes match')
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update recipes');
+  }
+}));
+
+/**
+ * POST /api/recipes/import
+ * Create recipes from spreadsheet rows the client has already mapped onto recipe fields.
+ * All or nothing: if any row is invalid or cannot be saved, no recipe is kept (422 with per-row results).
+ */
+router.post('/import', validateBody(RecipeImportRequestSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await importRecipes(req.body as RecipeImportRequestSchemaType, currentUserId(req));
+
+    const response: ApiResponse<RecipeImportResult> = result.applied
+      ? { success: true, data: result, message: `Imported ${result.created} recipe${result.created !== 1 ? 's' : ''}` }
+      : { success: false, data: result, error: 'No recipes were imported because some rows could not be saved' };
+
+    res.status(result.applied ? 201 : 422).json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to import recipes');
+  }
+}));
+
 /**
  * GET /api/recipes/:id
  * Get a specific recipe by ID
@@ -38,7 +248,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    const recipe = await RecipeModel.findById(id);
+    const recipe = await RecipeModel.findById(id, currentUserId(req));
     
     if (!recipe) {
       throw createApiError.notFound('Recipe not found');
@@ -231,9 +441,13 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
       });
     }
     
+    await assertBeanExists(transformedInput.beanInfo?.beanId);
+    await assertEquipmentExists(transformedInput.brewingParameters);
+    await assertWaterProfileExists(transformedInput.brewingParameters?.waterProfileId);
+    
     // Log the database creation step
     console.log('Creating recipe in database...');
-    const recipe = await RecipeModel.create(transformedInput as RecipeInput);
+    const recipe = await RecipeModel.create(transformedInput as RecipeInput, currentUserId(req));
     console.log('Recipe created successfully:', recipe.recipeId);
     
     const response: RecipeResponse = {
@@ -250,6 +464,10 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     console.error('Error message:', error instanceof Error ? error.message : String(error));
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
     
+    if (error instanceof Error && REFERENCE_ERRORS.includes(error.message)) {
+      throw error;
+    }
+    
     if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
       console.log('Throwing conflict error for duplicate recipe');
       throw createApiError.conflict('A recipe with this name already exists');
@@ -267,8 +485,8 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
 router.put('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    // Check if recipe exists
-    const existingRecipe = await RecipeModel.findById(id);
+    // Check if recipe exists (and belongs to the signed-in user)
+    const existingRecipe = await RecipeModel.findById(id, currentUserId(req));
     if (!existingRecipe) {
       throw createApiError.notFound('Recipe not found');
     }
@@ -427,6 +645,10 @@ router.put('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Res
       });
     }
     
+    await assertBeanExists(transformedInput.beanInfo?.beanId);
+    await assertEquipmentExists(transformedInput.brewingParameters);
+    await assertWaterProfileExists(transformedInput.brewingParameters?.waterProfileId);
+    
     // Update the recipe
     const updatedRecipe = await RecipeModel.update(id, transformedInput as RecipeInput);
     
@@ -443,7 +665,7 @@ router.put('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Res
     res.json(response);
   } catch (error) {
     if (error instanceof Error) {
-      if (error.message === 'Recipe not found' || error.message === 'Failed to update recipe') {
+      if (error.message === 'Recipe not found' || error.message === 'Failed to update recipe' || REFERENCE_ERRORS.includes(error.message)) {
         throw error;
       }
       if (error.message.includes('UNIQUE constraint')) {
@@ -461,8 +683,8 @@ router.put('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Res
 router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    // Check if recipe exists
-    const existingRecipe = await RecipeModel.findById(id);
+    // Check if recipe exists (and belongs to the signed-in user)
+    const existingRecipe = await RecipeModel.findById(id, currentUserId(req));
     if (!existingRecipe) {
       throw createApiError.notFound('Recipe not found');
     }
@@ -495,7 +717,8 @@ router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res:
 router.patch('/:id/favorite', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params as { id: string };
-    const recipe = await RecipeModel.toggleFavorite(id);
+    const existingRecipe = await RecipeModel.findById(id, currentUserId(req));
+    const recipe = existingRecipe && await RecipeModel.toggleFavorite(id);
     
     if (!recipe) {
       throw createApiError.notFound('Recipe not found');
@@ -516,13 +739,98 @@ router.patch('/:id/favorite', validateUUIDParam, asyncHandler(async (req: Reques
   }
 }));
 
+/**
+ * GET /api/recipes/:id/revisions
+ * Get the version history of a recipe, newest first
+ */
+router.get('/:id/revisions', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const recipe = await RecipeModel.findById(id, currentUserId(req));
+    if (!recipe) {
+      throw createApiError.notFound('Recipe not found');
+    }
+
+    const revisions = await RecipeRevisionModel.findByRecipeId(id);
+
+    const response: ApiResponse<RecipeRevision[]> = {
+      success: true,
+      data: revisions,
+      message: `Found ${revisions.length} revisions`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Recipe not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to fetch recipe revisions');
+  }
+}));
+
+/**
+ * POST /api/recipes/:id/revisions/:rev/restore
+ * Restore a recipe to an earlier revision (saved as a new revision)
+ */
+router.post('/:id/revisions/:rev/restore', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id, rev } = req.params as { id: string, rev: string };
+
+    // Validate recipe ID
+    const idValidation = UUIDSchema.safeParse(id);
+    if (!idValidation.success) {
+      throw createApiError.badRequest('Recipe ID must be a valid UUID');
+    }
+
+    // Validate revision number
+    const revisionNumber = Number(rev);
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      throw createApiError.badRequest('Revision must be a positive integer');
+    }
+
+    const recipe = await RecipeModel.findById(id, currentUserId(req));
+    if (!recipe) {
+      throw createApiError.notFound('Recipe not found');
+    }
+
+    const revision = await RecipeRevisionModel.findByNumber(id, revisionNumber);
+    if (!revision) {
+      throw createApiError.notFound('Revision not found');
+    }
+
+    const restoredRecipe = await RecipeModel.restoreRevision(id, revisionNumber);
+    if (!restoredRecipe) {
+      throw createApiError.internalServer('Failed to restore recipe revision');
+    }
+
+    const response: RecipeResponse = {
+      success: true,
+      data: restoredRecipe,
+      message: `Recipe restored to revision ${revisionNumber}`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Recipe not found' ||
+      error.message === 'Revision not found' ||
+      error.message === 'Recipe ID must be a valid UUID' ||
+      error.message === 'Revision must be a positive integer' ||
+      error.message === 'Failed to restore recipe revision'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to restore recipe revision');
+  }
+}));
+
 /**
  * GET /api/recipes/count
- * Get total count of recipes
+ * Get total count of the signed-in user's recipes
  */
 router.get('/stats/count', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const count = await RecipeModel.count();
+    const count = await RecipeModel.count(currentUserId(req));
     
     const response: ApiResponse<{ count: number }> = {
       success: true,
@@ -538,64 +846,13 @@ router.get('/stats/count', asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * GET /api/recipes/export/csv
- * Export all recipes as CSV
+ * Export all of the signed-in user's recipes as CSV
  */
 router.get('/export/csv', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const recipes = await RecipeModel.findAll();
-    
-    // Generate CSV headers
-    const headers = [
-      'Recipe Name', 'Date Created', 'Date Modified', 'Is Favorite', 'Collections',
-      'Origin', 'Processing Method', 'Altitude', 'Roasting Date', 'Roasting Level',
-      'Water Temperature', 'Brewing Method', 'Grinder Model', 'Grind Setting', 'Filter Tools',
-      'Coffee (g)', 'Water (g)', 'Ratio', 'TDS (%)', 'Extraction Yield (%)',
-      'Overall Rating', 'Acidity', 'Body', 'Sweetness', 'Flavor', 'Aftertaste', 'Balance', 'Tasting Notes'
-    ];
-    
-    // Generate CSV rows
-    const rows = recipes.map(recipe => [
-      recipe.recipeName,
-      recipe.dateCreated,
-      recipe.dateModified,
-      recipe.isFavorite ? 'Yes' : 'No',
-      recipe.collections.join('; '),
-      recipe.beanInfo.origin,
-      recipe.beanInfo.processingMethod,
-      recipe.beanInfo.altitude || '',
-      recipe.beanInfo.roastingDate || '',
-      recipe.beanInfo.roastingLevel || '',
-      recipe.brewingParameters.waterTemperature || '',
-      recipe.brewingParameters.brewingMethod || '',
-      recipe.brewingParameters.grinderModel,
-      recipe.brewingParameters.grinderUnit,
-      recipe.brewingParameters.filteringTools || '',
-      recipe.measurements.coffeeBeans,
-      recipe.measurements.water,
-      recipe.measurements.coffeeWaterRatio,
-      recipe.measurements.tds || '',
-      recipe.measurements.extractionYield || '',
-      recipe.sensationRecord.overallImpression,
-      recipe.sensationRecord.acidity || '',
-      recipe.sensationRecord.body || '',
-      recipe.sensationRecord.sweetness || '',
-      recipe.sensationRecord.flavor || '',
-      recipe.sensationRecord.aftertaste || '',
-      recipe.sensationRecord.balance || '',
-      recipe.sensationRecord.tastingNotes || ''
-    ]);
-    
-    // Convert to CSV format
-    const csvData = [headers, ...rows].map(row =>
-      row.map(cell => {
-        const str = String(cell || '');
-        // Escape quotes and wrap in quotes if contains comma, quote, or newline
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      }).join(',')
-    ).join('\n');
+    const recipes = await RecipeModel.findAll(currentUserId(req));
+    const columns = selectExportColumns();
+    const csvData = renderCsv(columns, buildExportRows(recipes, columns));
     
     // Set response headers for file download
     const timestamp = new Date().toISOString().split('T')[0];
@@ -613,134 +870,69 @@ router.get('/export/csv', asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * POST /api/recipes/export/filtered
- * Export filtered recipes based on criteria
+ * Export the recipes matching the given filters (or specific recipe IDs) as CSV, Excel or JSON
  */
-router.post('/export/filtered', asyncHandler(async (req: Request, res: Response) => {
+router.post('/export/filtered', validateBody(FilteredExportRequestSchema), asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { 
-      format = 'csv',
-      filters = {},
-      recipeIds = [],
-      includeFullDetails = true 
-    } = req.body;
-    
-    let recipes;
-    
-    // If specific recipe IDs provided, fetch those
+    const {
+      format,
+      filters,
+      recipeIds,
+      includeFullDetails,
+      includeFields,
+      excludeFields,
+      formatOptions
+    } = req.body as FilteredExportRequestSchemaType;
+
+    const userId = currentUserId(req);
+    let recipes: Recipe[];
+
+    // If specific recipe IDs provided, fetch those; otherwise apply the filters
     if (recipeIds.length > 0) {
       recipes = [];
       for (const id of recipeIds) {
-        const recipe = await RecipeModel.findById(id);
+        const recipe = await RecipeModel.findById(id, userId);
         if (recipe) {
           recipes.push(recipe);
         }
       }
     } else {
-      // Otherwise get all recipes (could add filtering logic here)
-      recipes = await RecipeModel.findAll();
-    }
-    
-    if (format === 'json') {
-      const exportData = {
-        exportDate: new Date().toISOString(),
-        exportVersion: '1.0',
-        totalRecipes: recipes.length,
-        recipes: includeFullDetails ? recipes : recipes.map(r => ({
-          recipeId: r.recipeId,
-          recipeName: r.recipeName,
-          dateCreated: r.dateCreated,
-          dateModified: r.dateModified,
-          isFavorite: r.isFavorite,
-          origin: r.beanInfo.origin,
-          brewingMethod: r.brewingParameters.brewingMethod,
-          overallImpression: r.sensationRecord.overallImpression,
-          coffeeWaterRatio: r.measurements.coffeeWaterRatio,
-          collections: r.collections
-        }))
-      };
-      
-      const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `coffee_recipes_${timestamp}.json`;
-      
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Cache-Control', 'no-cache');
-      
-      res.json(exportData);
-    } else {
-      // Default to CSV format
-      const headers = includeFullDetails ? [
-        'Recipe Name', 'Date Created', 'Date Modified', 'Is Favorite', 'Collections',
-        'Origin', 'Processing Method', 'Altitude', 'Roasting Date', 'Roasting Level',
-        'Water Temperature', 'Brewing Method', 'Grinder Model', 'Grind Setting', 'Filter Tools',
-        'Coffee (g)', 'Water (g)', 'Ratio', 'TDS (%)', 'Extraction Yield (%)',
-        'Overall Rating', 'Acidity', 'Body', 'Sweetness', 'Flavor', 'Aftertaste', 'Balance', 'Tasting Notes'
-      ] : [
-        'Recipe Name', 'Date Created', 'Date Modified', 'Is Favorite', 'Origin',
-        'Brewing Method', 'Overall Rating', 'Coffee Ratio', 'Collections'
-      ];
-      
-      const rows = recipes.map(recipe => includeFullDetails ? [
-        recipe.recipeName,
-        recipe.dateCreated,
-        recipe.dateModified,
-        recipe.isFavorite ? 'Yes' : 'No',
-        recipe.collections.join('; '),
-        recipe.beanInfo.origin,
-        recipe.beanInfo.processingMethod,
-        recipe.beanInfo.altitude || '',
-        recipe.beanInfo.roastingDate || '',
-        recipe.beanInfo.roastingLevel || '',
-        recipe.brewingParameters.waterTemperature || '',
-        recipe.brewingParameters.brewingMethod || '',
-        recipe.brewingParameters.grinderModel,
-        recipe.brewingParameters.grinderUnit,
-        recipe.brewingParameters.filteringTools || '',
-        recipe.measurements.coffeeBeans,
-        recipe.measurements.water,
-        recipe.measurements.coffeeWaterRatio,
-        recipe.measurements.tds || '',
-        recipe.measurements.extractionYield || '',
-        recipe.sensationRecord.overallImpression,
-        recipe.sensationRecord.acidity || '',
-        recipe.sensationRecord.body || '',
-        recipe.sensationRecord.sweetness || '',
-        recipe.sensationRecord.flavor || '',
-        recipe.sensationRecord.aftertaste || '',
-        recipe.sensationRecord.balance || '',
-        recipe.sensationRecord.tastingNotes || ''
-      ] : [
-        recipe.recipeName,
-        recipe.dateCreated,
-        recipe.dateModified,
-        recipe.isFavorite ? 'Yes' : 'No',
-        recipe.beanInfo.origin,
-        recipe.brewingParameters.brewingMethod || '',
-        recipe.sensationRecord.overallImpression,
-        recipe.measurements.coffeeWaterRatio,
-        recipe.collections.join('; ')
-      ]);
-      
-      const csvData = [headers, ...rows].map(row =>
-        row.map(cell => {
-          const str = String(cell || '');
-          if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-            return `"${str.replace(/"/g, '""')}"`;
-          }
-          return str;
-        }).join(',')
-      ).join('\n');
-      
-      const timestamp = new Date().toISOString().split('T')[0];
-      const suffix = recipes.length === 1 ? 'recipe' : `${recipes.length}_recipes`;
-      const filename = `coffee_${suffix}_${timestamp}.csv`;
-      
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Cache-Control', 'no-cache');
-      
-      res.send(csvData);
+      recipes = await loadFilteredRecipes(filters, undefined, userId);
     }
+
+    const fields = includeFields ?? (includeFullDetails ? undefined : SUMMARY_EXPORT_FIELDS);
+    const columns = selectExportColumns(fields, excludeFields);
+    const rows = buildExportRows(recipes, columns);
+    const hasFieldSelection = !!(fields?.length || excludeFields?.length);
+
+    const filterSummary = recipeIds.length > 0
+      ? `Selected recipes: ${recipeIds.length}`
+      : describeExportFilters(filters);
+    const metadata: ExportMetadata = {
+      'Exported At': new Date().toISOString(),
+      'Filters': filterSummary,
+      'Total Recipes': recipes.length
+    };
+
+    const content = format === ExportFormat.EXCEL
+      ? renderExcel(columns, rows, recipes, formatOptions, metadata)
+      : format === ExportFormat.JSON
+        ? renderJson(recipes, hasFieldSelection ? columns : undefined, {
+          filters: recipeIds.length > 0 ? undefined : filters,
+          recipeIds: recipeIds.length > 0 ? recipeIds : undefined,
+          filterSummary
+        })
+        : renderCsv(columns, rows, formatOptions, metadata);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const suffix = recipes.length === 1 ? 'recipe' : `${recipes.length}_recipes`;
+    const filename = `coffee_${suffix}_${timestamp}.${EXPORT_FILE_EXTENSIONS[format as ExportFormat]}`;
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-cache');
+
+    res.send(content);
   } catch (error) {
     throw createApiError.internalServer('Failed to export filtered recipes');
   }
@@ -0,0 +1,192 @@
+import { Router, Request, Response } from 'express';
+import { SavedSearchModel } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError } from '../middleware/index.js';
+import { 
+  SavedSearchInputSchema,
+  SavedSearchUpdateSchema,
+  type ApiResponse,
+  type SavedSearch,
+  type SavedSearchInput,
+  type SavedSearchUpdate
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/saved-searches
+ * Get all saved searches, most recently used first
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const savedSearches = await SavedSearchModel.findAll();
+    
+    const response: ApiResponse<SavedSearch[]> = {
+      success: true,
+      data: savedSearches,
+      message: `Retrieved ${savedSearches.length} saved searches`
+    };
+    
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve saved searches');
+  }
+}));
+
+/**
+ * GET /api/saved-searches/:id
+ * Get a specific saved search by ID
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const savedSearch = await SavedSearchModel.findById(id);
+    
+    if (!savedSearch) {
+      throw createApiError.notFound('Saved search not found');
+    }
+    
+    const response: ApiResponse<SavedSearch> = {
+      success: true,
+      data: savedSearch,
+      message: 'Saved search retrieved successfully'
+    };
+    
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Saved search not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve saved search');
+  }
+}));
+
+/**
+ * POST /api/saved-searches
+ * Save the current filters and sort under a name
+ */
+router.post('/', validateBody(SavedSearchInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const input = req.body as SavedSearchInput;
+    
+    if (await SavedSearchModel.nameExists(input.name)) {
+      throw createApiError.conflict('A saved search with this name already exists');
+    }
+    
+    const savedSearch = await SavedSearchModel.create(input);
+    
+    const response: ApiResponse<SavedSearch> = {
+      success: true,
+      data: savedSearch,
+      message: 'Saved search created successfully'
+    };
+    
+    res.status(201).json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'A saved search with this name already exists') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to create saved search');
+  }
+}));
+
+/**
+ * PUT /api/saved-searches/:id
+ * Rename a saved search or replace its filters/sort
+ */
+router.put('/:id', validateUUIDParam, validateBody(SavedSearchUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const updates = req.body as SavedSearchUpdate;
+    
+    const existing = await SavedSearchModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Saved search not found');
+    }
+    
+    if (updates.name && updates.name !== existing.name && await SavedSearchModel.nameExists(updates.name, id)) {
+      throw createApiError.conflict('A saved search with this name already exists');
+    }
+    
+    const savedSearch = await SavedSearchModel.update(id, updates);
+    
+    if (!savedSearch) {
+      throw createApiError.internalServer('Failed to update saved search');
+    }
+    
+    const response: ApiResponse<SavedSearch> = {
+      success: true,
+      data: savedSearch,
+      message: 'Saved search updated successfully'
+    };
+    
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Saved search not found' ||
+      error.message === 'A saved search with this name already exists' ||
+      error.message === 'Failed to update saved search'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update saved search');
+  }
+}));
+
+/**
+ * PATCH /api/saved-searches/:id/use
+ * Record that a saved search was applied (updates lastUsed)
+ */
+router.patch('/:id/use', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const savedSearch = await SavedSearchModel.markUsed(id);
+    
+    if (!savedSearch) {
+      throw createApiError.notFound('Saved search not found');
+    }
+    
+    const response: ApiResponse<SavedSearch> = {
+      success: true,
+      data: savedSearch,
+      message: 'Saved search usage recorded'
+    };
+    
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Saved search not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update saved search');
+  }
+}));
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    
+    const existing = await SavedSearchModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Saved search not found');
+    }
+    
+    await SavedSearchModel.delete(id);
+    
+    const response: ApiResponse = {
+      success: true,
+      message: 'Saved search deleted successfully'
+    };
+    
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Saved search not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to delete saved search');
+  }
+}));
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router, Request, Response } from 'express';
+import { RecipeModel, BrewSessionModel } from '../database/index.js';
+import { validateBody, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import {
+  BrewSessionInputSchema,
+  BrewSessionUpdateSchema,
+  UUIDSchema,
+  type ApiResponse,
+  type BrewSession,
+  type BrewSessionInput,
+  type BrewSessionList,
+  type BrewSessionUpdate
+} from '../shared/index.js';
+
+// Mounted under /api/recipes/:id/sessions, so the recipe ID comes from the parent path
+const router = Router({ mergeParams: true });
+
+const KNOWN_ERRORS = [
+  'Recipe not found',
+  'Session not found',
+  'Recipe ID must be a valid UUID',
+  'Session ID must be a valid UUID'
+];
+
+const isKnownError = (error: unknown): boolean => {
+  return error instanceof Error && KNOWN_ERRORS.includes(error.message);
+};
+
+// Validate the path IDs and make sure the recipe exists and belongs to the signed-in user
+const resolveRecipeId = async (req: Request): Promise<string> => {
+  const { id, sessionId } = req.params as { id: string, sessionId?: string };
+
+  if (!UUIDSchema.safeParse(id).success) {
+    throw createApiError.badRequest('Recipe ID must be a valid UUID');
+  }
+  if (sessionId !== undefined && !UUIDSchema.safeParse(sessionId).success) {
+    throw createApiError.badRequest('Session ID must be a valid UUID');
+  }
+
+  const recipe = await RecipeModel.findById(id, currentUserId(req));
+  if (!recipe) {
+    throw createApiError.notFound('Recipe not found');
+  }
+
+  return id;
+};
+
+/**
+ * GET /api/recipes/:id/sessions
+ * Get all brew sessions of a recipe (most recent first) with averaged scores
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const recipeId = await resolveRecipeId(req);
+    const list = await BrewSessionModel.listWithStats(recipeId);
+
+    const response: ApiResponse<BrewSessionList> = {
+      success: true,
+      data: list,
+      message: `Found ${list.sessions.length} brew sessions`
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to fetch brew sessions');
+  }
+}));
+
+/**
+ * GET /api/recipes/:id/sessions/:sessionId
+ * Get a specific brew session
+ */
+router.get('/:sessionId', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const recipeId = await resolveRecipeId(req);
+    const session = await BrewSessionModel.findById(recipeId, req.params.sessionId!);
+
+    if (!session) {
+      throw createApiError.notFound('Session not found');
+    }
+
+    const response: ApiResponse<BrewSession> = {
+      success: true,
+      data: session,
+      message: 'Brew session retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to fetch brew session');
+  }
+}));
+
+/**
+ * POST /api/recipes/:id/sessions
+ * Log a new brew of the recipe
+ */
+router.post('/', validateBody(BrewSessionInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const recipeId = await resolveRecipeId(req);
+    const session = await BrewSessionModel.create(recipeId, req.body as BrewSessionInput);
+
+    const response: ApiResponse<BrewSession> = {
+      success: true,
+      data: session,
+      message: 'Brew session logged successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to log brew session');
+  }
+}));
+
+/**
+ * PUT /api/recipes/:id/sessions/:sessionId
+ * Update a brew session
+ */
+router.put('/:sessionId', validateBody(BrewSessionUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const recipeId = await resolveRecipeId(req);
+    const session = await BrewSessionModel.update(recipeId, req.params.sessionId!, req.body as BrewSessionUpdate);
+
+    if (!session) {
+      throw createApiError.notFound('Session not found');
+    }
+
+    const response: ApiResponse<BrewSession> = {
+      success: true,
+      data: session,
+      message: 'Brew session updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update brew session');
+  }
+}));
+
+/**
+ * DELETE /api/recipes/:id/sessions/:sessionId
+ * Delete a brew session
+ */
+router.delete('/:sessionId', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const recipeId = await resolveRecipeId(req);
+    const deleted = await BrewSessionModel.delete(recipeId, req.params.sessionId!);
+
+    if (!deleted) {
+      throw createApiError.notFound('Session not found');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Brew session deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to delete brew session');
+  }
+}));
+
+export default router;
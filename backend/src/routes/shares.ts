@@ -0,0 +1,199 @@
+import { Router, Request, Response } from 'express';
+import { ShareModel, RecipeModel, CollectionModel, UserModel, type ShareRecord } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError, currentUserId, requireAuth } from '../middleware/index.js';
+import {
+  ShareInputSchema,
+  UUIDSchema,
+  redactSharedRecipe,
+  type ApiResponse,
+  type Share,
+  type SharedContent,
+  type ShareInputSchemaType
+} from '../shared/index.js';
+
+const router = Router();
+
+const SHARE_NOT_FOUND_ERROR = 'Share not found';
+const SHARE_REVOKED_ERROR = 'This share link has been revoked';
+const SHARE_EXPIRED_ERROR = 'This share link has expired';
+
+// Load the shared recipe or collection as the public may see it; null when it was deleted
+const loadSharedContent = async (share: ShareRecord): Promise<SharedContent | null> => {
+  const owner = await UserModel.findById(share.ownerId);
+  const content: SharedContent = {
+    targetType: share.targetType,
+    sharedBy: owner?.displayName || owner?.username || 'A coffee lover',
+    sharedAt: share.dateCreated,
+    expiresAt: share.expiresAt,
+    customMessage: share.options.customMessage
+  };
+
+  if (share.targetType === 'recipe') {
+    const recipe = await RecipeModel.findById(share.targetId, share.ownerId);
+    if (!recipe) return null;
+    return { ...content, recipe: redactSharedRecipe(recipe, share.options) };
+  }
+
+  const collection = await CollectionModel.findById(share.targetId);
+  if (!collection || collection.ownerId !== share.ownerId) return null;
+
+  // Only the owner's own recipes go out with the collection
+  const memberIds = new Set(collection.recipeIds);
+  const recipes = (await RecipeModel.findAll(share.ownerId)).filter(recipe => memberIds.has(recipe.recipeId));
+
+  return {
+    ...content,
+    collection: {
+      name: collection.name,
+      description: collection.description,
+      color: collection.color,
+      recipes: recipes.map(recipe => redactSharedRecipe(recipe, share.options))
+    }
+  };
+};
+
+/**
+ * POST /api/shares
+ * Create a share link for one of the signed-in user's recipes or collections
+ */
+router.post('/', requireAuth, validateBody(ShareInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const input = req.body as ShareInputSchemaType;
+    const userId = currentUserId(req);
+
+    let targetName: string;
+    if (input.targetType === 'recipe') {
+      const recipe = await RecipeModel.findById(input.targetId, userId);
+      if (!recipe) {
+        throw createApiError.notFound('Recipe not found');
+      }
+      targetName = recipe.recipeName;
+    } else {
+      const collection = await CollectionModel.findById(input.targetId);
+      if (!collection || collection.ownerId !== userId) {
+        throw createApiError.notFound('Collection not found');
+      }
+      targetName = collection.name;
+    }
+
+    const share = await ShareModel.create({
+      ownerId: userId,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      targetName,
+      options: input.options,
+      expiresInDays: input.expiresInDays
+    });
+
+    const response: ApiResponse<Share> = {
+      success: true,
+      data: ShareModel.toPublic(share),
+      message: 'Share link created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    if (error instanceof Error && ['Recipe not found', 'Collection not found'].includes(error.message)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to create share link');
+  }
+}));
+
+/**
+ * GET /api/shares
+ * Get the signed-in user's share links, newest first (optional ?targetId= for one recipe or collection)
+ */
+router.get('/', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { targetId } = req.query;
+  if (targetId !== undefined && !UUIDSchema.safeParse(targetId).success) {
+    throw createApiError.badRequest('targetId must be a valid UUID');
+  }
+
+  try {
+    const shares = await ShareModel.findByOwner(currentUserId(req), targetId as string | undefined);
+
+    const response: ApiResponse<Share[]> = {
+      success: true,
+      data: shares.map(share => ShareModel.toPublic(share)),
+      message: `Retrieved ${shares.length} share links`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve share links');
+  }
+}));
+
+/**
+ * POST /api/shares/:id/revoke
+ * Revoke a share link; its URL stops working immediately
+ */
+router.post('/:id/revoke', requireAuth, validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const existing = await ShareModel.findById(id);
+
+    if (!existing || existing.ownerId !== currentUserId(req)) {
+      throw createApiError.notFound(SHARE_NOT_FOUND_ERROR);
+    }
+
+    const share = existing.revokedAt ? existing : await ShareModel.revoke(id);
+
+    const response: ApiResponse<Share> = {
+      success: true,
+      data: ShareModel.toPublic(share!),
+      message: 'Share link revoked successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === SHARE_NOT_FOUND_ERROR) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to revoke share link');
+  }
+}));
+
+/**
+ * GET /api/shares/:token
+ * Public, read-only view of a shared recipe or collection
+ */
+router.get('/:token', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params as { token: string };
+    const share = await ShareModel.findByToken(token);
+
+    if (!share) {
+      throw createApiError.notFound(SHARE_NOT_FOUND_ERROR);
+    }
+    if (share.status === 'revoked') {
+      throw createApiError.gone(SHARE_REVOKED_ERROR);
+    }
+    if (share.status === 'expired') {
+      throw createApiError.gone(SHARE_EXPIRED_ERROR);
+    }
+
+    const content = await loadSharedContent(share);
+    if (!content) {
+      throw createApiError.notFound(SHARE_NOT_FOUND_ERROR);
+    }
+
+    await ShareModel.recordView(share);
+
+    const response: ApiResponse<SharedContent> = {
+      success: true,
+      data: content,
+      message: 'Shared content retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && [SHARE_NOT_FOUND_ERROR, SHARE_REVOKED_ERROR, SHARE_EXPIRED_ERROR].includes(error.message)) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve shared content');
+  }
+}));
+
+export default router;
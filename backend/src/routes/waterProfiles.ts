@@ -0,0 +1,198 @@
+import { Router, Request, Response } from 'express';
+import { WaterProfileModel } from '../database/index.js';
+import { validateBody, validateUUIDParam, asyncHandler, createApiError, currentUserId } from '../middleware/index.js';
+import {
+  WaterProfileInputSchema,
+  WaterProfileUpdateSchema,
+  type ApiResponse,
+  type WaterProfile,
+  type WaterProfileInput,
+  type WaterProfileStats,
+  type WaterProfileUpdate
+} from '../shared/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/water-profiles
+ * Get all water profiles by name
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const profiles = await WaterProfileModel.findAll();
+
+    const response: ApiResponse<WaterProfile[]> = {
+      success: true,
+      data: profiles,
+      message: `Retrieved ${profiles.length} water profiles`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve water profiles');
+  }
+}));
+
+/**
+ * GET /api/water-profiles/stats
+ * Compare how the signed-in user's recipes scored with each water profile, overall and per origin
+ */
+router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const stats = await WaterProfileModel.getStats(currentUserId(req));
+
+    const response: ApiResponse<WaterProfileStats[]> = {
+      success: true,
+      data: stats,
+      message: `Retrieved stats for ${stats.length} water profiles`
+    };
+
+    res.json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to retrieve water profile stats');
+  }
+}));
+
+/**
+ * GET /api/water-profiles/:id
+ * Get a specific water profile by ID
+ */
+router.get('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const profile = await WaterProfileModel.findById(id);
+
+    if (!profile) {
+      throw createApiError.notFound('Water profile not found');
+    }
+
+    const response: ApiResponse<WaterProfile> = {
+      success: true,
+      data: profile,
+      message: 'Water profile retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Water profile not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve water profile');
+  }
+}));
+
+/**
+ * GET /api/water-profiles/:id/stats
+ * Get how the signed-in user's recipes brewed with one water profile scored, overall and per origin
+ */
+router.get('/:id/stats', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    const [stats] = await WaterProfileModel.getStats(currentUserId(req), id);
+
+    if (!stats) {
+      throw createApiError.notFound('Water profile not found');
+    }
+
+    const response: ApiResponse<WaterProfileStats> = {
+      success: true,
+      data: stats,
+      message: 'Water profile stats retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Water profile not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to retrieve water profile stats');
+  }
+}));
+
+/**
+ * POST /api/water-profiles
+ * Create a water profile from measured minerals or a concentrate mix
+ */
+router.post('/', validateBody(WaterProfileInputSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const profile = await WaterProfileModel.create(req.body as WaterProfileInput);
+
+    const response: ApiResponse<WaterProfile> = {
+      success: true,
+      data: profile,
+      message: 'Water profile created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    throw createApiError.internalServer('Failed to create water profile');
+  }
+}));
+
+/**
+ * PUT /api/water-profiles/:id
+ * Update a water profile (a new mix recalculates the minerals)
+ */
+router.put('/:id', validateUUIDParam, validateBody(WaterProfileUpdateSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+
+    const existing = await WaterProfileModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Water profile not found');
+    }
+
+    const profile = await WaterProfileModel.update(id, req.body as WaterProfileUpdate);
+
+    if (!profile) {
+      throw createApiError.internalServer('Failed to update water profile');
+    }
+
+    const response: ApiResponse<WaterProfile> = {
+      success: true,
+      data: profile,
+      message: 'Water profile updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Water profile not found' ||
+      error.message === 'Failed to update water profile'
+    )) {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to update water profile');
+  }
+}));
+
+/**
+ * DELETE /api/water-profiles/:id
+ * Delete a water profile (recipes brewed with it keep everything but the link)
+ */
+router.delete('/:id', validateUUIDParam, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+
+    const existing = await WaterProfileModel.findById(id);
+    if (!existing) {
+      throw createApiError.notFound('Water profile not found');
+    }
+
+    await WaterProfileModel.delete(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Water profile deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Water profile not found') {
+      throw error;
+    }
+    throw createApiError.internalServer('Failed to delete water profile');
+  }
+}));
+
+export default router;
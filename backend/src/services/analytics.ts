@@ -0,0 +1,23 @@
+// Score analytics over all of an account's recipes and brew sessions.
+// Every scored tasting is one observation, so recipes brewed often weigh more.
+
+import { BrewSessionModel, EquipmentModel, RecipeModel } from '../database/index.js';
+import {
+  EquipmentType,
+  calculateScoreAnalytics,
+  collectScoreObservations,
+  type ScoreAnalytics
+} from '../shared/index.js';
+
+/**
+ * Correlate brewing variables with scores across the owner's recipes and their sessions
+ */
+export const getScoreAnalytics = async (ownerId: string): Promise<ScoreAnalytics> => {
+  const recipes = await RecipeModel.findAll(ownerId);
+  const [sessions, grinders] = await Promise.all([
+    BrewSessionModel.findByRecipeIds(recipes.map(recipe => recipe.recipeId)),
+    EquipmentModel.findAll({ type: EquipmentType.GRINDER, includeArchived: true })
+  ]);
+
+  return calculateScoreAnalytics(collectScoreObservations(recipes, sessions, grinders));
+};
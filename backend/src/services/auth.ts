@@ -0,0 +1,185 @@
+// Authentication: password hashing, signed session tokens (HS256 JWTs) and sign-in providers
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { UserModel, type UserRecord } from '../database/index.js';
+import type { AuthProviderName, AuthSession, LoginCredentials } from '../shared/index.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const HASH_KEY_LENGTH = 64;
+
+// How long a session token stays valid
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 24 * 7;
+
+// How long a download token stays valid; one is issued right before the browser follows the link
+const DOWNLOAD_TOKEN_TTL_SECONDS = 5 * 60;
+
+/**
+ * Hash a password for storage as "scrypt$<salt>$<hash>" (base64)
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, HASH_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+let generatedSecret: string | null = null;
+
+// Tokens are signed with JWT_SECRET. Outside production a random secret is generated,
+// so sessions end when the server restarts.
+const getTokenSecret = (): string => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('❌ Missing JWT_SECRET environment variable');
+  }
+  if (!generatedSecret) {
+    console.warn('⚠️ JWT_SECRET is not set; using a random secret, so sessions end when the server restarts');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+};
+
+const TOKEN_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+const sign = (content: string): Buffer => createHmac('sha256', getTokenSecret()).update(content).digest();
+
+interface SessionClaims {
+  sub: string; // User ID
+  iat: number; // Issued at (seconds)
+  exp: number; // Expires at (seconds)
+  scope?: string; // Download tokens only: the one path they open
+}
+
+const signClaims = (claims: SessionClaims): string => {
+  const content = `${TOKEN_HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${content}.${sign(content).toString('base64url')}`;
+};
+
+// Claims of a well-formed, untampered and unexpired token
+const readClaims = (token: string, now: Date): SessionClaims | null => {
+  const [header, payload, signature] = token.split('.');
+  if (header !== TOKEN_HEADER || !payload || !signature) {
+    return null;
+  }
+
+  const expected = sign(`${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Issue a session token for a user
+ */
+export const signSessionToken = (userId: string, now: Date = new Date()): { token: string; expiresAt: string } => {
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  const claims: SessionClaims = { sub: userId, iat: issuedAt, exp: issuedAt + SESSION_TTL_HOURS * 3600 };
+
+  return {
+    token: signClaims(claims),
+    expiresAt: new Date(claims.exp * 1000).toISOString()
+  };
+};
+
+/**
+ * Verify a session token; null when it is malformed, tampered with, expired or a download token
+ */
+export const verifySessionToken = (token: string, now: Date = new Date()): SessionClaims | null => {
+  const claims = readClaims(token, now);
+  return claims && claims.scope === undefined ? claims : null;
+};
+
+/**
+ * Issue a short-lived token that opens a single path, for links that cannot send
+ * the Authorization header (file downloads)
+ */
+export const signDownloadToken = (userId: string, path: string, now: Date = new Date()): { token: string; expiresAt: string } => {
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  const claims: SessionClaims = { sub: userId, iat: issuedAt, exp: issuedAt + DOWNLOAD_TOKEN_TTL_SECONDS, scope: path };
+
+  return {
+    token: signClaims(claims),
+    expiresAt: new Date(claims.exp * 1000).toISOString()
+  };
+};
+
+/**
+ * Verify a download token for the requested path; null when it was issued for
+ * another path, is a session token, or is otherwise invalid
+ */
+export const verifyDownloadToken = (token: string, path: string, now: Date = new Date()): SessionClaims | null => {
+  const claims = readClaims(token, now);
+  return claims?.scope === path ? claims : null;
+};
+
+/**
+ * Start a session for an authenticated user
+ */
+export const createSession = (user: UserRecord): AuthSession => {
+  return { ...signSessionToken(user.userId), user: UserModel.toPublic(user) };
+};
+
+/**
+ * A way to sign in. The local provider checks a username and password; an OIDC
+ * provider would exchange an authorization code and find or create the account
+ * by its subject (UserModel.findByExternalId).
+ */
+export interface AuthProvider<Credentials = unknown> {
+  name: AuthProviderName;
+  authenticate(credentials: Credentials): Promise<UserRecord | null>;
+}
+
+const providers = new Map<AuthProviderName, AuthProvider<any>>();
+
+export const registerAuthProvider = <Credentials>(provider: AuthProvider<Credentials>): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getAuthProvider = <Credentials>(name: AuthProviderName): AuthProvider<Credentials> | undefined => {
+  return providers.get(name);
+};
+
+// Username and password accounts stored in the users table
+export const localAuthProvider: AuthProvider<LoginCredentials> = {
+  name: 'local',
+  async authenticate({ username, password }) {
+    const user = await UserModel.findByUsername(username);
+    if (!user || user.authProvider !== 'local' || !user.passwordHash) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await hashPassword(password);
+      return null;
+    }
+
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+};
+
+registerAuthProvider(localAuthProvider);
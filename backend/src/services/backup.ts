@@ -0,0 +1,576 @@
+// Server-side backup and restore of one account: recipes with their brew sessions, revisions
+// and experiments, collections and memberships, and the beans, equipment, water profiles and
+// saved searches every account shares. Records keep their IDs and dates, so restoring a backup
+// reproduces the data as it was.
+
+import type { ZodTypeAny } from 'zod';
+import { BackupModel, type BackupReferenceTable, type BackupTable } from '../database/index.js';
+import type { Row } from '../database/repositories/index.js';
+import {
+  BACKUP_VERSION,
+  BeanInputSchema,
+  BrewSessionInputSchema,
+  EquipmentInputSchema,
+  SavedSearchInputSchema,
+  WaterProfileInputSchema,
+  migrateBackup,
+  recipeToInput,
+  validateImportedRecipe,
+  type BackupCollection,
+  type BackupData,
+  type BackupDataSchemaType,
+  type BackupExperiment,
+  type BackupMembership,
+  type BackupRecipe,
+  type BackupRestoreOptions,
+  type RestoreCounts,
+  type RestoreItemReport,
+  type RestoreItemType,
+  type RestoreReport
+} from '../shared/index.js';
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : 'Unknown error';
+
+// Registry links a restored recipe may carry; links to records that do not exist are dropped
+const RECIPE_REFERENCES: Array<[BackupReferenceTable, string, 'beanInfo' | 'brewingParameters', string]> = [
+  ['beans', 'bean', 'beanInfo', 'beanId'],
+  ['equipment', 'grinder', 'brewingParameters', 'grinderId'],
+  ['equipment', 'brewer', 'brewingParameters', 'brewerId'],
+  ['equipment', 'filter', 'brewingParameters', 'filterId'],
+  ['equipment', 'kettle', 'brewingParameters', 'kettleId'],
+  ['water_profiles', 'water profile', 'brewingParameters', 'waterProfileId']
+];
+
+// The section of a recipe holding one of its registry links
+const referenceSection = (recipe: BackupRecipe, section: 'beanInfo' | 'brewingParameters'): Record<string, unknown> =>
+  recipe[section] as unknown as Record<string, unknown>;
+
+interface PlannedWrite {
+  id: string;
+  action: 'create' | 'overwrite';
+  row: Row;
+  previous?: Row; // Row being overwritten, written back on rollback
+}
+
+interface TablePlan {
+  items: RestoreItemReport[];
+  writes: PlannedWrite[];
+  available: Set<string>; // IDs the owner has after the restore (written or kept)
+}
+
+// Whose an existing record is: the account's, the account's through its recipe, or every account's
+type RecordOwner = 'account' | 'recipe' | 'shared';
+
+// How the records of one of the other tables are restored
+interface RecordSpec<T> {
+  table: BackupTable;
+  type: RestoreItemType;
+  owner: RecordOwner;
+  include: boolean;
+  idOf: (record: T) => string;
+  nameOf: (record: T) => string;
+  check: (record: T) => string | undefined; // Why the record cannot be restored, if it cannot
+  toRow: (record: T) => Row;
+}
+
+const isSmartCollection = (collection: BackupCollection): boolean => collection.type === 'smart' || !!collection.rule;
+
+// Messages of a failed schema check, or undefined when the value passes
+const schemaIssues = (schema: ZodTypeAny, value: unknown): string | undefined => {
+  const result = schema.safeParse(value);
+  return result.success ? undefined : result.error.errors.map(issue => issue.message).join(', ');
+};
+
+/**
+ * Dump an owner's recipes (every evaluation system and blind experiment variants included)
+ * with their brew sessions, revisions and experiments, collections and manual memberships,
+ * and the beans, equipment, water profiles and saved searches
+ */
+export const createBackup = async (ownerId: string): Promise<BackupData> => {
+  const data = await BackupModel.load(ownerId);
+
+  return {
+    version: BACKUP_VERSION,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      totalRecipes: data.recipes.length,
+      totalCollections: data.collections.length,
+      totalMemberships: data.memberships.length,
+      appVersion: '1.0.0',
+      exportedBy: 'Coffee Recipe Tracker'
+    },
+    ...data
+  };
+};
+
+// Which existing rows the owner may overwrite
+const ownership = async (owner: RecordOwner, rows: Row[], ownerId: string): Promise<(row: Row) => boolean> => {
+  if (owner === 'shared') {
+    return () => true;
+  }
+  if (owner === 'account') {
+    return row => row.owner_id === ownerId;
+  }
+  const owned = await BackupModel.findOwnedRecipeIds([...new Set(rows.map(row => row.recipe_id as string))], ownerId);
+  return row => owned.has(row.recipe_id);
+};
+
+const planRecords = async <T>(
+  records: T[],
+  spec: RecordSpec<T>,
+  options: BackupRestoreOptions,
+  ownerId: string
+): Promise<TablePlan> => {
+  const existing = await BackupModel.findRows(spec.table, records.map(spec.idOf));
+  const owns = await ownership(spec.owner, [...existing.values()], ownerId);
+  const plan: TablePlan = { items: [], writes: [], available: new Set() };
+  existing.forEach((row, id) => {
+    if (owns(row)) plan.available.add(id);
+  });
+  if (!spec.include) {
+    return plan;
+  }
+
+  const seen = new Set<string>();
+  for (const record of records) {
+    const id = spec.idOf(record);
+    const item: RestoreItemReport = { type: spec.type, id, name: spec.nameOf(record), action: 'create' };
+    plan.items.push(item);
+    const current = existing.get(id);
+
+    if (seen.has(id)) {
+      Object.assign(item, { action: 'reject', reason: 'Appears more than once in the backup' });
+      continue;
+    }
+    seen.add(id);
+
+    const reason = spec.check(record);
+    if (reason) {
+      Object.assign(item, { action: 'reject', reason });
+      continue;
+    }
+    if (current && !owns(current)) {
+      Object.assign(item, { action: 'reject', reason: 'Belongs to another account' });
+      continue;
+    }
+    if (current && !options.overwriteExisting) {
+      Object.assign(item, { action: 'skip', reason: 'Already exists' });
+      continue;
+    }
+
+    item.action = current ? 'overwrite' : 'create';
+    plan.writes.push({ id, action: item.action, row: spec.toRow(record), previous: current });
+    plan.available.add(id);
+  }
+
+  return plan;
+};
+
+// Beans, equipment, water profiles and saved searches, which recipes and searches build on
+const planLibrary = async (backup: BackupData, options: BackupRestoreOptions, ownerId: string) => {
+  const include = options.includeLibrary;
+  const namedSearches = await BackupModel.findSavedSearchesByName(backup.savedSearches.map(search => search.name.trim()));
+  const searchNames = new Set<string>();
+
+  const beans = await planRecords(backup.beans, {
+    table: 'beans', type: 'bean', owner: 'shared', include,
+    idOf: bean => bean.beanId,
+    nameOf: bean => bean.name || bean.origin,
+    check: bean => schemaIssues(BeanInputSchema, bean),
+    toRow: bean => BackupModel.beanToRow(bean)
+  }, options, ownerId);
+
+  const equipment = await planRecords(backup.equipment, {
+    table: 'equipment', type: 'equipment', owner: 'shared', include,
+    idOf: item => item.equipmentId,
+    nameOf: item => item.name,
+    check: item => schemaIssues(EquipmentInputSchema, item),
+    toRow: item => BackupModel.equipmentToRow(item)
+  }, options, ownerId);
+
+  const waterProfiles = await planRecords(backup.waterProfiles, {
+    table: 'water_profiles', type: 'waterProfile', owner: 'shared', include,
+    idOf: profile => profile.waterProfileId,
+    nameOf: profile => profile.name,
+    check: profile => schemaIssues(WaterProfileInputSchema, profile),
+    toRow: profile => BackupModel.waterProfileToRow(profile)
+  }, options, ownerId);
+
+  const savedSearches = await planRecords(backup.savedSearches, {
+    table: 'saved_searches', type: 'savedSearch', owner: 'shared', include,
+    idOf: search => search.id,
+    nameOf: search => search.name,
+    check: search => {
+      const issues = schemaIssues(SavedSearchInputSchema, search);
+      if (issues) return issues;
+
+      const name = search.name.trim();
+      const holder = namedSearches.get(name);
+      if ((holder && holder.saved_search_id !== search.id) || searchNames.has(name)) {
+        return `The name "${name}" is already used by another saved search`;
+      }
+      searchNames.add(name);
+      return undefined;
+    },
+    toRow: search => BackupModel.savedSearchToRow(search)
+  }, options, ownerId);
+
+  return { beans, equipment, waterProfiles, savedSearches };
+};
+
+const planRecipes = async (
+  recipes: BackupRecipe[],
+  restoredLinks: Map<BackupReferenceTable, Set<string>>, // Library records the restore writes
+  options: BackupRestoreOptions,
+  ownerId: string,
+  warnings: string[]
+): Promise<TablePlan> => {
+  const existing = await BackupModel.findRows('recipes', recipes.map(recipe => recipe.recipeId));
+  const plan: TablePlan = { items: [], writes: [], available: new Set() };
+  existing.forEach((row, id) => {
+    if (row.owner_id === ownerId) plan.available.add(id);
+  });
+  if (!options.includeRecipes) {
+    return plan;
+  }
+
+  const referenced = new Map<BackupReferenceTable, Set<string>>();
+  for (const [table, , section, key] of RECIPE_REFERENCES) {
+    const ids = recipes
+      .map(recipe => referenceSection(recipe, section)?.[key])
+      .filter((id): id is string => typeof id === 'string');
+    const existingIds = await BackupModel.findExistingReferences(table, ids);
+    referenced.set(table, new Set([...(referenced.get(table) ?? []), ...existingIds, ...(restoredLinks.get(table) ?? [])]));
+  }
+
+  const seen = new Set<string>();
+  for (const backupRecipe of recipes) {
+    const item: RestoreItemReport = { type: 'recipe', id: backupRecipe.recipeId, name: backupRecipe.recipeName, action: 'create' };
+    plan.items.push(item);
+    const current = existing.get(backupRecipe.recipeId);
+
+    if (seen.has(backupRecipe.recipeId)) {
+      Object.assign(item, { action: 'reject', reason: 'Appears more than once in the backup' });
+      continue;
+    }
+    seen.add(backupRecipe.recipeId);
+
+    const issues = validateImportedRecipe(recipeToInput(backupRecipe));
+    if (issues.length > 0) {
+      Object.assign(item, { action: 'reject', reason: issues.map(issue => issue.message).join(', ') });
+      continue;
+    }
+    if (current && current.owner_id !== ownerId) {
+      Object.assign(item, { action: 'reject', reason: 'Belongs to another account' });
+      continue;
+    }
+    if (current && !options.overwriteExisting) {
+      Object.assign(item, { action: 'skip', reason: 'Already exists' });
+      continue;
+    }
+
+    const recipe: BackupRecipe = {
+      ...backupRecipe,
+      beanInfo: { ...backupRecipe.beanInfo },
+      brewingParameters: { ...backupRecipe.brewingParameters }
+    };
+    for (const [table, label, section, key] of RECIPE_REFERENCES) {
+      const values = referenceSection(recipe, section);
+      const id = values[key];
+      if (typeof id === 'string' && !referenced.get(table)!.has(id)) {
+        delete values[key];
+        warnings.push(`Recipe "${recipe.recipeName}": linked ${label} not found, link removed`);
+      }
+    }
+    if (!recipe.beanInfo.beanId) {
+      delete recipe.beanGramsDeducted;
+    }
+
+    // Experiment variants stay as blind as they were until the experiments are planned
+    item.action = current ? 'overwrite' : 'create';
+    plan.writes.push({
+      id: recipe.recipeId,
+      action: item.action,
+      row: { ...BackupModel.recipeToRow(recipe, ownerId), is_blind: current?.is_blind ?? false },
+      previous: current
+    });
+    plan.available.add(recipe.recipeId);
+  }
+
+  return plan;
+};
+
+const planCollections = async (
+  collections: BackupCollection[],
+  options: BackupRestoreOptions,
+  ownerId: string,
+  warnings: string[]
+): Promise<TablePlan & { manual: Set<string> }> => {
+  const parentIds = collections.map(collection => collection.parentId).filter((id): id is string => !!id);
+  const [existing, byName] = await Promise.all([
+    BackupModel.findRows('collections', [...new Set([...collections.map(collection => collection.collectionId), ...parentIds])]),
+    BackupModel.findCollectionsByName(collections.map(collection => collection.name), ownerId)
+  ]);
+
+  // Manual collections the owner already has keep receiving memberships
+  const plan = { items: [] as RestoreItemReport[], writes: [] as PlannedWrite[], available: new Set<string>(), manual: new Set<string>() };
+  existing.forEach((row, id) => {
+    if (row.owner_id !== ownerId) return;
+    plan.available.add(id);
+    if (row.rule === null || row.rule === undefined) plan.manual.add(id);
+  });
+  if (!options.includeCollections) {
+    return plan;
+  }
+
+  const accepted: BackupCollection[] = [];
+  const seenIds = new Set<string>();
+  const seenNames = new Set<string>();
+  for (const collection of collections) {
+    const item: RestoreItemReport = { type: 'collection', id: collection.collectionId, name: collection.name, action: 'create' };
+    plan.items.push(item);
+    const current = existing.get(collection.collectionId);
+    const holder = byName.get(collection.name);
+
+    if (seenIds.has(collection.collectionId)) {
+      Object.assign(item, { action: 'reject', reason: 'Appears more than once in the backup' });
+      continue;
+    }
+    seenIds.add(collection.collectionId);
+
+    if (current && current.owner_id !== ownerId) {
+      Object.assign(item, { action: 'reject', reason: 'Belongs to another account' });
+      continue;
+    }
+    if (current && !options.overwriteExisting) {
+      Object.assign(item, { action: 'skip', reason: 'Already exists' });
+      continue;
+    }
+    if ((holder && holder.collection_id !== collection.collectionId) || seenNames.has(collection.name)) {
+      Object.assign(item, { action: 'reject', reason: `The name "${collection.name}" is already used by another collection` });
+      continue;
+    }
+    seenNames.add(collection.name);
+
+    item.action = current ? 'overwrite' : 'create';
+    accepted.push({ ...collection });
+    plan.available.add(collection.collectionId);
+    if (isSmartCollection(collection)) {
+      plan.manual.delete(collection.collectionId);
+    } else {
+      plan.manual.add(collection.collectionId);
+    }
+  }
+
+  // Parents go in before their children; a parent that will not exist leaves the child at the top level
+  const acceptedById = new Map(accepted.map(collection => [collection.collectionId, collection]));
+  const placed = new Set<string>();
+  const visiting = new Set<string>();
+  const place = (collection: BackupCollection) => {
+    if (placed.has(collection.collectionId)) return;
+    visiting.add(collection.collectionId);
+
+    if (collection.parentId) {
+      const parent = acceptedById.get(collection.parentId);
+      if (!plan.available.has(collection.parentId) || visiting.has(collection.parentId)) {
+        warnings.push(`Collection "${collection.name}": parent collection not found, restored at the top level`);
+        delete collection.parentId;
+      } else if (parent) {
+        place(parent);
+      }
+    }
+
+    visiting.delete(collection.collectionId);
+    placed.add(collection.collectionId);
+    const current = existing.get(collection.collectionId);
+    plan.writes.push({
+      id: collection.collectionId,
+      action: current ? 'overwrite' : 'create',
+      row: BackupModel.collectionToRow(collection, ownerId),
+      previous: current
+    });
+  };
+  accepted.forEach(place);
+
+  return plan;
+};
+
+// Brew sessions, revisions and experiments, which need their recipes restored or kept
+const planRecipeRecords = async (
+  backup: BackupData,
+  recipes: TablePlan,
+  options: BackupRestoreOptions,
+  ownerId: string,
+  warnings: string[]
+) => {
+  const include = options.includeRecipes;
+  const missingRecipe = (recipeId: string) => recipes.available.has(recipeId) ? undefined : 'Its recipe is not restored';
+
+  const brewSessions = await planRecords(backup.brewSessions, {
+    table: 'brew_sessions', type: 'brewSession', owner: 'recipe', include,
+    idOf: session => session.sessionId,
+    nameOf: session => `Brew of ${session.brewDate}`,
+    check: session => missingRecipe(session.recipeId) ?? schemaIssues(BrewSessionInputSchema, session),
+    toRow: session => BackupModel.brewSessionToRow(session)
+  }, options, ownerId);
+
+  // Revision numbers are unique per recipe
+  const takenNumbers = await BackupModel.findRevisionNumbers([...new Set(backup.revisions.map(revision => revision.recipeId))]);
+  const revisions = await planRecords(backup.revisions, {
+    table: 'recipe_revisions', type: 'revision', owner: 'recipe', include,
+    idOf: revision => revision.revisionId,
+    nameOf: revision => `Revision ${revision.revisionNumber}`,
+    check: revision => {
+      const key = `${revision.recipeId}:${revision.revisionNumber}`;
+      const holder = takenNumbers.get(key);
+      if (holder && holder !== revision.revisionId) {
+        return `Revision ${revision.revisionNumber} of this recipe already exists`;
+      }
+      takenNumbers.set(key, revision.revisionId);
+      return missingRecipe(revision.recipeId);
+    },
+    toRow: revision => BackupModel.revisionToRow(revision)
+  }, options, ownerId);
+
+  const experiments = await planRecords(backup.experiments, {
+    table: 'experiments', type: 'experiment', owner: 'account', include,
+    idOf: experiment => experiment.experimentId,
+    nameOf: experiment => experiment.name,
+    check: experiment => experiment.variants.every(variant => recipes.available.has(variant.recipeId))
+      ? undefined
+      : 'Its variant recipes are not restored',
+    toRow: experiment => {
+      const restored: BackupExperiment = { ...experiment };
+      if (restored.baseRecipeId && !recipes.available.has(restored.baseRecipeId)) {
+        delete restored.baseRecipeId;
+        warnings.push(`Experiment "${experiment.name}": base recipe not found, link removed`);
+      }
+      return BackupModel.experimentToRow(restored, ownerId);
+    }
+  }, options, ownerId);
+
+  // Variants stay blind while their experiment is still being tasted
+  const recipeWrites = new Map(recipes.writes.map(write => [write.id, write]));
+  experiments.writes.forEach(({ row }) => {
+    (row.variants as BackupExperiment['variants']).forEach(variant => {
+      const write = recipeWrites.get(variant.recipeId);
+      if (write) write.row.is_blind = row.status === 'tasting';
+    });
+  });
+
+  return { brewSessions, revisions, experiments };
+};
+
+const countActions = (items: RestoreItemReport[]): RestoreCounts => ({
+  created: items.filter(item => item.action === 'create').length,
+  overwritten: items.filter(item => item.action === 'overwrite').length,
+  skipped: items.filter(item => item.action === 'skip').length,
+  rejected: items.filter(item => item.action === 'reject').length
+});
+
+/**
+ * Restore a backup of any supported version into an owner's account. Records are written in
+ * dependency order: the library, collections, recipes and memberships, then brew sessions,
+ * revisions and experiments. Existing records are kept when merging and replaced when
+ * overwriting; a dry run only reports the plan. If a write fails, every write of the restore is undone.
+ * @throws Error when the backup version is not supported
+ */
+export const restoreBackup = async (
+  uploaded: BackupDataSchemaType,
+  options: BackupRestoreOptions,
+  ownerId: string
+): Promise<RestoreReport> => {
+  const backup = migrateBackup(uploaded as unknown as BackupData);
+  const warnings: string[] = [];
+
+  const library = await planLibrary(backup, options, ownerId);
+  const collections = await planCollections(backup.collections, options, ownerId, warnings);
+  const restoredLinks = new Map<BackupReferenceTable, Set<string>>([
+    ['beans', new Set(library.beans.writes.map(write => write.id))],
+    ['equipment', new Set(library.equipment.writes.map(write => write.id))],
+    ['water_profiles', new Set(library.waterProfiles.writes.map(write => write.id))]
+  ]);
+  const recipes = await planRecipes(backup.recipes, restoredLinks, options, ownerId, warnings);
+  const related = await planRecipeRecords(backup, recipes, options, ownerId, warnings);
+
+  // Memberships join recipes and manual collections the owner has after the restore
+  const candidates = backup.memberships.filter(membership =>
+    recipes.available.has(membership.recipeId) && collections.manual.has(membership.collectionId)
+  );
+  const existingKeys = await BackupModel.findMembershipKeys([...new Set(candidates.map(membership => membership.collectionId))]);
+  const memberships = new Map<string, BackupMembership>();
+  candidates.forEach(membership => {
+    const key = `${membership.recipeId}:${membership.collectionId}`;
+    if (!existingKeys.has(key)) memberships.set(key, membership);
+  });
+
+  const report: RestoreReport = {
+    dryRun: !!options.dryRun,
+    applied: false,
+    fromVersion: uploaded.version,
+    recipes: countActions(recipes.items),
+    collections: countActions(collections.items),
+    beans: countActions(library.beans.items),
+    equipment: countActions(library.equipment.items),
+    waterProfiles: countActions(library.waterProfiles.items),
+    savedSearches: countActions(library.savedSearches.items),
+    brewSessions: countActions(related.brewSessions.items),
+    revisions: countActions(related.revisions.items),
+    experiments: countActions(related.experiments.items),
+    membershipsAdded: memberships.size,
+    items: [
+      ...library.beans.items,
+      ...library.equipment.items,
+      ...library.waterProfiles.items,
+      ...library.savedSearches.items,
+      ...collections.items,
+      ...recipes.items,
+      ...related.brewSessions.items,
+      ...related.revisions.items,
+      ...related.experiments.items
+    ],
+    warnings
+  };
+  if (options.dryRun) {
+    return report;
+  }
+
+  const undo: Array<() => Promise<void>> = [];
+  const apply = async (table: BackupTable, writes: PlannedWrite[]) => {
+    for (const write of writes) {
+      if (write.action === 'create') {
+        await BackupModel.insert(table, write.row);
+        undo.push(() => BackupModel.remove(table, write.id));
+      } else {
+        await BackupModel.replace(table, write.row);
+        undo.push(() => BackupModel.replace(table, write.previous!));
+      }
+    }
+  };
+
+  try {
+    await apply('beans', library.beans.writes);
+    await apply('equipment', library.equipment.writes);
+    await apply('water_profiles', library.waterProfiles.writes);
+    await apply('saved_searches', library.savedSearches.writes);
+    await apply('collections', collections.writes);
+    await apply('recipes', recipes.writes);
+    const added = [...memberships.values()];
+    await BackupModel.insertMemberships(added);
+    undo.push(() => BackupModel.removeMemberships(added));
+    await apply('brew_sessions', related.brewSessions.writes);
+    await apply('recipe_revisions', related.revisions.writes);
+    await apply('experiments', related.experiments.writes);
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch (rollbackError) {
+        console.error('❌ Failed to roll back restore:', rollbackError);
+      }
+    }
+    return { ...report, error: errorMessage(error) };
+  }
+
+  return { ...report, applied: true };
+};
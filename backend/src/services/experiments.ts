@@ -0,0 +1,185 @@
+// Experiments: variant recipes generated from a base recipe and tasted blind by code.
+// Tastings are brew sessions of the variant recipes, so results use the session scoring.
+
+import { randomInt } from 'crypto';
+import {
+  BrewSessionModel,
+  ExperimentModel,
+  RecipeModel,
+  WaterProfileModel,
+  type ExperimentRecord,
+  type ExperimentVariantRecord
+} from '../database/index.js';
+import {
+  buildVariantRecipe,
+  formatExperimentValue,
+  getEvaluationScore,
+  getExperimentValue,
+  isSameExperimentValue,
+  rankExperimentVariants,
+  type Experiment,
+  type ExperimentInputSchemaType,
+  type ExperimentTastingSchemaType,
+  type ExperimentVariant
+} from '../shared/index.js';
+
+// Distinct three-digit codes, so nothing about a variant can be read from its code
+const generateTastingCodes = (count: number): string[] => {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(String(randomInt(100, 1000)));
+  }
+  return [...codes];
+};
+
+/**
+ * API view of an experiment. While tasting, variants only show their code and how
+ * often they were tasted (ordered by code); once completed they are revealed with
+ * their scores, best first.
+ */
+export const toExperimentView = async (record: ExperimentRecord): Promise<Experiment> => {
+  const { ownerId: _ownerId, variants, ...experiment } = record;
+
+  if (record.status === 'tasting') {
+    const blind = await Promise.all(variants.map(async (variant): Promise<ExperimentVariant> => ({
+      code: variant.code,
+      tastingCount: await BrewSessionModel.count(variant.recipeId)
+    })));
+    return { ...experiment, variants: blind.sort((a, b) => a.code.localeCompare(b.code)) };
+  }
+
+  const revealed = await Promise.all(variants.map(async (variant): Promise<ExperimentVariant> => {
+    const { sessions, stats } = await BrewSessionModel.listWithStats(variant.recipeId);
+    return { ...variant, tastingCount: sessions.length, stats };
+  }));
+  return { ...experiment, variants: rankExperimentVariants(revealed) };
+};
+
+/**
+ * Plan an experiment: create one blind recipe per variant from the base recipe.
+ * Blind recipes stay out of recipe lists, search and detail until the experiment is
+ * completed, and their names carry the variant's label, never its tasting code.
+ * If anything fails, the recipes created so far are deleted again.
+ * @throws Error when the base recipe or a water profile does not exist
+ */
+export const createExperiment = async (input: ExperimentInputSchemaType, ownerId: string): Promise<ExperimentRecord> => {
+  const base = await RecipeModel.findById(input.baseRecipeId, ownerId);
+  if (!base) {
+    throw new Error('Base recipe not found');
+  }
+  if (input.variable === 'ratio' && !base.measurements.coffeeBeans) {
+    throw new Error('The base recipe needs a coffee dose for ratio variants');
+  }
+
+  // Water variants are labelled with the profile name
+  const labels = await Promise.all(input.variants.map(async ({ value, label }) => {
+    if (input.variable !== 'water') {
+      return label || formatExperimentValue(input.variable, value);
+    }
+    const profile = await WaterProfileModel.findById(String(value));
+    if (!profile) {
+      throw new Error('Water profile not found');
+    }
+    return label || profile.name;
+  }));
+
+  const baseValue = getExperimentValue(base, input.variable);
+  const codes = generateTastingCodes(input.variants.length);
+  const variants: ExperimentVariantRecord[] = [];
+
+  try {
+    for (const [index, { value }] of input.variants.entries()) {
+      const code = codes[index]!;
+      const recipe = await RecipeModel.createBlindVariant(
+        buildVariantRecipe(base, input.variable, value, `${input.name.trim()} · ${labels[index]}`),
+        ownerId
+      );
+      variants.push({ code, recipeId: recipe.recipeId, value, label: labels[index]!, isBaseline: isSameExperimentValue(value, baseValue) });
+    }
+
+    return await ExperimentModel.create({
+      ownerId,
+      name: input.name,
+      baseRecipeId: base.recipeId,
+      baseRecipeName: base.recipeName,
+      variable: input.variable,
+      variants,
+      notes: input.notes
+    });
+  } catch (error) {
+    for (const variant of [...variants].reverse()) {
+      try {
+        await RecipeModel.delete(variant.recipeId);
+      } catch (rollbackError) {
+        console.error('❌ Failed to roll back experiment variant recipe:', rollbackError);
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Record a blind tasting of the variant behind a code, as a brew session of its recipe
+ * @throws Error when the experiment is completed, the code is unknown or the evaluation has no score
+ */
+export const recordTasting = async (record: ExperimentRecord, tasting: ExperimentTastingSchemaType): Promise<void> => {
+  if (record.status !== 'tasting') {
+    throw new Error('Experiment is already completed');
+  }
+
+  const variant = record.variants.find(candidate => candidate.code === tasting.code);
+  if (!variant) {
+    throw new Error('Tasting code not found');
+  }
+  if (!getEvaluationScore(tasting.evaluation)) {
+    throw new Error('The tasting needs a score');
+  }
+
+  const recipe = await RecipeModel.findById(variant.recipeId, record.ownerId, { includeBlind: true });
+  if (!recipe) {
+    throw new Error('Variant recipe not found');
+  }
+
+  await BrewSessionModel.create(recipe.recipeId, {
+    measurements: { coffeeBeans: recipe.measurements.coffeeBeans, water: recipe.measurements.water },
+    evaluation: tasting.evaluation,
+    notes: tasting.notes
+  });
+};
+
+/**
+ * End the blind tasting and reveal the variants. Every variant needs at least one tasting.
+ * @throws Error when the experiment is completed or a variant has not been tasted
+ */
+export const completeExperiment = async (record: ExperimentRecord): Promise<ExperimentRecord> => {
+  if (record.status !== 'tasting') {
+    throw new Error('Experiment is already completed');
+  }
+
+  const { variants } = await toExperimentView(record);
+  if (variants.some(variant => variant.tastingCount === 0)) {
+    throw new Error('Every variant needs a tasting before the results are revealed');
+  }
+
+  const completed = await ExperimentModel.complete(record.experimentId);
+  if (!completed) {
+    throw new Error('Experiment not found');
+  }
+  return completed;
+};
+
+/**
+ * Delete an experiment, optionally together with its variant recipes and their tastings.
+ * Kept variant recipes of an experiment still being tasted are no longer blind.
+ */
+export const deleteExperiment = async (record: ExperimentRecord, deleteRecipes: boolean): Promise<void> => {
+  await ExperimentModel.delete(record.experimentId);
+
+  if (deleteRecipes) {
+    for (const variant of record.variants) {
+      await RecipeModel.delete(variant.recipeId);
+    }
+  } else if (record.status === 'tasting') {
+    await ExperimentModel.revealVariantRecipes(record);
+  }
+};
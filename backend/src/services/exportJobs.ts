@@ -0,0 +1,239 @@
+// Asynchronous export jobs: queued in memory, rendered one at a time by a background worker
+
+import { v4 as uuidv4 } from 'uuid';
+import { RecipeModel } from '../database/index.js';
+import {
+  ExportFormat,
+  ExportJobStatus,
+  ExportScope,
+  type ExportJob,
+  type ExportOptions,
+  type Recipe
+} from '../shared/index.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  buildExportFilename,
+  buildExportRows,
+  describeExportFilters,
+  loadFilteredRecipes,
+  renderCsv,
+  renderExcel,
+  renderJson,
+  selectExportColumns,
+  type ExportMetadata
+} from './recipeExport.js';
+
+// How long a finished export can be downloaded
+export const EXPORT_DOWNLOAD_TTL_MS = 60 * 60 * 1000;
+
+// Finished jobs kept for the history view; the oldest are dropped first
+const MAX_RETAINED_JOBS = 50;
+
+// Recipes rendered between progress updates (the worker yields to requests in between)
+const PROGRESS_CHUNK_SIZE = 50;
+
+interface StoredExportJob {
+  job: ExportJob;
+  ownerId: string; // Jobs and their files are only visible to the user who started them
+  downloadUrl: string;
+  file?: { content: Buffer; contentType: string };
+}
+
+export interface ExportDownload {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+class ExportJobQueue {
+  private jobs = new Map<string, StoredExportJob>();
+  private pending: string[] = [];
+  private running = false;
+
+  // Queue an export of a user's recipes and start the worker if it is idle
+  public create(options: ExportOptions, downloadBaseUrl: string, ownerId: string): ExportJob {
+    this.purgeExpired();
+
+    const id = uuidv4();
+    const job: ExportJob = {
+      id,
+      status: ExportJobStatus.PENDING,
+      progress: 0,
+      message: 'Waiting to start...',
+      createdAt: new Date().toISOString(),
+      options
+    };
+
+    this.jobs.set(id, { job, ownerId, downloadUrl: `${downloadBaseUrl}/${id}/download` });
+    this.pending.push(id);
+    void this.runWorker();
+
+    return { ...job };
+  }
+
+  // Get a job's current status
+  public get(id: string, ownerId: string): ExportJob | null {
+    this.purgeExpired();
+    const stored = this.find(id, ownerId);
+    return stored ? { ...stored.job } : null;
+  }
+
+  // Get a user's retained jobs, newest first
+  public list(ownerId: string): ExportJob[] {
+    this.purgeExpired();
+    return Array.from(this.jobs.values())
+      .filter(stored => stored.ownerId === ownerId)
+      .map(stored => ({ ...stored.job }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Get the rendered file; 'expired' once the download window has passed
+  public getDownload(id: string, ownerId: string): ExportDownload | 'not-ready' | 'expired' | null {
+    const stored = this.find(id, ownerId);
+    if (!stored) return null;
+    if (stored.job.status !== ExportJobStatus.COMPLETED || !stored.job.result) return 'not-ready';
+    if (!stored.file || new Date(stored.job.result.expiresAt).getTime() <= Date.now()) return 'expired';
+
+    return {
+      filename: stored.job.result.filename,
+      contentType: stored.file.contentType,
+      content: stored.file.content
+    };
+  }
+
+  // Remove a job and its file (a running job finishes but its result is discarded)
+  public delete(id: string, ownerId: string): boolean {
+    if (!this.find(id, ownerId)) return false;
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    return this.jobs.delete(id);
+  }
+
+  private find(id: string, ownerId: string): StoredExportJob | undefined {
+    const stored = this.jobs.get(id);
+    return stored?.ownerId === ownerId ? stored : undefined;
+  }
+
+  private async runWorker(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let id: string | undefined;
+      while ((id = this.pending.shift()) !== undefined) {
+        const stored = this.jobs.get(id);
+        if (stored) {
+          await this.process(stored);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private update(stored: StoredExportJob, changes: Partial<ExportJob>): void {
+    stored.job = { ...stored.job, ...changes };
+  }
+
+  private async process(stored: StoredExportJob): Promise<void> {
+    const { options } = stored.job;
+    const { ownerId } = stored;
+
+    try {
+      this.update(stored, { status: ExportJobStatus.PROCESSING, progress: 5, message: 'Loading recipes...' });
+      const recipes = await this.loadRecipes(options, ownerId, progress => this.update(stored, { progress }));
+
+      this.update(stored, { progress: 40, message: `Rendering ${recipes.length} recipes...` });
+      const columns = selectExportColumns(options.includeFields, options.excludeFields);
+      const rows: Array<Array<string | number>> = [];
+      for (let start = 0; start < recipes.length; start += PROGRESS_CHUNK_SIZE) {
+        rows.push(...buildExportRows(recipes.slice(start, start + PROGRESS_CHUNK_SIZE), columns));
+        this.update(stored, { progress: 40 + Math.round((rows.length / recipes.length) * 50) });
+        await yieldToEventLoop();
+      }
+
+      this.update(stored, { progress: 90, message: 'Writing file...' });
+      const hasFieldSelection = !!(options.includeFields?.length || options.excludeFields?.length);
+      const metadata: ExportMetadata | undefined = options.scope === ExportScope.FILTERED
+        ? { 'Filters': describeExportFilters(options.filters), 'Total Recipes': recipes.length }
+        : undefined;
+      const content = options.format === ExportFormat.EXCEL
+        ? renderExcel(columns, rows, recipes, options.formatOptions, metadata)
+        : Buffer.from(options.format === ExportFormat.JSON
+          ? renderJson(recipes, hasFieldSelection ? columns : undefined, metadata && {
+            filters: options.filters,
+            filterSummary: metadata['Filters']
+          })
+          : renderCsv(columns, rows, options.formatOptions, metadata), 'utf8');
+
+      const completedAt = new Date();
+      stored.file = { content, contentType: EXPORT_CONTENT_TYPES[options.format] };
+      this.update(stored, {
+        status: ExportJobStatus.COMPLETED,
+        progress: 100,
+        message: 'Export complete',
+        completedAt: completedAt.toISOString(),
+        result: {
+          success: true,
+          downloadUrl: stored.downloadUrl,
+          filename: buildExportFilename(options),
+          fileSize: content.length,
+          recordCount: recipes.length,
+          format: options.format,
+          expiresAt: new Date(completedAt.getTime() + EXPORT_DOWNLOAD_TTL_MS).toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('Export job failed:', error);
+      this.update(stored, {
+        status: ExportJobStatus.FAILED,
+        message: 'Export failed',
+        completedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Resolve the export scope to the owner's full recipes
+  private async loadRecipes(options: ExportOptions, ownerId: string, onProgress: (progress: number) => void): Promise<Recipe[]> {
+    if (options.scope === ExportScope.SELECTED) {
+      const ids = options.selectedRecipeIds ?? [];
+      const recipes: Recipe[] = [];
+      for (const [index, id] of ids.entries()) {
+        const recipe = await RecipeModel.findById(id, ownerId);
+        if (recipe) recipes.push(recipe);
+        onProgress(5 + Math.round(((index + 1) / ids.length) * 35));
+      }
+      return recipes;
+    }
+
+    if (options.scope === ExportScope.FILTERED) {
+      return loadFilteredRecipes(
+        options.filters,
+        (loaded, total) => onProgress(5 + Math.round((loaded / Math.max(total, 1)) * 35)),
+        ownerId
+      );
+    }
+
+    return RecipeModel.findAll(ownerId);
+  }
+
+  // Drop files past their download window and the oldest finished jobs beyond the retention limit
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const stored of this.jobs.values()) {
+      if (stored.file && stored.job.result && new Date(stored.job.result.expiresAt).getTime() <= now) {
+        delete stored.file;
+      }
+    }
+
+    const finished = Array.from(this.jobs.values())
+      .filter(stored => stored.job.status === ExportJobStatus.COMPLETED || stored.job.status === ExportJobStatus.FAILED)
+      .sort((a, b) => b.job.createdAt.localeCompare(a.job.createdAt));
+    finished.slice(MAX_RETAINED_JOBS).forEach(stored => this.jobs.delete(stored.job.id));
+  }
+}
+
+// Export singleton instance
+export const exportJobQueue = new ExportJobQueue();
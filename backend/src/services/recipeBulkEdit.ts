@@ -0,0 +1,202 @@
+// Bulk recipe edits: one set of changes merged into many recipes, applied all or nothing
+
+import { RecipeModel, CollectionModel } from '../database/index.js';
+import type { OwnerScope } from '../database/repositories/index.js';
+import {
+  BULK_EDIT_LIMIT,
+  recipeToInput,
+  type BulkRecipeChangesSchemaType,
+  type BulkRecipeResult,
+  type BulkRecipeUpdateResult,
+  type BulkRecipeUpdateSchemaType,
+  type Collection,
+  type Recipe,
+  type RecipeInput
+} from '../shared/index.js';
+
+export interface BulkEditTargets {
+  recipes: Recipe[];
+  missingIds: string[]; // Requested IDs that do not exist
+  total: number; // Recipes matching the filter (may exceed the limit)
+}
+
+// Required values and length limits a recipe must still satisfy after the merge (same rules as PUT /:id)
+const REQUIRED_FIELDS: Array<[string, string, (input: RecipeInput) => unknown]> = [
+  ['measurements.coffeeBeans', 'Coffee beans amount must be a positive number', input => input.measurements.coffeeBeans],
+  ['measurements.water', 'Water amount must be a positive number', input => input.measurements.water],
+  ['brewingParameters.grinderModel', 'Grinder model is required', input => input.brewingParameters.grinderModel],
+  ['brewingParameters.grinderUnit', 'Grinder setting is required', input => input.brewingParameters.grinderUnit],
+  ['beanInfo.origin', 'Coffee origin is required', input => input.beanInfo.origin],
+  ['beanInfo.processingMethod', 'Processing method is required', input => input.beanInfo.processingMethod]
+];
+
+const LENGTH_LIMITS: Array<[string, number, (input: RecipeInput) => unknown]> = [
+  ['beanInfo.origin', 100, input => input.beanInfo.origin],
+  ['beanInfo.processingMethod', 50, input => input.beanInfo.processingMethod],
+  ['beanInfo.coffeeBeanBrand', 100, input => input.beanInfo.coffeeBeanBrand],
+  ['beanInfo.roastingLevel', 20, input => input.beanInfo.roastingLevel],
+  ['brewingParameters.brewingMethod', 50, input => input.brewingParameters.brewingMethod],
+  ['brewingParameters.grinderModel', 100, input => input.brewingParameters.grinderModel],
+  ['brewingParameters.grinderUnit', 50, input => input.brewingParameters.grinderUnit],
+  ['brewingParameters.filteringTools', 100, input => input.brewingParameters.filteringTools]
+];
+
+// Load the recipes of an owner a bulk edit targets, by ID or by search filter
+export const resolveBulkEditTargets = async (request: BulkRecipeUpdateSchemaType, ownerId?: OwnerScope): Promise<BulkEditTargets> => {
+  if (request.recipeIds) {
+    const ids = Array.from(new Set(request.recipeIds));
+    const byId = new Map((await RecipeModel.findAll(ownerId)).map(recipe => [recipe.recipeId, recipe]));
+    return {
+      recipes: ids.map(id => byId.get(id)).filter((recipe): recipe is Recipe => !!recipe),
+      missingIds: ids.filter(id => !byId.has(id)),
+      total: ids.length
+    };
+  }
+
+  const { recipes, total } = await RecipeModel.search({
+    filters: request.filters ?? {},
+    sort: { field: 'date-modified', direction: 'desc' },
+    pagination: { page: 1, limit: BULK_EDIT_LIMIT }
+  }, ownerId);
+  return { recipes, missingIds: [], total };
+};
+
+// Merge the changes into a recipe's current input, section by section
+export const mergeBulkChanges = (recipe: Recipe, changes: BulkRecipeChangesSchemaType): RecipeInput => {
+  const input = recipeToInput(recipe);
+  // The ratio is always derived from the dose and water; numeric strings from forms become numbers
+  const measurements = Object.fromEntries(
+    Object.entries(changes.measurements ?? {})
+      .filter(([field]) => field !== 'coffeeWaterRatio')
+      .map(([field, value]) => [field, typeof value === 'string' && value.trim() !== '' ? Number(value) : value])
+  );
+
+  return {
+    ...input,
+    isFavorite: changes.isFavorite ?? input.isFavorite,
+    beanInfo: { ...input.beanInfo, ...changes.beanInfo },
+    brewingParameters: { ...input.brewingParameters, ...changes.brewingParameters },
+    measurements: { ...input.measurements, ...measurements }
+  };
+};
+
+const validateMergedInput = (input: RecipeInput): string[] => {
+  const errors: string[] = [];
+
+  REQUIRED_FIELDS.forEach(([path, message, get]) => {
+    const value = get(input);
+    const isNumeric = path.startsWith('measurements.');
+    const missing = isNumeric
+      ? value === null || value === undefined || value === '' || isNaN(Number(value)) || Number(value) <= 0
+      : typeof value !== 'string' || value.trim() === '';
+    if (missing) errors.push(message);
+  });
+
+  LENGTH_LIMITS.forEach(([path, limit, get]) => {
+    const value = get(input);
+    if (typeof value === 'string' && value.length > limit) {
+      errors.push(`Field '${path}' is too long (${value.length} chars, limit: ${limit})`);
+    }
+  });
+
+  return errors;
+};
+
+const hasContentChanges = (recipe: Recipe, input: RecipeInput): boolean =>
+  JSON.stringify(recipeToInput(recipe)) !== JSON.stringify(input);
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Apply one set of changes to every target recipe. Every merged recipe is validated
+ * before anything is written. If a write then fails, the stored rows of the target
+ * recipes, their bags, memberships and revision history are put back as they were,
+ * so either all recipes change or none do and the rollback itself leaves no trace.
+ * (No driver offers a transaction spanning these writes: PostgREST and the in-memory
+ * store have none, and SQLite's cannot wait on asynchronous work.)
+ */
+export const applyBulkRecipeUpdate = async (
+  targets: BulkEditTargets,
+  changes: BulkRecipeChangesSchemaType,
+  collections: { add: Collection[]; remove: Collection[] }
+): Promise<BulkRecipeUpdateResult> => {
+  const results = new Map<string, BulkRecipeResult>();
+  const plans = targets.recipes.map(recipe => {
+    const input = mergeBulkChanges(recipe, changes);
+    return {
+      recipe,
+      input,
+      contentChanged: hasContentChanges(recipe, input),
+      // Recipes list their collections by name
+      addTo: collections.add.filter(collection => !recipe.collections.includes(collection.name)),
+      removeFrom: collections.remove.filter(collection => recipe.collections.includes(collection.name))
+    };
+  });
+
+  targets.missingIds.forEach(id => results.set(id, { recipeId: id, status: 'not_found', error: 'Recipe not found' }));
+  plans.forEach(({ recipe, input }) => {
+    const errors = validateMergedInput(input);
+    if (errors.length > 0) {
+      results.set(recipe.recipeId, { recipeId: recipe.recipeId, recipeName: recipe.recipeName, status: 'failed', error: errors.join(', ') });
+    }
+  });
+
+  const summarize = (applied: boolean): BulkRecipeUpdateResult => {
+    const ordered = [
+      ...targets.missingIds.map(id => results.get(id)!),
+      ...plans.map(({ recipe }) => results.get(recipe.recipeId) ?? { recipeId: recipe.recipeId, recipeName: recipe.recipeName, status: 'skipped' as const })
+    ];
+    return {
+      applied,
+      matched: targets.recipes.length,
+      updated: applied ? ordered.filter(result => result.status === 'updated').length : 0,
+      results: ordered
+    };
+  };
+
+  if (results.size > 0) {
+    return summarize(false);
+  }
+
+  const snapshot = await RecipeModel.snapshotRows(
+    plans.map(({ recipe }) => recipe.recipeId),
+    plans.map(({ input }) => input.beanInfo.beanId).filter((id): id is string => !!id)
+  );
+
+  for (const plan of plans) {
+    const { recipe, input } = plan;
+
+    if (!plan.contentChanged && plan.addTo.length === 0 && plan.removeFrom.length === 0) {
+      results.set(recipe.recipeId, { recipeId: recipe.recipeId, recipeName: recipe.recipeName, status: 'unchanged' });
+      continue;
+    }
+
+    try {
+      if (plan.contentChanged) {
+        const updated = await RecipeModel.update(recipe.recipeId, input);
+        if (!updated) throw new Error('Recipe not found');
+      }
+      for (const collection of plan.addTo) {
+        await CollectionModel.addRecipe(collection.collectionId, recipe.recipeId);
+      }
+      for (const collection of plan.removeFrom) {
+        await CollectionModel.removeRecipe(collection.collectionId, recipe.recipeId);
+      }
+      results.set(recipe.recipeId, { recipeId: recipe.recipeId, recipeName: recipe.recipeName, status: 'updated' });
+    } catch (error) {
+      results.set(recipe.recipeId, { recipeId: recipe.recipeId, recipeName: recipe.recipeName, status: 'failed', error: errorMessage(error) });
+
+      try {
+        await RecipeModel.restoreRows(snapshot);
+      } catch (rollbackError) {
+        console.error('❌ Failed to roll back bulk recipe edit:', rollbackError);
+      }
+      results.forEach(result => {
+        if (result.status === 'updated') result.status = 'rolled_back';
+      });
+      return summarize(false);
+    }
+  }
+
+  return summarize(true);
+};
@@ -0,0 +1,264 @@
+// Recipe export loading and rendering shared by the export endpoints and the async export worker
+
+import * as XLSX from 'xlsx';
+import { RecipeModel } from '../database/index.js';
+import type { OwnerScope } from '../database/repositories/index.js';
+import {
+  EVALUATION_EXPORT_GROUPS,
+  SearchRequestSchema,
+  ExportFormat,
+  type EvaluationExportGroup,
+  type ExportOptions,
+  type Recipe,
+  type SearchFiltersSchemaType
+} from '../shared/index.js';
+
+export interface RecipeExportColumn {
+  key: string; // Recipe field path, used by includeFields / excludeFields
+  header: string;
+  value: (recipe: Recipe) => unknown;
+  group?: EvaluationExportGroup; // Evaluation system the column belongs to
+}
+
+type FormatOptions = NonNullable<ExportOptions['formatOptions']>;
+
+// Descriptive values written alongside the data (CSV comment lines, an Excel sheet, JSON fields)
+export type ExportMetadata = Record<string, string | number>;
+
+// Page size used when loading a filtered export
+const SEARCH_PAGE_SIZE = 1000;
+
+export const RECIPE_EXPORT_COLUMNS: RecipeExportColumn[] = [
+  { key: 'recipeName', header: 'Recipe Name', value: r => r.recipeName },
+  { key: 'dateCreated', header: 'Date Created', value: r => r.dateCreated },
+  { key: 'dateModified', header: 'Date Modified', value: r => r.dateModified },
+  { key: 'isFavorite', header: 'Is Favorite', value: r => r.isFavorite ? 'Yes' : 'No' },
+  { key: 'collections', header: 'Collections', value: r => r.collections.join('; ') },
+  { key: 'beanInfo.origin', header: 'Origin', value: r => r.beanInfo.origin },
+  { key: 'beanInfo.processingMethod', header: 'Processing Method', value: r => r.beanInfo.processingMethod },
+  { key: 'beanInfo.altitude', header: 'Altitude', value: r => r.beanInfo.altitude },
+  { key: 'beanInfo.roastingDate', header: 'Roasting Date', value: r => r.beanInfo.roastingDate },
+  { key: 'beanInfo.roastingLevel', header: 'Roasting Level', value: r => r.beanInfo.roastingLevel },
+  { key: 'brewingParameters.waterTemperature', header: 'Water Temperature', value: r => r.brewingParameters.waterTemperature },
+  { key: 'brewingParameters.brewingMethod', header: 'Brewing Method', value: r => r.brewingParameters.brewingMethod },
+  { key: 'brewingParameters.grinderModel', header: 'Grinder Model', value: r => r.brewingParameters.grinderModel },
+  { key: 'brewingParameters.grinderUnit', header: 'Grind Setting', value: r => r.brewingParameters.grinderUnit },
+  { key: 'brewingParameters.filteringTools', header: 'Filter Tools', value: r => r.brewingParameters.filteringTools },
+  { key: 'measurements.coffeeBeans', header: 'Coffee (g)', value: r => r.measurements.coffeeBeans },
+  { key: 'measurements.water', header: 'Water (g)', value: r => r.measurements.water },
+  { key: 'measurements.coffeeWaterRatio', header: 'Ratio', value: r => r.measurements.coffeeWaterRatio },
+  { key: 'measurements.tds', header: 'TDS (%)', value: r => r.measurements.tds },
+  { key: 'measurements.extractionYield', header: 'Extraction Yield (%)', value: r => r.measurements.extractionYield },
+  { key: 'sensationRecord.evaluationSystem', header: 'Evaluation System', value: r => r.sensationRecord.evaluationSystem ?? 'legacy' },
+  // One column group per evaluation system; include or exclude a whole system with e.g. "sensationRecord.cvaAffective"
+  ...EVALUATION_EXPORT_GROUPS.flatMap(({ group, columns }) => columns.map(column => ({
+    key: column.key,
+    header: column.header,
+    value: (r: Recipe) => column.value(r.sensationRecord),
+    group
+  })))
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv',
+  [ExportFormat.EXCEL]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.JSON]: 'application/json'
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'csv',
+  [ExportFormat.EXCEL]: 'xlsx',
+  [ExportFormat.JSON]: 'json'
+};
+
+// A field selects its own column and, for a section like "beanInfo", every column inside it
+const matchesField = (key: string, field: string): boolean => key === field || key.startsWith(`${field}.`);
+
+/**
+ * Pick the export columns for includeFields / excludeFields (all columns when neither is given)
+ */
+export const selectExportColumns = (includeFields?: string[], excludeFields?: string[]): RecipeExportColumn[] => {
+  return RECIPE_EXPORT_COLUMNS.filter(column =>
+    (!includeFields?.length || includeFields.some(field => matchesField(column.key, field))) &&
+    !excludeFields?.some(field => matchesField(column.key, field))
+  );
+};
+
+/**
+ * Build the export filename, e.g. coffee_recipes_2026-10-19.csv
+ */
+export const buildExportFilename = (options: Pick<ExportOptions, 'format' | 'filename' | 'includeTimestamp'>): string => {
+  const base = options.filename?.trim() || 'coffee_recipes';
+  const timestamp = options.includeTimestamp === false ? '' : `_${new Date().toISOString().split('T')[0]}`;
+  return `${base}${timestamp}.${EXPORT_FILE_EXTENSIONS[options.format]}`;
+};
+
+/**
+ * Load every recipe matching the filters, page by page through the search repository
+ */
+export const loadFilteredRecipes = async (
+  filters: SearchFiltersSchemaType = {},
+  onProgress?: (loaded: number, total: number) => void,
+  ownerId?: OwnerScope
+): Promise<Recipe[]> => {
+  const recipes: Recipe[] = [];
+  for (let page = 1; ; page++) {
+    const request = SearchRequestSchema.parse({ filters, pagination: { page, limit: SEARCH_PAGE_SIZE } });
+    const result = await RecipeModel.search(request, ownerId);
+    recipes.push(...result.recipes);
+    onProgress?.(recipes.length, result.total);
+    if (recipes.length >= result.total || result.recipes.length === 0) {
+      return recipes;
+    }
+  }
+};
+
+/**
+ * Describe the active filters in one line, e.g. "Origins: Ethiopia, Kenya • Favorites only"
+ */
+export const describeExportFilters = (filters: SearchFiltersSchemaType = {}): string => {
+  const parts: string[] = [];
+
+  if (filters.searchTerm?.trim()) parts.push(`Search: "${filters.searchTerm.trim()}"`);
+  if (filters.origins?.length) parts.push(`Origins: ${filters.origins.join(', ')}`);
+  if (filters.roastingLevels?.length) parts.push(`Roast levels: ${filters.roastingLevels.join(', ')}`);
+  if (filters.brewingMethods?.length) parts.push(`Methods: ${filters.brewingMethods.join(', ')}`);
+  if (filters.waterProfileIds?.length) parts.push(`Water profiles: ${filters.waterProfileIds.length}`);
+  if (filters.overallImpressionRange) parts.push(`Rating: ${filters.overallImpressionRange.join('-')}`);
+  if (filters.altitudeRange) parts.push(`Altitude: ${filters.altitudeRange.join('-')} m`);
+  if (filters.coffeeWaterRatioRange) parts.push(`Ratio: 1:${filters.coffeeWaterRatioRange.join('-')}`);
+  if (filters.tdsRange) parts.push(`TDS: ${filters.tdsRange.join('-')}%`);
+  if (filters.scoreRange) parts.push(`Score: ${filters.scoreRange.join('-')}`);
+  if (filters.dateRange) {
+    const { start, end, field } = filters.dateRange;
+    parts.push(`${field}: ${start.split('T')[0]} to ${end.split('T')[0]}`);
+  }
+  if (filters.favoritesOnly) parts.push('Favorites only');
+  if (filters.hasRating) parts.push('Rated only');
+  if (filters.collections?.length || filters.includeUncollected) {
+    const names = [...(filters.collections ?? []), ...(filters.includeUncollected ? ['(uncollected)'] : [])];
+    parts.push(`Collections: ${names.join(', ')}`);
+  }
+
+  return parts.length > 0 ? parts.join(' • ') : 'No filters applied';
+};
+
+/**
+ * Turn recipes into table rows, one cell per column (empty cells as '')
+ */
+export const buildExportRows = (recipes: Recipe[], columns: RecipeExportColumn[]): Array<Array<string | number>> => {
+  return recipes.map(recipe => columns.map(column => {
+    const value = column.value(recipe);
+    return typeof value === 'number' ? value : value === undefined || value === null ? '' : String(value);
+  }));
+};
+
+/**
+ * Render rows as CSV, quoting cells that contain the delimiter, quote character or a newline.
+ * Metadata is written as leading "# key: value" comment lines.
+ */
+export const renderCsv = (
+  columns: RecipeExportColumn[],
+  rows: Array<Array<string | number>>,
+  formatOptions: FormatOptions = {},
+  metadata?: ExportMetadata
+): string => {
+  const { delimiter = ',', quoteChar = '"', includeHeaders = true } = formatOptions;
+
+  const escapeCell = (cell: string | number): string => {
+    const str = String(cell);
+    if (str.includes(delimiter) || str.includes(quoteChar) || str.includes('\n')) {
+      return `${quoteChar}${str.split(quoteChar).join(quoteChar + quoteChar)}${quoteChar}`;
+    }
+    return str;
+  };
+
+  const lines = includeHeaders ? [columns.map(column => column.header), ...rows] : rows;
+  const comments = Object.entries(metadata ?? {}).map(([key, value]) => `# ${key}: ${String(value).replace(/\n/g, ' ')}`);
+  return [...comments, ...lines.map(row => row.map(escapeCell).join(delimiter))].join('\n');
+};
+
+/**
+ * Render rows as an Excel workbook: recipe details and legacy scores on the main sheet and
+ * one sheet per other evaluation system (only recipes scored in that system), optionally
+ * with a summary sheet and an export info sheet
+ */
+export const renderExcel = (
+  columns: RecipeExportColumn[],
+  rows: Array<Array<string | number>>,
+  recipes: Recipe[],
+  formatOptions: FormatOptions = {},
+  metadata?: ExportMetadata
+): Buffer => {
+  const { worksheetName = 'Recipes', includeSummarySheet = false } = formatOptions;
+  const workbook = XLSX.utils.book_new();
+
+  const appendSheet = (sheetColumns: number[], sheetRows: number[], name: string) => {
+    const headers = sheetColumns.map(index => columns[index]!.header);
+    const sheet = XLSX.utils.aoa_to_sheet([headers, ...sheetRows.map(row => sheetColumns.map(index => rows[row]![index]!))]);
+    sheet['!cols'] = headers.map(header => ({ wch: Math.max(12, header.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, name);
+  };
+
+  const columnIndexes = columns.map((_, index) => index);
+  const allRows = rows.map((_, index) => index);
+  const systemSheets = EVALUATION_EXPORT_GROUPS.filter(definition => definition.sheetName);
+  const mainColumns = columnIndexes.filter(index => !systemSheets.some(({ group }) => group === columns[index]!.group));
+  appendSheet(mainColumns, allRows, worksheetName);
+
+  // Recipe name is repeated on every system sheet so rows can be matched up
+  const nameColumn = columns.findIndex(column => column.key === 'recipeName');
+  for (const { group, sheetName, hasData } of systemSheets) {
+    const groupColumns = columnIndexes.filter(index => columns[index]!.group === group);
+    const groupRows = allRows.filter(index => hasData(recipes[index]!.sensationRecord));
+    if (groupColumns.length > 0 && groupRows.length > 0) {
+      appendSheet(nameColumn >= 0 ? [nameColumn, ...groupColumns] : groupColumns, groupRows, sheetName!);
+    }
+  }
+
+  if (includeSummarySheet) {
+    const ratings = recipes
+      .map(recipe => recipe.sensationRecord.overallImpression)
+      .filter((rating): rating is number => typeof rating === 'number');
+    const averageRating = ratings.length > 0
+      ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 100) / 100
+      : '';
+
+    const summary = XLSX.utils.aoa_to_sheet([
+      ['Metric', 'Value'],
+      ['Total Recipes', recipes.length],
+      ['Favorites', recipes.filter(recipe => recipe.isFavorite).length],
+      ['Rated Recipes', ratings.length],
+      ['Average Rating', averageRating],
+      ['Origins', new Set(recipes.map(recipe => recipe.beanInfo.origin)).size],
+      ['Exported At', new Date().toISOString()]
+    ]);
+    XLSX.utils.book_append_sheet(workbook, summary, 'Summary');
+  }
+
+  if (metadata) {
+    const info = XLSX.utils.aoa_to_sheet([['Field', 'Value'], ...Object.entries(metadata)]);
+    XLSX.utils.book_append_sheet(workbook, info, 'Export Info');
+  }
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};
+
+/**
+ * Render recipes as a JSON document. With a field selection only the selected columns are kept.
+ */
+export const renderJson = (
+  recipes: Recipe[],
+  columns?: RecipeExportColumn[],
+  metadata?: Record<string, unknown>
+): string => {
+  return JSON.stringify({
+    exportDate: new Date().toISOString(),
+    exportVersion: '1.0',
+    totalRecipes: recipes.length,
+    ...metadata,
+    recipes: columns
+      ? recipes.map(recipe => Object.fromEntries(columns.map(column => [column.key, column.value(recipe) ?? null])))
+      : recipes
+  }, null, 2);
+};
@@ -0,0 +1,106 @@
+// Spreadsheet recipe import: rows mapped by the client, created all or nothing
+
+import { RecipeModel } from '../database/index.js';
+import {
+  RecipeInputSchema,
+  transformRecipeInput,
+  validateImportedRecipe,
+  type RecipeImportRequestSchemaType,
+  type RecipeImportResult,
+  type RecipeImportRowResult,
+  type RecipeInput
+} from '../shared/index.js';
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : 'Unknown error';
+
+// Same normalization as POST /api/recipes: derived ratio, generated name. The recipe keeps
+// its evaluation system; only a recipe without one is recorded as legacy.
+const prepareImportedRecipe = (recipe: Parameters<typeof transformRecipeInput>[0]): RecipeInput => {
+  const input = transformRecipeInput(recipe) as unknown as RecipeInput;
+
+  return {
+    ...input,
+    collections: [],
+    turbulenceInfo: input.turbulenceInfo ?? {},
+    sensationRecord: { ...input.sensationRecord, evaluationSystem: input.sensationRecord?.evaluationSystem || 'legacy' }
+  };
+};
+
+// Check one row against the recipe schema, then the required fields and column lengths
+const planImportRow = ({ row, recipe }: RecipeImportRequestSchemaType['recipes'][number]) => {
+  const parsed = RecipeInputSchema.safeParse(recipe);
+  if (!parsed.success) {
+    const recipeName = (recipe as { recipeName?: unknown } | null)?.recipeName;
+    return {
+      row,
+      recipeName: typeof recipeName === 'string' ? recipeName : undefined,
+      errors: parsed.error.errors.map(error => `${error.path.join('.') || 'recipe'}: ${error.message}`)
+    };
+  }
+
+  const input = prepareImportedRecipe(parsed.data);
+  return { row, recipeName: input.recipeName, input, errors: validateImportedRecipe(input).map(issue => issue.message) };
+};
+
+/**
+ * Create the recipes of an import for an owner. Every row is validated before
+ * anything is written; if a write then fails, the recipes already created are
+ * deleted again, so either every row is imported or none is.
+ */
+export const importRecipes = async (
+  request: RecipeImportRequestSchemaType,
+  ownerId: string
+): Promise<RecipeImportResult> => {
+  const plans = request.recipes.map(planImportRow);
+  const results = new Map<number, RecipeImportRowResult>();
+
+  plans.forEach(({ row, recipeName, errors }) => {
+    if (errors.length > 0) {
+      results.set(row, { row, recipeName, status: 'failed', error: errors.join(', ') });
+    }
+  });
+
+  const summarize = (applied: boolean): RecipeImportResult => {
+    const ordered = plans.map(({ row, recipeName }) => results.get(row) ?? { row, recipeName, status: 'skipped' as const });
+    return {
+      applied,
+      created: applied ? ordered.filter(result => result.status === 'created').length : 0,
+      results: ordered
+    };
+  };
+
+  if (results.size > 0) {
+    return summarize(false);
+  }
+
+  const createdIds: string[] = [];
+
+  const valid = plans.flatMap(({ row, input }) => input ? [{ row, input }] : []);
+
+  for (const { row, input } of valid) {
+    try {
+      const recipe = await RecipeModel.create(input, ownerId);
+      createdIds.push(recipe.recipeId);
+      results.set(row, { row, recipeName: recipe.recipeName, status: 'created', recipeId: recipe.recipeId });
+    } catch (error) {
+      results.set(row, { row, recipeName: input.recipeName, status: 'failed', error: errorMessage(error) });
+
+      for (const id of createdIds.reverse()) {
+        try {
+          await RecipeModel.delete(id);
+        } catch (rollbackError) {
+          console.error('❌ Failed to roll back imported recipe:', rollbackError);
+        }
+      }
+      results.forEach(result => {
+        if (result.status === 'created') {
+          result.status = 'rolled_back';
+          delete result.recipeId;
+        }
+      });
+      return summarize(false);
+    }
+  }
+
+  return summarize(true);
+};
@@ -0,0 +1,68 @@
+// Score analytics: which brewing variables go together with better cups
+
+import type { EvaluationSystem } from './recipe.js';
+
+/**
+ * Brewing variables scores are analysed against
+ */
+export type AnalyticsVariable =
+  | 'ratio'
+  | 'temperature'
+  | 'grindSize'
+  | 'tds'
+  | 'extractionYield'
+  | 'daysOffRoast'
+  | 'altitude';
+
+/**
+ * One scored brew: a recipe's own tasting or one of its brew sessions
+ */
+export interface ScoreObservation {
+  recipeId: string;
+  recipeName: string;
+  sessionId?: string; // Set when the observation is a brew session
+  brewDate: string; // ISO timestamp
+  processingMethod: string; // Lower-cased, 'unknown' when missing
+  system: EvaluationSystem;
+  score: number; // In the evaluation system's own scale
+  normalizedScore: number; // 0-10, comparable across systems
+  values: Partial<Record<AnalyticsVariable, number>>; // Only the variables known for this brew
+}
+
+/**
+ * Least-squares fit of score against one variable
+ */
+export interface VariableCorrelation {
+  variable: AnalyticsVariable;
+  system: EvaluationSystem | 'all'; // 'all' uses normalized scores across systems
+  sampleSize: number;
+  correlation: number; // Pearson r, -1 to 1
+  slope: number; // Score change per unit of the variable
+  intercept: number;
+  rSquared: number;
+}
+
+/**
+ * Range of a variable where the best scoring brews sit
+ */
+export interface ScoreInsight {
+  variable: AnalyticsVariable;
+  processingMethod?: string; // Undefined for all coffees
+  low: number;
+  high: number;
+  sampleSize: number; // Brews with this variable (and processing method)
+  averageScoreInside: number; // Normalized 0-10
+  averageScoreOutside: number; // Normalized 0-10
+  message: string;
+}
+
+/**
+ * Response of GET /api/analytics/scores
+ */
+export interface ScoreAnalytics {
+  observationCount: number;
+  systems: EvaluationSystem[]; // Evaluation systems that occur, most used first
+  observations: ScoreObservation[];
+  correlations: VariableCorrelation[]; // Strongest first within each system
+  insights: ScoreInsight[]; // Biggest score difference first
+}
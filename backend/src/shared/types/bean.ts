@@ -0,0 +1,48 @@
+// Bean inventory related TypeScript interfaces
+
+import type { RoastingLevel } from './recipe.js';
+
+/**
+ * A bag of coffee in the inventory. Bags have no owner: the team shares one shelf,
+ * so any account can brew from a bag and its recipes deduct from the same remaining grams.
+ */
+export interface Bean {
+  beanId: string; // UUID
+  name?: string; // Optional - label for the bag, e.g. "Guji Hambela"
+  roaster?: string; // Optional - roaster / brand
+  origin: string; // Required - coffee origin country
+  processingMethod: string; // Required - washed, natural, etc.
+  altitude?: number; // Optional - meters above sea level
+  roastingLevel?: RoastingLevel; // Optional - controlled enum
+  roastDate?: string; // Optional - ISO date string
+  bagWeight: number; // Grams in the bag when bought
+  remainingGrams: number; // Grams left, reduced as recipes are saved
+  notes?: string; // Optional - tasting notes, where it was bought, etc.
+  isArchived: boolean; // Finished bags are kept for history but hidden from pickers
+
+  // Timestamps
+  dateCreated: string; // ISO timestamp
+  dateModified: string; // ISO timestamp
+}
+
+/**
+ * Input interface for adding a bag
+ */
+export interface BeanInput {
+  name?: string;
+  roaster?: string;
+  origin: string;
+  processingMethod: string;
+  altitude?: number;
+  roastingLevel?: RoastingLevel;
+  roastDate?: string;
+  bagWeight: number;
+  remainingGrams?: number; // Defaults to the full bag weight
+  notes?: string;
+  isArchived?: boolean;
+}
+
+/**
+ * Update interface for bags (partial updates allowed)
+ */
+export type BeanUpdate = Partial<BeanInput>;
@@ -0,0 +1,56 @@
+// Bulk recipe edit related TypeScript interfaces
+
+import type { BeanInfo, BrewingParameters, MeasurementsInput } from './recipe.js';
+import type { SearchFilters } from './search.js';
+
+/**
+ * Changes applied to every selected recipe. Each section is merged field by field,
+ * so { brewingParameters: { grinderModel: 'Comandante C40' } } leaves the other
+ * brewing parameters of each recipe untouched.
+ */
+export interface BulkRecipeChanges {
+  isFavorite?: boolean;
+  beanInfo?: Partial<BeanInfo>;
+  brewingParameters?: Partial<BrewingParameters>;
+  measurements?: Partial<MeasurementsInput>;
+  addToCollections?: string[]; // Collection IDs
+  removeFromCollections?: string[]; // Collection IDs
+}
+
+/**
+ * Bulk edit request: the recipes are given either by ID or by a search filter
+ */
+export interface BulkRecipeUpdateRequest {
+  recipeIds?: string[];
+  filters?: SearchFilters;
+  changes: BulkRecipeChanges;
+}
+
+export type BulkRecipeStatus =
+  | 'updated'
+  | 'unchanged' // Already had the requested values
+  | 'failed' // Invalid after the changes, or the write failed
+  | 'not_found'
+  | 'skipped' // Not attempted because another recipe failed
+  | 'rolled_back'; // Written, then reverted because another recipe failed
+
+/**
+ * Outcome for one recipe of a bulk edit
+ */
+export interface BulkRecipeResult {
+  recipeId: string;
+  recipeName?: string;
+  status: BulkRecipeStatus;
+  error?: string;
+}
+
+/**
+ * Bulk edit outcome. The edit is all or nothing: when any recipe fails,
+ * `applied` is false and no recipe keeps its changes.
+ */
+export interface BulkRecipeUpdateResult {
+  applied: boolean;
+  matched: number; // Recipes selected by the IDs or filter
+  updated: number;
+  results: BulkRecipeResult[];
+}
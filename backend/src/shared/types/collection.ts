@@ -1,5 +1,7 @@
 // Collection-related TypeScript interfaces
 
+import type { SearchFilters } from './search.js';
+
 /**
  * Collection Color options for visual organization
  */
@@ -25,6 +27,23 @@ export enum CollectionSortOption {
   RECIPE_COUNT = 'recipe-count'
 }
 
+/**
+ * Manual collections list their recipes explicitly; smart collections contain
+ * every recipe matching their rule, evaluated whenever the collection is read
+ */
+export type CollectionType = 'manual' | 'smart';
+
+/**
+ * Smart collection rule: a stored search filter, optionally limited to a rolling
+ * window (e.g. natural process, score >= 86, created in the last 90 days).
+ * The rule's own collection filter only sees manual collections.
+ */
+export interface SmartCollectionRule {
+  filters: SearchFilters;
+  withinDays?: number; // Only recipes whose dateField lies within the last N days
+  dateField?: 'dateCreated' | 'dateModified' | 'roastingDate'; // Defaults to dateCreated
+}
+
 /**
  * Collection Statistics interface
  */
@@ -49,6 +68,10 @@ export interface Collection {
   isPrivate: boolean; // Privacy setting for sharing
   isDefault: boolean; // System default collections (Favorites, etc.)
   tags: string[]; // Array of tags for organization
+  type: CollectionType; // Derived from the presence of a rule
+  rule?: SmartCollectionRule; // Smart collections only
+  parentId?: string; // Parent collection when nested; top level when absent
+  ownerId?: string; // User who created the collection; others see it only when not private
   
   // Timestamps
   dateCreated: string; // ISO timestamp
@@ -64,16 +87,23 @@ export interface Collection {
 /**
  * Collection Input interface for creation/updates
  */
-export interface CollectionInput extends Omit<Collection, 'collectionId' | 'dateCreated' | 'dateModified' | 'stats' | 'recipeIds'> {
+export interface CollectionInput extends Omit<Collection, 'collectionId' | 'dateCreated' | 'dateModified' | 'stats' | 'recipeIds' | 'type'> {
   // Auto-generated fields excluded
-  // recipeIds managed separately through assignments
+  // recipeIds managed separately through assignments; giving a rule creates a smart collection
 }
 
 /**
  * Collection Update interface - allows partial updates
  */
-export interface CollectionUpdate extends Partial<CollectionInput> {
-  // All fields optional for updates
+export interface CollectionUpdate extends Partial<Omit<CollectionInput, 'parentId'>> {
+  // All fields optional for updates; collections change parent through a move
+}
+
+/**
+ * Move a collection under another one, or to the top level with a null parent
+ */
+export interface CollectionMove {
+  parentId: string | null;
 }
 
 /**
@@ -87,11 +117,20 @@ export interface CollectionSummary {
   isPrivate: boolean;
   isDefault: boolean;
   tags: string[];
+  type: CollectionType;
+  rule?: SmartCollectionRule;
+  parentId?: string;
+  ownerId?: string;
   dateCreated: string;
   dateModified: string;
   recipeCount: number;
   averageRating: number;
   lastActivityDate: string;
+
+  // Rolled up over the collection and all of its sub-collections (each recipe counted once)
+  childCount: number;
+  rollupRecipeCount: number;
+  rollupAverageRating: number;
 }
 
 /**
@@ -112,6 +151,13 @@ export interface BatchCollectionOperation {
   recipeIds: string[];
 }
 
+export interface BatchCollectionResult {
+  operation: 'assign' | 'remove';
+  collectionId: string;
+  succeeded: string[]; // Recipes now in (assign) or no longer in (remove) the collection
+  failed: string[]; // Recipes that do not exist (assign) or were not in the collection (remove)
+}
+
 /**
  * Collection Filter interface
  */
@@ -15,6 +15,42 @@ export * from './search.js';
 // Export types
 export * from './export.js';
 
+// Revision types
+export * from './revision.js';
+
+// Brew session types
+export * from './session.js';
+
+// Bean inventory types
+export * from './bean.js';
+
+// Equipment registry types
+export * from './equipment.js';
+
+// Water profile types
+export * from './water.js';
+
+// Bulk edit types
+export * from './bulk.js';
+
+// User account types
+export * from './user.js';
+
+// Share link types
+export * from './share.js';
+
+// Spreadsheet import types
+export * from './import.js';
+
+// Backup and restore types
+export * from './backup.js';
+
+// Experiment types
+export * from './experiment.js';
+
+// Score analytics types
+export * from './analytics.js';
+
 // Type utility helpers
 export type Nullable<T> = T | null;
 export type Optional<T> = T | undefined;
@@ -0,0 +1,26 @@
+// Recipe version history related TypeScript interfaces
+
+import type { Recipe, RecipeId } from './recipe.js';
+
+/**
+ * Immutable snapshot of a recipe written on every save
+ */
+export interface RecipeRevision {
+  revisionId: string; // UUID
+  recipeId: RecipeId;
+  revisionNumber: number; // 1-based, increasing per recipe
+  snapshot: Recipe; // Full recipe as saved
+  changedFields: string[]; // Dot paths changed relative to the previous revision
+  restoredFrom?: number; // Revision number this save restored, if any
+  dateCreated: string; // ISO timestamp
+}
+
+/**
+ * A single field difference between two recipe versions
+ */
+export interface RecipeFieldChange {
+  field: string; // Dot path, e.g. 'measurements.coffeeBeans'
+  label: string; // Human readable field name
+  before: unknown;
+  after: unknown;
+}
@@ -1,6 +1,6 @@
 // Search and filtering related TypeScript interfaces
 
-import type { RoastingLevel, BrewingMethod, SortOption } from './recipe.js';
+import type { RoastingLevel, BrewingMethod, SortOption, RecipeSummary } from './recipe.js';
 
 /**
  * Search filters interface
@@ -13,10 +13,14 @@ export interface SearchFilters {
   origins?: string[]; // Filter by origin countries
   roastingLevels?: RoastingLevel[]; // Filter by roasting levels
   brewingMethods?: BrewingMethod[]; // Filter by brewing methods
+  waterProfileIds?: string[]; // Filter by brew water profile IDs
   
   // Numeric range filters
   overallImpressionRange?: [number, number]; // Min/max overall impression (1-10)
   altitudeRange?: [number, number]; // Min/max altitude in meters
+  coffeeWaterRatioRange?: [number, number]; // Min/max water-to-coffee ratio (e.g. 15 for 1:15)
+  tdsRange?: [number, number]; // Min/max total dissolved solids (%)
+  scoreRange?: [number, number]; // Min/max cupping score (SCA final score or CVA affective score, 0-100)
   
   // Date filters
   dateRange?: {
@@ -27,6 +31,7 @@ export interface SearchFilters {
   
   // Boolean filters
   favoritesOnly?: boolean; // Show only favorites
+  hasRating?: boolean; // Show only recipes with an overall impression
   
   // Collection filters
   collections?: string[]; // Filter by collection names
@@ -111,6 +116,20 @@ export interface SavedSearch {
   lastUsed: string;
 }
 
+/**
+ * Saved search input for creation
+ */
+export interface SavedSearchInput {
+  name: string;
+  filters: SearchFilters;
+  sort: SortConfig;
+}
+
+/**
+ * Saved search update (partial)
+ */
+export type SavedSearchUpdate = Partial<SavedSearchInput>;
+
 /**
  * Search suggestion interface
  */
@@ -119,4 +138,42 @@ export interface SearchSuggestion {
   value: string;
   label: string;
   count?: number; // How many times this appears
-}
\ No newline at end of file
+}
+
+/**
+ * One field of a full-text search hit, with the matched words marked
+ */
+export interface TextSearchMatch {
+  field: string; // Recipe field path, e.g. "sensationRecord.tastingNotes"
+  label: string; // Display name, e.g. "Tasting notes"
+  snippet: string; // Excerpt around the first match
+  highlights: Array<[number, number]>; // [start, end) offsets of matched words within the snippet
+}
+
+/**
+ * Full-text search hit; results are ranked by score, highest first
+ */
+export interface TextSearchResult {
+  recipe: RecipeSummary;
+  score: number;
+  matches: TextSearchMatch[];
+}
+
+/**
+ * Problem with one token of a structured search query
+ */
+export interface SearchQueryError {
+  token: string; // Token as typed, e.g. "score>=abc"
+  start: number; // Offset of the token within the query
+  end: number;
+  message: string;
+}
+
+/**
+ * Structured search query (e.g. `origin:ethiopia score>=85 jasmine`) split into filters and free text
+ */
+export interface ParsedSearchQuery {
+  filters: SearchFilters; // Filters from key:value tokens, with the free text as searchTerm
+  text: string; // Free text and notes: values, joined by spaces
+  errors: SearchQueryError[];
+}
@@ -0,0 +1,69 @@
+// Brew session related TypeScript interfaces
+
+import type { EvaluationSystem, Measurements, RecipeId, SensationRecord } from './recipe.js';
+
+/**
+ * Measurements actually used in a session; any value may be left out
+ */
+export type BrewSessionMeasurements = Partial<Measurements>;
+
+/**
+ * One brew of a recipe, with its own measurements and tasting
+ */
+export interface BrewSession {
+  sessionId: string; // UUID
+  recipeId: RecipeId;
+  brewDate: string; // ISO timestamp of when the coffee was brewed
+  measurements: BrewSessionMeasurements;
+  evaluation: SensationRecord; // Tasting for this brew, any evaluation system
+  notes?: string; // Free-form notes (what changed, how it went)
+  dateCreated: string; // ISO timestamp
+  dateModified: string; // ISO timestamp
+}
+
+/**
+ * Input interface for logging a session
+ */
+export interface BrewSessionInput {
+  brewDate?: string; // Defaults to now
+  measurements?: BrewSessionMeasurements; // coffeeWaterRatio is calculated automatically
+  evaluation?: SensationRecord;
+  notes?: string;
+}
+
+/**
+ * Update interface for sessions (partial updates allowed)
+ */
+export type BrewSessionUpdate = Partial<BrewSessionInput>;
+
+/**
+ * Headline score of a single evaluation, in its own system's units
+ */
+export interface EvaluationScore {
+  system: EvaluationSystem;
+  score: number;
+  maxScore: number;
+  normalizedScore: number; // Score rescaled to 0-10 so systems can be averaged together
+}
+
+/**
+ * Aggregates over all sessions of a recipe
+ */
+export interface BrewSessionStats {
+  sessionCount: number;
+  scoredSessionCount: number; // Sessions with a usable score
+  averageScore?: number; // Mean normalized score (0-10)
+  averageScoreBySystem: Partial<Record<EvaluationSystem, number>>; // Mean score in each system's own units
+  averageTds?: number;
+  averageExtractionYield?: number;
+  firstBrewDate?: string;
+  lastBrewDate?: string;
+}
+
+/**
+ * Sessions of a recipe together with their aggregates
+ */
+export interface BrewSessionList {
+  sessions: BrewSession[]; // Newest brew first
+  stats: BrewSessionStats;
+}
@@ -0,0 +1,99 @@
+import type { Collection } from '../types/collection.js';
+import type { BackupCollection, BackupData, BackupMembership, LegacyBackupData } from '../types/backup.js';
+
+/**
+ * Version written by GET /api/backup. Older backups are migrated step by step
+ * until they reach it.
+ */
+export const BACKUP_VERSION = '2.0';
+
+const toBackupCollection = (collection: Collection | BackupCollection): BackupCollection => {
+  const { recipeIds, stats, ownerId, ...rest } = collection as Collection;
+  return rest;
+};
+
+// 1.0 (browser backup): membership comes from the collections' recipe IDs and the
+// recipes' collection names. Smart collections list computed members, which are skipped.
+// Brew sessions, revisions, experiments and the library start out empty.
+const migrateFrom1_0 = (backup: LegacyBackupData): BackupData => {
+  const collections = backup.collections ?? [];
+  const manual = collections.filter(collection => collection.type !== 'smart' && !collection.rule);
+  const recipeIds = new Set(backup.recipes.map(recipe => recipe.recipeId));
+  const memberships = new Map<string, BackupMembership>();
+
+  const addMembership = (recipeId: string, collectionId: string) => {
+    if (recipeIds.has(recipeId)) {
+      memberships.set(`${recipeId}:${collectionId}`, { recipeId, collectionId, dateAssigned: backup.timestamp });
+    }
+  };
+
+  manual.forEach(collection => {
+    (collection.recipeIds ?? []).forEach(recipeId => addMembership(recipeId, collection.collectionId));
+  });
+  backup.recipes.forEach(recipe => {
+    (recipe.collections ?? []).forEach(name => {
+      const collection = manual.find(candidate => candidate.name === name);
+      if (collection) addMembership(recipe.recipeId, collection.collectionId);
+    });
+  });
+
+  return {
+    version: '2.0',
+    timestamp: backup.timestamp,
+    metadata: {
+      ...backup.metadata,
+      totalCollections: collections.length,
+      totalMemberships: memberships.size
+    },
+    recipes: backup.recipes,
+    collections: collections.map(toBackupCollection),
+    memberships: [...memberships.values()],
+    beans: [],
+    equipment: [],
+    waterProfiles: [],
+    savedSearches: [],
+    brewSessions: [],
+    revisions: [],
+    experiments: [],
+    userPreferences: backup.userPreferences
+  };
+};
+
+// Upgrade steps keyed by the version they upgrade from
+const MIGRATIONS: Record<string, (backup: any) => BackupData> = {
+  '1.0': migrateFrom1_0
+};
+
+/**
+ * Whether a backup of this version can be restored
+ */
+export const isSupportedBackupVersion = (version: string): boolean =>
+  version === BACKUP_VERSION || version in MIGRATIONS;
+
+/**
+ * Bring a backup of any supported version to the current format
+ * @throws Error when the version is unknown
+ */
+export const migrateBackup = (backup: BackupData | LegacyBackupData): BackupData => {
+  let current: any = backup;
+  while (current.version !== BACKUP_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      throw new Error(`Unsupported backup version "${current.version}"`);
+    }
+    current = migrate(current);
+  }
+
+  return {
+    ...current,
+    collections: (current.collections ?? []).map(toBackupCollection),
+    memberships: current.memberships ?? [],
+    beans: current.beans ?? [],
+    equipment: current.equipment ?? [],
+    waterProfiles: current.waterProfiles ?? [],
+    savedSearches: current.savedSearches ?? [],
+    brewSessions: current.brewSessions ?? [],
+    revisions: current.revisions ?? [],
+    experiments: current.experiments ?? []
+  };
+};
@@ -0,0 +1,57 @@
+// Bean inventory helpers: days off roast and filling recipe bean info from a bag
+
+import type { BeanInfo } from '../types/recipe.js';
+import type { Bean } from '../types/bean.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days between roasting and a given moment (defaults to now)
+ * @param roastDate - ISO roast date
+ * @param at - Moment to measure at, e.g. the date a recipe was brewed
+ * @returns Days off roast, or null when the roast date is missing or invalid
+ */
+export const calculateDaysOffRoast = (roastDate: string | undefined, at: string | Date = new Date()): number | null => {
+  if (!roastDate) return null;
+
+  const roasted = new Date(roastDate);
+  const measured = typeof at === 'string' ? new Date(at) : at;
+  if (isNaN(roasted.getTime()) || isNaN(measured.getTime())) return null;
+
+  // Compare calendar days so a bag roasted yesterday evening is 1 day off roast this morning
+  const roastedDay = Date.UTC(roasted.getFullYear(), roasted.getMonth(), roasted.getDate());
+  const measuredDay = Date.UTC(measured.getFullYear(), measured.getMonth(), measured.getDate());
+
+  return Math.max(0, Math.round((measuredDay - roastedDay) / MS_PER_DAY));
+};
+
+/**
+ * Format days off roast for display (e.g. "12 days off roast")
+ */
+export const formatDaysOffRoast = (days: number): string => {
+  if (days === 0) return 'Roasted today';
+  return `${days} ${days === 1 ? 'day' : 'days'} off roast`;
+};
+
+/**
+ * Display label for a bag, e.g. "Onyx · Guji Hambela"
+ */
+export const formatBeanLabel = (bean: Pick<Bean, 'name' | 'roaster' | 'origin'>): string => {
+  return [bean.roaster, bean.name || bean.origin].filter(Boolean).join(' · ');
+};
+
+/**
+ * Recipe bean information taken from an inventory bag
+ */
+export const beanToBeanInfo = (bean: Bean): BeanInfo => {
+  return {
+    beanId: bean.beanId,
+    coffeeBeanBrand: bean.roaster,
+    origin: bean.origin,
+    processingMethod: bean.processingMethod,
+    altitude: bean.altitude,
+    // Recipes keep the plain calendar date used by the date input
+    roastingDate: bean.roastDate?.split('T')[0],
+    roastingLevel: bean.roastingLevel
+  };
+};
@@ -0,0 +1,74 @@
+// Collections nest through an optional parentId. These helpers work on any list of
+// collections (full collections or summaries) and tolerate missing parents and cycles.
+
+interface NestedCollection {
+  collectionId: string;
+  parentId?: string;
+}
+
+export interface CollectionTreeNode<T extends NestedCollection> {
+  collection: T;
+  children: CollectionTreeNode<T>[];
+  depth: number; // 0 for top-level collections
+}
+
+/**
+ * Arrange collections into a tree, keeping the given order among siblings.
+ * Collections whose parent is not in the list become top-level nodes.
+ */
+export const buildCollectionTree = <T extends NestedCollection>(collections: T[]): CollectionTreeNode<T>[] => {
+  const ids = new Set(collections.map(collection => collection.collectionId));
+  const childrenByParent = new Map<string | undefined, T[]>();
+  collections.forEach(collection => {
+    const parentId = collection.parentId && ids.has(collection.parentId) ? collection.parentId : undefined;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), collection]);
+  });
+
+  const visited = new Set<string>();
+  const build = (parentId: string | undefined, depth: number): CollectionTreeNode<T>[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter(collection => !visited.has(collection.collectionId))
+      .map(collection => {
+        visited.add(collection.collectionId);
+        return { collection, depth, children: build(collection.collectionId, depth + 1) };
+      });
+
+  return build(undefined, 0);
+};
+
+/**
+ * Collections from the top level down to the given one, e.g. for breadcrumbs.
+ * Empty when the collection is not in the list.
+ */
+export const getCollectionPath = <T extends NestedCollection>(collectionId: string, collections: T[]): T[] => {
+  const byId = new Map(collections.map(collection => [collection.collectionId, collection]));
+  const path: T[] = [];
+  let current = byId.get(collectionId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * IDs of every collection nested anywhere below the given one
+ */
+export const getDescendantIds = (collectionId: string, collections: NestedCollection[]): string[] => {
+  const descendants: string[] = [];
+  const queue = [collectionId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    collections
+      .filter(collection => collection.parentId === parentId && collection.collectionId !== collectionId && !descendants.includes(collection.collectionId))
+      .forEach(collection => {
+        descendants.push(collection.collectionId);
+        queue.push(collection.collectionId);
+      });
+  }
+
+  return descendants;
+};
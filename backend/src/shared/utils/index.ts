@@ -9,6 +9,55 @@ export * from './formatting.js';
 // Constants and configuration
 export * from './constants.js';
 
+// Recipe comparison utilities
+export * from './recipeDiff.js';
+
+// Brew session scoring utilities
+export * from './sessionStats.js';
+
+// Bean inventory utilities
+export * from './beans.js';
+
+// Equipment registry utilities
+export * from './equipment.js';
+
+// Grind setting translation utilities
+export * from './grindConversion.js';
+
+// Water chemistry utilities
+export * from './waterChemistry.js';
+export * from './waterProfileStats.js';
+
+// Evaluation system export columns
+export * from './evaluationExport.js';
+
+// Full-text recipe search
+export * from './textSearch.js';
+
+// Structured search query syntax
+export * from './searchQuery.js';
+
+// Smart collection rules
+export * from './smartCollections.js';
+
+// Nested collection trees
+export * from './collectionTree.js';
+
+// Share link redaction
+export * from './shareRedaction.js';
+
+// Spreadsheet recipe import
+export * from './recipeImport.js';
+
+// Backup format versions and migrations
+export * from './backup.js';
+
+// Brew experiments
+export * from './experiments.js';
+
+// Score correlations and best-range insights
+export * from './scoreAnalytics.js';
+
 // Common utility functions
 export const generateId = (): string => {
   return crypto.randomUUID();
@@ -0,0 +1,294 @@
+// Correlations, regressions and best-range insights between brewing variables and scores
+
+import type { Recipe, EvaluationSystem } from '../types/recipe.js';
+import type { BrewSession } from '../types/session.js';
+import type { Equipment } from '../types/equipment.js';
+import type {
+  AnalyticsVariable,
+  ScoreAnalytics,
+  ScoreInsight,
+  ScoreObservation,
+  VariableCorrelation
+} from '../types/analytics.js';
+import { getEvaluationScore } from './sessionStats.js';
+import { calculateDaysOffRoast } from './beans.js';
+import { getGrinderCalibration, settingToMicrons } from './grindConversion.js';
+
+export const MIN_CORRELATION_SAMPLE = 3;
+export const MIN_INSIGHT_SAMPLE = 6;
+
+// Smallest score gap (0-10) between a window and the rest that is worth reporting
+const MIN_INSIGHT_DIFFERENCE = 0.25;
+
+export const ANALYTICS_VARIABLES: Record<AnalyticsVariable, { label: string; unit: string; step: number }> = {
+  ratio: { label: 'Ratio', unit: '', step: 0.5 },
+  temperature: { label: 'Water temperature', unit: '°C', step: 1 },
+  grindSize: { label: 'Grind size', unit: ' µm', step: 10 },
+  tds: { label: 'TDS', unit: '%', step: 0.05 },
+  extractionYield: { label: 'Extraction', unit: '%', step: 0.5 },
+  daysOffRoast: { label: 'Days off roast', unit: ' days', step: 1 },
+  altitude: { label: 'Altitude', unit: ' m', step: 50 }
+};
+
+const ANALYTICS_VARIABLE_KEYS = Object.keys(ANALYTICS_VARIABLES) as AnalyticsVariable[];
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Linear interpolation between the closest ranks of sorted values
+const percentile = (sorted: number[], fraction: number): number => {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+};
+
+const formatNumber = (value: number): string => String(round(value, 2));
+
+/**
+ * Display form of a variable's value, e.g. "1:16", "93°C" or "14 days"
+ */
+export const formatAnalyticsValue = (variable: AnalyticsVariable, value: number): string => {
+  return variable === 'ratio'
+    ? `1:${formatNumber(value)}`
+    : `${formatNumber(value)}${ANALYTICS_VARIABLES[variable].unit}`;
+};
+
+/**
+ * Display form of a range, e.g. "19.5–21%" or "1:15.5–16.5"
+ */
+export const formatAnalyticsRange = (variable: AnalyticsVariable, low: number, high: number): string => {
+  return variable === 'ratio'
+    ? `1:${formatNumber(low)}–${formatNumber(high)}`
+    : `${formatNumber(low)}–${formatNumber(high)}${ANALYTICS_VARIABLES[variable].unit}`;
+};
+
+// Approximate particle size, when the grind setting is a number and the grinder has a calibration
+const getGrindSize = (recipe: Recipe, grinders: Map<string, Pick<Equipment, 'calibration'>>): number | undefined => {
+  const { grinderModel, grinderUnit, grinderId } = recipe.brewingParameters;
+  const setting = parseFloat(grinderUnit);
+  if (!Number.isFinite(setting)) return undefined;
+
+  const calibration = getGrinderCalibration(grinderModel, grinderId ? grinders.get(grinderId) : undefined);
+  return calibration ? settingToMicrons(calibration, setting) : undefined;
+};
+
+const definedValues = (values: Partial<Record<AnalyticsVariable, number | null | undefined>>) => {
+  const result: Partial<Record<AnalyticsVariable, number>> = {};
+  ANALYTICS_VARIABLE_KEYS.forEach(variable => {
+    const value = values[variable];
+    if (typeof value === 'number' && Number.isFinite(value)) result[variable] = value;
+  });
+  return result;
+};
+
+/**
+ * Turn every scored recipe tasting and brew session into an observation.
+ * Sessions use their own ratio, TDS and extraction (falling back to the recipe's ratio)
+ * and their brew date for days off roast; the rest comes from the recipe.
+ * @param grinders - Registry grinders, for their calibration tables
+ */
+export const collectScoreObservations = (
+  recipes: Recipe[],
+  sessions: BrewSession[],
+  grinders: Array<Pick<Equipment, 'equipmentId' | 'calibration'>> = []
+): ScoreObservation[] => {
+  const grindersById = new Map(grinders.map(grinder => [grinder.equipmentId, grinder]));
+  const recipesById = new Map(recipes.map(recipe => [recipe.recipeId, recipe]));
+  const observations: ScoreObservation[] = [];
+
+  const recipeValues = (recipe: Recipe) => ({
+    temperature: recipe.brewingParameters.waterTemperature,
+    grindSize: getGrindSize(recipe, grindersById),
+    altitude: recipe.beanInfo.altitude
+  });
+  const describe = (recipe: Recipe) => ({
+    recipeId: recipe.recipeId,
+    recipeName: recipe.recipeName,
+    processingMethod: recipe.beanInfo.processingMethod?.trim().toLowerCase() || 'unknown'
+  });
+
+  recipes.forEach(recipe => {
+    const score = getEvaluationScore(recipe.sensationRecord);
+    if (!score) return;
+
+    const { measurements } = recipe;
+    observations.push({
+      ...describe(recipe),
+      brewDate: recipe.dateCreated,
+      system: score.system,
+      score: score.score,
+      normalizedScore: score.normalizedScore,
+      values: definedValues({
+        ...recipeValues(recipe),
+        ratio: measurements.coffeeWaterRatio,
+        tds: measurements.tds,
+        extractionYield: measurements.extractionYield,
+        daysOffRoast: calculateDaysOffRoast(recipe.beanInfo.roastingDate, recipe.dateCreated)
+      })
+    });
+  });
+
+  sessions.forEach(session => {
+    const recipe = recipesById.get(session.recipeId);
+    const score = getEvaluationScore(session.evaluation);
+    if (!recipe || !score) return;
+
+    const { measurements } = session;
+    observations.push({
+      ...describe(recipe),
+      sessionId: session.sessionId,
+      brewDate: session.brewDate,
+      system: score.system,
+      score: score.score,
+      normalizedScore: score.normalizedScore,
+      values: definedValues({
+        ...recipeValues(recipe),
+        ratio: measurements.coffeeWaterRatio ?? recipe.measurements.coffeeWaterRatio,
+        tds: measurements.tds,
+        extractionYield: measurements.extractionYield,
+        daysOffRoast: calculateDaysOffRoast(recipe.beanInfo.roastingDate, session.brewDate)
+      })
+    });
+  });
+
+  return observations;
+};
+
+/**
+ * Least-squares line through the points with Pearson's r
+ * @returns The fit, or null with fewer than MIN_CORRELATION_SAMPLE points or when either axis does not vary
+ */
+export const fitLinearRegression = (
+  points: Array<{ x: number; y: number }>
+): Pick<VariableCorrelation, 'correlation' | 'slope' | 'intercept' | 'rSquared'> | null => {
+  if (points.length < MIN_CORRELATION_SAMPLE) return null;
+
+  const meanX = average(points.map(point => point.x));
+  const meanY = average(points.map(point => point.y));
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  points.forEach(({ x, y }) => {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+
+  const slope = covariance / varianceX;
+  const correlation = covariance / Math.sqrt(varianceX * varianceY);
+  return {
+    correlation: round(correlation, 3),
+    slope: round(slope, 4),
+    intercept: round(meanY - slope * meanX, 4),
+    rSquared: round(correlation * correlation, 3)
+  };
+};
+
+/**
+ * Range of a variable holding the middle half of the best scoring third of the brews,
+ * widened to the variable's step. Reported only when brews inside it score clearly
+ * better than the rest.
+ */
+export const findBestScoreWindow = (
+  variable: AnalyticsVariable,
+  points: Array<{ x: number; score: number }>
+): Omit<ScoreInsight, 'processingMethod' | 'message'> | null => {
+  if (points.length < MIN_INSIGHT_SAMPLE) return null;
+
+  const best = [...points]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(3, Math.ceil(points.length / 3)))
+    .map(point => point.x)
+    .sort((a, b) => a - b);
+
+  const { step } = ANALYTICS_VARIABLES[variable];
+  const low = round(Math.floor(percentile(best, 0.25) / step) * step, 2);
+  let high = round(Math.ceil(percentile(best, 0.75) / step) * step, 2);
+  if (high === low) high = round(low + step, 2);
+
+  const inside = points.filter(point => point.x >= low && point.x <= high).map(point => point.score);
+  const outside = points.filter(point => point.x < low || point.x > high).map(point => point.score);
+  if (inside.length === 0 || outside.length === 0) return null;
+
+  const averageScoreInside = round(average(inside), 2);
+  const averageScoreOutside = round(average(outside), 2);
+  if (averageScoreInside - averageScoreOutside < MIN_INSIGHT_DIFFERENCE) return null;
+
+  return { variable, low, high, sampleSize: points.length, averageScoreInside, averageScoreOutside };
+};
+
+const describeInsight = (insight: Omit<ScoreInsight, 'message'>): string => {
+  const { label } = ANALYTICS_VARIABLES[insight.variable];
+  const noun = label === label.toUpperCase() ? label : label.toLowerCase();
+  const coffees = insight.processingMethod ? ` for ${insight.processingMethod} coffees` : '';
+  return `Your best ${noun} window${coffees} is ${formatAnalyticsRange(insight.variable, insight.low, insight.high)}`;
+};
+
+/**
+ * Correlate every variable with the scores of each evaluation system (and with the
+ * normalized scores of all systems together), and find the best scoring ranges
+ * overall and per processing method.
+ */
+export const calculateScoreAnalytics = (observations: ScoreObservation[]): ScoreAnalytics => {
+  const systemCounts = new Map<EvaluationSystem, number>();
+  observations.forEach(observation => {
+    systemCounts.set(observation.system, (systemCounts.get(observation.system) ?? 0) + 1);
+  });
+  const systems = Array.from(systemCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([system]) => system);
+
+  const correlations: VariableCorrelation[] = [];
+  (['all', ...systems] as const).forEach(system => {
+    const scored = system === 'all' ? observations : observations.filter(observation => observation.system === system);
+    const fits = ANALYTICS_VARIABLE_KEYS.flatMap(variable => {
+      const points = scored
+        .filter(observation => observation.values[variable] !== undefined)
+        .map(observation => ({
+          x: observation.values[variable]!,
+          y: system === 'all' ? observation.normalizedScore : observation.score
+        }));
+      const fit = fitLinearRegression(points);
+      return fit ? [{ variable, system, sampleSize: points.length, ...fit }] : [];
+    });
+    correlations.push(...fits.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation)));
+  });
+
+  // All coffees, then each processing method that is not the only one
+  const methods = Array.from(new Set(observations.map(observation => observation.processingMethod)));
+  const groups: Array<{ processingMethod?: string; observations: ScoreObservation[] }> = [{ observations }];
+  if (methods.length > 1) {
+    methods.forEach(method => {
+      groups.push({ processingMethod: method, observations: observations.filter(observation => observation.processingMethod === method) });
+    });
+  }
+
+  const insights: ScoreInsight[] = [];
+  groups.forEach(group => {
+    ANALYTICS_VARIABLE_KEYS.forEach(variable => {
+      const points = group.observations
+        .filter(observation => observation.values[variable] !== undefined)
+        .map(observation => ({ x: observation.values[variable]!, score: observation.normalizedScore }));
+      const window = findBestScoreWindow(variable, points);
+      if (!window) return;
+
+      const insight = { ...window, processingMethod: group.processingMethod };
+      insights.push({ ...insight, message: describeInsight(insight) });
+    });
+  });
+  insights.sort((a, b) => (b.averageScoreInside - b.averageScoreOutside) - (a.averageScoreInside - a.averageScoreOutside));
+
+  return {
+    observationCount: observations.length,
+    systems,
+    observations,
+    correlations,
+    insights
+  };
+};
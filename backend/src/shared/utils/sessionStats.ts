@@ -0,0 +1,74 @@
+// Scoring and aggregation helpers for brew sessions
+
+import type { EvaluationSystem, SensationRecord } from '../types/recipe.js';
+import type { BrewSession, BrewSessionStats, EvaluationScore } from '../types/session.js';
+
+const toScore = (system: EvaluationSystem, score: unknown, maxScore: number): EvaluationScore | null => {
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return null;
+  }
+
+  return {
+    system,
+    score,
+    maxScore,
+    normalizedScore: Math.round((score / maxScore) * 1000) / 100
+  };
+};
+
+const average = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+};
+
+/**
+ * Get the headline score of an evaluation in whichever system it uses.
+ * CVA Descriptive has no quality score, so it (like legacy records) falls
+ * back to the 1-10 overall impression when one was given.
+ * @returns The score, or null when the evaluation has none
+ */
+export const getEvaluationScore = (record: SensationRecord | undefined): EvaluationScore | null => {
+  if (!record) return null;
+
+  switch (record.evaluationSystem) {
+    case 'traditional-sca':
+      return toScore('traditional-sca', record.traditionalSCA?.finalScore, 100);
+    case 'cva-affective':
+      return toScore('cva-affective', record.cvaAffective?.cvaScore, 100);
+    case 'quick-tasting':
+      return toScore('quick-tasting', record.quickTasting?.overallQuality, 9);
+    case 'cva-descriptive':
+      return toScore('cva-descriptive', record.overallImpression, 10);
+    default:
+      return toScore('legacy', record.overallImpression, 10);
+  }
+};
+
+/**
+ * Aggregate scores and measurements over a recipe's sessions
+ */
+export const calculateSessionStats = (sessions: BrewSession[]): BrewSessionStats => {
+  const scores = sessions
+    .map(session => getEvaluationScore(session.evaluation))
+    .filter((score): score is EvaluationScore => score !== null);
+
+  const averageScoreBySystem: Partial<Record<EvaluationSystem, number>> = {};
+  for (const system of new Set(scores.map(score => score.system))) {
+    averageScoreBySystem[system] = average(scores.filter(score => score.system === system).map(score => score.score));
+  }
+
+  const brewDates = sessions.map(session => session.brewDate).sort();
+
+  return {
+    sessionCount: sessions.length,
+    scoredSessionCount: scores.length,
+    averageScore: average(scores.map(score => score.normalizedScore)),
+    averageScoreBySystem,
+    averageTds: average(sessions.map(session => session.measurements.tds).filter((tds): tds is number => typeof tds === 'number')),
+    averageExtractionYield: average(
+      sessions.map(session => session.measurements.extractionYield).filter((ey): ey is number => typeof ey === 'number')
+    ),
+    firstBrewDate: brewDates[0],
+    lastBrewDate: brewDates[brewDates.length - 1]
+  };
+};
@@ -0,0 +1,65 @@
+import type { SmartCollectionRule } from '../types/collection.js';
+import type { SearchFilters } from '../types/search.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FIELD_LABELS: Record<NonNullable<SmartCollectionRule['dateField']>, string> = {
+  dateCreated: 'created',
+  dateModified: 'modified',
+  roastingDate: 'roasted'
+};
+
+/**
+ * Turn a smart collection rule into concrete search filters as of `now`.
+ * A rolling window replaces any fixed date range in the stored filters.
+ */
+export const resolveSmartCollectionFilters = (rule: SmartCollectionRule, now: Date = new Date()): SearchFilters => {
+  if (!rule.withinDays) {
+    return { ...rule.filters };
+  }
+
+  return {
+    ...rule.filters,
+    dateRange: {
+      field: rule.dateField ?? 'dateCreated',
+      start: new Date(now.getTime() - rule.withinDays * DAY_MS).toISOString(),
+      end: now.toISOString()
+    }
+  };
+};
+
+/**
+ * One-line description of a rule, e.g. "Natural • Score ≥ 86 • Created in the last 90 days"
+ */
+export const describeSmartCollectionRule = (rule: SmartCollectionRule): string => {
+  const { filters } = rule;
+  const parts: string[] = [];
+  const range = (label: string, [min, max]: [number, number], unit = '') => parts.push(`${label} ${min}-${max}${unit}`);
+
+  if (filters.searchTerm?.trim()) parts.push(`"${filters.searchTerm.trim()}"`);
+  if (filters.origins?.length) parts.push(filters.origins.join(' or '));
+  if (filters.roastingLevels?.length) parts.push(`${filters.roastingLevels.join(' or ')} roast`);
+  if (filters.brewingMethods?.length) parts.push(filters.brewingMethods.join(' or '));
+  if (filters.scoreRange) {
+    const [min, max] = filters.scoreRange;
+    parts.push(max >= 100 ? `Score ≥ ${min}` : `Score ${min}-${max}`);
+  }
+  if (filters.overallImpressionRange) range('Rating', filters.overallImpressionRange);
+  if (filters.tdsRange) range('TDS', filters.tdsRange, '%');
+  if (filters.coffeeWaterRatioRange) range('Ratio 1:', filters.coffeeWaterRatioRange);
+  if (filters.altitudeRange) range('Altitude', filters.altitudeRange, ' m');
+  if (filters.favoritesOnly) parts.push('Favorites');
+  if (filters.hasRating) parts.push('Rated');
+  if (filters.collections?.length) parts.push(`In ${filters.collections.join(' or ')}`);
+  if (filters.includeUncollected) parts.push('Uncollected');
+
+  if (rule.withinDays) {
+    const label = DATE_FIELD_LABELS[rule.dateField ?? 'dateCreated'];
+    parts.push(`${label.charAt(0).toUpperCase()}${label.slice(1)} in the last ${rule.withinDays} days`);
+  } else if (filters.dateRange) {
+    const label = DATE_FIELD_LABELS[filters.dateRange.field];
+    parts.push(`${label.charAt(0).toUpperCase()}${label.slice(1)} ${filters.dateRange.start.split('T')[0]} to ${filters.dateRange.end.split('T')[0]}`);
+  }
+
+  return parts.length > 0 ? parts.join(' • ') : 'All recipes';
+};
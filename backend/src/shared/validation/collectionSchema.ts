@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { CollectionColor } from '../types/collection.js';
+import { SearchFiltersSchema } from './searchSchema.js';
 
 // Collection validation schema
 export const CollectionSchema = z.object({
@@ -9,6 +11,13 @@ export const CollectionSchema = z.object({
   recipeIds: z.array(z.string().uuid('Each recipe ID must be a valid UUID')).default([])
 });
 
+// Smart collection rule: stored search filters plus an optional rolling date window
+export const SmartCollectionRuleSchema = z.object({
+  filters: SearchFiltersSchema,
+  withinDays: z.number().int().min(1, 'Window must be at least one day').max(3650, 'Window must be 10 years or less').optional(),
+  dateField: z.enum(['dateCreated', 'dateModified', 'roastingDate']).optional()
+}).strict();
+
 // Collection Input validation schema (for creation)
 export const CollectionInputSchema = z.object({
   name: z.string().min(1, 'Collection name is required').max(100, 'Collection name must be 100 characters or less'),
@@ -16,7 +25,9 @@ export const CollectionInputSchema = z.object({
   color: z.enum(['blue', 'green', 'orange', 'red', 'purple', 'teal', 'pink', 'indigo', 'gray']).default('blue'),
   isPrivate: z.boolean().default(false),
   isDefault: z.boolean().default(false),
-  tags: z.array(z.string()).default([])
+  tags: z.array(z.string()).default([]),
+  rule: SmartCollectionRuleSchema.optional(),
+  parentId: z.string().uuid('Parent collection ID must be a valid UUID').optional()
 });
 
 // Collection Update validation schema (partial updates allowed)
@@ -26,9 +37,28 @@ export const CollectionUpdateSchema = z.object({
   color: z.enum(['blue', 'green', 'orange', 'red', 'purple', 'teal', 'pink', 'indigo', 'gray']).optional(),
   isPrivate: z.boolean().optional(),
   isDefault: z.boolean().optional(),
-  tags: z.array(z.string()).optional()
+  tags: z.array(z.string()).optional(),
+  rule: SmartCollectionRuleSchema.optional() // Smart collections only; the type cannot change
+});
+
+// Collection move: a new parent, or null for the top level
+export const CollectionMoveSchema = z.object({
+  parentId: z.string().uuid('Parent collection ID must be a valid UUID').nullable()
 });
 
+// Query string for collection summary lists (values arrive as strings). The identity
+// preprocess widens the input type, since parsing changes it (defaults, isPrivate).
+export const CollectionSummaryQuerySchema = z.preprocess(
+  query => query,
+  z.object({
+    searchQuery: z.string().max(100, 'Search query must be 100 characters or less').optional(),
+    color: z.nativeEnum(CollectionColor).optional(),
+    isPrivate: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    sortBy: z.enum(['name', 'created-date', 'modified-date', 'recipe-count']).default('name'),
+    sortOrder: z.enum(['asc', 'desc']).default('asc')
+  })
+);
+
 // Collection Summary validation schema
 export const CollectionSummarySchema = z.object({
   id: z.string().uuid(),
@@ -46,6 +76,15 @@ export const RecipeCollectionAssociationSchema = z.object({
   addedDate: z.string().datetime('Added date must be a valid datetime')
 });
 
+// Batch membership change: the recipes to add to or remove from one collection
+export const COLLECTION_BATCH_LIMIT = 500;
+
+export const CollectionRecipesBatchSchema = z.object({
+  recipeIds: z.array(z.string().uuid('Recipe ID must be a valid UUID'))
+    .min(1, 'At least one recipe ID is required')
+    .max(COLLECTION_BATCH_LIMIT, `At most ${COLLECTION_BATCH_LIMIT} recipes can be changed at once`)
+});
+
 // Custom validation functions
 export const validateCollection = (data: unknown) => {
   return CollectionSchema.safeParse(data);
@@ -85,4 +124,8 @@ export const transformCollectionInput = (input: z.infer<typeof CollectionInputSc
 // Export type inference helpers
 export type CollectionSchemaType = z.infer<typeof CollectionSchema>;
 export type CollectionInputSchemaType = z.infer<typeof CollectionInputSchema>;
-export type CollectionUpdateSchemaType = z.infer<typeof CollectionUpdateSchema>;
\ No newline at end of file
+export type CollectionUpdateSchemaType = z.infer<typeof CollectionUpdateSchema>;
+export type SmartCollectionRuleSchemaType = z.infer<typeof SmartCollectionRuleSchema>;
+export type CollectionSummaryQuerySchemaType = z.infer<typeof CollectionSummaryQuerySchema>;
+export type CollectionMoveSchemaType = z.infer<typeof CollectionMoveSchema>;
+export type CollectionRecipesBatchSchemaType = z.infer<typeof CollectionRecipesBatchSchema>;
\ No newline at end of file
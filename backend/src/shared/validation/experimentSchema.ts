@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { SensationRecordWithEvaluationSchema } from './recipeSchema.js';
+import { MIN_WATER_TEMPERATURE, MAX_WATER_TEMPERATURE } from '../constants/waterTemperature.js';
+import { MIN_EXPERIMENT_VARIANTS, MAX_EXPERIMENT_VARIANTS, isSameExperimentValue } from '../utils/experiments.js';
+
+export const ExperimentVariableSchema = z.enum(['grind', 'temperature', 'ratio', 'water', 'filter']);
+
+const ExperimentVariantInputSchema = z.object({
+  value: z.union([
+    z.number(),
+    z.string().trim().min(1, 'Variant value is required').max(100, 'Variant value must be 100 characters or less')
+  ]),
+  label: z.string().trim().max(50, 'Variant label must be 50 characters or less').optional()
+});
+
+// Experiment Input validation schema (for planning an experiment)
+export const ExperimentInputSchema = z.object({
+  name: z.string().trim().min(1, 'Experiment name is required').max(100, 'Experiment name must be 100 characters or less'),
+  baseRecipeId: z.string().uuid('Base recipe ID must be a valid UUID'),
+  variable: ExperimentVariableSchema,
+  variants: z.array(ExperimentVariantInputSchema)
+    .min(MIN_EXPERIMENT_VARIANTS, `An experiment needs at least ${MIN_EXPERIMENT_VARIANTS} variants`)
+    .max(MAX_EXPERIMENT_VARIANTS, `An experiment can have at most ${MAX_EXPERIMENT_VARIANTS} variants`),
+  notes: z.string().max(2000, 'Notes must be 2000 characters or less').optional()
+}).superRefine((experiment, ctx) => {
+  experiment.variants.forEach(({ value }, index) => {
+    const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['variants', index, 'value'] });
+
+    switch (experiment.variable) {
+      case 'temperature':
+        if (typeof value !== 'number' || value < MIN_WATER_TEMPERATURE || value > MAX_WATER_TEMPERATURE) {
+          issue(`Water temperature must be between ${MIN_WATER_TEMPERATURE} and ${MAX_WATER_TEMPERATURE}°C`);
+        }
+        break;
+      case 'ratio':
+        if (typeof value !== 'number' || value < 1 || value > 30) {
+          issue('Ratio must be between 1 and 30 grams of water per gram of coffee');
+        }
+        break;
+      case 'water':
+        if (typeof value !== 'string' || !z.string().uuid().safeParse(value).success) {
+          issue('Water variants must be water profile IDs');
+        }
+        break;
+      default:
+        if (typeof value !== 'string') {
+          issue(`${experiment.variable === 'grind' ? 'Grind settings' : 'Filters'} must be given as text`);
+        }
+    }
+
+    if (experiment.variants.slice(0, index).some(other => isSameExperimentValue(other.value, value))) {
+      issue('Each variant needs a different value');
+    }
+  });
+});
+
+// Blind tasting validation schema (POST /api/experiments/:id/tastings)
+export const ExperimentTastingSchema = z.object({
+  code: z.string().regex(/^\d{3}$/, 'Tasting code must be 3 digits'),
+  evaluation: SensationRecordWithEvaluationSchema,
+  notes: z.string().max(2000, 'Notes must be 2000 characters or less').optional()
+});
+
+// Export type inference helpers
+export type ExperimentInputSchemaType = z.infer<typeof ExperimentInputSchema>;
+export type ExperimentTastingSchemaType = z.infer<typeof ExperimentTastingSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Most recipes one import may create
+export const RECIPE_IMPORT_LIMIT = 500;
+
+// Recipe import request validation schema (POST /api/recipes/import). Only the shape of the
+// request is checked here; the server validates each recipe against RecipeInputSchema on its
+// own, so one invalid row does not reject the request and every row error is reported back.
+export const RecipeImportRequestSchema = z.object({
+  recipes: z.array(z.object({
+    row: z.number().int().positive('Row must be a positive number'),
+    recipe: z.unknown()
+  }))
+    .min(1, 'Select at least one row to import')
+    .max(RECIPE_IMPORT_LIMIT, `At most ${RECIPE_IMPORT_LIMIT} recipes can be imported at once`)
+});
+
+export type RecipeImportRequestSchemaType = z.infer<typeof RecipeImportRequestSchema>;
@@ -0,0 +1,55 @@
+-- Migration: Add beans table and recipes.bean_id
+-- Issue: bean details were re-typed on every recipe, with no notion of a bag of coffee or how much is left
+-- Date: 2026-10-19
+
+-- Create beans table: bags of coffee in the inventory (PostgreSQL)
+CREATE TABLE IF NOT EXISTS beans (
+  bean_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100),
+  roaster VARCHAR(100),
+  origin VARCHAR(100) NOT NULL,
+  processing_method VARCHAR(50) NOT NULL,
+  altitude INTEGER,
+  roasting_level VARCHAR(20),
+  roast_date TIMESTAMP WITH TIME ZONE,
+  bag_weight DECIMAL(8,2) NOT NULL CHECK (bag_weight > 0),
+  remaining_grams DECIMAL(8,2) NOT NULL CHECK (remaining_grams >= 0),
+  notes TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the bag their coffee came from
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS bean_id UUID REFERENCES beans(bean_id) ON DELETE SET NULL;
+
+-- Grams actually taken from the bag when the recipe was saved (a bag never goes below
+-- empty); edits and deletes return exactly this amount
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS bean_grams_deducted DECIMAL(8,2);
+
+-- Recipes saved before the amount was recorded took their full dose
+UPDATE recipes SET bean_grams_deducted = coffee_beans WHERE bean_id IS NOT NULL AND bean_grams_deducted IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_beans_archived ON beans (is_archived, roast_date DESC);
+CREATE INDEX IF NOT EXISTS idx_recipes_bean ON recipes (bean_id);
+
+-- Keep date_modified current
+CREATE TRIGGER update_beans_modified 
+  BEFORE UPDATE ON beans 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE beans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all beans" ON beans
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert beans" ON beans
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update beans" ON beans
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete beans" ON beans
+  FOR DELETE USING (true);
@@ -0,0 +1,38 @@
+-- Migration: Add brew_sessions table
+-- Issue: brewing a recipe again meant cloning it, since a recipe held only a single tasting
+-- Date: 2026-10-19
+
+-- Create brew_sessions table: individual brews of a recipe with their own measurements and tasting (PostgreSQL)
+CREATE TABLE IF NOT EXISTS brew_sessions (
+  session_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(recipe_id) ON DELETE CASCADE,
+  brew_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  measurements JSONB NOT NULL DEFAULT '{}',
+  evaluation JSONB NOT NULL DEFAULT '{}',
+  notes TEXT,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_brew_sessions_recipe ON brew_sessions (recipe_id, brew_date DESC);
+
+-- Keep date_modified current
+CREATE TRIGGER update_brew_sessions_modified 
+  BEFORE UPDATE ON brew_sessions 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE brew_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all brew_sessions" ON brew_sessions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert brew_sessions" ON brew_sessions
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update brew_sessions" ON brew_sessions
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete brew_sessions" ON brew_sessions
+  FOR DELETE USING (true);
@@ -0,0 +1,47 @@
+-- Migration: Add equipment registry and recipe equipment references
+-- Issue: grinders, brewers and filters were fixed enums or free text, so a user's own gear and grinder scale could not be recorded
+-- Date: 2026-10-19
+
+-- Create equipment table: grinders, brewers, filter papers and kettles (PostgreSQL)
+CREATE TABLE IF NOT EXISTS equipment (
+  equipment_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type VARCHAR(20) NOT NULL CHECK (type IN ('grinder', 'brewer', 'filter', 'kettle')),
+  name VARCHAR(100) NOT NULL,
+  brand VARCHAR(100),
+  setting_scale JSONB, -- grinders only: { min, max, step, unit }
+  brewing_method VARCHAR(50), -- brewers only
+  notes TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the equipment they were brewed with
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS grinder_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS brewer_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS filter_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS kettle_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_equipment_type ON equipment (type, is_archived, name);
+CREATE INDEX IF NOT EXISTS idx_recipes_grinder ON recipes (grinder_id);
+
+-- Keep date_modified current
+CREATE TRIGGER update_equipment_modified 
+  BEFORE UPDATE ON equipment 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE equipment ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all equipment" ON equipment
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert equipment" ON equipment
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update equipment" ON equipment
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete equipment" ON equipment
+  FOR DELETE USING (true);
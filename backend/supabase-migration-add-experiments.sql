@@ -0,0 +1,46 @@
+-- Migration: Add experiments (planned A/B brew trials with blind tasting)
+-- Issue: recipes could be cloned for experimenting, but there was no structure for a trial
+-- Date: 2026-10-19
+
+-- Create experiments table: planned A/B trials of one brewing variable (PostgreSQL)
+CREATE TABLE IF NOT EXISTS experiments (
+  experiment_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  base_recipe_id UUID REFERENCES recipes(recipe_id) ON DELETE SET NULL,
+  base_recipe_name VARCHAR(200) NOT NULL,
+  variable VARCHAR(20) NOT NULL CHECK (variable IN ('grind', 'temperature', 'ratio', 'water', 'filter')),
+  status VARCHAR(20) NOT NULL DEFAULT 'tasting' CHECK (status IN ('tasting', 'completed')),
+  variants JSONB NOT NULL DEFAULT '[]',  -- [{ code, recipeId, value, label, isBaseline }]; tastings are brew sessions of the variant recipes
+  notes TEXT,
+  date_completed TIMESTAMP WITH TIME ZONE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Variant recipes of an experiment still being tasted stay out of every recipe read
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS is_blind BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Experiment indexes
+CREATE INDEX IF NOT EXISTS idx_experiments_owner ON experiments (owner_id, date_created DESC);
+
+-- Keep date_modified current
+CREATE TRIGGER update_experiments_modified 
+  BEFORE UPDATE ON experiments 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all experiments" ON experiments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert experiments" ON experiments
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update experiments" ON experiments
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete experiments" ON experiments
+  FOR DELETE USING (true);
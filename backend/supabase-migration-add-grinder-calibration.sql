@@ -0,0 +1,6 @@
+-- Migration: Add grinder calibration tables to equipment
+-- Issue: grind settings were compared as raw numbers, so "20" on two different grinders looked identical
+-- Date: 2026-10-19
+
+-- Setting to approximate microns table for registry grinders: [{ setting, microns }] ascending
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS calibration JSONB;
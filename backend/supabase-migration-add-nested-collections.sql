@@ -0,0 +1,9 @@
+-- Migration: Add nested collections
+-- Issue: collections were flat, with only tags for grouping
+-- Date: 2026-10-19
+
+-- Parent collection for nesting; NULL for top-level collections. The API moves the
+-- children of a deleted collection up to its parent; SET NULL is the fallback.
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES collections(collection_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_collections_parent ON collections (parent_id);
@@ -0,0 +1,26 @@
+-- Migration: Add recipe_revisions table
+-- Issue: recipe updates overwrote the previous version with no history to revert to
+-- Date: 2026-10-19
+
+-- Create recipe_revisions table: immutable snapshots written on every recipe save (PostgreSQL)
+CREATE TABLE IF NOT EXISTS recipe_revisions (
+  revision_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(recipe_id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  snapshot JSONB NOT NULL,
+  changed_fields JSONB NOT NULL DEFAULT '[]',
+  restored_from INTEGER,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (recipe_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_revisions_recipe ON recipe_revisions (recipe_id, revision_number DESC);
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE recipe_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all recipe_revisions" ON recipe_revisions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert recipe_revisions" ON recipe_revisions
+  FOR INSERT WITH CHECK (true);
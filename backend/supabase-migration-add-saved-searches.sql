@@ -0,0 +1,30 @@
+-- Migration: Add saved_searches table
+-- Issue: saved filter/sort views were only kept in browser localStorage
+-- Date: 2026-10-19
+
+-- Create saved_searches table for named filter/sort combinations (PostgreSQL)
+CREATE TABLE IF NOT EXISTS saved_searches (
+  saved_search_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  filters JSONB NOT NULL DEFAULT '{}',
+  sort JSONB NOT NULL DEFAULT '{"field": "date-modified", "direction": "desc"}',
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_last_used ON saved_searches (last_used);
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all saved_searches" ON saved_searches
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert saved_searches" ON saved_searches
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update saved_searches" ON saved_searches
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete saved_searches" ON saved_searches
+  FOR DELETE USING (true);
@@ -0,0 +1,35 @@
+-- Migration: Add share links for recipes and collections
+-- Issue: share URLs only encoded part of a recipe into a link that pointed nowhere
+-- Date: 2026-10-19
+
+-- Create shares table: public read-only links to a recipe or collection (PostgreSQL)
+CREATE TABLE IF NOT EXISTS shares (
+  share_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token VARCHAR(64) NOT NULL UNIQUE,  -- Random token in the public URL
+  owner_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  target_type VARCHAR(20) NOT NULL CHECK (target_type IN ('recipe', 'collection')),
+  target_id UUID NOT NULL,  -- Recipe or collection; a deleted target makes the link dead
+  target_name VARCHAR(200) NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}',  -- Which fields the link reveals
+  view_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Share link indexes
+CREATE INDEX IF NOT EXISTS idx_shares_owner ON shares (owner_id, date_created DESC);
+
+-- Public access policies (matches supabase-schema-secure.sql). Share pages are served
+-- by the API server, which checks expiry and revocation and redacts the shared content.
+ALTER TABLE shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all shares" ON shares
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert shares" ON shares
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update shares" ON shares
+  FOR UPDATE USING (true);
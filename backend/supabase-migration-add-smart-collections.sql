@@ -0,0 +1,7 @@
+-- Migration: Add smart collections
+-- Issue: collections could only hold a hand-picked list of recipes
+-- Date: 2026-10-19
+
+-- Smart collection rule: { filters, withinDays?, dateField? }, evaluated whenever the
+-- collection is read. NULL for manual collections, whose recipes stay in recipe_collections.
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS rule JSONB;
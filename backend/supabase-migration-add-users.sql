@@ -0,0 +1,36 @@
+-- Migration: Add user accounts and ownership of recipes and collections
+-- Issue: the API had no notion of a user, so private collections could not mean anything
+-- Date: 2026-10-19
+
+-- Create users table: accounts that own recipes and collections (PostgreSQL)
+CREATE TABLE IF NOT EXISTS users (
+  user_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  username VARCHAR(50) NOT NULL UNIQUE,  -- Stored lowercased
+  display_name VARCHAR(100),
+  password_hash TEXT,  -- scrypt hash for local accounts; NULL for external providers
+  auth_provider VARCHAR(20) NOT NULL DEFAULT 'local' CHECK (auth_provider IN ('local', 'oidc')),
+  external_id TEXT,  -- Subject at the external provider
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Owners of recipes and collections. Existing rows stay NULL until the first
+-- account is registered, which adopts them.
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(user_id) ON DELETE CASCADE;
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(user_id) ON DELETE CASCADE;
+
+-- Collection names become unique per owner instead of across all accounts
+ALTER TABLE collections DROP CONSTRAINT IF EXISTS collections_name_key;
+ALTER TABLE collections DROP CONSTRAINT IF EXISTS collections_owner_id_name_key;
+ALTER TABLE collections ADD CONSTRAINT collections_owner_id_name_key UNIQUE (owner_id, name);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_owner ON recipes (owner_id);
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections (owner_id);
+
+-- Row level security without any policies (matches supabase-schema-secure.sql): the
+-- anon key cannot read password hashes or create and change accounts. Only the API
+-- server reaches this table, connected with SUPABASE_SERVICE_KEY, which bypasses RLS.
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can view all users" ON users;
+DROP POLICY IF EXISTS "Public can insert users" ON users;
+DROP POLICY IF EXISTS "Public can update users" ON users;
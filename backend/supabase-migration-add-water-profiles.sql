@@ -0,0 +1,41 @@
+-- Migration: Add water profiles and recipe water references
+-- Issue: brew water was not recorded, so recipes brewed with different water could not be compared
+-- Date: 2026-10-19
+
+-- Create water_profiles table: brew water recipes (PostgreSQL)
+CREATE TABLE IF NOT EXISTS water_profiles (
+  water_profile_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  composition JSONB NOT NULL DEFAULT '{}'::jsonb, -- ppm: gh, kh, magnesium, calcium, sodium, potassium, bicarbonate, tds
+  mix JSONB, -- stock concentrates: [{ salt, concentration, dose }]
+  notes TEXT,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the water they were brewed with
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS water_profile_id UUID REFERENCES water_profiles(water_profile_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_water_profiles_name ON water_profiles (name);
+CREATE INDEX IF NOT EXISTS idx_recipes_water_profile ON recipes (water_profile_id);
+
+-- Keep date_modified current
+CREATE TRIGGER update_water_profiles_modified 
+  BEFORE UPDATE ON water_profiles 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Public access policies (matches supabase-schema-secure.sql)
+ALTER TABLE water_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view all water_profiles" ON water_profiles
+  FOR SELECT USING (true);
+
+CREATE POLICY "Public can insert water_profiles" ON water_profiles
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Public can update water_profiles" ON water_profiles
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public can delete water_profiles" ON water_profiles
+  FOR DELETE USING (true);
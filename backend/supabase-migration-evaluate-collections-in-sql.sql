@@ -0,0 +1,148 @@
+-- Migration: Evaluate collection membership in the database
+-- Issue: reading a recipe's collections ran one query per smart collection of every account,
+-- and filtering by collection sent every member recipe ID in the request URL
+-- Date: 2026-10-19
+
+-- Collection membership is evaluated in the database, so reading a recipe's collections
+-- or filtering by collection takes no extra queries and no lists of recipe IDs.
+-- The filter functions mirror matchesSearchFilters in backend/src/database/repositories/recipeRows.ts.
+
+-- Whether a number lies in a [min, max] filter range; a missing value never does
+CREATE OR REPLACE FUNCTION filter_in_range(value NUMERIC, bounds JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(value BETWEEN (bounds->>0)::NUMERIC AND (bounds->>1)::NUMERIC, FALSE);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Values of a list filter; empty when the filter is not set
+CREATE OR REPLACE FUNCTION filter_values(filters JSONB, name TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(filters->name) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(filters->name))
+    ELSE '{}'::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Names of the manual collections a recipe was added to (used as the computed column
+-- recipes.manual_collection_names)
+CREATE OR REPLACE FUNCTION manual_collection_names(recipes)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(c.name::TEXT ORDER BY rc.date_assigned), '{}')
+  FROM recipe_collections rc
+  JOIN collections c ON c.collection_id = rc.collection_id
+  WHERE rc.recipe_id = $1.recipe_id;
+$$ LANGUAGE sql STABLE;
+
+-- Whether a recipe matches search filters (SearchFilters as JSON). Collection filters see
+-- manual memberships only, so one smart collection never depends on another.
+CREATE OR REPLACE FUNCTION recipe_matches_filters(r recipes, filters JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  term TEXT := lower(btrim(COALESCE(filters->>'searchTerm', '')));
+  collection_filter TEXT[] := filter_values(filters, 'collections');
+  include_uncollected BOOLEAN := COALESCE((filters->>'includeUncollected')::BOOLEAN, FALSE);
+  date_value TIMESTAMP WITH TIME ZONE;
+  names TEXT[];
+BEGIN
+  IF term <> '' AND NOT (
+    position(term IN lower(COALESCE(r.recipe_name, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.origin, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.coffee_bean_brand, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.tasting_notes, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.processing_method, ''))) > 0
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'coffeeWaterRatioRange') = 'array' AND NOT filter_in_range(r.coffee_water_ratio, filters->'coffeeWaterRatioRange') THEN
+    RETURN FALSE;
+  END IF;
+  IF jsonb_typeof(filters->'tdsRange') = 'array' AND NOT filter_in_range(r.tds, filters->'tdsRange') THEN
+    RETURN FALSE;
+  END IF;
+  -- Either cupping score may satisfy the range
+  IF jsonb_typeof(filters->'scoreRange') = 'array'
+    AND NOT (filter_in_range(r.sca_final_score, filters->'scoreRange') OR filter_in_range(r.cva_aff_score, filters->'scoreRange')) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'dateRange') = 'object' THEN
+    date_value := CASE filters->'dateRange'->>'field'
+      WHEN 'dateModified' THEN r.date_modified
+      WHEN 'roastingDate' THEN r.roasting_date
+      ELSE r.date_created
+    END;
+    IF date_value IS NULL
+      OR date_value < (filters->'dateRange'->>'start')::TIMESTAMP WITH TIME ZONE
+      OR date_value > (filters->'dateRange'->>'end')::TIMESTAMP WITH TIME ZONE THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF COALESCE((filters->>'favoritesOnly')::BOOLEAN, FALSE) AND r.is_favorite IS NOT TRUE THEN
+    RETURN FALSE;
+  END IF;
+  IF COALESCE((filters->>'hasRating')::BOOLEAN, FALSE) AND r.overall_impression IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(filter_values(filters, 'waterProfileIds')) > 0
+    AND NOT COALESCE(r.water_profile_id::TEXT = ANY(filter_values(filters, 'waterProfileIds')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'origins')) > 0
+    AND NOT COALESCE(r.origin = ANY(filter_values(filters, 'origins')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'roastingLevels')) > 0
+    AND NOT COALESCE(r.roasting_level = ANY(filter_values(filters, 'roastingLevels')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'brewingMethods')) > 0
+    AND NOT COALESCE(r.brewing_method = ANY(filter_values(filters, 'brewingMethods')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'overallImpressionRange') = 'array' AND NOT filter_in_range(r.overall_impression, filters->'overallImpressionRange') THEN
+    RETURN FALSE;
+  END IF;
+  IF jsonb_typeof(filters->'altitudeRange') = 'array' AND NOT filter_in_range(r.altitude, filters->'altitudeRange') THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(collection_filter) > 0 OR include_uncollected THEN
+    names := manual_collection_names(r);
+    IF NOT (names && collection_filter OR (include_uncollected AND cardinality(names) = 0)) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Whether a recipe matches a smart collection rule ({ filters, withinDays?, dateField? }) now.
+-- A rolling window replaces any fixed date range in the stored filters.
+CREATE OR REPLACE FUNCTION recipe_matches_smart_rule(r recipes, rule JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT recipe_matches_filters(r, CASE
+    WHEN COALESCE((rule->>'withinDays')::NUMERIC, 0) = 0 THEN COALESCE(rule->'filters', '{}')
+    ELSE COALESCE(rule->'filters', '{}') || jsonb_build_object('dateRange', jsonb_build_object(
+      'field', COALESCE(rule->>'dateField', 'dateCreated'),
+      'start', NOW() - (rule->>'withinDays')::NUMERIC * INTERVAL '1 day',
+      'end', NOW()
+    ))
+  END);
+$$ LANGUAGE sql STABLE;
+
+-- Names of every collection a recipe belongs to: manual ones, then the smart collections
+-- of the recipe's owner whose rule it matches (used as the computed column recipes.collection_names)
+CREATE OR REPLACE FUNCTION collection_names(recipes)
+RETURNS TEXT[] AS $$
+  SELECT manual_collection_names($1) || COALESCE((
+    SELECT array_agg(c.name::TEXT ORDER BY c.date_created)
+    FROM collections c
+    WHERE c.rule IS NOT NULL
+      AND c.owner_id IS NOT DISTINCT FROM $1.owner_id
+      AND recipe_matches_smart_rule($1, c.rule)
+  ), '{}');
+$$ LANGUAGE sql STABLE;
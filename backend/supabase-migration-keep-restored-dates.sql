@@ -0,0 +1,14 @@
+-- Migration: Keep date_modified when an update sets it
+-- Issue: rolling back a failed bulk edit wrote the original rows back, but the trigger stamped them with the rollback time
+-- Date: 2026-10-19
+
+-- An update that sets date_modified itself (e.g. putting back a rolled-back row) keeps it
+CREATE OR REPLACE FUNCTION update_modified_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.date_modified IS NOT DISTINCT FROM OLD.date_modified THEN
+        NEW.date_modified = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,18 @@
+-- Migration: Search recipe text in the database
+-- Issue: free-text search loaded every recipe of the account to rank them in the API
+-- Date: 2026-10-19
+
+-- Searchable text of a recipe: every field ranked by rankRecipesByText in
+-- shared/src/utils/textSearch.ts (used as the computed column recipes.search_text)
+CREATE OR REPLACE FUNCTION search_text(recipes)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    $1.recipe_name, $1.origin, $1.coffee_bean_brand, $1.tasting_notes,
+    $1.cva_desc_fragrance_aroma_descriptors::TEXT, $1.cva_desc_flavor_aftertaste_descriptors::TEXT,
+    $1.cva_desc_main_tastes::TEXT, $1.cva_desc_mouthfeel_descriptors::TEXT,
+    $1.quick_tasting_flavor_aftertaste_descriptors::TEXT,
+    $1.cva_desc_acidity_descriptors, $1.cva_desc_sweetness_descriptors,
+    $1.processing_method, $1.brewing_method,
+    $1.cva_desc_additional_notes, $1.additional_notes, $1.turbulence
+  );
+$$ LANGUAGE sql IMMUTABLE;
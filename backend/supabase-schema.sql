@@ -119,12 +119,14 @@ CREATE TABLE IF NOT EXISTS recipes (
 -- Create collections table with comprehensive schema (PostgreSQL)
 CREATE TABLE IF NOT EXISTS collections (
   collection_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  name VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,  -- Unique per owner (constraint added with owner_id below)
   description TEXT,
   color VARCHAR(20) NOT NULL DEFAULT 'blue',
   is_private BOOLEAN DEFAULT FALSE,
   is_default BOOLEAN DEFAULT FALSE,
   tags JSONB DEFAULT '[]',  -- Using JSONB for better performance
+  rule JSONB,  -- Smart collections: { filters, withinDays?, dateField? } evaluated on read; NULL for manual collections
+  parent_id UUID REFERENCES collections(collection_id) ON DELETE SET NULL,  -- Nesting; NULL for top-level collections
   date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
   date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
@@ -137,6 +139,155 @@ CREATE TABLE IF NOT EXISTS recipe_collections (
   PRIMARY KEY (recipe_id, collection_id)
 );
 
+-- Create saved_searches table for named filter/sort combinations (PostgreSQL)
+CREATE TABLE IF NOT EXISTS saved_searches (
+  saved_search_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  filters JSONB NOT NULL DEFAULT '{}',
+  sort JSONB NOT NULL DEFAULT '{"field": "date-modified", "direction": "desc"}',
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create recipe_revisions table: immutable snapshots written on every recipe save (PostgreSQL)
+CREATE TABLE IF NOT EXISTS recipe_revisions (
+  revision_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(recipe_id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  snapshot JSONB NOT NULL,
+  changed_fields JSONB NOT NULL DEFAULT '[]',
+  restored_from INTEGER,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (recipe_id, revision_number)
+);
+
+-- Create brew_sessions table: individual brews of a recipe with their own measurements and tasting (PostgreSQL)
+CREATE TABLE IF NOT EXISTS brew_sessions (
+  session_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(recipe_id) ON DELETE CASCADE,
+  brew_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  measurements JSONB NOT NULL DEFAULT '{}',
+  evaluation JSONB NOT NULL DEFAULT '{}',
+  notes TEXT,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create beans table: bags of coffee in the inventory (PostgreSQL)
+CREATE TABLE IF NOT EXISTS beans (
+  bean_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100),
+  roaster VARCHAR(100),
+  origin VARCHAR(100) NOT NULL,
+  processing_method VARCHAR(50) NOT NULL,
+  altitude INTEGER,
+  roasting_level VARCHAR(20),
+  roast_date TIMESTAMP WITH TIME ZONE,
+  bag_weight DECIMAL(8,2) NOT NULL CHECK (bag_weight > 0),
+  remaining_grams DECIMAL(8,2) NOT NULL CHECK (remaining_grams >= 0),
+  notes TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the bag their coffee came from
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS bean_id UUID REFERENCES beans(bean_id) ON DELETE SET NULL;
+
+-- Grams actually taken from the bag when the recipe was saved (a bag never goes below
+-- empty); edits and deletes return exactly this amount
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS bean_grams_deducted DECIMAL(8,2);
+
+-- Create equipment table: grinders, brewers, filter papers and kettles (PostgreSQL)
+CREATE TABLE IF NOT EXISTS equipment (
+  equipment_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type VARCHAR(20) NOT NULL CHECK (type IN ('grinder', 'brewer', 'filter', 'kettle')),
+  name VARCHAR(100) NOT NULL,
+  brand VARCHAR(100),
+  setting_scale JSONB, -- grinders only: { min, max, step, unit }
+  calibration JSONB, -- grinders only: [{ setting, microns }] ascending
+  brewing_method VARCHAR(50), -- brewers only
+  notes TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the equipment they were brewed with
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS grinder_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS brewer_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS filter_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS kettle_id UUID REFERENCES equipment(equipment_id) ON DELETE SET NULL;
+
+-- Create water_profiles table: brew water recipes (PostgreSQL)
+CREATE TABLE IF NOT EXISTS water_profiles (
+  water_profile_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  composition JSONB NOT NULL DEFAULT '{}'::jsonb, -- ppm: gh, kh, magnesium, calcium, sodium, potassium, bicarbonate, tds
+  mix JSONB, -- stock concentrates: [{ salt, concentration, dose }]
+  notes TEXT,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Link recipes to the water they were brewed with
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS water_profile_id UUID REFERENCES water_profiles(water_profile_id) ON DELETE SET NULL;
+
+-- Create users table: accounts that own recipes and collections (PostgreSQL)
+CREATE TABLE IF NOT EXISTS users (
+  user_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  username VARCHAR(50) NOT NULL UNIQUE,  -- Stored lowercased
+  display_name VARCHAR(100),
+  password_hash TEXT,  -- scrypt hash for local accounts; NULL for external providers
+  auth_provider VARCHAR(20) NOT NULL DEFAULT 'local' CHECK (auth_provider IN ('local', 'oidc')),
+  external_id TEXT,  -- Subject at the external provider
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Owners of recipes and collections; NULL for data from before accounts existed
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(user_id) ON DELETE CASCADE;
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(user_id) ON DELETE CASCADE;
+
+-- Collection names are unique per owner, so two accounts can both have "Favorites"
+ALTER TABLE collections DROP CONSTRAINT IF EXISTS collections_name_key;
+ALTER TABLE collections DROP CONSTRAINT IF EXISTS collections_owner_id_name_key;
+ALTER TABLE collections ADD CONSTRAINT collections_owner_id_name_key UNIQUE (owner_id, name);
+
+-- Create shares table: public read-only links to a recipe or collection (PostgreSQL)
+CREATE TABLE IF NOT EXISTS shares (
+  share_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token VARCHAR(64) NOT NULL UNIQUE,  -- Random token in the public URL
+  owner_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  target_type VARCHAR(20) NOT NULL CHECK (target_type IN ('recipe', 'collection')),
+  target_id UUID NOT NULL,  -- Recipe or collection; a deleted target makes the link dead
+  target_name VARCHAR(200) NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}',  -- Which fields the link reveals
+  view_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create experiments table: planned A/B trials of one brewing variable (PostgreSQL)
+CREATE TABLE IF NOT EXISTS experiments (
+  experiment_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  base_recipe_id UUID REFERENCES recipes(recipe_id) ON DELETE SET NULL,
+  base_recipe_name VARCHAR(200) NOT NULL,
+  variable VARCHAR(20) NOT NULL CHECK (variable IN ('grind', 'temperature', 'ratio', 'water', 'filter')),
+  status VARCHAR(20) NOT NULL DEFAULT 'tasting' CHECK (status IN ('tasting', 'completed')),
+  variants JSONB NOT NULL DEFAULT '[]',  -- [{ code, recipeId, value, label, isBaseline }]; tastings are brew sessions of the variant recipes
+  notes TEXT,
+  date_completed TIMESTAMP WITH TIME ZONE,
+  date_created TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  date_modified TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Variant recipes of an experiment still being tasted stay out of every recipe read
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS is_blind BOOLEAN NOT NULL DEFAULT FALSE;
+
 -- Create indexes for search and filtering performance
 CREATE INDEX IF NOT EXISTS idx_recipes_origin ON recipes (origin);
 CREATE INDEX IF NOT EXISTS idx_recipes_brewing_method ON recipes (brewing_method);
@@ -163,17 +314,52 @@ CREATE INDEX IF NOT EXISTS idx_collections_is_private ON collections (is_private
 CREATE INDEX IF NOT EXISTS idx_collections_date_created ON collections (date_created);
 CREATE INDEX IF NOT EXISTS idx_collections_date_modified ON collections (date_modified);
 CREATE INDEX IF NOT EXISTS idx_collections_tags ON collections USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_collections_parent ON collections (parent_id);
 
 -- Recipe collections indexes
 CREATE INDEX IF NOT EXISTS idx_recipe_collections_recipe ON recipe_collections (recipe_id);
 CREATE INDEX IF NOT EXISTS idx_recipe_collections_collection ON recipe_collections (collection_id);
 CREATE INDEX IF NOT EXISTS idx_recipe_collections_date_assigned ON recipe_collections (date_assigned);
 
+-- Saved searches indexes
+CREATE INDEX IF NOT EXISTS idx_saved_searches_last_used ON saved_searches (last_used);
+
+-- Recipe revisions indexes
+CREATE INDEX IF NOT EXISTS idx_recipe_revisions_recipe ON recipe_revisions (recipe_id, revision_number DESC);
+
+-- Brew sessions indexes
+CREATE INDEX IF NOT EXISTS idx_brew_sessions_recipe ON brew_sessions (recipe_id, brew_date DESC);
+
+-- Bean inventory indexes
+CREATE INDEX IF NOT EXISTS idx_beans_archived ON beans (is_archived, roast_date DESC);
+CREATE INDEX IF NOT EXISTS idx_recipes_bean ON recipes (bean_id);
+
+-- Equipment registry indexes
+CREATE INDEX IF NOT EXISTS idx_equipment_type ON equipment (type, is_archived, name);
+CREATE INDEX IF NOT EXISTS idx_recipes_grinder ON recipes (grinder_id);
+
+-- Water profile indexes
+CREATE INDEX IF NOT EXISTS idx_water_profiles_name ON water_profiles (name);
+CREATE INDEX IF NOT EXISTS idx_recipes_water_profile ON recipes (water_profile_id);
+
+-- Create indexes for account ownership
+CREATE INDEX IF NOT EXISTS idx_recipes_owner ON recipes (owner_id);
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections (owner_id);
+
+-- Share link indexes
+CREATE INDEX IF NOT EXISTS idx_shares_owner ON shares (owner_id, date_created DESC);
+
+-- Experiment indexes
+CREATE INDEX IF NOT EXISTS idx_experiments_owner ON experiments (owner_id, date_created DESC);
+
 -- Trigger to automatically update date_modified on recipes table
+-- An update that sets date_modified itself (e.g. putting back a rolled-back row) keeps it
 CREATE OR REPLACE FUNCTION update_modified_column()
 RETURNS TRIGGER AS $$
 BEGIN
-    NEW.date_modified = NOW();
+    IF NEW.date_modified IS NOT DISTINCT FROM OLD.date_modified THEN
+        NEW.date_modified = NOW();
+    END IF;
     RETURN NEW;
 END;
 $$ language 'plpgsql';
@@ -188,12 +374,206 @@ CREATE TRIGGER update_collections_modified
   FOR EACH ROW 
   EXECUTE FUNCTION update_modified_column();
 
+CREATE TRIGGER update_brew_sessions_modified 
+  BEFORE UPDATE ON brew_sessions 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+CREATE TRIGGER update_beans_modified 
+  BEFORE UPDATE ON beans 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+CREATE TRIGGER update_equipment_modified 
+  BEFORE UPDATE ON equipment 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+CREATE TRIGGER update_water_profiles_modified 
+  BEFORE UPDATE ON water_profiles 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+CREATE TRIGGER update_experiments_modified 
+  BEFORE UPDATE ON experiments 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_modified_column();
+
+-- Collection membership is evaluated in the database, so reading a recipe's collections
+-- or filtering by collection takes no extra queries and no lists of recipe IDs.
+-- The filter functions mirror matchesSearchFilters in backend/src/database/repositories/recipeRows.ts.
+
+-- Whether a number lies in a [min, max] filter range; a missing value never does
+CREATE OR REPLACE FUNCTION filter_in_range(value NUMERIC, bounds JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(value BETWEEN (bounds->>0)::NUMERIC AND (bounds->>1)::NUMERIC, FALSE);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Values of a list filter; empty when the filter is not set
+CREATE OR REPLACE FUNCTION filter_values(filters JSONB, name TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(filters->name) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(filters->name))
+    ELSE '{}'::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Names of the manual collections a recipe was added to (used as the computed column
+-- recipes.manual_collection_names)
+CREATE OR REPLACE FUNCTION manual_collection_names(recipes)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(c.name::TEXT ORDER BY rc.date_assigned), '{}')
+  FROM recipe_collections rc
+  JOIN collections c ON c.collection_id = rc.collection_id
+  WHERE rc.recipe_id = $1.recipe_id;
+$$ LANGUAGE sql STABLE;
+
+-- Whether a recipe matches search filters (SearchFilters as JSON). Collection filters see
+-- manual memberships only, so one smart collection never depends on another.
+CREATE OR REPLACE FUNCTION recipe_matches_filters(r recipes, filters JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  term TEXT := lower(btrim(COALESCE(filters->>'searchTerm', '')));
+  collection_filter TEXT[] := filter_values(filters, 'collections');
+  include_uncollected BOOLEAN := COALESCE((filters->>'includeUncollected')::BOOLEAN, FALSE);
+  date_value TIMESTAMP WITH TIME ZONE;
+  names TEXT[];
+BEGIN
+  IF term <> '' AND NOT (
+    position(term IN lower(COALESCE(r.recipe_name, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.origin, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.coffee_bean_brand, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.tasting_notes, ''))) > 0 OR
+    position(term IN lower(COALESCE(r.processing_method, ''))) > 0
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'coffeeWaterRatioRange') = 'array' AND NOT filter_in_range(r.coffee_water_ratio, filters->'coffeeWaterRatioRange') THEN
+    RETURN FALSE;
+  END IF;
+  IF jsonb_typeof(filters->'tdsRange') = 'array' AND NOT filter_in_range(r.tds, filters->'tdsRange') THEN
+    RETURN FALSE;
+  END IF;
+  -- Either cupping score may satisfy the range
+  IF jsonb_typeof(filters->'scoreRange') = 'array'
+    AND NOT (filter_in_range(r.sca_final_score, filters->'scoreRange') OR filter_in_range(r.cva_aff_score, filters->'scoreRange')) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'dateRange') = 'object' THEN
+    date_value := CASE filters->'dateRange'->>'field'
+      WHEN 'dateModified' THEN r.date_modified
+      WHEN 'roastingDate' THEN r.roasting_date
+      ELSE r.date_created
+    END;
+    IF date_value IS NULL
+      OR date_value < (filters->'dateRange'->>'start')::TIMESTAMP WITH TIME ZONE
+      OR date_value > (filters->'dateRange'->>'end')::TIMESTAMP WITH TIME ZONE THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF COALESCE((filters->>'favoritesOnly')::BOOLEAN, FALSE) AND r.is_favorite IS NOT TRUE THEN
+    RETURN FALSE;
+  END IF;
+  IF COALESCE((filters->>'hasRating')::BOOLEAN, FALSE) AND r.overall_impression IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(filter_values(filters, 'waterProfileIds')) > 0
+    AND NOT COALESCE(r.water_profile_id::TEXT = ANY(filter_values(filters, 'waterProfileIds')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'origins')) > 0
+    AND NOT COALESCE(r.origin = ANY(filter_values(filters, 'origins')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'roastingLevels')) > 0
+    AND NOT COALESCE(r.roasting_level = ANY(filter_values(filters, 'roastingLevels')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+  IF cardinality(filter_values(filters, 'brewingMethods')) > 0
+    AND NOT COALESCE(r.brewing_method = ANY(filter_values(filters, 'brewingMethods')), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(filters->'overallImpressionRange') = 'array' AND NOT filter_in_range(r.overall_impression, filters->'overallImpressionRange') THEN
+    RETURN FALSE;
+  END IF;
+  IF jsonb_typeof(filters->'altitudeRange') = 'array' AND NOT filter_in_range(r.altitude, filters->'altitudeRange') THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(collection_filter) > 0 OR include_uncollected THEN
+    names := manual_collection_names(r);
+    IF NOT (names && collection_filter OR (include_uncollected AND cardinality(names) = 0)) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Whether a recipe matches a smart collection rule ({ filters, withinDays?, dateField? }) now.
+-- A rolling window replaces any fixed date range in the stored filters.
+CREATE OR REPLACE FUNCTION recipe_matches_smart_rule(r recipes, rule JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT recipe_matches_filters(r, CASE
+    WHEN COALESCE((rule->>'withinDays')::NUMERIC, 0) = 0 THEN COALESCE(rule->'filters', '{}')
+    ELSE COALESCE(rule->'filters', '{}') || jsonb_build_object('dateRange', jsonb_build_object(
+      'field', COALESCE(rule->>'dateField', 'dateCreated'),
+      'start', NOW() - (rule->>'withinDays')::NUMERIC * INTERVAL '1 day',
+      'end', NOW()
+    ))
+  END);
+$$ LANGUAGE sql STABLE;
+
+-- Names of every collection a recipe belongs to: manual ones, then the smart collections
+-- of the recipe's owner whose rule it matches (used as the computed column recipes.collection_names)
+CREATE OR REPLACE FUNCTION collection_names(recipes)
+RETURNS TEXT[] AS $$
+  SELECT manual_collection_names($1) || COALESCE((
+    SELECT array_agg(c.name::TEXT ORDER BY c.date_created)
+    FROM collections c
+    WHERE c.rule IS NOT NULL
+      AND c.owner_id IS NOT DISTINCT FROM $1.owner_id
+      AND recipe_matches_smart_rule($1, c.rule)
+  ), '{}');
+$$ LANGUAGE sql STABLE;
+
+-- Searchable text of a recipe: every field ranked by rankRecipesByText in
+-- shared/src/utils/textSearch.ts (used as the computed column recipes.search_text)
+CREATE OR REPLACE FUNCTION search_text(recipes)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    $1.recipe_name, $1.origin, $1.coffee_bean_brand, $1.tasting_notes,
+    $1.cva_desc_fragrance_aroma_descriptors::TEXT, $1.cva_desc_flavor_aftertaste_descriptors::TEXT,
+    $1.cva_desc_main_tastes::TEXT, $1.cva_desc_mouthfeel_descriptors::TEXT,
+    $1.quick_tasting_flavor_aftertaste_descriptors::TEXT,
+    $1.cva_desc_acidity_descriptors, $1.cva_desc_sweetness_descriptors,
+    $1.processing_method, $1.brewing_method,
+    $1.cva_desc_additional_notes, $1.additional_notes, $1.turbulence
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Create RLS (Row Level Security) policies for multi-tenant support (optional)
 -- ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
 -- ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
 -- ALTER TABLE recipe_collections ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE recipe_revisions ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE brew_sessions ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE beans ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE equipment ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE water_profiles ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE shares ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
 
 -- Seed default collection
+-- (NULL owners never conflict in a unique constraint, so check for the row instead of ON CONFLICT)
 INSERT INTO collections (name, description, color, is_default, tags) 
-VALUES ('All Recipes', 'Default collection containing all recipes', 'blue', true, '["default"]')
-ON CONFLICT (name) DO NOTHING;
\ No newline at end of file
+SELECT 'All Recipes', 'Default collection containing all recipes', 'blue', true, '["default"]'
+WHERE NOT EXISTS (SELECT 1 FROM collections WHERE name = 'All Recipes' AND is_default = true);
\ No newline at end of file
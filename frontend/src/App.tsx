@@ -2,15 +2,40 @@
 import { useState, useEffect } from 'react';
 import { ToastProvider } from './components/ui/ToastContainer';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import LoginScreen from './components/LoginScreen';
+import SharedRecipeView from './components/SharedRecipeView';
 import Layout from './components/Layout';
 import Navigation from './components/Navigation';
 import TabContent from './components/TabContent';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { recipeSharingService } from './services/recipeSharingService';
 
-export type ActiveTab = 'home' | 'input' | 'recipes' | 'collections' | 'favorites';
+export type ActiveTab = 'home' | 'input' | 'recipes' | 'collections' | 'favorites' | 'experiments' | 'equipment';
+
+// Show the login screen until there is a session; each user's data mounts fresh
+function AuthGate({ children }: { children: React.ReactNode }) {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-mono-500">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginScreen />;
+  }
+
+  return <div key={user.userId}>{children}</div>;
+}
 
 function App() {
   const [activeTab, setActiveTab] = useState<ActiveTab>('home');
+  // Share links (#share/<token>) open a public page instead of the app
+  const [shareToken, setShareToken] = useState(() => recipeSharingService.parseShareToken(window.location.hash));
 
   // Setup tab navigation keyboard shortcuts
   useKeyboardShortcuts({
@@ -41,8 +66,9 @@ function App() {
   // Handle URL hash navigation
   useEffect(() => {
     const handleHashChange = () => {
+      setShareToken(recipeSharingService.parseShareToken(window.location.hash));
       const hash = window.location.hash.replace('#', '') as ActiveTab;
-      if (['home', 'input', 'recipes', 'collections', 'favorites'].includes(hash)) {
+      if (['home', 'input', 'recipes', 'collections', 'favorites', 'experiments', 'equipment'].includes(hash)) {
         setActiveTab(hash);
       }
     };
@@ -63,10 +89,11 @@ function App() {
     localStorage.setItem('coffeeTracker_activeTab', tab);
   };
 
-  // Restore tab from localStorage on mount
+  // Restore tab from localStorage on mount (keeping a share link's hash)
   useEffect(() => {
+    if (shareToken) return;
     const savedTab = localStorage.getItem('coffeeTracker_activeTab') as ActiveTab;
-    if (savedTab && ['home', 'input', 'recipes', 'collections', 'favorites'].includes(savedTab)) {
+    if (savedTab && ['home', 'input', 'recipes', 'collections', 'favorites', 'experiments', 'equipment'].includes(savedTab)) {
       setActiveTab(savedTab);
       window.location.hash = savedTab;
     }
@@ -74,21 +101,29 @@ function App() {
 
   return (
     <ThemeProvider>
-      <ToastProvider>
-        <Layout onDataRefresh={() => {
-          // Force re-render of components that might need to refresh after restore
-          window.location.reload();
-        }}>
-          <Navigation 
-            activeTab={activeTab} 
-            onTabChange={handleTabChange} 
-          />
-          <TabContent 
-            activeTab={activeTab} 
-            onTabChange={handleTabChange}
-          />
-        </Layout>
-      </ToastProvider>
+      <AuthProvider>
+        <ToastProvider>
+          {shareToken ? (
+            <SharedRecipeView token={shareToken} />
+          ) : (
+            <AuthGate>
+              <Layout onDataRefresh={() => {
+                // Force re-render of components that might need to refresh after restore
+                window.location.reload();
+              }}>
+                <Navigation 
+                  activeTab={activeTab} 
+                  onTabChange={handleTabChange} 
+                />
+                <TabContent 
+                  activeTab={activeTab} 
+                  onTabChange={handleTabChange}
+                />
+              </Layout>
+            </AuthGate>
+          )}
+        </ToastProvider>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
@@ -1,5 +1,6 @@
-import { useState, useRef } from 'react';
-import { BackupData, RestoreOptions, backupService } from '../services/backupService';
+import { useState, useRef, useEffect } from 'react';
+import { BackupFile, RestoreOptions, RestoreResult, backupService } from '../services/backupService';
+import { BACKUP_VERSION } from '../shared/utils/backup';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
 
@@ -11,6 +12,19 @@ interface BackupRestoreModalProps {
 
 type ModalMode = 'menu' | 'backup' | 'restore' | 'history';
 
+// Restore report counts, in the order the restore writes them
+const RESTORE_SECTIONS = [
+  ['beans', 'Beans'],
+  ['equipment', 'Equipment'],
+  ['waterProfiles', 'Water profiles'],
+  ['savedSearches', 'Saved searches'],
+  ['collections', 'Collections'],
+  ['recipes', 'Recipes'],
+  ['brewSessions', 'Brew sessions'],
+  ['revisions', 'Revisions'],
+  ['experiments', 'Experiments']
+] as const;
+
 export default function BackupRestoreModal({
   isOpen,
   onClose,
@@ -18,15 +32,22 @@ export default function BackupRestoreModal({
 }: BackupRestoreModalProps) {
   const [mode, setMode] = useState<ModalMode>('menu');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [backupData, setBackupData] = useState<BackupData | null>(null);
+  const [backupData, setBackupData] = useState<BackupFile | null>(null);
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
   const [restoreOptions, setRestoreOptions] = useState<RestoreOptions>({
     includeRecipes: true,
     includeCollections: true,
+    includeLibrary: true,
     includeUserPreferences: true,
     overwriteExisting: false,
     createBackupBeforeRestore: true
   });
   const [backupHistory, setBackupHistory] = useState(backupService.getBackupHistory());
+
+  // A preview only describes the options it was made with
+  useEffect(() => {
+    setPreview(null);
+  }, [backupData, restoreOptions]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { showSuccess, showError, showInfo } = useToast();
@@ -88,6 +109,25 @@ export default function BackupRestoreModal({
     }
   };
 
+  // Dry run: show what the restore would do without changing anything
+  const handlePreview = async () => {
+    if (!backupData) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await backupService.previewRestore(backupData, restoreOptions);
+      setPreview(result);
+      if (!result.success) {
+        showError('Preview Failed', result.errors?.[0] || result.message);
+      }
+    } catch (error) {
+      console.error('Restore preview error:', error);
+      showError('Preview Failed', 'An unexpected error occurred while previewing the restore');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Handle restore operation
   const handleRestore = async () => {
     if (!backupData) return;
@@ -102,6 +142,9 @@ export default function BackupRestoreModal({
         onClose();
       } else {
         showError('Restore Failed', result.message);
+        if (result.report) {
+          setPreview(result);
+        }
         if (result.errors && result.errors.length > 0) {
           console.error('Restore errors:', result.errors);
         }
@@ -304,7 +347,10 @@ export default function BackupRestoreModal({
                   <div>Created: {new Date(backupData.timestamp).toLocaleString()}</div>
                   <div>Recipes: {backupData.metadata.totalRecipes}</div>
                   <div>Collections: {backupData.metadata.totalCollections}</div>
-                  <div>Version: {backupData.version}</div>
+                  <div>
+                    Version: {backupData.version}
+                    {backupData.version !== BACKUP_VERSION && ' (will be upgraded during restore)'}
+                  </div>
                 </div>
               </div>
 
@@ -322,7 +368,7 @@ export default function BackupRestoreModal({
                       disabled={isProcessing}
                     />
                     <span className="text-sm text-gray-900 dark:text-white">
-                      Restore Recipes ({backupData.metadata.totalRecipes})
+                      Restore Recipes ({backupData.metadata.totalRecipes}) with Brew Sessions, Revisions and Experiments
                     </span>
                   </label>
 
@@ -339,6 +385,19 @@ export default function BackupRestoreModal({
                     </span>
                   </label>
 
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={restoreOptions.includeLibrary}
+                      onChange={(e) => setRestoreOptions(prev => ({ ...prev, includeLibrary: e.target.checked }))}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      disabled={isProcessing}
+                    />
+                    <span className="text-sm text-gray-900 dark:text-white">
+                      Restore Beans, Equipment, Water Profiles and Saved Searches
+                    </span>
+                  </label>
+
                   <label className="flex items-center space-x-3">
                     <input
                       type="checkbox"
@@ -380,6 +439,49 @@ export default function BackupRestoreModal({
                 </div>
               </div>
 
+              {/* Restore Preview */}
+              {preview?.report && (
+                <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+                  <h3 className="font-medium text-gray-900 dark:text-white">
+                    {preview.report.dryRun ? 'Restore Preview' : 'Restore Result'}
+                  </h3>
+                  <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    {RESTORE_SECTIONS.map(([type, label]) => (
+                      <div key={type}>
+                        <div className="font-medium">{label}</div>
+                        <div>{preview.report!.dryRun ? 'To create' : 'Created'}: {preview.report![type].created}</div>
+                        <div>{preview.report!.dryRun ? 'To overwrite' : 'Overwritten'}: {preview.report![type].overwritten}</div>
+                        <div>Skipped (already exist): {preview.report![type].skipped}</div>
+                        <div>Rejected: {preview.report![type].rejected}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-sm text-gray-700 dark:text-gray-300">
+                    Collection memberships to add: {preview.report.membershipsAdded}
+                  </div>
+                  {preview.errors && preview.errors.length > 0 && (
+                    <div>
+                      <div className="text-sm font-medium text-red-800 dark:text-red-200">Will not be restored</div>
+                      <ul className="mt-1 text-xs text-red-700 dark:text-red-300 space-y-1 max-h-32 overflow-y-auto">
+                        {preview.errors.map((error, index) => (
+                          <li key={index}>{error}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {preview.report.warnings.length > 0 && (
+                    <div>
+                      <div className="text-sm font-medium text-yellow-800 dark:text-yellow-200">Warnings</div>
+                      <ul className="mt-1 text-xs text-yellow-700 dark:text-yellow-300 space-y-1 max-h-32 overflow-y-auto">
+                        {preview.report.warnings.map((warning, index) => (
+                          <li key={index}>{warning}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Restore Button */}
               <div className="flex justify-end space-x-3">
                 <button
@@ -389,6 +491,13 @@ export default function BackupRestoreModal({
                 >
                   Cancel
                 </button>
+                <button
+                  onClick={handlePreview}
+                  disabled={isProcessing}
+                  className="px-4 py-2 border border-green-600 text-green-700 dark:text-green-300 rounded-md text-sm font-medium hover:bg-green-50 dark:hover:bg-green-900/20 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+                >
+                  Preview
+                </button>
                 <button
                   onClick={handleRestore}
                   disabled={isProcessing}
@@ -0,0 +1,353 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Recipe, EvaluationSystem, SensationRecord } from '../shared/types/recipe';
+import { BrewSession, BrewSessionList, BrewSessionMeasurements } from '../shared/types/session';
+import { getEvaluationScore } from '../shared/utils/sessionStats';
+import { formatDate } from '../shared/utils/formatting';
+import { brewSessionService } from '../services/brewSessionService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+import RatingHistoryChart from './ui/RatingHistoryChart';
+import TabbedEvaluationPanel from './ui/TabbedEvaluationPanel';
+
+interface BrewSessionLogProps {
+  recipe: Recipe;
+}
+
+const SYSTEM_LABELS: Record<EvaluationSystem, string> = {
+  'traditional-sca': 'SCA',
+  'cva-affective': 'CVA Affective',
+  'cva-descriptive': 'CVA Descriptive',
+  'quick-tasting': 'Quick Tasting',
+  'legacy': 'Rating'
+};
+
+interface SessionFormState {
+  brewDate: string; // datetime-local value
+  coffeeBeans: string;
+  water: string;
+  brewedCoffeeWeight: string;
+  tds: string;
+  notes: string;
+  evaluation: SensationRecord;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (date: Date): string => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const createEmptyForm = (recipe: Recipe): SessionFormState => ({
+  brewDate: toLocalInputValue(new Date()),
+  coffeeBeans: recipe.measurements.coffeeBeans ? String(recipe.measurements.coffeeBeans) : '',
+  water: recipe.measurements.water ? String(recipe.measurements.water) : '',
+  brewedCoffeeWeight: '',
+  tds: '',
+  notes: '',
+  evaluation: { evaluationSystem: recipe.sensationRecord.evaluationSystem }
+});
+
+const parseNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const formatSessionScore = (session: BrewSession): string | null => {
+  const score = getEvaluationScore(session.evaluation);
+  if (!score) return null;
+  return `${score.score} / ${score.maxScore} ${SYSTEM_LABELS[score.system]}`;
+};
+
+const formatMeasurements = (measurements: BrewSessionMeasurements): string => {
+  const parts: string[] = [];
+  if (measurements.coffeeBeans && measurements.water) {
+    parts.push(`${measurements.coffeeBeans}g / ${measurements.water}g`);
+  }
+  if (measurements.coffeeWaterRatio) parts.push(`1:${measurements.coffeeWaterRatio.toFixed(1)}`);
+  if (measurements.tds) parts.push(`TDS ${measurements.tds}%`);
+  if (measurements.extractionYield) parts.push(`EY ${measurements.extractionYield}%`);
+  return parts.join(' · ');
+};
+
+export default function BrewSessionLog({ recipe }: BrewSessionLogProps) {
+  const [sessionList, setSessionList] = useState<BrewSessionList | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<SessionFormState>(() => createEmptyForm(recipe));
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { showSuccess, showError } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await brewSessionService.getSessions(recipe.recipeId);
+    if (response.success && response.data) {
+      setSessionList(response.data);
+    } else {
+      setError(response.error || 'Failed to load brew sessions');
+    }
+
+    setIsLoading(false);
+  }, [recipe.recipeId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleOpenForm = () => {
+    setForm(createEmptyForm(recipe));
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    const response = await brewSessionService.createSession(recipe.recipeId, {
+      brewDate: new Date(form.brewDate).toISOString(),
+      measurements: {
+        coffeeBeans: parseNumber(form.coffeeBeans),
+        water: parseNumber(form.water),
+        brewedCoffeeWeight: parseNumber(form.brewedCoffeeWeight),
+        tds: parseNumber(form.tds)
+      },
+      evaluation: form.evaluation,
+      notes: form.notes.trim() || undefined
+    });
+
+    setIsSaving(false);
+
+    if (response.success) {
+      showSuccess('Session Logged', 'Brew session saved');
+      setIsFormOpen(false);
+      await loadSessions();
+    } else {
+      showError('Failed to Log Session', response.error || 'Please try again');
+    }
+  };
+
+  const handleDelete = async (session: BrewSession) => {
+    const confirmed = window.confirm(`Delete the session brewed ${formatDate(session.brewDate, 'medium')}?`);
+    if (!confirmed) return;
+
+    setDeletingId(session.sessionId);
+    const response = await brewSessionService.deleteSession(recipe.recipeId, session.sessionId);
+    setDeletingId(null);
+
+    if (response.success) {
+      showSuccess('Session Deleted', 'Brew session removed');
+      await loadSessions();
+    } else {
+      showError('Failed to Delete', response.error || 'Please try again');
+    }
+  };
+
+  const sessions = sessionList?.sessions ?? [];
+  const stats = sessionList?.stats;
+
+  // Oldest first so session numbers follow brewing order
+  const chronological = [...sessions].reverse();
+  const chartData = chronological.flatMap((session, index) => {
+    const score = getEvaluationScore(session.evaluation);
+    return score
+      ? [{ date: session.brewDate, rating: score.normalizedScore, recipeName: `Session ${index + 1}`, recipeId: session.sessionId }]
+      : [];
+  });
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Brew Sessions</h3>
+        {!isFormOpen && (
+          <button
+            onClick={handleOpenForm}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Log Session
+          </button>
+        )}
+      </div>
+
+      {/* New session form */}
+      {isFormOpen && (
+        <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="col-span-2 md:col-span-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Brewed</label>
+              <input
+                type="datetime-local"
+                value={form.brewDate}
+                onChange={(e) => setForm(prev => ({ ...prev, brewDate: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Coffee (g)</label>
+              <input
+                type="number"
+                step="0.1"
+                value={form.coffeeBeans}
+                onChange={(e) => setForm(prev => ({ ...prev, coffeeBeans: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Water (g)</label>
+              <input
+                type="number"
+                step="1"
+                value={form.water}
+                onChange={(e) => setForm(prev => ({ ...prev, water: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Brewed Coffee (g)</label>
+              <input
+                type="number"
+                step="1"
+                value={form.brewedCoffeeWeight}
+                onChange={(e) => setForm(prev => ({ ...prev, brewedCoffeeWeight: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">TDS (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.tds}
+                onChange={(e) => setForm(prev => ({ ...prev, tds: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <TabbedEvaluationPanel
+            value={form.evaluation}
+            onChange={(evaluation) => setForm(prev => ({ ...prev, evaluation }))}
+          />
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+            <textarea
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="What changed this time, how it tasted..."
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsFormOpen(false)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.brewDate}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Session'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading && !sessionList && (
+        <div className="flex items-center text-sm text-gray-500">
+          <LoadingSpinner size="small" />
+          <span className="ml-2">Loading sessions...</span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {sessionList && sessions.length === 0 && !isFormOpen && (
+        <p className="text-sm text-gray-500 italic">No sessions logged yet. Log a session each time you brew this recipe.</p>
+      )}
+
+      {stats && sessions.length > 0 && (
+        <div className="space-y-4">
+          {/* Aggregates */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-gray-50 rounded-lg p-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{stats.sessionCount}</div>
+              <div className="text-xs text-gray-600">Sessions</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-blue-600">
+                {stats.averageScore !== undefined ? stats.averageScore.toFixed(1) : '—'}
+              </div>
+              <div className="text-xs text-gray-600">Average Score (of 10)</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {stats.averageTds !== undefined ? `${stats.averageTds}%` : '—'}
+              </div>
+              <div className="text-xs text-gray-600">Average TDS</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {stats.averageExtractionYield !== undefined ? `${stats.averageExtractionYield}%` : '—'}
+              </div>
+              <div className="text-xs text-gray-600">Average Extraction</div>
+            </div>
+          </div>
+
+          {Object.keys(stats.averageScoreBySystem).length > 1 && (
+            <p className="text-xs text-gray-500">
+              By system:{' '}
+              {(Object.entries(stats.averageScoreBySystem) as [EvaluationSystem, number][])
+                .map(([system, average]) => `${SYSTEM_LABELS[system]} ${average}`)
+                .join(' · ')}
+            </p>
+          )}
+
+          {chartData.length > 1 && (
+            <RatingHistoryChart data={chartData} title="Session Scores" />
+          )}
+
+          {/* Session list */}
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {sessions.map(session => {
+              const score = formatSessionScore(session);
+              const measurements = formatMeasurements(session.measurements);
+
+              return (
+                <li key={session.sessionId} className="p-3 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">{formatDate(session.brewDate, 'medium')}</span>
+                      {score && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">{score}</span>
+                      )}
+                    </div>
+                    {measurements && <p className="mt-1 text-xs text-gray-600">{measurements}</p>}
+                    {session.notes && <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{session.notes}</p>}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    disabled={deletingId !== null}
+                    className="ml-4 text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    {deletingId === session.sessionId ? 'Deleting...' : 'Delete'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
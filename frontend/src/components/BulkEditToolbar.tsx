@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { SearchFilters } from '../shared/types/search';
+import { CollectionSortOption, CollectionSummary } from '../shared/types/collection';
+import { BulkRecipeChanges, BulkRecipeUpdateResult } from '../shared/types/bulk';
+import { recipeService } from '../services/recipeService';
+import { collectionService } from '../services/collectionService';
+import { useToast } from './ui/ToastContainer';
+
+interface BulkEditToolbarProps {
+  selectedRecipeIds: string[];
+  searchFilters: SearchFilters; // Current list filters, for "apply to all matching"
+  totalMatching: number;
+  onApplied: () => void | Promise<void>;
+  onClose: () => void;
+}
+
+type BulkAction = 'grinderModel' | 'origin' | 'addToCollection' | 'removeFromCollection' | 'favorite' | 'unfavorite';
+type BulkScope = 'selected' | 'matching';
+
+const ACTIONS: Array<{ value: BulkAction; label: string }> = [
+  { value: 'grinderModel', label: 'Set grinder model' },
+  { value: 'origin', label: 'Set origin' },
+  { value: 'addToCollection', label: 'Add to collection' },
+  { value: 'removeFromCollection', label: 'Remove from collection' },
+  { value: 'favorite', label: 'Mark as favorite' },
+  { value: 'unfavorite', label: 'Remove from favorites' }
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  failed: 'Failed',
+  not_found: 'Not found',
+  skipped: 'Skipped',
+  rolled_back: 'Rolled back'
+};
+
+// Build the change set for one toolbar action
+const buildChanges = (action: BulkAction, value: string): BulkRecipeChanges => {
+  switch (action) {
+    case 'grinderModel':
+      return { brewingParameters: { grinderModel: value.trim() } };
+    case 'origin':
+      return { beanInfo: { origin: value.trim() } };
+    case 'addToCollection':
+      return { addToCollections: [value] };
+    case 'removeFromCollection':
+      return { removeFromCollections: [value] };
+    case 'favorite':
+      return { isFavorite: true };
+    case 'unfavorite':
+      return { isFavorite: false };
+  }
+};
+
+export default function BulkEditToolbar({
+  selectedRecipeIds,
+  searchFilters,
+  totalMatching,
+  onApplied,
+  onClose
+}: BulkEditToolbarProps) {
+  const { showSuccess, showError, showInfo } = useToast();
+  const [action, setAction] = useState<BulkAction>('grinderModel');
+  const [value, setValue] = useState('');
+  const [scope, setScope] = useState<BulkScope>('selected');
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [lastResult, setLastResult] = useState<BulkRecipeUpdateResult | null>(null);
+
+  const needsCollection = action === 'addToCollection' || action === 'removeFromCollection';
+  const needsText = action === 'grinderModel' || action === 'origin';
+  const targetCount = scope === 'selected' ? selectedRecipeIds.length : totalMatching;
+  const canApply = !isApplying && targetCount > 0 && (!needsText || value.trim() !== '') && (!needsCollection || value !== '');
+
+  useEffect(() => {
+    collectionService.getCollectionSummaries({ sortBy: CollectionSortOption.NAME, sortOrder: 'asc' }).then(response => {
+      if (response.success && response.data) setCollections(response.data);
+    });
+  }, []);
+
+  // A new action needs a new value
+  useEffect(() => {
+    setValue('');
+  }, [action]);
+
+  const handleApply = async () => {
+    const label = ACTIONS.find(option => option.value === action)!.label.toLowerCase();
+    const confirmed = window.confirm(`Apply "${label}" to ${targetCount} recipe(s)?`);
+    if (!confirmed) return;
+
+    setIsApplying(true);
+    setLastResult(null);
+    try {
+      const changes = buildChanges(action, value);
+      const response = await recipeService.bulkUpdate(
+        scope === 'selected' ? { recipeIds: selectedRecipeIds, changes } : { filters: searchFilters, changes }
+      );
+
+      if (response.data) setLastResult(response.data);
+
+      if (response.success && response.data) {
+        const { updated, matched } = response.data;
+        if (updated > 0) {
+          showSuccess('Bulk Edit Complete', `${updated} of ${matched} recipe(s) updated`);
+        } else {
+          showInfo('Nothing to Change', 'All recipes already had these values');
+        }
+        setValue('');
+        await onApplied();
+      } else {
+        showError('Bulk Edit Failed', response.error || 'Please try again');
+      }
+    } catch (error) {
+      showError('Bulk Edit Failed', 'An unexpected error occurred');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Recipes that blocked or were reverted by a rejected edit
+  const problems = lastResult && !lastResult.applied
+    ? lastResult.results.filter(result => result.status !== 'skipped')
+    : [];
+
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-sm font-medium text-blue-900">Bulk edit</span>
+
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as BulkScope)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="selected">{selectedRecipeIds.length} selected</option>
+          <option value="matching">All {totalMatching} matching</option>
+        </select>
+
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as BulkAction)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {ACTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        {needsText && (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={action === 'grinderModel' ? 'e.g. Comandante C40' : 'e.g. Ethiopia'}
+            maxLength={100}
+            className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+
+        {needsCollection && (
+          <select
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Choose collection...</option>
+            {collections.filter(collection => collection.type !== 'smart').map(collection => (
+              <option key={collection.collectionId} value={collection.collectionId}>{collection.name}</option>
+            ))}
+          </select>
+        )}
+
+        <button
+          onClick={handleApply}
+          disabled={!canApply}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          Done
+        </button>
+      </div>
+
+      {/* Per-recipe results of a rejected edit */}
+      {problems.length > 0 && (
+        <div className="text-xs text-red-700">
+          <p className="font-medium">No recipes were changed:</p>
+          <ul className="mt-1 space-y-0.5">
+            {problems.map(result => (
+              <li key={result.recipeId}>
+                {STATUS_LABELS[result.status] ?? result.status}: {result.recipeName ?? result.recipeId}
+                {result.error && <span className="text-red-600"> ({result.error})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
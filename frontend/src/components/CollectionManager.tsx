@@ -3,20 +3,30 @@ import {
   Collection, 
   CollectionInput, 
   CollectionUpdate, 
-  CollectionColor 
+  CollectionColor,
+  CollectionSortOption,
+  CollectionSummary,
+  SmartCollectionRule
 } from '../shared/types/collection';
+import { getDescendantIds } from '../shared/utils/collectionTree';
 import { 
   collectionService, 
   getCollectionColorOptions, 
   validateCollectionName 
 } from '../services/collectionService';
 import { useToast } from '../components/ui/ToastContainer';
+import { useAuth } from '../contexts/AuthContext';
+import CollectionRecipesPanel from './CollectionRecipesPanel';
+import ShareLinksPanel from './ShareLinksPanel';
+import SmartCollectionRuleEditor from './SmartCollectionRuleEditor';
+import CollectionTree from './CollectionTree';
 
 interface CollectionManagerProps {
   isOpen: boolean;
   onClose: () => void;
   collection?: Collection | null;
   onSuccess?: (collection: Collection) => void;
+  onRecipesChange?: () => void; // Membership changed from the recipes panel (saved immediately)
   mode?: 'create' | 'edit';
 }
 
@@ -33,9 +43,11 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
   onClose,
   collection,
   onSuccess,
+  onRecipesChange,
   mode = collection ? 'edit' : 'create'
 }) => {
-  const { showToast } = useToast();
+  const { showToast, showError } = useToast();
+  const { user } = useAuth();
   const [formData, setFormData] = useState<FormData>({
     name: '',
     description: '',
@@ -47,9 +59,27 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
   const [errors, setErrors] = useState<Partial<FormData>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [tagInput, setTagInput] = useState('');
+  // A smart collection holds whatever recipes match its rule; the type is fixed once created
+  const [isSmart, setIsSmart] = useState(false);
+  const [rule, setRule] = useState<SmartCollectionRule>({ filters: {} });
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [allCollections, setAllCollections] = useState<CollectionSummary[] | null>(null);
+
+  // Load every collection for the parent picker
+  useEffect(() => {
+    if (!isOpen) return;
+    setAllCollections(null);
+    collectionService.getCollectionSummaries({ sortBy: CollectionSortOption.NAME, sortOrder: 'asc' }).then(response => {
+      setAllCollections(response.success && response.data ? response.data : []);
+    });
+  }, [isOpen]);
 
   // Initialize form data when collection changes
   useEffect(() => {
+    setIsSmart(mode === 'edit' && collection?.type === 'smart');
+    setRule(mode === 'edit' && collection?.rule ? collection.rule : { filters: {} });
+    setParentId(mode === 'edit' ? collection?.parentId ?? null : null);
+
     if (collection && mode === 'edit') {
       setFormData({
         name: collection.name,
@@ -107,10 +137,21 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
           description: formData.description.trim() || undefined,
           color: formData.color,
           isPrivate: formData.isPrivate,
-          tags: formData.tags
+          tags: formData.tags,
+          ...(isSmart && { rule })
         };
         
         result = await collectionService.updateCollection(collection.collectionId, updateData);
+
+        // Changing the parent is a separate move
+        if (result.success && parentId !== (collection.parentId ?? null)) {
+          const moved = await collectionService.moveCollection(collection.collectionId, { parentId });
+          if (moved.success) {
+            result = moved;
+          } else {
+            showError('Failed to move collection', moved.error);
+          }
+        }
       } else {
         const createData: CollectionInput = {
           name: formData.name.trim(),
@@ -118,7 +159,9 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
           color: formData.color,
           isPrivate: formData.isPrivate,
           isDefault: false,
-          tags: formData.tags
+          tags: formData.tags,
+          ...(isSmart && { rule }),
+          ...(parentId && { parentId })
         };
         
         result = await collectionService.createCollection(createData);
@@ -187,7 +230,7 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+      <div className={`bg-white rounded-lg p-6 w-full ${mode === 'edit' ? 'max-w-2xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto`}>
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold text-gray-900">
             {mode === 'edit' ? 'Edit Collection' : 'Create New Collection'}
@@ -204,6 +247,28 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Collection Type (create mode only) */}
+          {mode === 'create' && (
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+              {[
+                { smart: false, label: 'Manual', hint: 'Pick recipes yourself' },
+                { smart: true, label: 'Smart', hint: 'Recipes matching a rule' }
+              ].map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setIsSmart(option.smart)}
+                  className={`flex-1 px-3 py-2 text-left transition-colors ${
+                    isSmart === option.smart ? 'bg-blue-50 text-blue-800' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Collection Name */}
           <div>
             <label htmlFor="collection-name" className="block text-sm font-medium text-gray-700 mb-2">
@@ -272,6 +337,26 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
             </div>
           </div>
 
+          {/* Parent Collection */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Parent Collection
+            </label>
+            {allCollections === null ? (
+              <p className="text-sm text-gray-500">Loading collections...</p>
+            ) : (
+              <CollectionTree
+                collections={allCollections}
+                selectedId={parentId}
+                onSelect={setParentId}
+                disabledIds={collection && mode === 'edit'
+                  ? [collection.collectionId, ...getDescendantIds(collection.collectionId, allCollections)]
+                  : []}
+                rootLabel="None (top level)"
+              />
+            )}
+          </div>
+
           {/* Privacy Setting */}
           <div>
             <label className="flex items-center space-x-2">
@@ -335,6 +420,26 @@ const CollectionManager: React.FC<CollectionManagerProps> = ({
             </div>
           </div>
 
+          {/* Rule (smart collections) */}
+          {isSmart && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Rule
+              </label>
+              <SmartCollectionRuleEditor rule={rule} onChange={setRule} />
+            </div>
+          )}
+
+          {/* Recipes (manual collections in edit mode only; a new collection has no ID yet) */}
+          {mode === 'edit' && collection && !isSmart && (
+            <CollectionRecipesPanel collection={collection} onMembershipChange={onRecipesChange} />
+          )}
+
+          {/* Share links (only the owner can share a collection) */}
+          {mode === 'edit' && collection && collection.ownerId === user?.userId && (
+            <ShareLinksPanel targetType="collection" targetId={collection.collectionId} allowCreate />
+          )}
+
           {/* Form Actions */}
           <div className="flex justify-end space-x-3 pt-4">
             <button
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Collection } from '../shared/types/collection';
+import { RecipeSummary } from '../shared/types/recipe';
+import { collectionService } from '../services/collectionService';
+import { recipeService } from '../services/recipeService';
+import { useToast } from '../components/ui/ToastContainer';
+
+interface CollectionRecipesPanelProps {
+  collection: Collection;
+  onMembershipChange?: () => void;
+}
+
+type Side = 'available' | 'members';
+
+const DRAG_TYPE = 'application/x-recipe-ids';
+
+// Move recipes in and out of a collection: select several, then drag them to the other list
+const CollectionRecipesPanel: React.FC<CollectionRecipesPanelProps> = ({ collection, onMembershipChange }) => {
+  const { showSuccess, showWarning, showError } = useToast();
+  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set(collection.recipeIds));
+  const [selected, setSelected] = useState<Record<Side, Set<string>>>({ available: new Set(), members: new Set() });
+  const [dropTarget, setDropTarget] = useState<Side | null>(null);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setMemberIds(new Set(collection.recipeIds));
+    setSelected({ available: new Set(), members: new Set() });
+  }, [collection]);
+
+  useEffect(() => {
+    setLoading(true);
+    recipeService.getAllRecipes().then(response => {
+      if (response.success && response.data) {
+        setRecipes(response.data);
+      } else {
+        showError('Failed to load recipes', response.error);
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const lists = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    const visible = term
+      ? recipes.filter(recipe => [recipe.recipeName, recipe.origin].some(value => value?.toLowerCase().includes(term)))
+      : recipes;
+    return {
+      available: visible.filter(recipe => !memberIds.has(recipe.recipeId)),
+      members: visible.filter(recipe => memberIds.has(recipe.recipeId))
+    };
+  }, [recipes, memberIds, filter]);
+
+  const toggleSelected = (side: Side, recipeId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev[side]);
+      if (next.has(recipeId)) {
+        next.delete(recipeId);
+      } else {
+        next.add(recipeId);
+      }
+      return { ...prev, [side]: next };
+    });
+  };
+
+  // Move recipes with one batch request
+  const moveRecipes = async (from: Side, recipeIds: string[]) => {
+    if (recipeIds.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const result = await collectionService.batchOperation({
+        operation: from === 'available' ? 'assign' : 'remove',
+        collectionId: collection.collectionId,
+        recipeIds
+      });
+
+      if (result.success && result.data) {
+        const { succeeded, failed } = result.data;
+        setMemberIds(prev => {
+          const next = new Set(prev);
+          succeeded.forEach(id => (from === 'available' ? next.add(id) : next.delete(id)));
+          return next;
+        });
+        setSelected(prev => ({ ...prev, [from]: new Set() }));
+
+        const summary = `${from === 'available' ? 'Added' : 'Removed'} ${succeeded.length} recipe${succeeded.length !== 1 ? 's' : ''}`;
+        if (failed.length > 0) {
+          showWarning(summary, `${failed.length} recipe${failed.length !== 1 ? 's were' : ' was'} skipped`);
+        } else {
+          showSuccess(summary);
+        }
+        onMembershipChange?.();
+      } else {
+        showError('Failed to update collection', result.error);
+      }
+    } catch (error) {
+      showError('Failed to update collection', 'An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Dragging a selected recipe carries the whole selection; an unselected one goes alone
+  const handleDragStart = (e: React.DragEvent, side: Side, recipeId: string) => {
+    const ids = selected[side].has(recipeId) ? Array.from(selected[side]) : [recipeId];
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ from: side, ids }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, target: Side) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+    const { from, ids } = JSON.parse(data) as { from: Side; ids: string[] };
+    if (from !== target) {
+      moveRecipes(from, ids);
+    }
+  };
+
+  const renderList = (side: Side, title: string) => (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDropTarget(side);
+      }}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={(e) => handleDrop(e, side)}
+      className={`flex-1 min-w-0 border rounded-md transition-colors ${
+        dropTarget === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="text-sm font-medium text-gray-700">
+          {title} ({lists[side].length})
+        </span>
+        <button
+          type="button"
+          onClick={() => moveRecipes(side, Array.from(selected[side]))}
+          disabled={selected[side].size === 0 || isSaving}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          {side === 'available' ? `Add ${selected[side].size || ''} →` : `← Remove ${selected[side].size || ''}`}
+        </button>
+      </div>
+      <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+        {lists[side].map(recipe => (
+          <li
+            key={recipe.recipeId}
+            draggable={!isSaving}
+            onDragStart={(e) => handleDragStart(e, side, recipe.recipeId)}
+            className={`flex items-center px-3 py-1.5 cursor-move ${
+              selected[side].has(recipe.recipeId) ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selected[side].has(recipe.recipeId)}
+              onChange={() => toggleSelected(side, recipe.recipeId)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">{recipe.recipeName}</span>
+            <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{recipe.origin}</span>
+          </li>
+        ))}
+        {lists[side].length === 0 && (
+          <li className="px-3 py-4 text-center text-xs text-gray-400">
+            {side === 'members' ? 'Drop recipes here to add them' : 'No other recipes'}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Recipes</label>
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          // The panel sits inside the collection form; Enter should not submit it
+          onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+          placeholder="Filter recipes"
+          className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading recipes...</p>
+      ) : (
+        <div className="flex gap-3">
+          {renderList('available', 'Other recipes')}
+          {renderList('members', 'In this collection')}
+        </div>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        Select several recipes and drag them to the other list. Changes are saved immediately.
+      </p>
+    </div>
+  );
+};
+
+export default CollectionRecipesPanel;
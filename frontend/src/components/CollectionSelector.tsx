@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Collection, CollectionSummary } from '../shared/types/collection';
 import { collectionService, getCollectionColorOptions } from '../services/collectionService';
 import { useToast } from '../components/ui/ToastContainer';
+import { describeSmartCollectionRule } from '../shared/utils/smartCollections';
 
 interface CollectionSelectorProps {
   selectedCollections: string[];
@@ -54,8 +55,14 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
     (collection.description && collection.description.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  // Smart collections pick their recipes by rule, so they are shown but never toggled
+  const isSmart = (collection: CollectionSummary) => collection.type === 'smart';
+  const smartTitle = (collection: CollectionSummary) =>
+    isSmart(collection) && collection.rule ? `Smart collection: ${describeSmartCollectionRule(collection.rule)}` : undefined;
+
   // Handle collection toggle
   const handleCollectionToggle = (collectionId: string) => {
+    if (collections.some(collection => collection.collectionId === collectionId && isSmart(collection))) return;
     const isSelected = selectedCollections.includes(collectionId);
     if (isSelected) {
       onCollectionsChange(selectedCollections.filter(id => id !== collectionId));
@@ -153,12 +160,15 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
                     key={collection.collectionId}
                     type="button"
                     onClick={() => handleCollectionToggle(collection.collectionId)}
-                    className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center space-x-2"
+                    disabled={isSmart(collection)}
+                    title={smartTitle(collection)}
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center space-x-2 disabled:cursor-default disabled:hover:bg-white"
                   >
                     <input
                       type="checkbox"
                       checked={selectedCollections.includes(collection.collectionId)}
                       onChange={() => {}} // Handled by button click
+                      disabled={isSmart(collection)}
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <div
@@ -166,6 +176,7 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
                       style={getColorStyle(collection.color)}
                     />
                     <span className="text-sm">{collection.name}</span>
+                    {isSmart(collection) && <span className="text-xs text-purple-700">Smart</span>}
                     <span className="text-xs text-gray-500">({collection.recipeCount})</span>
                   </button>
                 ))
@@ -207,15 +218,17 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
                   style={getColorStyle(collection.color)}
                 />
                 {collection.name}
-                <button
-                  type="button"
-                  onClick={() => handleCollectionToggle(collection.collectionId)}
-                  className="ml-2 text-blue-600 hover:text-blue-800"
-                >
-                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
+                {!isSmart(collection) && (
+                  <button
+                    type="button"
+                    onClick={() => handleCollectionToggle(collection.collectionId)}
+                    className="ml-2 text-blue-600 hover:text-blue-800"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
               </span>
             ))}
           </div>
@@ -260,12 +273,14 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
             {filteredCollections.map((collection) => (
               <label
                 key={collection.collectionId}
-                className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded cursor-pointer"
+                title={smartTitle(collection)}
+                className={`flex items-center space-x-3 p-2 hover:bg-gray-50 rounded ${isSmart(collection) ? 'cursor-default' : 'cursor-pointer'}`}
               >
                 <input
                   type="checkbox"
                   checked={selectedCollections.includes(collection.collectionId)}
                   onChange={() => handleCollectionToggle(collection.collectionId)}
+                  disabled={isSmart(collection)}
                   className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 />
                 <div
@@ -273,7 +288,10 @@ const CollectionSelector: React.FC<CollectionSelectorProps> = ({
                   style={getColorStyle(collection.color)}
                 />
                 <div className="flex-1">
-                  <div className="text-sm font-medium text-gray-900">{collection.name}</div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {collection.name}
+                    {isSmart(collection) && <span className="ml-2 text-xs font-normal text-purple-700">Smart</span>}
+                  </div>
                   {collection.description && (
                     <div className="text-xs text-gray-500">{collection.description}</div>
                   )}
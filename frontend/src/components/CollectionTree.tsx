@@ -0,0 +1,97 @@
+import React, { useState, useMemo } from 'react';
+import { CollectionSummary } from '../shared/types/collection';
+import { buildCollectionTree, getCollectionPath, CollectionTreeNode } from '../shared/utils/collectionTree';
+import { getCollectionColorOptions } from '../services/collectionService';
+
+interface CollectionTreeProps {
+  collections: CollectionSummary[];
+  selectedId: string | null; // null selects the top level
+  onSelect: (collectionId: string | null) => void;
+  disabledIds?: string[]; // Shown but not selectable (e.g. a collection and its own sub-collections)
+  rootLabel?: string;
+}
+
+const colorOptions = getCollectionColorOptions();
+const getColor = (color: string) => colorOptions.find(option => option.value === color)?.color ?? '#6B7280';
+
+// Collapsible collection tree with a single selection. Branches leading to the
+// selected collection start expanded.
+const CollectionTree: React.FC<CollectionTreeProps> = ({
+  collections,
+  selectedId,
+  onSelect,
+  disabledIds = [],
+  rootLabel = 'Top level'
+}) => {
+  const tree = useMemo(() => buildCollectionTree(collections), [collections]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(
+    selectedId ? getCollectionPath(selectedId, collections).map(collection => collection.collectionId) : []
+  ));
+
+  const toggleExpanded = (collectionId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(collectionId)) {
+        next.delete(collectionId);
+      } else {
+        next.add(collectionId);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: CollectionTreeNode<CollectionSummary>): JSX.Element => {
+    const { collection, children, depth } = node;
+    const isExpanded = expanded.has(collection.collectionId);
+    const isDisabled = disabledIds.includes(collection.collectionId);
+    const isSelected = selectedId === collection.collectionId;
+
+    return (
+      <li key={collection.collectionId}>
+        <div
+          className={`flex items-center py-1 pr-2 rounded ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+        >
+          <button
+            type="button"
+            onClick={() => toggleExpanded(collection.collectionId)}
+            className={`w-5 text-xs text-gray-500 hover:text-gray-700 ${children.length === 0 ? 'invisible' : ''}`}
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? '▾' : '▸'}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(collection.collectionId)}
+            disabled={isDisabled}
+            className="flex-1 min-w-0 flex items-center space-x-2 text-left text-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: getColor(collection.color) }} />
+            <span className={`truncate ${isSelected ? 'font-medium text-blue-800' : ''}`}>{collection.name}</span>
+            <span className="text-xs text-gray-400">({collection.rollupRecipeCount})</span>
+          </button>
+        </div>
+        {isExpanded && children.length > 0 && (
+          <ul>{children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md max-h-56 overflow-y-auto p-1">
+      <button
+        type="button"
+        onClick={() => onSelect(null)}
+        className={`w-full text-left px-2 py-1 text-sm rounded ${
+          selectedId === null ? 'bg-blue-50 font-medium text-blue-800' : 'text-gray-600 hover:bg-gray-50'
+        }`}
+      >
+        {rootLabel}
+      </button>
+      <ul>{tree.map(renderNode)}</ul>
+    </div>
+  );
+};
+
+export default CollectionTree;
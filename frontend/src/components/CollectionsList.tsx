@@ -6,6 +6,8 @@ import {
   CollectionColor 
 } from '../shared/types/collection';
 import { collectionService, getCollectionColorOptions } from '../services/collectionService';
+import { describeSmartCollectionRule } from '../shared/utils/smartCollections';
+import { getCollectionPath } from '../shared/utils/collectionTree';
 import { useToast } from '../components/ui/ToastContainer';
 import CollectionManager from './CollectionManager';
 import LoadingSpinner from './ui/LoadingSpinner';
@@ -267,7 +269,23 @@ const CollectionsList: React.FC<CollectionsListProps> = ({
                     style={getColorStyle(collection.color)}
                   />
                   <div>
+                    {collection.parentId && (
+                      <p className="text-xs text-gray-500 truncate">
+                        {getCollectionPath(collection.collectionId, collections)
+                          .slice(0, -1)
+                          .map(ancestor => ancestor.name)
+                          .join(' › ')}
+                      </p>
+                    )}
                     <h3 className="font-semibold text-gray-900">{collection.name}</h3>
+                    {collection.type === 'smart' && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 mr-1 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                        title={collection.rule ? describeSmartCollectionRule(collection.rule) : undefined}
+                      >
+                        ⚡ Smart
+                      </span>
+                    )}
                     {collection.isPrivate && (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
                         Private
@@ -345,6 +363,15 @@ const CollectionsList: React.FC<CollectionsListProps> = ({
                 </div>
               </div>
 
+              {/* Roll-up across sub-collections */}
+              {collection.childCount > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  {collection.childCount} sub-collection{collection.childCount !== 1 ? 's' : ''} ·{' '}
+                  {collection.rollupRecipeCount} recipe{collection.rollupRecipeCount !== 1 ? 's' : ''} in total
+                  {collection.rollupAverageRating > 0 && ` · avg ${collection.rollupAverageRating.toFixed(1)}`}
+                </p>
+              )}
+
               {/* Footer */}
               <div className="mt-4 pt-4 border-t border-gray-100">
                 <p className="text-xs text-gray-500">
@@ -362,6 +389,7 @@ const CollectionsList: React.FC<CollectionsListProps> = ({
         onClose={() => setShowManager(false)}
         collection={selectedCollection}
         onSuccess={handleManagerSuccess}
+        onRecipesChange={loadCollections}
         mode={managerMode}
       />
     </div>
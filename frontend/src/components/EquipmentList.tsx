@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { BrewingMethod } from '../shared/types/recipe';
+import { Equipment, EquipmentInput, EquipmentType, GrinderCalibrationPoint } from '../shared/types/equipment';
+import { DEFAULT_GRINDER_SETTING_SCALE, filterEquipmentByType, formatEquipmentLabel } from '../shared/utils/equipment';
+import { equipmentService } from '../services/equipmentService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+
+const equipmentSections: { type: EquipmentType; title: string }[] = [
+  { type: EquipmentType.GRINDER, title: 'Grinders' },
+  { type: EquipmentType.BREWER, title: 'Brewers' },
+  { type: EquipmentType.FILTER, title: 'Filter Papers' },
+  { type: EquipmentType.KETTLE, title: 'Kettles' }
+];
+
+const brewingMethodOptions = [
+  { value: BrewingMethod.POUR_OVER, label: 'Pour-over' },
+  { value: BrewingMethod.FRENCH_PRESS, label: 'French Press' },
+  { value: BrewingMethod.AEROPRESS, label: 'Aeropress' },
+  { value: BrewingMethod.COLD_BREW, label: 'Cold Brew' }
+];
+
+interface EquipmentFormState {
+  type: EquipmentType;
+  name: string;
+  brand: string;
+  scaleMin: string;
+  scaleMax: string;
+  scaleStep: string;
+  scaleUnit: string;
+  calibration: string;
+  brewingMethod: string;
+}
+
+const initialForm: EquipmentFormState = {
+  type: EquipmentType.GRINDER,
+  name: '',
+  brand: '',
+  scaleMin: String(DEFAULT_GRINDER_SETTING_SCALE.min),
+  scaleMax: String(DEFAULT_GRINDER_SETTING_SCALE.max),
+  scaleStep: String(DEFAULT_GRINDER_SETTING_SCALE.step),
+  scaleUnit: '',
+  calibration: '',
+  brewingMethod: ''
+};
+
+// Parse "10:300, 20:600" (setting:microns pairs) into a calibration table
+const parseCalibration = (text: string): GrinderCalibrationPoint[] | undefined => {
+  const points = text
+    .split(',')
+    .map(pair => pair.split(':').map(part => parseFloat(part)))
+    .filter(([setting, microns]) => setting !== undefined && microns !== undefined && !isNaN(setting) && !isNaN(microns))
+    .map(([setting, microns]) => ({ setting: setting!, microns: microns! }));
+
+  return points.length >= 2 ? points.sort((a, b) => a.setting - b.setting) : undefined;
+};
+
+export default function EquipmentList() {
+  const { showSuccess, showError } = useToast();
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [form, setForm] = useState<EquipmentFormState>(initialForm);
+
+  const loadEquipment = async () => {
+    setLoading(true);
+    const response = await equipmentService.getEquipment({ includeArchived: showArchived });
+    if (response.success && response.data) {
+      setEquipment(response.data);
+    } else {
+      showError('Failed to Load Equipment', response.error || 'An unexpected error occurred.');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadEquipment();
+  }, [showArchived]);
+
+  const updateForm = (field: keyof EquipmentFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const input: EquipmentInput = {
+      type: form.type,
+      name: form.name.trim(),
+      brand: form.brand.trim() || undefined
+    };
+
+    if (form.type === EquipmentType.GRINDER) {
+      input.settingScale = {
+        min: parseFloat(form.scaleMin),
+        max: parseFloat(form.scaleMax),
+        step: parseFloat(form.scaleStep),
+        unit: form.scaleUnit.trim() || undefined
+      };
+      input.calibration = parseCalibration(form.calibration);
+    }
+    if (form.type === EquipmentType.BREWER && form.brewingMethod) {
+      input.brewingMethod = form.brewingMethod as BrewingMethod;
+    }
+
+    setSaving(true);
+    const response = await equipmentService.createEquipment(input);
+    setSaving(false);
+
+    if (response.success && response.data) {
+      showSuccess('Equipment Added', `${formatEquipmentLabel(response.data)} is ready to use in recipes`);
+      setForm({ ...initialForm, type: form.type });
+      await loadEquipment();
+    } else {
+      showError('Failed to Add Equipment', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleToggleArchived = async (item: Equipment) => {
+    const response = await equipmentService.updateEquipment(item.equipmentId, { isArchived: !item.isArchived });
+    if (response.success) {
+      await loadEquipment();
+    } else {
+      showError('Failed to Update Equipment', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleDelete = async (item: Equipment) => {
+    if (!window.confirm(`Delete "${formatEquipmentLabel(item)}"? Recipes brewed with it keep its name.`)) {
+      return;
+    }
+
+    const response = await equipmentService.deleteEquipment(item.equipmentId);
+    if (response.success) {
+      showSuccess('Equipment Deleted', formatEquipmentLabel(item));
+      await loadEquipment();
+    } else {
+      showError('Failed to Delete Equipment', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const describeEquipment = (item: Equipment): string | null => {
+    if (item.settingScale) {
+      const { min, max, step, unit } = item.settingScale;
+      const calibrated = item.calibration ? ', calibrated' : '';
+      return `Settings ${min}–${max} in steps of ${step}${unit ? ` ${unit}` : ''}${calibrated}`;
+    }
+    if (item.brewingMethod) {
+      return brewingMethodOptions.find(option => option.value === item.brewingMethod)?.label ?? item.brewingMethod;
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Equipment</h2>
+          <p className="text-gray-600">Register your grinders, brewers, filter papers and kettles to pick them in recipes</p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>Show retired</span>
+        </label>
+      </div>
+
+      {/* Add form */}
+      <form onSubmit={handleAdd} className="bg-white p-4 rounded-lg border border-gray-200 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="equipmentType" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              id="equipmentType"
+              value={form.type}
+              onChange={(e) => updateForm('type', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {equipmentSections.map(section => (
+                <option key={section.type} value={section.type}>{section.title.replace(/s$/, '')}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="equipmentName" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="equipmentName"
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm('name', e.target.value)}
+              placeholder="e.g., Comandante C40"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="equipmentBrand" className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+            <input
+              id="equipmentBrand"
+              type="text"
+              value={form.brand}
+              onChange={(e) => updateForm('brand', e.target.value)}
+              placeholder="Optional"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          {form.type === EquipmentType.BREWER && (
+            <div>
+              <label htmlFor="equipmentBrewingMethod" className="block text-sm font-medium text-gray-700 mb-1">Brewing Method</label>
+              <select
+                id="equipmentBrewingMethod"
+                value={form.brewingMethod}
+                onChange={(e) => updateForm('brewingMethod', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Not specified</option>
+                {brewingMethodOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {form.type === EquipmentType.GRINDER && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ['scaleMin', 'Lowest Setting'],
+              ['scaleMax', 'Highest Setting'],
+              ['scaleStep', 'Step']
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  id={field}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form[field]}
+                  onChange={(e) => updateForm(field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            ))}
+            <div>
+              <label htmlFor="scaleUnit" className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+              <input
+                id="scaleUnit"
+                type="text"
+                value={form.scaleUnit}
+                onChange={(e) => updateForm('scaleUnit', e.target.value)}
+                placeholder="e.g., clicks"
+                maxLength={30}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div className="col-span-2 md:col-span-4">
+              <label htmlFor="calibration" className="block text-sm font-medium text-gray-700 mb-1">
+                Calibration (setting:microns)
+              </label>
+              <input
+                id="calibration"
+                type="text"
+                value={form.calibration}
+                onChange={(e) => updateForm('calibration', e.target.value)}
+                placeholder="Optional, e.g., 10:300, 20:600, 30:900 — used to translate settings between grinders"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !form.name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Adding...' : 'Add Equipment'}
+          </button>
+        </div>
+      </form>
+
+      {/* Registry */}
+      {loading ? (
+        <div className="flex justify-center items-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {equipmentSections.map(section => {
+            const items = filterEquipmentByType(equipment, section.type);
+            return (
+              <div key={section.type} className="bg-white p-4 rounded-lg border border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">{section.title}</h3>
+                {items.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing registered yet</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {items.map(item => (
+                      <li key={item.equipmentId} className="py-2 flex items-center justify-between">
+                        <div>
+                          <p className={`text-sm font-medium ${item.isArchived ? 'text-gray-400' : 'text-gray-900'}`}>
+                            {formatEquipmentLabel(item)}
+                            {item.isArchived && <span className="ml-2 text-xs">(retired)</span>}
+                          </p>
+                          {describeEquipment(item) && (
+                            <p className="text-xs text-gray-500">{describeEquipment(item)}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleToggleArchived(item)}
+                            className="text-xs text-gray-600 hover:text-gray-900"
+                          >
+                            {item.isArchived ? 'Restore' : 'Retire'}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(item)}
+                            className="text-xs text-red-600 hover:text-red-800"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
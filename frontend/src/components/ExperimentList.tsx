@@ -0,0 +1,501 @@
+import { useState, useEffect } from 'react';
+import { RecipeSummary, SensationRecord } from '../shared/types/recipe';
+import { WaterProfile } from '../shared/types/water';
+import { Experiment, ExperimentInput, ExperimentVariable } from '../shared/types/experiment';
+import { EXPERIMENT_VARIABLES, MAX_EXPERIMENT_VARIANTS, MIN_EXPERIMENT_VARIANTS, formatExperimentValue } from '../shared/utils/experiments';
+import { formatDate } from '../shared/utils/formatting';
+import { experimentService } from '../services/experimentService';
+import { recipeService } from '../services/recipeService';
+import { waterProfileService } from '../services/waterProfileService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+import TabbedEvaluationPanel from './ui/TabbedEvaluationPanel';
+
+interface VariantRow {
+  value: string;
+  label: string;
+}
+
+const emptyVariantRows = (): VariantRow[] => Array.from({ length: MIN_EXPERIMENT_VARIANTS }, () => ({ value: '', label: '' }));
+
+const variableOptions = Object.entries(EXPERIMENT_VARIABLES).map(([value, { label }]) => ({
+  value: value as ExperimentVariable,
+  label
+}));
+
+// Temperature and ratio are sent as numbers, everything else as text
+const isNumericVariable = (variable: ExperimentVariable) => variable === 'temperature' || variable === 'ratio';
+
+const createEmptyEvaluation = (): SensationRecord => ({ evaluationSystem: 'quick-tasting' });
+
+const formatScore = (score?: number) => score !== undefined ? score.toFixed(1) : '—';
+
+export default function ExperimentList() {
+  const { showSuccess, showError } = useToast();
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
+  const [waterProfiles, setWaterProfiles] = useState<WaterProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Plan form
+  const [name, setName] = useState('');
+  const [baseRecipeId, setBaseRecipeId] = useState('');
+  const [variable, setVariable] = useState<ExperimentVariable>('grind');
+  const [variantRows, setVariantRows] = useState<VariantRow[]>(emptyVariantRows);
+  const [notes, setNotes] = useState('');
+
+  // Tasting form
+  const [tastingCode, setTastingCode] = useState('');
+  const [evaluation, setEvaluation] = useState<SensationRecord>(createEmptyEvaluation);
+  const [tastingNotes, setTastingNotes] = useState('');
+
+  const loadExperiments = async () => {
+    setLoading(true);
+    const response = await experimentService.getExperiments();
+    if (response.success && response.data) {
+      setExperiments(response.data);
+    } else {
+      showError('Failed to Load Experiments', response.error || 'An unexpected error occurred.');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadExperiments();
+    recipeService.getAllRecipes().then(response => {
+      if (response.success && response.data) {
+        setRecipes(response.data);
+      }
+    });
+    waterProfileService.getWaterProfiles().then(response => {
+      if (response.success && response.data) {
+        setWaterProfiles(response.data);
+      }
+    });
+  }, []);
+
+  const selected = experiments.find(experiment => experiment.experimentId === selectedId) ?? null;
+
+  // Start each tasting fresh when another experiment is opened
+  useEffect(() => {
+    setTastingCode('');
+    setEvaluation(createEmptyEvaluation());
+    setTastingNotes('');
+  }, [selectedId]);
+
+  const replaceExperiment = (experiment: Experiment) => {
+    setExperiments(prev => prev.map(entry => entry.experimentId === experiment.experimentId ? experiment : entry));
+  };
+
+  const updateVariantRow = (index: number, field: keyof VariantRow, value: string) => {
+    setVariantRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const handleVariableChange = (next: ExperimentVariable) => {
+    setVariable(next);
+    setVariantRows(emptyVariantRows());
+  };
+
+  const resetForm = () => {
+    setName('');
+    setBaseRecipeId('');
+    setVariable('grind');
+    setVariantRows(emptyVariantRows());
+    setNotes('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !baseRecipeId) return;
+
+    const variants = variantRows
+      .filter(row => row.value.trim())
+      .map(row => ({
+        value: isNumericVariable(variable) ? parseFloat(row.value) : row.value.trim(),
+        label: row.label.trim() || undefined
+      }));
+    if (variants.length < MIN_EXPERIMENT_VARIANTS) {
+      showError('Incomplete Experiment', `Enter at least ${MIN_EXPERIMENT_VARIANTS} variant values.`);
+      return;
+    }
+
+    const input: ExperimentInput = {
+      name: name.trim(),
+      baseRecipeId,
+      variable,
+      variants,
+      notes: notes.trim() || undefined
+    };
+
+    setSaving(true);
+    const response = await experimentService.createExperiment(input);
+    setSaving(false);
+
+    if (response.success && response.data) {
+      showSuccess('Experiment Planned', `Brew ${response.data.variants.length} cups labelled with their codes and taste them blind`);
+      resetForm();
+      setExperiments(prev => [response.data!, ...prev]);
+      setSelectedId(response.data.experimentId);
+    } else {
+      showError('Failed to Plan Experiment', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleRecordTasting = async () => {
+    if (!selected || !tastingCode) return;
+
+    setSaving(true);
+    const response = await experimentService.recordTasting(selected.experimentId, {
+      code: tastingCode,
+      evaluation,
+      notes: tastingNotes.trim() || undefined
+    });
+    setSaving(false);
+
+    if (response.success && response.data) {
+      showSuccess('Tasting Recorded', `Cup ${tastingCode}`);
+      replaceExperiment(response.data);
+      setTastingCode('');
+      setEvaluation(createEmptyEvaluation());
+      setTastingNotes('');
+    } else {
+      showError('Failed to Record Tasting', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!selected) return;
+    if (!window.confirm('Reveal the results? No more tastings can be recorded afterwards.')) {
+      return;
+    }
+
+    setSaving(true);
+    const response = await experimentService.completeExperiment(selected.experimentId);
+    setSaving(false);
+
+    if (response.success && response.data) {
+      showSuccess('Results Revealed', selected.name);
+      replaceExperiment(response.data);
+    } else {
+      showError('Failed to Reveal Results', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleDelete = async (experiment: Experiment) => {
+    if (!window.confirm(`Delete "${experiment.name}"?`)) {
+      return;
+    }
+    const deleteRecipes = window.confirm('Also delete the variant recipes and their tastings? Cancel keeps them in My Brews.');
+
+    const response = await experimentService.deleteExperiment(experiment.experimentId, deleteRecipes);
+    if (response.success) {
+      showSuccess('Experiment Deleted', experiment.name);
+      setExperiments(prev => prev.filter(entry => entry.experimentId !== experiment.experimentId));
+      if (selectedId === experiment.experimentId) setSelectedId(null);
+    } else {
+      showError('Failed to Delete Experiment', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const describeVariant = (experiment: Experiment, value?: string | number, label?: string) => {
+    if (label) return label;
+    if (value === undefined) return '—';
+    if (experiment.variable === 'water') {
+      return waterProfiles.find(profile => profile.waterProfileId === value)?.name ?? 'Unknown water';
+    }
+    return formatExperimentValue(experiment.variable, value);
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Brew Lab</h2>
+        <p className="text-gray-600">Change one variable of a recipe, taste the cups blind and see which one wins</p>
+      </div>
+
+      {/* Plan form */}
+      <form onSubmit={handleCreate} className="bg-white p-4 rounded-lg border border-gray-200 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="experimentName" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="experimentName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Grind sweep Ethiopia"
+              maxLength={100}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="experimentBaseRecipe" className="block text-sm font-medium text-gray-700 mb-1">Base recipe</label>
+            <select
+              id="experimentBaseRecipe"
+              value={baseRecipeId}
+              onChange={(e) => setBaseRecipeId(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Select a recipe...</option>
+              {recipes.map(recipe => (
+                <option key={recipe.recipeId} value={recipe.recipeId}>{recipe.recipeName}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="experimentVariable" className="block text-sm font-medium text-gray-700 mb-1">Variable</label>
+            <select
+              id="experimentVariable"
+              value={variable}
+              onChange={(e) => handleVariableChange(e.target.value as ExperimentVariable)}
+              className={inputClassName}
+            >
+              {variableOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{EXPERIMENT_VARIABLES[variable].description}</p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {variantRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor={`variant-value-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  Variant {index + 1}
+                </label>
+                {variable === 'water' ? (
+                  <select
+                    id={`variant-value-${index}`}
+                    value={row.value}
+                    onChange={(e) => updateVariantRow(index, 'value', e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">Select water...</option>
+                    {waterProfiles.map(profile => (
+                      <option key={profile.waterProfileId} value={profile.waterProfileId}>{profile.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id={`variant-value-${index}`}
+                    type={isNumericVariable(variable) ? 'number' : 'text'}
+                    step="any"
+                    value={row.value}
+                    onChange={(e) => updateVariantRow(index, 'value', e.target.value)}
+                    placeholder={variable === 'ratio' ? 'e.g., 16 for 1:16' : undefined}
+                    className={inputClassName}
+                  />
+                )}
+              </div>
+              <div>
+                <label htmlFor={`variant-label-${index}`} className="block text-sm font-medium text-gray-700 mb-1">Label (optional)</label>
+                <input
+                  id={`variant-label-${index}`}
+                  type="text"
+                  value={row.label}
+                  onChange={(e) => updateVariantRow(index, 'label', e.target.value)}
+                  maxLength={50}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                {variantRows.length > MIN_EXPERIMENT_VARIANTS && (
+                  <button
+                    type="button"
+                    onClick={() => setVariantRows(prev => prev.filter((_, i) => i !== index))}
+                    className="text-xs text-red-600 hover:text-red-800 pb-3"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setVariantRows(prev => [...prev, { value: '', label: '' }])}
+            disabled={variantRows.length >= MAX_EXPERIMENT_VARIANTS}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            + Add variant
+          </button>
+        </div>
+
+        <div>
+          <label htmlFor="experimentNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            id="experimentNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What you expect to find..."
+            maxLength={2000}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !name.trim() || !baseRecipeId}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Plan Experiment'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Experiments */}
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Experiments</h3>
+            {experiments.length === 0 ? (
+              <p className="text-sm text-gray-500">No experiments planned yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {experiments.map(experiment => (
+                  <li key={experiment.experimentId} className="py-2 flex items-center justify-between">
+                    <button
+                      onClick={() => setSelectedId(experiment.experimentId)}
+                      className={`text-left ${selectedId === experiment.experimentId ? 'text-blue-700' : 'text-gray-900'}`}
+                    >
+                      <p className="text-sm font-medium">{experiment.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {EXPERIMENT_VARIABLES[experiment.variable].label} · {experiment.variants.length} variants ·{' '}
+                        {experiment.status === 'tasting' ? 'Tasting' : `Completed ${formatDate(experiment.dateCompleted!, 'short')}`}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(experiment)}
+                      className="text-xs text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Selected experiment: blind tasting or results */}
+          <div className="md:col-span-2 bg-white p-4 rounded-lg border border-gray-200">
+            {!selected ? (
+              <p className="text-sm text-gray-500">Select an experiment to record tastings or see its results</p>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{selected.name}</h3>
+                  <p className="text-xs text-gray-500">
+                    {EXPERIMENT_VARIABLES[selected.variable].label} of {selected.baseRecipeName}
+                  </p>
+                  {selected.notes && <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{selected.notes}</p>}
+                </div>
+
+                {selected.status === 'tasting' ? (
+                  <>
+                    <div>
+                      <span className="block text-sm font-medium text-gray-700 mb-2">Which cup are you tasting?</span>
+                      <div className="flex flex-wrap gap-2">
+                        {selected.variants.map(variant => (
+                          <button
+                            key={variant.code}
+                            type="button"
+                            onClick={() => setTastingCode(variant.code)}
+                            className={`px-3 py-2 rounded-md border text-sm font-mono ${
+                              tastingCode === variant.code
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'bg-white text-gray-900 border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            {variant.code}
+                            <span className="ml-2 text-xs opacity-75">×{variant.tastingCount}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {tastingCode && (
+                      <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                        <TabbedEvaluationPanel value={evaluation} onChange={setEvaluation} />
+                        <div>
+                          <label htmlFor="tastingNotes" className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+                          <textarea
+                            id="tastingNotes"
+                            rows={2}
+                            value={tastingNotes}
+                            onChange={(e) => setTastingNotes(e.target.value)}
+                            className={`${inputClassName} text-sm`}
+                          />
+                        </div>
+                        <div className="flex justify-end">
+                          <button
+                            onClick={handleRecordTasting}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {saving ? 'Saving...' : `Record Tasting for ${tastingCode}`}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleComplete}
+                        disabled={saving || selected.variants.some(variant => variant.tastingCount === 0)}
+                        title="Every cup needs at least one tasting"
+                        className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Reveal Results
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2">Rank</th>
+                        <th className="py-2">Code</th>
+                        <th className="py-2">{EXPERIMENT_VARIABLES[selected.variable].label}</th>
+                        <th className="py-2 text-right">Tastings</th>
+                        <th className="py-2 text-right">Avg Score</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {selected.variants.map(variant => (
+                        <tr key={variant.code} className={variant.rank === 1 ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+                          <td className="py-2">{variant.rank ?? '—'}</td>
+                          <td className="py-2 font-mono">{variant.code}</td>
+                          <td className="py-2">
+                            {describeVariant(selected, variant.value, variant.label)}
+                            {variant.isBaseline && (
+                              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">baseline</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">{variant.tastingCount}</td>
+                          <td className="py-2 text-right">{formatScore(variant.stats?.averageScore)}/10</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
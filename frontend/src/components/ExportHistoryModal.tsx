@@ -1,69 +1,88 @@
 import { useState, useEffect } from 'react';
-import { 
-  ExportHistoryItem, 
-  ExportStats,
-  exportHistoryService 
-} from '../services/exportHistoryService';
-import { EXPORT_FORMAT_LABELS } from '../services/exportService';
+import { ExportJob } from '../shared/types/export';
+import {
+  ExportJobStats,
+  EXPORT_JOB_FORMAT_LABELS,
+  exportJobService
+} from '../services/exportJobService';
 import LoadingSpinner from './ui/LoadingSpinner';
 
+// How often running jobs are polled for progress
+const POLL_INTERVAL_MS = 1500;
+
 interface ExportHistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryModalProps) {
-  const [history, setHistory] = useState<ExportHistoryItem[]>([]);
-  const [stats, setStats] = useState<ExportStats | null>(null);
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTab, setSelectedTab] = useState<'history' | 'stats'>('history');
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
-      loadData();
+      setLoading(true);
+      loadData().finally(() => setLoading(false));
     }
   }, [isOpen]);
 
+  // Keep polling while the server is still working on a job
+  const hasActiveJobs = jobs.some(job => exportJobService.isActive(job));
+  useEffect(() => {
+    if (!isOpen || !hasActiveJobs) return;
+
+    const interval = setInterval(loadData, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, hasActiveJobs]);
+
   const loadData = async () => {
-    setLoading(true);
-    try {
-      const exportHistory = exportHistoryService.getExportHistory();
-      const exportStats = exportHistoryService.getExportStats();
-      
-      setHistory(exportHistory);
-      setStats(exportStats);
-    } catch (error) {
-      console.error('Failed to load export history:', error);
-    } finally {
-      setLoading(false);
+    const response = await exportJobService.getExportJobs();
+    if (response.success && response.data) {
+      setJobs(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load export history');
     }
   };
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    if (query.trim()) {
-      const results = exportHistoryService.searchHistory(query);
-      setHistory(results);
+  const query = searchQuery.trim().toLowerCase();
+  const history = query
+    ? jobs.filter(job =>
+        (job.result?.filename ?? '').toLowerCase().includes(query) ||
+        job.options.format.toLowerCase().includes(query) ||
+        job.status.toLowerCase().includes(query)
+      )
+    : jobs;
+  const stats: ExportJobStats = exportJobService.getExportStats(jobs);
+
+  // Follow a freshly issued download link; the server sends the file as an attachment
+  const handleDownload = async (job: ExportJob) => {
+    const response = await exportJobService.getDownloadLink(job.id);
+    if (response.success && response.data) {
+      window.location.assign(response.data.url);
     } else {
-      const allHistory = exportHistoryService.getExportHistory();
-      setHistory(allHistory);
+      setError(response.error || 'Failed to download export');
     }
   };
 
-  const handleRemoveItem = (id: string) => {
+  const handleRemoveItem = async (id: string) => {
     const confirmed = window.confirm('Are you sure you want to remove this export from history?');
     if (confirmed) {
-      exportHistoryService.removeFromHistory(id);
-      loadData(); // Refresh data
+      await exportJobService.deleteExportJob(id);
+      await loadData(); // Refresh data
     }
   };
 
-  const handleClearHistory = () => {
-    const confirmed = window.confirm('Are you sure you want to clear all export history? This cannot be undone.');
+  const handleClearHistory = async () => {
+    const confirmed = window.confirm('Are you sure you want to clear all finished exports? This cannot be undone.');
     if (confirmed) {
-      exportHistoryService.clearHistory();
-      loadData(); // Refresh data
+      await Promise.all(
+        jobs.filter(job => !exportJobService.isActive(job)).map(job => exportJobService.deleteExportJob(job.id))
+      );
+      await loadData(); // Refresh data
     }
   };
 
@@ -73,6 +92,8 @@ export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryMod
         return 'text-green-600 bg-green-100';
       case 'failed':
         return 'text-red-600 bg-red-100';
+      case 'processing':
+        return 'text-blue-600 bg-blue-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -144,19 +165,23 @@ export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryMod
                         type="text"
                         placeholder="Search exports..."
                         value={searchQuery}
-                        onChange={(e) => handleSearch(e.target.value)}
+                        onChange={(e) => setSearchQuery(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
                       />
                     </div>
                     <button
                       onClick={handleClearHistory}
                       className="ml-4 px-3 py-2 text-sm text-red-600 hover:text-red-700 focus:outline-none"
-                      disabled={history.length === 0}
+                      disabled={jobs.length === 0}
                     >
                       Clear History
                     </button>
                   </div>
 
+                  {error && (
+                    <p className="mb-4 text-sm text-red-600">{error}</p>
+                  )}
+
                   {/* History List */}
                   {history.length === 0 ? (
                     <div className="text-center py-12">
@@ -179,32 +204,49 @@ export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryMod
                         >
                           <div className="flex-1">
                             <div className="flex items-center space-x-3">
-                              <h4 className="font-medium text-gray-900">{item.filename}</h4>
+                              <h4 className="font-medium text-gray-900">
+                                {item.result?.filename ?? `${EXPORT_JOB_FORMAT_LABELS[item.options.format]} export`}
+                              </h4>
                               <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(item.status)}`}>
                                 {item.status}
                               </span>
                             </div>
                             <div className="mt-1 flex items-center space-x-4 text-sm text-gray-600">
-                              <span>{exportHistoryService.formatExportDate(item.timestamp)}</span>
-                              <span>{EXPORT_FORMAT_LABELS[item.format]}</span>
-                              <span>{item.recipeCount} recipe{item.recipeCount !== 1 ? 's' : ''}</span>
-                              {item.fileSize && (
-                                <span>{exportHistoryService.formatFileSize(item.fileSize)}</span>
+                              <span>{exportJobService.formatExportDate(item.createdAt)}</span>
+                              <span>{EXPORT_JOB_FORMAT_LABELS[item.options.format]}</span>
+                              {item.result && (
+                                <>
+                                  <span>{item.result.recordCount} recipe{item.result.recordCount !== 1 ? 's' : ''}</span>
+                                  <span>{exportJobService.formatFileSize(item.result.fileSize)}</span>
+                                </>
+                              )}
+                              {item.result && !exportJobService.isDownloadable(item) && (
+                                <span className="text-gray-400">Download expired</span>
                               )}
                             </div>
-                            {item.status === 'failed' && item.errorMessage && (
-                              <p className="mt-2 text-sm text-red-600">{item.errorMessage}</p>
+                            {exportJobService.isActive(item) && (
+                              <div className="mt-2 max-w-sm">
+                                <div className="w-full bg-gray-200 rounded-full h-2">
+                                  <div
+                                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                                    style={{ width: `${item.progress}%` }}
+                                  />
+                                </div>
+                                <p className="mt-1 text-xs text-gray-600">{item.message ?? 'Working...'} ({item.progress}%)</p>
+                              </div>
+                            )}
+                            {item.status === 'failed' && item.error && (
+                              <p className="mt-2 text-sm text-red-600">{item.error}</p>
                             )}
                           </div>
                           <div className="flex items-center space-x-2">
-                            {item.downloadUrl && item.status === 'completed' && (
-                              <a
-                                href={item.downloadUrl}
-                                download={item.filename}
+                            {exportJobService.isDownloadable(item) && (
+                              <button
+                                onClick={() => handleDownload(item)}
                                 className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                               >
                                 Download
-                              </a>
+                              </button>
                             )}
                             <button
                               onClick={() => handleRemoveItem(item.id)}
@@ -224,7 +266,7 @@ export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryMod
               )}
 
               {/* Statistics Tab */}
-              {selectedTab === 'stats' && stats && (
+              {selectedTab === 'stats' && (
                 <div className="space-y-6">
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="bg-blue-50 p-4 rounded-lg">
@@ -249,14 +291,14 @@ export default function ExportHistoryModal({ isOpen, onClose }: ExportHistoryMod
                     <div className="bg-gray-50 p-4 rounded-lg">
                       <h4 className="font-medium text-gray-900 mb-2">Most Used Format</h4>
                       <div className="text-lg text-gray-700">
-                        {EXPORT_FORMAT_LABELS[stats.mostUsedFormat]}
+                        {stats.mostUsedFormat ? EXPORT_JOB_FORMAT_LABELS[stats.mostUsedFormat] : 'N/A'}
                       </div>
                     </div>
                     <div className="bg-gray-50 p-4 rounded-lg">
                       <h4 className="font-medium text-gray-900 mb-2">Average File Size</h4>
                       <div className="text-lg text-gray-700">
                         {stats.averageFileSize > 0 
-                          ? exportHistoryService.formatFileSize(stats.averageFileSize)
+                          ? exportJobService.formatFileSize(stats.averageFileSize)
                           : 'N/A'
                         }
                       </div>
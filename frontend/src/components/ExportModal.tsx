@@ -1,22 +1,64 @@
 import { useState, useEffect } from 'react';
 import { RecipeSummary } from '../shared/types/recipe';
+import { SearchFilters } from '../shared/types/search';
+import {
+  ExportFormat as JobExportFormat,
+  ExportJob,
+  ExportJobStatus,
+  ExportOptions as JobExportOptions,
+  ExportScope
+} from '../shared/types/export';
+import { SUMMARY_EXPORT_FIELDS } from '../shared/utils/evaluationExport';
 import { 
   ExportFormat, 
   ExportOptions,
   ExportFieldConfig,
-  exportService,
   EXPORT_FORMAT_LABELS,
   EXPORT_FORMAT_DESCRIPTIONS
 } from '../services/exportService';
+import { exportJobService } from '../services/exportJobService';
 import { exportTemplateService, ExportTemplate } from '../services/exportTemplates';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
 
+// Formats the server renders, keyed by the format stored in export templates
+const SERVER_FORMATS: Partial<Record<ExportFormat, JobExportFormat>> = {
+  [ExportFormat.CSV]: JobExportFormat.CSV,
+  [ExportFormat.EXCEL]: JobExportFormat.EXCEL,
+  [ExportFormat.JSON]: JobExportFormat.JSON
+};
+const FORMAT_OPTIONS = Object.keys(SERVER_FORMATS) as ExportFormat[];
+
+// How often a running export job is polled for progress
+const POLL_INTERVAL_MS = 1000;
+
+// Evaluation system column groups that can be toggled (legacy 1-10 scores follow the sensation fields)
+const EVALUATION_SYSTEM_OPTIONS: Array<{ key: keyof ExportFieldConfig['evaluationSystems']; label: string }> = [
+  { key: 'traditionalSCA', label: 'SCA 2004 Cupping' },
+  { key: 'cvaDescriptive', label: 'CVA Descriptive' },
+  { key: 'cvaAffective', label: 'CVA Affective' },
+  { key: 'quickTasting', label: 'Quick Tasting' }
+];
+
+// Turn the unticked fields into export column paths, e.g. "beanInfo.altitude".
+// Evaluation systems are column groups under sensationRecord.
+const toExcludeFields = (fieldConfig: Partial<ExportFieldConfig>): string[] =>
+  Object.entries(fieldConfig).flatMap(([key, value]) => {
+    if (value === false) return [key];
+    if (!value || typeof value !== 'object') return [];
+    const section = key === 'evaluationSystems' ? 'sensationRecord' : key;
+    return Object.entries(value).filter(([, enabled]) => enabled === false).map(([field]) => `${section}.${field}`);
+  });
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   recipes: RecipeSummary[];
   selectedRecipes?: Set<string>;
+  filters?: SearchFilters; // Current view, exported when no recipe is selected
+  matchingCount?: number; // Number of recipes matching the filters
   title?: string;
 }
 
@@ -25,13 +67,14 @@ export default function ExportModal({
   onClose, 
   recipes, 
   selectedRecipes,
+  filters = {},
+  matchingCount,
   title = "Export Recipes"
 }: ExportModalProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>(ExportFormat.CSV);
   const [includeFullDetails, setIncludeFullDetails] = useState(true);
   const [customFilename, setCustomFilename] = useState('');
   const [includeStats, setIncludeStats] = useState(false);
-  const [includeCollections, setIncludeCollections] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [exportMessage, setExportMessage] = useState('');
@@ -46,53 +89,107 @@ export default function ExportModal({
   
   const { showSuccess, showError } = useToast();
 
-  // Load templates on mount
+  // Load templates on mount; only formats the server renders can be exported here
   useEffect(() => {
     const allTemplates = exportTemplateService.getAllTemplates();
-    setTemplates(allTemplates);
+    setTemplates(allTemplates.filter(template => SERVER_FORMATS[template.format]));
   }, []);
 
-  // Determine which recipes to export
-  const recipesToExport = selectedRecipes && selectedRecipes.size > 0
+  // Selected recipes are exported by ID, otherwise everything matching the filters
+  const isSelection = !!selectedRecipes && selectedRecipes.size > 0;
+  const recipesToExport = isSelection
     ? recipes.filter(recipe => selectedRecipes.has(recipe.recipeId))
     : recipes;
+  const exportCount = isSelection ? recipesToExport.length : matchingCount ?? recipes.length;
+
+  // Build the server export options from the form
+  const buildJobOptions = (): JobExportOptions => {
+    const range = dateRange.start && dateRange.end
+      ? { start: new Date(dateRange.start), end: new Date(dateRange.end) }
+      : undefined;
+    const excludeFields = includeFullDetails ? toExcludeFields(fieldConfig) : [];
+    const filename = customFilename.trim();
+
+    return {
+      format: SERVER_FORMATS[selectedFormat] ?? JobExportFormat.CSV,
+      ...(isSelection
+        ? {
+            scope: ExportScope.SELECTED,
+            selectedRecipeIds: recipesToExport
+              .filter(recipe => !range || (new Date(recipe.dateCreated) >= range.start && new Date(recipe.dateCreated) <= range.end))
+              .map(recipe => recipe.recipeId)
+          }
+        : {
+            scope: ExportScope.FILTERED,
+            filters: range
+              ? { ...filters, dateRange: { field: 'dateCreated', start: range.start.toISOString(), end: range.end.toISOString() } }
+              : filters
+          }),
+      includeFields: includeFullDetails ? undefined : SUMMARY_EXPORT_FIELDS,
+      excludeFields: excludeFields.length > 0 ? excludeFields : undefined,
+      formatOptions: selectedFormat === ExportFormat.EXCEL
+        ? { includeSummarySheet: includeStats && includeFullDetails }
+        : undefined,
+      filename: filename || undefined,
+      includeTimestamp: !filename
+    };
+  };
+
+  // Poll the job until the server has finished with it
+  const waitForJob = async (jobId: string): Promise<ExportJob> => {
+    for (;;) {
+      await delay(POLL_INTERVAL_MS);
+      const response = await exportJobService.getExportJob(jobId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to load export status');
+      }
+
+      setExportProgress(response.data.progress);
+      setExportMessage(response.data.message ?? '');
+      if (!exportJobService.isActive(response.data)) {
+        return response.data;
+      }
+    }
+  };
 
   const handleExport = async () => {
-    if (recipesToExport.length === 0) {
+    if (exportCount === 0) {
       showError('Export Error', 'No recipes selected for export');
       return;
     }
 
+    const options = buildJobOptions();
+    if (options.scope === ExportScope.SELECTED && !options.selectedRecipeIds?.length) {
+      showError('Export Error', 'None of the selected recipes were created within this date range');
+      return;
+    }
+
     setIsExporting(true);
     setExportProgress(0);
     setExportMessage('');
 
     try {
-      const options: ExportOptions = {
-        format: selectedFormat,
-        includeFullDetails,
-        filename: customFilename.trim() || undefined,
-        includeStats: includeStats && includeFullDetails,
-        includeCollections: includeCollections && includeFullDetails,
-        dateRange: dateRange.start && dateRange.end ? {
-          start: new Date(dateRange.start),
-          end: new Date(dateRange.end)
-        } : undefined,
-        fieldConfig: Object.keys(fieldConfig).length > 0 ? fieldConfig : undefined
-      };
+      const created = await exportJobService.createExportJob({ options });
+      if (!created.success || !created.data) {
+        throw new Error(created.error || 'Failed to start export');
+      }
 
-      await exportService.exportRecipes(
-        recipesToExport,
-        options,
-        (progress, message) => {
-          setExportProgress(progress);
-          setExportMessage(message);
-        }
-      );
+      const job = await waitForJob(created.data.id);
+      if (job.status !== ExportJobStatus.COMPLETED) {
+        throw new Error(job.error || 'Export failed');
+      }
+
+      // The server sends the file as an attachment, so following the link keeps this page
+      const link = await exportJobService.getDownloadLink(job.id);
+      if (!link.success || !link.data) {
+        throw new Error(link.error || 'Failed to download export');
+      }
+      window.location.assign(link.data.url);
 
+      const recordCount = job.result?.recordCount ?? 0;
       showSuccess(
         'Export Complete', 
-        `Successfully exported ${recipesToExport.length} recipe${recipesToExport.length !== 1 ? 's' : ''}`
+        `Successfully exported ${recordCount} recipe${recordCount !== 1 ? 's' : ''}`
       );
       
       onClose();
@@ -131,7 +228,6 @@ export default function ExportModal({
         setSelectedFormat(template.format);
         setIncludeFullDetails(template.options.includeFullDetails || false);
         setIncludeStats(template.options.includeStats || false);
-        setIncludeCollections(template.options.includeCollections || false);
         setFieldConfig(template.options.fieldConfig || {});
         setCustomFilename('');
       }
@@ -149,7 +245,6 @@ export default function ExportModal({
         format: selectedFormat,
         includeFullDetails,
         includeStats: includeStats && includeFullDetails,
-        includeCollections: includeCollections && includeFullDetails,
         fieldConfig: Object.keys(fieldConfig).length > 0 ? fieldConfig : undefined
       };
 
@@ -183,19 +278,15 @@ export default function ExportModal({
         return 'xlsx';
       case ExportFormat.JSON:
         return 'json';
-      case ExportFormat.PDF:
-      case ExportFormat.PRINT:
-        return 'pdf';
       default:
         return 'txt';
     }
   };
 
+  // The name the server gives an export without a custom filename
   const generatePreviewFilename = (): string => {
     const timestamp = new Date().toISOString().split('T')[0];
-    const suffix = recipesToExport.length === 1 ? 'recipe' : `${recipesToExport.length}_recipes`;
-    const extension = getFileExtension(selectedFormat);
-    return `coffee_${suffix}_${timestamp}.${extension}`;
+    return `coffee_recipes_${timestamp}`;
   };
 
   if (!isOpen) return null;
@@ -229,7 +320,7 @@ export default function ExportModal({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <span>
-                Exporting {recipesToExport.length} recipe{recipesToExport.length !== 1 ? 's' : ''}
+                Exporting {exportCount} recipe{exportCount !== 1 ? 's' : ''}
                 {selectedRecipes && selectedRecipes.size > 0 && (
                   <span className="font-medium"> (selected recipes)</span>
                 )}
@@ -330,7 +421,7 @@ export default function ExportModal({
           <div className="mb-6">
             <h3 className="text-sm font-medium text-gray-900 mb-3">Export Format</h3>
             <div className="space-y-3">
-              {Object.values(ExportFormat).map((format) => (
+              {FORMAT_OPTIONS.map((format) => (
                 <label
                   key={format}
                   className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
@@ -366,83 +457,61 @@ export default function ExportModal({
             <h3 className="text-sm font-medium text-gray-900">Export Options</h3>
             
             {/* Include Full Details */}
-            {selectedFormat !== ExportFormat.PRINT && (
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={includeFullDetails}
+                onChange={(e) => setIncludeFullDetails(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                disabled={isExporting}
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-900">Include full recipe details</span>
+                <p className="text-xs text-gray-600">
+                  Include complete brewing parameters, measurements, and tasting notes
+                </p>
+              </div>
+            </label>
+
+            {/* Excel-specific options */}
+            {selectedFormat === ExportFormat.EXCEL && includeFullDetails && (
               <label className="flex items-center space-x-3">
                 <input
                   type="checkbox"
-                  checked={includeFullDetails}
-                  onChange={(e) => setIncludeFullDetails(e.target.checked)}
+                  checked={includeStats}
+                  onChange={(e) => setIncludeStats(e.target.checked)}
                   className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                   disabled={isExporting}
                 />
                 <div>
-                  <span className="text-sm font-medium text-gray-900">Include full recipe details</span>
+                  <span className="text-sm font-medium text-gray-900">Include statistics sheet</span>
                   <p className="text-xs text-gray-600">
-                    Include complete brewing parameters, measurements, and tasting notes
+                    Add a separate sheet with recipe statistics and analytics
                   </p>
                 </div>
               </label>
             )}
 
-            {/* Excel-specific options */}
-            {selectedFormat === ExportFormat.EXCEL && includeFullDetails && (
-              <>
-                <label className="flex items-center space-x-3">
-                  <input
-                    type="checkbox"
-                    checked={includeStats}
-                    onChange={(e) => setIncludeStats(e.target.checked)}
-                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                    disabled={isExporting}
-                  />
-                  <div>
-                    <span className="text-sm font-medium text-gray-900">Include statistics sheet</span>
-                    <p className="text-xs text-gray-600">
-                      Add a separate sheet with recipe statistics and analytics
-                    </p>
-                  </div>
-                </label>
-
-                <label className="flex items-center space-x-3">
-                  <input
-                    type="checkbox"
-                    checked={includeCollections}
-                    onChange={(e) => setIncludeCollections(e.target.checked)}
-                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                    disabled={isExporting}
-                  />
-                  <div>
-                    <span className="text-sm font-medium text-gray-900">Include collections sheet</span>
-                    <p className="text-xs text-gray-600">
-                      Add a separate sheet with collection information and recipe groupings
-                    </p>
-                  </div>
-                </label>
-              </>
-            )}
-
             {/* Custom Filename */}
-            {selectedFormat !== ExportFormat.PRINT && (
-              <div>
-                <label className="block text-sm font-medium text-gray-900 mb-2">
-                  Custom Filename (optional)
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="text"
-                    value={customFilename}
-                    onChange={(e) => setCustomFilename(e.target.value)}
-                    placeholder={generatePreviewFilename()}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-                    disabled={isExporting}
-                  />
-                  <span className="text-sm text-gray-500">.{getFileExtension(selectedFormat)}</span>
-                </div>
-                <p className="text-xs text-gray-600 mt-1">
-                  Leave empty for automatic naming
-                </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Custom Filename (optional)
+              </label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={customFilename}
+                  onChange={(e) => setCustomFilename(e.target.value)}
+                  placeholder={generatePreviewFilename()}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  disabled={isExporting}
+                />
+                <span className="text-sm text-gray-500">.{getFileExtension(selectedFormat)}</span>
               </div>
-            )}
+              <p className="text-xs text-gray-600 mt-1">
+                Leave empty for automatic naming
+              </p>
+            </div>
 
             {/* Advanced Options Toggle */}
             <div className="border-t pt-4">
@@ -602,6 +671,28 @@ export default function ExportModal({
                       </div>
                     </div>
 
+                    {/* Evaluation Systems */}
+                    <div>
+                      <h5 className="text-xs font-medium text-gray-800 mb-2">Evaluation Systems</h5>
+                      <div className="grid grid-cols-2 gap-2">
+                        {EVALUATION_SYSTEM_OPTIONS.map(({ key, label }) => (
+                          <label key={key} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={fieldConfig.evaluationSystems?.[key] !== false}
+                              onChange={(e) => setFieldConfig(prev => ({
+                                ...prev,
+                                evaluationSystems: { ...prev.evaluationSystems, [key]: e.target.checked }
+                              }))}
+                              className="h-3 w-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                              disabled={isExporting}
+                            />
+                            <span className="text-xs text-gray-700">{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
                     {/* Quick Presets */}
                     <div className="flex items-center space-x-2 pt-2 border-t">
                       <span className="text-xs text-gray-600">Quick select:</span>
@@ -668,7 +759,7 @@ export default function ExportModal({
             </button>
             <button
               onClick={handleExport}
-              disabled={isExporting || recipesToExport.length === 0}
+              disabled={isExporting || exportCount === 0}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isExporting ? (
@@ -678,7 +769,7 @@ export default function ExportModal({
                 </div>
               ) : (
                 <>
-                  Export {recipesToExport.length} Recipe{recipesToExport.length !== 1 ? 's' : ''}
+                  Export {exportCount} Recipe{exportCount !== 1 ? 's' : ''}
                 </>
               )}
             </button>
@@ -1,17 +1,34 @@
 import { useState, useRef, useEffect } from 'react';
-import { UseFiltersReturn } from '../hooks/useFilters';
+import { UseFiltersReturn, DateFilterField } from '../hooks/useFilters';
+import { SavedSearch, SortConfig } from '../shared/types/search';
+import { WaterProfile } from '../shared/types/water';
+import { formatWaterComposition } from '../shared/utils/waterChemistry';
+import { waterProfileService } from '../services/waterProfileService';
+import SavedViewsPicker from './SavedViewsPicker';
 
 interface FilterPanelProps {
   filters: UseFiltersReturn;
   isOpen: boolean;
   onToggle: () => void;
+  sort?: SortConfig; // Current sort, stored with saved views
+  onApplySavedView?: (view: SavedSearch) => void;
   className?: string;
 }
 
-export default function FilterPanel({ filters, isOpen, onToggle, className = '' }: FilterPanelProps) {
+export default function FilterPanel({ filters, isOpen, onToggle, sort, onApplySavedView, className = '' }: FilterPanelProps) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['brewing', 'rating']));
+  const [waterProfiles, setWaterProfiles] = useState<WaterProfile[]>([]);
   const panelRef = useRef<HTMLDivElement>(null);
 
+  // Water profiles are user-defined, so list them from the registry rather than from facets
+  useEffect(() => {
+    waterProfileService.getWaterProfiles().then(response => {
+      if (response.success && response.data) {
+        setWaterProfiles(response.data);
+      }
+    });
+  }, []);
+
   // Close panel when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -57,8 +74,20 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
     filters.setCollections(newCollections);
   };
 
+  const handleWaterProfileToggle = (waterProfileId: string) => {
+    const newWaterProfiles = filters.filterOptions.waterProfiles.includes(waterProfileId)
+      ? filters.filterOptions.waterProfiles.filter((id: string) => id !== waterProfileId)
+      : [...filters.filterOptions.waterProfiles, waterProfileId];
+    filters.setWaterProfiles(newWaterProfiles);
+  };
+
+  // Number of recipes matching the current filters with this option selected
+  const facetCount = (options: Array<{ value: string; count: number }> | undefined, value: string) => {
+    return options?.find(option => option.value === value)?.count ?? 0;
+  };
+
   const formatBrewingMethod = (method: string) => {
-    return method.split('_').map((word: string) => 
+    return method.split(/[-_]/).map((word: string) => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' ');
   };
@@ -113,6 +142,13 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
         )}
 
         <div className="p-6 space-y-6">
+          {/* Saved Views */}
+          <SavedViewsPicker
+            filters={filters}
+            sort={sort}
+            onApplySavedView={onApplySavedView}
+          />
+
           {/* Quick Toggles */}
           <div className="space-y-3">
             <h3 className="text-sm font-medium text-gray-900">Quick Filters</h3>
@@ -236,6 +272,9 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
                     <span className="ml-2 text-sm text-gray-700">
                       {formatBrewingMethod(method)}
                     </span>
+                    <span className="ml-auto text-xs text-gray-500">
+                      {facetCount(filters.facets?.brewingMethods, method)}
+                    </span>
                   </label>
                 ))}
                 {filters.availableOptions.brewingMethods.length === 0 && (
@@ -275,6 +314,9 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">{origin}</span>
+                    <span className="ml-auto text-xs text-gray-500">
+                      {facetCount(filters.facets?.origins, origin)}
+                    </span>
                   </label>
                 ))}
                 {filters.availableOptions.origins.length === 0 && (
@@ -284,6 +326,47 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
             )}
           </div>
 
+          {/* Water Profiles Filter */}
+          {waterProfiles.length > 0 && (
+            <div className="space-y-3">
+              <button
+                onClick={() => toggleSection('water')}
+                className="flex items-center justify-between w-full text-left"
+              >
+                <h3 className="text-sm font-medium text-gray-900">Brew Water</h3>
+                <svg 
+                  className={`w-4 h-4 text-gray-500 transform transition-transform ${
+                    expandedSections.has('water') ? 'rotate-180' : ''
+                  }`}
+                  fill="none" 
+                  stroke="currentColor" 
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              
+              {expandedSections.has('water') && (
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {waterProfiles.map(profile => (
+                    <label key={profile.waterProfileId} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={filters.filterOptions.waterProfiles.includes(profile.waterProfileId)}
+                        onChange={() => handleWaterProfileToggle(profile.waterProfileId)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{profile.name}</span>
+                      <span className="ml-auto text-xs text-gray-500">
+                        {formatWaterComposition(profile.composition)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Collections Filter */}
           {filters.availableOptions.collections.length > 0 && (
             <div className="space-y-3">
@@ -315,6 +398,9 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
                         className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                       />
                       <span className="ml-2 text-sm text-gray-700">{collection}</span>
+                      <span className="ml-auto text-xs text-gray-500">
+                        {facetCount(filters.facets?.collections, collection)}
+                      </span>
                     </label>
                   ))}
                 </div>
@@ -379,16 +465,16 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
             )}
           </div>
 
-          {/* Date Created Range Filter */}
+          {/* Date Range Filter */}
           <div className="space-y-3">
             <button
-              onClick={() => toggleSection('dateCreated')}
+              onClick={() => toggleSection('dateRange')}
               className="flex items-center justify-between w-full text-left"
             >
-              <h3 className="text-sm font-medium text-gray-900">Date Created</h3>
+              <h3 className="text-sm font-medium text-gray-900">Date Range</h3>
               <svg 
                 className={`w-4 h-4 text-gray-500 transform transition-transform ${
-                  expandedSections.has('dateCreated') ? 'rotate-180' : ''
+                  expandedSections.has('dateRange') ? 'rotate-180' : ''
                 }`}
                 fill="none" 
                 stroke="currentColor" 
@@ -398,72 +484,29 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
               </svg>
             </button>
             
-            {expandedSections.has('dateCreated') && (
+            {expandedSections.has('dateRange') && (
               <div className="space-y-3">
                 <div className="space-y-2">
-                  <label className="text-xs text-gray-600">From:</label>
-                  <input
-                    type="date"
-                    value={filters.filterOptions.dateCreatedRange.start?.toISOString().split('T')[0] || ''}
-                    onChange={(e) => filters.setDateCreatedRange({
-                      ...filters.filterOptions.dateCreatedRange,
-                      start: e.target.value ? new Date(e.target.value) : null
-                    })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-xs text-gray-600">To:</label>
-                  <input
-                    type="date"
-                    value={filters.filterOptions.dateCreatedRange.end?.toISOString().split('T')[0] || ''}
-                    onChange={(e) => filters.setDateCreatedRange({
-                      ...filters.filterOptions.dateCreatedRange,
-                      end: e.target.value ? new Date(e.target.value) : null
+                  <label className="text-xs text-gray-600">Date field:</label>
+                  <select
+                    value={filters.filterOptions.dateRange.field}
+                    onChange={(e) => filters.setDateRange({
+                      ...filters.filterOptions.dateRange,
+                      field: e.target.value as DateFilterField
                     })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                {(filters.filterOptions.dateCreatedRange.start || filters.filterOptions.dateCreatedRange.end) && (
-                  <button
-                    onClick={() => filters.setDateCreatedRange({ start: null, end: null })}
-                    className="text-sm text-blue-600 hover:text-blue-700"
                   >
-                    Clear date range
-                  </button>
-                )}
-              </div>
-            )}
-          </div>
-
-          {/* Date Modified Range Filter */}
-          <div className="space-y-3">
-            <button
-              onClick={() => toggleSection('dateModified')}
-              className="flex items-center justify-between w-full text-left"
-            >
-              <h3 className="text-sm font-medium text-gray-900">Date Modified</h3>
-              <svg 
-                className={`w-4 h-4 text-gray-500 transform transition-transform ${
-                  expandedSections.has('dateModified') ? 'rotate-180' : ''
-                }`}
-                fill="none" 
-                stroke="currentColor" 
-                viewBox="0 0 24 24"
-              >
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-              </svg>
-            </button>
-            
-            {expandedSections.has('dateModified') && (
-              <div className="space-y-3">
+                    <option value="dateCreated">Date created</option>
+                    <option value="dateModified">Date modified</option>
+                  </select>
+                </div>
                 <div className="space-y-2">
                   <label className="text-xs text-gray-600">From:</label>
                   <input
                     type="date"
-                    value={filters.filterOptions.dateModifiedRange.start?.toISOString().split('T')[0] || ''}
-                    onChange={(e) => filters.setDateModifiedRange({
-                      ...filters.filterOptions.dateModifiedRange,
+                    value={filters.filterOptions.dateRange.start?.toISOString().split('T')[0] || ''}
+                    onChange={(e) => filters.setDateRange({
+                      ...filters.filterOptions.dateRange,
                       start: e.target.value ? new Date(e.target.value) : null
                     })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -473,22 +516,27 @@ export default function FilterPanel({ filters, isOpen, onToggle, className = ''
                   <label className="text-xs text-gray-600">To:</label>
                   <input
                     type="date"
-                    value={filters.filterOptions.dateModifiedRange.end?.toISOString().split('T')[0] || ''}
-                    onChange={(e) => filters.setDateModifiedRange({
-                      ...filters.filterOptions.dateModifiedRange,
+                    value={filters.filterOptions.dateRange.end?.toISOString().split('T')[0] || ''}
+                    onChange={(e) => filters.setDateRange({
+                      ...filters.filterOptions.dateRange,
                       end: e.target.value ? new Date(e.target.value) : null
                     })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
-                {(filters.filterOptions.dateModifiedRange.start || filters.filterOptions.dateModifiedRange.end) && (
+                {(filters.filterOptions.dateRange.start || filters.filterOptions.dateRange.end) && (
                   <button
-                    onClick={() => filters.setDateModifiedRange({ start: null, end: null })}
+                    onClick={() => filters.setDateRange({ ...filters.filterOptions.dateRange, start: null, end: null })}
                     className="text-sm text-blue-600 hover:text-blue-700"
                   >
                     Clear date range
                   </button>
                 )}
+                {filters.filterOptions.recentlyModified && (
+                  <p className="text-xs text-gray-500">
+                    A date range here overrides the "Recently modified" quick filter.
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -4,6 +4,7 @@ import KeyboardShortcutsModal from './KeyboardShortcutsModal';
 import ThemeToggle from './ui/ThemeToggle';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useTheme } from '../contexts/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
 
 interface LayoutProps {
   children: ReactNode;
@@ -14,6 +15,7 @@ export default function Layout({ children, onDataRefresh }: LayoutProps) {
   const [showBackupModal, setShowBackupModal] = useState(false);
   const [showShortcutsModal, setShowShortcutsModal] = useState(false);
   const { toggleTheme } = useTheme();
+  const { user, logout } = useAuth();
 
   // Setup global keyboard shortcuts
   useKeyboardShortcuts({
@@ -76,6 +78,17 @@ export default function Layout({ children, onDataRefresh }: LayoutProps) {
           </svg>
         </button>
         
+        {/* Sign Out Button */}
+        <button
+          onClick={logout}
+          className="btn-mono-secondary w-12 h-12 rounded-full flex items-center justify-center shadow-lg hover:animate-hover-lift focus-mono"
+          title={`Sign out${user ? ` (${user.displayName || user.username})` : ''}`}
+        >
+          <svg className="icon-mono" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+          </svg>
+        </button>
+
         {/* Theme Toggle */}
         <div className="flex items-center justify-center">
           <ThemeToggle />
@@ -90,6 +103,12 @@ export default function Layout({ children, onDataRefresh }: LayoutProps) {
               <span className="font-medium text-mono-700">Coffee Recipe Tracker</span>
               <span className="text-mono-300">•</span>
               <span>Monochrome Edition</span>
+              {user && (
+                <>
+                  <span className="text-mono-300">•</span>
+                  <span>Signed in as {user.displayName || user.username}</span>
+                </>
+              )}
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-caption">Powered by modern design</span>
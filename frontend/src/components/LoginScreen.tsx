@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+type Mode = 'login' | 'register';
+
+// Sign-in screen shown until a team member has a session; new members can create an account
+export default function LoginScreen() {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isRegister && password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const failure = isRegister
+      ? await register({ username: username.trim(), password, ...(displayName.trim() && { displayName: displayName.trim() }) })
+      : await login({ username: username.trim(), password });
+    setIsSubmitting(false);
+
+    if (failure) {
+      setError(failure);
+      setPassword('');
+    }
+  };
+
+  const switchMode = () => {
+    setMode(isRegister ? 'login' : 'register');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-mono-50 dark:bg-mono-800 px-4">
+      <div className="card-mono w-full max-w-sm p-8">
+        <h1 className="text-2xl font-semibold text-mono-900 text-center">Coffee Recipe Tracker</h1>
+        <p className="mt-2 text-center text-sm text-mono-500">
+          {isRegister ? 'Create an account for your brew log' : 'Sign in to your brew log'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          <div>
+            <label htmlFor="login-username" className="block text-sm font-medium text-mono-700 mb-1">
+              Username
+            </label>
+            <input
+              id="login-username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+              maxLength={50}
+              className="input-mono w-full"
+            />
+          </div>
+
+          {isRegister && (
+            <div>
+              <label htmlFor="login-display-name" className="block text-sm font-medium text-mono-700 mb-1">
+                Display name <span className="text-mono-400 font-normal">(optional)</span>
+              </label>
+              <input
+                id="login-display-name"
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                autoComplete="name"
+                maxLength={100}
+                className="input-mono w-full"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="login-password" className="block text-sm font-medium text-mono-700 mb-1">
+              Password
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={isRegister ? 'new-password' : 'current-password'}
+              required
+              maxLength={128}
+              className="input-mono w-full"
+            />
+            {isRegister && <p className="mt-1 text-xs text-mono-500">At least 8 characters</p>}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !username.trim() || !password}
+            className="btn-mono-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Please wait...' : isRegister ? 'Create Account' : 'Sign In'}
+          </button>
+        </form>
+
+        <p className="mt-6 text-center text-sm text-mono-500">
+          {isRegister ? 'Already have an account?' : 'New to the team?'}{' '}
+          <button type="button" onClick={switchMode} className="font-medium text-mono-900 underline hover:text-mono-700">
+            {isRegister ? 'Sign in' : 'Create an account'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
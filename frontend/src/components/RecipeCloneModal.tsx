@@ -7,6 +7,12 @@ import {
   CLONE_TEMPLATES 
 } from '../services/recipeCloneService';
 import { comparisonService } from '../services/comparisonService';
+import { recipeService } from '../services/recipeService';
+import { equipmentService } from '../services/equipmentService';
+import { Equipment, EquipmentType } from '../shared/types/equipment';
+import { CALIBRATED_GRINDER_MODELS } from '../shared/constants/grinderCalibrations';
+import { convertGrindSetting, formatMicrons, getGrinderCalibration, settingToMicrons } from '../shared/utils/grindConversion';
+import { formatEquipmentLabel } from '../shared/utils/equipment';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
 
@@ -39,6 +45,10 @@ export default function RecipeCloneModal({
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [recentClones, setRecentClones] = useState<any[]>([]);
   const [suggestedTemplate, setSuggestedTemplate] = useState<CloneTemplate | null>(null);
+  const [sourceRecipe, setSourceRecipe] = useState<Recipe | null>(null);
+  const [grinders, setGrinders] = useState<Equipment[]>([]);
+  const [targetGrinder, setTargetGrinder] = useState('');
+  const [targetSetting, setTargetSetting] = useState('');
 
   const { showSuccess, showError, showInfo } = useToast();
 
@@ -60,9 +70,76 @@ export default function RecipeCloneModal({
       // Reset form
       setCustomName('');
       setShowAdvanced(false);
+      setTargetGrinder('');
+      setTargetSetting('');
     }
   }, [isOpen, recipe]);
 
+  // Grinder translation needs the full recipe and the registered grinders
+  useEffect(() => {
+    if (!isOpen || !recipe) return;
+
+    const loadGrinderData = async () => {
+      if ('brewingParameters' in recipe) {
+        setSourceRecipe(recipe as Recipe);
+      } else {
+        const response = await recipeService.getRecipe(recipe.recipeId);
+        setSourceRecipe(response.success && response.data ? response.data : null);
+      }
+
+      const grinderResponse = await equipmentService.getEquipment({ type: EquipmentType.GRINDER });
+      setGrinders(grinderResponse.success && grinderResponse.data ? grinderResponse.data : []);
+    };
+
+    loadGrinderData();
+  }, [isOpen, recipe]);
+
+  // Source grinder calibration (registry table first, then the built-in one)
+  const sourceParams = sourceRecipe?.brewingParameters;
+  const sourceCalibration = sourceParams
+    ? getGrinderCalibration(sourceParams.grinderModel, grinders.find(g => g.equipmentId === sourceParams.grinderId))
+    : undefined;
+  const sourceSetting = sourceParams ? parseFloat(sourceParams.grinderUnit) : NaN;
+
+  // Target grinder: "equipment:<id>" for registry grinders, "model:<name>" for built-in calibrations
+  const resolveTargetGrinder = (value: string) => {
+    if (value.startsWith('equipment:')) {
+      const grinder = grinders.find(g => g.equipmentId === value.slice('equipment:'.length));
+      if (!grinder) return null;
+      return {
+        name: formatEquipmentLabel(grinder),
+        grinderId: grinder.equipmentId,
+        scale: grinder.settingScale,
+        calibration: getGrinderCalibration(formatEquipmentLabel(grinder), grinder)
+      };
+    }
+    if (value.startsWith('model:')) {
+      const name = value.slice('model:'.length);
+      return { name, grinderId: undefined, scale: undefined, calibration: getGrinderCalibration(name) };
+    }
+    return null;
+  };
+
+  const convertToTarget = (next: ReturnType<typeof resolveTargetGrinder>) => {
+    if (!next || !sourceParams || !sourceCalibration || !next.calibration) return null;
+    return convertGrindSetting(sourceParams.grinderUnit, sourceCalibration, next.calibration, next.scale);
+  };
+
+  const target = resolveTargetGrinder(targetGrinder);
+  const suggestion = convertToTarget(target);
+
+  const handleTargetGrinderChange = (value: string) => {
+    setTargetGrinder(value);
+
+    const next = resolveTargetGrinder(value);
+    if (!next || !sourceParams) {
+      setTargetSetting('');
+      return;
+    }
+
+    setTargetSetting(convertToTarget(next)?.setting ?? sourceParams.grinderUnit);
+  };
+
   const handleTemplateSelect = (template: CloneTemplate | null) => {
     setSelectedTemplate(template);
     if (template) {
@@ -87,7 +164,10 @@ export default function RecipeCloneModal({
     try {
       const options: CloneOptions = {
         ...cloneOptions,
-        newName: customName.trim() || undefined
+        newName: customName.trim() || undefined,
+        grinderOverride: target && targetSetting.trim()
+          ? { grinderModel: target.name, grinderId: target.grinderId, grinderUnit: targetSetting.trim() }
+          : undefined
       };
 
       const result = await recipeCloneService.cloneRecipe(
@@ -371,6 +451,62 @@ export default function RecipeCloneModal({
             )}
           </div>
 
+          {/* Different Grinder */}
+          {sourceParams && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                Brew on a Different Grinder
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Original: {sourceParams.grinderUnit} on {sourceParams.grinderModel}
+                {sourceCalibration && !isNaN(sourceSetting) && ` (${formatMicrons(settingToMicrons(sourceCalibration, sourceSetting))})`}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select
+                  value={targetGrinder}
+                  onChange={(e) => handleTargetGrinderChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                  disabled={isCloning}
+                >
+                  <option value="">Same grinder</option>
+                  {grinders.length > 0 && (
+                    <optgroup label="My grinders">
+                      {grinders.map(grinder => (
+                        <option key={grinder.equipmentId} value={`equipment:${grinder.equipmentId}`}>
+                          {formatEquipmentLabel(grinder)}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  <optgroup label="Other grinders">
+                    {CALIBRATED_GRINDER_MODELS.map(model => (
+                      <option key={model} value={`model:${model}`}>{model}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                {target && (
+                  <input
+                    type="text"
+                    value={targetSetting}
+                    onChange={(e) => setTargetSetting(e.target.value)}
+                    placeholder="Grind setting"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    disabled={isCloning}
+                  />
+                )}
+              </div>
+              {target && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {suggestion
+                    ? `Suggested from particle size: ${suggestion.setting} on ${target.name} (${formatMicrons(suggestion.microns)}). Dial in by taste from there.`
+                    : isNaN(sourceSetting)
+                      ? `"${sourceParams.grinderUnit}" is not a numeric setting, so it is copied as is.`
+                      : `No calibration for ${sourceCalibration ? target.name : sourceParams.grinderModel}, so the setting is copied as is.`}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Recent Clones */}
           {recentClones.length > 0 && (
             <div className="mb-6">
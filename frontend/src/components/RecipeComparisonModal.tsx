@@ -5,6 +5,12 @@ import {
   ComparisonItem, 
   ComparisonAnalysis 
 } from '../services/comparisonService';
+import { equipmentService } from '../services/equipmentService';
+import { Equipment, EquipmentType } from '../shared/types/equipment';
+import { formatMicrons, getGrinderCalibration, settingToMicrons } from '../shared/utils/grindConversion';
+import { waterProfileService } from '../services/waterProfileService';
+import { WaterProfile } from '../shared/types/water';
+import { formatWaterComposition } from '../shared/utils/waterChemistry';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
 
@@ -18,6 +24,8 @@ export default function RecipeComparisonModal({ isOpen, onClose }: RecipeCompari
   const [analysis, setAnalysis] = useState<ComparisonAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTab, setSelectedTab] = useState<'comparison' | 'analysis'>('comparison');
+  const [grinders, setGrinders] = useState<Equipment[]>([]);
+  const [waterProfiles, setWaterProfiles] = useState<WaterProfile[]>([]);
   const { showSuccess, showError, showInfo } = useToast();
 
   useEffect(() => {
@@ -35,6 +43,17 @@ export default function RecipeComparisonModal({ isOpen, onClose }: RecipeCompari
       const recipes = items.map(item => item.recipe);
       const analysisData = comparisonService.analyzeComparison(recipes);
       setAnalysis(analysisData);
+
+      // Registry grinders may carry their own calibration tables
+      const grinderResponse = await equipmentService.getEquipment({ type: EquipmentType.GRINDER, includeArchived: true });
+      if (grinderResponse.success && grinderResponse.data) {
+        setGrinders(grinderResponse.data);
+      }
+
+      const waterResponse = await waterProfileService.getWaterProfiles();
+      if (waterResponse.success && waterResponse.data) {
+        setWaterProfiles(waterResponse.data);
+      }
     } catch (error) {
       console.error('Failed to load comparison data:', error);
       showError('Loading Error', 'Failed to load comparison data');
@@ -110,6 +129,21 @@ export default function RecipeComparisonModal({ isOpen, onClose }: RecipeCompari
         return recipe.brewingParameters?.grinderModel;
       case 'grinderUnit':
         return recipe.brewingParameters?.grinderUnit;
+      case 'grindSize': {
+        // Same number on different grinders means different grinds, so compare particle size
+        const params = recipe.brewingParameters;
+        const setting = parseFloat(params?.grinderUnit ?? '');
+        const calibration = params
+          ? getGrinderCalibration(params.grinderModel, grinders.find(g => g.equipmentId === params.grinderId))
+          : undefined;
+        return calibration && !isNaN(setting) ? formatMicrons(settingToMicrons(calibration, setting)) : null;
+      }
+      case 'waterProfile': {
+        const profile = waterProfiles.find(p => p.waterProfileId === recipe.brewingParameters?.waterProfileId);
+        if (!profile) return null;
+        const summary = formatWaterComposition(profile.composition);
+        return summary ? `${profile.name} (${summary})` : profile.name;
+      }
       case 'coffeeBeans':
         return recipe.measurements?.coffeeBeans;
       case 'water':
@@ -144,6 +178,8 @@ export default function RecipeComparisonModal({ isOpen, onClose }: RecipeCompari
     { key: 'waterTemperature', label: 'Water Temp (°C)', category: 'Brewing' },
     { key: 'grinderModel', label: 'Grinder', category: 'Brewing' },
     { key: 'grinderUnit', label: 'Grind Setting', category: 'Brewing' },
+    { key: 'grindSize', label: 'Grind Size', category: 'Brewing' },
+    { key: 'waterProfile', label: 'Brew Water', category: 'Brewing' },
     { key: 'coffeeBeans', label: 'Coffee (g)', category: 'Measurements' },
     { key: 'water', label: 'Water (g)', category: 'Measurements' },
     { key: 'coffeeWaterRatio', label: 'Ratio', category: 'Measurements' },
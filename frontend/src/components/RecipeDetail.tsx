@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
 import { Recipe, RoastingLevel, BrewingMethod } from '../shared/types/recipe';
+import { CollectionSortOption, CollectionSummary } from '../shared/types/collection';
 import { recipeService } from '../services/recipeService';
+import { collectionService } from '../services/collectionService';
 import { exportService, ExportFormat } from '../services/exportService';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
+import RecipeHistoryTimeline from './RecipeHistoryTimeline';
+import BrewSessionLog from './BrewSessionLog';
+import { calculateDaysOffRoast, formatDaysOffRoast } from '../shared/utils/beans';
+import { getCollectionPath } from '../shared/utils/collectionTree';
 
 interface RecipeDetailProps {
   recipeId: string | null;
@@ -101,6 +107,7 @@ export default function RecipeDetail({
   const [error, setError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [allCollections, setAllCollections] = useState<CollectionSummary[]>([]);
   
   const { showSuccess, showError } = useToast();
 
@@ -201,6 +208,14 @@ export default function RecipeDetail({
     }
   };
 
+  // Collections are needed to show where each one sits in the tree
+  useEffect(() => {
+    if (!isOpen) return;
+    collectionService.getCollectionSummaries({ sortBy: CollectionSortOption.NAME, sortOrder: 'asc' }).then(response => {
+      if (response.success && response.data) setAllCollections(response.data);
+    });
+  }, [isOpen]);
+
   // Handle escape key to close modal
   useEffect(() => {
     const handleEscape = (event: KeyboardEvent) => {
@@ -215,6 +230,19 @@ export default function RecipeDetail({
 
   if (!isOpen) return null;
 
+  // Freshness of the beans on the day the recipe was brewed
+  const daysOffRoast = recipe ? calculateDaysOffRoast(recipe.beanInfo.roastingDate, recipe.dateCreated) : null;
+
+  // Breadcrumb for each collection the recipe is in, e.g. "Ethiopia › Naturals"
+  const collectionPaths = recipe
+    ? recipe.collections.map(entry => {
+        const collection = allCollections.find(c => c.collectionId === entry || c.name === entry);
+        return collection
+          ? getCollectionPath(collection.collectionId, allCollections).map(c => c.name)
+          : [entry];
+      })
+    : [];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
@@ -378,6 +406,18 @@ export default function RecipeDetail({
                     Last updated {formatDate(recipe.dateModified)}
                   </p>
                 )}
+                {collectionPaths.length > 0 && (
+                  <div className="mt-3 flex flex-wrap justify-center gap-2">
+                    {collectionPaths.map(path => (
+                      <span
+                        key={path.join('/')}
+                        className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-blue-50 text-blue-800"
+                      >
+                        {path.join(' › ')}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Bean Information */}
@@ -408,6 +448,12 @@ export default function RecipeDetail({
                         }
                       </span>
                     </div>
+                    {daysOffRoast !== null && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-600">Freshness:</span>
+                        <span className="text-sm text-gray-900">{formatDaysOffRoast(daysOffRoast)} when brewed</span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium text-gray-600">Roasting Level:</span>
                       <span className="text-sm text-gray-900">
@@ -536,6 +582,16 @@ export default function RecipeDetail({
                   )}
                 </div>
               </div>
+
+              {/* Brew Sessions */}
+              <BrewSessionLog recipe={recipe} />
+
+              {/* Version History */}
+              <RecipeHistoryTimeline
+                recipeId={recipe.recipeId}
+                refreshKey={recipe.dateModified}
+                onRestored={setRecipe}
+              />
             </div>
           )}
         </div>
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Recipe } from '../shared/types/recipe';
+import { RecipeRevision } from '../shared/types/revision';
+import { diffRecipes, formatRecipeFieldLabel } from '../shared/utils/recipeDiff';
+import { formatDate } from '../shared/utils/formatting';
+import { recipeService } from '../services/recipeService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+
+interface RecipeHistoryTimelineProps {
+  recipeId: string;
+  refreshKey?: string; // Changes whenever the recipe is saved, to reload history
+  onRestored?: (recipe: Recipe) => void;
+}
+
+// Render a snapshot value for the diff table
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const MAX_FIELDS_PREVIEW = 3;
+
+export default function RecipeHistoryTimeline({ recipeId, refreshKey, onRestored }: RecipeHistoryTimelineProps) {
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [baseNumber, setBaseNumber] = useState<number | null>(null);
+  const [targetNumber, setTargetNumber] = useState<number | null>(null);
+  const [restoringNumber, setRestoringNumber] = useState<number | null>(null);
+
+  const { showSuccess, showError } = useToast();
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await recipeService.getRevisions(recipeId);
+    if (response.success && response.data) {
+      const loaded = response.data;
+      setRevisions(loaded);
+      // Default to comparing the latest revision with the one before it
+      setTargetNumber(loaded[0]?.revisionNumber ?? null);
+      setBaseNumber(loaded[1]?.revisionNumber ?? null);
+    } else {
+      setError(response.error || 'Failed to load history');
+    }
+
+    setIsLoading(false);
+  }, [recipeId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, refreshKey]);
+
+  const baseRevision = revisions.find(revision => revision.revisionNumber === baseNumber);
+  const targetRevision = revisions.find(revision => revision.revisionNumber === targetNumber);
+
+  const changes = useMemo(() => {
+    if (!baseRevision || !targetRevision) return [];
+    return diffRecipes(baseRevision.snapshot, targetRevision.snapshot);
+  }, [baseRevision, targetRevision]);
+
+  const handleCompareWithPrevious = (revision: RecipeRevision) => {
+    const previous = revisions.find(candidate => candidate.revisionNumber < revision.revisionNumber);
+    setTargetNumber(revision.revisionNumber);
+    setBaseNumber(previous?.revisionNumber ?? null);
+  };
+
+  const handleRestore = async (revision: RecipeRevision) => {
+    const confirmed = window.confirm(
+      `Restore this recipe to revision ${revision.revisionNumber}?\n\nThe current version stays in the history.`
+    );
+    if (!confirmed) return;
+
+    setRestoringNumber(revision.revisionNumber);
+    const response = await recipeService.restoreRevision(recipeId, revision.revisionNumber);
+    setRestoringNumber(null);
+
+    if (response.success && response.data) {
+      showSuccess('Recipe Restored', `Restored to revision ${revision.revisionNumber}`);
+      onRestored?.(response.data);
+      await loadRevisions();
+    } else {
+      showError('Failed to Restore', response.error || 'Please try again');
+    }
+  };
+
+  const latestNumber = revisions[0]?.revisionNumber;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Version History</h3>
+
+      {isLoading && revisions.length === 0 && (
+        <div className="flex items-center text-sm text-gray-500">
+          <LoadingSpinner size="small" />
+          <span className="ml-2">Loading history...</span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!isLoading && !error && revisions.length === 0 && (
+        <p className="text-sm text-gray-500 italic">No saved versions yet</p>
+      )}
+
+      {revisions.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Timeline */}
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-96 overflow-y-auto pr-2">
+            {revisions.map(revision => {
+              const isSelected = revision.revisionNumber === targetNumber || revision.revisionNumber === baseNumber;
+              const fieldLabels = revision.changedFields.map(formatRecipeFieldLabel);
+
+              return (
+                <li key={revision.revisionId} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+                      isSelected ? 'bg-blue-600' : 'bg-gray-300'
+                    }`}
+                  />
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">Revision {revision.revisionNumber}</span>
+                      {revision.revisionNumber === latestNumber && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Current</span>
+                      )}
+                      {revision.restoredFrom !== undefined && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                          Restored from #{revision.restoredFrom}
+                        </span>
+                      )}
+                    </div>
+                    <time className="text-xs text-gray-500" title={formatDate(revision.dateCreated, 'long')}>
+                      {formatDate(revision.dateCreated, 'relative')}
+                    </time>
+                  </div>
+
+                  <p className="mt-1 text-xs text-gray-600">
+                    {fieldLabels.length === 0
+                      ? 'Initial version'
+                      : `Changed ${fieldLabels.slice(0, MAX_FIELDS_PREVIEW).join(', ')}${
+                          fieldLabels.length > MAX_FIELDS_PREVIEW ? ` +${fieldLabels.length - MAX_FIELDS_PREVIEW} more` : ''
+                        }`}
+                  </p>
+
+                  <div className="mt-2 flex items-center space-x-3">
+                    {revisions.some(candidate => candidate.revisionNumber < revision.revisionNumber) && (
+                      <button
+                        onClick={() => handleCompareWithPrevious(revision)}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        Compare with previous
+                      </button>
+                    )}
+                    {revision.revisionNumber !== latestNumber && (
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringNumber !== null}
+                        className="text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                      >
+                        {restoringNumber === revision.revisionNumber ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Field-by-field diff */}
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center space-x-2 mb-3 text-sm">
+              <span className="text-gray-600">Compare</span>
+              <select
+                value={baseNumber ?? ''}
+                onChange={(e) => setBaseNumber(e.target.value ? Number(e.target.value) : null)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select...</option>
+                {revisions.map(revision => (
+                  <option key={revision.revisionId} value={revision.revisionNumber}>#{revision.revisionNumber}</option>
+                ))}
+              </select>
+              <span className="text-gray-600">with</span>
+              <select
+                value={targetNumber ?? ''}
+                onChange={(e) => setTargetNumber(e.target.value ? Number(e.target.value) : null)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select...</option>
+                {revisions.map(revision => (
+                  <option key={revision.revisionId} value={revision.revisionNumber}>#{revision.revisionNumber}</option>
+                ))}
+              </select>
+            </div>
+
+            {!baseRevision || !targetRevision ? (
+              <p className="text-sm text-gray-500 italic">Select two revisions to compare</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No differences between these revisions</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-1 pr-2 font-medium">Field</th>
+                      <th className="py-1 pr-2 font-medium">#{baseRevision.revisionNumber}</th>
+                      <th className="py-1 font-medium">#{targetRevision.revisionNumber}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {changes.map(change => (
+                      <tr key={change.field} className="align-top">
+                        <td className="py-1.5 pr-2 font-medium text-gray-700">{change.label}</td>
+                        <td className="py-1.5 pr-2 text-red-700 bg-red-50 break-words">{formatValue(change.before)}</td>
+                        <td className="py-1.5 text-green-700 bg-green-50 break-words">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState, useMemo } from 'react';
+import { RecipeImportField, RecipeImportMapping, RecipeImportResult, RecipeImportStatus } from '../shared/types/import';
+import { RECIPE_IMPORT_FIELDS, suggestImportMapping } from '../shared/utils/recipeImport';
+import { IMPORT_FILE_ACCEPT, ImportSpreadsheet, recipeImportService } from '../services/recipeImportService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+
+interface RecipeImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'result';
+
+const STEPS: Array<{ key: ImportStep; label: string }> = [
+  { key: 'upload', label: 'Choose file' },
+  { key: 'mapping', label: 'Map columns' },
+  { key: 'preview', label: 'Preview' },
+  { key: 'result', label: 'Import' }
+];
+
+const STATUS_STYLES: Record<RecipeImportStatus, string> = {
+  created: 'text-green-600 bg-green-100',
+  failed: 'text-red-600 bg-red-100',
+  skipped: 'text-gray-600 bg-gray-100',
+  rolled_back: 'text-yellow-700 bg-yellow-100'
+};
+
+// Sample values shown next to each column in the mapping step
+const SAMPLE_SIZE = 3;
+
+// Scoring forms whose fields are listed under their own heading in the mapping step
+const FIELD_GROUPS = [...new Set(RECIPE_IMPORT_FIELDS.flatMap(definition => definition.group ? [definition.group] : []))];
+
+// Import recipes from a CSV or Excel file: upload, map columns onto recipe fields, preview, create
+export default function RecipeImportModal({ isOpen, onClose, onImported }: RecipeImportModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [spreadsheet, setSpreadsheet] = useState<ImportSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<RecipeImportMapping>({});
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<RecipeImportResult | null>(null);
+
+  const preview = useMemo(
+    () => (spreadsheet && step !== 'upload' ? recipeImportService.previewRows(spreadsheet, mapping) : []),
+    [spreadsheet, mapping, step]
+  );
+  const validCount = preview.filter(row => row.recipe).length;
+  const invalidCount = preview.length - validCount;
+
+  const mappedFields = new Set(Object.values(mapping));
+  const missingRequired = RECIPE_IMPORT_FIELDS.filter(definition => definition.required && !mappedFields.has(definition.field));
+
+  const reset = () => {
+    setStep('upload');
+    setSpreadsheet(null);
+    setMapping({});
+    setReadError(null);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const response = await recipeImportService.readFile(file);
+      if (response.success && response.data) {
+        setSpreadsheet(response.data);
+        setMapping(suggestImportMapping(response.data.headers));
+        setStep('mapping');
+      } else {
+        setReadError(response.error || 'The file could not be read');
+      }
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Each field is mapped from at most one column; picking it elsewhere moves it
+  const handleMappingChange = (header: string, field: RecipeImportField | '') => {
+    setMapping(prev => {
+      const next: RecipeImportMapping = {};
+      Object.entries(prev).forEach(([column, mapped]) => {
+        if (column !== header && mapped !== field) {
+          next[column] = mapped;
+        }
+      });
+      if (field) {
+        next[header] = field;
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const response = await recipeImportService.importRows(preview);
+      if (response.data) {
+        setResult(response.data);
+        setStep('result');
+      }
+      if (response.success && response.data) {
+        showSuccess('Import Complete', `Imported ${response.data.created} recipe${response.data.created !== 1 ? 's' : ''}`);
+        onImported();
+      } else {
+        showError('Import Failed', response.error || 'Failed to import recipes');
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const stepIndex = STEPS.findIndex(item => item.key === step);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={handleClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative transform overflow-hidden rounded-lg bg-white px-6 py-6 shadow-xl transition-all w-full max-w-4xl">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import Recipes</h2>
+              {spreadsheet && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {spreadsheet.fileName} · {spreadsheet.rows.length} row{spreadsheet.rows.length !== 1 ? 's' : ''}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={handleClose}
+              className="rounded-md text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Steps */}
+          <ol className="mb-6 flex items-center space-x-4 text-sm">
+            {STEPS.map((item, index) => (
+              <li
+                key={item.key}
+                className={index === stepIndex ? 'font-medium text-blue-600' : index < stepIndex ? 'text-gray-900' : 'text-gray-400'}
+              >
+                {index + 1}. {item.label}
+              </li>
+            ))}
+          </ol>
+
+          {/* Upload */}
+          {step === 'upload' && (
+            <div className="text-center py-12 border-2 border-dashed border-gray-300 rounded-lg">
+              {isReading ? (
+                <div className="flex items-center justify-center">
+                  <LoadingSpinner />
+                  <span className="ml-3 text-gray-600">Reading file...</span>
+                </div>
+              ) : (
+                <>
+                  <p className="text-gray-700 mb-4">
+                    Choose a CSV or Excel file. The first row must hold the column headers; an export from this app can be imported as is.
+                  </p>
+                  <label className="inline-block px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 cursor-pointer">
+                    Choose file
+                    <input
+                      type="file"
+                      accept={IMPORT_FILE_ACCEPT}
+                      className="hidden"
+                      onChange={(e) => {
+                        handleFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {readError && <p className="mt-4 text-sm text-red-600">{readError}</p>}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Column mapping */}
+          {step === 'mapping' && spreadsheet && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Pick the recipe field each column holds. Columns set to "Ignore" are not imported.
+              </p>
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {spreadsheet.headers.map(header => (
+                  <div key={header} className="flex items-center justify-between p-3">
+                    <div className="min-w-0 mr-4">
+                      <div className="font-medium text-gray-900 truncate">{header}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {spreadsheet.rows.slice(0, SAMPLE_SIZE).map(({ values }) => String(values[header] ?? '')).filter(Boolean).join(' · ') || 'No values'}
+                      </div>
+                    </div>
+                    <select
+                      value={mapping[header] ?? ''}
+                      onChange={(e) => handleMappingChange(header, e.target.value as RecipeImportField | '')}
+                      aria-label={`Field for ${header}`}
+                      className="w-56 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Ignore</option>
+                      {RECIPE_IMPORT_FIELDS.filter(definition => !definition.group).map(definition => (
+                        <option key={definition.field} value={definition.field}>
+                          {definition.label}{definition.required ? ' *' : ''}
+                        </option>
+                      ))}
+                      {FIELD_GROUPS.map(group => (
+                        <optgroup key={group} label={group}>
+                          {RECIPE_IMPORT_FIELDS.filter(definition => definition.group === group).map(definition => (
+                            <option key={definition.field} value={definition.field}>{definition.label}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="mt-3 text-sm text-yellow-700">
+                  Not mapped yet: {missingRequired.map(definition => definition.label).join(', ')}. Rows without these values cannot be imported.
+                </p>
+              )}
+              <div className="mt-6 flex justify-between">
+                <button onClick={reset} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                  Choose another file
+                </button>
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={Object.keys(mapping).length === 0}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {step === 'preview' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                {validCount} row{validCount !== 1 ? 's' : ''} ready to import
+                {invalidCount > 0 && `, ${invalidCount} with errors will be left out`}.
+              </p>
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {preview.map(row => (
+                  <div
+                    key={row.row}
+                    className={`p-3 rounded-lg text-sm ${row.recipe ? 'bg-gray-50' : 'bg-red-50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        Row {row.row}{row.recipe?.recipeName ? ` · ${row.recipe.recipeName}` : ''}
+                      </span>
+                      {row.recipe && (
+                        <span className="text-xs text-gray-500">
+                          {row.recipe.beanInfo.origin} · {row.recipe.measurements.coffeeBeans}g / {row.recipe.measurements.water}g
+                        </span>
+                      )}
+                    </div>
+                    {row.errors.map((issue, index) => (
+                      <p key={`error-${index}`} className="mt-1 text-red-600">{issue.message}</p>
+                    ))}
+                    {row.warnings.map((issue, index) => (
+                      <p key={`warning-${index}`} className="mt-1 text-yellow-700">{issue.message}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="mt-6 flex justify-between">
+                <button
+                  onClick={() => setStep('mapping')}
+                  disabled={isImporting}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                >
+                  Back to mapping
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={validCount === 0 || isImporting}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isImporting ? 'Importing...' : `Import ${validCount} recipe${validCount !== 1 ? 's' : ''}`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Result */}
+          {step === 'result' && result && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                {result.applied
+                  ? `Imported ${result.created} recipe${result.created !== 1 ? 's' : ''}.`
+                  : 'Nothing was imported because some rows could not be saved. Fix them and try again.'}
+              </p>
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {result.results.map(item => (
+                  <div key={item.row} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                    <div className="min-w-0">
+                      <span className="text-gray-900">Row {item.row}{item.recipeName ? ` · ${item.recipeName}` : ''}</span>
+                      {item.error && <p className="text-red-600">{item.error}</p>}
+                    </div>
+                    <span className={`ml-3 px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                      {item.status.replace('_', ' ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                {!result.applied && (
+                  <button onClick={() => setStep('preview')} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                    Back to preview
+                  </button>
+                )}
+                <button onClick={handleClose} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,21 @@ import { BeanInfo, BrewingParameters, TurbulenceInfo, MeasurementsInput, Sensati
 import { COFFEE_ORIGIN_GROUPS, CoffeeOrigin } from '../shared/constants/coffeeOrigins';
 import { PROCESSING_METHOD_OPTIONS, ProcessingMethod } from '../shared/constants/processingMethods';
 import { WATER_TEMPERATURE_OPTIONS, parseTemperature } from '../shared/constants/waterTemperature';
-import { GRINDER_MODEL_OPTIONS, OTHERS_VALUE } from '../shared/constants/grinderModels';
-import { GRINDER_SETTING_OPTIONS } from '../shared/constants/grinderSettings';
+import { OTHERS_VALUE } from '../shared/constants/grinderModels';
 import { FILTERING_TOOL_OPTIONS } from '../shared/constants/filteringTools';
 import { useRecipeValidation } from '../hooks/useRecipeValidation';
 import { useFormDirtyState } from '../hooks/useFormDirtyState';
 import { useKeyboardShortcuts, COMMON_SHORTCUTS } from '../hooks/useKeyboardShortcuts';
 import { recipeService, formatRecipeForSave } from '../services/recipeService';
+import { beanService } from '../services/beanService';
+import { Bean } from '../shared/types/bean';
+import { beanToBeanInfo, calculateDaysOffRoast, formatBeanLabel, formatDaysOffRoast } from '../shared/utils/beans';
+import { equipmentService } from '../services/equipmentService';
+import { Equipment, EquipmentType } from '../shared/types/equipment';
+import { filterEquipmentByType, formatEquipmentLabel, getGrinderSettingOptions } from '../shared/utils/equipment';
+import { waterProfileService } from '../services/waterProfileService';
+import { WaterProfile } from '../shared/types/water';
+import { formatWaterComposition } from '../shared/utils/waterChemistry';
 import { useToast } from './ui/ToastContainer';
 import { transformRecipeInput } from '../shared/validation/recipeSchema';
 import TextInput from './forms/TextInput';
@@ -168,6 +176,9 @@ export default function RecipeInput({
   const [showUnsavedChangesModal, setShowUnsavedChangesModal] = useState(false);
   const [lastModified, setLastModified] = useState<string | null>(null);
   const [turbulenceSteps, setTurbulenceSteps] = useState<TurbulenceStep[]>([{ actionTime: '0:00', actionDetails: '', volume: '' }]);
+  const [beans, setBeans] = useState<Bean[]>([]);
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [waterProfiles, setWaterProfiles] = useState<WaterProfile[]>([]);
   
   // Initialize validation hook
   const { 
@@ -270,6 +281,42 @@ export default function RecipeInput({
     loadRecipe();
   }, [mode, recipeId, onCancel, showError]);
 
+  // Load the bean inventory for the bag picker
+  useEffect(() => {
+    const loadBeans = async () => {
+      const response = await beanService.getBeans();
+      if (response.success && response.data) {
+        setBeans(response.data);
+      }
+    };
+
+    loadBeans();
+  }, []);
+
+  // Load the equipment registry for the brewing parameter dropdowns
+  useEffect(() => {
+    const loadEquipment = async () => {
+      const response = await equipmentService.getEquipment();
+      if (response.success && response.data) {
+        setEquipment(response.data);
+      }
+    };
+
+    loadEquipment();
+  }, []);
+
+  // Load saved water profiles for the brew water dropdown
+  useEffect(() => {
+    const loadWaterProfiles = async () => {
+      const response = await waterProfileService.getWaterProfiles();
+      if (response.success && response.data) {
+        setWaterProfiles(response.data);
+      }
+    };
+
+    loadWaterProfiles();
+  }, []);
+
   // Load draft from localStorage on mount
   useEffect(() => {
     try {
@@ -359,6 +406,66 @@ export default function RecipeInput({
   }, [formData.measurements.brewedCoffeeWeight, formData.measurements.tds, formData.measurements.coffeeBeans]);
 
   // Update form data with validation
+  // Fill bean information from an inventory bag, or unlink the bag
+  const handleBeanSelect = (beanId: string) => {
+    const bean = beans.find(b => b.beanId === beanId);
+    if (!bean) {
+      updateFormData('beanInfo.beanId', undefined);
+      return;
+    }
+
+    updateFormData('beanInfo', beanToBeanInfo(bean));
+  };
+
+  const selectedBean = beans.find(b => b.beanId === formData.beanInfo.beanId);
+  const beanOptions = beans.map(bean => {
+    const days = calculateDaysOffRoast(bean.roastDate);
+    return {
+      value: bean.beanId,
+      label: `${formatBeanLabel(bean)} (${bean.remainingGrams}g left${days !== null ? `, ${formatDaysOffRoast(days)}` : ''})`
+    };
+  });
+
+  // Registry equipment by type, and dropdown options built from it
+  const grinders = filterEquipmentByType(equipment, EquipmentType.GRINDER);
+  const toEquipmentOptions = (items: Equipment[]) => items.map(item => ({
+    value: item.equipmentId,
+    label: formatEquipmentLabel(item)
+  }));
+  const grinderModelOptions = [
+    ...grinders.map(grinder => ({ value: formatEquipmentLabel(grinder), label: formatEquipmentLabel(grinder) })),
+    { value: OTHERS_VALUE, label: 'Others (specify below)' }
+  ];
+  const selectedGrinder = grinders.find(g => g.equipmentId === formData.brewingParameters.grinderId);
+  const grinderSettingOptions = getGrinderSettingOptions(selectedGrinder?.settingScale);
+
+  // Picking a registry grinder links it and switches the setting dropdown to its scale
+  const handleGrinderChange = (value: string) => {
+    const grinder = grinders.find(g => formatEquipmentLabel(g) === value);
+    const settingOptions = getGrinderSettingOptions(grinder?.settingScale);
+    const grinderUnit = settingOptions.some(option => option.value === formData.brewingParameters.grinderUnit)
+      ? formData.brewingParameters.grinderUnit
+      : '';
+
+    updateFormData('brewingParameters', {
+      ...formData.brewingParameters,
+      grinderModel: value,
+      grinderId: grinder?.equipmentId,
+      grinderUnit
+    });
+  };
+
+  // A brewer fills in its brewing method when none is chosen yet
+  const handleBrewerChange = (brewerId: string) => {
+    const brewer = equipment.find(item => item.equipmentId === brewerId);
+
+    updateFormData('brewingParameters', {
+      ...formData.brewingParameters,
+      brewerId: brewer?.equipmentId,
+      brewingMethod: formData.brewingParameters.brewingMethod || brewer?.brewingMethod
+    });
+  };
+
   const updateFormData = (path: string, value: any, shouldValidate = false) => {
     const newFormData = { ...formData };
     const keys = path.split('.');
@@ -747,6 +854,29 @@ export default function RecipeInput({
               >
                 <div className="p-6 bg-mono-white border-t border-mono-200">
                   {panel.id === 'basic' && (
+                    <>
+                    {beans.length > 0 && (
+                      <div className="mb-6">
+                        <Select
+                          id="beanId"
+                          label="Bean Inventory"
+                          value={formData.beanInfo.beanId || ''}
+                          onChange={handleBeanSelect}
+                          options={beanOptions}
+                          placeholder="None (enter bean details manually)"
+                        />
+                        {selectedBean && Number(formData.measurements.coffeeBeans) > selectedBean.remainingGrams && (
+                          <p className="mt-2 text-body-sm text-mono-600">
+                            Only {selectedBean.remainingGrams}g left in this bag. Saving will empty it.
+                          </p>
+                        )}
+                        {selectedBean && (
+                          <p className="mt-2 text-body-sm text-mono-500">
+                            The coffee dose is deducted from this bag when the recipe is saved.
+                          </p>
+                        )}
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                       <TextInput
                         id="coffeeBeanBrand"
@@ -809,6 +939,7 @@ export default function RecipeInput({
                         placeholder="Select roasting level"
                       />
                     </div>
+                    </>
                   )}
 
                   {panel.id === 'brewing' && (
@@ -833,10 +964,10 @@ export default function RecipeInput({
                         <SelectWithCustom
                           id="grinderModel"
                           label="Grinder Model"
-                          value={formData.brewingParameters.grinderModel}
-                          onChange={(value) => updateFormData('brewingParameters.grinderModel', value)}
+                          value={selectedGrinder ? formatEquipmentLabel(selectedGrinder) : formData.brewingParameters.grinderModel}
+                          onChange={handleGrinderChange}
                           onBlur={(value) => handleFieldBlur('brewingParameters.grinderModel', value)}
-                          options={GRINDER_MODEL_OPTIONS}
+                          options={grinderModelOptions}
                           othersValue={OTHERS_VALUE}
                           placeholder="Select grinder model..."
                           customPlaceholder="Enter custom grinder model..."
@@ -849,7 +980,7 @@ export default function RecipeInput({
                           label="Grinder Setting"
                           value={formData.brewingParameters.grinderUnit}
                           onChange={(value) => updateFormData('brewingParameters.grinderUnit', value)}
-                          options={GRINDER_SETTING_OPTIONS}
+                          options={grinderSettingOptions}
                           placeholder="Select grinder setting..."
                           required
                           error={getFieldValidation('brewingParameters.grinderUnit').error}
@@ -862,6 +993,41 @@ export default function RecipeInput({
                           options={FILTERING_TOOL_OPTIONS}
                           placeholder="Select filter type..."
                         />
+                        <Select
+                          id="brewerId"
+                          label="Brewer"
+                          value={formData.brewingParameters.brewerId || ''}
+                          onChange={handleBrewerChange}
+                          options={toEquipmentOptions(filterEquipmentByType(equipment, EquipmentType.BREWER))}
+                          placeholder="Select brewer..."
+                        />
+                        <Select
+                          id="filterId"
+                          label="Filter Paper"
+                          value={formData.brewingParameters.filterId || ''}
+                          onChange={(value) => updateFormData('brewingParameters.filterId', value || undefined)}
+                          options={toEquipmentOptions(filterEquipmentByType(equipment, EquipmentType.FILTER))}
+                          placeholder="Select filter paper..."
+                        />
+                        <Select
+                          id="kettleId"
+                          label="Kettle"
+                          value={formData.brewingParameters.kettleId || ''}
+                          onChange={(value) => updateFormData('brewingParameters.kettleId', value || undefined)}
+                          options={toEquipmentOptions(filterEquipmentByType(equipment, EquipmentType.KETTLE))}
+                          placeholder="Select kettle..."
+                        />
+                        <Select
+                          id="waterProfileId"
+                          label="Brew Water"
+                          value={formData.brewingParameters.waterProfileId || ''}
+                          onChange={(value) => updateFormData('brewingParameters.waterProfileId', value || undefined)}
+                          options={waterProfiles.map(profile => {
+                            const summary = formatWaterComposition(profile.composition);
+                            return { value: profile.waterProfileId, label: summary ? `${profile.name} (${summary})` : profile.name };
+                          })}
+                          placeholder="Select water profile..."
+                        />
                       </div>
                       <div className="mt-6">
                         <TextArea
@@ -1,8 +1,10 @@
-import { useState, useEffect, useCallback } from 'react';
-import { RecipeSummary } from '../shared/types/recipe';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SortOption } from '../shared/types/recipe';
+import { SavedSearch, SearchSuggestion } from '../shared/types/search';
+import { applySearchSuggestion, getSearchQuerySuggestions, parseSearchQuery } from '../shared/utils/searchQuery';
 import { recipeService } from '../services/recipeService';
 import { useToast } from './ui/ToastContainer';
-import { useSearch } from '../hooks/useSearch';
+import { highlightMatches, useTextSearch } from '../hooks/useSearch';
 import { useFilters } from '../hooks/useFilters';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import RecipeCard from './RecipeCard';
@@ -10,7 +12,9 @@ import SearchBar from './SearchBar';
 import FilterPanel from './FilterPanel';
 import ExportModal from './ExportModal';
 import ExportHistoryModal from './ExportHistoryModal';
+import RecipeImportModal from './RecipeImportModal';
 import RecipeComparisonModal from './RecipeComparisonModal';
+import BulkEditToolbar from './BulkEditToolbar';
 import { comparisonService } from '../services/comparisonService';
 import LoadingSpinner from './ui/LoadingSpinner';
 import { SkeletonCard } from './ui/SkeletonLoader';
@@ -21,21 +25,33 @@ interface RecipeListProps {
   refreshTrigger?: number; // Used to trigger refresh from parent
 }
 
-type SortField = 'date' | 'name' | 'rating' | 'origin' | 'brewingMethod' | 'dateModified' | 'ratio';
+type SortField = 'date' | 'name' | 'rating' | 'origin' | 'dateModified' | 'ratio';
 type SortDirection = 'asc' | 'desc';
 
+// Map list sort buttons to server-side sort options
+const SORT_FIELD_MAP: Record<SortField, SortOption> = {
+  date: SortOption.DATE_CREATED,
+  dateModified: SortOption.DATE_MODIFIED,
+  name: SortOption.RECIPE_NAME,
+  rating: SortOption.OVERALL_IMPRESSION,
+  origin: SortOption.ORIGIN,
+  ratio: SortOption.COFFEE_WATER_RATIO
+};
+
+const PAGE_SIZE = 24;
+
 export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger }: RecipeListProps) {
-  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
   const [sortField, setSortField] = useState<SortField>('date');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedRecipes, setSelectedRecipes] = useState<Set<string>>(new Set());
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isExportHistoryModalOpen, setIsExportHistoryModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isComparisonModalOpen, setIsComparisonModalOpen] = useState(false);
   const [comparisonCount, setComparisonCount] = useState(0);
+  const [isBulkEditMode, setIsBulkEditMode] = useState(false);
   
   const { showSuccess, showError } = useToast();
 
@@ -76,12 +92,8 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         ctrlKey: true,
         shiftKey: true,
         callback: () => {
-          filters.clearFilters();
-          const searchInput = document.querySelector('input[placeholder*="Search recipes"]') as HTMLInputElement;
-          if (searchInput) {
-            searchInput.value = '';
-            searchInput.dispatchEvent(new Event('input', { bubbles: true }));
-          }
+          filters.clearAllFilters();
+          setSearchQuery('');
         },
         description: 'Clear all filters'
       },
@@ -89,7 +101,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         key: 'e',
         ctrlKey: true,
         callback: () => {
-          setIsExportModalOpen(true);
+          openExportModal();
         },
         description: 'Export current view'
       },
@@ -98,7 +110,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         ctrlKey: true,
         callback: (e) => {
           e.preventDefault();
-          const allRecipeIds = new Set(searchResults.map(r => r.recipeId));
+          const allRecipeIds = new Set(recipes.map(r => r.recipeId));
           setSelectedRecipes(allRecipeIds);
         },
         description: 'Select all recipes'
@@ -126,96 +138,66 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
     ]
   });
 
-  // Initialize filtering functionality
+  // Filtering, search, sorting and pagination all happen on the server
+  const sortConfig = { field: SORT_FIELD_MAP[sortField], direction: sortDirection };
   const filters = useFilters({
-    recipes,
+    searchTerm: searchQuery,
+    sort: sortConfig,
+    pageSize: PAGE_SIZE,
+    refreshTrigger,
     persistFilters: true,
     storageKey: 'coffeeTracker_filters'
   });
 
-  // Initialize search functionality (searches within filtered results)
-  const {
-    searchQuery,
-    searchResults,
-    isSearching,
-    isLoading: isSearchLoading,
-    resultCount,
-    setSearchQuery,
-    clearSearch,
-    highlightText
-  } = useSearch({
-    recipes: filters.filteredRecipes, // Search within filtered recipes
-    debounceMs: 300,
-    minSearchLength: 1
-  });
+  const { recipes, pagination, error, reload: loadRecipes } = filters;
+  const isSearching = searchQuery.trim().length > 0;
+  const totalMatching = pagination?.total ?? recipes.length;
+  const hasActiveQuery = isSearching || filters.activeFiltersCount > 0;
+  const sortedRecipes = recipes;
 
-  // Update comparison count
-  const updateComparisonCount = useCallback(() => {
-    setComparisonCount(comparisonService.getComparisonCount());
+  const clearSearch = useCallback(() => {
+    setSearchQuery('');
   }, []);
 
-  // Load recipes from API
-  const loadRecipes = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  // Structured query tokens (origin:ethiopia score>=85) become filters; the rest is free text
+  const queryOptions = useMemo(() => ({ facets: filters.facets ?? undefined }), [filters.facets]);
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery, queryOptions), [searchQuery, queryOptions]);
+  const querySuggestions = useMemo(() => getSearchQuerySuggestions(searchQuery, queryOptions), [searchQuery, queryOptions]);
+  const queryError = parsedQuery.errors[0];
 
-    try {
-      const response = await recipeService.getAllRecipes({}, { timeout: 10000, retries: 1 });
-      
-      if (response.success && response.data) {
-        setRecipes(response.data);
-      } else {
-        setError(response.error || 'Failed to load recipes');
-      }
-    } catch (error) {
-      console.error('Error loading recipes:', error);
-      setError('An unexpected error occurred while loading recipes');
-    } finally {
-      setLoading(false);
-    }
+  const handleSelectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    setSearchQuery(query => applySearchSuggestion(query, suggestion));
+  }, []);
+
+  // Ranked matches across tasting notes and descriptors for the search bar dropdown
+  const { results: textMatches } = useTextSearch(parsedQuery.text);
+
+  // Update comparison count
+  const updateComparisonCount = useCallback(() => {
+    setComparisonCount(comparisonService.getComparisonCount());
   }, []);
 
-  // Load recipes on mount and when refresh is triggered
   useEffect(() => {
-    loadRecipes();
     updateComparisonCount();
-  }, [loadRecipes, refreshTrigger, updateComparisonCount]);
-
-  // Sort recipes based on current sort settings (use search results if searching)
-  const recipesToSort = isSearching ? searchResults : filters.filteredRecipes;
-  const sortedRecipes = [...recipesToSort].sort((a, b) => {
-    let comparison = 0;
-    
-    switch (sortField) {
-      case 'date':
-        comparison = new Date(a.dateCreated).getTime() - new Date(b.dateCreated).getTime();
-        break;
-      case 'dateModified':
-        comparison = new Date(a.dateModified).getTime() - new Date(b.dateModified).getTime();
-        break;
-      case 'name':
-        comparison = a.recipeName.localeCompare(b.recipeName);
-        break;
-      case 'rating':
-        const ratingA = a.overallImpression || 0;
-        const ratingB = b.overallImpression || 0;
-        comparison = ratingA - ratingB;
-        break;
-      case 'origin':
-        comparison = (a.origin || '').localeCompare(b.origin || '');
-        break;
-      case 'brewingMethod':
-        comparison = (a.brewingMethod || '').localeCompare(b.brewingMethod || '');
-        break;
-      case 'ratio':
-        const ratioA = a.coffeeWaterRatio || 0;
-        const ratioB = b.coffeeWaterRatio || 0;
-        comparison = ratioA - ratioB;
-        break;
+  }, [refreshTrigger, updateComparisonCount]);
+
+  // Restore filters, search text and sort from a saved view
+  const handleApplySavedView = useCallback((view: SavedSearch) => {
+    filters.applySearchFilters(view.filters);
+    setSearchQuery(view.filters.searchTerm ?? '');
+
+    const savedSortField = (Object.keys(SORT_FIELD_MAP) as SortField[])
+      .find(field => SORT_FIELD_MAP[field] === view.sort.field);
+    if (savedSortField) {
+      setSortField(savedSortField);
+      setSortDirection(view.sort.direction);
     }
-    
-    return sortDirection === 'asc' ? comparison : -comparison;
-  });
+  }, [filters.applySearchFilters]);
+
+  // Without a selection the server exports everything matching the current view, not only the visible page
+  const openExportModal = () => {
+    setIsExportModalOpen(true);
+  };
 
   // Handle sort change
   const handleSort = (field: SortField) => {
@@ -253,12 +235,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
       const response = await recipeService.toggleFavorite(recipeId, isFavorite);
       
       if (response.success) {
-        // Update local state optimistically
-        setRecipes(prev => prev.map(recipe => 
-          recipe.recipeId === recipeId 
-            ? { ...recipe, isFavorite }
-            : recipe
-        ));
+        await loadRecipes();
         
         showSuccess(
           'Recipe Updated',
@@ -277,8 +254,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
       const response = await recipeService.deleteRecipe(recipeId);
       
       if (response.success) {
-        // Remove from local state
-        setRecipes(prev => prev.filter(recipe => recipe.recipeId !== recipeId));
+        await loadRecipes();
         setSelectedRecipes(prev => {
           const newSelected = new Set(prev);
           newSelected.delete(recipeId);
@@ -316,8 +292,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
       if (response.success && response.data) {
         const { deleted, failed } = response.data;
         
-        // Remove deleted recipes from local state
-        setRecipes(prev => prev.filter(recipe => !deleted.includes(recipe.recipeId)));
+        await loadRecipes();
         setSelectedRecipes(new Set());
         
         if (deleted.length > 0) {
@@ -341,8 +316,8 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
     }
   };
 
-  // Loading state
-  if (loading) {
+  // Loading state (initial load only; later queries keep the current page visible)
+  if (filters.isLoading && !pagination && !error) {
     return (
       <div className="container-mono space-y-section">
         {/* Loading Search Bar */}
@@ -403,7 +378,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
   }
 
   // Empty state for no recipes at all
-  if (recipes.length === 0) {
+  if (recipes.length === 0 && !hasActiveQuery && !filters.isLoading) {
     return (
       <div className="container-mono space-y-section">
         {/* Search bar (even with no recipes) */}
@@ -412,8 +387,13 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
             value={searchQuery}
             onChange={setSearchQuery}
             onClear={clearSearch}
-            isLoading={isSearchLoading}
-            resultCount={resultCount}
+            isLoading={filters.isLoading}
+            resultCount={totalMatching}
+            matches={textMatches}
+            onSelectMatch={onViewRecipe}
+            suggestions={querySuggestions}
+            onSelectSuggestion={handleSelectSuggestion}
+            errorHint={queryError && `${queryError.token}: ${queryError.message}`}
           />
         </div>
 
@@ -451,13 +431,18 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
               value={searchQuery}
               onChange={setSearchQuery}
               onClear={clearSearch}
-              isLoading={isSearchLoading}
-              resultCount={resultCount}
+              isLoading={filters.isLoading}
+              resultCount={totalMatching}
+              matches={textMatches}
+              onSelectMatch={onViewRecipe}
+              suggestions={querySuggestions}
+              onSelectSuggestion={handleSelectSuggestion}
+              errorHint={queryError && `${queryError.token}: ${queryError.message}`}
             />
           </div>
           <div className="flex items-center flex-wrap gap-3">
             <button
-              onClick={() => setIsExportModalOpen(true)}
+              onClick={openExportModal}
               className="btn-mono-secondary flex items-center space-x-2"
               title="Export all recipes"
             >
@@ -466,6 +451,16 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
               </svg>
               <span className="text-body-sm font-medium">Export</span>
             </button>
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="btn-mono-secondary flex items-center space-x-2"
+              title="Import recipes from a CSV or Excel file"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+              <span className="text-body-sm font-medium">Import</span>
+            </button>
             <button
               onClick={() => setIsExportHistoryModalOpen(true)}
               className="btn-mono-secondary flex items-center space-x-2"
@@ -518,7 +513,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
       </div>
 
       {/* Empty search results state */}
-      {isSearching && searchResults.length === 0 && !isSearchLoading && (
+      {hasActiveQuery && recipes.length === 0 && !filters.isLoading && (
         <div className="text-center py-12">
           <div className="max-w-md mx-auto">
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-8">
@@ -531,7 +526,9 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
                 No Results Found
               </h3>
               <p className="text-gray-600 mb-4">
-                No recipes match your search for "{searchQuery}"
+                {isSearching
+                  ? <>No recipes match your search for "{searchQuery}"</>
+                  : <>No recipes match the active filters</>}
               </p>
               <div className="space-y-2">
                 <p className="text-sm text-gray-500">Try:</p>
@@ -543,29 +540,32 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
                 </ul>
               </div>
               <button
-                onClick={clearSearch}
+                onClick={() => {
+                  clearSearch();
+                  filters.clearAllFilters();
+                }}
                 className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                Clear Search
+                Clear Search & Filters
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {/* Main content - only show if we have results or not searching */}
-      {(!isSearching || searchResults.length > 0) && (
+      {/* Main content - only show if we have results */}
+      {recipes.length > 0 && (
         <>
           {/* Header with sort controls and bulk actions */}
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div className="flex items-center space-x-4">
           <h2 className="text-xl font-semibold text-gray-900">
             {isSearching ? (
-              <>Search Results ({resultCount})</>
+              <>Search Results ({totalMatching})</>
             ) : filters.activeFiltersCount > 0 ? (
-              <>Filtered Recipes ({filters.filteredRecipes.length} of {recipes.length})</>
+              <>Filtered Recipes ({totalMatching})</>
             ) : (
-              <>My Recipes ({recipes.length})</>
+              <>My Recipes ({totalMatching})</>
             )}
           </h2>
           
@@ -587,13 +587,22 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
             </span>
           )}
           
+          {!isBulkEditMode && sortedRecipes.length > 0 && (
+            <button
+              onClick={() => setIsBulkEditMode(true)}
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Bulk Edit
+            </button>
+          )}
+
           {selectedRecipes.size > 0 && (
             <div className="flex items-center space-x-2 flex-wrap">
               <span className="text-sm text-gray-600">
                 {selectedRecipes.size} selected
               </span>
               <button
-                onClick={() => setIsExportModalOpen(true)}
+                onClick={openExportModal}
                 className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
               >
                 Export Selected
@@ -674,6 +683,20 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         </div>
       </div>
 
+      {/* Bulk edit toolbar for the selection or everything matching */}
+      {isBulkEditMode && (
+        <BulkEditToolbar
+          selectedRecipeIds={Array.from(selectedRecipes)}
+          searchFilters={filters.searchFilters}
+          totalMatching={totalMatching}
+          onApplied={loadRecipes}
+          onClose={() => {
+            setSelectedRecipes(new Set());
+            setIsBulkEditMode(false);
+          }}
+        />
+      )}
+
       {/* Select all control */}
       {sortedRecipes.length > 1 && (
         <div className="flex items-center">
@@ -685,7 +708,7 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
               className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
             />
             <span className="ml-2 text-sm text-gray-600">
-              Select all {isSearching ? 'search results' : 'recipes'}
+              Select all {isSearching ? 'search results' : 'recipes'} on this page
             </span>
           </label>
         </div>
@@ -703,13 +726,38 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
             onView={() => onViewRecipe?.(recipe.recipeId)}
             onToggleFavorite={(isFavorite) => handleToggleFavorite(recipe.recipeId, isFavorite)}
             onDelete={() => handleDeleteRecipe(recipe.recipeId)}
-            searchQuery={isSearching ? searchQuery : undefined}
-            highlightText={isSearching ? highlightText : undefined}
+            searchQuery={parsedQuery.text || undefined}
+            highlightText={parsedQuery.text ? highlightMatches : undefined}
             onComparisonChange={updateComparisonCount}
             onCloneSuccess={loadRecipes}
           />
         ))}
       </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => filters.setPage(pagination.page - 1)}
+              disabled={!pagination.hasPrev || filters.isLoading}
+              className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Previous
+            </button>
+            <button
+              onClick={() => filters.setPage(pagination.page + 1)}
+              disabled={!pagination.hasNext || filters.isLoading}
+              className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
         </>
       )}
 
@@ -718,14 +766,18 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         filters={filters}
         isOpen={isFilterPanelOpen}
         onToggle={() => setIsFilterPanelOpen(!isFilterPanelOpen)}
+        sort={sortConfig}
+        onApplySavedView={handleApplySavedView}
       />
 
       {/* Export Modal */}
       <ExportModal
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
-        recipes={isSearching ? searchResults : filters.filteredRecipes}
+        recipes={recipes}
         selectedRecipes={selectedRecipes.size > 0 ? selectedRecipes : undefined}
+        filters={filters.searchFilters}
+        matchingCount={totalMatching}
         title={selectedRecipes.size > 0 ? "Export Selected Recipes" : "Export Recipes"}
       />
 
@@ -735,6 +787,13 @@ export default function RecipeList({ onEditRecipe, onViewRecipe, refreshTrigger
         onClose={() => setIsExportHistoryModalOpen(false)}
       />
 
+      {/* Recipe Import Modal */}
+      <RecipeImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={loadRecipes}
+      />
+
       {/* Recipe Comparison Modal */}
       <RecipeComparisonModal
         isOpen={isComparisonModalOpen}
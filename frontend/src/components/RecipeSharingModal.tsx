@@ -3,6 +3,7 @@ import { RecipeSummary } from '../shared/types/recipe';
 import { ShareOptions, recipeSharingService } from '../services/recipeSharingService';
 import { useToast } from './ui/ToastContainer';
 import LoadingSpinner from './ui/LoadingSpinner';
+import ShareLinksPanel, { SHARE_EXPIRY_OPTIONS } from './ShareLinksPanel';
 
 interface RecipeSharingModalProps {
   isOpen: boolean;
@@ -28,9 +29,12 @@ export default function RecipeSharingModal({
   const [previewContent, setPreviewContent] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
   const [shareHistory, setShareHistory] = useState<any[]>([]);
+  const [shareLinksVersion, setShareLinksVersion] = useState(0);
 
   const { showSuccess, showError, showInfo } = useToast();
 
+  const createsLink = shareMethod === 'url' || shareOptions.format === 'url';
+
   // Load share history on open
   useEffect(() => {
     if (isOpen) {
@@ -73,6 +77,9 @@ export default function RecipeSharingModal({
         // Refresh share history
         const history = recipeSharingService.getShareHistory();
         setShareHistory(history.slice(0, 5));
+        if (createsLink) {
+          setShareLinksVersion(version => version + 1);
+        }
 
         // Close modal after successful share
         setTimeout(() => {
@@ -140,7 +147,7 @@ export default function RecipeSharingModal({
                       value: 'url', 
                       label: 'Generate Share Link', 
                       icon: '🔗',
-                      description: 'Create a shareable URL (copied to clipboard)'
+                      description: 'Create a read-only link you can revoke later (copied to clipboard)'
                     },
                     { 
                       value: 'download', 
@@ -240,7 +247,7 @@ export default function RecipeSharingModal({
                     { 
                       key: 'includePersonalNotes', 
                       label: 'Personal Notes',
-                      description: 'Include private brewing notes'
+                      description: 'Include private brewing notes and the assessor ID'
                     }
                   ].map((option) => (
                     <label key={option.key} className="flex items-start space-x-3">
@@ -279,6 +286,32 @@ export default function RecipeSharingModal({
                 />
               </div>
 
+              {/* Link Expiry */}
+              {createsLink && (
+                <div>
+                  <label htmlFor="share-link-expiry" className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    Link Expires
+                  </label>
+                  <select
+                    id="share-link-expiry"
+                    value={shareOptions.expiresInDays?.toString() ?? ''}
+                    onChange={(e) => setShareOptions(prev => ({
+                      ...prev,
+                      expiresInDays: e.target.value ? Number(e.target.value) : undefined
+                    }))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    disabled={isSharing}
+                  >
+                    {SHARE_EXPIRY_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Share Links */}
+              <ShareLinksPanel targetType="recipe" targetId={recipe.recipeId} refreshKey={shareLinksVersion} />
+
               {/* Share History */}
               {shareHistory.length > 0 && (
                 <div>
@@ -4,6 +4,7 @@ import { recipeService } from '../services/recipeService';
 import { recipeCloneService } from '../services/recipeCloneService';
 import { RatingHistoryChart, generateSampleRatingData } from './ui/RatingHistoryChart';
 import LoadingSpinner from './ui/LoadingSpinner';
+import ScoreAnalyticsPanel from './ScoreAnalyticsPanel';
 
 interface StatsData {
   totalRecipes: number;
@@ -524,6 +525,9 @@ export default function RecipeStatsDashboard() {
           </div>
         </div>
       )}
+
+      {/* Correlations of brewing variables with scores */}
+      <ScoreAnalyticsPanel />
     </div>
   );
 }
\ No newline at end of file
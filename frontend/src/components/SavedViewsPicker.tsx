@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SortOption } from '../shared/types/recipe';
+import { SavedSearch, SavedSearchInput, SortConfig } from '../shared/types/search';
+import { SavedSearchInputSchema } from '../shared/validation/searchSchema';
+import { UseFiltersReturn, FILTER_PRESETS, FILTER_PRESET_LABELS } from '../hooks/useFilters';
+import { savedSearchService } from '../services/savedSearchService';
+import { useToast } from './ui/ToastContainer';
+
+interface SavedViewsPickerProps {
+  filters: UseFiltersReturn;
+  sort?: SortConfig;
+  onApplySavedView?: (view: SavedSearch) => void;
+}
+
+export default function SavedViewsPicker({ filters, sort, onApplySavedView }: SavedViewsPickerProps) {
+  const [savedViews, setSavedViews] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  const { showSuccess, showError } = useToast();
+
+  const loadSavedViews = useCallback(async () => {
+    setIsLoading(true);
+    const response = await savedSearchService.getSavedSearches();
+    if (response.success && response.data) {
+      setSavedViews(response.data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSavedViews();
+  }, [loadSavedViews]);
+
+  const handleApply = async (view: SavedSearch) => {
+    if (onApplySavedView) {
+      onApplySavedView(view);
+    } else {
+      filters.applySearchFilters(view.filters);
+    }
+
+    const response = await savedSearchService.markUsed(view.id);
+    if (response.success && response.data) {
+      const updated = response.data;
+      setSavedViews(prev => [updated, ...prev.filter(v => v.id !== updated.id)]);
+    }
+  };
+
+  const handleSave = async () => {
+    const input: SavedSearchInput = {
+      name: newViewName.trim(),
+      filters: filters.searchFilters,
+      sort: sort ?? { field: SortOption.DATE_MODIFIED, direction: 'desc' }
+    };
+
+    const validation = SavedSearchInputSchema.safeParse(input);
+    if (!validation.success) {
+      setNameError(validation.error.errors[0]?.message ?? 'Invalid view');
+      return;
+    }
+
+    setIsSaving(true);
+    const response = await savedSearchService.createSavedSearch(input);
+    setIsSaving(false);
+
+    if (response.success && response.data) {
+      const created = response.data;
+      setSavedViews(prev => [created, ...prev]);
+      setNewViewName('');
+      setNameError(null);
+      showSuccess('View Saved', `"${created.name}" is now available in Saved views`);
+    } else {
+      setNameError(response.error || response.message || 'Failed to save view');
+    }
+  };
+
+  const handleDelete = async (view: SavedSearch) => {
+    if (!window.confirm(`Delete saved view "${view.name}"?`)) return;
+
+    const response = await savedSearchService.deleteSavedSearch(view.id);
+    if (response.success) {
+      setSavedViews(prev => prev.filter(v => v.id !== view.id));
+    } else {
+      showError('Failed to Delete', response.error || 'Please try again');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-900">Saved Views</h3>
+
+      {/* Built-in presets */}
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(FILTER_PRESETS).map(([key, preset]) => (
+          <button
+            key={key}
+            onClick={() => filters.applyFilterPreset(preset)}
+            className="px-2 py-1 text-xs rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            {FILTER_PRESET_LABELS[key] ?? key}
+          </button>
+        ))}
+      </div>
+
+      {/* Server-side saved views */}
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {isLoading && savedViews.length === 0 && (
+          <p className="text-sm text-gray-500 italic">Loading saved views...</p>
+        )}
+        {!isLoading && savedViews.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No saved views yet</p>
+        )}
+        {savedViews.map(view => (
+          <div key={view.id} className="flex items-center justify-between group">
+            <button
+              onClick={() => handleApply(view)}
+              className="flex-1 text-left text-sm text-blue-700 hover:text-blue-900 truncate"
+              title={`Last used ${new Date(view.lastUsed).toLocaleDateString()}`}
+            >
+              {view.name}
+            </button>
+            <button
+              onClick={() => handleDelete(view)}
+              className="ml-2 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+              title="Delete saved view"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Save current view */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newViewName}
+            onChange={(e) => {
+              setNewViewName(e.target.value);
+              setNameError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Name this view"
+            maxLength={100}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !newViewName.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        {nameError && <p className="text-xs text-red-600">{nameError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { EvaluationSystem } from '../shared/types/recipe';
+import { AnalyticsVariable, ScoreAnalytics } from '../shared/types/analytics';
+import { ANALYTICS_VARIABLES, formatAnalyticsValue } from '../shared/utils/scoreAnalytics';
+import { analyticsService } from '../services/analyticsService';
+import LoadingSpinner from './ui/LoadingSpinner';
+import ScatterPlot from './ui/ScatterPlot';
+
+type SystemFilter = EvaluationSystem | 'all';
+
+const SYSTEM_LABELS: Record<SystemFilter, string> = {
+  'all': 'All systems (0-10)',
+  'traditional-sca': 'SCA',
+  'cva-affective': 'CVA Affective',
+  'cva-descriptive': 'CVA Descriptive',
+  'quick-tasting': 'Quick Tasting',
+  'legacy': 'Rating'
+};
+
+const variableOptions = Object.entries(ANALYTICS_VARIABLES).map(([value, { label }]) => ({
+  value: value as AnalyticsVariable,
+  label
+}));
+
+const describeStrength = (correlation: number): string => {
+  const strength = Math.abs(correlation);
+  if (strength >= 0.5) return 'Strong';
+  if (strength >= 0.3) return 'Moderate';
+  return 'Weak';
+};
+
+export default function ScoreAnalyticsPanel() {
+  const [analytics, setAnalytics] = useState<ScoreAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [system, setSystem] = useState<SystemFilter>('all');
+  const [variable, setVariable] = useState<AnalyticsVariable>('extractionYield');
+
+  useEffect(() => {
+    analyticsService.getScoreAnalytics().then(response => {
+      if (response.success && response.data) {
+        setAnalytics(response.data);
+      } else {
+        setError(response.error || 'Failed to load score analysis');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  const correlations = analytics.correlations.filter(entry => entry.system === system);
+  const regression = correlations.find(entry => entry.variable === variable);
+  const bestWindow = analytics.insights.find(insight => insight.variable === variable && !insight.processingMethod);
+  const points = analytics.observations
+    .filter(observation => (system === 'all' || observation.system === system) && observation.values[variable] !== undefined)
+    .map(observation => ({
+      x: observation.values[variable]!,
+      y: system === 'all' ? observation.normalizedScore : observation.score,
+      label: observation.sessionId ? `${observation.recipeName} (session)` : observation.recipeName
+    }));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">What Drives Your Scores</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {analytics.observationCount} scored brews from your recipes and brew sessions
+        </p>
+      </div>
+
+      {analytics.observationCount === 0 ? (
+        <p className="text-sm text-gray-500">Score some recipes or brew sessions to see which variables matter</p>
+      ) : (
+        <>
+          {/* Insights */}
+          {analytics.insights.length > 0 && (
+            <ul className="space-y-2">
+              {analytics.insights.slice(0, 6).map((insight, index) => (
+                <li key={index} className="bg-green-50 dark:bg-green-900/20 rounded-md p-3 text-sm text-green-900 dark:text-green-100">
+                  {insight.message}
+                  <span className="block text-xs text-green-800 dark:text-green-300 mt-1">
+                    Avg {insight.averageScoreInside.toFixed(1)}/10 inside vs {insight.averageScoreOutside.toFixed(1)}/10 outside · {insight.sampleSize} brews
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label htmlFor="analyticsSystem" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Scores</label>
+              <select
+                id="analyticsSystem"
+                value={system}
+                onChange={(e) => setSystem(e.target.value as SystemFilter)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {(['all', ...analytics.systems] as SystemFilter[]).map(option => (
+                  <option key={option} value={option}>{SYSTEM_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="analyticsVariable" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Variable</label>
+              <select
+                id="analyticsVariable"
+                value={variable}
+                onChange={(e) => setVariable(e.target.value as AnalyticsVariable)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {variableOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <ScatterPlot
+            points={points}
+            xLabel={ANALYTICS_VARIABLES[variable].label}
+            yLabel={system === 'all' ? 'Score (0-10)' : `${SYSTEM_LABELS[system]} score`}
+            formatX={(value) => formatAnalyticsValue(variable, value)}
+            regression={regression}
+            highlight={bestWindow}
+          />
+
+          {/* Correlations for the selected scores, strongest first */}
+          {correlations.length === 0 ? (
+            <p className="text-sm text-gray-500">Not enough varied brews to correlate yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2">Variable</th>
+                  <th className="py-2 text-right">Brews</th>
+                  <th className="py-2 text-right">Correlation</th>
+                  <th className="py-2 text-right">Score per unit</th>
+                  <th className="py-2 text-right">R²</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {correlations.map(entry => (
+                  <tr
+                    key={entry.variable}
+                    onClick={() => setVariable(entry.variable)}
+                    className={`cursor-pointer ${entry.variable === variable ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}
+                  >
+                    <td className="py-2">{ANALYTICS_VARIABLES[entry.variable].label}</td>
+                    <td className="py-2 text-right">{entry.sampleSize}</td>
+                    <td className="py-2 text-right">
+                      {entry.correlation.toFixed(2)}
+                      <span className="ml-1 text-xs text-gray-500">({describeStrength(entry.correlation)})</span>
+                    </td>
+                    <td className="py-2 text-right">{entry.slope > 0 ? '+' : ''}{entry.slope.toFixed(3)}</td>
+                    <td className="py-2 text-right">{entry.rSquared.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { SearchSuggestion, TextSearchMatch, TextSearchResult } from '../shared/types/search';
 
 interface SearchBarProps {
   value: string;
@@ -11,20 +12,46 @@ interface SearchBarProps {
   showShortcut?: boolean;
   autoFocus?: boolean;
   className?: string;
+  matches?: TextSearchResult[]; // Ranked full-text hits shown below the input while focused
+  onSelectMatch?: (recipeId: string) => void;
+  suggestions?: SearchSuggestion[]; // Autocomplete for the query token being typed
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
+  errorHint?: string; // Problem with a query token, e.g. "score>=abc: Score needs a number"
+}
+
+// Render a snippet with its matched words marked
+function HighlightedSnippet({ match }: { match: TextSearchMatch }) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  match.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(<span key={`t${index}`}>{match.snippet.slice(cursor, start)}</span>);
+    parts.push(<mark key={`m${index}`} className="bg-yellow-200 px-0.5 rounded">{match.snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < match.snippet.length) parts.push(<span key="rest">{match.snippet.slice(cursor)}</span>);
+
+  return <>{parts}</>;
 }
 
 export default function SearchBar({
   value,
   onChange,
   onClear,
-  placeholder = "Search recipes by name, origin, tasting notes...",
+  placeholder = "Search recipes, or filter with origin:kenya score>=85 roasted<14d...",
   isLoading = false,
   resultCount,
   showShortcut = true,
   autoFocus = false,
-  className = ""
+  className = "",
+  matches,
+  onSelectMatch,
+  suggestions,
+  onSelectSuggestion,
+  errorHint
 }: SearchBarProps) {
   const [isFocused, setIsFocused] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Keyboard shortcut to focus search (Ctrl+K)
@@ -68,8 +95,41 @@ export default function SearchBar({
     onChange(e.target.value);
   };
 
+  // Typing brings dismissed suggestions back and resets the highlighted one
+  useEffect(() => {
+    setActiveSuggestion(-1);
+    setSuggestionsDismissed(false);
+  }, [value]);
+
   const hasValue = value.length > 0;
-  const showResultCount = typeof resultCount === 'number' && hasValue;
+  const showSuggestions = isFocused && hasValue && !suggestionsDismissed && !!suggestions && suggestions.length > 0;
+  const showMatches = !showSuggestions && isFocused && hasValue && !!matches && matches.length > 0;
+  const showErrorHint = !showSuggestions && !showMatches && hasValue && !!errorHint;
+  const showResultCount = typeof resultCount === 'number' && hasValue && !showSuggestions && !showMatches && !showErrorHint;
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    onSelectSuggestion?.(suggestion);
+    inputRef.current?.focus();
+  };
+
+  // Arrow keys move through suggestions; Tab takes the highlighted (or first) one, Enter the highlighted one
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    const count = suggestions!.length;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion(index => (index + 1) % count);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion(index => (index <= 0 ? count - 1 : index - 1));
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && activeSuggestion >= 0)) {
+      e.preventDefault();
+      selectSuggestion(suggestions![Math.max(activeSuggestion, 0)]!);
+    } else if (e.key === 'Escape') {
+      setSuggestionsDismissed(true);
+    }
+  };
 
   return (
     <div className={`relative ${className}`}>
@@ -107,6 +167,7 @@ export default function SearchBar({
           onChange={handleInputChange}
           onFocus={handleFocus}
           onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           className="w-full pl-10 pr-20 py-2.5 bg-transparent focus:outline-none text-gray-900 placeholder-gray-500"
         />
@@ -135,6 +196,66 @@ export default function SearchBar({
         </div>
       </div>
 
+      {/* Query syntax autocomplete */}
+      {showSuggestions && (
+        <ul className="absolute top-full left-0 right-0 mt-1 z-20 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {suggestions!.map((suggestion, index) => (
+            <li key={`${suggestion.type}-${suggestion.value}`}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                onMouseEnter={() => setActiveSuggestion(index)}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-sm focus:outline-none ${
+                  index === activeSuggestion ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-mono text-gray-900">{suggestion.value}</span>
+                <span className="ml-3 text-xs text-gray-500 truncate">
+                  {suggestion.label}
+                  {typeof suggestion.count === 'number' && ` (${suggestion.count})`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Full-text matches with highlighted snippets */}
+      {showMatches && (
+        <ul className="absolute top-full left-0 right-0 mt-1 z-20 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg divide-y divide-gray-100">
+          {matches!.map(({ recipe, matches: fieldMatches }) => (
+            <li key={recipe.recipeId}>
+              <button
+                type="button"
+                // Keep focus on the input so the list stays open until the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onSelectMatch?.(recipe.recipeId)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50 focus:outline-none focus:bg-gray-50"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 truncate">{recipe.recipeName}</span>
+                  <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{recipe.origin}</span>
+                </div>
+                {fieldMatches.slice(0, 2).map(match => (
+                  <p key={match.field} className="mt-0.5 text-xs text-gray-600 truncate">
+                    <span className="text-gray-400">{match.label}: </span>
+                    <HighlightedSnippet match={match} />
+                  </p>
+                ))}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Query syntax error */}
+      {showErrorHint && (
+        <div className="absolute top-full left-0 right-0 mt-1 px-3 py-1 bg-red-50 border border-red-200 rounded-md shadow-sm text-xs text-red-700">
+          {errorHint}
+        </div>
+      )}
+
       {/* Search Results Count */}
       {showResultCount && (
         <div className="absolute top-full left-0 right-0 mt-1 px-3 py-1 bg-white border border-gray-200 rounded-md shadow-sm text-xs text-gray-600">
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { Share, ShareOptions, ShareStatus, ShareTargetType } from '../shared/types/share';
+import { recipeSharingService } from '../services/recipeSharingService';
+import { useToast } from './ui/ToastContainer';
+
+interface ShareLinksPanelProps {
+  targetType: ShareTargetType;
+  targetId: string;
+  refreshKey?: number; // Bump to reload after a link was created elsewhere
+  allowCreate?: boolean; // Show the controls for creating a link here
+}
+
+export const SHARE_EXPIRY_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Never' },
+  { value: '1', label: 'After 1 day' },
+  { value: '7', label: 'After 7 days' },
+  { value: '30', label: 'After 30 days' },
+  { value: '90', label: 'After 90 days' }
+];
+
+const STATUS_STYLES: Record<ShareStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  revoked: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+};
+
+const INCLUDE_OPTIONS: Array<{ key: keyof Omit<ShareOptions, 'customMessage'>; label: string }> = [
+  { key: 'includeRatings', label: 'Ratings & scores' },
+  { key: 'includeTastingNotes', label: 'Tasting notes' },
+  { key: 'includePersonalNotes', label: 'Brewing notes' }
+];
+
+// Share links of one recipe or collection with their status and views; active links can be copied or revoked
+export default function ShareLinksPanel({ targetType, targetId, refreshKey = 0, allowCreate = false }: ShareLinksPanelProps) {
+  const { showSuccess, showError, showInfo } = useToast();
+  const [shares, setShares] = useState<Share[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [options, setOptions] = useState<ShareOptions>({
+    includeRatings: true,
+    includeTastingNotes: true,
+    includePersonalNotes: false
+  });
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadShares = async () => {
+    const response = await recipeSharingService.getShareLinks(targetId);
+    if (response.success && response.data) {
+      setShares(response.data);
+    }
+  };
+
+  useEffect(() => {
+    loadShares();
+  }, [targetId, refreshKey]);
+
+  const copyLink = async (share: Share) => {
+    try {
+      await navigator.clipboard.writeText(recipeSharingService.buildShareUrl(share.token));
+      showInfo('Link Copied', 'Share link copied to clipboard');
+    } catch (error) {
+      showError('Copy Failed', 'Could not access the clipboard');
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await recipeSharingService.createShareLink(
+        targetType,
+        targetId,
+        options,
+        expiresInDays ? Number(expiresInDays) : undefined
+      );
+      if (response.success && response.data) {
+        setShares(prev => [response.data!, ...prev]);
+        await copyLink(response.data);
+      } else {
+        showError('Share Failed', response.error || 'Failed to create share link');
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: Share) => {
+    if (!confirm('Revoke this share link? Anyone opening it will be told it is no longer available.')) {
+      return;
+    }
+
+    setRevokingId(share.shareId);
+    try {
+      const response = await recipeSharingService.revokeShareLink(share.shareId);
+      if (response.success && response.data) {
+        const revoked = response.data;
+        setShares(prev => prev.map(link => (link.shareId === revoked.shareId ? revoked : link)));
+        showSuccess('Link Revoked', 'The share link no longer works');
+      } else {
+        showError('Revoke Failed', response.error || 'Failed to revoke share link');
+      }
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (!allowCreate && shares.length === 0) return null;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-900 dark:text-white mb-3">
+        Share Links
+      </label>
+
+      {allowCreate && (
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          {INCLUDE_OPTIONS.map(option => (
+            <label key={option.key} className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options[option.key]}
+                onChange={(e) => setOptions(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            aria-label="Link expires"
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SHARE_EXPIRY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>Expires: {option.label.toLowerCase()}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isCreating ? 'Creating...' : 'Create link'}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {shares.map(share => (
+          <div key={share.shareId} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-900 rounded text-sm">
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[share.status]}`}>
+                  {share.status}
+                </span>
+                <span className="text-gray-900 dark:text-white">
+                  {new Date(share.dateCreated).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {share.viewCount} view{share.viewCount !== 1 ? 's' : ''}
+                {share.expiresAt && share.status === 'active' && ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            {share.status === 'active' && (
+              <div className="flex items-center space-x-3 ml-2">
+                <button
+                  type="button"
+                  onClick={() => copyLink(share)}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                >
+                  Copy
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(share)}
+                  disabled={revokingId === share.shareId}
+                  className="text-xs text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 disabled:opacity-50"
+                >
+                  {revokingId === share.shareId ? 'Revoking...' : 'Revoke'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {allowCreate && shares.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No links yet. Anyone with a link can view a read-only copy without signing in.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
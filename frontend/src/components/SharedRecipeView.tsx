@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Recipe } from '../shared/types/recipe';
+import { SharedContent } from '../shared/types/share';
+import { formatBrewingMethod, formatDate, formatRoastingLevel } from '../shared/utils/formatting';
+import { getEvaluationScore } from '../shared/utils/sessionStats';
+import { getCollectionColorOptions } from '../services/collectionService';
+import { recipeSharingService } from '../services/recipeSharingService';
+import LoadingSpinner from './ui/LoadingSpinner';
+
+interface SharedRecipeViewProps {
+  token: string;
+}
+
+const colorOptions = getCollectionColorOptions();
+
+// Read-only details of one shared recipe; fields the share left out are simply absent
+function SharedRecipeDetails({ recipe }: { recipe: Recipe }) {
+  const { beanInfo, brewingParameters, measurements, sensationRecord } = recipe;
+  const score = getEvaluationScore(sensationRecord);
+
+  const rows: Array<[string, string | undefined]> = [
+    ['Origin', beanInfo.origin],
+    ['Brand', beanInfo.coffeeBeanBrand],
+    ['Processing', beanInfo.processingMethod],
+    ['Roast', beanInfo.roastingLevel && formatRoastingLevel(beanInfo.roastingLevel)],
+    ['Method', brewingParameters.brewingMethod && formatBrewingMethod(brewingParameters.brewingMethod)],
+    ['Grinder', [brewingParameters.grinderModel, brewingParameters.grinderUnit].filter(Boolean).join(' · ')],
+    ['Water temperature', brewingParameters.waterTemperature !== undefined ? `${brewingParameters.waterTemperature}°C` : undefined],
+    ['Dose', `${measurements.coffeeBeans}g coffee / ${measurements.water}g water`],
+    ['Ratio', measurements.coffeeWaterRatio ? `1:${measurements.coffeeWaterRatio.toFixed(1)}` : undefined],
+    ['TDS', measurements.tds !== undefined ? `${measurements.tds}%` : undefined],
+    ['Extraction', measurements.extractionYield !== undefined ? `${measurements.extractionYield}%` : undefined]
+  ];
+
+  return (
+    <div className="card-mono p-6">
+      <div className="flex items-start justify-between">
+        <h2 className="text-xl font-semibold text-mono-900">{recipe.recipeName}</h2>
+        {score && (
+          <span className="ml-4 whitespace-nowrap text-sm font-medium text-mono-700">
+            ⭐ {score.score}/{score.maxScore}
+          </span>
+        )}
+      </div>
+
+      <dl className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+        {rows.filter(([, value]) => value).map(([label, value]) => (
+          <div key={label} className="flex justify-between sm:block">
+            <dt className="text-mono-500">{label}</dt>
+            <dd className="text-mono-900">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {sensationRecord.tastingNotes && (
+        <div className="mt-4">
+          <h3 className="text-sm font-medium text-mono-700">Tasting notes</h3>
+          <p className="mt-1 text-sm text-mono-900 whitespace-pre-wrap">{sensationRecord.tastingNotes}</p>
+        </div>
+      )}
+
+      {brewingParameters.additionalNotes && (
+        <div className="mt-4">
+          <h3 className="text-sm font-medium text-mono-700">Brewing notes</h3>
+          <p className="mt-1 text-sm text-mono-900 whitespace-pre-wrap">{brewingParameters.additionalNotes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Public landing page of a share link (#share/<token>); works without signing in
+export default function SharedRecipeView({ token }: SharedRecipeViewProps) {
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    recipeSharingService.getSharedContent(token).then(response => {
+      if (response.success && response.data) {
+        setContent(response.data);
+      } else {
+        setError(response.error || 'This share link is not available');
+      }
+      setLoading(false);
+    });
+  }, [token]);
+
+  const openApp = () => {
+    window.location.assign(window.location.pathname);
+  };
+
+  return (
+    <div className="min-h-screen bg-mono-50 dark:bg-mono-800 px-4 py-10">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-mono-900">Coffee Recipe Tracker</h1>
+          <button onClick={openApp} className="text-sm text-mono-600 hover:text-mono-900 underline">
+            Open the app
+          </button>
+        </div>
+
+        {loading && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="card-mono p-8 text-center">
+            <p className="text-lg font-medium text-mono-900">{error}</p>
+            <p className="mt-2 text-sm text-mono-500">Ask the person who shared it for a new link.</p>
+          </div>
+        )}
+
+        {!loading && content && (
+          <>
+            <div className="text-sm text-mono-600">
+              Shared by <span className="font-medium text-mono-900">{content.sharedBy}</span> on {formatDate(content.sharedAt)}
+              {content.expiresAt && ` · available until ${formatDate(content.expiresAt)}`}
+            </div>
+
+            {content.customMessage && (
+              <blockquote className="card-mono p-4 italic text-mono-700 whitespace-pre-wrap">
+                {content.customMessage}
+              </blockquote>
+            )}
+
+            {content.recipe && <SharedRecipeDetails recipe={content.recipe} />}
+
+            {content.collection && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <span
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: colorOptions.find(option => option.value === content.collection!.color)?.color ?? '#6B7280' }}
+                  />
+                  <h2 className="text-xl font-semibold text-mono-900">{content.collection.name}</h2>
+                  <span className="text-sm text-mono-500">
+                    {content.collection.recipes.length} recipe{content.collection.recipes.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {content.collection.description && (
+                  <p className="text-sm text-mono-600">{content.collection.description}</p>
+                )}
+                {content.collection.recipes.map(recipe => (
+                  <SharedRecipeDetails key={recipe.recipeId} recipe={recipe} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React from 'react';
+import { SmartCollectionRule } from '../shared/types/collection';
+import { SearchFilters } from '../shared/types/search';
+import { describeSmartCollectionRule } from '../shared/utils/smartCollections';
+
+interface SmartCollectionRuleEditorProps {
+  rule: SmartCollectionRule;
+  onChange: (rule: SmartCollectionRule) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Parse an optional number input; empty or invalid input clears the value
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = Number(value);
+  return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+// Edit the search rule that decides which recipes a smart collection holds
+const SmartCollectionRuleEditor: React.FC<SmartCollectionRuleEditorProps> = ({ rule, onChange }) => {
+  const { filters } = rule;
+
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    const next: SearchFilters = { ...filters, ...changes };
+    // Drop cleared filters so the stored rule stays minimal
+    (Object.keys(next) as Array<keyof SearchFilters>).forEach(key => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange({ ...rule, filters: next });
+  };
+
+  const origins = (filters.origins ?? []).join(', ');
+
+  return (
+    <div className="space-y-3 p-3 bg-purple-50 border border-purple-200 rounded-md">
+      <div>
+        <label htmlFor="rule-search-term" className="block text-sm font-medium text-gray-700 mb-1">
+          Matching text
+        </label>
+        <input
+          id="rule-search-term"
+          type="text"
+          value={filters.searchTerm ?? ''}
+          onChange={(e) => updateFilters({ searchTerm: e.target.value || undefined })}
+          className={inputClass}
+          placeholder="e.g. Natural (name, origin, brand, notes or processing)"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="rule-origins" className="block text-sm font-medium text-gray-700 mb-1">
+          Origins
+        </label>
+        <input
+          id="rule-origins"
+          type="text"
+          value={origins}
+          onChange={(e) => {
+            const values = e.target.value.split(',').map(value => value.trim()).filter(Boolean);
+            updateFilters({ origins: values.length > 0 ? values : undefined });
+          }}
+          className={inputClass}
+          placeholder="Comma separated, e.g. Ethiopia, Kenya"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="rule-min-score" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum cupping score
+          </label>
+          <input
+            id="rule-min-score"
+            type="number"
+            min={0}
+            max={100}
+            value={filters.scoreRange?.[0] ?? ''}
+            onChange={(e) => {
+              const min = parseOptionalNumber(e.target.value);
+              updateFilters({ scoreRange: min === undefined ? undefined : [min, 100] });
+            }}
+            className={inputClass}
+            placeholder="e.g. 86"
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-min-rating" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum rating
+          </label>
+          <input
+            id="rule-min-rating"
+            type="number"
+            min={1}
+            max={10}
+            value={filters.overallImpressionRange?.[0] ?? ''}
+            onChange={(e) => {
+              const min = parseOptionalNumber(e.target.value);
+              updateFilters({ overallImpressionRange: min === undefined ? undefined : [min, 10] });
+            }}
+            className={inputClass}
+            placeholder="1-10"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="rule-within-days" className="block text-sm font-medium text-gray-700 mb-1">
+            Within the last (days)
+          </label>
+          <input
+            id="rule-within-days"
+            type="number"
+            min={1}
+            max={3650}
+            value={rule.withinDays ?? ''}
+            onChange={(e) => {
+              const withinDays = parseOptionalNumber(e.target.value);
+              onChange({ ...rule, withinDays: withinDays === undefined ? undefined : Math.round(withinDays) });
+            }}
+            className={inputClass}
+            placeholder="Any time"
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-date-field" className="block text-sm font-medium text-gray-700 mb-1">
+            Counting from
+          </label>
+          <select
+            id="rule-date-field"
+            value={rule.dateField ?? 'dateCreated'}
+            onChange={(e) => onChange({ ...rule, dateField: e.target.value as SmartCollectionRule['dateField'] })}
+            disabled={!rule.withinDays}
+            className={`${inputClass} disabled:bg-gray-100`}
+          >
+            <option value="dateCreated">Date created</option>
+            <option value="dateModified">Date modified</option>
+            <option value="roastingDate">Roasting date</option>
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={!!filters.favoritesOnly}
+          onChange={(e) => updateFilters({ favoritesOnly: e.target.checked || undefined })}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">Favorites only</span>
+      </label>
+
+      <p className="text-xs text-purple-800">
+        Matches: {describeSmartCollectionRule(rule)}
+      </p>
+    </div>
+  );
+};
+
+export default SmartCollectionRuleEditor;
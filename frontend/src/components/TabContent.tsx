@@ -6,6 +6,9 @@ import RecipeList from './RecipeList';
 import RecipeDetail from './RecipeDetail';
 import FavoritesList from './FavoritesList';
 import CollectionsList from './CollectionsList';
+import EquipmentList from './EquipmentList';
+import WaterProfileList from './WaterProfileList';
+import ExperimentList from './ExperimentList';
 
 interface TabContentProps {
   activeTab: ActiveTab;
@@ -108,6 +111,29 @@ export default function TabContent({ activeTab, onTabChange }: TabContentProps)
         <FavoritesList />
       </div>
 
+      {/* Experiments Tab */}
+      <div
+        id="experiments-panel"
+        role="tabpanel"
+        aria-labelledby="experiments-tab"
+        className={activeTab === 'experiments' ? 'block' : 'hidden'}
+      >
+        <ExperimentList />
+      </div>
+
+      {/* Equipment Tab */}
+      <div
+        id="equipment-panel"
+        role="tabpanel"
+        aria-labelledby="equipment-tab"
+        className={activeTab === 'equipment' ? 'block' : 'hidden'}
+      >
+        <div className="space-y-10">
+          <EquipmentList />
+          <WaterProfileList />
+        </div>
+      </div>
+
       {/* Recipe Detail Modal */}
       <RecipeDetail
         recipeId={viewingRecipeId}
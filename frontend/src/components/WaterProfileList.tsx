@@ -0,0 +1,345 @@
+import { useState, useEffect } from 'react';
+import { MineralSalt, WaterMineralComposition, WaterMixComponent, WaterProfile, WaterProfileInput, WaterProfileStats } from '../shared/types/water';
+import { MINERAL_SALTS, calculateWaterMix, formatWaterComposition } from '../shared/utils/waterChemistry';
+import { waterProfileService } from '../services/waterProfileService';
+import { useToast } from './ui/ToastContainer';
+import LoadingSpinner from './ui/LoadingSpinner';
+
+type WaterInputMode = 'measured' | 'mix';
+
+const mineralFields: { key: keyof WaterMineralComposition; label: string }[] = [
+  { key: 'gh', label: 'GH (as CaCO₃)' },
+  { key: 'kh', label: 'KH (as CaCO₃)' },
+  { key: 'calcium', label: 'Calcium' },
+  { key: 'magnesium', label: 'Magnesium' },
+  { key: 'sodium', label: 'Sodium' },
+  { key: 'bicarbonate', label: 'Bicarbonate' },
+  { key: 'tds', label: 'TDS' }
+];
+
+const saltOptions = Object.entries(MINERAL_SALTS).map(([value, salt]) => ({ value: value as MineralSalt, label: salt.label }));
+
+interface MixRow {
+  salt: MineralSalt;
+  concentration: string;
+  dose: string;
+}
+
+const emptyMixRow: MixRow = { salt: MineralSalt.EPSOM_SALT, concentration: '', dose: '' };
+
+// Keep only fully filled-in concentrate rows
+const parseMix = (rows: MixRow[]): WaterMixComponent[] => rows
+  .map(row => ({ salt: row.salt, concentration: parseFloat(row.concentration), dose: parseFloat(row.dose) }))
+  .filter(component => component.concentration > 0 && component.dose >= 0 && !isNaN(component.dose));
+
+const formatScore = (score?: number) => score !== undefined ? score.toFixed(1) : '—';
+
+export default function WaterProfileList() {
+  const { showSuccess, showError } = useToast();
+  const [profiles, setProfiles] = useState<WaterProfile[]>([]);
+  const [stats, setStats] = useState<WaterProfileStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState<WaterInputMode>('mix');
+  const [name, setName] = useState('');
+  const [minerals, setMinerals] = useState<Partial<Record<keyof WaterMineralComposition, string>>>({});
+  const [mixRows, setMixRows] = useState<MixRow[]>([{ ...emptyMixRow }]);
+
+  const loadProfiles = async () => {
+    setLoading(true);
+    const [profileResponse, statsResponse] = await Promise.all([
+      waterProfileService.getWaterProfiles(),
+      waterProfileService.getWaterProfileStats()
+    ]);
+    if (profileResponse.success && profileResponse.data) {
+      setProfiles(profileResponse.data);
+    } else {
+      showError('Failed to Load Water Profiles', profileResponse.error || 'An unexpected error occurred.');
+    }
+    if (statsResponse.success && statsResponse.data) {
+      setStats(statsResponse.data);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const mix = parseMix(mixRows);
+  const mixPreview = mix.length > 0 ? calculateWaterMix(mix) : null;
+
+  const updateMixRow = (index: number, field: keyof MixRow, value: string) => {
+    setMixRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const resetForm = () => {
+    setName('');
+    setMinerals({});
+    setMixRows([{ ...emptyMixRow }]);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const input: WaterProfileInput = { name: name.trim() };
+    if (mode === 'mix') {
+      if (mix.length === 0) {
+        showError('Incomplete Mix', 'Enter a concentration and dose for at least one concentrate.');
+        return;
+      }
+      input.mix = mix;
+    } else {
+      const composition: WaterMineralComposition = {};
+      mineralFields.forEach(({ key }) => {
+        const value = parseFloat(minerals[key] ?? '');
+        if (!isNaN(value)) composition[key] = value;
+      });
+      input.composition = composition;
+    }
+
+    setSaving(true);
+    const response = await waterProfileService.createWaterProfile(input);
+    setSaving(false);
+
+    if (response.success && response.data) {
+      showSuccess('Water Profile Saved', `${response.data.name} is ready to use in recipes`);
+      resetForm();
+      await loadProfiles();
+    } else {
+      showError('Failed to Save Water Profile', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  const handleDelete = async (profile: WaterProfile) => {
+    if (!window.confirm(`Delete "${profile.name}"? Recipes brewed with it lose the link to this water.`)) {
+      return;
+    }
+
+    const response = await waterProfileService.deleteWaterProfile(profile.waterProfileId);
+    if (response.success) {
+      showSuccess('Water Profile Deleted', profile.name);
+      await loadProfiles();
+    } else {
+      showError('Failed to Delete Water Profile', response.error || 'An unexpected error occurred.');
+    }
+  };
+
+  // Best scoring water for each origin, across every profile
+  const bestByOrigin = new Map<string, { name: string; averageScore: number; recipeCount: number }>();
+  stats.forEach(profileStats => {
+    profileStats.byOrigin.forEach(entry => {
+      if (entry.averageScore === undefined) return;
+      const best = bestByOrigin.get(entry.origin);
+      if (!best || entry.averageScore > best.averageScore) {
+        bestByOrigin.set(entry.origin, { name: profileStats.name, averageScore: entry.averageScore, recipeCount: entry.recipeCount });
+      }
+    });
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Brew Water</h2>
+        <p className="text-gray-600">Save the water you brew with, from a mineral report or your own concentrates</p>
+      </div>
+
+      {/* Add form */}
+      <form onSubmit={handleAdd} className="bg-white p-4 rounded-lg border border-gray-200 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="waterProfileName" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="waterProfileName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Rao/Perger, Tap (office)"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Minerals from</span>
+            <div className="flex space-x-4 py-2">
+              {([['mix', 'Concentrate mix'], ['measured', 'Water report']] as const).map(([value, label]) => (
+                <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="waterInputMode"
+                    checked={mode === value}
+                    onChange={() => setMode(value)}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {mode === 'measured' ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {mineralFields.map(({ key, label }) => (
+              <div key={key}>
+                <label htmlFor={`mineral-${key}`} className="block text-sm font-medium text-gray-700 mb-1">{label} (ppm)</label>
+                <input
+                  id={`mineral-${key}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={minerals[key] ?? ''}
+                  onChange={(e) => setMinerals(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {mixRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label htmlFor={`mix-salt-${index}`} className="block text-sm font-medium text-gray-700 mb-1">Concentrate</label>
+                  <select
+                    id={`mix-salt-${index}`}
+                    value={row.salt}
+                    onChange={(e) => updateMixRow(index, 'salt', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {saltOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor={`mix-concentration-${index}`} className="block text-sm font-medium text-gray-700 mb-1">Strength (g/L)</label>
+                  <input
+                    id={`mix-concentration-${index}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={row.concentration}
+                    onChange={(e) => updateMixRow(index, 'concentration', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div className="flex items-end space-x-2">
+                  <div className="flex-1">
+                    <label htmlFor={`mix-dose-${index}`} className="block text-sm font-medium text-gray-700 mb-1">Dose (mL per L)</label>
+                    <input
+                      id={`mix-dose-${index}`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={row.dose}
+                      onChange={(e) => updateMixRow(index, 'dose', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  {mixRows.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setMixRows(prev => prev.filter((_, i) => i !== index))}
+                      className="text-xs text-red-600 hover:text-red-800 pb-3"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setMixRows(prev => [...prev, { ...emptyMixRow }])}
+              disabled={mixRows.length >= 10}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              + Add concentrate
+            </button>
+            {mixPreview && (
+              <div className="bg-blue-50 p-3 rounded-md text-sm text-blue-900">
+                <p className="font-medium">Resulting water: {formatWaterComposition(mixPreview)}</p>
+                <p className="text-xs text-blue-800 mt-1">
+                  Ca {mixPreview.calcium} · Mg {mixPreview.magnesium} · Na {mixPreview.sodium} · K {mixPreview.potassium} · HCO₃ {mixPreview.bicarbonate} ppm (dosed into distilled water)
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Water Profile'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Saved profiles with their overall score */}
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Water Profiles</h3>
+            {profiles.length === 0 ? (
+              <p className="text-sm text-gray-500">No water profiles saved yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {profiles.map(profile => {
+                  const profileStats = stats.find(entry => entry.waterProfileId === profile.waterProfileId);
+                  return (
+                    <li key={profile.waterProfileId} className="py-2 flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{profile.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatWaterComposition(profile.composition) || 'No minerals recorded'}
+                          {profileStats && profileStats.recipeCount > 0 && (
+                            <> · {profileStats.recipeCount} recipes, avg {formatScore(profileStats.averageScore)}/10</>
+                          )}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Which water scores best for each origin */}
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Best Water by Origin</h3>
+            {bestByOrigin.size === 0 ? (
+              <p className="text-sm text-gray-500">Rate recipes brewed with a saved water profile to compare</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {Array.from(bestByOrigin.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([origin, best]) => (
+                  <li key={origin} className="py-2 flex items-center justify-between text-sm">
+                    <span className="text-gray-900">{origin}</span>
+                    <span className="text-gray-600">
+                      {best.name} · {formatScore(best.averageScore)}/10
+                      <span className="text-xs text-gray-400 ml-1">({best.recipeCount} recipes)</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
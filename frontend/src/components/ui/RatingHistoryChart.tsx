@@ -7,6 +7,7 @@ interface RatingPoint {
 
 interface RatingHistoryChartProps {
   data: RatingPoint[];
+  title?: string;
   height?: number;
   showTrend?: boolean;
   interactive?: boolean;
@@ -14,6 +15,7 @@ interface RatingHistoryChartProps {
 
 export default function RatingHistoryChart({ 
   data, 
+  title = 'Rating History',
   height = 200, 
   showTrend = true, 
   interactive = true 
@@ -109,7 +111,7 @@ export default function RatingHistoryChart({
     <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-          Rating History
+          {title}
         </h3>
         <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-gray-400">
           <div className="flex items-center space-x-1">
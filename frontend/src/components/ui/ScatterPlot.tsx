@@ -0,0 +1,147 @@
+interface ScatterPoint {
+  x: number;
+  y: number;
+  label: string;
+}
+
+interface ScatterPlotProps {
+  points: ScatterPoint[];
+  xLabel: string;
+  yLabel: string;
+  formatX?: (value: number) => string;
+  regression?: { slope: number; intercept: number }; // Drawn as a dashed line across the data
+  highlight?: { low: number; high: number }; // Shaded range on the x axis
+  width?: number;
+  height?: number;
+}
+
+const formatTick = (value: number) => String(Math.round(value * 100) / 100);
+
+export default function ScatterPlot({
+  points,
+  xLabel,
+  yLabel,
+  formatX = formatTick,
+  regression,
+  highlight,
+  width = 480,
+  height = 260
+}: ScatterPlotProps) {
+  if (points.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 bg-gray-50 dark:bg-gray-900 rounded-lg">
+        <p className="text-gray-500 dark:text-gray-400">No brews with this variable yet</p>
+      </div>
+    );
+  }
+
+  const padding = 44;
+  const chartWidth = width - padding * 2;
+  const chartHeight = height - padding * 2;
+
+  // Leave a margin around the data so points do not sit on the axes
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const xMargin = (Math.max(...xs) - Math.min(...xs)) * 0.05 || 1;
+  const yMargin = (Math.max(...ys) - Math.min(...ys)) * 0.1 || 1;
+  const minX = Math.min(...xs) - xMargin;
+  const maxX = Math.max(...xs) + xMargin;
+  const minY = Math.min(...ys) - yMargin;
+  const maxY = Math.max(...ys) + yMargin;
+
+  const scaleX = (value: number) => padding + ((value - minX) / (maxX - minX)) * chartWidth;
+  const scaleY = (value: number) => padding + chartHeight - ((value - minY) / (maxY - minY)) * chartHeight;
+
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map(fraction => minX + xMargin + (maxX - minX - 2 * xMargin) * fraction);
+  const yTicks = [0, 0.5, 1].map(fraction => minY + yMargin + (maxY - minY - 2 * yMargin) * fraction);
+
+  const lineStart = Math.min(...xs);
+  const lineEnd = Math.max(...xs);
+
+  return (
+    <div className="relative overflow-x-auto">
+      <svg width={width} height={height} className="overflow-visible">
+        {/* Best range */}
+        {highlight && (
+          <rect
+            x={scaleX(Math.max(highlight.low, minX))}
+            y={padding}
+            width={Math.max(0, scaleX(Math.min(highlight.high, maxX)) - scaleX(Math.max(highlight.low, minX)))}
+            height={chartHeight}
+            className="fill-current text-green-100 dark:text-green-900"
+            opacity="0.6"
+          />
+        )}
+
+        {/* Axes */}
+        <line x1={padding} y1={padding + chartHeight} x2={padding + chartWidth} y2={padding + chartHeight} stroke="currentColor" className="text-gray-300 dark:text-gray-600" />
+        <line x1={padding} y1={padding} x2={padding} y2={padding + chartHeight} stroke="currentColor" className="text-gray-300 dark:text-gray-600" />
+
+        {xTicks.map((tick, index) => (
+          <text
+            key={`x-${index}`}
+            x={scaleX(tick)}
+            y={padding + chartHeight + 16}
+            textAnchor="middle"
+            className="text-xs fill-current text-gray-600 dark:text-gray-400"
+          >
+            {formatX(tick)}
+          </text>
+        ))}
+        {yTicks.map((tick, index) => (
+          <text
+            key={`y-${index}`}
+            x={padding - 8}
+            y={scaleY(tick) + 4}
+            textAnchor="end"
+            className="text-xs fill-current text-gray-600 dark:text-gray-400"
+          >
+            {formatTick(tick)}
+          </text>
+        ))}
+
+        <text x={padding + chartWidth / 2} y={height - 4} textAnchor="middle" className="text-xs fill-current text-gray-700 dark:text-gray-300">
+          {xLabel}
+        </text>
+        <text
+          x={12}
+          y={padding + chartHeight / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 12 ${padding + chartHeight / 2})`}
+          className="text-xs fill-current text-gray-700 dark:text-gray-300"
+        >
+          {yLabel}
+        </text>
+
+        {/* Regression line */}
+        {regression && lineEnd > lineStart && (
+          <line
+            x1={scaleX(lineStart)}
+            y1={scaleY(regression.slope * lineStart + regression.intercept)}
+            x2={scaleX(lineEnd)}
+            y2={scaleY(regression.slope * lineEnd + regression.intercept)}
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeDasharray="4,4"
+            className="text-red-400 dark:text-red-400"
+            opacity="0.7"
+          />
+        )}
+
+        {/* Brews */}
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={scaleX(point.x)}
+            cy={scaleY(point.y)}
+            r="4"
+            className="fill-blue-500 stroke-blue-600"
+            opacity="0.8"
+          >
+            <title>{`${point.label}: ${formatX(point.x)}, ${formatTick(point.y)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { LoginCredentials, RegisterInput, User } from '../shared/types/user';
+import { authService } from '../services/authService';
+import { SESSION_EXPIRED_EVENT } from '../services/api';
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean; // True while a saved session is being checked
+  login: (credentials: LoginCredentials) => Promise<string | null>; // Resolves to an error message on failure
+  register: (input: RegisterInput) => Promise<string | null>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Resume a saved session if the backend still accepts it
+  useEffect(() => {
+    if (!authService.restoreSession()) {
+      setIsLoading(false);
+      return;
+    }
+
+    authService.getCurrentUser().then(response => {
+      if (response.success && response.data) {
+        setUser(response.data);
+      } else {
+        authService.clearSession();
+      }
+      setIsLoading(false);
+    });
+  }, []);
+
+  // Any request rejected for an expired session returns to the login screen
+  useEffect(() => {
+    const handleExpired = () => {
+      authService.clearSession();
+      setUser(null);
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = async (credentials: LoginCredentials) => {
+    const response = await authService.login(credentials);
+    if (response.success && response.data) {
+      setUser(response.data.user);
+      return null;
+    }
+    return response.error || 'Failed to sign in';
+  };
+
+  const register = async (input: RegisterInput) => {
+    const response = await authService.register(input);
+    if (response.success && response.data) {
+      setUser(response.data.user);
+      return null;
+    }
+    return response.error || 'Failed to create account';
+  };
+
+  const logout = () => {
+    authService.clearSession();
+    setUser(null);
+  };
+
+  const value: AuthContextType = {
+    user,
+    isLoading,
+    login,
+    register,
+    logout,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
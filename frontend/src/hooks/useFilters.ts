@@ -1,5 +1,11 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import { RecipeSummary } from '../shared/types/recipe';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { RecipeSummary, BrewingMethod, SortOption } from '../shared/types/recipe';
+import { SearchFilters, SearchFacets, SortConfig } from '../shared/types/search';
+import { Pagination } from '../shared/types/api';
+import { recipeService } from '../services/recipeService';
+import { parseSearchQuery } from '../shared/utils/searchQuery';
+
+export type DateFilterField = 'dateCreated' | 'dateModified';
 
 export interface FilterOptions {
   // Origin filter
@@ -20,13 +26,9 @@ export interface FilterOptions {
     max: number;
   };
   
-  // Date range filters
-  dateCreatedRange: {
-    start: Date | null;
-    end: Date | null;
-  };
-  
-  dateModifiedRange: {
+  // Date range filter (applies to the selected date field)
+  dateRange: {
+    field: DateFilterField;
     start: Date | null;
     end: Date | null;
   };
@@ -37,20 +39,32 @@ export interface FilterOptions {
   // Collections filter
   collections: string[];
   
+  // Brew water filter (water profile IDs)
+  waterProfiles: string[];
+  
   // Additional filters
   hasRating: boolean; // Only show recipes with ratings
   recentlyModified: boolean; // Show recipes modified in last 7 days
 }
 
 interface UseFiltersOptions {
-  recipes: RecipeSummary[];
+  searchTerm?: string; // Search box query; free text plus key:value filter tokens
+  sort?: SortConfig;
+  pageSize?: number;
+  refreshTrigger?: number; // Used to trigger refresh from parent
+  debounceMs?: number; // Debounce applied to the search term
   persistFilters?: boolean; // Save filters to localStorage
   storageKey?: string;
 }
 
 export interface UseFiltersReturn {
   filterOptions: FilterOptions;
-  filteredRecipes: RecipeSummary[];
+  searchFilters: SearchFilters; // Filters as sent to the server
+  recipes: RecipeSummary[]; // Current page of matching recipes
+  pagination: Pagination | null;
+  facets: SearchFacets | null; // Live option counts for the current filter set
+  isLoading: boolean;
+  error: string | null;
   activeFiltersCount: number;
   availableOptions: {
     origins: string[];
@@ -65,17 +79,22 @@ export interface UseFiltersReturn {
   setBrewingMethods: (methods: string[]) => void;
   setRatingRange: (range: { min: number; max: number }) => void;
   setRatioRange: (range: { min: number; max: number }) => void;
-  setDateCreatedRange: (range: { start: Date | null; end: Date | null }) => void;
-  setDateModifiedRange: (range: { start: Date | null; end: Date | null }) => void;
+  setDateRange: (range: { field: DateFilterField; start: Date | null; end: Date | null }) => void;
   setFavoritesOnly: (enabled: boolean) => void;
   setCollections: (collections: string[]) => void;
+  setWaterProfiles: (waterProfileIds: string[]) => void;
   setHasRating: (enabled: boolean) => void;
   setRecentlyModified: (enabled: boolean) => void;
   
+  // Paging and loading
+  setPage: (page: number) => void;
+  reload: () => Promise<void>;
+  
   // Utility functions
   clearAllFilters: () => void;
   resetFilters: () => void;
   applyFilterPreset: (preset: Partial<FilterOptions>) => void;
+  applySearchFilters: (searchFilters: SearchFilters) => void;
   getFilterSummary: () => string;
 }
 
@@ -84,41 +103,145 @@ const DEFAULT_FILTERS: FilterOptions = {
   brewingMethods: [],
   ratingRange: { min: 1, max: 10 },
   ratioRange: { min: 1, max: 30 },
-  dateCreatedRange: { start: null, end: null },
-  dateModifiedRange: { start: null, end: null },
+  dateRange: { field: 'dateCreated', start: null, end: null },
   favoritesOnly: false,
   collections: [],
+  waterProfiles: [],
   hasRating: false,
   recentlyModified: false,
 };
 
+const DEFAULT_SORT: SortConfig = { field: SortOption.DATE_MODIFIED, direction: 'desc' };
+
+// Restore persisted filters, migrating the older separate created/modified date ranges
+function loadSavedFilters(storageKey: string): FilterOptions | null {
+  const saved = localStorage.getItem(storageKey);
+  if (!saved) return null;
+
+  const parsed = JSON.parse(saved);
+  let dateRange = parsed.dateRange;
+
+  if (!dateRange && (parsed.dateCreatedRange || parsed.dateModifiedRange)) {
+    const useModified = !parsed.dateCreatedRange?.start && !parsed.dateCreatedRange?.end;
+    const legacyRange = useModified ? parsed.dateModifiedRange : parsed.dateCreatedRange;
+    dateRange = {
+      field: useModified ? 'dateModified' : 'dateCreated',
+      start: legacyRange?.start ?? null,
+      end: legacyRange?.end ?? null
+    };
+  }
+  delete parsed.dateCreatedRange;
+  delete parsed.dateModifiedRange;
+
+  // Convert date strings back to Date objects
+  return {
+    ...DEFAULT_FILTERS,
+    ...parsed,
+    dateRange: {
+      field: dateRange?.field ?? 'dateCreated',
+      start: dateRange?.start ? new Date(dateRange.start) : null,
+      end: dateRange?.end ? new Date(dateRange.end) : null
+    }
+  };
+}
+
+// Translate UI filter state into the shared SearchFilters shape understood by the API.
+// Filter tokens typed in the search box (origin:ethiopia score>=85) override the panel for the same field.
+export function buildSearchFilters(filterOptions: FilterOptions, searchTerm: string = ''): SearchFilters {
+  const searchFilters: SearchFilters = {};
+
+  if (filterOptions.origins.length > 0) {
+    searchFilters.origins = filterOptions.origins;
+  }
+  if (filterOptions.brewingMethods.length > 0) {
+    searchFilters.brewingMethods = filterOptions.brewingMethods as BrewingMethod[];
+  }
+  if (filterOptions.collections.length > 0) {
+    searchFilters.collections = filterOptions.collections;
+  }
+  if (filterOptions.waterProfiles.length > 0) {
+    searchFilters.waterProfileIds = filterOptions.waterProfiles;
+  }
+  if (filterOptions.ratingRange.min > 1 || filterOptions.ratingRange.max < 10) {
+    searchFilters.overallImpressionRange = [filterOptions.ratingRange.min, filterOptions.ratingRange.max];
+  }
+  if (filterOptions.ratioRange.min > 1 || filterOptions.ratioRange.max < 30) {
+    searchFilters.coffeeWaterRatioRange = [filterOptions.ratioRange.min, filterOptions.ratioRange.max];
+  }
+
+  const { field, start, end } = filterOptions.dateRange;
+  if (start || end) {
+    searchFilters.dateRange = {
+      field,
+      start: (start ?? new Date(0)).toISOString(),
+      // Include the whole end day
+      end: end ? new Date(end.getTime() + 24 * 60 * 60 * 1000 - 1).toISOString() : new Date().toISOString()
+    };
+  } else if (filterOptions.recentlyModified) {
+    const sevenDaysAgo = new Date();
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    searchFilters.dateRange = {
+      field: 'dateModified',
+      start: sevenDaysAgo.toISOString(),
+      end: new Date().toISOString()
+    };
+  }
+
+  if (filterOptions.favoritesOnly) {
+    searchFilters.favoritesOnly = true;
+  }
+  if (filterOptions.hasRating) {
+    searchFilters.hasRating = true;
+  }
+
+  return { ...searchFilters, ...parseSearchQuery(searchTerm).filters };
+}
+
+// Translate stored SearchFilters (e.g. a saved view) back into UI filter state
+export function searchFiltersToFilterOptions(searchFilters: SearchFilters): FilterOptions {
+  const dateRange = searchFilters.dateRange;
+
+  return {
+    ...DEFAULT_FILTERS,
+    origins: searchFilters.origins ?? [],
+    brewingMethods: searchFilters.brewingMethods?.map(String) ?? [],
+    collections: searchFilters.collections ?? [],
+    waterProfiles: searchFilters.waterProfileIds ?? [],
+    ratingRange: searchFilters.overallImpressionRange
+      ? { min: searchFilters.overallImpressionRange[0], max: searchFilters.overallImpressionRange[1] }
+      : DEFAULT_FILTERS.ratingRange,
+    ratioRange: searchFilters.coffeeWaterRatioRange
+      ? { min: searchFilters.coffeeWaterRatioRange[0], max: searchFilters.coffeeWaterRatioRange[1] }
+      : DEFAULT_FILTERS.ratioRange,
+    dateRange: dateRange
+      ? {
+          field: dateRange.field === 'dateModified' ? 'dateModified' : 'dateCreated',
+          start: dateRange.start ? new Date(dateRange.start) : null,
+          end: dateRange.end ? new Date(dateRange.end) : null
+        }
+      : DEFAULT_FILTERS.dateRange,
+    favoritesOnly: !!searchFilters.favoritesOnly,
+    hasRating: !!searchFilters.hasRating
+  };
+}
+
 export function useFilters({
-  recipes,
+  searchTerm = '',
+  sort = DEFAULT_SORT,
+  pageSize = 24,
+  refreshTrigger,
+  debounceMs = 300,
   persistFilters = true,
   storageKey = 'coffeeTracker_filters'
-}: UseFiltersOptions): UseFiltersReturn {
+}: UseFiltersOptions = {}): UseFiltersReturn {
   
   // Initialize filters from localStorage or defaults
   const [filterOptions, setFilterOptions] = useState<FilterOptions>(() => {
     if (persistFilters) {
       try {
-        const saved = localStorage.getItem(storageKey);
+        const saved = loadSavedFilters(storageKey);
         if (saved) {
-          const parsed = JSON.parse(saved);
-          // Convert date strings back to Date objects
-          if (parsed.dateCreatedRange.start) {
-            parsed.dateCreatedRange.start = new Date(parsed.dateCreatedRange.start);
-          }
-          if (parsed.dateCreatedRange.end) {
-            parsed.dateCreatedRange.end = new Date(parsed.dateCreatedRange.end);
-          }
-          if (parsed.dateModifiedRange.start) {
-            parsed.dateModifiedRange.start = new Date(parsed.dateModifiedRange.start);
-          }
-          if (parsed.dateModifiedRange.end) {
-            parsed.dateModifiedRange.end = new Date(parsed.dateModifiedRange.end);
-          }
-          return { ...DEFAULT_FILTERS, ...parsed };
+          return saved;
         }
       } catch (error) {
         console.error('Failed to load saved filters:', error);
@@ -127,6 +250,89 @@ export function useFilters({
     return DEFAULT_FILTERS;
   });
 
+  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchTerm);
+  const latestRequestRef = useRef(0);
+
+  // Debounce the search term so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm), debounceMs);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, debounceMs]);
+
+  const searchFilters = useMemo(
+    () => buildSearchFilters(filterOptions, debouncedSearchTerm),
+    [filterOptions, debouncedSearchTerm]
+  );
+
+  // Page number is tied to the query it was chosen for, so any filter/sort change returns to page 1
+  const queryKey = JSON.stringify({ searchFilters, sort, pageSize });
+  const [pageState, setPageState] = useState({ queryKey, page: 1 });
+  const page = pageState.queryKey === queryKey ? pageState.page : 1;
+
+  const setPage = useCallback((newPage: number) => {
+    setPageState({ queryKey, page: Math.max(1, newPage) });
+  }, [queryKey]);
+
+  const reload = useCallback(async () => {
+    const requestId = ++latestRequestRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await recipeService.getAllRecipes(
+        { filters: searchFilters, sort, pagination: { page, limit: pageSize } },
+        { timeout: 10000, retries: 1 }
+      );
+
+      // Ignore responses for superseded queries
+      if (requestId !== latestRequestRef.current) return;
+
+      if (response.success && response.data) {
+        setRecipes(response.data);
+        setPagination(response.pagination ?? null);
+      } else {
+        setError(response.error || 'Failed to load recipes');
+      }
+    } catch (error) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Error loading recipes:', error);
+      setError('An unexpected error occurred while loading recipes');
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [queryKey, page]);
+
+  // Load recipes whenever the query, page or refresh trigger changes
+  useEffect(() => {
+    reload();
+  }, [reload, refreshTrigger]);
+
+  // Refresh facet counts when the filter set changes (paging and sorting don't affect them)
+  const facetsKey = JSON.stringify(searchFilters);
+  useEffect(() => {
+    let cancelled = false;
+
+    recipeService.getFacets(searchFilters).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setFacets(response.data);
+      } else {
+        console.error('Failed to load filter facets:', response.error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [facetsKey, refreshTrigger]);
+
   // Save filters to localStorage when they change
   useEffect(() => {
     if (persistFilters) {
@@ -138,115 +344,24 @@ export function useFilters({
     }
   }, [filterOptions, persistFilters, storageKey]);
 
-  // Calculate available filter options from recipes
+  // Available filter options come from the server facets, keeping current selections visible
   const availableOptions = useMemo(() => {
-    const origins = [...new Set(recipes.map(r => r.origin).filter(Boolean))].sort();
-    const brewingMethods = [...new Set(recipes.map(r => r.brewingMethod).filter(Boolean))].map(String).sort();
-    const collections = [...new Set(recipes.flatMap(r => r.collections || []))].sort();
-    
-    const ratings = recipes.map(r => r.overallImpression || 0).filter(r => r > 0);
-    const ratios = recipes.map(r => r.coffeeWaterRatio || 0).filter(r => r > 0);
-    
-    const ratingRange = ratings.length > 0 
-      ? { min: Math.min(...ratings), max: Math.max(...ratings) }
-      : { min: 1, max: 10 };
-    
-    const ratioRange = ratios.length > 0
-      ? { min: Math.floor(Math.min(...ratios)), max: Math.ceil(Math.max(...ratios)) }
-      : { min: 1, max: 30 };
+    const withSelected = (values: string[], selected: string[]) =>
+      [...new Set([...values, ...selected])].sort();
 
     return {
-      origins,
-      brewingMethods,
-      collections,
-      ratingRange,
-      ratioRange
+      origins: withSelected(facets?.origins.map(f => f.value) ?? [], filterOptions.origins),
+      brewingMethods: withSelected(facets?.brewingMethods.map(f => String(f.value)) ?? [], filterOptions.brewingMethods),
+      collections: withSelected(facets?.collections.map(f => f.value) ?? [], filterOptions.collections),
+      ratingRange: facets
+        ? {
+            min: Math.min(facets.overallImpressionRange.min, filterOptions.ratingRange.min),
+            max: Math.max(facets.overallImpressionRange.max, filterOptions.ratingRange.max)
+          }
+        : { min: 1, max: 10 },
+      ratioRange: { min: 1, max: 30 }
     };
-  }, [recipes]);
-
-  // Apply filters to recipes
-  const filteredRecipes = useMemo(() => {
-    let filtered = [...recipes];
-
-    // Origin filter
-    if (filterOptions.origins.length > 0) {
-      filtered = filtered.filter(recipe => 
-        filterOptions.origins.includes(recipe.origin)
-      );
-    }
-
-    // Brewing method filter
-    if (filterOptions.brewingMethods.length > 0) {
-      filtered = filtered.filter(recipe => 
-        recipe.brewingMethod && filterOptions.brewingMethods.includes(recipe.brewingMethod)
-      );
-    }
-
-    // Rating range filter
-    filtered = filtered.filter(recipe => {
-      const rating = recipe.overallImpression || 0;
-      if (filterOptions.hasRating && rating === 0) return false;
-      return rating >= filterOptions.ratingRange.min && rating <= filterOptions.ratingRange.max;
-    });
-
-    // Ratio range filter
-    filtered = filtered.filter(recipe => {
-      const ratio = recipe.coffeeWaterRatio || 0;
-      return ratio >= filterOptions.ratioRange.min && ratio <= filterOptions.ratioRange.max;
-    });
-
-    // Date created range filter
-    if (filterOptions.dateCreatedRange.start || filterOptions.dateCreatedRange.end) {
-      filtered = filtered.filter(recipe => {
-        const createdDate = new Date(recipe.dateCreated);
-        const start = filterOptions.dateCreatedRange.start;
-        const end = filterOptions.dateCreatedRange.end;
-        
-        if (start && createdDate < start) return false;
-        if (end && createdDate > end) return false;
-        return true;
-      });
-    }
-
-    // Date modified range filter
-    if (filterOptions.dateModifiedRange.start || filterOptions.dateModifiedRange.end) {
-      filtered = filtered.filter(recipe => {
-        const modifiedDate = new Date(recipe.dateModified);
-        const start = filterOptions.dateModifiedRange.start;
-        const end = filterOptions.dateModifiedRange.end;
-        
-        if (start && modifiedDate < start) return false;
-        if (end && modifiedDate > end) return false;
-        return true;
-      });
-    }
-
-    // Favorites only filter
-    if (filterOptions.favoritesOnly) {
-      filtered = filtered.filter(recipe => recipe.isFavorite);
-    }
-
-    // Collections filter
-    if (filterOptions.collections.length > 0) {
-      filtered = filtered.filter(recipe => 
-        recipe.collections?.some(collection => 
-          filterOptions.collections.includes(collection)
-        )
-      );
-    }
-
-    // Recently modified filter (last 7 days)
-    if (filterOptions.recentlyModified) {
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      filtered = filtered.filter(recipe => 
-        new Date(recipe.dateModified) >= sevenDaysAgo
-      );
-    }
-
-    return filtered;
-  }, [recipes, filterOptions]);
+  }, [facets, filterOptions.origins, filterOptions.brewingMethods, filterOptions.collections, filterOptions.ratingRange]);
 
   // Count active filters
   const activeFiltersCount = useMemo(() => {
@@ -256,10 +371,10 @@ export function useFilters({
     if (filterOptions.brewingMethods.length > 0) count++;
     if (filterOptions.ratingRange.min > 1 || filterOptions.ratingRange.max < 10) count++;
     if (filterOptions.ratioRange.min > 1 || filterOptions.ratioRange.max < 30) count++;
-    if (filterOptions.dateCreatedRange.start || filterOptions.dateCreatedRange.end) count++;
-    if (filterOptions.dateModifiedRange.start || filterOptions.dateModifiedRange.end) count++;
+    if (filterOptions.dateRange.start || filterOptions.dateRange.end) count++;
     if (filterOptions.favoritesOnly) count++;
     if (filterOptions.collections.length > 0) count++;
+    if (filterOptions.waterProfiles.length > 0) count++;
     if (filterOptions.hasRating) count++;
     if (filterOptions.recentlyModified) count++;
     
@@ -283,12 +398,8 @@ export function useFilters({
     setFilterOptions(prev => ({ ...prev, ratioRange }));
   }, []);
 
-  const setDateCreatedRange = useCallback((dateCreatedRange: { start: Date | null; end: Date | null }) => {
-    setFilterOptions(prev => ({ ...prev, dateCreatedRange }));
-  }, []);
-
-  const setDateModifiedRange = useCallback((dateModifiedRange: { start: Date | null; end: Date | null }) => {
-    setFilterOptions(prev => ({ ...prev, dateModifiedRange }));
+  const setDateRange = useCallback((dateRange: { field: DateFilterField; start: Date | null; end: Date | null }) => {
+    setFilterOptions(prev => ({ ...prev, dateRange }));
   }, []);
 
   const setFavoritesOnly = useCallback((favoritesOnly: boolean) => {
@@ -299,6 +410,10 @@ export function useFilters({
     setFilterOptions(prev => ({ ...prev, collections }));
   }, []);
 
+  const setWaterProfiles = useCallback((waterProfiles: string[]) => {
+    setFilterOptions(prev => ({ ...prev, waterProfiles }));
+  }, []);
+
   const setHasRating = useCallback((hasRating: boolean) => {
     setFilterOptions(prev => ({ ...prev, hasRating }));
   }, []);
@@ -320,6 +435,10 @@ export function useFilters({
     setFilterOptions(prev => ({ ...prev, ...preset }));
   }, []);
 
+  const applySearchFilters = useCallback((searchFilters: SearchFilters) => {
+    setFilterOptions(searchFiltersToFilterOptions(searchFilters));
+  }, []);
+
   const getFilterSummary = useCallback(() => {
     const summaryParts: string[] = [];
     
@@ -332,6 +451,15 @@ export function useFilters({
     if (filterOptions.ratingRange.min > 1 || filterOptions.ratingRange.max < 10) {
       summaryParts.push(`Rating: ${filterOptions.ratingRange.min}-${filterOptions.ratingRange.max}`);
     }
+    if (filterOptions.dateRange.start || filterOptions.dateRange.end) {
+      const label = filterOptions.dateRange.field === 'dateModified' ? 'Modified' : 'Created';
+      const from = filterOptions.dateRange.start?.toLocaleDateString() ?? '…';
+      const to = filterOptions.dateRange.end?.toLocaleDateString() ?? 'now';
+      summaryParts.push(`${label}: ${from} – ${to}`);
+    }
+    if (filterOptions.waterProfiles.length > 0) {
+      summaryParts.push(`Water profiles: ${filterOptions.waterProfiles.length}`);
+    }
     if (filterOptions.favoritesOnly) {
       summaryParts.push('Favorites only');
     }
@@ -344,7 +472,12 @@ export function useFilters({
 
   return {
     filterOptions,
-    filteredRecipes,
+    searchFilters,
+    recipes,
+    pagination,
+    facets,
+    isLoading,
+    error,
     activeFiltersCount,
     availableOptions,
     
@@ -353,17 +486,22 @@ export function useFilters({
     setBrewingMethods,
     setRatingRange,
     setRatioRange,
-    setDateCreatedRange,
-    setDateModifiedRange,
+    setDateRange,
     setFavoritesOnly,
     setCollections,
+    setWaterProfiles,
     setHasRating,
     setRecentlyModified,
     
+    // Paging and loading
+    setPage,
+    reload,
+    
     // Utilities
     clearAllFilters,
     resetFilters,
     applyFilterPreset,
+    applySearchFilters,
     getFilterSummary
   };
 }
@@ -379,10 +517,18 @@ export const FILTER_PRESETS: Record<string, Partial<FilterOptions>> = {
   recentlyAdded: {
     recentlyModified: true
   },
-  espresso: {
-    brewingMethods: ['espresso']
-  },
   pourOver: {
-    brewingMethods: ['pour_over', 'v60', 'chemex']
+    brewingMethods: ['pour-over']
+  },
+  immersion: {
+    brewingMethods: ['french-press', 'aeropress']
   }
-};
\ No newline at end of file
+};
+// Display names for the built-in presets
+export const FILTER_PRESET_LABELS: Record<string, string> = {
+  favorites: 'Favorites',
+  highRated: 'Highly rated (8+)',
+  recentlyAdded: 'Recently modified',
+  pourOver: 'Pour-over',
+  immersion: 'Immersion brews'
+};
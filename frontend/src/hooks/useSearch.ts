@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { RecipeSummary } from '../shared/types/recipe';
+import { TextSearchResult } from '../shared/types/search';
 import { recipeService } from '../services/recipeService';
 
 interface UseSearchOptions {
@@ -32,7 +33,7 @@ const DEFAULT_SEARCH_FIELDS: SearchField[] = [
   { path: 'recipeName', weight: 10 },
   { path: 'origin', weight: 8 },
   { path: 'brewingMethod', weight: 6 },
-  // Note: tasting notes would need to be added to RecipeSummary type for full text search
+  // Tasting notes and descriptors are not on RecipeSummary; the server search covers them
 ];
 
 export function useSearch({
@@ -95,10 +96,10 @@ export function useSearch({
         let results: RecipeSummary[];
         
         if (useServerSearch) {
-          // Use server-side search API
-          const response = await recipeService.searchRecipes(debouncedQuery, { timeout: 10000 });
+          // Use server-side full-text search (covers notes, descriptors and pour steps)
+          const response = await recipeService.textSearch(debouncedQuery, { timeout: 10000, limit: 50 });
           if (response.success && response.data) {
-            results = response.data;
+            results = response.data.map(hit => hit.recipe);
           } else {
             // Fallback to client-side search if server search fails
             console.warn('Server search failed, falling back to client-side:', response.error);
@@ -146,10 +147,7 @@ export function useSearch({
   }, []);
 
   const highlightText = useCallback((text: string, query: string): string => {
-    if (!query || !text) return text;
-    
-    const regex = new RegExp(`(${escapeRegExp(query)})`, caseSensitive ? 'g' : 'gi');
-    return text.replace(regex, '<mark class="bg-yellow-200 px-0.5 rounded">$1</mark>');
+    return highlightMatches(text, query, caseSensitive);
   }, [caseSensitive]);
 
   return {
@@ -165,6 +163,14 @@ export function useSearch({
   };
 }
 
+// Wrap occurrences of the query in <mark> tags for display
+export function highlightMatches(text: string, query: string, caseSensitive: boolean = false): string {
+  if (!query || !text) return text;
+  
+  const regex = new RegExp(`(${escapeRegExp(query)})`, caseSensitive ? 'g' : 'gi');
+  return text.replace(regex, '<mark class="bg-yellow-200 px-0.5 rounded">$1</mark>');
+}
+
 // Client-side search implementation
 function performClientSideSearch(
   recipes: RecipeSummary[], 
@@ -221,6 +227,39 @@ function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+// Ranked full-text matches with highlighted snippets, for the search bar dropdown
+export function useTextSearch(query: string, { debounceMs = 300, minSearchLength = 2, limit = 8 } = {}) {
+  const [results, setResults] = useState<TextSearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < minSearchLength) {
+      setResults([]);
+      setIsLoading(false);
+      return;
+    }
+
+    // Ignore responses that arrive after the query has changed
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      const response = await recipeService.textSearch(trimmed, { limit });
+      if (!cancelled) {
+        setResults(response.success && response.data ? response.data : []);
+        setIsLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, debounceMs, minSearchLength, limit]);
+
+  return { results, isLoading };
+}
+
 // Hook for managing search history
 export function useSearchHistory(maxItems: number = 10) {
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
@@ -0,0 +1,27 @@
+import { ScoreAnalytics } from '../shared/types/analytics';
+import { apiClient, ApiResponse } from './api';
+
+export interface AnalyticsServiceOptions {
+  timeout?: number;
+}
+
+export class AnalyticsService {
+  private readonly baseEndpoint = '/api/analytics';
+
+  // Get correlations, regressions and best-range insights of brewing variables against scores
+  async getScoreAnalytics(options: AnalyticsServiceOptions = {}): Promise<ApiResponse<ScoreAnalytics>> {
+    const { timeout = 20000 } = options;
+
+    try {
+      return await apiClient.get<ScoreAnalytics>(`${this.baseEndpoint}/scores`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load score analysis. Please check your connection and try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const analyticsService = new AnalyticsService();
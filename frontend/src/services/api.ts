@@ -1,4 +1,5 @@
 // Base API configuration and utilities
+import type { Pagination } from '../shared/types/api';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -12,21 +13,34 @@ export interface ApiResponse<T = any> {
   message?: string;
 }
 
+export interface PaginatedApiResponse<T = any> extends ApiResponse<T[]> {
+  pagination?: Pagination;
+}
+
 export interface ApiError {
   message: string;
   status: number;
   details?: any;
 }
 
+// Fired on window when the backend rejects the session token (signed out or expired)
+export const SESSION_EXPIRED_EVENT = 'coffeeTracker:sessionExpired';
+
 // API Client class for centralized request handling
 export class ApiClient {
   private baseURL: string;
   private defaultTimeout: number = 10000; // 10 seconds
+  private authToken: string | null = null;
 
   constructor(baseURL = API_BASE_URL) {
     this.baseURL = baseURL;
   }
 
+  // Session token sent with every request (set by the auth service)
+  setAuthToken(token: string | null): void {
+    this.authToken = token;
+  }
+
   // Generic request method with error handling and retry logic
   private async request<T = any>(
     endpoint: string,
@@ -47,6 +61,7 @@ export class ApiClient {
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
+          ...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
           ...fetchOptions.headers,
         },
       });
@@ -62,6 +77,11 @@ export class ApiClient {
         data = await response.text();
       }
 
+      // A rejected session signs the user out (sign-in requests themselves answer 401 for bad credentials)
+      if (response.status === 401 && this.authToken && !endpoint.startsWith('/api/auth/')) {
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      }
+
       // Handle non-2xx responses
       if (!response.ok) {
         const error: ApiError = {
@@ -140,6 +160,14 @@ export class ApiClient {
     });
   }
 
+  async patch<T = any>(endpoint: string, body?: any, options?: RequestInit & { timeout?: number }): Promise<ApiResponse<T>> {
+    return this.request<T>(endpoint, {
+      ...options,
+      method: 'PATCH',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
   async delete<T = any>(endpoint: string, options?: RequestInit & { timeout?: number }): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
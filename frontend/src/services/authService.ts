@@ -0,0 +1,79 @@
+import { AuthSession, LoginCredentials, RegisterInput, User } from '../shared/types/user';
+import { apiClient, ApiResponse } from './api';
+
+const SESSION_KEY = 'coffeeTracker_session';
+
+export class AuthService {
+  private readonly baseEndpoint = '/api/auth';
+
+  // Sign in with username and password
+  async login(credentials: LoginCredentials): Promise<ApiResponse<AuthSession>> {
+    try {
+      const response = await apiClient.post<AuthSession>(`${this.baseEndpoint}/login`, credentials);
+      if (response.success && response.data) this.saveSession(response.data);
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to sign in. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Create an account and sign in
+  async register(input: RegisterInput): Promise<ApiResponse<AuthSession>> {
+    try {
+      const response = await apiClient.post<AuthSession>(`${this.baseEndpoint}/register`, input);
+      if (response.success && response.data) this.saveSession(response.data);
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to create account. Please try again.',
+      };
+    }
+  }
+
+  // Check the stored session with the backend and get its user
+  async getCurrentUser(): Promise<ApiResponse<User>> {
+    try {
+      return await apiClient.get<User>(`${this.baseEndpoint}/me`);
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load your account.',
+      };
+    }
+  }
+
+  // Load the session saved by an earlier sign-in, unless it has expired
+  restoreSession(): AuthSession | null {
+    try {
+      const saved = localStorage.getItem(SESSION_KEY);
+      const session = saved ? (JSON.parse(saved) as AuthSession) : null;
+      if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+        this.clearSession();
+        return null;
+      }
+      apiClient.setAuthToken(session.token);
+      return session;
+    } catch (error) {
+      this.clearSession();
+      return null;
+    }
+  }
+
+  // Forget the session (tokens are stateless, so signing out is local)
+  clearSession(): void {
+    localStorage.removeItem(SESSION_KEY);
+    apiClient.setAuthToken(null);
+  }
+
+  private saveSession(session: AuthSession): void {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    apiClient.setAuthToken(session.token);
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
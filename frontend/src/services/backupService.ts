@@ -1,40 +1,35 @@
-import { Recipe, RecipeSummary } from '../shared/types/recipe';
-import { Collection } from '../shared/types/collection';
-import { recipeService } from './recipeService';
-import { collectionService } from './collectionService';
-
-export interface BackupData {
-  version: string;
-  timestamp: string;
-  metadata: {
-    totalRecipes: number;
-    totalCollections: number;
-    appVersion: string;
-    exportedBy: string;
-  };
-  recipes: Recipe[];
-  collections: Collection[];
-  userPreferences: {
-    theme: string;
-    favoriteOrigins: string[];
-    recentSearches: string[];
-    dismissedSuggestions: string[];
-  };
-  statistics: {
-    totalExports: number;
-    totalClones: number;
-    averageRating: number;
-    mostUsedOrigin: string;
-    mostUsedMethod: string;
-  };
-}
-
-export interface RestoreOptions {
-  includeRecipes: boolean;
-  includeCollections: boolean;
+import {
+  BackupData,
+  BackupRestoreOptions,
+  BackupUserPreferences,
+  LegacyBackupData,
+  RestoreItemType,
+  RestoreReport
+} from '../shared/types/backup';
+import { isSupportedBackupVersion } from '../shared/utils/backup';
+import { apiClient, ApiResponse } from './api';
+
+export type { BackupData };
+
+const RESTORE_ITEM_LABELS: Record<RestoreItemType, string> = {
+  recipe: 'Recipe',
+  collection: 'Collection',
+  bean: 'Bean',
+  equipment: 'Equipment',
+  waterProfile: 'Water profile',
+  savedSearch: 'Saved search',
+  brewSession: 'Brew session',
+  revision: 'Revision',
+  experiment: 'Experiment'
+};
+
+// A backup file of any supported version; the server migrates older ones on restore
+export type BackupFile = BackupData | LegacyBackupData;
+
+// Server-side restore options plus the parts the browser handles itself
+export interface RestoreOptions extends BackupRestoreOptions {
   includeUserPreferences: boolean;
-  overwriteExisting: boolean;
-  createBackupBeforeRestore: boolean;
+  createBackupBeforeRestore: boolean; // Download a backup of the current data first
 }
 
 export interface RestoreResult {
@@ -48,78 +43,37 @@ export interface RestoreResult {
     errors: number;
   };
   errors?: string[];
+  report?: RestoreReport;
 }
 
 class BackupService {
-  private readonly BACKUP_VERSION = '1.0';
   private readonly BACKUP_HISTORY_KEY = 'coffeeTracker_backupHistory';
   private readonly MAX_BACKUP_HISTORY = 10;
+  private readonly RESTORE_TIMEOUT = 300000;
 
-  // Create a complete backup of all user data
+  // Download a complete backup of the account from the server, plus the preferences kept in this browser
   async createBackup(): Promise<{ success: boolean; data?: BackupData; error?: string }> {
     try {
-      // Fetch all recipes
-      const recipesResponse = await recipeService.getAllRecipes();
-      if (!recipesResponse.success) {
-        throw new Error(recipesResponse.error || 'Failed to fetch recipes');
-      }
-
-      // Fetch detailed recipe data
-      const recipes: Recipe[] = [];
-      const recipePromises = (recipesResponse.data || []).map(summary => 
-        recipeService.getRecipe(summary.recipeId)
-      );
-      
-      const detailedResponses = await Promise.all(recipePromises);
-      for (const response of detailedResponses) {
-        if (response.success && response.data) {
-          recipes.push(response.data);
-        }
-      }
-
-      // Fetch all collections
-      let collections: Collection[] = [];
-      try {
-        const collectionsResponse = await collectionService.getAllCollections();
-        if (collectionsResponse.success && collectionsResponse.data) {
-          collections = collectionsResponse.data;
-        }
-      } catch (error) {
-        console.warn('Could not fetch collections:', error);
+      const response = await apiClient.get<BackupData>('/api/backup', { timeout: this.RESTORE_TIMEOUT });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to create backup');
       }
 
-      // Gather user preferences from localStorage
-      const userPreferences = {
-        theme: localStorage.getItem('coffeeTracker_theme') || 'light',
-        favoriteOrigins: this.getLocalStorageArray('coffeeTracker_favoriteOrigins'),
-        recentSearches: this.getLocalStorageArray('coffeeTracker_recentSearches'),
-        dismissedSuggestions: this.getLocalStorageArray('coffeeTracker_dismissedSuggestions')
-      };
-
-      // Calculate statistics
-      const statistics = this.calculateStatistics(recipes);
-
-      // Create backup data structure
       const backupData: BackupData = {
-        version: this.BACKUP_VERSION,
-        timestamp: new Date().toISOString(),
-        metadata: {
-          totalRecipes: recipes.length,
-          totalCollections: collections.length,
-          appVersion: '1.0.0',
-          exportedBy: 'Coffee Recipe Tracker'
-        },
-        recipes,
-        collections,
-        userPreferences,
-        statistics
+        ...response.data,
+        userPreferences: {
+          theme: localStorage.getItem('coffeeTracker_theme') || 'light',
+          favoriteOrigins: this.getLocalStorageArray('coffeeTracker_favoriteOrigins'),
+          recentSearches: this.getLocalStorageArray('coffeeTracker_recentSearches'),
+          dismissedSuggestions: this.getLocalStorageArray('coffeeTracker_dismissedSuggestions')
+        }
       };
 
       // Add to backup history
       this.addToBackupHistory({
         timestamp: backupData.timestamp,
-        recipesCount: recipes.length,
-        collectionsCount: collections.length,
+        recipesCount: backupData.metadata.totalRecipes,
+        collectionsCount: backupData.metadata.totalCollections,
         size: JSON.stringify(backupData).length
       });
 
@@ -133,94 +87,113 @@ class BackupService {
     }
   }
 
-  // Restore data from backup
+  // Report what a restore would change without writing anything
+  async previewRestore(backupData: BackupFile, options: RestoreOptions): Promise<RestoreResult> {
+    return this.sendRestore(backupData, { ...options, dryRun: true });
+  }
+
+  // Restore data from backup. IDs, dates, favorites and collection memberships are kept.
   async restoreFromBackup(
-    backupData: BackupData, 
+    backupData: BackupFile, 
     options: RestoreOptions
   ): Promise<RestoreResult> {
-    const result: RestoreResult = {
-      success: false,
-      message: '',
-      statistics: {
-        recipesRestored: 0,
-        collectionsRestored: 0,
-        recipesSkipped: 0,
-        collectionsSkipped: 0,
-        errors: 0
-      },
-      errors: []
-    };
+    if (!this.validateBackupData(backupData)) {
+      return this.failedResult('Invalid backup data format', ['Backup file is corrupted or incompatible']);
+    }
 
-    try {
-      // Validate backup data
-      if (!this.validateBackupData(backupData)) {
-        result.message = 'Invalid backup data format';
-        result.errors = ['Backup file is corrupted or incompatible'];
-        return result;
+    // Create backup before restore if requested
+    if (options.createBackupBeforeRestore) {
+      const currentBackup = await this.createBackup();
+      if (!currentBackup.success || !currentBackup.data) {
+        return this.failedResult('Failed to create safety backup before restore', ['Could not create backup before restore']);
       }
+      await this.exportBackupToFile(currentBackup.data);
+    }
 
-      // Create backup before restore if requested
-      if (options.createBackupBeforeRestore) {
-        const currentBackup = await this.createBackup();
-        if (!currentBackup.success) {
-          result.message = 'Failed to create safety backup before restore';
-          result.errors = ['Could not create backup before restore'];
-          return result;
-        }
-      }
+    const result = await this.sendRestore(backupData, { ...options, dryRun: false });
 
-      // Restore recipes
-      if (options.includeRecipes && backupData.recipes) {
-        const recipeResults = await this.restoreRecipes(backupData.recipes, options.overwriteExisting);
-        result.statistics.recipesRestored = recipeResults.restored;
-        result.statistics.recipesSkipped = recipeResults.skipped;
-        result.statistics.errors += recipeResults.errors.length;
-        result.errors?.push(...recipeResults.errors);
-      }
+    // Restore user preferences
+    if (result.success && options.includeUserPreferences && backupData.userPreferences) {
+      this.restoreUserPreferences(backupData.userPreferences);
+    }
 
-      // Restore collections
-      if (options.includeCollections && backupData.collections) {
-        const collectionResults = await this.restoreCollections(backupData.collections, options.overwriteExisting);
-        result.statistics.collectionsRestored = collectionResults.restored;
-        result.statistics.collectionsSkipped = collectionResults.skipped;
-        result.statistics.errors += collectionResults.errors.length;
-        result.errors?.push(...collectionResults.errors);
-      }
+    return result;
+  }
 
-      // Restore user preferences
-      if (options.includeUserPreferences && backupData.userPreferences) {
-        this.restoreUserPreferences(backupData.userPreferences);
+  private async sendRestore(backupData: BackupFile, options: RestoreOptions): Promise<RestoreResult> {
+    try {
+      const { includeRecipes, includeCollections, includeLibrary, overwriteExisting, dryRun } = options;
+      let response = await apiClient.post<RestoreReport>(
+        '/api/restore',
+        { backup: backupData, options: { includeRecipes, includeCollections, includeLibrary, overwriteExisting, dryRun } },
+        { timeout: this.RESTORE_TIMEOUT }
+      );
+      // A rolled-back restore (422) still reports per-record results, nested in the error body
+      if (!response.success && response.data && 'data' in (response.data as object)) {
+        response = { ...response, data: (response.data as unknown as ApiResponse<RestoreReport>).data };
       }
 
-      // Generate result message
-      const totalRestored = result.statistics.recipesRestored + result.statistics.collectionsRestored;
-      const totalSkipped = result.statistics.recipesSkipped + result.statistics.collectionsSkipped;
-      
-      if (totalRestored > 0) {
-        result.success = true;
-        result.message = `Successfully restored ${totalRestored} items`;
-        if (totalSkipped > 0) {
-          result.message += ` (${totalSkipped} items skipped)`;
-        }
-        if (result.statistics.errors > 0) {
-          result.message += ` with ${result.statistics.errors} errors`;
-        }
-      } else if (totalSkipped > 0) {
-        result.success = true;
-        result.message = `All ${totalSkipped} items already exist (skipped)`;
-      } else {
-        result.message = 'No items were restored';
+      const report = response.data;
+      if (!report || !('items' in report)) {
+        return this.failedResult('Restore operation failed', [response.error || 'Unexpected error during restore']);
       }
-
-      return result;
+      return this.toRestoreResult(report, response.success, response.error);
     } catch (error) {
       console.error('Restore failed:', error);
-      result.message = 'Restore operation failed';
-      result.errors = [error instanceof Error ? error.message : 'Unexpected error during restore'];
-      return result;
+      return this.failedResult('Restore operation failed', [error instanceof Error ? error.message : 'Unexpected error during restore']);
     }
   }
 
+  private toRestoreResult(report: RestoreReport, success: boolean, error?: string): RestoreResult {
+    const recipesRestored = report.recipes.created + report.recipes.overwritten;
+    const collectionsRestored = report.collections.created + report.collections.overwritten;
+    const totalSkipped = report.recipes.skipped + report.collections.skipped;
+    const rejected = report.items.filter(item => item.action === 'reject');
+
+    let message: string;
+    if (!success) {
+      message = error || 'Nothing was restored';
+    } else if (recipesRestored + collectionsRestored > 0) {
+      message = `${report.dryRun ? 'Would restore' : 'Successfully restored'} ${recipesRestored + collectionsRestored} items`;
+      if (totalSkipped > 0) {
+        message += ` (${totalSkipped} items skipped)`;
+      }
+      if (rejected.length > 0) {
+        message += ` with ${rejected.length} errors`;
+      }
+    } else if (totalSkipped > 0) {
+      message = `All ${totalSkipped} items already exist (skipped)`;
+    } else {
+      message = 'No items were restored';
+    }
+
+    return {
+      success,
+      message,
+      statistics: {
+        recipesRestored,
+        collectionsRestored,
+        recipesSkipped: report.recipes.skipped,
+        collectionsSkipped: report.collections.skipped,
+        errors: rejected.length
+      },
+      errors: [
+        ...rejected.map(item => `${RESTORE_ITEM_LABELS[item.type]} "${item.name}": ${item.reason}`),
+        ...(report.error ? [report.error] : [])
+      ],
+      report
+    };
+  }
+
+  private failedResult(message: string, errors: string[]): RestoreResult {
+    return {
+      success: false,
+      message,
+      statistics: { recipesRestored: 0, collectionsRestored: 0, recipesSkipped: 0, collectionsSkipped: 0, errors: errors.length },
+      errors
+    };
+  }
+
   // Export backup to file
   async exportBackupToFile(backupData: BackupData): Promise<void> {
     const jsonString = JSON.stringify(backupData, null, 2);
@@ -240,14 +213,17 @@ class BackupService {
   }
 
   // Import backup from file
-  async importBackupFromFile(file: File): Promise<{ success: boolean; data?: BackupData; error?: string }> {
+  async importBackupFromFile(file: File): Promise<{ success: boolean; data?: BackupFile; error?: string }> {
     try {
       const text = await file.text();
-      const backupData = JSON.parse(text) as BackupData;
+      const backupData = JSON.parse(text) as BackupFile;
       
       if (!this.validateBackupData(backupData)) {
         return { success: false, error: 'Invalid backup file format' };
       }
+      if (!isSupportedBackupVersion(backupData.version)) {
+        return { success: false, error: `Backup version ${backupData.version} is not supported` };
+      }
 
       return { success: true, data: backupData };
     } catch (error) {
@@ -260,86 +236,15 @@ class BackupService {
   }
 
   // Validate backup data structure
-  private validateBackupData(data: any): data is BackupData {
+  private validateBackupData(data: any): data is BackupFile {
     if (!data || typeof data !== 'object') return false;
     if (!data.version || !data.timestamp || !data.metadata) return false;
     if (!Array.isArray(data.recipes)) return false;
     
     return true;
   }
-
-  // Restore recipes from backup
-  private async restoreRecipes(
-    recipes: Recipe[], 
-    overwrite: boolean
-  ): Promise<{ restored: number; skipped: number; errors: string[] }> {
-    const result = { restored: 0, skipped: 0, errors: [] as string[] };
-
-    for (const recipe of recipes) {
-      try {
-        // Check if recipe already exists
-        const existingResponse = await recipeService.getRecipe(recipe.recipeId);
-        
-        if (existingResponse.success && !overwrite) {
-          result.skipped++;
-          continue;
-        }
-
-        // Create or update recipe
-        const response = existingResponse.success && overwrite
-          ? await recipeService.updateRecipe(recipe.recipeId, recipe)
-          : await recipeService.createRecipe(recipe);
-
-        if (response.success) {
-          result.restored++;
-        } else {
-          result.errors.push(`Failed to restore recipe "${recipe.recipeName}": ${response.error}`);
-        }
-      } catch (error) {
-        result.errors.push(`Error restoring recipe "${recipe.recipeName}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-
-    return result;
-  }
-
-  // Restore collections from backup
-  private async restoreCollections(
-    collections: Collection[], 
-    overwrite: boolean
-  ): Promise<{ restored: number; skipped: number; errors: string[] }> {
-    const result = { restored: 0, skipped: 0, errors: [] as string[] };
-
-    for (const collection of collections) {
-      try {
-        // Check if collection already exists
-        const existingResponse = await collectionService.getCollection(collection.collectionId);
-        
-        if (existingResponse.success && !overwrite) {
-          result.skipped++;
-          continue;
-        }
-
-        // Create or update collection
-        const response = existingResponse.success && overwrite
-          ? await collectionService.updateCollection(collection.collectionId, collection)
-          : await collectionService.createCollection(collection);
-
-        if (response.success) {
-          result.restored++;
-        } else {
-          result.errors.push(`Failed to restore collection "${collection.name}": ${response.error}`);
-        }
-      } catch (error) {
-        result.errors.push(`Error restoring collection "${collection.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-
-    return result;
-  }
-
   // Restore user preferences
-  private restoreUserPreferences(preferences: BackupData['userPreferences']): void {
+  private restoreUserPreferences(preferences: BackupUserPreferences): void {
     try {
       if (preferences.theme) {
         localStorage.setItem('coffeeTracker_theme', preferences.theme);
@@ -361,42 +266,6 @@ class BackupService {
     }
   }
 
-  // Calculate statistics for backup
-  private calculateStatistics(recipes: Recipe[]) {
-    const ratedRecipes = recipes.filter(r => r.sensationRecord?.overallImpression);
-    const averageRating = ratedRecipes.length > 0
-      ? ratedRecipes.reduce((sum, r) => sum + (r.sensationRecord.overallImpression || 0), 0) / ratedRecipes.length
-      : 0;
-
-    const originCounts: { [key: string]: number } = {};
-    const methodCounts: { [key: string]: number } = {};
-
-    recipes.forEach(recipe => {
-      if (recipe.beanInfo.origin) {
-        originCounts[recipe.beanInfo.origin] = (originCounts[recipe.beanInfo.origin] || 0) + 1;
-      }
-      if (recipe.brewingParameters.brewingMethod) {
-        methodCounts[recipe.brewingParameters.brewingMethod] = (methodCounts[recipe.brewingParameters.brewingMethod] || 0) + 1;
-      }
-    });
-
-    const mostUsedOrigin = Object.keys(originCounts).length > 0
-      ? Object.keys(originCounts).reduce((a, b) => originCounts[a] > originCounts[b] ? a : b)
-      : 'None';
-
-    const mostUsedMethod = Object.keys(methodCounts).length > 0
-      ? Object.keys(methodCounts).reduce((a, b) => methodCounts[a] > methodCounts[b] ? a : b)
-      : 'None';
-
-    return {
-      totalExports: this.getLocalStorageNumber('coffeeTracker_totalExports'),
-      totalClones: this.getLocalStorageNumber('coffeeTracker_totalClones'),
-      averageRating,
-      mostUsedOrigin,
-      mostUsedMethod
-    };
-  }
-
   // Helper methods
   private getLocalStorageArray(key: string): string[] {
     try {
@@ -407,14 +276,6 @@ class BackupService {
     }
   }
 
-  private getLocalStorageNumber(key: string): number {
-    try {
-      const stored = localStorage.getItem(key);
-      return stored ? parseInt(stored, 10) : 0;
-    } catch {
-      return 0;
-    }
-  }
 
   // Backup history management
   private addToBackupHistory(backup: {
@@ -0,0 +1,95 @@
+import { Bean, BeanInput, BeanUpdate } from '../shared/types/bean';
+import { apiClient, ApiResponse } from './api';
+
+export interface BeanServiceOptions {
+  timeout?: number;
+  includeArchived?: boolean;
+}
+
+export class BeanService {
+  private readonly baseEndpoint = '/api/beans';
+
+  // Get the bean inventory, freshest roast first
+  async getBeans(options: BeanServiceOptions = {}): Promise<ApiResponse<Bean[]>> {
+    const { timeout = 10000, includeArchived = false } = options;
+    const endpoint = includeArchived ? `${this.baseEndpoint}?includeArchived=true` : this.baseEndpoint;
+
+    try {
+      return await apiClient.get<Bean[]>(endpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load beans. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Add a bag to the inventory
+  async createBean(
+    input: BeanInput,
+    options: BeanServiceOptions = {}
+  ): Promise<ApiResponse<Bean>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<Bean>(this.baseEndpoint, input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to add bean. Please try again.',
+      };
+    }
+  }
+
+  // Update bag details or correct the remaining amount
+  async updateBean(
+    beanId: string,
+    updates: BeanUpdate,
+    options: BeanServiceOptions = {}
+  ): Promise<ApiResponse<Bean>> {
+    const { timeout = 10000 } = options;
+
+    if (!beanId) {
+      return {
+        success: false,
+        error: 'Bean ID is required for update',
+      };
+    }
+
+    try {
+      return await apiClient.put<Bean>(`${this.baseEndpoint}/${beanId}`, updates, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update bean. Please try again.',
+      };
+    }
+  }
+
+  // Delete a bag from the inventory
+  async deleteBean(
+    beanId: string,
+    options: BeanServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!beanId) {
+      return {
+        success: false,
+        error: 'Bean ID is required for deletion',
+      };
+    }
+
+    try {
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${beanId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete bean. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const beanService = new BeanService();
@@ -0,0 +1,117 @@
+import { BrewSession, BrewSessionInput, BrewSessionList, BrewSessionUpdate } from '../shared/types/session';
+import { apiClient, ApiResponse } from './api';
+
+export interface BrewSessionServiceOptions {
+  timeout?: number;
+}
+
+export class BrewSessionService {
+  private readonly baseEndpoint = '/api/recipes';
+
+  private sessionsEndpoint(recipeId: string): string {
+    return `${this.baseEndpoint}/${recipeId}/sessions`;
+  }
+
+  // Get all sessions of a recipe with their averaged scores
+  async getSessions(
+    recipeId: string,
+    options: BrewSessionServiceOptions = {}
+  ): Promise<ApiResponse<BrewSessionList>> {
+    const { timeout = 10000 } = options;
+
+    if (!recipeId) {
+      return {
+        success: false,
+        error: 'Recipe ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.get<BrewSessionList>(this.sessionsEndpoint(recipeId), { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load brew sessions. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Log a new brew of a recipe
+  async createSession(
+    recipeId: string,
+    input: BrewSessionInput,
+    options: BrewSessionServiceOptions = {}
+  ): Promise<ApiResponse<BrewSession>> {
+    const { timeout = 10000 } = options;
+
+    if (!recipeId) {
+      return {
+        success: false,
+        error: 'Recipe ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.post<BrewSession>(this.sessionsEndpoint(recipeId), input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to log brew session. Please try again.',
+      };
+    }
+  }
+
+  // Update a logged session
+  async updateSession(
+    recipeId: string,
+    sessionId: string,
+    updates: BrewSessionUpdate,
+    options: BrewSessionServiceOptions = {}
+  ): Promise<ApiResponse<BrewSession>> {
+    const { timeout = 10000 } = options;
+
+    if (!recipeId || !sessionId) {
+      return {
+        success: false,
+        error: 'Recipe and session IDs are required for update',
+      };
+    }
+
+    try {
+      return await apiClient.put<BrewSession>(`${this.sessionsEndpoint(recipeId)}/${sessionId}`, updates, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update brew session. Please try again.',
+      };
+    }
+  }
+
+  // Delete a logged session
+  async deleteSession(
+    recipeId: string,
+    sessionId: string,
+    options: BrewSessionServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!recipeId || !sessionId) {
+      return {
+        success: false,
+        error: 'Recipe and session IDs are required for deletion',
+      };
+    }
+
+    try {
+      return await apiClient.delete<void>(`${this.sessionsEndpoint(recipeId)}/${sessionId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete brew session. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const brewSessionService = new BrewSessionService();
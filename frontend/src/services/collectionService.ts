@@ -3,8 +3,10 @@ import {
   CollectionSummary, 
   CollectionInput, 
   CollectionUpdate, 
+  CollectionMove,
   CollectionFilter,
   BatchCollectionOperation,
+  BatchCollectionResult,
   CollectionAssignment
 } from '../shared/types/collection';
 import { apiClient, ApiResponse } from './api';
@@ -197,7 +199,32 @@ export class CollectionService {
     }
   }
 
-  // Delete a collection
+  // Move a collection under another one (null parent for the top level)
+  async moveCollection(
+    id: string,
+    move: CollectionMove,
+    options: CollectionServiceOptions = {}
+  ): Promise<ApiResponse<Collection>> {
+    const { timeout = 10000 } = options;
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Collection ID is required for move',
+      };
+    }
+
+    try {
+      return await apiClient.post<Collection>(`${this.baseEndpoint}/${id}/move`, move, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to move collection. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Delete a collection (its sub-collections move up a level)
   async deleteCollection(
     id: string,
     options: CollectionServiceOptions = {}
@@ -286,11 +313,11 @@ export class CollectionService {
     }
   }
 
-  // Batch operations for collections
+  // Batch operations for collections: add or remove many recipes in one request
   async batchOperation(
     operation: BatchCollectionOperation,
     options: CollectionServiceOptions = {}
-  ): Promise<ApiResponse<{ success: string[], failed: string[] }>> {
+  ): Promise<ApiResponse<BatchCollectionResult>> {
     const { timeout = 30000 } = options;
 
     if (!operation.collectionId || !operation.recipeIds.length) {
@@ -301,14 +328,16 @@ export class CollectionService {
     }
 
     try {
-      return await apiClient.post<{ success: string[], failed: string[] }>(
-        `${this.baseEndpoint}/${operation.collectionId}/recipes/batch`,
-        {
-          operation: operation.operation,
-          recipeIds: operation.recipeIds,
-        },
-        { timeout }
-      );
+      const endpoint = `${this.baseEndpoint}/${operation.collectionId}/recipes/batch`;
+      const body = { recipeIds: operation.recipeIds };
+
+      if (operation.operation === 'assign') {
+        return await apiClient.post<BatchCollectionResult>(endpoint, body, { timeout });
+      }
+      return await apiClient.delete<BatchCollectionResult>(endpoint, {
+        body: JSON.stringify(body),
+        timeout,
+      });
     } catch (error) {
       return {
         success: false,
@@ -0,0 +1,100 @@
+import { Equipment, EquipmentInput, EquipmentType, EquipmentUpdate } from '../shared/types/equipment';
+import { apiClient, ApiResponse } from './api';
+
+export interface EquipmentServiceOptions {
+  timeout?: number;
+  type?: EquipmentType;
+  includeArchived?: boolean;
+}
+
+export class EquipmentService {
+  private readonly baseEndpoint = '/api/equipment';
+
+  // Get the equipment registry, optionally a single type
+  async getEquipment(options: EquipmentServiceOptions = {}): Promise<ApiResponse<Equipment[]>> {
+    const { timeout = 10000, type, includeArchived = false } = options;
+
+    const params = new URLSearchParams();
+    if (type) params.set('type', type);
+    if (includeArchived) params.set('includeArchived', 'true');
+    const query = params.toString();
+
+    try {
+      return await apiClient.get<Equipment[]>(query ? `${this.baseEndpoint}?${query}` : this.baseEndpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load equipment. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Register a piece of equipment
+  async createEquipment(
+    input: EquipmentInput,
+    options: EquipmentServiceOptions = {}
+  ): Promise<ApiResponse<Equipment>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<Equipment>(this.baseEndpoint, input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to add equipment. Please try again.',
+      };
+    }
+  }
+
+  // Update equipment details
+  async updateEquipment(
+    equipmentId: string,
+    updates: EquipmentUpdate,
+    options: EquipmentServiceOptions = {}
+  ): Promise<ApiResponse<Equipment>> {
+    const { timeout = 10000 } = options;
+
+    if (!equipmentId) {
+      return {
+        success: false,
+        error: 'Equipment ID is required for update',
+      };
+    }
+
+    try {
+      return await apiClient.put<Equipment>(`${this.baseEndpoint}/${equipmentId}`, updates, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update equipment. Please try again.',
+      };
+    }
+  }
+
+  // Delete equipment from the registry
+  async deleteEquipment(
+    equipmentId: string,
+    options: EquipmentServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!equipmentId) {
+      return {
+        success: false,
+        error: 'Equipment ID is required for deletion',
+      };
+    }
+
+    try {
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${equipmentId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete equipment. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const equipmentService = new EquipmentService();
@@ -0,0 +1,143 @@
+import { Experiment, ExperimentInput, ExperimentTastingInput } from '../shared/types/experiment';
+import { apiClient, ApiResponse } from './api';
+
+export interface ExperimentServiceOptions {
+  timeout?: number;
+}
+
+export class ExperimentService {
+  private readonly baseEndpoint = '/api/experiments';
+
+  // Get all experiments, newest first
+  async getExperiments(options: ExperimentServiceOptions = {}): Promise<ApiResponse<Experiment[]>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<Experiment[]>(this.baseEndpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load experiments. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Get one experiment (blind while tasting, with results once completed)
+  async getExperiment(
+    experimentId: string,
+    options: ExperimentServiceOptions = {}
+  ): Promise<ApiResponse<Experiment>> {
+    const { timeout = 10000 } = options;
+
+    if (!experimentId) {
+      return {
+        success: false,
+        error: 'Experiment ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.get<Experiment>(`${this.baseEndpoint}/${experimentId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load experiment. Please try again.',
+      };
+    }
+  }
+
+  // Plan an experiment; the server generates one recipe per variant
+  async createExperiment(
+    input: ExperimentInput,
+    options: ExperimentServiceOptions = {}
+  ): Promise<ApiResponse<Experiment>> {
+    const { timeout = 30000 } = options;
+
+    try {
+      return await apiClient.post<Experiment>(this.baseEndpoint, input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to create experiment. Please try again.',
+      };
+    }
+  }
+
+  // Record a blind tasting of the variant behind a code
+  async recordTasting(
+    experimentId: string,
+    tasting: ExperimentTastingInput,
+    options: ExperimentServiceOptions = {}
+  ): Promise<ApiResponse<Experiment>> {
+    const { timeout = 10000 } = options;
+
+    if (!experimentId) {
+      return {
+        success: false,
+        error: 'Experiment ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.post<Experiment>(`${this.baseEndpoint}/${experimentId}/tastings`, tasting, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to record tasting. Please try again.',
+      };
+    }
+  }
+
+  // End the tasting and reveal which variant was which
+  async completeExperiment(
+    experimentId: string,
+    options: ExperimentServiceOptions = {}
+  ): Promise<ApiResponse<Experiment>> {
+    const { timeout = 10000 } = options;
+
+    if (!experimentId) {
+      return {
+        success: false,
+        error: 'Experiment ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.post<Experiment>(`${this.baseEndpoint}/${experimentId}/complete`, {}, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to complete experiment. Please try again.',
+      };
+    }
+  }
+
+  // Delete an experiment, optionally with its variant recipes
+  async deleteExperiment(
+    experimentId: string,
+    deleteRecipes: boolean,
+    options: ExperimentServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!experimentId) {
+      return {
+        success: false,
+        error: 'Experiment ID is required for deletion',
+      };
+    }
+
+    try {
+      const query = deleteRecipes ? '?deleteRecipes=true' : '';
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${experimentId}${query}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete experiment. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const experimentService = new ExperimentService();
@@ -0,0 +1,160 @@
+import { ExportDownloadLink, ExportFormat, ExportJob, ExportJobStatus, ExportRequest } from '../shared/types/export';
+import { apiClient, ApiResponse } from './api';
+
+export interface ExportJobServiceOptions {
+  timeout?: number;
+}
+
+export interface ExportJobStats {
+  totalExports: number;
+  successfulExports: number;
+  failedExports: number;
+  activeExports: number;
+  mostUsedFormat: ExportFormat | null;
+  totalRecipesExported: number;
+  averageFileSize: number;
+}
+
+// Display names for formats rendered on the server
+export const EXPORT_JOB_FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'CSV Spreadsheet',
+  [ExportFormat.EXCEL]: 'Excel Workbook',
+  [ExportFormat.JSON]: 'JSON Backup'
+};
+
+export class ExportJobService {
+  private readonly baseEndpoint = '/api/exports';
+
+  // Start a server-side export; the returned job is polled for progress
+  async createExportJob(
+    request: ExportRequest,
+    options: ExportJobServiceOptions = {}
+  ): Promise<ApiResponse<ExportJob>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<ExportJob>(this.baseEndpoint, request, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to start export. Please try again.',
+      };
+    }
+  }
+
+  // Get recent export jobs, newest first
+  async getExportJobs(options: ExportJobServiceOptions = {}): Promise<ApiResponse<ExportJob[]>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<ExportJob[]>(this.baseEndpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load export history. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Get one job's status and progress
+  async getExportJob(jobId: string, options: ExportJobServiceOptions = {}): Promise<ApiResponse<ExportJob>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<ExportJob>(`${this.baseEndpoint}/${jobId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load export status. Please try again.',
+      };
+    }
+  }
+
+  // Get a short-lived download URL; plain links cannot send the session header
+  async getDownloadLink(jobId: string, options: ExportJobServiceOptions = {}): Promise<ApiResponse<ExportDownloadLink>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<ExportDownloadLink>(`${this.baseEndpoint}/${jobId}/download-link`, undefined, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to download export. Please try again.',
+      };
+    }
+  }
+
+  // Remove a job and its file from the server
+  async deleteExportJob(jobId: string, options: ExportJobServiceOptions = {}): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${jobId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove export. Please try again.',
+      };
+    }
+  }
+
+  // Whether the worker is still on this job
+  isActive(job: ExportJob): boolean {
+    return job.status === ExportJobStatus.PENDING || job.status === ExportJobStatus.PROCESSING;
+  }
+
+  // Whether the finished file can still be downloaded
+  isDownloadable(job: ExportJob): boolean {
+    return job.status === ExportJobStatus.COMPLETED &&
+      !!job.result?.downloadUrl &&
+      new Date(job.result.expiresAt).getTime() > Date.now();
+  }
+
+  // Aggregate the job list for the statistics tab
+  getExportStats(jobs: ExportJob[]): ExportJobStats {
+    const successful = jobs.filter(job => job.status === ExportJobStatus.COMPLETED);
+    const formatCounts = new Map<ExportFormat, number>();
+    jobs.forEach(job => formatCounts.set(job.options.format, (formatCounts.get(job.options.format) ?? 0) + 1));
+    const mostUsedFormat = Array.from(formatCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+    const totalFileSize = successful.reduce((sum, job) => sum + (job.result?.fileSize ?? 0), 0);
+
+    return {
+      totalExports: jobs.length,
+      successfulExports: successful.length,
+      failedExports: jobs.filter(job => job.status === ExportJobStatus.FAILED).length,
+      activeExports: jobs.filter(job => this.isActive(job)).length,
+      mostUsedFormat,
+      totalRecipesExported: successful.reduce((sum, job) => sum + (job.result?.recordCount ?? 0), 0),
+      averageFileSize: successful.length > 0 ? totalFileSize / successful.length : 0
+    };
+  }
+
+  // Format file size for display
+  formatFileSize(bytes: number): string {
+    if (bytes === 0) return '0 B';
+
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+  }
+
+  // Format export time for display
+  formatExportDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+
+    if (diffMinutes < 1) {
+      return 'Just now';
+    } else if (diffMinutes < 60) {
+      return `${diffMinutes} min ago`;
+    } else if (diffMinutes < 24 * 60) {
+      return `${Math.floor(diffMinutes / 60)} h ago`;
+    }
+    return date.toLocaleDateString();
+  }
+}
+
+// Export singleton instance
+export const exportJobService = new ExportJobService();
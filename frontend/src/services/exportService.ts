@@ -1,5 +1,6 @@
 import { Recipe, RecipeSummary } from '../shared/types/recipe';
 import { recipeService } from './recipeService';
+import { EVALUATION_EXPORT_GROUPS, EvaluationExportGroupDefinition } from '../shared/utils/evaluationExport';
 import * as XLSX from 'xlsx';
 
 // Export format types
@@ -51,6 +52,13 @@ export interface ExportFieldConfig {
     balance: boolean;
     tastingNotes: boolean;
   };
+  // Column groups for the other evaluation systems (legacy scores are the sensationRecord fields above)
+  evaluationSystems: {
+    traditionalSCA: boolean;
+    cvaDescriptive: boolean;
+    cvaAffective: boolean;
+    quickTasting: boolean;
+  };
 }
 
 // Export options interface
@@ -161,6 +169,18 @@ class ExportService {
         filtered.sensationRecord = item.sensationRecord;
       }
       
+      // Evaluation system sections
+      if (fieldConfig.evaluationSystems && item.sensationRecord) {
+        filtered.sensationRecord = { ...filtered.sensationRecord, evaluationSystem: item.sensationRecord.evaluationSystem };
+        for (const system of Object.keys(fieldConfig.evaluationSystems) as Array<keyof ExportFieldConfig['evaluationSystems']>) {
+          if (fieldConfig.evaluationSystems[system] === false) {
+            delete filtered.sensationRecord[system];
+          } else if (item.sensationRecord[system]) {
+            filtered.sensationRecord[system] = item.sensationRecord[system];
+          }
+        }
+      }
+      
       // Include any remaining fields that weren't explicitly configured
       Object.keys(item).forEach(key => {
         if (!filtered.hasOwnProperty(key) && 
@@ -360,6 +380,26 @@ class ExportService {
       XLSX.utils.book_append_sheet(workbook, collectionsSheet, 'Collections');
     }
     
+    // One sheet per evaluation system that has scored recipes
+    if (isFullRecipe) {
+      const fieldConfig = this.getDefaultFieldConfig(options.fieldConfig);
+      for (const definition of this.getEvaluationGroups(fieldConfig)) {
+        const systemRecipes = (data as Recipe[]).filter(recipe => definition.hasData(recipe.sensationRecord));
+        if (systemRecipes.length === 0 || !definition.sheetName) continue;
+        
+        const systemData = [
+          ['Recipe Name', ...definition.columns.map(column => column.header)],
+          ...systemRecipes.map(recipe => [
+            recipe.recipeName,
+            ...definition.columns.map(column => column.value(recipe.sensationRecord) ?? '')
+          ])
+        ];
+        const systemSheet = XLSX.utils.aoa_to_sheet(systemData);
+        this.formatExcelSheet(systemSheet, systemData[0]!);
+        XLSX.utils.book_append_sheet(workbook, systemSheet, definition.sheetName);
+      }
+    }
+    
     onProgress?.(90, 'Downloading Excel file...');
     
     // Write and download the file
@@ -485,9 +525,15 @@ class ExportService {
       'Flavor',
       'Aftertaste',
       'Balance',
-      'Tasting Notes'
+      'Tasting Notes',
+      'Evaluation System'
     ];
     
+    // Column groups for the other evaluation systems
+    const evaluationGroups = this.getEvaluationGroups(this.getDefaultFieldConfig(options.fieldConfig));
+    const evaluationColumns = evaluationGroups.flatMap(definition => definition.columns);
+    headers.push(...evaluationColumns.map(column => column.header));
+    
     const rows = recipes.map(recipe => [
       recipe.recipeName,
       recipe.dateCreated,
@@ -516,7 +562,9 @@ class ExportService {
       recipe.sensationRecord.flavor || '',
       recipe.sensationRecord.aftertaste || '',
       recipe.sensationRecord.balance || '',
-      recipe.sensationRecord.tastingNotes || ''
+      recipe.sensationRecord.tastingNotes || '',
+      recipe.sensationRecord.evaluationSystem || 'legacy',
+      ...evaluationColumns.map(column => column.value(recipe.sensationRecord) ?? '')
     ]);
     
     return this.arrayToCSV([headers, ...rows]);
@@ -595,6 +643,7 @@ class ExportService {
     if (fieldConfig.sensationRecord.aftertaste) headers.push('Aftertaste');
     if (fieldConfig.sensationRecord.balance) headers.push('Balance');
     if (fieldConfig.sensationRecord.tastingNotes) headers.push('Tasting Notes');
+    headers.push('Evaluation System');
     
     // Generate data rows
     const rows = recipes.map(recipe => {
@@ -638,6 +687,7 @@ class ExportService {
       if (fieldConfig.sensationRecord.aftertaste) row.push(recipe.sensationRecord.aftertaste || '');
       if (fieldConfig.sensationRecord.balance) row.push(recipe.sensationRecord.balance || '');
       if (fieldConfig.sensationRecord.tastingNotes) row.push(recipe.sensationRecord.tastingNotes || '');
+      row.push(recipe.sensationRecord.evaluationSystem || 'legacy');
       
       return row;
     });
@@ -910,6 +960,12 @@ class ExportService {
         aftertaste: true,
         balance: true,
         tastingNotes: true
+      },
+      evaluationSystems: {
+        traditionalSCA: true,
+        cvaDescriptive: true,
+        cvaAffective: true,
+        quickTasting: true
       }
     };
 
@@ -921,6 +977,13 @@ class ExportService {
     return defaultConfig;
   }
 
+  // Evaluation system column groups enabled in the field configuration
+  private getEvaluationGroups(fieldConfig: ExportFieldConfig): EvaluationExportGroupDefinition[] {
+    return EVALUATION_EXPORT_GROUPS.filter(definition =>
+      definition.group !== 'legacy' && fieldConfig.evaluationSystems[definition.group] !== false
+    );
+  }
+
   // Deep merge utility
   private deepMerge(target: any, source: any): any {
     const result = { ...target };
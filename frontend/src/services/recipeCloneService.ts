@@ -1,4 +1,4 @@
-import { Recipe, RecipeSummary } from '../shared/types/recipe';
+import { BrewingParameters, Recipe, RecipeSummary } from '../shared/types/recipe';
 import { recipeService } from './recipeService';
 
 export interface CloneOptions {
@@ -9,6 +9,8 @@ export interface CloneOptions {
   preserveRatings?: boolean;
   preserveFavorite?: boolean;
   addToComparison?: boolean;
+  // Brew the clone on another grinder (setting already translated to that grinder)
+  grinderOverride?: Pick<BrewingParameters, 'grinderModel' | 'grinderUnit' | 'grinderId'>;
 }
 
 export interface CloneTemplate {
@@ -323,7 +325,7 @@ class RecipeCloneService {
     const cloneData: any = {
       recipeName: newName,
       beanInfo: { ...recipe.beanInfo },
-      brewingParameters: { ...recipe.brewingParameters },
+      brewingParameters: { ...recipe.brewingParameters, ...options.grinderOverride },
       measurements: { ...recipe.measurements },
       sensationRecord: { ...recipe.sensationRecord }
     };
@@ -0,0 +1,82 @@
+import * as XLSX from 'xlsx';
+import { RecipeImportMapping, RecipeImportResult, RecipeImportRow } from '../shared/types/import';
+import { mapImportRow } from '../shared/utils/recipeImport';
+import { RECIPE_IMPORT_LIMIT } from '../shared/validation/importSchema';
+import { recipeService } from './recipeService';
+import { ApiResponse } from './api';
+
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx,.xls';
+
+export interface ImportSpreadsheet {
+  fileName: string;
+  sheetName: string;
+  headers: string[];
+  rows: Array<{ row: number; values: Record<string, unknown> }>; // Data rows keyed by header; the header is row 1
+}
+
+class RecipeImportService {
+  // Read the first sheet of a CSV or Excel file; empty rows are dropped
+  async readFile(file: File): Promise<{ success: boolean; data?: ImportSpreadsheet; error?: string }> {
+    try {
+      const buffer = await file.arrayBuffer();
+      const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+      const sheetName = workbook.SheetNames[0];
+      if (!sheetName) {
+        return { success: false, error: 'The file has no sheets' };
+      }
+
+      const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, defval: '', blankrows: true });
+      const [headerRow = [], ...dataRows] = table;
+
+      // Blank or repeated headers get a column name so every column stays addressable
+      const seen = new Map<string, number>();
+      const headers = headerRow.map((cell, index) => {
+        const base = String(cell ?? '').trim() || `Column ${index + 1}`;
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base} (${count})` : base;
+      });
+      if (headers.length === 0) {
+        return { success: false, error: 'The first row must contain column headers' };
+      }
+
+      const rows = dataRows
+        .map((cells, index) => ({
+          row: index + 2,
+          values: Object.fromEntries(headers.map((header, column) => [header, cells[column]]))
+        }))
+        .filter(({ values }) => Object.values(values).some(value => value !== '' && value !== null && value !== undefined));
+
+      if (rows.length === 0) {
+        return { success: false, error: 'The file has no data rows' };
+      }
+      if (rows.length > RECIPE_IMPORT_LIMIT) {
+        return { success: false, error: `The file has ${rows.length} rows; import at most ${RECIPE_IMPORT_LIMIT} at a time` };
+      }
+
+      return { success: true, data: { fileName: file.name, sheetName, headers, rows } };
+    } catch (error) {
+      return { success: false, error: 'The file could not be read as CSV or Excel' };
+    }
+  }
+
+  // Map every data row onto a recipe with its errors and warnings
+  previewRows(spreadsheet: ImportSpreadsheet, mapping: RecipeImportMapping): RecipeImportRow[] {
+    return spreadsheet.rows.map(({ row, values }) => mapImportRow(values, mapping, row));
+  }
+
+  // Create the rows that mapped without errors
+  async importRows(rows: RecipeImportRow[]): Promise<ApiResponse<RecipeImportResult>> {
+    const recipes = rows
+      .filter(row => row.recipe)
+      .map(row => ({ row: row.row, recipe: row.recipe! }));
+
+    if (recipes.length === 0) {
+      return { success: false, error: 'There are no valid rows to import' };
+    }
+
+    return recipeService.importRecipes({ recipes });
+  }
+}
+
+export const recipeImportService = new RecipeImportService();
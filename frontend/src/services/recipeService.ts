@@ -1,5 +1,13 @@
 import { Recipe, RecipeInput, RecipeSummary } from '../shared/types/recipe';
-import { apiClient, ApiResponse } from './api';
+import { SearchRequest, SearchFilters, SearchFacets, TextSearchResult } from '../shared/types/search';
+import { RecipeRevision } from '../shared/types/revision';
+import { BulkRecipeUpdateRequest, BulkRecipeUpdateResult } from '../shared/types/bulk';
+import { RecipeImportRequest, RecipeImportResult } from '../shared/types/import';
+import { searchRequestToQueryParams } from '../shared/validation/searchSchema';
+import { apiClient, ApiResponse, PaginatedApiResponse } from './api';
+
+// Largest page the recipe list endpoint serves
+const RECIPE_PAGE_SIZE = 1000;
 
 export interface RecipeServiceOptions {
   timeout?: number;
@@ -107,25 +115,47 @@ export class RecipeService {
     }
   }
 
-  // Get all recipes with optional filtering
+  // Get recipes matching a search request (filters, sort and pagination are applied server-side).
+  // Without explicit pagination every match is returned, fetched page by page.
   async getAllRecipes(
-    filters: Record<string, any> = {},
+    request: SearchRequest = {},
     options: RecipeServiceOptions = {}
-  ): Promise<ApiResponse<RecipeSummary[]>> {
+  ): Promise<PaginatedApiResponse<RecipeSummary>> {
+    if (request.pagination) {
+      return this.getRecipePage(request, options);
+    }
+
+    const recipes: RecipeSummary[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getRecipePage({ ...request, pagination: { page, limit: RECIPE_PAGE_SIZE } }, options);
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      recipes.push(...response.data);
+      const total = response.pagination?.total ?? recipes.length;
+      // An empty page ends the loop even if recipes were deleted while paging
+      if (recipes.length >= total || response.data.length === 0) {
+        return {
+          ...response,
+          data: recipes,
+          pagination: { page: 1, limit: recipes.length, total, totalPages: 1, hasNext: false, hasPrev: false }
+        };
+      }
+    }
+  }
+
+  // Get one page of recipes matching a search request
+  private async getRecipePage(
+    request: SearchRequest,
+    options: RecipeServiceOptions
+  ): Promise<PaginatedApiResponse<RecipeSummary>> {
     const { timeout = 10000, retries = 1 } = options;
 
     try {
-      // Build query string from filters
-      const queryParams = new URLSearchParams();
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== '') {
-          queryParams.append(key, String(value));
-        }
-      });
+      const queryParams = searchRequestToQueryParams(request);
 
-      const endpoint = queryParams.toString() 
-        ? `${this.baseEndpoint}?${queryParams.toString()}`
-        : this.baseEndpoint;
+      const endpoint = `${this.baseEndpoint}?${queryParams.toString()}`;
 
       if (retries > 0) {
         return await apiClient.requestWithRetry(
@@ -144,6 +174,80 @@ export class RecipeService {
     }
   }
 
+  // Get facet counts and value ranges for a filter set
+  async getFacets(
+    filters: SearchFilters = {},
+    options: RecipeServiceOptions = {}
+  ): Promise<ApiResponse<SearchFacets>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      const queryParams = searchRequestToQueryParams({ filters });
+      const query = queryParams.toString();
+      const endpoint = query ? `${this.baseEndpoint}/facets?${query}` : `${this.baseEndpoint}/facets`;
+
+      return await apiClient.get<SearchFacets>(endpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load filter options.',
+      };
+    }
+  }
+
+  // Get the version history of a recipe, newest first
+  async getRevisions(
+    id: string,
+    options: RecipeServiceOptions = {}
+  ): Promise<ApiResponse<RecipeRevision[]>> {
+    const { timeout = 10000 } = options;
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Recipe ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.get<RecipeRevision[]>(`${this.baseEndpoint}/${id}/revisions`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load recipe history.',
+      };
+    }
+  }
+
+  // Restore a recipe to an earlier revision
+  async restoreRevision(
+    id: string,
+    revisionNumber: number,
+    options: RecipeServiceOptions = {}
+  ): Promise<ApiResponse<Recipe>> {
+    const { timeout = 10000 } = options;
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Recipe ID is required',
+      };
+    }
+
+    try {
+      return await apiClient.post<Recipe>(
+        `${this.baseEndpoint}/${id}/revisions/${revisionNumber}/restore`,
+        {},
+        { timeout }
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to restore revision. Please try again.',
+      };
+    }
+  }
+
   // Delete a recipe
   async deleteRecipe(
     id: string,
@@ -235,20 +339,82 @@ export class RecipeService {
     }
   }
 
-  // Search recipes
+  // Apply the same changes to many recipes; nothing changes unless every recipe can be updated
+  async bulkUpdate(
+    request: BulkRecipeUpdateRequest,
+    options: RecipeServiceOptions = {}
+  ): Promise<ApiResponse<BulkRecipeUpdateResult>> {
+    const { timeout = 60000 } = options;
+
+    try {
+      const response = await apiClient.patch<BulkRecipeUpdateResult>(`${this.baseEndpoint}/bulk`, request, { timeout });
+      // A rejected edit (422) still reports per-recipe results, nested in the error body
+      if (!response.success && response.data && 'data' in (response.data as object)) {
+        return { ...response, data: (response.data as unknown as ApiResponse<BulkRecipeUpdateResult>).data };
+      }
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update recipes. Please try again.',
+      };
+    }
+  }
+
+  // Create recipes mapped from a spreadsheet; nothing is created unless every row can be saved
+  async importRecipes(
+    request: RecipeImportRequest,
+    options: RecipeServiceOptions = {}
+  ): Promise<ApiResponse<RecipeImportResult>> {
+    const { timeout = 60000 } = options;
+
+    try {
+      const response = await apiClient.post<RecipeImportResult>(`${this.baseEndpoint}/import`, request, { timeout });
+      // A rejected import (422) still reports per-row results, nested in the error body
+      if (!response.success && response.data && 'data' in (response.data as object)) {
+        return { ...response, data: (response.data as unknown as ApiResponse<RecipeImportResult>).data };
+      }
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to import recipes. Please try again.',
+      };
+    }
+  }
+
+  // Search recipes by free text
   async searchRecipes(
     query: string,
     options: RecipeServiceOptions = {}
-  ): Promise<ApiResponse<RecipeSummary[]>> {
-    const { timeout = 10000 } = options;
+  ): Promise<PaginatedApiResponse<RecipeSummary>> {
+    const searchTerm = query.trim();
 
-    if (!query.trim()) {
-      return this.getAllRecipes({}, options);
+    const response = await this.getAllRecipes(
+      searchTerm ? { filters: { searchTerm } } : {},
+      options
+    );
+
+    if (!response.success && searchTerm) {
+      return {
+        success: false,
+        error: 'Failed to search recipes. Please try again.',
+      };
     }
 
+    return response;
+  }
+
+  // Full-text search over notes, descriptors and pour steps, ranked with highlighted snippets
+  async textSearch(
+    query: string,
+    options: RecipeServiceOptions & { limit?: number } = {}
+  ): Promise<ApiResponse<TextSearchResult[]>> {
+    const { timeout = 10000, limit = 10 } = options;
+    const params = new URLSearchParams({ q: query.trim(), limit: String(limit) });
+
     try {
-      const endpoint = `${this.baseEndpoint}/search?q=${encodeURIComponent(query.trim())}`;
-      return await apiClient.get<RecipeSummary[]>(endpoint, { timeout });
+      return await apiClient.get<TextSearchResult[]>(`${this.baseEndpoint}/search/text?${params.toString()}`, { timeout });
     } catch (error) {
       return {
         success: false,
@@ -1,4 +1,6 @@
 import { Recipe, RecipeSummary } from '../shared/types/recipe';
+import { Share, ShareTargetType, SharedContent, ShareOptions as ShareLinkOptions } from '../shared/types/share';
+import { apiClient, ApiResponse } from './api';
 import { recipeService } from './recipeService';
 
 export interface ShareableRecipe {
@@ -36,12 +38,9 @@ export interface ShareableRecipe {
   };
 }
 
-export interface ShareOptions {
-  includeRatings: boolean;
-  includeTastingNotes: boolean;
-  includePersonalNotes: boolean;
+export interface ShareOptions extends ShareLinkOptions {
   format: 'json' | 'text' | 'markdown' | 'url';
-  customMessage?: string;
+  expiresInDays?: number; // Share links only; they never expire when omitted
 }
 
 export interface ShareHistory {
@@ -53,9 +52,13 @@ export interface ShareHistory {
   customMessage?: string;
 }
 
+// Share links open the app at #share/<token>
+const SHARE_HASH_PREFIX = '#share/';
+
 class RecipeSharingService {
   private readonly SHARE_HISTORY_KEY = 'coffeeTracker_shareHistory';
   private readonly MAX_HISTORY_ITEMS = 50;
+  private readonly sharesEndpoint = '/api/shares';
 
   // Generate a shareable version of a recipe
   async createShareableRecipe(recipeId: string, options: ShareOptions): Promise<ShareableRecipe | null> {
@@ -146,6 +149,22 @@ class RecipeSharingService {
   // Share recipe via various methods
   async shareRecipe(recipeId: string, method: 'clipboard' | 'url' | 'download', options: ShareOptions): Promise<{ success: boolean; message?: string; data?: string }> {
     try {
+      // Share links are minted by the server, which redacts what the options leave out
+      if (method === 'url' || options.format === 'url') {
+        const response = await this.createShareLink('recipe', recipeId, options, options.expiresInDays);
+        if (!response.success || !response.data) {
+          return { success: false, message: response.error || 'Failed to create share link' };
+        }
+
+        const shareUrl = this.buildShareUrl(response.data.token);
+        if (method === 'download') {
+          this.downloadAsFile(shareUrl, response.data.targetName, 'text');
+          return { success: true, message: 'Share link downloaded!', data: shareUrl };
+        }
+        await this.copyToClipboard(shareUrl);
+        return { success: true, message: 'Share link copied to clipboard!', data: shareUrl };
+      }
+
       const shareableRecipe = await this.createShareableRecipe(recipeId, options);
       if (!shareableRecipe) {
         return { success: false, message: 'Failed to prepare recipe for sharing' };
@@ -166,19 +185,6 @@ class RecipeSharingService {
           });
           return { success: true, message: 'Recipe copied to clipboard!' };
 
-        case 'url':
-          const shareUrl = this.generateShareUrl(shareableRecipe);
-          await this.copyToClipboard(shareUrl);
-          this.addToHistory({
-            id: Date.now().toString(),
-            recipeId,
-            recipeName: shareableRecipe.recipeName,
-            method: 'url',
-            sharedAt: new Date().toISOString(),
-            customMessage: options.customMessage
-          });
-          return { success: true, message: 'Share URL copied to clipboard!', data: shareUrl };
-
         case 'download':
           this.downloadAsFile(formattedContent, shareableRecipe.recipeName, options.format);
           this.addToHistory({
@@ -336,26 +342,79 @@ class RecipeSharingService {
     return text;
   }
 
-  // Generate share URL (placeholder - would need backend implementation)
-  private generateShareUrl(recipe: ShareableRecipe): string {
-    const encodedRecipe = btoa(JSON.stringify({
-      name: recipe.recipeName,
-      origin: recipe.origin,
-      method: recipe.brewingMethod,
-      coffee: recipe.measurements.coffee,
-      water: recipe.measurements.water,
-      temp: recipe.parameters.waterTemp,
-      grind: recipe.parameters.grindSize,
-      rating: recipe.ratings?.overall
-    }));
-    
-    // This would typically be a proper URL to your sharing service
-    return `https://coffee-recipes.share/r/${encodedRecipe}`;
+  // Preview of a share link; the link itself is created when the recipe is shared
+  private formatAsUrl(recipe: ShareableRecipe, customMessage?: string): string {
+    let text = '';
+
+    if (customMessage) {
+      text += `${customMessage}\n\n`;
+    }
+
+    text += `☕ ${recipe.recipeName}\n`;
+    text += `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}<created when you share>\n\n`;
+    text += `The link opens a read-only page with the details included above.\n`;
+
+    return text;
   }
 
-  // Format as URL-friendly format
-  private formatAsUrl(recipe: ShareableRecipe, customMessage?: string): string {
-    return this.generateShareUrl(recipe);
+  // Create a share link for a recipe or collection
+  async createShareLink(
+    targetType: ShareTargetType,
+    targetId: string,
+    options: ShareLinkOptions,
+    expiresInDays?: number
+  ): Promise<ApiResponse<Share>> {
+    try {
+      const { includeRatings, includeTastingNotes, includePersonalNotes, customMessage } = options;
+      return await apiClient.post<Share>(this.sharesEndpoint, {
+        targetType,
+        targetId,
+        options: { includeRatings, includeTastingNotes, includePersonalNotes, customMessage: customMessage?.trim() || undefined },
+        expiresInDays
+      });
+    } catch (error) {
+      return { success: false, error: 'Failed to create share link. Please try again.' };
+    }
+  }
+
+  // Get the signed-in user's share links, newest first (optionally for one recipe or collection)
+  async getShareLinks(targetId?: string): Promise<ApiResponse<Share[]>> {
+    try {
+      const query = targetId ? `?targetId=${encodeURIComponent(targetId)}` : '';
+      return await apiClient.get<Share[]>(`${this.sharesEndpoint}${query}`);
+    } catch (error) {
+      return { success: false, error: 'Failed to load share links. Please try again.' };
+    }
+  }
+
+  // Revoke a share link; anyone opening it afterwards is told it was revoked
+  async revokeShareLink(shareId: string): Promise<ApiResponse<Share>> {
+    try {
+      return await apiClient.post<Share>(`${this.sharesEndpoint}/${shareId}/revoke`);
+    } catch (error) {
+      return { success: false, error: 'Failed to revoke share link. Please try again.' };
+    }
+  }
+
+  // Load the read-only content behind a share link (no sign-in needed)
+  async getSharedContent(token: string): Promise<ApiResponse<SharedContent>> {
+    try {
+      return await apiClient.get<SharedContent>(`${this.sharesEndpoint}/${encodeURIComponent(token)}`);
+    } catch (error) {
+      return { success: false, error: 'Failed to load shared content. Please try again.' };
+    }
+  }
+
+  // Public URL of a share link
+  buildShareUrl(token: string): string {
+    return `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${token}`;
+  }
+
+  // Share token in a URL hash such as #share/<token>, or null
+  parseShareToken(hash: string): string | null {
+    if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+    const token = hash.slice(SHARE_HASH_PREFIX.length).trim();
+    return token || null;
   }
 
   // Copy content to clipboard
@@ -486,6 +545,30 @@ class RecipeSharingService {
   // Import recipe from shared format (basic implementation)
   async importSharedRecipe(sharedData: string): Promise<{ success: boolean; recipe?: any; error?: string }> {
     try {
+      // Share links carry only a token; the recipe comes from the server
+      const hashIndex = sharedData.indexOf(SHARE_HASH_PREFIX);
+      if (hashIndex !== -1) {
+        const token = this.parseShareToken(sharedData.slice(hashIndex).trim());
+        const response = token ? await this.getSharedContent(token) : null;
+        const recipe = response?.data?.recipe;
+        if (!response?.success || !recipe) {
+          return { success: false, error: response?.error || 'This share link does not contain a recipe' };
+        }
+
+        return {
+          success: true,
+          recipe: {
+            recipeName: `${recipe.recipeName} (Imported)`,
+            beanInfo: recipe.beanInfo,
+            brewingParameters: recipe.brewingParameters,
+            measurements: recipe.measurements,
+            sensationRecord: recipe.sensationRecord,
+            collections: [],
+            isFavorite: false
+          }
+        };
+      }
+
       let shareableRecipe: ShareableRecipe;
 
       // Try to parse as JSON first
@@ -0,0 +1,112 @@
+import { SavedSearch, SavedSearchInput, SavedSearchUpdate } from '../shared/types/search';
+import { apiClient, ApiResponse } from './api';
+
+export interface SavedSearchServiceOptions {
+  timeout?: number;
+}
+
+export class SavedSearchService {
+  private readonly baseEndpoint = '/api/saved-searches';
+
+  // Get all saved searches (most recently used first)
+  async getSavedSearches(
+    options: SavedSearchServiceOptions = {}
+  ): Promise<ApiResponse<SavedSearch[]>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<SavedSearch[]>(this.baseEndpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load saved views. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Save a new named view
+  async createSavedSearch(
+    input: SavedSearchInput,
+    options: SavedSearchServiceOptions = {}
+  ): Promise<ApiResponse<SavedSearch>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<SavedSearch>(this.baseEndpoint, input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to save view. Please try again.',
+      };
+    }
+  }
+
+  // Rename a view or overwrite its filters/sort
+  async updateSavedSearch(
+    id: string,
+    updates: SavedSearchUpdate,
+    options: SavedSearchServiceOptions = {}
+  ): Promise<ApiResponse<SavedSearch>> {
+    const { timeout = 10000 } = options;
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Saved view ID is required for update',
+      };
+    }
+
+    try {
+      return await apiClient.put<SavedSearch>(`${this.baseEndpoint}/${id}`, updates, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update saved view. Please try again.',
+      };
+    }
+  }
+
+  // Record that a view was applied so it sorts to the top
+  async markUsed(
+    id: string,
+    options: SavedSearchServiceOptions = {}
+  ): Promise<ApiResponse<SavedSearch>> {
+    const { timeout = 5000 } = options;
+
+    try {
+      return await apiClient.patch<SavedSearch>(`${this.baseEndpoint}/${id}/use`, undefined, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update saved view.',
+      };
+    }
+  }
+
+  // Delete a saved view
+  async deleteSavedSearch(
+    id: string,
+    options: SavedSearchServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Saved view ID is required for deletion',
+      };
+    }
+
+    try {
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${id}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete saved view. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,107 @@
+import { WaterProfile, WaterProfileInput, WaterProfileStats, WaterProfileUpdate } from '../shared/types/water';
+import { apiClient, ApiResponse } from './api';
+
+export interface WaterProfileServiceOptions {
+  timeout?: number;
+}
+
+export class WaterProfileService {
+  private readonly baseEndpoint = '/api/water-profiles';
+
+  // Get all saved water profiles by name
+  async getWaterProfiles(options: WaterProfileServiceOptions = {}): Promise<ApiResponse<WaterProfile[]>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<WaterProfile[]>(this.baseEndpoint, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load water profiles. Please check your connection and try again.',
+      };
+    }
+  }
+
+  // Compare how recipes scored with each water, overall and per origin
+  async getWaterProfileStats(options: WaterProfileServiceOptions = {}): Promise<ApiResponse<WaterProfileStats[]>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.get<WaterProfileStats[]>(`${this.baseEndpoint}/stats`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load water profile stats. Please try again.',
+      };
+    }
+  }
+
+  // Save a water profile from measured minerals or a concentrate mix
+  async createWaterProfile(
+    input: WaterProfileInput,
+    options: WaterProfileServiceOptions = {}
+  ): Promise<ApiResponse<WaterProfile>> {
+    const { timeout = 10000 } = options;
+
+    try {
+      return await apiClient.post<WaterProfile>(this.baseEndpoint, input, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to save water profile. Please try again.',
+      };
+    }
+  }
+
+  // Update a water profile
+  async updateWaterProfile(
+    waterProfileId: string,
+    updates: WaterProfileUpdate,
+    options: WaterProfileServiceOptions = {}
+  ): Promise<ApiResponse<WaterProfile>> {
+    const { timeout = 10000 } = options;
+
+    if (!waterProfileId) {
+      return {
+        success: false,
+        error: 'Water profile ID is required for update',
+      };
+    }
+
+    try {
+      return await apiClient.put<WaterProfile>(`${this.baseEndpoint}/${waterProfileId}`, updates, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update water profile. Please try again.',
+      };
+    }
+  }
+
+  // Delete a water profile
+  async deleteWaterProfile(
+    waterProfileId: string,
+    options: WaterProfileServiceOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const { timeout = 10000 } = options;
+
+    if (!waterProfileId) {
+      return {
+        success: false,
+        error: 'Water profile ID is required for deletion',
+      };
+    }
+
+    try {
+      return await apiClient.delete<void>(`${this.baseEndpoint}/${waterProfileId}`, { timeout });
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete water profile. Please try again.',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const waterProfileService = new WaterProfileService();
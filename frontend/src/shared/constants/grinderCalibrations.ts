@@ -0,0 +1,107 @@
+/**
+ * Grinder Calibration Constants
+ *
+ * Approximate particle size (microns) at a few reference settings for the
+ * predefined grinder models, used to translate a grind setting from one
+ * grinder to another. Values are community-measured medians, good enough to
+ * land in the right neighbourhood before dialing in by taste.
+ */
+
+import type { GrinderCalibrationPoint } from '../types/equipment.js';
+import { GrinderModel, migrateGrinderModel } from './grinderModels.js';
+
+// Not in the predefined dropdown, but common enough in shops to compare against
+export const MAHLKONIG_EK43 = 'Mahlkönig EK43';
+
+// Calibration tables keyed by grinder model, settings in ascending order
+export const GRINDER_CALIBRATIONS: Record<string, GrinderCalibrationPoint[]> = {
+  [GrinderModel.BARATZA_ENCORE]: [
+    { setting: 1, microns: 250 },
+    { setting: 10, microns: 450 },
+    { setting: 20, microns: 700 },
+    { setting: 30, microns: 950 },
+    { setting: 40, microns: 1200 }
+  ],
+  [GrinderModel.COMANDANTE_C40]: [
+    { setting: 5, microns: 150 },
+    { setting: 15, microns: 450 },
+    { setting: 25, microns: 750 },
+    { setting: 35, microns: 1050 },
+    { setting: 45, microns: 1350 }
+  ],
+  [GrinderModel.TIMEMORE_C2]: [
+    { setting: 6, microns: 250 },
+    { setting: 12, microns: 500 },
+    { setting: 18, microns: 750 },
+    { setting: 24, microns: 1000 },
+    { setting: 30, microns: 1250 }
+  ],
+  [GrinderModel.BARATZA_VIRTUOSO_PLUS]: [
+    { setting: 1, microns: 200 },
+    { setting: 10, microns: 420 },
+    { setting: 20, microns: 680 },
+    { setting: 30, microns: 940 },
+    { setting: 40, microns: 1200 }
+  ],
+  [GrinderModel.ONEZPRESSO_JX_PRO]: [
+    { setting: 20, microns: 250 },
+    { setting: 40, microns: 500 },
+    { setting: 60, microns: 750 },
+    { setting: 80, microns: 1000 },
+    { setting: 100, microns: 1250 }
+  ],
+  [GrinderModel.HARIO_MINI_MILL]: [
+    { setting: 1, microns: 200 },
+    { setting: 5, microns: 500 },
+    { setting: 10, microns: 900 },
+    { setting: 15, microns: 1300 }
+  ],
+  [GrinderModel.PORLEX_MINI]: [
+    { setting: 1, microns: 150 },
+    { setting: 4, microns: 350 },
+    { setting: 8, microns: 600 },
+    { setting: 12, microns: 900 },
+    { setting: 16, microns: 1200 }
+  ],
+  [GrinderModel.BARATZA_VARIO]: [
+    { setting: 1, microns: 230 },
+    { setting: 4, microns: 450 },
+    { setting: 7, microns: 700 },
+    { setting: 10, microns: 1000 }
+  ],
+  [GrinderModel.TIMEMORE_C3]: [
+    { setting: 6, microns: 240 },
+    { setting: 12, microns: 480 },
+    { setting: 18, microns: 720 },
+    { setting: 24, microns: 960 },
+    { setting: 30, microns: 1200 }
+  ],
+  [GrinderModel.KNOCK_FELDGRIND]: [
+    { setting: 1, microns: 200 },
+    { setting: 10, microns: 550 },
+    { setting: 20, microns: 950 },
+    { setting: 30, microns: 1350 }
+  ],
+  [MAHLKONIG_EK43]: [
+    { setting: 1, microns: 250 },
+    { setting: 4, microns: 500 },
+    { setting: 8, microns: 800 },
+    { setting: 11, microns: 1050 },
+    { setting: 16, microns: 1500 }
+  ]
+};
+
+// Get the built-in calibration for a grinder model, accepting the usual name variations
+export const getBuiltInCalibration = (grinderModel: string): GrinderCalibrationPoint[] | undefined => {
+  if (!grinderModel) return undefined;
+
+  const normalized = grinderModel.trim().toLowerCase().replace(/[\s-]+/g, '');
+  if (normalized === 'ek43' || normalized === 'mahlkönigek43' || normalized === 'mahlkonigek43') {
+    return GRINDER_CALIBRATIONS[MAHLKONIG_EK43];
+  }
+
+  return GRINDER_CALIBRATIONS[migrateGrinderModel(grinderModel)];
+};
+
+// Grinder models with a built-in calibration, for "convert to" pickers
+export const CALIBRATED_GRINDER_MODELS = Object.keys(GRINDER_CALIBRATIONS);
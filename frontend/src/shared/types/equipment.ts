@@ -0,0 +1,69 @@
+// Equipment registry related TypeScript interfaces
+
+import type { BrewingMethod } from './recipe.js';
+
+/**
+ * Kinds of equipment a recipe can reference
+ */
+export enum EquipmentType {
+  GRINDER = 'grinder',
+  BREWER = 'brewer',
+  FILTER = 'filter',
+  KETTLE = 'kettle'
+}
+
+/**
+ * Setting scale of a grinder, e.g. clicks 0-40 or a dial 1.0-10.0 in 0.5 steps
+ */
+export interface GrinderSettingScale {
+  min: number;
+  max: number;
+  step: number;
+  unit?: string; // Optional - "clicks", "numbers", "rotations", etc.
+}
+
+/**
+ * One reference point of a grinder calibration table
+ */
+export interface GrinderCalibrationPoint {
+  setting: number; // Setting on the grinder's own scale
+  microns: number; // Approximate median particle size at that setting
+}
+
+/**
+ * A piece of equipment in the registry
+ */
+export interface Equipment {
+  equipmentId: string; // UUID
+  type: EquipmentType;
+  name: string; // Required - display name, e.g. "Comandante C40"
+  brand?: string; // Optional - manufacturer
+  settingScale?: GrinderSettingScale; // Grinders only
+  calibration?: GrinderCalibrationPoint[]; // Grinders only - setting to microns table, ascending settings
+  brewingMethod?: BrewingMethod; // Brewers only - method the brewer is used for
+  notes?: string; // Optional - burr set, capacity, etc.
+  isArchived: boolean; // Retired equipment is kept for history but hidden from pickers
+
+  // Timestamps
+  dateCreated: string; // ISO timestamp
+  dateModified: string; // ISO timestamp
+}
+
+/**
+ * Input interface for registering equipment
+ */
+export interface EquipmentInput {
+  type: EquipmentType;
+  name: string;
+  brand?: string;
+  settingScale?: GrinderSettingScale;
+  calibration?: GrinderCalibrationPoint[];
+  brewingMethod?: BrewingMethod;
+  notes?: string;
+  isArchived?: boolean;
+}
+
+/**
+ * Update interface for equipment (the type cannot change)
+ */
+export type EquipmentUpdate = Partial<Omit<EquipmentInput, 'type'>>;
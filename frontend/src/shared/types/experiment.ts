@@ -0,0 +1,82 @@
+// Experiment (planned A/B brew trial) related TypeScript interfaces
+
+import type { RecipeId, SensationRecord } from './recipe.js';
+import type { BrewSessionStats } from './session.js';
+
+/**
+ * The one brewing parameter an experiment varies
+ */
+export type ExperimentVariable = 'grind' | 'temperature' | 'ratio' | 'water' | 'filter';
+
+/**
+ * Variants are tasted blind; completing the experiment reveals them
+ */
+export type ExperimentStatus = 'tasting' | 'completed';
+
+/**
+ * Value of the variable for one variant: grinder setting, water temperature (°C),
+ * grams of water per gram of coffee, water profile ID or filter description
+ */
+export type ExperimentValue = string | number;
+
+/**
+ * One variant to generate from the base recipe
+ */
+export interface ExperimentVariantInput {
+  value: ExperimentValue;
+  label?: string; // Optional - shown in the results, defaults to the formatted value
+}
+
+/**
+ * Input interface for planning an experiment
+ */
+export interface ExperimentInput {
+  name: string;
+  baseRecipeId: RecipeId;
+  variable: ExperimentVariable;
+  variants: ExperimentVariantInput[]; // 2-6 distinct values
+  notes?: string;
+}
+
+/**
+ * A generated variant. While tasting only its code and tasting count are shown;
+ * everything else is revealed when the experiment is completed.
+ */
+export interface ExperimentVariant {
+  code: string; // Random 3-digit tasting code, also part of the variant recipe's name
+  tastingCount: number;
+
+  // Revealed when completed
+  recipeId?: RecipeId; // Recipe generated for the variant
+  value?: ExperimentValue;
+  label?: string;
+  isBaseline?: boolean; // Same value as the base recipe had
+  stats?: BrewSessionStats; // Scores over the variant's tastings
+  rank?: number; // 1 = best average score; missing when no tasting was scored
+}
+
+/**
+ * A planned A/B trial of one variable over recipes generated from a base recipe
+ */
+export interface Experiment {
+  experimentId: string; // UUID
+  name: string;
+  baseRecipeId?: RecipeId; // Cleared when the base recipe is deleted
+  baseRecipeName: string; // Base recipe name when the experiment was planned
+  variable: ExperimentVariable;
+  status: ExperimentStatus;
+  notes?: string;
+  variants: ExperimentVariant[]; // By code while tasting, by rank once completed
+  dateCreated: string; // ISO timestamp
+  dateModified: string; // ISO timestamp
+  dateCompleted?: string; // ISO timestamp
+}
+
+/**
+ * A blind tasting of one variant, recorded by its code
+ */
+export interface ExperimentTastingInput {
+  code: string;
+  evaluation: SensationRecord; // Needs a score in its evaluation system
+  notes?: string;
+}
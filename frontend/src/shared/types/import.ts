@@ -0,0 +1,100 @@
+// Spreadsheet import related TypeScript interfaces
+
+import type { RecipeInput } from './recipe.js';
+
+/**
+ * Recipe fields a spreadsheet column can be mapped to (dotted paths into RecipeInput)
+ */
+export type RecipeImportField =
+  | 'recipeName'
+  | 'isFavorite'
+  | 'beanInfo.coffeeBeanBrand'
+  | 'beanInfo.origin'
+  | 'beanInfo.processingMethod'
+  | 'beanInfo.altitude'
+  | 'beanInfo.roastingDate'
+  | 'beanInfo.roastingLevel'
+  | 'brewingParameters.waterTemperature'
+  | 'brewingParameters.brewingMethod'
+  | 'brewingParameters.grinderModel'
+  | 'brewingParameters.grinderUnit'
+  | 'brewingParameters.filteringTools'
+  | 'brewingParameters.additionalNotes'
+  | 'measurements.coffeeBeans'
+  | 'measurements.water'
+  | 'measurements.brewedCoffeeWeight'
+  | 'measurements.tds'
+  | 'measurements.extractionYield'
+  | 'sensationRecord.overallImpression'
+  | 'sensationRecord.acidity'
+  | 'sensationRecord.body'
+  | 'sensationRecord.sweetness'
+  | 'sensationRecord.flavor'
+  | 'sensationRecord.aftertaste'
+  | 'sensationRecord.balance'
+  | 'sensationRecord.tastingNotes'
+  | 'sensationRecord.evaluationSystem'
+  | RecipeImportEvaluationField;
+
+/**
+ * Score fields of the SCA, CVA and quick tasting forms, e.g. "sensationRecord.cvaAffective.overall"
+ */
+export type RecipeImportEvaluationField =
+  `sensationRecord.${'traditionalSCA' | 'cvaDescriptive' | 'cvaAffective' | 'quickTasting'}.${string}`;
+
+/**
+ * Spreadsheet column header → recipe field. Columns without a field are ignored.
+ */
+export type RecipeImportMapping = Record<string, RecipeImportField>;
+
+/**
+ * A problem with one value of an imported row
+ */
+export interface RecipeImportIssue {
+  field?: RecipeImportField;
+  message: string;
+}
+
+/**
+ * One spreadsheet row mapped onto a recipe
+ */
+export interface RecipeImportRow {
+  row: number; // Row number in the spreadsheet (the header is row 1)
+  recipe?: RecipeInput; // Absent when the row has errors
+  errors: RecipeImportIssue[];
+  warnings: RecipeImportIssue[]; // Values the migration helpers changed or dropped
+}
+
+/**
+ * Request to create imported recipes
+ */
+export interface RecipeImportRequest {
+  recipes: Array<{ row: number; recipe: RecipeInput }>;
+}
+
+export type RecipeImportStatus =
+  | 'created'
+  | 'failed' // Invalid, or the write failed
+  | 'skipped' // Not attempted because another row failed
+  | 'rolled_back'; // Created, then removed because another row failed
+
+/**
+ * Outcome for one row of an import
+ */
+export interface RecipeImportRowResult {
+  row: number;
+  recipeName?: string;
+  status: RecipeImportStatus;
+  recipeId?: string;
+  error?: string;
+}
+
+/**
+ * Import outcome. The import is all or nothing: when any row fails,
+ * `applied` is false and no recipe is kept.
+ */
+export interface RecipeImportResult {
+  applied: boolean;
+  created: number;
+  results: RecipeImportRowResult[];
+}
@@ -0,0 +1,76 @@
+// Share link related TypeScript interfaces
+
+import type { Recipe } from './recipe.js';
+import type { CollectionColor } from './collection.js';
+
+/**
+ * What a share link points at
+ */
+export type ShareTargetType = 'recipe' | 'collection';
+
+/**
+ * What a share link reveals. Fields that are not included are redacted
+ * before the shared content leaves the server.
+ */
+export interface ShareOptions {
+  includeRatings: boolean; // Scores and ratings of every evaluation system
+  includeTastingNotes: boolean; // Tasting notes and flavor descriptors
+  includePersonalNotes: boolean; // Brewing notes and the assessor ID
+  customMessage?: string; // Shown above the shared content
+}
+
+/**
+ * Request to create a share link
+ */
+export interface ShareInput {
+  targetType: ShareTargetType;
+  targetId: string; // UUID of the recipe or collection
+  options: ShareOptions;
+  expiresInDays?: number; // Optional - the link never expires when omitted
+}
+
+/**
+ * Lifecycle of a share link
+ */
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * A share link as seen by its owner
+ */
+export interface Share {
+  shareId: string; // UUID
+  token: string; // Unguessable token in the public URL
+  targetType: ShareTargetType;
+  targetId: string;
+  targetName: string; // Recipe or collection name when the link was created
+  options: ShareOptions;
+  status: ShareStatus;
+  viewCount: number;
+  dateCreated: string; // ISO timestamp
+  expiresAt?: string; // ISO timestamp
+  revokedAt?: string; // ISO timestamp
+  lastViewedAt?: string; // ISO timestamp
+}
+
+/**
+ * Shared collection as shown on the public share page
+ */
+export interface SharedCollection {
+  name: string;
+  description?: string;
+  color: CollectionColor;
+  recipes: Recipe[];
+}
+
+/**
+ * Read-only content behind a share link (public, redacted per ShareOptions)
+ */
+export interface SharedContent {
+  targetType: ShareTargetType;
+  sharedBy: string; // Display name of the owner
+  sharedAt: string; // ISO timestamp
+  expiresAt?: string; // ISO timestamp
+  customMessage?: string;
+  recipe?: Recipe; // When targetType is 'recipe'
+  collection?: SharedCollection; // When targetType is 'collection'
+}
@@ -0,0 +1,42 @@
+// User account and authentication related TypeScript interfaces
+
+/**
+ * How an account signs in. Local accounts keep a password hash;
+ * other providers (e.g. OIDC) vouch for the user themselves.
+ */
+export type AuthProviderName = 'local' | 'oidc';
+
+/**
+ * A user account as exposed by the API (never includes credentials)
+ */
+export interface User {
+  userId: string; // UUID
+  username: string; // Unique login name
+  displayName?: string; // Optional - shown instead of the username
+  authProvider: AuthProviderName;
+  dateCreated: string; // ISO timestamp
+}
+
+/**
+ * Username/password sign-in
+ */
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * New local account
+ */
+export interface RegisterInput extends LoginCredentials {
+  displayName?: string;
+}
+
+/**
+ * A signed-in session: the bearer token to send with every API request
+ */
+export interface AuthSession {
+  token: string; // Signed JWT
+  expiresAt: string; // ISO timestamp
+  user: User;
+}
@@ -0,0 +1,83 @@
+// Water profile related TypeScript interfaces
+
+/**
+ * Mineral composition of brew water, all values in ppm (mg/L).
+ * GH and KH are expressed as ppm CaCO3.
+ */
+export interface WaterMineralComposition {
+  gh?: number; // General hardness (calcium + magnesium)
+  kh?: number; // Carbonate hardness / alkalinity
+  magnesium?: number; // Mg2+
+  calcium?: number; // Ca2+
+  sodium?: number; // Na+
+  potassium?: number; // K+
+  bicarbonate?: number; // HCO3-
+  tds?: number; // Total dissolved solids
+}
+
+/**
+ * Mineral salts commonly used for brew water concentrates
+ */
+export enum MineralSalt {
+  EPSOM_SALT = 'magnesium-sulfate', // MgSO4·7H2O
+  MAGNESIUM_CHLORIDE = 'magnesium-chloride', // MgCl2·6H2O
+  CALCIUM_CHLORIDE = 'calcium-chloride', // CaCl2·2H2O
+  BAKING_SODA = 'sodium-bicarbonate', // NaHCO3
+  POTASSIUM_BICARBONATE = 'potassium-bicarbonate' // KHCO3
+}
+
+/**
+ * One stock concentrate in a water mix
+ */
+export interface WaterMixComponent {
+  salt: MineralSalt;
+  concentration: number; // Grams of salt per liter of concentrate
+  dose: number; // Milliliters of concentrate per liter of brew water
+}
+
+/**
+ * A brew water recipe
+ */
+export interface WaterProfile {
+  waterProfileId: string; // UUID
+  name: string; // Required - e.g. "Rao/Perger", "Third Wave Water", "Tap (office)"
+  composition: WaterMineralComposition; // Measured or calculated minerals
+  mix?: WaterMixComponent[]; // Optional - concentrates dosed into distilled water
+  notes?: string; // Optional - source, filter used, etc.
+
+  // Timestamps
+  dateCreated: string; // ISO timestamp
+  dateModified: string; // ISO timestamp
+}
+
+/**
+ * Input interface for creating a water profile.
+ * When a mix is given the composition is calculated from it.
+ */
+export interface WaterProfileInput {
+  name: string;
+  composition?: WaterMineralComposition;
+  mix?: WaterMixComponent[];
+  notes?: string;
+}
+
+/**
+ * Update interface for water profiles (partial updates allowed)
+ */
+export type WaterProfileUpdate = Partial<WaterProfileInput>;
+
+/**
+ * How recipes brewed with a water profile scored, overall and per origin
+ */
+export interface WaterProfileStats {
+  waterProfileId: string;
+  name: string;
+  recipeCount: number;
+  scoredRecipeCount: number; // Recipes with a usable score
+  averageScore?: number; // Mean normalized score (0-10) across evaluation systems
+  byOrigin: Array<{
+    origin: string;
+    recipeCount: number;
+    averageScore?: number;
+  }>; // Best scoring origin first
+}
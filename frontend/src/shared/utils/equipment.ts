@@ -0,0 +1,51 @@
+// Equipment registry helpers: grinder setting dropdowns and picker labels
+
+import type { Equipment, GrinderSettingScale, EquipmentType } from '../types/equipment.js';
+import { MIN_GRINDER_SETTING, MAX_GRINDER_SETTING, GRINDER_SETTING_OPTIONS } from '../constants/grinderSettings.js';
+
+/**
+ * Scale used for grinders registered without one (the app's standard 1-40 scale)
+ */
+export const DEFAULT_GRINDER_SETTING_SCALE: GrinderSettingScale = {
+  min: MIN_GRINDER_SETTING,
+  max: MAX_GRINDER_SETTING,
+  step: 1
+};
+
+/**
+ * Setting options for a grinder's own scale
+ * @param scale - Grinder setting scale, or undefined for the standard 1-40 scale
+ * @returns Options for the grinder setting dropdown
+ */
+export const getGrinderSettingOptions = (scale?: GrinderSettingScale): { value: string; label: string }[] => {
+  if (!scale) return GRINDER_SETTING_OPTIONS;
+
+  // Count steps instead of adding the step repeatedly so 0.1 steps don't drift
+  const decimals = (scale.step.toString().split('.')[1] || '').length;
+  const count = Math.floor((scale.max - scale.min) / scale.step + 1e-9);
+  const options: { value: string; label: string }[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    const value = (scale.min + i * scale.step).toFixed(decimals);
+    options.push({ value, label: scale.unit ? `${value} ${scale.unit}` : value });
+  }
+
+  return options;
+};
+
+/**
+ * Display label for equipment, e.g. "Comandante C40" or "Hario · V60 02"
+ */
+export const formatEquipmentLabel = (equipment: Pick<Equipment, 'name' | 'brand'>): string => {
+  if (!equipment.brand || equipment.name.toLowerCase().startsWith(equipment.brand.toLowerCase())) {
+    return equipment.name;
+  }
+  return `${equipment.brand} · ${equipment.name}`;
+};
+
+/**
+ * Equipment of one type, in registry order
+ */
+export const filterEquipmentByType = (equipment: Equipment[], type: EquipmentType): Equipment[] => {
+  return equipment.filter(item => item.type === type);
+};
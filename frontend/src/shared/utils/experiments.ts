@@ -0,0 +1,135 @@
+// Variant generation and result ranking for brew experiments
+
+import type { Recipe, RecipeInput } from '../types/recipe.js';
+import type { ExperimentValue, ExperimentVariable, ExperimentVariant } from '../types/experiment.js';
+import { recipeToInput } from './recipeDiff.js';
+
+export const MIN_EXPERIMENT_VARIANTS = 2;
+export const MAX_EXPERIMENT_VARIANTS = 6;
+
+export const EXPERIMENT_VARIABLES: Record<ExperimentVariable, { label: string; description: string }> = {
+  grind: { label: 'Grind', description: 'Grinder setting' },
+  temperature: { label: 'Temperature', description: 'Water temperature (°C)' },
+  ratio: { label: 'Ratio', description: 'Grams of water per gram of coffee' },
+  water: { label: 'Water', description: 'Brew water profile' },
+  filter: { label: 'Filter', description: 'Filter paper or material' }
+};
+
+/**
+ * The base recipe's value of a variable, in the units variants are given in
+ */
+export const getExperimentValue = (
+  recipe: Recipe | RecipeInput,
+  variable: ExperimentVariable
+): ExperimentValue | undefined => {
+  const { brewingParameters, measurements } = recipe;
+
+  switch (variable) {
+    case 'grind':
+      return brewingParameters.grinderUnit || undefined;
+    case 'temperature':
+      return brewingParameters.waterTemperature;
+    case 'ratio':
+      return measurements.coffeeBeans && measurements.water
+        ? Math.round((measurements.water / measurements.coffeeBeans) * 10) / 10
+        : undefined;
+    case 'water':
+      return brewingParameters.waterProfileId;
+    case 'filter':
+      return brewingParameters.filteringTools || undefined;
+  }
+};
+
+/**
+ * Whether two values of a variable mean the same thing (text is compared case-insensitively)
+ */
+export const isSameExperimentValue = (a: ExperimentValue | undefined, b: ExperimentValue | undefined): boolean => {
+  if (a === undefined || b === undefined) return false;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+};
+
+/**
+ * Display form of a value (the water profile ID is shown as-is; callers label it with the profile name)
+ */
+export const formatExperimentValue = (variable: ExperimentVariable, value: ExperimentValue): string => {
+  switch (variable) {
+    case 'temperature':
+      return `${value}°C`;
+    case 'ratio':
+      return `1:${value}`;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Recipe input of a variant: the base recipe with only the variable changed.
+ * Ratio variants keep the dose and change the water. Measured results and the
+ * tasting belong to the base brew and are left out.
+ */
+export const buildVariantRecipe = (
+  base: Recipe,
+  variable: ExperimentVariable,
+  value: ExperimentValue,
+  recipeName: string
+): RecipeInput => {
+  const input = recipeToInput(base);
+  const brewingParameters = { ...input.brewingParameters };
+  const { brewedCoffeeWeight: _output, tds: _tds, extractionYield: _ey, coffeeWaterRatio: _ratio, ...measurements } = input.measurements;
+
+  switch (variable) {
+    case 'grind':
+      brewingParameters.grinderUnit = String(value);
+      break;
+    case 'temperature':
+      brewingParameters.waterTemperature = Number(value);
+      break;
+    case 'ratio':
+      measurements.water = Math.round(measurements.coffeeBeans * Number(value) * 10) / 10;
+      break;
+    case 'water':
+      brewingParameters.waterProfileId = String(value);
+      break;
+    case 'filter':
+      brewingParameters.filteringTools = String(value);
+      delete brewingParameters.filterId;
+      break;
+  }
+
+  return {
+    ...input,
+    recipeName,
+    isFavorite: false,
+    collections: [],
+    brewingParameters,
+    measurements,
+    sensationRecord: { evaluationSystem: base.sensationRecord.evaluationSystem }
+  };
+};
+
+/**
+ * Order revealed variants best first. Equal average scores share a rank;
+ * variants without a scored tasting come last, unranked.
+ */
+export const rankExperimentVariants = (variants: ExperimentVariant[]): ExperimentVariant[] => {
+  const scored = variants
+    .filter(variant => variant.stats?.averageScore !== undefined)
+    .sort((a, b) => b.stats!.averageScore! - a.stats!.averageScore! || a.code.localeCompare(b.code));
+  const unscored = variants
+    .filter(variant => variant.stats?.averageScore === undefined)
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  const ranked = scored.map((variant, index) => {
+    const previous = scored[index - 1];
+    const rank = previous && previous.stats!.averageScore === variant.stats!.averageScore
+      ? undefined
+      : index + 1;
+    return { ...variant, rank };
+  });
+  ranked.forEach((variant, index) => {
+    if (variant.rank === undefined) variant.rank = ranked[index - 1]!.rank;
+  });
+
+  return [...ranked, ...unscored.map(({ rank: _rank, ...variant }) => variant)];
+};
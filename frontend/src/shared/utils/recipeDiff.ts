@@ -0,0 +1,121 @@
+// Utility functions for comparing recipe versions
+
+import type { Recipe, RecipeInput } from '../types/recipe.js';
+import type { RecipeFieldChange } from '../types/revision.js';
+
+// Metadata that changes on every save or is managed outside the recipe form
+const IGNORED_FIELDS = ['recipeId', 'dateCreated', 'dateModified', 'collections', 'isFavorite'];
+
+// Display names for nested recipe sections
+const SECTION_LABELS: Record<string, string> = {
+  beanInfo: 'Bean',
+  brewingParameters: 'Brewing',
+  turbulenceInfo: 'Turbulence',
+  measurements: 'Measurements',
+  sensationRecord: 'Sensation',
+  traditionalSCA: 'SCA',
+  cvaDescriptive: 'CVA Descriptive',
+  cvaAffective: 'CVA Affective',
+  quickTasting: 'Quick Tasting'
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Treat missing, null and blank values as the same "not set" state
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+/**
+ * Flatten a recipe into dot-path keyed leaf values (arrays are kept whole)
+ * @param recipe - Recipe to flatten
+ * @returns Map of field path to value
+ */
+export const flattenRecipe = (recipe: Recipe): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  const visit = (value: unknown, path: string) => {
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([key, child]) => visit(child, path ? `${path}.${key}` : key));
+    } else {
+      result[path] = value;
+    }
+  };
+
+  Object.entries(recipe).forEach(([key, value]) => {
+    if (!IGNORED_FIELDS.includes(key)) visit(value, key);
+  });
+
+  return result;
+};
+
+/**
+ * Format a recipe field path for display
+ * @param field - Dot path, e.g. 'sensationRecord.cvaAffective.cvaScore'
+ * @returns Label such as "CVA Affective › Cva Score"
+ */
+export const formatRecipeFieldLabel = (field: string): string => {
+  const segments = field.split('.');
+  const leaf = segments[segments.length - 1] ?? field;
+  const section = [...segments.slice(0, -1)].reverse().find(segment => SECTION_LABELS[segment]);
+  const leafLabel = leaf
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, char => char.toUpperCase());
+
+  return section ? `${SECTION_LABELS[section]} › ${leafLabel}` : leafLabel;
+};
+
+/**
+ * Compare two recipe versions field by field
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Changed fields in recipe order
+ */
+export const diffRecipes = (before: Recipe, after: Recipe): RecipeFieldChange[] => {
+  const beforeFields = flattenRecipe(before);
+  const afterFields = flattenRecipe(after);
+  const fields = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])];
+
+  return fields
+    .filter(field =>
+      JSON.stringify(normalizeValue(beforeFields[field])) !== JSON.stringify(normalizeValue(afterFields[field]))
+    )
+    .map(field => ({
+      field,
+      label: formatRecipeFieldLabel(field),
+      before: beforeFields[field],
+      after: afterFields[field]
+    }));
+};
+
+/**
+ * List the field paths that differ between two recipe versions
+ */
+export const getChangedRecipeFields = (before: Recipe, after: Recipe): string[] => {
+  return diffRecipes(before, after).map(change => change.field);
+};
+
+/**
+ * Convert a saved recipe back into form input (e.g. to restore a revision)
+ * @param recipe - Saved recipe
+ * @returns Input accepted by create/update
+ */
+export const recipeToInput = (recipe: Recipe): RecipeInput => {
+  const { coffeeWaterRatio: _ratio, ...measurements } = recipe.measurements;
+
+  return {
+    recipeName: recipe.recipeName,
+    isFavorite: recipe.isFavorite,
+    collections: recipe.collections,
+    beanInfo: recipe.beanInfo,
+    brewingParameters: recipe.brewingParameters,
+    turbulenceInfo: recipe.turbulenceInfo,
+    measurements,
+    sensationRecord: recipe.sensationRecord
+  };
+};
@@ -0,0 +1,386 @@
+// Mapping spreadsheet rows onto recipes for import
+
+import { BrewingMethod, RoastingLevel, type EvaluationSystem, type RecipeInput, type SensationRecord } from '../types/recipe.js';
+import type {
+  RecipeImportEvaluationField,
+  RecipeImportField,
+  RecipeImportIssue,
+  RecipeImportMapping,
+  RecipeImportRow
+} from '../types/import.js';
+import { EVALUATION_EXPORT_GROUPS } from './evaluationExport.js';
+import { getMigratedOrigin } from '../constants/coffeeOrigins.js';
+import { getMigratedProcessingMethod } from '../constants/processingMethods.js';
+import { migrateGrinderModel } from '../constants/grinderModels.js';
+import { migrateTemperature } from '../constants/waterTemperature.js';
+import { migrateFilteringTool } from '../constants/filteringTools.js';
+
+type ImportValueKind = 'text' | 'number' | 'date' | 'boolean' | 'list';
+type EvaluationSection = 'traditionalSCA' | 'cvaDescriptive' | 'cvaAffective' | 'quickTasting';
+
+export interface RecipeImportFieldDefinition {
+  field: RecipeImportField;
+  label: string;
+  kind: ImportValueKind;
+  required?: boolean;
+  maxLength?: number; // Database column limit
+  aliases: string[]; // Other header names matched automatically (export headers included)
+  group?: string; // Scoring form the field belongs to; such fields match by their export header only
+}
+
+// Scoring form columns that are not scores; every other one is a number
+const EVALUATION_VALUE_KINDS: Record<string, Pick<RecipeImportFieldDefinition, 'kind' | 'maxLength'>> = {
+  'sensationRecord.cvaDescriptive.fragranceAromaDescriptors': { kind: 'list' },
+  'sensationRecord.cvaDescriptive.flavorAftertasteDescriptors': { kind: 'list' },
+  'sensationRecord.cvaDescriptive.mainTastes': { kind: 'list' },
+  'sensationRecord.cvaDescriptive.mouthfeelDescriptors': { kind: 'list' },
+  'sensationRecord.cvaDescriptive.acidityDescriptors': { kind: 'text' },
+  'sensationRecord.cvaDescriptive.sweetnessDescriptors': { kind: 'text' },
+  'sensationRecord.cvaDescriptive.additionalNotes': { kind: 'text' },
+  'sensationRecord.cvaDescriptive.roastLevel': { kind: 'text', maxLength: 100 },
+  'sensationRecord.cvaDescriptive.assessmentDate': { kind: 'date' },
+  'sensationRecord.cvaDescriptive.assessorId': { kind: 'text', maxLength: 100 },
+  'sensationRecord.quickTasting.flavorAftertasteDescriptors': { kind: 'list' }
+};
+
+// The SCA, CVA and quick tasting columns of the export, so exported files map back onto every form
+const EVALUATION_IMPORT_FIELDS: RecipeImportFieldDefinition[] = EVALUATION_EXPORT_GROUPS
+  .filter(({ group }) => group !== 'legacy')
+  .flatMap(({ label, columns }) => columns.map(column => ({
+    field: column.key as RecipeImportEvaluationField,
+    label: column.header,
+    kind: 'number' as const,
+    ...EVALUATION_VALUE_KINDS[column.key],
+    aliases: [],
+    group: label
+  })));
+
+// Evaluation systems and the sensation record section each one fills
+const EVALUATION_SYSTEM_SECTIONS: Array<{ system: EvaluationSystem; section?: EvaluationSection }> = [
+  { system: 'traditional-sca', section: 'traditionalSCA' },
+  { system: 'cva-descriptive', section: 'cvaDescriptive' },
+  { system: 'cva-affective', section: 'cvaAffective' },
+  { system: 'quick-tasting', section: 'quickTasting' },
+  { system: 'legacy' }
+];
+
+/**
+ * Fields a column can be mapped to, in the order the mapping step lists them
+ */
+export const RECIPE_IMPORT_FIELDS: RecipeImportFieldDefinition[] = [
+  { field: 'recipeName', label: 'Recipe Name', kind: 'text', maxLength: 200, aliases: ['name', 'recipe'] },
+  { field: 'isFavorite', label: 'Is Favorite', kind: 'boolean', aliases: ['favorite', 'favourite'] },
+  { field: 'beanInfo.coffeeBeanBrand', label: 'Brand', kind: 'text', maxLength: 100, aliases: ['coffee bean brand', 'roaster', 'producer'] },
+  { field: 'beanInfo.origin', label: 'Origin', kind: 'text', required: true, maxLength: 100, aliases: ['country', 'bean origin'] },
+  { field: 'beanInfo.processingMethod', label: 'Processing Method', kind: 'text', required: true, maxLength: 50, aliases: ['process', 'processing'] },
+  { field: 'beanInfo.altitude', label: 'Altitude', kind: 'number', aliases: ['altitude (m)', 'elevation'] },
+  { field: 'beanInfo.roastingDate', label: 'Roasting Date', kind: 'date', aliases: ['roast date', 'roasted'] },
+  { field: 'beanInfo.roastingLevel', label: 'Roasting Level', kind: 'text', aliases: ['roast', 'roast level'] },
+  { field: 'brewingParameters.waterTemperature', label: 'Water Temperature', kind: 'number', aliases: ['water temperature (°c)', 'temperature', 'temp'] },
+  { field: 'brewingParameters.brewingMethod', label: 'Brewing Method', kind: 'text', aliases: ['method', 'brewer'] },
+  { field: 'brewingParameters.grinderModel', label: 'Grinder Model', kind: 'text', required: true, maxLength: 100, aliases: ['grinder'] },
+  { field: 'brewingParameters.grinderUnit', label: 'Grinder Setting', kind: 'text', required: true, maxLength: 50, aliases: ['grind setting', 'grind size', 'grind'] },
+  { field: 'brewingParameters.filteringTools', label: 'Filter Tools', kind: 'text', maxLength: 100, aliases: ['filter', 'filtering tools'] },
+  { field: 'brewingParameters.additionalNotes', label: 'Additional Notes', kind: 'text', aliases: ['brewing notes', 'notes'] },
+  { field: 'measurements.coffeeBeans', label: 'Coffee (g)', kind: 'number', required: true, aliases: ['coffee', 'dose', 'coffee beans'] },
+  { field: 'measurements.water', label: 'Water (g)', kind: 'number', required: true, aliases: ['water'] },
+  { field: 'measurements.brewedCoffeeWeight', label: 'Brewed Coffee (g)', kind: 'number', aliases: ['yield', 'beverage weight', 'brewed coffee weight'] },
+  { field: 'measurements.tds', label: 'TDS (%)', kind: 'number', aliases: ['tds'] },
+  { field: 'measurements.extractionYield', label: 'Extraction Yield (%)', kind: 'number', aliases: ['extraction yield', 'ey'] },
+  { field: 'sensationRecord.overallImpression', label: 'Overall Rating', kind: 'number', aliases: ['rating', 'overall', 'overall impression', 'score'] },
+  { field: 'sensationRecord.acidity', label: 'Acidity', kind: 'number', aliases: [] },
+  { field: 'sensationRecord.body', label: 'Body', kind: 'number', aliases: [] },
+  { field: 'sensationRecord.sweetness', label: 'Sweetness', kind: 'number', aliases: [] },
+  { field: 'sensationRecord.flavor', label: 'Flavor', kind: 'number', aliases: ['flavour'] },
+  { field: 'sensationRecord.aftertaste', label: 'Aftertaste', kind: 'number', aliases: [] },
+  { field: 'sensationRecord.balance', label: 'Balance', kind: 'number', aliases: [] },
+  { field: 'sensationRecord.tastingNotes', label: 'Tasting Notes', kind: 'text', aliases: ['tasting', 'flavor notes', 'descriptors'] },
+  { field: 'sensationRecord.evaluationSystem', label: 'Evaluation System', kind: 'text', aliases: ['evaluation', 'scoring system'] },
+  ...EVALUATION_IMPORT_FIELDS
+];
+
+const FIELD_DEFINITIONS = new Map(RECIPE_IMPORT_FIELDS.map(definition => [definition.field, definition]));
+
+// Lower case without punctuation, so "Coffee (g)" and "coffee_g" compare equal
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9%°]+/g, '');
+
+/**
+ * Guess the field of each column from its header. Each field is used at most once,
+ * by the first column that matches it.
+ */
+export const suggestImportMapping = (headers: string[]): RecipeImportMapping => {
+  const mapping: RecipeImportMapping = {};
+  const used = new Set<RecipeImportField>();
+
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return;
+    const match = RECIPE_IMPORT_FIELDS.find(definition =>
+      !used.has(definition.field) &&
+      [definition.label, ...(definition.group ? [] : [definition.field.split('.').pop()!]), ...definition.aliases].some(name => normalizeHeader(name) === normalized)
+    );
+    if (match) {
+      mapping[header] = match.field;
+      used.add(match.field);
+    }
+  });
+
+  return mapping;
+};
+
+// Spreadsheet cell as trimmed text ('' when empty); dates from Excel become ISO dates
+const cellToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+const parseNumber = (text: string): number | null => {
+  // Accept a decimal comma ("18,5") when there is no decimal point
+  const normalized = text.includes('.') ? text.replace(/,/g, '') : text.replace(',', '.');
+  // Units after the number ("18g", "93°C") are ignored
+  const cleaned = normalized.replace(/[^0-9.eE+-]/g, '');
+  const parsed = Number(cleaned);
+  return /\d/.test(cleaned) && Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseBoolean = (text: string): boolean | null => {
+  const normalized = text.toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x', '★'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0'].includes(normalized)) return false;
+  return null;
+};
+
+// CATA selections are exported as one cell, separated by semicolons
+const parseList = (text: string): string[] => text.split(/[;,]/).map(item => item.trim()).filter(Boolean);
+
+const parseDate = (text: string): string | null => {
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+// Match a controlled value by its value or its words ("Pour Over" → 'pour-over')
+const matchEnumValue = <T extends string>(values: T[], text: string): T | null => {
+  const normalized = normalizeHeader(text);
+  return values.find(value => normalizeHeader(value) === normalized) ?? null;
+};
+
+/**
+ * Check the values a recipe needs before it can be saved: the required fields
+ * (same rules as POST /api/recipes) and the database column lengths.
+ */
+export const validateImportedRecipe = (recipe: RecipeInput): RecipeImportIssue[] => {
+  const issues: RecipeImportIssue[] = [];
+  const valueOf = (field: RecipeImportField): unknown =>
+    field.split('.').reduce<any>((value, key) => value?.[key], recipe);
+
+  RECIPE_IMPORT_FIELDS.forEach(({ field, label, kind, required, maxLength }) => {
+    const value = valueOf(field);
+    if (required) {
+      const missing = kind === 'number'
+        ? typeof value !== 'number' || !Number.isFinite(value) || value <= 0
+        : typeof value !== 'string' || value.trim() === '';
+      if (missing) {
+        issues.push({ field, message: kind === 'number' ? `${label} is required and must be a positive number` : `${label} is required` });
+      }
+    }
+    if (maxLength && typeof value === 'string' && value.length > maxLength) {
+      issues.push({ field, message: `${label} is too long (${value.length} chars, limit: ${maxLength})` });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Map one spreadsheet row onto a recipe. Values go through the same migration
+ * helpers as stored legacy data (origins, processing methods, grinder models,
+ * water temperatures and filters); what they change or drop becomes a warning.
+ * Scores of every evaluation system are kept, along with the row's system.
+ * @param values - Cells of the row keyed by column header
+ * @param row - Row number in the spreadsheet, reported back with errors
+ */
+export const mapImportRow = (values: Record<string, unknown>, mapping: RecipeImportMapping, row: number): RecipeImportRow => {
+  const errors: RecipeImportIssue[] = [];
+  const warnings: RecipeImportIssue[] = [];
+  const parsed: Partial<Record<RecipeImportField, string | number | boolean | string[]>> = {};
+
+  Object.entries(mapping).forEach(([header, field]) => {
+    const definition = FIELD_DEFINITIONS.get(field);
+    const text = cellToText(values[header]);
+    if (!definition || text === '') return;
+
+    switch (definition.kind) {
+      case 'number': {
+        const number = parseNumber(text);
+        if (number === null) {
+          errors.push({ field, message: `${definition.label} must be a number (got "${text}")` });
+        } else {
+          parsed[field] = number;
+        }
+        break;
+      }
+      case 'boolean': {
+        const flag = parseBoolean(text);
+        if (flag === null) {
+          errors.push({ field, message: `${definition.label} must be yes or no (got "${text}")` });
+        } else {
+          parsed[field] = flag;
+        }
+        break;
+      }
+      case 'date': {
+        const date = values[header] instanceof Date ? text : parseDate(text);
+        if (date === null) {
+          errors.push({ field, message: `${definition.label} must be a date (got "${text}")` });
+        } else {
+          parsed[field] = date;
+        }
+        break;
+      }
+      case 'list':
+        parsed[field] = parseList(text);
+        break;
+      default:
+        parsed[field] = text;
+    }
+  });
+
+  const text = (field: RecipeImportField): string | undefined => parsed[field] as string | undefined;
+  const number = (field: RecipeImportField): number | undefined => parsed[field] as number | undefined;
+
+  // Legacy values → current controlled values
+  let origin = text('beanInfo.origin');
+  if (origin) {
+    const migrated = getMigratedOrigin(origin);
+    if (!migrated) {
+      warnings.push({ field: 'beanInfo.origin', message: `Origin "${origin}" is not in the origin list` });
+    } else if (migrated !== origin) {
+      warnings.push({ field: 'beanInfo.origin', message: `Origin "${origin}" imported as "${migrated}"` });
+      origin = migrated;
+    }
+  }
+
+  let processingMethod = text('beanInfo.processingMethod');
+  if (processingMethod) {
+    const migrated = getMigratedProcessingMethod(processingMethod);
+    if (migrated && migrated !== processingMethod) {
+      warnings.push({ field: 'beanInfo.processingMethod', message: `Processing method "${processingMethod}" imported as "${migrated}"` });
+      processingMethod = migrated;
+    }
+  }
+
+  let grinderModel = text('brewingParameters.grinderModel');
+  if (grinderModel) {
+    const migrated = migrateGrinderModel(grinderModel);
+    if (migrated !== grinderModel) {
+      warnings.push({ field: 'brewingParameters.grinderModel', message: `Grinder "${grinderModel}" imported as "${migrated}"` });
+      grinderModel = migrated;
+    }
+  }
+
+  let waterTemperature = number('brewingParameters.waterTemperature');
+  if (waterTemperature !== undefined) {
+    const migrated = migrateTemperature(waterTemperature);
+    if (migrated === null) {
+      warnings.push({ field: 'brewingParameters.waterTemperature', message: `Water temperature ${waterTemperature}°C is out of range and was left out` });
+      waterTemperature = undefined;
+    } else if (migrated !== waterTemperature) {
+      warnings.push({ field: 'brewingParameters.waterTemperature', message: `Water temperature ${waterTemperature}°C imported as ${migrated}°C` });
+      waterTemperature = migrated;
+    }
+  }
+
+  let filteringTools = text('brewingParameters.filteringTools');
+  if (filteringTools) {
+    const migrated = migrateFilteringTool(filteringTools);
+    if (migrated === null) {
+      warnings.push({ field: 'brewingParameters.filteringTools', message: `Filter "${filteringTools}" was not recognized and was left out` });
+      filteringTools = undefined;
+    } else if (migrated !== filteringTools) {
+      warnings.push({ field: 'brewingParameters.filteringTools', message: `Filter "${filteringTools}" imported as "${migrated}"` });
+      filteringTools = migrated;
+    }
+  }
+
+  const roastingLevelText = text('beanInfo.roastingLevel');
+  const roastingLevel = roastingLevelText ? matchEnumValue(Object.values(RoastingLevel), roastingLevelText) : null;
+  if (roastingLevelText && !roastingLevel) {
+    errors.push({ field: 'beanInfo.roastingLevel', message: `Roasting level must be one of ${Object.values(RoastingLevel).join(', ')} (got "${roastingLevelText}")` });
+  }
+
+  const brewingMethodText = text('brewingParameters.brewingMethod');
+  const brewingMethod = brewingMethodText ? matchEnumValue(Object.values(BrewingMethod), brewingMethodText) : null;
+  if (brewingMethodText && !brewingMethod) {
+    errors.push({ field: 'brewingParameters.brewingMethod', message: `Brewing method must be one of ${Object.values(BrewingMethod).join(', ')} (got "${brewingMethodText}")` });
+  }
+
+  // Scoring form fields go into their section of the sensation record
+  const sections: Partial<Record<EvaluationSection, Record<string, unknown>>> = {};
+  Object.entries(parsed).forEach(([field, value]) => {
+    const [, section, key] = field.split('.') as [string, EvaluationSection, string?];
+    if (key) {
+      sections[section] = { ...sections[section], [key]: value };
+    }
+  });
+
+  // The row's system is kept; without one, the first form the row has scores for
+  const systemText = text('sensationRecord.evaluationSystem');
+  const evaluationSystem = systemText
+    ? matchEnumValue(EVALUATION_SYSTEM_SECTIONS.map(({ system }) => system), systemText)
+    : EVALUATION_SYSTEM_SECTIONS.find(({ section }) => !section || sections[section])!.system;
+  if (!evaluationSystem) {
+    errors.push({
+      field: 'sensationRecord.evaluationSystem',
+      message: `Evaluation system must be one of ${EVALUATION_SYSTEM_SECTIONS.map(({ system }) => system).join(', ')} (got "${systemText}")`
+    });
+  }
+
+  const recipe: RecipeInput = {
+    recipeName: text('recipeName') ?? '',
+    isFavorite: (parsed.isFavorite as boolean | undefined) ?? false,
+    collections: [],
+    beanInfo: {
+      coffeeBeanBrand: text('beanInfo.coffeeBeanBrand'),
+      origin: origin ?? '',
+      processingMethod: processingMethod ?? '',
+      altitude: number('beanInfo.altitude'),
+      roastingDate: text('beanInfo.roastingDate'),
+      roastingLevel: roastingLevel ?? undefined
+    },
+    brewingParameters: {
+      waterTemperature,
+      brewingMethod: brewingMethod ?? undefined,
+      grinderModel: grinderModel ?? '',
+      grinderUnit: parsed['brewingParameters.grinderUnit'] !== undefined ? String(parsed['brewingParameters.grinderUnit']) : '',
+      filteringTools,
+      additionalNotes: text('brewingParameters.additionalNotes')
+    },
+    turbulenceInfo: {},
+    measurements: {
+      coffeeBeans: number('measurements.coffeeBeans') ?? 0,
+      water: number('measurements.water') ?? 0,
+      brewedCoffeeWeight: number('measurements.brewedCoffeeWeight'),
+      tds: number('measurements.tds'),
+      extractionYield: number('measurements.extractionYield')
+    },
+    sensationRecord: {
+      evaluationSystem: evaluationSystem ?? 'legacy',
+      overallImpression: number('sensationRecord.overallImpression'),
+      acidity: number('sensationRecord.acidity'),
+      body: number('sensationRecord.body'),
+      sweetness: number('sensationRecord.sweetness'),
+      flavor: number('sensationRecord.flavor'),
+      aftertaste: number('sensationRecord.aftertaste'),
+      balance: number('sensationRecord.balance'),
+      tastingNotes: text('sensationRecord.tastingNotes'),
+      ...sections as Pick<SensationRecord, EvaluationSection>
+    }
+  };
+
+  // Required values are reported only once the cell itself parsed
+  const reported = new Set(errors.map(error => error.field));
+  errors.push(...validateImportedRecipe(recipe).filter(issue => !reported.has(issue.field)));
+
+  return errors.length > 0 ? { row, errors, warnings } : { row, recipe, errors, warnings };
+};
@@ -0,0 +1,541 @@
+// Structured search query syntax for the search bar, e.g.
+//   origin:ethiopia method:pour-over score>=85 tds:1.3..1.45 roasted<14d notes:"jasmine"
+
+import { BrewingMethod, RoastingLevel } from '../types/recipe.js';
+import type {
+  ParsedSearchQuery,
+  SearchFacets,
+  SearchFilters,
+  SearchQueryError,
+  SearchSuggestion
+} from '../types/search.js';
+import { SearchFiltersSchema } from '../validation/searchSchema.js';
+import { formatBrewingMethod, formatRoastingLevel } from './formatting.js';
+
+export interface SearchQueryOptions {
+  facets?: Partial<Pick<SearchFacets, 'origins' | 'collections'>>; // Known values, used to match case and for autocomplete
+  now?: Date; // Reference time for relative dates such as roasted<14d
+}
+
+type SearchQueryOperator = ':' | '=' | '>=' | '<=' | '>' | '<';
+
+interface QueryToken {
+  raw: string;
+  start: number;
+  end: number;
+  key?: string;
+  operator?: SearchQueryOperator;
+  value: string; // Unquoted value, or the whole token for free text
+  rawValue: string; // Value as typed, quotes included
+}
+
+type RangeFilter = 'scoreRange' | 'overallImpressionRange' | 'tdsRange' | 'coffeeWaterRatioRange' | 'altitudeRange';
+
+interface RangeField {
+  filter: RangeFilter;
+  label: string;
+  bounds: [number, number];
+  step: number; // Smallest recorded increment; strict comparisons move the bound by one step
+  examples: Array<[string, string]>;
+}
+
+const RANGE_FIELDS: Record<string, RangeField> = {
+  score: {
+    filter: 'scoreRange', label: 'Score', bounds: [0, 100], step: 0.25,
+    examples: [['score>=85', 'Score 85 or higher'], ['score:80..90', 'Score between 80 and 90']]
+  },
+  rating: {
+    filter: 'overallImpressionRange', label: 'Rating', bounds: [1, 10], step: 1,
+    examples: [['rating>=8', 'Rating 8 or higher']]
+  },
+  tds: {
+    filter: 'tdsRange', label: 'TDS', bounds: [0, 30], step: 0.01,
+    examples: [['tds:1.3..1.45', 'TDS between 1.30% and 1.45%']]
+  },
+  ratio: {
+    filter: 'coffeeWaterRatioRange', label: 'Ratio', bounds: [0, 100], step: 0.1,
+    examples: [['ratio:15..17', 'Ratio between 1:15 and 1:17']]
+  },
+  altitude: {
+    filter: 'altitudeRange', label: 'Altitude', bounds: [0, 10000], step: 1,
+    examples: [['altitude>=1800', 'Grown at 1800 m or higher']]
+  }
+};
+
+const DATE_FIELDS: Record<string, NonNullable<SearchFilters['dateRange']>['field']> = {
+  roasted: 'roastingDate',
+  created: 'dateCreated',
+  modified: 'dateModified'
+};
+
+const dateExamples = (key: string): Array<[string, string]> => {
+  const label = key.charAt(0).toUpperCase() + key.slice(1);
+  return [
+    [`${key}<14d`, `${label} in the last 14 days`],
+    [`${key}>30d`, `${label} more than 30 days ago`],
+    [`${key}:2024-01-01..2024-03-31`, `${label} between two dates`]
+  ];
+};
+
+// Keys offered by autocomplete, in display order
+const QUERY_KEYS: Array<{ key: string; suffix: string; description: string }> = [
+  { key: 'origin', suffix: ':', description: 'Bean origin' },
+  { key: 'method', suffix: ':', description: 'Brewing method' },
+  { key: 'roast', suffix: ':', description: 'Roast level' },
+  { key: 'score', suffix: '>=', description: 'Cupping score (0-100)' },
+  { key: 'rating', suffix: '>=', description: 'Overall impression (1-10)' },
+  { key: 'tds', suffix: ':', description: 'Total dissolved solids (%)' },
+  { key: 'ratio', suffix: ':', description: 'Water-to-coffee ratio' },
+  { key: 'altitude', suffix: '>=', description: 'Growing altitude (m)' },
+  { key: 'roasted', suffix: '<', description: 'Roast age, e.g. roasted<14d' },
+  { key: 'created', suffix: ':', description: 'Date created' },
+  { key: 'modified', suffix: ':', description: 'Date modified' },
+  { key: 'collection', suffix: ':', description: 'Collection name' },
+  { key: 'notes', suffix: ':', description: 'Words in notes and names' },
+  { key: 'is', suffix: ':', description: 'is:favorite' },
+  { key: 'has', suffix: ':', description: 'has:rating' }
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  brew: 'method',
+  impression: 'rating',
+  collections: 'collection',
+  in: 'collection',
+  note: 'notes',
+  text: 'notes',
+  roasting: 'roast'
+};
+
+const TOKEN_PATTERN = /^([a-z]+)(>=|<=|:|=|>|<)([\s\S]*)$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_UNITS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+const unquote = (value: string): string => value.replace(/^"/, '').replace(/"$/, '');
+
+const quoteIfNeeded = (value: string): string => (/\s/.test(value) ? `"${value}"` : value);
+
+const compact = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Split a query into whitespace-separated tokens; double quotes keep spaces inside one token
+const tokenize = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index]!)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuotes = false;
+    while (index < query.length && (inQuotes || !/\s/.test(query[index]!))) {
+      if (query[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+
+    const raw = query.slice(start, index);
+    const match = raw.match(TOKEN_PATTERN);
+    tokens.push(match
+      ? { raw, start, end: index, key: match[1]!.toLowerCase(), operator: match[2] as SearchQueryOperator, value: unquote(match[3]!), rawValue: match[3]! }
+      : { raw, start, end: index, value: unquote(raw), rawValue: raw });
+  }
+
+  return tokens;
+};
+
+// Split a comma-separated value list; quoted entries may contain commas and spaces
+const splitValues = (rawValue: string): string[] =>
+  Array.from(rawValue.matchAll(/"([^"]*)"?|([^,]+)/g), match => (match[1] ?? match[2] ?? '').trim()).filter(Boolean);
+
+const resolveKey = (key: string): string => KEY_ALIASES[key] ?? key;
+
+// Match a typed value against enum values, ignoring case and punctuation ("pourover" -> "pour-over").
+// A unique prefix is accepted too ("french" -> "french-press").
+const matchEnumValue = <T extends string>(value: string, options: T[]): T | undefined => {
+  const typed = compact(value);
+  if (!typed) return undefined;
+  const exact = options.find(option => compact(option) === typed);
+  if (exact) return exact;
+  const prefixed = options.filter(option => compact(option).startsWith(typed));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+};
+
+// Use the stored spelling when the value is known, otherwise capitalize each word
+const matchKnownValue = (value: string, known: Array<{ value: string }> | undefined, capitalize: boolean): string => {
+  const found = known?.find(entry => entry.value.toLowerCase() === value.toLowerCase());
+  if (found) return found.value;
+  return capitalize ? value.replace(/\b\p{L}/gu, letter => letter.toUpperCase()) : value;
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return undefined;
+  return Number(value);
+};
+
+const roundToStep = (value: number, step: number): number => Number(value.toFixed(step < 1 ? 2 : 0));
+
+const parseRange = (
+  field: RangeField,
+  operator: SearchQueryOperator,
+  rawValue: string
+): { range?: [number, number]; error?: string } => {
+  // Ratios may be written as 1:15
+  const value = field.filter === 'coffeeWaterRatioRange' ? rawValue.replace(/^1:/, '').replace(/\.\.1:/, '..') : rawValue;
+  const [min, max] = field.bounds;
+  let range: [number, number];
+
+  if ((operator === ':' || operator === '=') && value.includes('..')) {
+    const [from, to] = value.split('..');
+    const low = from ? parseNumber(from) : min;
+    const high = to ? parseNumber(to) : max;
+    if (low === undefined || high === undefined) {
+      return { error: `${field.label} range must look like ${field.examples[0]![0].replace(/^[a-z]+(>=|:)/, '')}` };
+    }
+    range = [low, high];
+  } else {
+    const number = parseNumber(value);
+    if (number === undefined) {
+      return { error: `${field.label} needs a number, e.g. ${field.examples[0]![0]}` };
+    }
+    switch (operator) {
+      case '>=': range = [number, max]; break;
+      case '>': range = [roundToStep(number + field.step, field.step), max]; break;
+      case '<=': range = [min, number]; break;
+      case '<': range = [min, roundToStep(number - field.step, field.step)]; break;
+      default: range = [number, number];
+    }
+  }
+
+  if (range[0] < min || range[1] > max) {
+    return { error: `${field.label} must be between ${min} and ${max}` };
+  }
+  if (field.step === 1 && !range.every(Number.isInteger)) {
+    return { error: `${field.label} must be a whole number` };
+  }
+  if (range[0] > range[1]) {
+    return { error: `${field.label} range is empty` };
+  }
+  return { range };
+};
+
+// Resolve "14d" (age relative to now) or "2024-05-01" (calendar day) to a time window
+const parseDateValue = (value: string, now: Date): { start: number; end: number; relative: boolean } | undefined => {
+  const relative = value.match(/^(\d+)([dwmy])$/i);
+  if (relative) {
+    const time = now.getTime() - Number(relative[1]) * RELATIVE_UNITS[relative[2]!.toLowerCase()]! * DAY_MS;
+    return { start: time, end: time, relative: true };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const start = new Date(`${value}T00:00:00.000Z`).getTime();
+    if (isNaN(start)) return undefined;
+    return { start, end: start + DAY_MS - 1, relative: false };
+  }
+
+  return undefined;
+};
+
+const parseDateRange = (
+  operator: SearchQueryOperator,
+  value: string,
+  now: Date
+): { range?: [number, number]; error?: string } => {
+  const invalid = { error: 'Dates look like 14d, 2w, 3m or 2024-05-01' };
+  const nowTime = now.getTime();
+
+  if ((operator === ':' || operator === '=') && value.includes('..')) {
+    const [fromText, toText] = value.split('..');
+    const from = fromText ? parseDateValue(fromText, now) : undefined;
+    const to = toText ? parseDateValue(toText, now) : undefined;
+    if ((fromText && !from) || (toText && !to)) return invalid;
+
+    if (from && to) {
+      // Relative bounds are ages (7d..14d), so take the outer edges whichever way round they are
+      return { range: [Math.min(from.start, to.start), Math.max(from.end, to.end)] };
+    }
+    if (from) {
+      // 2024-05-01.. is on or after that day; 14d.. is at least 14 days old
+      return { range: from.relative ? [0, from.end] : [from.start, nowTime] };
+    }
+    if (to) {
+      // ..2024-05-01 is up to that day; ..14d is at most 14 days old
+      return { range: to.relative ? [to.start, nowTime] : [0, to.end] };
+    }
+    return invalid;
+  }
+
+  const date = parseDateValue(value, now);
+  if (!date) return invalid;
+
+  if (date.relative) {
+    // roasted<14d: less than 14 days old; roasted>14d: older than that
+    return operator === '>' || operator === '>='
+      ? { range: [0, date.start] }
+      : { range: [date.start, nowTime] };
+  }
+
+  switch (operator) {
+    case '<': return { range: [0, date.start - 1] };
+    case '<=': return { range: [0, date.end] };
+    case '>': return { range: [date.end + 1, nowTime] };
+    case '>=': return { range: [date.start, nowTime] };
+    default: return { range: [date.start, date.end] };
+  }
+};
+
+/**
+ * Parse a structured search query into search filters. Unrecognised or malformed
+ * tokens are reported in `errors` and otherwise ignored; words without a key are
+ * searched as free text. A trailing key with no value yet (e.g. "origin:") is
+ * treated as still being typed and not reported.
+ */
+export const parseSearchQuery = (query: string, options: SearchQueryOptions = {}): ParsedSearchQuery => {
+  const now = options.now ?? new Date();
+  const filters: SearchFilters = {};
+  const errors: SearchQueryError[] = [];
+  const textParts: string[] = [];
+  const tokenForFilter = new Map<string, QueryToken>();
+
+  const fail = (token: QueryToken, message: string) => {
+    errors.push({ token: token.raw, start: token.start, end: token.end, message });
+  };
+
+  const addValues = <K extends 'origins' | 'collections' | 'brewingMethods' | 'roastingLevels'>(
+    filter: K,
+    values: NonNullable<SearchFilters[K]>,
+    token: QueryToken
+  ) => {
+    const existing = (filters[filter] ?? []) as string[];
+    filters[filter] = Array.from(new Set([...existing, ...(values as string[])])) as SearchFilters[K];
+    tokenForFilter.set(filter, token);
+  };
+
+  for (const token of tokenize(query)) {
+    if (!token.key || !token.operator) {
+      if (token.value) textParts.push(token.value);
+      continue;
+    }
+
+    const key = resolveKey(token.key);
+    const values = splitValues(token.rawValue);
+
+    if (!token.value) {
+      if (token.end < query.length) fail(token, `Missing value for ${token.key}`);
+      continue;
+    }
+
+    if (RANGE_FIELDS[key]) {
+      const field = RANGE_FIELDS[key]!;
+      const { range, error } = parseRange(field, token.operator, token.value);
+      if (!range) {
+        fail(token, error!);
+        continue;
+      }
+      // Repeated range tokens narrow each other (score>=80 score<=90)
+      const previous = filters[field.filter];
+      const combined: [number, number] = previous
+        ? [Math.max(previous[0], range[0]), Math.min(previous[1], range[1])]
+        : range;
+      if (combined[0] > combined[1]) {
+        fail(token, `${field.label} conflicts with an earlier ${token.key} filter`);
+        continue;
+      }
+      filters[field.filter] = combined;
+      tokenForFilter.set(field.filter, token);
+      continue;
+    }
+
+    if (DATE_FIELDS[key]) {
+      if (filters.dateRange) {
+        fail(token, 'Only one date filter can be used at a time');
+        continue;
+      }
+      const { range, error } = parseDateRange(token.operator, token.value, now);
+      if (!range) {
+        fail(token, error!);
+        continue;
+      }
+      filters.dateRange = {
+        field: DATE_FIELDS[key]!,
+        start: new Date(range[0]).toISOString(),
+        end: new Date(range[1]).toISOString()
+      };
+      tokenForFilter.set('dateRange', token);
+      continue;
+    }
+
+    if (token.operator !== ':' && token.operator !== '=') {
+      fail(token, `${token.key} does not support ${token.operator}; use ${token.key}:value`);
+      continue;
+    }
+
+    switch (key) {
+      case 'origin':
+        addValues('origins', values.map(value => matchKnownValue(value, options.facets?.origins, true)), token);
+        break;
+
+      case 'collection':
+        addValues('collections', values.map(value => matchKnownValue(value, options.facets?.collections, false)), token);
+        break;
+
+      case 'method': {
+        const methods = values.map(value => matchEnumValue(value, Object.values(BrewingMethod)));
+        if (methods.some(method => !method)) {
+          fail(token, `Unknown brewing method; try ${Object.values(BrewingMethod).join(', ')}`);
+          break;
+        }
+        addValues('brewingMethods', methods as BrewingMethod[], token);
+        break;
+      }
+
+      case 'roast': {
+        const levels = values.map(value => matchEnumValue(value, Object.values(RoastingLevel)));
+        if (levels.some(level => !level)) {
+          fail(token, `Unknown roast level; try ${Object.values(RoastingLevel).join(', ')}`);
+          break;
+        }
+        addValues('roastingLevels', levels as RoastingLevel[], token);
+        break;
+      }
+
+      case 'notes':
+        textParts.push(token.value);
+        break;
+
+      case 'is':
+        if (matchEnumValue(token.value, ['favorite', 'favourite', 'fav'])) {
+          filters.favoritesOnly = true;
+        } else {
+          fail(token, 'Only is:favorite is supported');
+        }
+        break;
+
+      case 'has':
+        if (matchEnumValue(token.value, ['rating', 'rated'])) {
+          filters.hasRating = true;
+        } else {
+          fail(token, 'Only has:rating is supported');
+        }
+        break;
+
+      default:
+        fail(token, `Unknown filter "${token.key}"; try ${QUERY_KEYS.slice(0, 5).map(entry => entry.key + entry.suffix).join(' ')}`);
+    }
+  }
+
+  const text = textParts.join(' ').trim();
+  if (text) filters.searchTerm = text;
+
+  // Catch anything the token checks missed (e.g. too many values) and blame the token that set it
+  const validation = SearchFiltersSchema.safeParse(filters);
+  if (!validation.success) {
+    for (const issue of validation.error.issues) {
+      const filter = String(issue.path[0]);
+      const token = tokenForFilter.get(filter);
+      if (token) fail(token, issue.message);
+      delete (filters as Record<string, unknown>)[filter];
+    }
+  }
+
+  return { filters, text, errors };
+};
+
+// The token under the cursor when typing at the end of the query, if any
+const currentToken = (query: string): QueryToken | undefined => {
+  if (!query || /\s$/.test(query)) return undefined;
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  return last && last.end === query.length ? last : undefined;
+};
+
+const valueSuggestions = (
+  key: string,
+  value: string,
+  options: SearchQueryOptions
+): SearchSuggestion[] => {
+  const typed = value.toLowerCase();
+  const matches = (candidate: string) => candidate.toLowerCase().includes(typed);
+
+  switch (key) {
+    case 'origin':
+      return (options.facets?.origins ?? [])
+        .filter(entry => matches(entry.value))
+        .map(entry => ({ type: 'origin' as const, value: `origin:${quoteIfNeeded(entry.value)}`, label: entry.value, count: entry.count }));
+
+    case 'collection':
+      return (options.facets?.collections ?? [])
+        .filter(entry => matches(entry.value))
+        .map(entry => ({ type: 'collection' as const, value: `collection:${quoteIfNeeded(entry.value)}`, label: entry.value, count: entry.count }));
+
+    case 'method':
+      return Object.values(BrewingMethod)
+        .filter(method => compact(method).startsWith(compact(value)))
+        .map(method => ({ type: 'term' as const, value: `method:${method}`, label: formatBrewingMethod(method) }));
+
+    case 'roast':
+      return Object.values(RoastingLevel)
+        .filter(level => compact(level).startsWith(compact(value)))
+        .map(level => ({ type: 'term' as const, value: `roast:${level}`, label: formatRoastingLevel(level) }));
+
+    case 'is':
+      return [{ type: 'term' as const, value: 'is:favorite', label: 'Favorites only' }];
+
+    case 'has':
+      return [{ type: 'term' as const, value: 'has:rating', label: 'Has an overall rating' }];
+
+    default: {
+      const examples = RANGE_FIELDS[key]?.examples ?? (DATE_FIELDS[key] ? dateExamples(key) : []);
+      return examples
+        .filter(([example]) => !value || example.includes(value))
+        .map(([example, label]) => ({ type: 'term' as const, value: example, label }));
+    }
+  }
+};
+
+/**
+ * Autocomplete suggestions for the token being typed at the end of the query.
+ * Suggestion values are complete tokens; apply them with applySearchSuggestion.
+ */
+export const getSearchQuerySuggestions = (
+  query: string,
+  options: SearchQueryOptions = {},
+  limit: number = 8
+): SearchSuggestion[] => {
+  const token = currentToken(query);
+  if (!token) return [];
+
+  if (token.key && token.operator) {
+    const key = resolveKey(token.key);
+    const isKnownKey = !!RANGE_FIELDS[key] || !!DATE_FIELDS[key] || QUERY_KEYS.some(entry => entry.key === key);
+    if (!isKnownKey) return [];
+
+    // A complete range or date token has nothing left to suggest
+    const suggestions = valueSuggestions(key, token.value, options)
+      .filter(suggestion => suggestion.value.toLowerCase() !== token.raw.toLowerCase());
+    return suggestions.slice(0, limit);
+  }
+
+  const typed = token.value.toLowerCase();
+  const keySuggestions: SearchSuggestion[] = QUERY_KEYS
+    .filter(entry => entry.key.startsWith(typed))
+    .map(entry => ({ type: 'term', value: `${entry.key}${entry.suffix}`, label: entry.description }));
+
+  // Bare words can also jump straight to a known origin or collection
+  const valueMatches = typed.length >= 2
+    ? [...valueSuggestions('origin', typed, options), ...valueSuggestions('collection', typed, options)]
+    : [];
+
+  return [...keySuggestions, ...valueMatches].slice(0, limit);
+};
+
+/**
+ * Replace the token being typed with the chosen suggestion. A space follows complete
+ * tokens so the next one can be typed straight away.
+ */
+export const applySearchSuggestion = (query: string, suggestion: Pick<SearchSuggestion, 'value'>): string => {
+  const token = currentToken(query);
+  const prefix = token ? query.slice(0, token.start) : query.replace(/\s*$/, query.trim() ? ' ' : '');
+  const needsValue = /[:<>=]$/.test(suggestion.value);
+  return `${prefix}${suggestion.value}${needsValue ? '' : ' '}`;
+};
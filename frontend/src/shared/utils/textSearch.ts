@@ -0,0 +1,199 @@
+// Full-text ranking over recipe names, notes, descriptors and pour steps
+
+import type { Recipe } from '../types/recipe.js';
+import type { TextSearchMatch } from '../types/search.js';
+
+interface TextSearchField {
+  field: string;
+  label: string;
+  weight: number; // Higher weight = more important for ranking
+  text: (recipe: Recipe) => Array<string | undefined>;
+}
+
+export interface RankedRecipe {
+  recipe: Recipe;
+  score: number;
+  matches: TextSearchMatch[];
+}
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+export const RECIPE_TEXT_SEARCH_FIELDS: TextSearchField[] = [
+  { field: 'recipeName', label: 'Name', weight: 10, text: r => [r.recipeName] },
+  { field: 'beanInfo.origin', label: 'Origin', weight: 8, text: r => [r.beanInfo.origin] },
+  { field: 'beanInfo.coffeeBeanBrand', label: 'Bean brand', weight: 7, text: r => [r.beanInfo.coffeeBeanBrand] },
+  { field: 'sensationRecord.tastingNotes', label: 'Tasting notes', weight: 6, text: r => [r.sensationRecord.tastingNotes] },
+  {
+    field: 'sensationRecord.descriptors',
+    label: 'Descriptors',
+    weight: 5,
+    text: r => [
+      ...(r.sensationRecord.cvaDescriptive?.fragranceAromaDescriptors ?? []),
+      ...(r.sensationRecord.cvaDescriptive?.flavorAftertasteDescriptors ?? []),
+      ...(r.sensationRecord.cvaDescriptive?.mainTastes ?? []),
+      ...(r.sensationRecord.cvaDescriptive?.mouthfeelDescriptors ?? []),
+      ...(r.sensationRecord.quickTasting?.flavorAftertasteDescriptors ?? [])
+    ]
+  },
+  {
+    field: 'sensationRecord.cvaDescriptive.acidityDescriptors',
+    label: 'Acidity notes',
+    weight: 4,
+    text: r => [r.sensationRecord.cvaDescriptive?.acidityDescriptors]
+  },
+  {
+    field: 'sensationRecord.cvaDescriptive.sweetnessDescriptors',
+    label: 'Sweetness notes',
+    weight: 4,
+    text: r => [r.sensationRecord.cvaDescriptive?.sweetnessDescriptors]
+  },
+  { field: 'beanInfo.processingMethod', label: 'Process', weight: 4, text: r => [r.beanInfo.processingMethod] },
+  { field: 'brewingParameters.brewingMethod', label: 'Brewing method', weight: 4, text: r => [r.brewingParameters.brewingMethod] },
+  {
+    field: 'sensationRecord.cvaDescriptive.additionalNotes',
+    label: 'Cupping notes',
+    weight: 3,
+    text: r => [r.sensationRecord.cvaDescriptive?.additionalNotes]
+  },
+  { field: 'brewingParameters.additionalNotes', label: 'Brewing notes', weight: 3, text: r => [r.brewingParameters.additionalNotes] },
+  {
+    field: 'turbulenceInfo.turbulence',
+    label: 'Pour steps',
+    weight: 2,
+    text: r => {
+      const turbulence = r.turbulenceInfo?.turbulence;
+      if (Array.isArray(turbulence)) {
+        return turbulence.map(step => [step.actionTime, step.actionDetails, step.volume].filter(Boolean).join(' '));
+      }
+      return [turbulence];
+    }
+  }
+];
+
+/**
+ * Split a query into lowercase words, dropping surrounding punctuation and duplicates
+ */
+export const tokenizeTextQuery = (query: string): string[] => {
+  const words = query
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(word => word.length > 0);
+  return Array.from(new Set(words));
+};
+
+const findOccurrences = (text: string, word: string): number[] => {
+  const positions: number[] = [];
+  for (let index = text.indexOf(word); index !== -1; index = text.indexOf(word, index + word.length)) {
+    positions.push(index);
+  }
+  return positions;
+};
+
+const isWordBoundary = (text: string, index: number): boolean => index < 0 || index >= text.length || /[^\p{L}\p{N}]/u.test(text[index]!);
+
+// Cut an excerpt around the first match and mark every query word inside it
+const buildSnippet = (text: string, words: string[], firstMatch: number): Pick<TextSearchMatch, 'snippet' | 'highlights'> => {
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, firstMatch + SNIPPET_CONTEXT * 2);
+
+  // Prefer to cut at spaces so the excerpt does not start or end mid-word
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > firstMatch) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  const lower = snippet.toLowerCase();
+
+  const ranges = words
+    .flatMap(word => findOccurrences(lower, word).map((index): [number, number] => [index, index + word.length]))
+    .sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping ranges (e.g. "berry" inside "blueberry")
+  const highlights: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push(range);
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+/**
+ * Score a recipe against the query words. Every word has to appear in some field;
+ * matches at the start of a word, whole-word matches and the full phrase score higher.
+ * @returns The hit, or null when a word is missing
+ */
+export const scoreRecipeText = (recipe: Recipe, words: string[], phrase?: string): RankedRecipe | null => {
+  if (words.length === 0) return null;
+
+  const matchedWords = new Set<string>();
+  const matches: Array<TextSearchMatch & { weight: number }> = [];
+  let score = 0;
+
+  for (const { field, label, weight, text } of RECIPE_TEXT_SEARCH_FIELDS) {
+    const value = text(recipe).filter((part): part is string => typeof part === 'string' && part.trim().length > 0).join(', ');
+    if (!value) continue;
+
+    const lower = value.toLowerCase();
+    let firstMatch = -1;
+    let fieldScore = 0;
+
+    for (const word of words) {
+      const positions = findOccurrences(lower, word);
+      if (positions.length === 0) continue;
+
+      matchedWords.add(word);
+      firstMatch = firstMatch === -1 ? positions[0]! : Math.min(firstMatch, positions[0]!);
+
+      const startsWord = positions.some(index => isWordBoundary(lower, index - 1));
+      const wholeWord = positions.some(index => isWordBoundary(lower, index - 1) && isWordBoundary(lower, index + word.length));
+      // Repeated mentions help a little, with diminishing returns
+      const repetition = Math.min(positions.length - 1, 3) * 0.25;
+      fieldScore += weight * ((wholeWord ? 2 : startsWord ? 1.5 : 1) + repetition);
+    }
+
+    if (firstMatch === -1) continue;
+
+    if (phrase && words.length > 1 && lower.includes(phrase)) {
+      fieldScore += weight * 2;
+    }
+
+    score += fieldScore;
+    matches.push({ field, label, weight, ...buildSnippet(value, words, firstMatch) });
+  }
+
+  if (matchedWords.size < words.length) return null;
+
+  return {
+    recipe,
+    score: Math.round(score * 100) / 100,
+    matches: matches
+      .sort((a, b) => b.weight - a.weight)
+      .map(({ weight: _weight, ...match }) => match)
+  };
+};
+
+/**
+ * Rank recipes for a free-text query, best match first (newest first on ties)
+ */
+export const rankRecipesByText = (recipes: Recipe[], query: string): RankedRecipe[] => {
+  const words = tokenizeTextQuery(query);
+  const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  return recipes
+    .map(recipe => scoreRecipeText(recipe, words, phrase))
+    .filter((hit): hit is RankedRecipe => hit !== null)
+    .sort((a, b) => b.score - a.score || b.recipe.dateModified.localeCompare(a.recipe.dateModified));
+};
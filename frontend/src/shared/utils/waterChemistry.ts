@@ -0,0 +1,101 @@
+// Water chemistry helpers: mixing calculator for mineral concentrates and hardness conversions
+
+import { MineralSalt } from '../types/water.js';
+import type { WaterMineralComposition, WaterMixComponent } from '../types/water.js';
+
+// Ions released per gram of each (hydrated) salt, from molar masses
+interface SaltYield {
+  label: string;
+  magnesium?: number;
+  calcium?: number;
+  sodium?: number;
+  potassium?: number;
+  bicarbonate?: number;
+  other: number; // Sulfate / chloride, counted towards TDS only
+}
+
+export const MINERAL_SALTS: Record<MineralSalt, SaltYield> = {
+  [MineralSalt.EPSOM_SALT]: { label: 'Epsom salt (MgSO₄·7H₂O)', magnesium: 24.305 / 246.47, other: 96.06 / 246.47 },
+  [MineralSalt.MAGNESIUM_CHLORIDE]: { label: 'Magnesium chloride (MgCl₂·6H₂O)', magnesium: 24.305 / 203.30, other: 70.906 / 203.30 },
+  [MineralSalt.CALCIUM_CHLORIDE]: { label: 'Calcium chloride (CaCl₂·2H₂O)', calcium: 40.078 / 147.01, other: 70.906 / 147.01 },
+  [MineralSalt.BAKING_SODA]: { label: 'Baking soda (NaHCO₃)', sodium: 22.99 / 84.007, bicarbonate: 61.017 / 84.007, other: 0 },
+  [MineralSalt.POTASSIUM_BICARBONATE]: { label: 'Potassium bicarbonate (KHCO₃)', potassium: 39.098 / 100.115, bicarbonate: 61.017 / 100.115, other: 0 }
+};
+
+// ppm of an ion -> ppm as CaCO3
+const CALCIUM_TO_CACO3 = 100.087 / 40.078;
+const MAGNESIUM_TO_CACO3 = 100.087 / 24.305;
+const BICARBONATE_TO_CACO3 = 50.044 / 61.017;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * General hardness (ppm as CaCO3) from calcium and magnesium
+ */
+export const calculateGeneralHardness = (calcium = 0, magnesium = 0): number => {
+  return round1(calcium * CALCIUM_TO_CACO3 + magnesium * MAGNESIUM_TO_CACO3);
+};
+
+/**
+ * Carbonate hardness (ppm as CaCO3) from bicarbonate
+ */
+export const calculateCarbonateHardness = (bicarbonate = 0): number => {
+  return round1(bicarbonate * BICARBONATE_TO_CACO3);
+};
+
+/**
+ * Mineral composition of distilled water dosed with stock concentrates
+ * @param mix - Concentrates with their strength (g/L) and dose (mL per liter of brew water)
+ * @returns Ion concentrations, GH/KH as CaCO3 and TDS, all in ppm
+ */
+export const calculateWaterMix = (mix: WaterMixComponent[]): WaterMineralComposition => {
+  const totals = { magnesium: 0, calcium: 0, sodium: 0, potassium: 0, bicarbonate: 0, other: 0 };
+
+  mix.forEach(component => {
+    const salt = MINERAL_SALTS[component.salt];
+    if (!salt) return;
+
+    // g/L of concentrate x mL per liter = mg of salt per liter of brew water
+    const saltPpm = component.concentration * component.dose;
+    totals.magnesium += saltPpm * (salt.magnesium ?? 0);
+    totals.calcium += saltPpm * (salt.calcium ?? 0);
+    totals.sodium += saltPpm * (salt.sodium ?? 0);
+    totals.potassium += saltPpm * (salt.potassium ?? 0);
+    totals.bicarbonate += saltPpm * (salt.bicarbonate ?? 0);
+    totals.other += saltPpm * salt.other;
+  });
+
+  return {
+    gh: calculateGeneralHardness(totals.calcium, totals.magnesium),
+    kh: calculateCarbonateHardness(totals.bicarbonate),
+    magnesium: round1(totals.magnesium),
+    calcium: round1(totals.calcium),
+    sodium: round1(totals.sodium),
+    potassium: round1(totals.potassium),
+    bicarbonate: round1(totals.bicarbonate),
+    tds: round1(Object.values(totals).reduce((sum, value) => sum + value, 0))
+  };
+};
+
+/**
+ * Fill GH/KH from the ions when only the ions were measured
+ */
+export const completeWaterComposition = (composition: WaterMineralComposition): WaterMineralComposition => {
+  const hasIons = composition.calcium !== undefined || composition.magnesium !== undefined;
+  return {
+    ...composition,
+    gh: composition.gh ?? (hasIons ? calculateGeneralHardness(composition.calcium, composition.magnesium) : undefined),
+    kh: composition.kh ?? (composition.bicarbonate !== undefined ? calculateCarbonateHardness(composition.bicarbonate) : undefined)
+  };
+};
+
+/**
+ * Short summary of a water profile, e.g. "GH 68 · KH 40 · 95 ppm"
+ */
+export const formatWaterComposition = (composition: WaterMineralComposition): string => {
+  const parts: string[] = [];
+  if (composition.gh !== undefined) parts.push(`GH ${Math.round(composition.gh)}`);
+  if (composition.kh !== undefined) parts.push(`KH ${Math.round(composition.kh)}`);
+  if (composition.tds !== undefined) parts.push(`${Math.round(composition.tds)} ppm`);
+  return parts.join(' · ');
+};
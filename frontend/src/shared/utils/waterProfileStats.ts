@@ -0,0 +1,47 @@
+// Aggregation helpers for comparing brew water across recipes
+
+import type { Recipe } from '../types/recipe.js';
+import type { WaterProfile, WaterProfileStats } from '../types/water.js';
+import { getEvaluationScore } from './sessionStats.js';
+
+const average = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+};
+
+/**
+ * Score the recipes brewed with a water profile, overall and per origin.
+ * Scores are normalized to 0-10 so every evaluation system can be compared.
+ */
+export const calculateWaterProfileStats = (profile: WaterProfile, recipes: Recipe[]): WaterProfileStats => {
+  const scored = recipes.map(recipe => ({
+    origin: recipe.beanInfo.origin?.trim() || 'Unknown',
+    score: getEvaluationScore(recipe.sensationRecord)?.normalizedScore
+  }));
+  const scores = scored.map(entry => entry.score).filter((score): score is number => score !== undefined);
+
+  const origins = new Map<string, number[]>();
+  const originCounts = new Map<string, number>();
+  scored.forEach(entry => {
+    originCounts.set(entry.origin, (originCounts.get(entry.origin) ?? 0) + 1);
+    if (!origins.has(entry.origin)) origins.set(entry.origin, []);
+    if (entry.score !== undefined) origins.get(entry.origin)!.push(entry.score);
+  });
+
+  const byOrigin = Array.from(origins.entries())
+    .map(([origin, originScores]) => ({
+      origin,
+      recipeCount: originCounts.get(origin) ?? 0,
+      averageScore: average(originScores)
+    }))
+    .sort((a, b) => (b.averageScore ?? -1) - (a.averageScore ?? -1) || b.recipeCount - a.recipeCount);
+
+  return {
+    waterProfileId: profile.waterProfileId,
+    name: profile.name,
+    recipeCount: recipes.length,
+    scoredRecipeCount: scores.length,
+    averageScore: average(scores),
+    byOrigin
+  };
+};
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { RoastingLevelSchema } from './recipeSchema.js';
+
+// Bean Input validation schema (for creation)
+export const BeanInputSchema = z.object({
+  name: z.string().max(100, 'Bean name must be 100 characters or less').optional(),
+  roaster: z.string().max(100, 'Roaster must be 100 characters or less').optional(),
+  origin: z.string().min(1, 'Origin is required').max(100, 'Origin must be 100 characters or less'),
+  processingMethod: z.string().min(1, 'Processing method is required').max(50, 'Processing method must be 50 characters or less'),
+  altitude: z.number().int().min(0, 'Altitude cannot be negative').max(10000, 'Altitude must be 10000m or less').optional(),
+  roastingLevel: RoastingLevelSchema.optional(),
+  roastDate: z.string().datetime('Roast date must be a valid datetime').optional(),
+  bagWeight: z.number().positive('Bag weight must be a positive number').max(100000, 'Bag weight must be 100kg or less'),
+  remainingGrams: z.number().min(0, 'Remaining grams cannot be negative').optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  isArchived: z.boolean().default(false)
+}).refine(
+  bean => bean.remainingGrams === undefined || bean.remainingGrams <= bean.bagWeight,
+  { message: 'Remaining grams cannot exceed the bag weight', path: ['remainingGrams'] }
+);
+
+// Bean Update validation schema (partial updates allowed)
+export const BeanUpdateSchema = z.object({
+  name: z.string().max(100, 'Bean name must be 100 characters or less').optional(),
+  roaster: z.string().max(100, 'Roaster must be 100 characters or less').optional(),
+  origin: z.string().min(1, 'Origin is required').max(100, 'Origin must be 100 characters or less').optional(),
+  processingMethod: z.string().min(1, 'Processing method is required').max(50, 'Processing method must be 50 characters or less').optional(),
+  altitude: z.number().int().min(0, 'Altitude cannot be negative').max(10000, 'Altitude must be 10000m or less').optional(),
+  roastingLevel: RoastingLevelSchema.optional(),
+  roastDate: z.string().datetime('Roast date must be a valid datetime').optional(),
+  bagWeight: z.number().positive('Bag weight must be a positive number').max(100000, 'Bag weight must be 100kg or less').optional(),
+  remainingGrams: z.number().min(0, 'Remaining grams cannot be negative').optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  isArchived: z.boolean().optional()
+});
+
+// Custom validation functions
+export const validateBeanInput = (data: unknown) => {
+  return BeanInputSchema.safeParse(data);
+};
+
+export const validateBeanUpdate = (data: unknown) => {
+  return BeanUpdateSchema.safeParse(data);
+};
+
+// Export type inference helpers
+export type BeanInputSchemaType = z.infer<typeof BeanInputSchema>;
+export type BeanUpdateSchemaType = z.infer<typeof BeanUpdateSchema>;
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { EquipmentType } from '../types/equipment.js';
+import { BrewingMethodSchema } from './recipeSchema.js';
+
+// Upper bound on the number of settings a scale can generate for the setting dropdown
+export const MAX_GRINDER_SETTING_STEPS = 500;
+
+export const EquipmentTypeSchema = z.nativeEnum(EquipmentType);
+
+// Grinder setting scale validation schema
+export const GrinderSettingScaleSchema = z.object({
+  min: z.number().min(0, 'Scale minimum cannot be negative'),
+  max: z.number().max(1000, 'Scale maximum must be 1000 or less'),
+  step: z.number().positive('Scale step must be a positive number'),
+  unit: z.string().max(30, 'Scale unit must be 30 characters or less').optional()
+}).refine(
+  scale => scale.max > scale.min,
+  { message: 'Scale maximum must be greater than the minimum', path: ['max'] }
+).refine(
+  scale => (scale.max - scale.min) / scale.step <= MAX_GRINDER_SETTING_STEPS,
+  { message: `Scale cannot have more than ${MAX_GRINDER_SETTING_STEPS} settings`, path: ['step'] }
+);
+
+// Grinder calibration table validation schema (setting -> microns, both ascending)
+export const GrinderCalibrationSchema = z.array(z.object({
+  setting: z.number().min(0, 'Calibration setting cannot be negative'),
+  microns: z.number().positive('Calibration microns must be a positive number').max(3000, 'Calibration microns must be 3000 or less')
+})).min(2, 'Calibration needs at least two points').max(50, 'Calibration can have at most 50 points').refine(
+  points => points.every((point, i) => i === 0 || (point.setting > points[i - 1]!.setting && point.microns > points[i - 1]!.microns)),
+  { message: 'Calibration settings and microns must both increase' }
+);
+
+// Equipment Input validation schema (for creation)
+export const EquipmentInputSchema = z.object({
+  type: EquipmentTypeSchema,
+  name: z.string().min(1, 'Equipment name is required').max(100, 'Equipment name must be 100 characters or less'),
+  brand: z.string().max(100, 'Brand must be 100 characters or less').optional(),
+  settingScale: GrinderSettingScaleSchema.optional(),
+  calibration: GrinderCalibrationSchema.optional(),
+  brewingMethod: BrewingMethodSchema.optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  isArchived: z.boolean().default(false)
+}).refine(
+  equipment => equipment.settingScale === undefined || equipment.type === EquipmentType.GRINDER,
+  { message: 'Only grinders can have a setting scale', path: ['settingScale'] }
+).refine(
+  equipment => equipment.calibration === undefined || equipment.type === EquipmentType.GRINDER,
+  { message: 'Only grinders can have a calibration', path: ['calibration'] }
+).refine(
+  equipment => equipment.brewingMethod === undefined || equipment.type === EquipmentType.BREWER,
+  { message: 'Only brewers can have a brewing method', path: ['brewingMethod'] }
+);
+
+// Equipment Update validation schema (partial updates allowed)
+export const EquipmentUpdateSchema = z.object({
+  name: z.string().min(1, 'Equipment name is required').max(100, 'Equipment name must be 100 characters or less').optional(),
+  brand: z.string().max(100, 'Brand must be 100 characters or less').optional(),
+  settingScale: GrinderSettingScaleSchema.optional(),
+  calibration: GrinderCalibrationSchema.optional(),
+  brewingMethod: BrewingMethodSchema.optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  isArchived: z.boolean().optional()
+});
+
+// Custom validation functions
+export const validateEquipmentInput = (data: unknown) => {
+  return EquipmentInputSchema.safeParse(data);
+};
+
+export const validateEquipmentUpdate = (data: unknown) => {
+  return EquipmentUpdateSchema.safeParse(data);
+};
+
+// Export type inference helpers
+export type EquipmentInputSchemaType = z.infer<typeof EquipmentInputSchema>;
+export type EquipmentUpdateSchemaType = z.infer<typeof EquipmentUpdateSchema>;
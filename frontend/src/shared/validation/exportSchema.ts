@@ -1,8 +1,9 @@
 import { z } from 'zod';
 import { SearchFiltersSchema } from './searchSchema.js';
+import { isReservedWorksheetName } from '../utils/evaluationExport.js';
 
 // Export Format enum schema
-export const ExportFormatSchema = z.enum(['csv', 'excel']);
+export const ExportFormatSchema = z.enum(['csv', 'excel', 'json']);
 
 // Export Scope enum schema
 export const ExportScopeSchema = z.enum(['all', 'filtered', 'selected']);
@@ -75,6 +76,28 @@ export const ExportRequestSchema = z.object({
   }).optional()
 });
 
+// Filtered Export Request schema (POST /api/recipes/export/filtered)
+export const FilteredExportRequestSchema = z.object({
+  format: ExportFormatSchema.default('csv'),
+  filters: SearchFiltersSchema.default({}),
+
+  // Specific recipes take precedence over filters
+  recipeIds: z.array(z.string().uuid()).max(1000, 'Cannot export more than 1000 selected recipes at once').default([]),
+
+  // Field selection (a summary column set when includeFullDetails is false)
+  includeFullDetails: z.boolean().default(true),
+  includeFields: z.array(z.string().min(1)).optional(),
+  excludeFields: z.array(z.string().min(1)).optional(),
+
+  formatOptions: FormatOptionsSchema.optional()
+}).refine(data => !data.includeFields?.some(field => data.excludeFields?.includes(field)), {
+  message: 'Include and exclude fields must not overlap',
+  path: ['excludeFields']
+}).refine(data => !data.formatOptions?.worksheetName || !isReservedWorksheetName(data.formatOptions.worksheetName), {
+  message: 'Worksheet name is used by another sheet of the export',
+  path: ['formatOptions', 'worksheetName']
+});
+
 // Export Response validation schema
 export const ExportResponseSchema = z.object({
   success: z.boolean(),
@@ -92,6 +115,7 @@ export const ExportJobSchema = z.object({
   id: z.string().uuid('Export job ID must be a valid UUID'),
   status: ExportJobStatusSchema,
   progress: z.number().min(0, 'Progress must be at least 0').max(100, 'Progress must be at most 100'),
+  message: z.string().optional(),
   createdAt: z.string().datetime('Created at must be a valid datetime'),
   completedAt: z.string().datetime('Completed at must be a valid datetime').optional(),
   options: ExportOptionsSchema,
@@ -163,6 +187,9 @@ export const validateExportOptionsWithRules = (options: z.infer<typeof ExportOpt
     if (invalidSheetChars.test(options.formatOptions.worksheetName)) {
       errors.push('Excel worksheet name contains invalid characters');
     }
+    if (isReservedWorksheetName(options.formatOptions.worksheetName)) {
+      errors.push(`Excel worksheet name "${options.formatOptions.worksheetName}" is used by another sheet of the export`);
+    }
   }
   
   return {
@@ -187,4 +214,5 @@ export const transformExportOptions = (options: z.infer<typeof ExportOptionsSche
 // Export type inference helpers
 export type ExportOptionsSchemaType = z.infer<typeof ExportOptionsSchema>;
 export type ExportRequestSchemaType = z.infer<typeof ExportRequestSchema>;
-export type ExportJobSchemaType = z.infer<typeof ExportJobSchema>;
\ No newline at end of file
+export type ExportJobSchemaType = z.infer<typeof ExportJobSchema>;
+export type FilteredExportRequestSchemaType = z.infer<typeof FilteredExportRequestSchema>;
\ No newline at end of file
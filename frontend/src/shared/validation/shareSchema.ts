@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// What a share link reveals
+export const ShareOptionsSchema = z.object({
+  includeRatings: z.boolean().default(true),
+  includeTastingNotes: z.boolean().default(true),
+  includePersonalNotes: z.boolean().default(false),
+  customMessage: z.string().trim().max(500, 'Message must be 500 characters or less').optional()
+});
+
+// Share link creation schema
+export const ShareInputSchema = z.object({
+  targetType: z.enum(['recipe', 'collection']),
+  targetId: z.string().uuid('Must be a valid UUID'),
+  options: ShareOptionsSchema.default({}),
+  expiresInDays: z.number().int('Expiry must be a whole number of days').min(1, 'Expiry must be at least 1 day').max(365, 'Expiry must be 365 days or less').optional()
+});
+
+// Export type inference helpers
+export type ShareOptionsSchemaType = z.infer<typeof ShareOptionsSchema>;
+export type ShareInputSchemaType = z.infer<typeof ShareInputSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { MineralSalt } from '../types/water.js';
+
+const PpmSchema = (label: string) => z.number().min(0, `${label} cannot be negative`).max(2000, `${label} must be 2000 ppm or less`);
+
+// Water mineral composition validation schema (ppm)
+export const WaterMineralCompositionSchema = z.object({
+  gh: PpmSchema('GH').optional(),
+  kh: PpmSchema('KH').optional(),
+  magnesium: PpmSchema('Magnesium').optional(),
+  calcium: PpmSchema('Calcium').optional(),
+  sodium: PpmSchema('Sodium').optional(),
+  potassium: PpmSchema('Potassium').optional(),
+  bicarbonate: PpmSchema('Bicarbonate').optional(),
+  tds: PpmSchema('TDS').optional()
+});
+
+// Stock concentrate validation schema
+export const WaterMixComponentSchema = z.object({
+  salt: z.nativeEnum(MineralSalt),
+  concentration: z.number().positive('Concentration must be a positive number').max(1000, 'Concentration must be 1000 g/L or less'),
+  dose: z.number().min(0, 'Dose cannot be negative').max(100, 'Dose must be 100 mL/L or less')
+});
+
+// Water Profile Input validation schema (for creation)
+export const WaterProfileInputSchema = z.object({
+  name: z.string().min(1, 'Water profile name is required').max(100, 'Water profile name must be 100 characters or less'),
+  composition: WaterMineralCompositionSchema.optional(),
+  mix: z.array(WaterMixComponentSchema).min(1, 'Mix needs at least one concentrate').max(10, 'Mix can have at most 10 concentrates').optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional()
+}).refine(
+  profile => profile.composition !== undefined || profile.mix !== undefined,
+  { message: 'Provide either a mineral composition or a concentrate mix', path: ['composition'] }
+);
+
+// Water Profile Update validation schema (partial updates allowed)
+export const WaterProfileUpdateSchema = z.object({
+  name: z.string().min(1, 'Water profile name is required').max(100, 'Water profile name must be 100 characters or less').optional(),
+  composition: WaterMineralCompositionSchema.optional(),
+  mix: z.array(WaterMixComponentSchema).max(10, 'Mix can have at most 10 concentrates').optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional()
+});
+
+// Custom validation functions
+export const validateWaterProfileInput = (data: unknown) => {
+  return WaterProfileInputSchema.safeParse(data);
+};
+
+export const validateWaterProfileUpdate = (data: unknown) => {
+  return WaterProfileUpdateSchema.safeParse(data);
+};
+
+// Export type inference helpers
+export type WaterProfileInputSchemaType = z.infer<typeof WaterProfileInputSchema>;
+export type WaterProfileUpdateSchemaType = z.infer<typeof WaterProfileUpdateSchema>;
@@ -4,4 +4,5 @@ export * from './processingMethods.js';
 export * from './waterTemperature.js';
 export * from './grinderModels.js';
 export * from './grinderSettings.js';
-export * from './filteringTools.js';
\ No newline at end of file
+export * from './filteringTools.js';
+export * from './grinderCalibrations.js';
\ No newline at end of file
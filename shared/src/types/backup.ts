@@ -0,0 +1,186 @@
+// Backup and restore related TypeScript interfaces
+
+import type { Recipe } from './recipe.js';
+import type { Collection } from './collection.js';
+import type { Bean } from './bean.js';
+import type { Equipment } from './equipment.js';
+import type { WaterProfile } from './water.js';
+import type { SavedSearch } from './search.js';
+import type { BrewSession } from './session.js';
+import type { RecipeRevision } from './revision.js';
+import type { Experiment, ExperimentValue } from './experiment.js';
+
+/**
+ * A recipe as stored in a backup, with the grams it took from its linked bag
+ */
+export interface BackupRecipe extends Recipe {
+  beanGramsDeducted?: number;
+}
+
+/**
+ * A collection as stored in a backup. Manual membership is listed separately,
+ * smart collections keep only their rule.
+ */
+export type BackupCollection = Omit<Collection, 'recipeIds' | 'stats' | 'ownerId'>;
+
+/**
+ * A recipe's place in a manual collection
+ */
+export interface BackupMembership {
+  recipeId: string;
+  collectionId: string;
+  dateAssigned: string; // ISO timestamp
+}
+
+/**
+ * An experiment variant as stored in a backup, revealed or not
+ */
+export interface BackupExperimentVariant {
+  code: string;
+  recipeId: string;
+  value: ExperimentValue;
+  label: string;
+  isBaseline: boolean;
+}
+
+/**
+ * An experiment as stored in a backup, with its variant recipes
+ */
+export interface BackupExperiment extends Omit<Experiment, 'variants'> {
+  variants: BackupExperimentVariant[];
+}
+
+/**
+ * Preferences kept in the browser; written and restored by the client only
+ */
+export interface BackupUserPreferences {
+  theme: string;
+  favoriteOrigins: string[];
+  recentSearches: string[];
+  dismissedSuggestions: string[];
+}
+
+/**
+ * Full backup of one account (current format): recipes with their brew sessions, revisions
+ * and experiments, collections, and the beans, equipment, water profiles and saved searches.
+ * Every record keeps its ID and dates, so a restore reproduces the data as it was.
+ */
+export interface BackupData {
+  version: string;
+  timestamp: string; // ISO timestamp of the backup
+  metadata: {
+    totalRecipes: number;
+    totalCollections: number;
+    totalMemberships: number;
+    appVersion: string;
+    exportedBy: string;
+  };
+  recipes: BackupRecipe[];
+  collections: BackupCollection[];
+  memberships: BackupMembership[];
+  beans: Bean[];
+  equipment: Equipment[];
+  waterProfiles: WaterProfile[];
+  savedSearches: SavedSearch[];
+  brewSessions: BrewSession[];
+  revisions: RecipeRevision[];
+  experiments: BackupExperiment[];
+  userPreferences?: BackupUserPreferences;
+}
+
+/**
+ * Backup written by the browser before the server took over (version 1.0).
+ * Membership is only known from collection recipe IDs and recipe collection names.
+ */
+export interface LegacyBackupData {
+  version: '1.0';
+  timestamp: string;
+  metadata: {
+    totalRecipes: number;
+    totalCollections: number;
+    appVersion: string;
+    exportedBy: string;
+  };
+  recipes: Recipe[];
+  collections?: Collection[];
+  userPreferences?: BackupUserPreferences;
+  statistics?: Record<string, unknown>;
+}
+
+/**
+ * What a restore writes. Records that already exist are skipped when merging
+ * and replaced when overwriting. Brew sessions, revisions and experiments come with the recipes.
+ */
+export interface BackupRestoreOptions {
+  includeRecipes: boolean;
+  includeCollections: boolean;
+  includeLibrary: boolean; // Beans, equipment, water profiles and saved searches
+  overwriteExisting: boolean;
+  dryRun?: boolean; // Only report what would happen
+}
+
+/**
+ * Restore request: a backup of any supported version plus the options
+ */
+export interface BackupRestoreRequest {
+  backup: BackupData | LegacyBackupData;
+  options: BackupRestoreOptions;
+}
+
+export type RestoreAction =
+  | 'create'
+  | 'overwrite'
+  | 'skip' // Already exists and existing records are kept
+  | 'reject'; // Cannot be restored: invalid, owned by another account, or the name is taken
+
+export type RestoreItemType =
+  | 'recipe'
+  | 'collection'
+  | 'bean'
+  | 'equipment'
+  | 'waterProfile'
+  | 'savedSearch'
+  | 'brewSession'
+  | 'revision'
+  | 'experiment';
+
+/**
+ * Planned (or applied) outcome for one record of a backup
+ */
+export interface RestoreItemReport {
+  type: RestoreItemType;
+  id: string;
+  name: string;
+  action: RestoreAction;
+  reason?: string;
+}
+
+export interface RestoreCounts {
+  created: number;
+  overwritten: number;
+  skipped: number;
+  rejected: number;
+}
+
+/**
+ * Restore outcome. Rejected records are left out and reported; when a write
+ * fails, everything the restore wrote is undone and `applied` is false.
+ */
+export interface RestoreReport {
+  dryRun: boolean;
+  applied: boolean;
+  fromVersion: string; // Version of the uploaded backup, before migration
+  recipes: RestoreCounts;
+  collections: RestoreCounts;
+  beans: RestoreCounts;
+  equipment: RestoreCounts;
+  waterProfiles: RestoreCounts;
+  savedSearches: RestoreCounts;
+  brewSessions: RestoreCounts;
+  revisions: RestoreCounts;
+  experiments: RestoreCounts;
+  membershipsAdded: number;
+  items: RestoreItemReport[];
+  warnings: string[]; // Values changed so the backup fits this account (e.g. missing bean links)
+  error?: string;
+}
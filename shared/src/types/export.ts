@@ -8,7 +8,8 @@ import type { RecipeId } from './recipe.js';
  */
 export enum ExportFormat {
   CSV = 'csv',
-  EXCEL = 'excel'
+  EXCEL = 'excel',
+  JSON = 'json'
 }
 
 /**
@@ -98,6 +99,7 @@ export interface ExportJob {
   id: string;
   status: ExportJobStatus;
   progress: number; // 0-100 percentage
+  message?: string; // Current step, e.g. "Loading recipes..."
   createdAt: string;
   completedAt?: string;
   options: ExportOptions;
@@ -105,6 +107,14 @@ export interface ExportJob {
   error?: string;
 }
 
+/**
+ * Short-lived link to a finished export that works without the Authorization header
+ */
+export interface ExportDownloadLink {
+  url: string; // Download URL carrying a download token
+  expiresAt: string; // ISO timestamp when the token expires
+}
+
 /**
  * Export field mapping for column headers
  */
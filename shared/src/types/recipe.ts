@@ -21,7 +21,9 @@ export enum SortOption {
   DATE_CREATED = 'date-created',
   DATE_MODIFIED = 'date-modified',
   OVERALL_IMPRESSION = 'overall-impression',
-  RECIPE_NAME = 'recipe-name'
+  RECIPE_NAME = 'recipe-name',
+  ORIGIN = 'origin',
+  COFFEE_WATER_RATIO = 'coffee-water-ratio'
 }
 
 /**
@@ -34,6 +36,7 @@ export interface BeanInfo {
   altitude?: number; // Optional - meters above sea level
   roastingDate?: string; // Optional - ISO date string
   roastingLevel?: RoastingLevel; // Optional - controlled enum
+  beanId?: string; // Optional - inventory bag the coffee came from (UUID)
 }
 
 /**
@@ -62,6 +65,11 @@ export interface BrewingParameters {
   grinderUnit: string; // Required - grind size description
   filteringTools?: string; // Optional - filters, papers used
   additionalNotes?: string; // Optional - any extra brewing notes
+  grinderId?: string; // Optional - registry grinder (UUID), grinderModel keeps its name
+  brewerId?: string; // Optional - registry brewer (UUID)
+  filterId?: string; // Optional - registry filter paper (UUID)
+  kettleId?: string; // Optional - registry kettle (UUID)
+  waterProfileId?: string; // Optional - brew water profile (UUID)
 }
 
 /**
@@ -235,6 +243,7 @@ export interface Recipe {
   dateModified: string; // ISO timestamp
   isFavorite: boolean; // Favorite status
   collections: string[]; // Array of collection IDs
+  ownerId?: string; // User who logged the recipe; absent for data from before accounts existed
   
   // Nested data structures
   beanInfo: BeanInfo;
@@ -0,0 +1,221 @@
+// Export column groups for each evaluation system, shared by the server and browser exporters
+
+import type {
+  CVAAffectiveAssessment,
+  SensationRecord,
+  TraditionalSCAEvaluation
+} from '../types/recipe.js';
+
+export type EvaluationExportGroup = 'legacy' | 'traditionalSCA' | 'cvaDescriptive' | 'cvaAffective' | 'quickTasting';
+
+export interface EvaluationExportColumn {
+  key: string; // Recipe field path, e.g. "sensationRecord.cvaAffective.cvaScore"
+  header: string;
+  value: (record: SensationRecord) => string | number | undefined;
+}
+
+export interface EvaluationExportGroupDefinition {
+  group: EvaluationExportGroup;
+  label: string;
+  sheetName?: string; // Excel worksheet for this system; legacy scores stay on the main recipe sheet
+  columns: EvaluationExportColumn[];
+  hasData: (record: SensationRecord) => boolean;
+}
+
+const hasAnyValue = (section: object | undefined): boolean =>
+  !!section && Object.values(section).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+  );
+
+// CATA descriptor selections are written as one cell
+const joinDescriptors = (descriptors: string[] | undefined): string | undefined =>
+  descriptors?.length ? descriptors.join('; ') : undefined;
+
+/**
+ * SCA 2004 final score: Σ(F₁...F₁₀) - taint - fault points, rounded to 0.25 within 60-100.
+ * Unscored attributes count as the 6.00 minimum.
+ */
+export const calculateSCAFinalScore = (evaluation: TraditionalSCAEvaluation): number => {
+  const attributes = [
+    evaluation.fragrance, evaluation.flavor, evaluation.aftertaste, evaluation.acidity, evaluation.body,
+    evaluation.balance, evaluation.sweetness, evaluation.cleanCup, evaluation.uniformity, evaluation.overall
+  ];
+  const attributeSum = attributes.reduce<number>((sum, score) => sum + (score || 6), 0);
+  const taintPenalty = Math.floor((evaluation.taintDefects || 0) / 2) * 2;
+  const faultPenalty = Math.floor((evaluation.faultDefects || 0) / 4) * 4;
+
+  return Math.max(60, Math.min(100, Math.round((attributeSum - taintPenalty - faultPenalty) * 4) / 4));
+};
+
+/**
+ * CVA Affective score: S = 0.65625 × Σhi + 52.75 - 2u - 4d, rounded to 0.25 within 0-100.
+ * Unscored sections count as 5 (neutral liking).
+ */
+export const calculateCVAAffectiveScore = (evaluation: CVAAffectiveAssessment): number => {
+  const sections = [
+    evaluation.fragrance, evaluation.aroma, evaluation.flavor, evaluation.aftertaste,
+    evaluation.acidity, evaluation.sweetness, evaluation.mouthfeel, evaluation.overall
+  ];
+  const sectionSum = sections.reduce<number>((sum, score) => sum + (score || 5), 0);
+  const score = 0.65625 * sectionSum + 52.75 - 2 * (evaluation.nonUniformCups || 0) - 4 * (evaluation.defectiveCups || 0);
+
+  return Math.max(0, Math.min(100, Math.round(score * 4) / 4));
+};
+
+const legacyColumns: EvaluationExportColumn[] = [
+  { key: 'sensationRecord.overallImpression', header: 'Overall Rating', value: r => r.overallImpression },
+  { key: 'sensationRecord.acidity', header: 'Acidity', value: r => r.acidity },
+  { key: 'sensationRecord.body', header: 'Body', value: r => r.body },
+  { key: 'sensationRecord.sweetness', header: 'Sweetness', value: r => r.sweetness },
+  { key: 'sensationRecord.flavor', header: 'Flavor', value: r => r.flavor },
+  { key: 'sensationRecord.aftertaste', header: 'Aftertaste', value: r => r.aftertaste },
+  { key: 'sensationRecord.balance', header: 'Balance', value: r => r.balance },
+  { key: 'sensationRecord.tastingNotes', header: 'Tasting Notes', value: r => r.tastingNotes }
+];
+
+const scaColumns: EvaluationExportColumn[] = [
+  ...(['fragrance', 'flavor', 'aftertaste', 'acidity', 'body', 'balance', 'sweetness', 'cleanCup', 'uniformity', 'overall'] as const)
+    .map(field => ({
+      key: `sensationRecord.traditionalSCA.${field}`,
+      header: `SCA ${field === 'cleanCup' ? 'Clean Cup' : field.charAt(0).toUpperCase() + field.slice(1)}`,
+      value: (r: SensationRecord) => r.traditionalSCA?.[field]
+    })),
+  { key: 'sensationRecord.traditionalSCA.taintDefects', header: 'SCA Taint Defects', value: r => r.traditionalSCA?.taintDefects },
+  { key: 'sensationRecord.traditionalSCA.faultDefects', header: 'SCA Fault Defects', value: r => r.traditionalSCA?.faultDefects },
+  {
+    key: 'sensationRecord.traditionalSCA.finalScore',
+    header: 'SCA Final Score',
+    value: r => r.traditionalSCA && hasAnyValue(r.traditionalSCA)
+      ? r.traditionalSCA.finalScore ?? calculateSCAFinalScore(r.traditionalSCA)
+      : undefined
+  }
+];
+
+const cvaDescriptiveColumns: EvaluationExportColumn[] = [
+  ...(['fragrance', 'aroma', 'flavor', 'aftertaste', 'acidity', 'sweetness', 'mouthfeel'] as const).map(field => ({
+    key: `sensationRecord.cvaDescriptive.${field}`,
+    header: `CVA-D ${field.charAt(0).toUpperCase() + field.slice(1)} Intensity`,
+    value: (r: SensationRecord) => r.cvaDescriptive?.[field]
+  })),
+  {
+    key: 'sensationRecord.cvaDescriptive.fragranceAromaDescriptors',
+    header: 'CVA-D Fragrance/Aroma Descriptors',
+    value: r => joinDescriptors(r.cvaDescriptive?.fragranceAromaDescriptors)
+  },
+  {
+    key: 'sensationRecord.cvaDescriptive.flavorAftertasteDescriptors',
+    header: 'CVA-D Flavor/Aftertaste Descriptors',
+    value: r => joinDescriptors(r.cvaDescriptive?.flavorAftertasteDescriptors)
+  },
+  { key: 'sensationRecord.cvaDescriptive.mainTastes', header: 'CVA-D Main Tastes', value: r => joinDescriptors(r.cvaDescriptive?.mainTastes) },
+  {
+    key: 'sensationRecord.cvaDescriptive.mouthfeelDescriptors',
+    header: 'CVA-D Mouthfeel Descriptors',
+    value: r => joinDescriptors(r.cvaDescriptive?.mouthfeelDescriptors)
+  },
+  { key: 'sensationRecord.cvaDescriptive.acidityDescriptors', header: 'CVA-D Acidity Notes', value: r => r.cvaDescriptive?.acidityDescriptors },
+  { key: 'sensationRecord.cvaDescriptive.sweetnessDescriptors', header: 'CVA-D Sweetness Notes', value: r => r.cvaDescriptive?.sweetnessDescriptors },
+  { key: 'sensationRecord.cvaDescriptive.additionalNotes', header: 'CVA-D Additional Notes', value: r => r.cvaDescriptive?.additionalNotes },
+  { key: 'sensationRecord.cvaDescriptive.roastLevel', header: 'CVA-D Roast Level', value: r => r.cvaDescriptive?.roastLevel },
+  { key: 'sensationRecord.cvaDescriptive.assessmentDate', header: 'CVA-D Assessment Date', value: r => r.cvaDescriptive?.assessmentDate },
+  { key: 'sensationRecord.cvaDescriptive.assessorId', header: 'CVA-D Assessor', value: r => r.cvaDescriptive?.assessorId }
+];
+
+const cvaAffectiveColumns: EvaluationExportColumn[] = [
+  ...(['fragrance', 'aroma', 'flavor', 'aftertaste', 'acidity', 'sweetness', 'mouthfeel', 'overall'] as const).map(field => ({
+    key: `sensationRecord.cvaAffective.${field}`,
+    header: `CVA-A ${field.charAt(0).toUpperCase() + field.slice(1)}`,
+    value: (r: SensationRecord) => r.cvaAffective?.[field]
+  })),
+  { key: 'sensationRecord.cvaAffective.nonUniformCups', header: 'CVA-A Non-uniform Cups', value: r => r.cvaAffective?.nonUniformCups },
+  { key: 'sensationRecord.cvaAffective.defectiveCups', header: 'CVA-A Defective Cups', value: r => r.cvaAffective?.defectiveCups },
+  {
+    key: 'sensationRecord.cvaAffective.cvaScore',
+    header: 'CVA-A Score',
+    value: r => r.cvaAffective && hasAnyValue(r.cvaAffective)
+      ? r.cvaAffective.cvaScore ?? calculateCVAAffectiveScore(r.cvaAffective)
+      : undefined
+  }
+];
+
+const quickTastingColumns: EvaluationExportColumn[] = [
+  { key: 'sensationRecord.quickTasting.flavorIntensity', header: 'Quick Flavor Intensity', value: r => r.quickTasting?.flavorIntensity },
+  { key: 'sensationRecord.quickTasting.aftertasteIntensity', header: 'Quick Aftertaste Intensity', value: r => r.quickTasting?.aftertasteIntensity },
+  { key: 'sensationRecord.quickTasting.acidityIntensity', header: 'Quick Acidity Intensity', value: r => r.quickTasting?.acidityIntensity },
+  { key: 'sensationRecord.quickTasting.sweetnessIntensity', header: 'Quick Sweetness Intensity', value: r => r.quickTasting?.sweetnessIntensity },
+  { key: 'sensationRecord.quickTasting.mouthfeelIntensity', header: 'Quick Mouthfeel Intensity', value: r => r.quickTasting?.mouthfeelIntensity },
+  {
+    key: 'sensationRecord.quickTasting.flavorAftertasteDescriptors',
+    header: 'Quick Flavor/Aftertaste Descriptors',
+    value: r => joinDescriptors(r.quickTasting?.flavorAftertasteDescriptors)
+  },
+  { key: 'sensationRecord.quickTasting.overallQuality', header: 'Quick Overall Quality', value: r => r.quickTasting?.overallQuality }
+];
+
+/**
+ * Column groups in export order. Legacy columns keep their original headers so
+ * existing spreadsheets line up; the other systems are prefixed (SCA, CVA-D, CVA-A, Quick).
+ */
+export const EVALUATION_EXPORT_GROUPS: EvaluationExportGroupDefinition[] = [
+  {
+    group: 'legacy',
+    label: 'Legacy 1-10 Scores',
+    columns: legacyColumns,
+    hasData: record => legacyColumns.some(column => column.value(record) !== undefined && column.value(record) !== '')
+  },
+  {
+    group: 'traditionalSCA',
+    label: 'SCA 2004 Cupping',
+    sheetName: 'SCA 2004',
+    columns: scaColumns,
+    hasData: record => hasAnyValue(record.traditionalSCA)
+  },
+  {
+    group: 'cvaDescriptive',
+    label: 'CVA Descriptive',
+    sheetName: 'CVA Descriptive',
+    columns: cvaDescriptiveColumns,
+    hasData: record => hasAnyValue(record.cvaDescriptive)
+  },
+  {
+    group: 'cvaAffective',
+    label: 'CVA Affective',
+    sheetName: 'CVA Affective',
+    columns: cvaAffectiveColumns,
+    hasData: record => hasAnyValue(record.cvaAffective)
+  },
+  {
+    group: 'quickTasting',
+    label: 'Quick Tasting',
+    sheetName: 'Quick Tasting',
+    columns: quickTastingColumns,
+    hasData: record => hasAnyValue(record.quickTasting)
+  }
+];
+
+// Sheets the Excel export adds next to the main recipe sheet
+const RESERVED_WORKSHEET_NAMES = [
+  ...EVALUATION_EXPORT_GROUPS.flatMap(definition => definition.sheetName ? [definition.sheetName] : []),
+  'Summary',
+  'Export Info'
+];
+
+/**
+ * Whether a main worksheet name would clash with a sheet the export adds itself.
+ * Excel compares sheet names case-insensitively.
+ */
+export const isReservedWorksheetName = (name: string): boolean =>
+  RESERVED_WORKSHEET_NAMES.some(reserved => reserved.toLowerCase() === name.trim().toLowerCase());
+
+// Columns kept when a caller asks for a summary instead of full details
+export const SUMMARY_EXPORT_FIELDS = [
+  'recipeName',
+  'dateCreated',
+  'dateModified',
+  'isFavorite',
+  'beanInfo.origin',
+  'brewingParameters.brewingMethod',
+  'sensationRecord.overallImpression',
+  'measurements.coffeeWaterRatio',
+  'collections'
+];
@@ -0,0 +1,100 @@
+// Grind setting translation between grinders via approximate particle size
+
+import type { Equipment, GrinderCalibrationPoint, GrinderSettingScale } from '../types/equipment.js';
+import { getBuiltInCalibration } from '../constants/grinderCalibrations.js';
+
+export interface GrindConversion {
+  setting: string; // Setting on the target grinder, rounded to its scale
+  microns: number; // Approximate particle size the conversion is based on
+}
+
+// Linear interpolation over a table sorted by `from`, extending the end segments past the table
+const interpolate = (points: Array<{ from: number; to: number }>, value: number): number => {
+  const first = points[0]!;
+  if (points.length === 1) return first.to;
+
+  let lower = first;
+  let upper = points[1]!;
+  for (let i = 1; i < points.length - 1 && value > upper.from; i++) {
+    lower = points[i]!;
+    upper = points[i + 1]!;
+  }
+
+  if (upper.from === lower.from) return lower.to;
+  return lower.to + (value - lower.from) * (upper.to - lower.to) / (upper.from - lower.from);
+};
+
+/**
+ * Calibration table for a grinder: the registry grinder's own table first, then the built-in one
+ * @param grinderModel - Grinder model name as saved on the recipe
+ * @param grinder - Registry grinder the recipe references, if any
+ * @returns Calibration points, or undefined when the grinder is unknown
+ */
+export const getGrinderCalibration = (
+  grinderModel: string,
+  grinder?: Pick<Equipment, 'calibration'>
+): GrinderCalibrationPoint[] | undefined => {
+  if (grinder?.calibration && grinder.calibration.length >= 2) {
+    return grinder.calibration;
+  }
+  return getBuiltInCalibration(grinderModel);
+};
+
+/**
+ * Approximate particle size at a grinder setting
+ */
+export const settingToMicrons = (calibration: GrinderCalibrationPoint[], setting: number): number => {
+  const points = calibration.map(point => ({ from: point.setting, to: point.microns }));
+  return Math.max(0, Math.round(interpolate(points, setting)));
+};
+
+/**
+ * Grinder setting that produces roughly the given particle size
+ */
+export const micronsToSetting = (calibration: GrinderCalibrationPoint[], microns: number): number => {
+  const points = calibration.map(point => ({ from: point.microns, to: point.setting }));
+  return interpolate(points, microns);
+};
+
+/**
+ * Round a setting to the step of a grinder scale and keep it within the scale
+ */
+export const snapToScale = (setting: number, scale?: GrinderSettingScale): string => {
+  if (!scale) return String(Math.round(setting));
+
+  const decimals = (scale.step.toString().split('.')[1] || '').length;
+  const steps = Math.round((setting - scale.min) / scale.step);
+  const snapped = Math.min(scale.max, Math.max(scale.min, scale.min + steps * scale.step));
+  return snapped.toFixed(decimals);
+};
+
+/**
+ * Translate a grind setting from one grinder to another
+ * @param setting - Setting on the source grinder (e.g. a recipe's grinderUnit)
+ * @param from - Source grinder calibration
+ * @param to - Target grinder calibration
+ * @param toScale - Target grinder scale for rounding, whole numbers when omitted
+ * @returns The converted setting, or null when the source setting is not numeric
+ */
+export const convertGrindSetting = (
+  setting: string | number,
+  from: GrinderCalibrationPoint[],
+  to: GrinderCalibrationPoint[],
+  toScale?: GrinderSettingScale
+): GrindConversion | null => {
+  const value = typeof setting === 'number' ? setting : parseFloat(setting);
+  if (isNaN(value) || from.length === 0 || to.length === 0) return null;
+
+  const microns = settingToMicrons(from, value);
+  return {
+    setting: snapToScale(micronsToSetting(to, microns), toScale),
+    microns
+  };
+};
+
+/**
+ * Format a particle size for display, e.g. "≈ 650 µm"
+ */
+export const formatMicrons = (microns: number): string => {
+  return `≈ ${Math.round(microns)} µm`;
+};
@@ -0,0 +1,106 @@
+import type { Recipe, SensationRecord } from '../types/recipe.js';
+import type { ShareOptions } from '../types/share.js';
+
+type EvaluationSection = 'traditionalSCA' | 'cvaDescriptive' | 'cvaAffective' | 'quickTasting';
+type SharedFieldGroup = 'ratings' | 'tastingNotes' | 'personalNotes';
+
+// Top-level fields of the legacy 1-10 form
+const LEGACY_FIELDS: Record<SharedFieldGroup, (keyof SensationRecord)[]> = {
+  ratings: ['overallImpression', 'acidity', 'body', 'sweetness', 'flavor', 'aftertaste', 'balance'],
+  tastingNotes: ['tastingNotes'],
+  personalNotes: []
+};
+
+// Fields of each evaluation form a share link may carry, by the option that reveals them.
+// Anything not listed here never leaves the server.
+const EVALUATION_FIELDS: { [S in EvaluationSection]: Record<SharedFieldGroup, (keyof NonNullable<SensationRecord[S]>)[]> } = {
+  traditionalSCA: {
+    ratings: [
+      'fragrance', 'aroma', 'flavor', 'aftertaste', 'acidity', 'body', 'balance', 'sweetness',
+      'cleanCup', 'uniformity', 'overall', 'taintDefects', 'faultDefects', 'finalScore'
+    ],
+    tastingNotes: [],
+    personalNotes: []
+  },
+  cvaDescriptive: {
+    ratings: ['fragrance', 'aroma', 'flavor', 'aftertaste', 'acidity', 'sweetness', 'mouthfeel'],
+    tastingNotes: [
+      'fragranceAromaDescriptors', 'flavorAftertasteDescriptors', 'mainTastes', 'mouthfeelDescriptors',
+      'acidityDescriptors', 'sweetnessDescriptors', 'additionalNotes', 'roastLevel', 'assessmentDate'
+    ],
+    personalNotes: ['assessorId']
+  },
+  cvaAffective: {
+    ratings: [
+      'fragrance', 'aroma', 'flavor', 'aftertaste', 'acidity', 'sweetness', 'mouthfeel', 'overall',
+      'nonUniformCups', 'defectiveCups', 'cvaScore'
+    ],
+    tastingNotes: [],
+    personalNotes: []
+  },
+  quickTasting: {
+    ratings: ['flavorIntensity', 'aftertasteIntensity', 'acidityIntensity', 'sweetnessIntensity', 'mouthfeelIntensity', 'overallQuality'],
+    tastingNotes: ['flavorAftertasteDescriptors'],
+    personalNotes: []
+  }
+};
+
+// Copy the listed fields that are set
+const pickFields = <T extends object>(source: T | undefined, keys: (keyof T)[]): Partial<T> => {
+  const picked: Partial<T> = {};
+  keys.forEach(key => {
+    if (source?.[key] !== undefined) picked[key] = source[key];
+  });
+  return picked;
+};
+
+const redactSensationRecord = (record: SensationRecord, options: ShareOptions): SensationRecord => {
+  const groups: SharedFieldGroup[] = [];
+  if (options.includeRatings) groups.push('ratings');
+  if (options.includeTastingNotes) groups.push('tastingNotes');
+  if (options.includePersonalNotes) groups.push('personalNotes');
+
+  const redacted: SensationRecord = {
+    evaluationSystem: record.evaluationSystem,
+    ...pickFields(record, groups.flatMap(group => LEGACY_FIELDS[group]))
+  };
+  (Object.keys(EVALUATION_FIELDS) as EvaluationSection[]).forEach(section => {
+    const fields = groups.flatMap(group => EVALUATION_FIELDS[section][group]);
+    const values = pickFields(record[section] as object | undefined, fields as never[]);
+    if (Object.keys(values).length > 0) {
+      (redacted as Record<EvaluationSection, object>)[section] = values;
+    }
+  });
+  return redacted;
+};
+
+/**
+ * Remove what a share link should not reveal from a recipe. The owner's
+ * collection memberships and registry links are always dropped; ratings,
+ * tasting notes and personal notes only when the options exclude them.
+ */
+export const redactSharedRecipe = (recipe: Recipe, options: ShareOptions): Recipe => {
+  const { ownerId, ...rest } = recipe;
+  const {
+    beanId,
+    ...beanInfo
+  } = recipe.beanInfo;
+  const {
+    grinderId,
+    brewerId,
+    filterId,
+    kettleId,
+    waterProfileId,
+    additionalNotes,
+    ...brewingParameters
+  } = recipe.brewingParameters;
+
+  return {
+    ...rest,
+    isFavorite: false,
+    collections: [],
+    beanInfo,
+    brewingParameters: options.includePersonalNotes ? { ...brewingParameters, additionalNotes } : brewingParameters,
+    sensationRecord: redactSensationRecord(recipe.sensationRecord, options)
+  };
+};
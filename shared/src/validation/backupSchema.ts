@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { CollectionColor } from '../types/collection.js';
+import { SmartCollectionRuleSchema } from './collectionSchema.js';
+import { ExperimentVariableSchema } from './experimentSchema.js';
+
+const DateSchema = z.string().datetime('Must be a valid datetime string');
+
+// Recipe sections are checked field by field when the restore is planned
+const SectionSchema = z.object({}).passthrough();
+
+const BackupRecipeSchema = z.object({
+  recipeId: z.string().uuid('Recipe ID must be a valid UUID'),
+  recipeName: z.string(),
+  dateCreated: DateSchema,
+  dateModified: DateSchema,
+  isFavorite: z.boolean().default(false),
+  collections: z.array(z.string()).default([]),
+  beanInfo: SectionSchema,
+  brewingParameters: SectionSchema,
+  turbulenceInfo: SectionSchema.default({}),
+  measurements: SectionSchema,
+  sensationRecord: SectionSchema.default({})
+}).passthrough();
+
+const BackupCollectionSchema = z.object({
+  collectionId: z.string().uuid('Collection ID must be a valid UUID'),
+  name: z.string().trim().min(1, 'Collection name is required').max(100, 'Collection name must be 100 characters or less'),
+  description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  color: z.nativeEnum(CollectionColor).default(CollectionColor.BLUE),
+  isPrivate: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+  tags: z.array(z.string()).default([]),
+  rule: SmartCollectionRuleSchema.optional(),
+  parentId: z.string().uuid('Parent collection ID must be a valid UUID').optional(),
+  dateCreated: DateSchema,
+  dateModified: DateSchema
+}).passthrough();
+
+const BackupMembershipSchema = z.object({
+  recipeId: z.string().uuid('Recipe ID must be a valid UUID'),
+  collectionId: z.string().uuid('Collection ID must be a valid UUID'),
+  dateAssigned: DateSchema
+});
+
+// Library records and brew sessions are checked against their input schemas when the restore is planned
+const BackupRecordSchema = (idField: string, label: string) => z.object({
+  [idField]: z.string().uuid(`${label} ID must be a valid UUID`)
+}).passthrough();
+
+const BackupBrewSessionSchema = z.object({
+  sessionId: z.string().uuid('Brew session ID must be a valid UUID'),
+  recipeId: z.string().uuid('Recipe ID must be a valid UUID'),
+  brewDate: DateSchema,
+  dateCreated: DateSchema,
+  dateModified: DateSchema
+}).passthrough();
+
+const BackupRevisionSchema = z.object({
+  revisionId: z.string().uuid('Revision ID must be a valid UUID'),
+  recipeId: z.string().uuid('Recipe ID must be a valid UUID'),
+  revisionNumber: z.number().int().positive('Revision number must be a positive integer'),
+  snapshot: SectionSchema,
+  changedFields: z.array(z.string()).default([]),
+  restoredFrom: z.number().int().positive().optional(),
+  dateCreated: DateSchema
+});
+
+const BackupExperimentSchema = z.object({
+  experimentId: z.string().uuid('Experiment ID must be a valid UUID'),
+  name: z.string().trim().min(1, 'Experiment name is required').max(100, 'Experiment name must be 100 characters or less'),
+  baseRecipeId: z.string().uuid('Base recipe ID must be a valid UUID').optional(),
+  baseRecipeName: z.string(),
+  variable: ExperimentVariableSchema,
+  status: z.enum(['tasting', 'completed']),
+  notes: z.string().max(2000, 'Notes must be 2000 characters or less').optional(),
+  variants: z.array(z.object({
+    code: z.string().min(1, 'Variant code is required'),
+    recipeId: z.string().uuid('Variant recipe ID must be a valid UUID'),
+    value: z.union([z.string(), z.number()]),
+    label: z.string(),
+    isBaseline: z.boolean()
+  })),
+  dateCreated: DateSchema,
+  dateModified: DateSchema,
+  dateCompleted: DateSchema.optional()
+});
+
+// Any supported backup version; migrateBackup brings it to the current format
+export const BackupDataSchema = z.object({
+  version: z.string().min(1, 'Backup version is required'),
+  timestamp: DateSchema,
+  metadata: z.object({}).passthrough(),
+  recipes: z.array(BackupRecipeSchema),
+  collections: z.array(BackupCollectionSchema).optional(),
+  memberships: z.array(BackupMembershipSchema).optional(),
+  beans: z.array(BackupRecordSchema('beanId', 'Bean')).optional(),
+  equipment: z.array(BackupRecordSchema('equipmentId', 'Equipment')).optional(),
+  waterProfiles: z.array(BackupRecordSchema('waterProfileId', 'Water profile')).optional(),
+  savedSearches: z.array(BackupRecordSchema('id', 'Saved search')).optional(),
+  brewSessions: z.array(BackupBrewSessionSchema).optional(),
+  revisions: z.array(BackupRevisionSchema).optional(),
+  experiments: z.array(BackupExperimentSchema).optional()
+}).passthrough();
+
+export const BackupRestoreOptionsSchema = z.object({
+  includeRecipes: z.boolean().default(true),
+  includeCollections: z.boolean().default(true),
+  includeLibrary: z.boolean().default(true),
+  overwriteExisting: z.boolean().default(false),
+  dryRun: z.boolean().default(false)
+}).refine(
+  options => options.includeRecipes || options.includeCollections || options.includeLibrary,
+  { message: 'Choose recipes, collections or the library to restore' }
+);
+
+// Restore request schema (POST /api/restore)
+export const BackupRestoreRequestSchema = z.object({
+  backup: BackupDataSchema,
+  options: BackupRestoreOptionsSchema.default({})
+});
+
+// Export type inference helpers
+export type BackupDataSchemaType = z.infer<typeof BackupDataSchema>;
+export type BackupRestoreRequestSchemaType = z.infer<typeof BackupRestoreRequestSchema>;
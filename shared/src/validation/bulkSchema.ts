@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { BeanInfoSchema, BrewingParametersSchema, MeasurementsInputSchema } from './recipeSchema.js';
+import { SearchFiltersSchema } from './searchSchema.js';
+
+// Most recipes one bulk edit may touch
+export const BULK_EDIT_LIMIT = 500;
+
+const CollectionIdsSchema = z.array(z.string().uuid('Collection ID must be a valid UUID'))
+  .max(20, 'Too many collections selected')
+  .optional();
+
+// Bulk changes validation schema. Sections are strict so a misspelt field is rejected
+// instead of silently changing nothing.
+export const BulkRecipeChangesSchema = z.object({
+  isFavorite: z.boolean().optional(),
+  beanInfo: BeanInfoSchema.partial().strict().optional(),
+  brewingParameters: BrewingParametersSchema.partial().strict().optional(),
+  measurements: MeasurementsInputSchema.partial().strict().optional(),
+  addToCollections: CollectionIdsSchema,
+  removeFromCollections: CollectionIdsSchema
+}).strict().refine(
+  changes => Object.values(changes).some(value =>
+    value !== undefined && (typeof value !== 'object' || Object.keys(value).length > 0)
+  ),
+  { message: 'No changes provided' }
+).refine(
+  changes => !changes.addToCollections?.some(id => changes.removeFromCollections?.includes(id)),
+  { message: 'A collection cannot be both added and removed', path: ['removeFromCollections'] }
+);
+
+// Bulk edit request validation schema (PATCH /api/recipes/bulk)
+export const BulkRecipeUpdateSchema = z.object({
+  recipeIds: z.array(z.string().uuid('Recipe ID must be a valid UUID'))
+    .min(1, 'Select at least one recipe')
+    .max(BULK_EDIT_LIMIT, `At most ${BULK_EDIT_LIMIT} recipes can be edited at once`)
+    .optional(),
+  filters: SearchFiltersSchema.optional(),
+  changes: BulkRecipeChangesSchema
+}).refine(
+  request => (request.recipeIds === undefined) !== (request.filters === undefined),
+  { message: 'Provide either recipeIds or filters', path: ['recipeIds'] }
+);
+
+// Export type inference helpers
+export type BulkRecipeChangesSchemaType = z.infer<typeof BulkRecipeChangesSchema>;
+export type BulkRecipeUpdateSchemaType = z.infer<typeof BulkRecipeUpdateSchema>;
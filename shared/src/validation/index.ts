@@ -12,6 +12,36 @@ export * from './searchSchema.js';
 // Export validation
 export * from './exportSchema.js';
 
+// Brew session validation
+export * from './sessionSchema.js';
+
+// Bean inventory validation
+export * from './beanSchema.js';
+
+// Equipment registry validation
+export * from './equipmentSchema.js';
+
+// Water profile validation
+export * from './waterSchema.js';
+
+// Bulk edit validation
+export * from './bulkSchema.js';
+
+// User account validation
+export * from './userSchema.js';
+
+// Share link validation
+export * from './shareSchema.js';
+
+// Spreadsheet import validation
+export * from './importSchema.js';
+
+// Backup restore validation
+export * from './backupSchema.js';
+
+// Experiment validation
+export * from './experimentSchema.js';
+
 // Common validation utilities
 import { z } from 'zod';
 
@@ -20,6 +20,7 @@ export const ProcessingMethodFieldSchema = z.any().optional();
 export const AltitudeFieldSchema = z.any().optional();
 export const RoastingDateFieldSchema = z.any().optional();
 export const RoastingLevelFieldSchema = z.any().optional();
+export const BeanIdFieldSchema = z.any().optional();
 
 // Bean Information validation schema
 export const BeanInfoSchema = z.object({
@@ -27,7 +28,8 @@ export const BeanInfoSchema = z.object({
   processingMethod: ProcessingMethodFieldSchema,
   altitude: AltitudeFieldSchema,
   roastingDate: RoastingDateFieldSchema,
-  roastingLevel: RoastingLevelFieldSchema
+  roastingLevel: RoastingLevelFieldSchema,
+  beanId: BeanIdFieldSchema
 });
 
 // Individual Brewing Parameters field schemas for isolated validation
@@ -51,6 +53,10 @@ export const TurbulenceStepSchema = z.object({
 export const TurbulenceFieldSchema = z.any().optional();
 
 export const AdditionalNotesFieldSchema = z.any().optional();
+// Equipment registry references (UUIDs), checked against the registry when a recipe is saved
+export const EquipmentIdFieldSchema = z.any().optional();
+// Brew water profile reference (UUID), checked against the stored profiles when a recipe is saved
+export const WaterProfileIdFieldSchema = z.any().optional();
 
 // Brewing Parameters validation schema
 export const BrewingParametersSchema = z.object({
@@ -60,7 +66,12 @@ export const BrewingParametersSchema = z.object({
   grinderUnit: GrinderUnitFieldSchema,
   filteringTools: FilteringToolsFieldSchema,
   turbulence: TurbulenceFieldSchema,
-  additionalNotes: AdditionalNotesFieldSchema
+  additionalNotes: AdditionalNotesFieldSchema,
+  grinderId: EquipmentIdFieldSchema,
+  brewerId: EquipmentIdFieldSchema,
+  filterId: EquipmentIdFieldSchema,
+  kettleId: EquipmentIdFieldSchema,
+  waterProfileId: WaterProfileIdFieldSchema
 });
 
 // Individual Measurements field schemas for isolated validation
@@ -162,6 +173,17 @@ export const CVAAffectiveAssessmentSchema = z.object({
   cvaScore: z.any().optional()
 }).optional();
 
+// Quick Tasting Assessment validation - NO CONSTRAINTS
+export const QuickTastingAssessmentSchema = z.object({
+  flavorIntensity: z.any().optional(),
+  aftertasteIntensity: z.any().optional(),
+  acidityIntensity: z.any().optional(),
+  sweetnessIntensity: z.any().optional(),
+  mouthfeelIntensity: z.any().optional(),
+  flavorAftertasteDescriptors: z.any().optional(),
+  overallQuality: z.any().optional()
+}).optional();
+
 // Helper function to check if at least one tasting field is filled
 const hasAtLeastOneTastingField = (data: any): boolean => {
   // Check legacy Quick Tasting fields
@@ -219,7 +241,8 @@ export const SensationRecordWithEvaluationSchema = z.object({
   // New evaluation systems
   traditionalSCA: TraditionalSCAEvaluationSchema,
   cvaDescriptive: CVADescriptiveAssessmentSchema,
-  cvaAffective: CVAAffectiveAssessmentSchema
+  cvaAffective: CVAAffectiveAssessmentSchema,
+  quickTasting: QuickTastingAssessmentSchema
 });
 
 // Legacy Sensation Record validation schema (1-10 scale validation)
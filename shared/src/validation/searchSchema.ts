@@ -2,7 +2,7 @@ import { z } from 'zod';
 import { RoastingLevelSchema, BrewingMethodSchema } from './recipeSchema.js';
 
 // Sort Option enum schema
-export const SortOptionSchema = z.enum(['date-created', 'date-modified', 'overall-impression', 'recipe-name']);
+export const SortOptionSchema = z.enum(['date-created', 'date-modified', 'overall-impression', 'recipe-name', 'origin', 'coffee-water-ratio']);
 
 // Sort Direction schema
 export const SortDirectionSchema = z.enum(['asc', 'desc']);
@@ -33,6 +33,7 @@ export const SearchFiltersSchema = z.object({
   origins: z.array(z.string().min(1).max(100)).max(50, 'Too many origins selected').optional(),
   roastingLevels: z.array(RoastingLevelSchema).max(10, 'Too many roasting levels selected').optional(),
   brewingMethods: z.array(BrewingMethodSchema).max(10, 'Too many brewing methods selected').optional(),
+  waterProfileIds: z.array(z.string().uuid('Water profile ID must be a valid UUID')).max(20, 'Too many water profiles selected').optional(),
   
   // Numeric range filters
   overallImpressionRange: z.tuple([
@@ -43,12 +44,26 @@ export const SearchFiltersSchema = z.object({
   }).optional(),
   
   altitudeRange: NumericRangeSchema.optional(),
+  coffeeWaterRatioRange: NumericRangeSchema.optional(),
+  tdsRange: z.tuple([
+    z.number().min(0, 'Minimum TDS must be non-negative'),
+    z.number().max(30, 'Maximum TDS must be at most 30%')
+  ]).refine(([min, max]) => min <= max, {
+    message: 'Minimum TDS must be less than or equal to maximum TDS'
+  }).optional(),
+  scoreRange: z.tuple([
+    z.number().min(0, 'Minimum score must be at least 0'),
+    z.number().max(100, 'Maximum score must be at most 100')
+  ]).refine(([min, max]) => min <= max, {
+    message: 'Minimum score must be less than or equal to maximum score'
+  }).optional(),
   
   // Date filters
   dateRange: DateRangeSchema.optional(),
   
   // Boolean filters
   favoritesOnly: z.boolean().optional(),
+  hasRating: z.boolean().optional(),
   
   // Collection filters
   collections: z.array(z.string().min(1).max(100)).max(20, 'Too many collections selected').optional(),
@@ -112,6 +127,16 @@ export const SavedSearchSchema = z.object({
   lastUsed: z.string().datetime()
 });
 
+// Saved Search input schema (for creation)
+export const SavedSearchInputSchema = SavedSearchSchema.pick({
+  name: true,
+  filters: true,
+  sort: true
+});
+
+// Saved Search update schema (partial updates allowed)
+export const SavedSearchUpdateSchema = SavedSearchInputSchema.partial();
+
 // Search Suggestion schema
 export const SearchSuggestionSchema = z.object({
   type: z.enum(['recipe', 'origin', 'collection', 'term']),
@@ -184,7 +209,135 @@ export const transformSearchFilters = (filters: z.infer<typeof SearchFiltersSche
   };
 };
 
+// Query string helpers - GET /api/recipes carries the search request as flat query parameters
+// (repeated keys for lists, min/max pairs for ranges) so it can be bookmarked and cached
+const toQueryArray = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(String).filter(Boolean);
+};
+
+const toQueryNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+};
+
+const toQueryBoolean = (value: unknown): boolean | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return value === true || value === 'true' || value === '1';
+};
+
+const toQueryRange = (min: unknown, max: unknown, defaults: [number, number]): [number, number] | undefined => {
+  const minValue = toQueryNumber(min);
+  const maxValue = toQueryNumber(max);
+  if (minValue === undefined && maxValue === undefined) return undefined;
+  return [minValue ?? defaults[0], maxValue ?? defaults[1]];
+};
+
+// Convert parsed query parameters into a raw search request object (validated afterwards)
+export const parseSearchRequestQuery = (query: unknown) => {
+  if (!query || typeof query !== 'object') return query;
+  const q = query as Record<string, unknown>;
+
+  const filters = {
+    searchTerm: typeof q.searchTerm === 'string' && q.searchTerm.trim() ? q.searchTerm : undefined,
+    origins: toQueryArray(q.origins),
+    roastingLevels: toQueryArray(q.roastingLevels),
+    brewingMethods: toQueryArray(q.brewingMethods),
+    waterProfileIds: toQueryArray(q.waterProfiles),
+    overallImpressionRange: toQueryRange(q.minImpression, q.maxImpression, [1, 10]),
+    altitudeRange: toQueryRange(q.minAltitude, q.maxAltitude, [0, 10000]),
+    coffeeWaterRatioRange: toQueryRange(q.minRatio, q.maxRatio, [0, 100]),
+    tdsRange: toQueryRange(q.minTds, q.maxTds, [0, 30]),
+    scoreRange: toQueryRange(q.minScore, q.maxScore, [0, 100]),
+    dateRange: q.dateField || q.dateStart || q.dateEnd ? {
+      field: q.dateField ?? 'dateCreated',
+      start: q.dateStart ?? new Date(0).toISOString(),
+      end: q.dateEnd ?? new Date().toISOString()
+    } : undefined,
+    favoritesOnly: toQueryBoolean(q.favoritesOnly),
+    hasRating: toQueryBoolean(q.hasRating),
+    collections: toQueryArray(q.collections),
+    includeUncollected: toQueryBoolean(q.includeUncollected)
+  };
+
+  const page = toQueryNumber(q.page);
+  const limit = toQueryNumber(q.limit);
+
+  return {
+    filters,
+    sort: q.sortBy ? { field: q.sortBy, direction: q.sortOrder ?? 'desc' } : undefined,
+    pagination: page !== undefined || limit !== undefined ? { page: page ?? 1, limit: limit ?? 20 } : undefined
+  };
+};
+
+// Search request schema for Express query objects
+export const SearchRequestQuerySchema = z.preprocess(parseSearchRequestQuery, SearchRequestSchema);
+
+// Full-text search query schema (GET /api/recipes/search/text)
+export const TextSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200, 'Search query must be 200 characters or less'),
+  limit: z.coerce.number().int().min(1).max(50, 'Limit must be at most 50').default(10)
+});
+
+// Flatten a search request into query parameters understood by parseSearchRequestQuery
+export const searchRequestToQueryParams = (request: {
+  filters?: Partial<z.infer<typeof SearchFiltersSchema>>;
+  sort?: z.infer<typeof SortConfigSchema>;
+  pagination?: z.infer<typeof PaginationSchema>;
+}): URLSearchParams => {
+  const params = new URLSearchParams();
+  const filters = request.filters ?? {};
+
+  if (filters.searchTerm?.trim()) params.set('searchTerm', filters.searchTerm.trim());
+  filters.origins?.forEach(origin => params.append('origins', origin));
+  filters.roastingLevels?.forEach(level => params.append('roastingLevels', level));
+  filters.brewingMethods?.forEach(method => params.append('brewingMethods', method));
+  filters.waterProfileIds?.forEach(id => params.append('waterProfiles', id));
+  filters.collections?.forEach(collection => params.append('collections', collection));
+
+  const ranges: Array<[readonly unknown[] | undefined, string, string]> = [
+    [filters.overallImpressionRange, 'minImpression', 'maxImpression'],
+    [filters.altitudeRange, 'minAltitude', 'maxAltitude'],
+    [filters.coffeeWaterRatioRange, 'minRatio', 'maxRatio'],
+    [filters.tdsRange, 'minTds', 'maxTds'],
+    [filters.scoreRange, 'minScore', 'maxScore']
+  ];
+  ranges.forEach(([range, minKey, maxKey]) => {
+    if (range && range.length === 2) {
+      params.set(minKey, String(range[0]));
+      params.set(maxKey, String(range[1]));
+    }
+  });
+
+  if (filters.dateRange) {
+    params.set('dateField', filters.dateRange.field);
+    params.set('dateStart', filters.dateRange.start);
+    params.set('dateEnd', filters.dateRange.end);
+  }
+
+  if (filters.favoritesOnly) params.set('favoritesOnly', 'true');
+  if (filters.hasRating) params.set('hasRating', 'true');
+  if (filters.includeUncollected) params.set('includeUncollected', 'true');
+
+  if (request.sort) {
+    params.set('sortBy', request.sort.field);
+    params.set('sortOrder', request.sort.direction);
+  }
+
+  if (request.pagination) {
+    params.set('page', String(request.pagination.page));
+    params.set('limit', String(request.pagination.limit));
+  }
+
+  return params;
+};
+
 // Export type inference helpers
 export type SearchFiltersSchemaType = z.infer<typeof SearchFiltersSchema>;
+export type TextSearchQuerySchemaType = z.infer<typeof TextSearchQuerySchema>;
 export type SearchRequestSchemaType = z.infer<typeof SearchRequestSchema>;
-export type SortConfigSchemaType = z.infer<typeof SortConfigSchema>;
\ No newline at end of file
+export type SortConfigSchemaType = z.infer<typeof SortConfigSchema>;
+export type SavedSearchInputSchemaType = z.infer<typeof SavedSearchInputSchema>;
+export type SavedSearchUpdateSchemaType = z.infer<typeof SavedSearchUpdateSchema>;
\ No newline at end of file
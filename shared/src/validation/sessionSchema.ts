@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { SensationRecordWithEvaluationSchema } from './recipeSchema.js';
+
+// Session measurements validation schema (all values optional, ratio is calculated)
+export const BrewSessionMeasurementsSchema = z.object({
+  coffeeBeans: z.number().positive('Coffee beans must be a positive number').max(1000, 'Coffee beans must be 1000g or less').optional(),
+  water: z.number().positive('Water must be a positive number').max(5000, 'Water must be 5000g or less').optional(),
+  brewedCoffeeWeight: z.number().positive('Brewed coffee weight must be a positive number').max(5000, 'Brewed coffee weight must be 5000g or less').optional(),
+  tds: z.number().min(0, 'TDS cannot be negative').max(30, 'TDS must be 30% or less').optional(),
+  extractionYield: z.number().min(0, 'Extraction yield cannot be negative').max(40, 'Extraction yield must be 40% or less').optional()
+});
+
+// Brew Session Input validation schema (for creation)
+export const BrewSessionInputSchema = z.object({
+  brewDate: z.string().datetime('Brew date must be a valid datetime').optional(),
+  measurements: BrewSessionMeasurementsSchema.default({}),
+  evaluation: SensationRecordWithEvaluationSchema.default({}),
+  notes: z.string().max(2000, 'Notes must be 2000 characters or less').optional()
+});
+
+// Brew Session Update validation schema (partial updates allowed)
+export const BrewSessionUpdateSchema = BrewSessionInputSchema.partial();
+
+// Custom validation functions
+export const validateBrewSessionInput = (data: unknown) => {
+  return BrewSessionInputSchema.safeParse(data);
+};
+
+export const validateBrewSessionUpdate = (data: unknown) => {
+  return BrewSessionUpdateSchema.safeParse(data);
+};
+
+// Export type inference helpers
+export type BrewSessionInputSchemaType = z.infer<typeof BrewSessionInputSchema>;
+export type BrewSessionUpdateSchemaType = z.infer<typeof BrewSessionUpdateSchema>;
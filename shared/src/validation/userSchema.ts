@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Login names are case-insensitive and stored lowercased
+const UsernameSchema = z.string()
+  .trim()
+  .min(3, 'Username must be at least 3 characters')
+  .max(50, 'Username must be 50 characters or less')
+  .regex(/^[a-zA-Z0-9._-]+$/, 'Username can only contain letters, numbers, dots, dashes and underscores')
+  .transform(username => username.toLowerCase());
+
+// Login validation schema (only presence is checked; wrong credentials fail as a whole)
+export const LoginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').transform(username => username.toLowerCase()),
+  password: z.string().min(1, 'Password is required')
+});
+
+// Registration validation schema
+export const RegisterSchema = z.object({
+  username: UsernameSchema,
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128, 'Password must be 128 characters or less'),
+  displayName: z.string().trim().min(1, 'Display name cannot be empty').max(100, 'Display name must be 100 characters or less').optional()
+});
+
+// Export type inference helpers
+export type LoginSchemaType = z.infer<typeof LoginSchema>;
+export type RegisterSchemaType = z.infer<typeof RegisterSchema>;